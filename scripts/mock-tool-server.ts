@@ -0,0 +1,520 @@
+#!/usr/bin/env node
+/**
+ * Mock Tool Server for deterministic browser-automation runs
+ *
+ * Serves the HTTP surface of ToolServerClient (src/lib/tool-server/client.ts) against scripted
+ * page fixtures instead of a real browser, plus the Supabase endpoints the Orchestrator touches:
+ * - POST /functions/v1/tool-server-vision: fake Lux / Gemini providers with seeded coordinate noise
+ * - /rest/v1/*: accepts writes and returns empty reads (no saved procedures, empty coordinate cache)
+ *
+ * Screenshots are not images: image_base64 encodes the session and page URL, which is what the
+ * fake vision providers read back to locate the target on the fixture page.
+ *
+ * Usage (standalone, to point the web app's Tool Server URL at a fixture):
+ *   npx tsx scripts/mock-tool-server.ts tests/browser-scenarios/login-form.json [--port 8766]
+ * Vision calls only reach the fake providers when VITE_SUPABASE_URL points here as well,
+ * which is what scripts/run-browser-scenarios.ts does.
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { fileURLToPath } from 'url';
+
+// ============================================================
+// Fixture types
+// ============================================================
+
+export interface FixtureElement {
+  ref: string;                 // e.g. "e3", as in the text snapshot
+  role: string;                // button, textbox, link...
+  name: string;                // Accessible name, matched by text lookups and by the fake vision
+  selector?: string;           // CSS selector accepted by element_rect (exact match)
+  tag?: string;
+  text?: string;               // Text content (defaults to name)
+  placeholder?: string;
+  label?: string;
+  test_id?: string;
+  aliases?: string[];          // Other descriptions the fake vision recognises
+  box: { x: number; y: number; width: number; height: number };  // Top-left + size, viewport px
+  dom_offset?: { x: number; y: number };  // element_rect reports the box shifted (stale layout, transforms)
+  visible?: boolean;           // Default true
+  navigates_to?: string;       // Click → navigate
+  on_enter?: string;           // Enter while focused → navigate
+}
+
+export interface FixturePage {
+  title: string;
+  elements: FixtureElement[];
+}
+
+export interface VisionProviderConfig {
+  noise_px?: number;                                  // Uniform noise on each axis (seeded)
+  offset?: { x: number; y: number };                  // Systematic bias
+  confidence?: number;                                // Default 0.9
+  miss?: string[];                                    // Targets (substring) the provider can't find
+  overrides?: Record<string, { x: number; y: number }>;  // Target (substring) → fixed answer
+}
+
+export interface MockFixture {
+  seed?: number;
+  strict_clicks?: boolean;     // Clicks that hit no element fail (the real Tool Server always succeeds)
+  pages: Record<string, FixturePage>;
+  vision?: { lux?: VisionProviderConfig; gemini?: VisionProviderConfig };
+}
+
+export interface MockAction {
+  endpoint: string;
+  url: string;
+  x?: number;
+  y?: number;
+  ref?: string | null;         // Element hit (null = empty area)
+  text?: string;
+  keys?: string;
+}
+
+export interface MockSession {
+  id: string;
+  url: string;
+  focused: string | null;
+  values: Record<string, string>;  // ref → typed value
+  actions: MockAction[];
+}
+
+export interface MockToolServer {
+  url: string;
+  sessions: Map<string, MockSession>;
+  visionCalls: { lux: number; gemini: number };
+  /** Swap the fixture: resets sessions, vision counters and noise streams */
+  load(fixture: MockFixture): void;
+  close(): Promise<void>;
+}
+
+const VIEWPORT = { width: 1260, height: 700 };
+const NOT_FOUND_PAGE: FixturePage = { title: 'Not Found', elements: [] };
+
+// ============================================================
+// Helpers
+// ============================================================
+
+// mulberry32: small seeded PRNG, one stream per vision provider so parallel calls stay deterministic
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const center = (element: FixtureElement) => ({
+  x: element.box.x + element.box.width / 2,
+  y: element.box.y + element.box.height / 2,
+});
+
+const isVisible = (element: FixtureElement) => element.visible !== false;
+
+const includesText = (haystack: string | undefined, needle: string) =>
+  !!haystack && haystack.toLowerCase().includes(needle.toLowerCase());
+
+function renderSnapshot(page: FixturePage): string {
+  return page.elements
+    .filter(isVisible)
+    .map(element => `- ${element.role} '${element.name}' [ref=${element.ref}]`)
+    .join('\n');
+}
+
+function elementAt(page: FixturePage, x: number, y: number): FixtureElement | null {
+  // Last element wins: fixtures list overlays after what they cover
+  const hits = page.elements.filter(element =>
+    isVisible(element) &&
+    x >= element.box.x && x <= element.box.x + element.box.width &&
+    y >= element.box.y && y <= element.box.y + element.box.height
+  );
+  return hits.length > 0 ? hits[hits.length - 1] : null;
+}
+
+/**
+ * element_rect lookup, Playwright-like: exact selector/ref/test_id, text = substring of the element text.
+ * A ref or selector wins over text, as the Tool Server builds a single locator from the most specific field.
+ */
+function findElements(page: FixturePage, query: Record<string, unknown>): FixtureElement[] {
+  const str = (key: string) => (typeof query[key] === 'string' && query[key] ? query[key] as string : null);
+  const ref = str('ref');
+  const selector = str('selector');
+  const text = str('text');
+  const role = str('role');
+  const roleName = str('role_name');
+  const testId = str('test_id');
+  const label = str('label');
+  const placeholder = str('placeholder');
+
+  return page.elements.filter(element => {
+    if (ref && element.ref !== ref) return false;
+    if (selector && element.selector !== selector) return false;
+    if (testId && element.test_id !== testId) return false;
+    if (role && element.role !== role) return false;
+    if (roleName && !includesText(element.name, roleName)) return false;
+    if (label && !includesText(element.label, label)) return false;
+    if (placeholder && !includesText(element.placeholder, placeholder)) return false;
+    if (text && !ref && !selector) {
+      const content = element.text ?? element.name;
+      if (query.text_exact ? content !== text : !includesText(content, text)) return false;
+    }
+    return !!(ref || selector || text || role || testId || label || placeholder);
+  });
+}
+
+/**
+ * Fake vision target resolution: the element whose name or alias appears in the description (longest wins)
+ */
+function resolveVisionTarget(page: FixturePage, description: string): FixtureElement | null {
+  let best: { element: FixtureElement; length: number } | null = null;
+  for (const element of page.elements.filter(isVisible)) {
+    for (const name of [element.name, ...(element.aliases || [])]) {
+      if (name && includesText(description, name) && (!best || name.length > best.length)) {
+        best = { element, length: name.length };
+      }
+    }
+  }
+  return best?.element ?? null;
+}
+
+function readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      if (!raw) return resolve({});
+      try {
+        const parsed = JSON.parse(raw);
+        resolve(parsed && typeof parsed === 'object' ? parsed : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+// ============================================================
+// Server
+// ============================================================
+
+export async function startMockToolServer(initialFixture: MockFixture, port = 0): Promise<MockToolServer> {
+  const sessions = new Map<string, MockSession>();
+  const visionCalls = { lux: 0, gemini: 0 };
+  let fixture = initialFixture;
+  let random = { lux: createRandom(1), gemini: createRandom(1) };
+  let sessionCounter = 0;
+
+  const load = (next: MockFixture) => {
+    fixture = next;
+    const seed = next.seed ?? 1;
+    random = { lux: createRandom(seed), gemini: createRandom(seed * 7919) };
+    visionCalls.lux = 0;
+    visionCalls.gemini = 0;
+    sessions.clear();
+    sessionCounter = 0;
+  };
+  load(initialFixture);
+
+  const pageOf = (session: MockSession) => fixture.pages[session.url] ?? NOT_FOUND_PAGE;
+
+  const snapshotFields = (session: MockSession) => {
+    const page = pageOf(session);
+    return {
+      snapshot: renderSnapshot(page),
+      snapshot_url: session.url,
+      snapshot_title: page.title,
+      snapshot_ref_count: page.elements.filter(isVisible).length,
+    };
+  };
+
+  const navigate = (session: MockSession, url: string) => {
+    session.url = url;
+    session.focused = null;
+  };
+
+  function fakeVision(provider: 'lux' | 'gemini', body: Record<string, unknown>) {
+    visionCalls[provider]++;
+    const config = fixture.vision?.[provider] ?? {};
+    const notFound = { success: false, x: null, y: null, confidence: 0 };
+
+    // Same inputs as Orchestrator.callLuxVision / callGeminiVision
+    const description = provider === 'lux'
+      ? String(body.task || '').replace(/^Find and locate:\s*/, '')
+      : (String(body.prompt || '').match(/"([^"]+)"/)?.[1] ?? '');
+
+    let screenshot: { session_id?: string; url?: string } = {};
+    try {
+      screenshot = JSON.parse(Buffer.from(String(body.image || ''), 'base64').toString('utf8'));
+    } catch {
+      return { ...notFound, error: 'Not a mock screenshot' };
+    }
+    const page = fixture.pages[screenshot.url || ''] ?? NOT_FOUND_PAGE;
+
+    if (config.miss?.some(miss => includesText(description, miss))) return notFound;
+
+    const override = Object.entries(config.overrides || {}).find(([target]) => includesText(description, target));
+    const element = override ? null : resolveVisionTarget(page, description);
+    if (!override && !element) return notFound;
+
+    const point = override ? override[1] : center(element!);
+    const noise = config.noise_px ?? 0;
+    const next = random[provider];
+    const x = Math.round(point.x + (config.offset?.x ?? 0) + (next() * 2 - 1) * noise);
+    const y = Math.round(point.y + (config.offset?.y ?? 0) + (next() * 2 - 1) * noise);
+    const confidence = config.confidence ?? 0.9;
+
+    // Shaped like the tool-server-vision edge function output (already in viewport space)
+    return provider === 'lux'
+      ? { success: true, x, y, confidence, action: `click(${x}, ${y})`, was_converted: false }
+      : {
+          success: true, x, y, confidence,
+          reasoning: `Mock Gemini: ${element?.name ?? 'override'}`,
+          was_converted: true,
+          x_raw: Math.round((x / VIEWPORT.width) * 999),
+          y_raw: Math.round((y / VIEWPORT.height) * 999),
+        };
+  }
+
+  async function route(method: string, url: URL, body: Record<string, unknown>): Promise<{ status: number; json: unknown }> {
+    const path = url.pathname;
+    const ok = (json: unknown) => ({ status: 200, json });
+
+    // ── Supabase: fake vision + PostgREST stub ──
+    if (path === '/functions/v1/tool-server-vision') {
+      const provider = body.provider === 'gemini' ? 'gemini' : 'lux';
+      return ok(fakeVision(provider, body));
+    }
+    if (path.startsWith('/rest/v1/rpc/')) return ok(null);
+    if (path.startsWith('/rest/v1/')) return ok([]);
+
+    // ── Tool Server ──
+    if (path === '/status') return ok({ status: 'ok', version: 'mock', auth_required: false });
+    if (path === '/health') return ok({ status: 'healthy' });
+
+    if (path === '/browser/start') {
+      const session: MockSession = {
+        id: `mock-session-${++sessionCounter}`,
+        url: String(body.start_url || 'about:blank'),
+        focused: null,
+        values: {},
+        actions: [],
+      };
+      sessions.set(session.id, session);
+      return ok({ success: true, session_id: session.id });
+    }
+
+    const sessionId = String(body.session_id ?? url.searchParams.get('session_id') ?? '');
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return { status: 200, json: { success: false, error: `Unknown session: ${sessionId || 'none'}` } };
+    }
+    const page = pageOf(session);
+
+    switch (`${method} ${path}`) {
+      case 'POST /browser/stop':
+        sessions.delete(session.id);
+        return ok({ success: true });
+
+      case 'POST /browser/navigate':
+        session.actions.push({ endpoint: 'navigate', url: session.url, text: String(body.url) });
+        navigate(session, String(body.url));
+        return ok({ success: true, ...snapshotFields(session) });
+
+      case 'GET /browser/current_url':
+        return ok({ success: true, url: session.url });
+
+      case 'GET /browser/dom/tree':
+        return ok({
+          success: true,
+          url: session.url,
+          tree: {
+            title: page.title,
+            children: page.elements.filter(isVisible).map(e => ({ ref: e.ref, role: e.role, name: e.name, tag: e.tag })),
+          },
+        });
+
+      case 'GET /browser/snapshot':
+        return ok({
+          success: true,
+          url: session.url,
+          title: page.title,
+          snapshot: renderSnapshot(page),
+          ref_count: page.elements.filter(isVisible).length,
+        });
+
+      case 'POST /browser/dom/element_rect': {
+        const mustBeVisible = body.must_be_visible !== false;
+        const matches = findElements(page, body).filter(e => !mustBeVisible || isVisible(e));
+        const element = matches[typeof body.index === 'number' ? body.index : 0];
+        if (!element) return ok({ success: true, found: false, visible: false, element_count: 0 });
+        const x = center(element).x + (element.dom_offset?.x ?? 0);
+        const y = center(element).y + (element.dom_offset?.y ?? 0);
+        return ok({
+          success: true,
+          found: true,
+          visible: isVisible(element),
+          enabled: true,
+          x,
+          y,
+          width: element.box.width,
+          height: element.box.height,
+          bounding_box: element.box,
+          tag: element.tag || 'div',
+          text: element.text ?? element.name,
+          element_count: matches.length,
+          selector_used: String(body.selector || body.ref || body.text || ''),
+        });
+      }
+
+      case 'POST /screenshot': {
+        const image = Buffer.from(JSON.stringify({ mock: true, session_id: session.id, url: session.url })).toString('base64');
+        return ok({ success: true, original: { image_base64: image, ...VIEWPORT } });
+      }
+
+      case 'POST /click':
+      case 'POST /click_by_ref': {
+        const element = path === '/click_by_ref'
+          ? page.elements.find(e => e.ref === body.ref && isVisible(e)) ?? null
+          : elementAt(page, Number(body.x), Number(body.y));
+        session.actions.push({
+          endpoint: path.slice(1),
+          url: session.url,
+          x: typeof body.x === 'number' ? body.x : undefined,
+          y: typeof body.y === 'number' ? body.y : undefined,
+          ref: element?.ref ?? null,
+        });
+        if (!element && (fixture.strict_clicks || path === '/click_by_ref')) {
+          return ok({ success: false, error: 'No element at the given position', ...snapshotFields(session) });
+        }
+        session.focused = element?.ref ?? null;
+        if (element?.navigates_to) navigate(session, element.navigates_to);
+        return ok({ success: true, ...snapshotFields(session) });
+      }
+
+      case 'POST /type': {
+        const text = String(body.text ?? '');
+        session.actions.push({ endpoint: 'type', url: session.url, ref: session.focused, text });
+        if (!session.focused) {
+          return ok({ success: !fixture.strict_clicks, error: 'No focused element', ...snapshotFields(session) });
+        }
+        session.values[session.focused] = (session.values[session.focused] || '') + text;
+        return ok({ success: true, ...snapshotFields(session) });
+      }
+
+      case 'POST /scroll':
+        session.actions.push({ endpoint: 'scroll', url: session.url, text: String(body.direction) });
+        return ok({ success: true, ...snapshotFields(session) });
+
+      case 'POST /keypress': {
+        const keys = String(body.keys ?? '');
+        session.actions.push({ endpoint: 'keypress', url: session.url, ref: session.focused, keys });
+        const focused = page.elements.find(e => e.ref === session.focused);
+        if (keys.toLowerCase() === 'enter' && focused?.on_enter) navigate(session, focused.on_enter);
+        return ok({ success: true, ...snapshotFields(session) });
+      }
+
+      case 'POST /browser/verify/url': {
+        const passed = body.url ? session.url === body.url
+          : body.url_contains ? session.url.includes(String(body.url_contains))
+          : body.url_regex ? new RegExp(String(body.url_regex)).test(session.url)
+          : false;
+        return ok({ success: true, passed, details: { actual: session.url } });
+      }
+
+      case 'POST /browser/verify/title': {
+        const passed = body.title ? page.title === body.title
+          : body.title_contains ? page.title.includes(String(body.title_contains))
+          : false;
+        return ok({ success: true, passed, details: { actual: page.title } });
+      }
+
+      case 'POST /browser/verify/element_visible': {
+        const passed = findElements(page, body).some(isVisible);
+        return ok({ success: true, passed });
+      }
+
+      case 'POST /browser/verify/text_visible': {
+        const text = String(body.text ?? '');
+        const passed = page.elements.filter(isVisible).some(e => {
+          const content = e.text ?? e.name;
+          return body.exact ? content === text : includesText(content, text) || includesText(session.values[e.ref], text);
+        }) || includesText(page.title, text);
+        return ok({ success: true, passed });
+      }
+
+      case 'POST /browser/tracing/start':
+        return ok({ success: true, message: 'Tracing is not recorded by the mock Tool Server' });
+      case 'POST /browser/tracing/stop':
+        return ok({ success: true, hint: 'Tracing is not recorded by the mock Tool Server' });
+      case 'POST /browser/console':
+        return ok({ success: true, count: 0, type_counts: {}, messages: [] });
+      case 'POST /browser/network':
+        return ok({ success: true, count: 0, status_counts: {}, type_counts: {}, requests: [] });
+
+      default:
+        return { status: 404, json: { success: false, error: `Mock Tool Server: ${method} ${path} not implemented` } };
+    }
+  }
+
+  const server = http.createServer(async (req, res) => {
+    const headers = {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+    };
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, headers);
+      res.end();
+      return;
+    }
+    try {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const body = await readBody(req);
+      const { status, json } = await route(req.method || 'GET', url, body);
+      res.writeHead(status, headers);
+      res.end(JSON.stringify(json));
+    } catch (error) {
+      res.writeHead(500, headers);
+      res.end(JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }));
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${address.port}`,
+    sessions,
+    visionCalls,
+    load,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
+
+// ============================================================
+// Standalone
+// ============================================================
+
+if (process.argv[1] && fs.realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const args = process.argv.slice(2);
+  const fixturePath = args.find(arg => !arg.startsWith('--'));
+  const portIndex = args.indexOf('--port');
+  const port = portIndex >= 0 ? parseInt(args[portIndex + 1]) : 8766;
+
+  if (!fixturePath) {
+    console.error('Usage: npx tsx scripts/mock-tool-server.ts <fixture.json> [--port 8766]');
+    process.exit(1);
+  }
+
+  const fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8')) as MockFixture;
+  startMockToolServer(fixture, port).then(server => {
+    console.log(`🧪 Mock Tool Server on ${server.url} (${Object.keys(fixture.pages).length} pages from ${fixturePath})`);
+  });
+}
@@ -0,0 +1,382 @@
+#!/usr/bin/env node
+/**
+ * Deterministic browser-automation scenarios
+ *
+ * Runs the real Orchestrator, tool-executor and tripleVerify code against the mock Tool Server
+ * (scripts/mock-tool-server.ts) and fake Lux/Gemini providers, then checks each scenario's
+ * expectations against the resulting ExecutionLog. No browser, Tool Server, vision API or
+ * database is involved, so a change to the triple-verification thresholds shows up as a
+ * failing scenario instead of a flaky live run.
+ *
+ * Usage: npx tsx scripts/run-browser-scenarios.ts [tests/browser-scenarios/<name>.json ...] [--verbose] [--json report.json]
+ *
+ * Without files, every *.json in tests/browser-scenarios runs. Exits with code 1 when any
+ * expectation fails. Scenario format: tests/browser-scenarios/README.md.
+ *
+ * The src/ modules are loaded through Vite's SSR loader so that the @/ alias and import.meta.env
+ * work as in the app; VITE_SUPABASE_URL and VITE_TOOL_SERVER_URL both point at the mock server.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createServer, type ViteDevServer } from 'vite';
+import { startMockToolServer, type MockFixture, type MockToolServer } from './mock-tool-server';
+import type { Plan, OrchestratorConfig, OrchestratorState, CoordinateCacheStats } from '../src/lib/tool-server/orchestrator-types';
+import type { ExecutionLog, StepLog } from '../src/lib/tool-server/orchestrator-logging';
+import type { CoordinateSources } from '../src/lib/tool-server/triple-verify';
+import type { RecordedSession } from '../src/lib/tool-server/playwright-export';
+
+type OrchestratorModule = typeof import('../src/lib/tool-server/orchestrator');
+type LoggingModule = typeof import('../src/lib/tool-server/orchestrator-logging');
+type ActionCacheModule = typeof import('../src/lib/tool-server/action-cache');
+type TripleVerifyModule = typeof import('../src/lib/tool-server/triple-verify');
+type ToolExecutorModule = typeof import('../src/lib/tool-server/tool-executor');
+type PlaywrightExportModule = typeof import('../src/lib/tool-server/playwright-export');
+
+// ============================================================
+// Scenario format
+// ============================================================
+
+interface StepExpectation {
+  pattern?: string;
+  decision?: 'proceed' | 'retry' | 'fail';
+  final_source?: string;
+  success?: boolean;
+  used_fallback?: boolean;
+  retries?: number;
+}
+
+interface AssertionExpectation {
+  type?: string;
+  step_number?: number | null;
+  passed?: boolean;
+}
+
+interface Scenario extends MockFixture {
+  name: string;
+  description?: string;
+  start_url?: string;
+
+  // Orchestrator run
+  plan?: Plan;
+  config?: Partial<OrchestratorConfig>;
+  runs?: number;                           // Default 1; the coordinate cache is kept between runs
+  expect?: {                               // Checked on the last run
+    status?: ExecutionLog['status'];
+    error?: string;                        // Substring of the orchestrator error
+    final_url?: string;
+    clicked?: (string | null)[];           // Refs hit by click/click_by_ref, in order (null = empty area)
+    values?: Record<string, string>;       // ref → typed value
+    steps?: StepExpectation[];             // One per coordinate step (navigate/wait/assert are not logged)
+    assertions?: AssertionExpectation[];   // One per evaluated assertion, in order
+    stats?: Record<string, unknown>;       // Subset of ExecutionStats, e.g. { "patterns": { "all_agree": 3 } }
+    vision_calls?: { lux?: number; gemini?: number };
+    cache?: Partial<CoordinateCacheStats>; // Coordinate cache metrics over all runs
+    playwright?: string[];                 // Substrings of the exported Playwright test
+  };
+
+  // tool-executor calls, in order (session_id of browser_start is reused)
+  tool_calls?: Array<{
+    name: string;
+    input: Record<string, unknown>;
+    expect?: Record<string, unknown>;      // Subset of the result content
+  }>;
+
+  // Pure tripleVerify cases
+  triple_verify?: Array<{
+    sources: CoordinateSources;
+    expect: { confidence?: string; action?: string; sources?: string[]; bestCoords?: { x: number; y: number } };
+  }>;
+}
+
+interface ScenarioResult {
+  name: string;
+  file: string;
+  passed: boolean;
+  failures: string[];
+  duration_ms: number;
+  execution_log?: ExecutionLog | null;
+}
+
+// ============================================================
+// Assertions
+// ============================================================
+
+function expectSubset(actual: unknown, expected: unknown, at: string, failures: string[]): void {
+  if (expected !== null && typeof expected === 'object' && !Array.isArray(expected)) {
+    if (actual === null || typeof actual !== 'object') {
+      failures.push(`${at}: expected an object, got ${JSON.stringify(actual)}`);
+      return;
+    }
+    for (const [key, value] of Object.entries(expected)) {
+      expectSubset((actual as Record<string, unknown>)[key], value, `${at}.${key}`, failures);
+    }
+    return;
+  }
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) {
+      failures.push(`${at}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+      return;
+    }
+    expected.forEach((value, index) => expectSubset(actual[index], value, `${at}[${index}]`, failures));
+    return;
+  }
+  if (actual !== expected) {
+    failures.push(`${at}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+function describeStep(step: StepLog): Required<StepExpectation> {
+  return {
+    pattern: step.verification.pattern,
+    decision: step.verification.decision,
+    final_source: step.verification.final_coordinates?.source ?? '',
+    success: step.execution.success,
+    used_fallback: step.execution.used_fallback,
+    retries: step.execution.retries,
+  };
+}
+
+// ============================================================
+// Runner
+// ============================================================
+
+interface Modules {
+  orchestrator: OrchestratorModule;
+  logging: LoggingModule;
+  actionCache: ActionCacheModule;
+  tripleVerify: TripleVerifyModule;
+  toolExecutor: ToolExecutorModule;
+  playwrightExport: PlaywrightExportModule;
+}
+
+async function loadModules(vite: ViteDevServer): Promise<Modules> {
+  const load = <T>(file: string) => vite.ssrLoadModule(file) as Promise<T>;
+  return {
+    orchestrator: await load<OrchestratorModule>('/src/lib/tool-server/orchestrator.ts'),
+    logging: await load<LoggingModule>('/src/lib/tool-server/orchestrator-logging.ts'),
+    actionCache: await load<ActionCacheModule>('/src/lib/tool-server/action-cache.ts'),
+    tripleVerify: await load<TripleVerifyModule>('/src/lib/tool-server/triple-verify.ts'),
+    toolExecutor: await load<ToolExecutorModule>('/src/lib/tool-server/tool-executor.ts'),
+    playwrightExport: await load<PlaywrightExportModule>('/src/lib/tool-server/playwright-export.ts'),
+  };
+}
+
+async function runScenario(
+  scenario: Scenario,
+  file: string,
+  mock: MockToolServer,
+  modules: Modules
+): Promise<ScenarioResult> {
+  const startTime = Date.now();
+  const failures: string[] = [];
+  let executionLog: ExecutionLog | null = null;
+
+  mock.load(scenario);
+  modules.actionCache.coordinateCache.clear();
+
+  // ── Orchestrator ──
+  if (scenario.plan) {
+    const cacheBefore = modules.actionCache.coordinateCache.getStats();
+    let state: OrchestratorState | null = null;
+    let recording: RecordedSession | null = null;
+
+    for (let run = 0; run < (scenario.runs ?? 1); run++) {
+      mock.visionCalls.lux = 0;
+      mock.visionCalls.gemini = 0;
+      const previousLog = modules.logging.executionLogManager.getCurrentLog();
+      const orchestrator = new modules.orchestrator.Orchestrator(
+        { saveProcedures: false, ...scenario.config },
+        { onLog: entry => { if (verbose) console.log(`    [${entry.level}] ${entry.message}`); } }
+      );
+      state = await orchestrator.executePlanFromCloud(scenario.plan, { startUrl: scenario.start_url });
+      recording = orchestrator.getRecordedSession();
+      const currentLog = modules.logging.executionLogManager.getCurrentLog();
+      executionLog = currentLog && currentLog.execution_id !== previousLog?.execution_id ? currentLog : null;
+    }
+
+    const session = state?.session_id ? mock.sessions.get(state.session_id) : undefined;
+    const expected = scenario.expect || {};
+
+    if (!executionLog) {
+      failures.push(`no ExecutionLog (orchestrator ${state?.status}: ${state?.error || 'no error'})`);
+    } else {
+      if (expected.status) expectSubset(executionLog.status, expected.status, 'status', failures);
+      if (expected.steps) {
+        expectSubset(executionLog.steps.map(describeStep), expected.steps, 'steps', failures);
+      }
+      if (expected.stats) expectSubset(executionLog.stats, expected.stats, 'stats', failures);
+      if (expected.assertions) {
+        const assertions = executionLog.assertions.map(result => ({
+          type: result.assertion.type,
+          step_number: result.step_number,
+          passed: result.passed,
+        }));
+        expectSubset(assertions, expected.assertions, 'assertions', failures);
+      }
+    }
+    if (expected.error && !state?.error?.includes(expected.error)) {
+      failures.push(`error: expected to contain ${JSON.stringify(expected.error)}, got ${JSON.stringify(state?.error ?? null)}`);
+    }
+    if (expected.final_url) expectSubset(session?.url, expected.final_url, 'final_url', failures);
+    if (expected.values) expectSubset(session?.values, expected.values, 'values', failures);
+    if (expected.clicked) {
+      const clicked = (session?.actions || [])
+        .filter(action => action.endpoint === 'click' || action.endpoint === 'click_by_ref')
+        .map(action => action.ref ?? null);
+      expectSubset(clicked, expected.clicked, 'clicked', failures);
+    }
+    if (expected.vision_calls) expectSubset(mock.visionCalls, expected.vision_calls, 'vision_calls', failures);
+    if (expected.cache) {
+      const cacheAfter = modules.actionCache.coordinateCache.getStats();
+      const delta = Object.fromEntries(
+        (Object.keys(cacheAfter) as (keyof CoordinateCacheStats)[]).map(key => [key, cacheAfter[key] - cacheBefore[key]])
+      );
+      expectSubset(delta, expected.cache, 'cache', failures);
+    }
+    if (expected.playwright) {
+      if (!recording) {
+        failures.push(`playwright: no recorded session (orchestrator ${state?.status})`);
+      } else {
+        const test = modules.playwrightExport.toPlaywrightTest(recording);
+        if (verbose) console.log(test);
+        expected.playwright
+          .filter(snippet => !test.includes(snippet))
+          .forEach(snippet => failures.push(`playwright: missing ${JSON.stringify(snippet)}`));
+      }
+    }
+  }
+
+  // ── tool-executor ──
+  let sessionId: string | undefined;
+  for (const [index, call] of (scenario.tool_calls || []).entries()) {
+    const result = await modules.toolExecutor.executeToolUse({ id: `call-${index}`, name: call.name, input: call.input }, sessionId);
+    const content = typeof result.content === 'string' ? { text: result.content } : result.content;
+    if (typeof content.session_id === 'string') sessionId = content.session_id;
+    if (call.expect) expectSubset(content, call.expect, `tool_calls[${index}] ${call.name}`, failures);
+  }
+
+  // ── tripleVerify ──
+  for (const [index, testCase] of (scenario.triple_verify || []).entries()) {
+    const result = modules.tripleVerify.tripleVerify(testCase.sources);
+    expectSubset(result, testCase.expect, `triple_verify[${index}]`, failures);
+  }
+
+  return {
+    name: scenario.name,
+    file,
+    passed: failures.length === 0,
+    failures,
+    duration_ms: Date.now() - startTime,
+    execution_log: executionLog,
+  };
+}
+
+// ============================================================
+// Main
+// ============================================================
+
+const args = process.argv.slice(2);
+const verbose = args.includes('--verbose');
+const jsonIndex = args.indexOf('--json');
+const jsonReport = jsonIndex >= 0 ? args[jsonIndex + 1] : null;
+const SCENARIOS_DIR = path.join(process.cwd(), 'tests', 'browser-scenarios');
+
+function scenarioFiles(): string[] {
+  const explicit = args.filter((arg, index) => arg.endsWith('.json') && index !== jsonIndex + 1);
+  if (explicit.length > 0) return explicit;
+  return fs.readdirSync(SCENARIOS_DIR)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => path.join(SCENARIOS_DIR, file));
+}
+
+// Browser globals used at import time by src/integrations/supabase/client.ts
+function installStorage(): void {
+  if (typeof globalThis.localStorage !== 'undefined') return;
+  const store = new Map<string, string>();
+  globalThis.localStorage = {
+    get length() { return store.size; },
+    key: (index: number) => [...store.keys()][index] ?? null,
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, String(value)); },
+    removeItem: (key: string) => { store.delete(key); },
+    clear: () => store.clear(),
+  };
+}
+
+async function main() {
+  const files = scenarioFiles();
+  const scenarios = files.map(file => ({ file, scenario: JSON.parse(fs.readFileSync(file, 'utf8')) as Scenario }));
+
+  console.log('🧪 Browser automation scenarios');
+  console.log(`   ${scenarios.length} scenario(s)\n`);
+
+  const mock = await startMockToolServer({ pages: {} });
+  process.env.VITE_SUPABASE_URL = mock.url;
+  process.env.VITE_SUPABASE_PUBLISHABLE_KEY = 'mock-publishable-key';
+  process.env.VITE_TOOL_SERVER_URL = mock.url;
+  installStorage();
+
+  const vite = await createServer({
+    server: { middlewareMode: true, hmr: false },
+    appType: 'custom',
+    logLevel: 'error',
+    optimizeDeps: { noDiscovery: true, include: [] },
+  });
+
+  const results: ScenarioResult[] = [];
+  const originalLog = console.log;
+  const originalWarn = console.warn;
+
+  try {
+    const modules = await loadModules(vite);
+
+    for (const { file, scenario } of scenarios) {
+      // The orchestrator and tool-executor log every call to the console
+      if (!verbose) {
+        console.log = () => {};
+        console.warn = () => {};
+      }
+      let result: ScenarioResult;
+      try {
+        result = await runScenario(scenario, file, mock, modules);
+      } catch (error) {
+        result = {
+          name: scenario.name,
+          file,
+          passed: false,
+          failures: [`threw: ${error instanceof Error ? error.message : String(error)}`],
+          duration_ms: 0,
+        };
+      } finally {
+        console.log = originalLog;
+        console.warn = originalWarn;
+      }
+
+      results.push(result);
+      console.log(`${result.passed ? '✅' : '❌'} ${result.name} (${(result.duration_ms / 1000).toFixed(1)}s)`);
+      for (const failure of result.failures) {
+        console.log(`     - ${failure}`);
+      }
+    }
+  } finally {
+    await vite.close();
+    await mock.close();
+  }
+
+  const failed = results.filter(result => !result.passed).length;
+  console.log(`\n${results.length - failed}/${results.length} scenarios passed`);
+
+  if (jsonReport) {
+    fs.writeFileSync(jsonReport, JSON.stringify({ generated_at: new Date().toISOString(), results }, null, 2));
+    console.log(`📄 Report: ${jsonReport}`);
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('❌ Scenario runner failed:', error);
+  process.exit(1);
+});
@@ -8,19 +8,31 @@
  * 3. Uses LLM-as-a-Judge to evaluate responses
  * 4. Generates accuracy report
  * 
- * Usage: npx tsx scripts/run-docvqa-benchmark.ts
+ * Usage: npx tsx scripts/run-docvqa-benchmark.ts [--scoring chain|offline|llm]
+ *
+ * Scoring: "chain" (default) runs the deterministic scorers (exact, normalized, ANLS, token F1)
+ * and only calls the LLM judge when they disagree; "offline" never calls it; "llm" always does.
+ *
+ * Regression gating (CI):
+ *   npx tsx scripts/run-docvqa-benchmark.ts --baseline <run-id|path/to/report.json> [--max-drop 2] [--name "my run"]
+ *   Exits with code 1 when accuracy drops by more than --max-drop percentage points vs the baseline.
+ *   With SUPABASE_SERVICE_ROLE_KEY set, the run is stored in benchmark_runs / benchmark_results
+ *   (so it can itself be used as a baseline) and run-id baselines can be read.
  */
 
 import { createClient } from '@supabase/supabase-js';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
+import { runScorerChain, SCORING_MODES, type ScorerName, type ScoringMode } from '../supabase/functions/_shared/answerScorers.ts';
 
 // Load environment variables
 dotenv.config();
 
 const SUPABASE_URL = process.env.VITE_SUPABASE_URL!;
-const SUPABASE_KEY = process.env.VITE_SUPABASE_PUBLISHABLE_KEY!;
+// Service role key is needed to store the run and to read baseline runs (RLS)
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const SUPABASE_KEY = SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_PUBLISHABLE_KEY!;
 const LOVABLE_API_KEY = process.env.LOVABLE_API_KEY!;
 
 const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
@@ -33,6 +45,20 @@ const POLL_INTERVAL_MS = 5000; // 5 seconds
 const PDF_DIR = path.join(process.cwd(), 'tests/docvqa/pdfs');
 const DATASET_PATH = path.join(process.cwd(), 'public/data/docvqa-annotations.json');
 const OUTPUT_DIR = path.join(process.cwd(), 'tests/docvqa');
+const DEFAULT_MAX_DROP = 2; // percentage points
+
+// CLI options
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+const BASELINE = getArg('baseline');
+const MAX_DROP = parseFloat(getArg('max-drop') || String(DEFAULT_MAX_DROP));
+const RUN_NAME = getArg('name');
+const SCORING_MODE: ScoringMode = SCORING_MODES.includes(getArg('scoring') as ScoringMode)
+  ? getArg('scoring') as ScoringMode
+  : 'chain';
 
 // Types
 interface DatasetEntry {
@@ -53,6 +79,14 @@ interface IngestResult {
 interface JudgeResult {
   correct: boolean;
   reason: string;
+  scorer: ScorerName;
+  scores: Record<string, number | boolean | null>;
+}
+
+interface GateEntry {
+  key: string; // "<pdf file>|<question>"
+  question: string;
+  correct: boolean;
 }
 
 interface BenchmarkResult {
@@ -63,6 +97,8 @@ interface BenchmarkResult {
   agentResponse: string;
   correct: boolean;
   judgeReason: string;
+  scorer?: ScorerName;
+  scores?: Record<string, number | boolean | null>;
   ingestionTimeMs: number;
   queryTimeMs: number;
 }
@@ -249,12 +285,45 @@ async function assignAndQuery(
   }
 }
 
-// Phase 3: LLM-as-a-Judge Evaluation
+// Phase 3: Scoring (deterministic scorer chain, LLM judge on disagreement)
 async function evaluateAnswer(
   question: string,
   agentResponse: string,
   groundTruths: string[]
 ): Promise<JudgeResult> {
+  const chain = runScorerChain(agentResponse, groundTruths);
+  const scores: JudgeResult['scores'] = {
+    exact: chain.scores.exact.score,
+    normalized: chain.scores.normalized.score,
+    anls: chain.scores.anls.score,
+    token_f1: chain.scores.token_f1.score,
+    llm_judge: null
+  };
+
+  if (SCORING_MODE !== 'llm' && chain.decided) {
+    return { ...chain.decided, scores };
+  }
+
+  if (SCORING_MODE === 'offline') {
+    return {
+      correct: chain.majority,
+      reason: `${chain.contained ? 'Ground truth contained in the answer' : 'Scorers disagree'}, majority vote (ANLS ${chain.scores.anls.score.toFixed(2)}, F1 ${chain.scores.token_f1.score.toFixed(2)})`,
+      scorer: 'majority',
+      scores
+    };
+  }
+
+  const judged = await llmJudge(question, agentResponse, groundTruths);
+  scores.llm_judge = judged.correct;
+  return { ...judged, scorer: 'llm_judge', scores };
+}
+
+// Phase 3b: LLM-as-a-Judge
+async function llmJudge(
+  question: string,
+  agentResponse: string,
+  groundTruths: string[]
+): Promise<{ correct: boolean; reason: string }> {
   try {
     const prompt = `You are an impartial judge evaluating QA accuracy.
 
@@ -295,7 +364,7 @@ Respond ONLY with valid JSON:
 
     // Robust JSON parsing with markdown cleanup
     const cleanedContent = cleanJsonString(content);
-    const result: JudgeResult = JSON.parse(cleanedContent);
+    const result: { correct: boolean; reason: string } = JSON.parse(cleanedContent);
 
     return result;
 
@@ -316,7 +385,7 @@ Respond ONLY with valid JSON:
 }
 
 // Report Generation
-function generateReport(results: BenchmarkResult[]): void {
+function generateReport(results: BenchmarkResult[]): number {
   const totalTests = results.length;
   const passed = results.filter(r => r.correct).length;
   const accuracy = ((passed / totalTests) * 100).toFixed(2);
@@ -390,6 +459,149 @@ function generateReport(results: BenchmarkResult[]): void {
   console.log(`⏱️  Avg Ingestion: ${avgIngestionTime}s | Avg Query: ${avgQueryTime}s`);
   console.log(`📊 Reports saved to ${OUTPUT_DIR}/`);
   console.log(`${'='.repeat(60)}\n`);
+
+  return (passed / totalTests) * 100;
+}
+
+// Run persistence: store the CLI run so the UI can compare it and later runs can gate against it
+async function saveRun(results: BenchmarkResult[], accuracy: number): Promise<string | null> {
+  if (!SUPABASE_SERVICE_ROLE_KEY) {
+    console.log(`ℹ️  SUPABASE_SERVICE_ROLE_KEY not set: run not stored in benchmark_runs`);
+    return null;
+  }
+
+  const { data: agent } = await supabase
+    .from('agents')
+    .select('id, slug, name, system_prompt, llm_provider, ai_model, reranker, reranker_config')
+    .eq('id', AGENT_ID)
+    .single();
+
+  const { data: pipelineRows } = await supabase.rpc('get_agent_knowledge_pipelines', { p_agent_id: AGENT_ID });
+  const pipelines: Record<string, number> = {};
+  (pipelineRows || []).forEach((row: { pipeline_source: string; chunk_count: number }) => {
+    pipelines[row.pipeline_source] = Number(row.chunk_count);
+  });
+
+  const runId = crypto.randomUUID();
+  const passed = results.filter(r => r.correct).length;
+  const timed = results.filter(r => r.queryTimeMs > 0);
+
+  const { error: runError } = await supabase.from('benchmark_runs').insert({
+    id: runId,
+    name: RUN_NAME || `CLI DocVQA · ${new Date().toISOString().substring(0, 16).replace('T', ' ')}`,
+    source: 'cli',
+    suite: 'general',
+    agent_id: AGENT_ID,
+    config: {
+      agent: agent ? { id: agent.id, slug: agent.slug, name: agent.name } : { id: AGENT_ID },
+      system_prompt: agent?.system_prompt ?? null,
+      llm_provider: agent?.llm_provider ?? null,
+      ai_model: agent?.ai_model ?? null,
+      reranker: agent?.reranker ?? null,
+      reranker_config: agent?.reranker_config ?? null,
+      pipelines,
+      retrieval: { document_filter: false },
+      suite: 'general',
+      limit: results.length,
+      judge_model: 'openai/gpt-5-mini',
+      scoring_mode: SCORING_MODE
+    },
+    status: 'completed',
+    total_questions: results.length,
+    passed,
+    failed: results.length - passed,
+    accuracy,
+    avg_response_time_ms: timed.length > 0
+      ? Math.round(timed.reduce((sum, r) => sum + r.queryTimeMs, 0) / timed.length)
+      : null,
+    completed_at: new Date().toISOString()
+  });
+
+  if (runError) {
+    console.error(`⚠️  Could not store run: ${runError.message}`);
+    return null;
+  }
+
+  const { error: resultsError } = await supabase.from('benchmark_results').insert(
+    results.map(r => ({
+      run_id: runId,
+      pdf_file: r.docId,
+      question: r.question,
+      ground_truth: r.groundTruths.join(' OR '),
+      agent_response: r.agentResponse,
+      correct: r.correct,
+      reason: r.judgeReason,
+      scorer: r.scorer ?? null,
+      scores: r.scores ?? null,
+      response_time_ms: r.queryTimeMs,
+      status: r.agentResponse.startsWith('ERROR:') ? 'error' : 'completed'
+    }))
+  );
+
+  if (resultsError) {
+    console.error(`⚠️  Could not store run results: ${resultsError.message}`);
+  }
+
+  console.log(`💾 Run stored: ${runId}`);
+  return runId;
+}
+
+// Regression gating: baseline is a run id (benchmark_runs) or a previous report.json
+async function loadBaseline(baseline: string): Promise<GateEntry[]> {
+  if (fs.existsSync(baseline)) {
+    const previous: BenchmarkResult[] = JSON.parse(fs.readFileSync(baseline, 'utf-8'));
+    return previous.map(r => ({ key: `${r.docId}|${r.question}`, question: r.question, correct: r.correct }));
+  }
+
+  const { data, error } = await supabase
+    .from('benchmark_results')
+    .select('pdf_file, question, correct')
+    .eq('run_id', baseline);
+
+  if (error) {
+    throw new Error(`Could not load baseline run ${baseline}: ${error.message}`);
+  }
+  if (!data || data.length === 0) {
+    throw new Error(`Baseline run ${baseline} has no results (is SUPABASE_SERVICE_ROLE_KEY set?)`);
+  }
+
+  return data.map(r => ({ key: `${r.pdf_file}|${r.question}`, question: r.question, correct: r.correct === true }));
+}
+
+// Accuracy over all rows (errors count as failures), same formula as generateReport
+function gateAccuracy(entries: GateEntry[]): number {
+  return entries.length > 0 ? (entries.filter(e => e.correct).length / entries.length) * 100 : 0;
+}
+
+async function checkRegression(results: BenchmarkResult[], baseline: string): Promise<boolean> {
+  const baselineEntries = await loadBaseline(baseline);
+  const currentEntries: GateEntry[] = results.map(r => ({
+    key: `${r.docId}|${r.question}`,
+    question: r.question,
+    correct: r.correct
+  }));
+
+  const baselineAccuracy = gateAccuracy(baselineEntries);
+  const currentAccuracy = gateAccuracy(currentEntries);
+  const delta = currentAccuracy - baselineAccuracy;
+
+  const baselineByKey = new Map(baselineEntries.map(e => [e.key, e]));
+  const regressions = currentEntries.filter(e => baselineByKey.get(e.key)?.correct && !e.correct);
+  const fixes = currentEntries.filter(e => baselineByKey.has(e.key) && !baselineByKey.get(e.key)!.correct && e.correct);
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`📉 REGRESSION GATE vs ${baseline}`);
+  console.log(`   Baseline: ${baselineAccuracy.toFixed(2)}% | Current: ${currentAccuracy.toFixed(2)}% | Delta: ${delta >= 0 ? '+' : ''}${delta.toFixed(2)} pt`);
+  console.log(`   Flips: ❌ ${regressions.length} correct→wrong | ✅ ${fixes.length} wrong→correct`);
+  regressions.forEach(r => console.log(`     ❌ ${r.key}`));
+
+  const failed = delta < -MAX_DROP;
+  console.log(failed
+    ? `   🚫 FAILED: accuracy dropped by more than ${MAX_DROP} pt`
+    : `   ✅ PASSED (max allowed drop: ${MAX_DROP} pt)`);
+  console.log(`${'='.repeat(60)}\n`);
+
+  return !failed;
 }
 
 // Main execution
@@ -486,7 +698,7 @@ async function main() {
     );
 
     const statusIcon = judgeResult.correct ? '✅' : '❌';
-    console.log(`     ${statusIcon} ${judgeResult.correct ? 'PASS' : 'FAIL'}: ${judgeResult.reason}`);
+    console.log(`     ${statusIcon} ${judgeResult.correct ? 'PASS' : 'FAIL'} [${judgeResult.scorer}]: ${judgeResult.reason}`);
 
     results.push({
       docId: test.file,
@@ -496,13 +708,23 @@ async function main() {
       agentResponse,
       correct: judgeResult.correct,
       judgeReason: judgeResult.reason,
+      scorer: judgeResult.scorer,
+      scores: judgeResult.scores,
       ingestionTimeMs: ingestResult.ingestionTimeMs || 0,
       queryTimeMs
     });
   }
 
   // Generate final report
-  generateReport(results);
+  const accuracy = generateReport(results);
+  await saveRun(results, accuracy);
+
+  if (BASELINE) {
+    const passed = await checkRegression(results, BASELINE);
+    if (!passed) {
+      process.exit(1);
+    }
+  }
 }
 
 // Run
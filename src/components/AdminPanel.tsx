@@ -11,12 +11,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { OperationsDashboard } from "./OperationsDashboard";
 import { FilterPromptEditor } from "./FilterPromptEditor";
 import { AlignmentPromptEditor } from "./AlignmentPromptEditor";
+import { IntentTaxonomyEditor } from "./IntentTaxonomyEditor";
 import AlignmentMetricsMonitor from "./AlignmentMetricsMonitor";
 import { AirtopBrowserAutomation } from "./AirtopBrowserAutomation";
 import { LuxModeConfig } from "./LuxModeConfig";
 import { ToolServerSettings } from "./ToolServerSettings";
 import { DesktopAppSettings } from "./DesktopAppSettings";
-import { useNavigate } from "react-router-dom";
+import { EmbeddingCollectionsPanel } from "./EmbeddingCollectionsPanel";
+import { IngestionConnectorsPanel } from "./IngestionConnectorsPanel";
+import { KnowledgeFreshnessPanel } from "./KnowledgeFreshnessPanel";
+import { useNavigate, useSearchParams } from "react-router-dom";
 
 interface ProcessingResult {
   id: string;
@@ -36,20 +40,26 @@ interface BatchSummary {
 
 export const AdminPanel = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [processing, setProcessing] = useState(false);
   const [results, setResults] = useState<ProcessingResult[] | null>(null);
   const [summary, setSummary] = useState<BatchSummary | null>(null);
   const [stuckCount, setStuckCount] = useState<number | null>(null);
   const [loadingCount, setLoadingCount] = useState(false);
-  const [activeTab, setActiveTab] = useState("metrics");
+  // Alert action links open a specific tab (e.g. /admin?tab=freshness)
+  const [activeTab, setActiveTab] = useState(searchParams.get("tab") || "metrics");
 
   const tabs = [
     { value: "metrics", label: "Metriche" },
     { value: "tools", label: "Strumenti" },
     { value: "logs", label: "Log Processing" },
     { value: "operations", label: "Operazioni" },
+    { value: "embeddings", label: "Embedding" },
+    { value: "connectors", label: "Connettori" },
+    { value: "freshness", label: "Freschezza" },
     { value: "filter-prompt", label: "Filter Prompt" },
     { value: "alignment-prompt", label: "Alignment Prompt" },
+    { value: "intents", label: "Intent Taxonomy" },
     { value: "lux-config", label: "Lux Config" },
     { value: "desktop-app", label: "Desktop App" },
     { value: "tool-server", label: "Tool Server" },
@@ -150,7 +160,10 @@ export const AdminPanel = () => {
       </div>
 
       {/* Desktop: Horizontal Tabs */}
-      <TabsList className="hidden md:grid w-full grid-cols-12">
+      <TabsList
+        className="hidden md:grid w-full"
+        style={{ gridTemplateColumns: `repeat(${tabs.length}, minmax(0, 1fr))` }}
+      >
         {tabs.map((tab) => (
           <TabsTrigger key={tab.value} value={tab.value}>
             {tab.label}
@@ -339,6 +352,18 @@ export const AdminPanel = () => {
         <OperationsDashboard />
       </TabsContent>
 
+      <TabsContent value="embeddings">
+        <EmbeddingCollectionsPanel />
+      </TabsContent>
+
+      <TabsContent value="connectors">
+        <IngestionConnectorsPanel />
+      </TabsContent>
+
+      <TabsContent value="freshness">
+        <KnowledgeFreshnessPanel />
+      </TabsContent>
+
       <TabsContent value="filter-prompt">
         <FilterPromptEditor />
       </TabsContent>
@@ -347,6 +372,10 @@ export const AdminPanel = () => {
         <AlignmentPromptEditor />
       </TabsContent>
 
+      <TabsContent value="intents">
+        <IntentTaxonomyEditor />
+      </TabsContent>
+
       <TabsContent value="lux-config">
         <LuxModeConfig />
       </TabsContent>
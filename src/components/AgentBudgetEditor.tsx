@@ -0,0 +1,134 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FALLBACK_PROVIDERS } from "@/components/LLMFallbackChainEditor";
+
+export interface AgentBudget {
+  softUsd: string;
+  hardUsd: string;
+  period: "day" | "month";
+  downgradeProvider: string;
+  downgradeModel: string;
+}
+
+// Columns on the agents row backing the editor
+export interface AgentBudgetColumns {
+  budget_soft_usd?: number | null;
+  budget_hard_usd?: number | null;
+  budget_period?: string;
+  budget_downgrade_provider?: string | null;
+  budget_downgrade_model?: string | null;
+}
+
+const NO_DOWNGRADE = "none";
+
+export const EMPTY_BUDGET: AgentBudget = {
+  softUsd: "",
+  hardUsd: "",
+  period: "month",
+  downgradeProvider: "",
+  downgradeModel: "",
+};
+
+export const parseAgentBudget = (agent: AgentBudgetColumns): AgentBudget => ({
+  softUsd: agent.budget_soft_usd != null ? String(agent.budget_soft_usd) : "",
+  hardUsd: agent.budget_hard_usd != null ? String(agent.budget_hard_usd) : "",
+  period: agent.budget_period === "day" ? "day" : "month",
+  downgradeProvider: agent.budget_downgrade_provider || "",
+  downgradeModel: agent.budget_downgrade_model || "",
+});
+
+// Empty or invalid amounts mean "no limit"
+const parseUsd = (value: string) => {
+  const amount = parseFloat(value.replace(",", "."));
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+};
+
+export const serializeAgentBudget = (budget: AgentBudget) => ({
+  budget_soft_usd: parseUsd(budget.softUsd),
+  budget_hard_usd: parseUsd(budget.hardUsd),
+  budget_period: budget.period,
+  budget_downgrade_provider: budget.downgradeProvider || null,
+  budget_downgrade_model: budget.downgradeProvider ? budget.downgradeModel.trim() || null : null,
+});
+
+interface AgentBudgetEditorProps {
+  budget: AgentBudget;
+  onChange: (budget: AgentBudget) => void;
+  disabled?: boolean;
+}
+
+export const AgentBudgetEditor = ({ budget, onChange, disabled }: AgentBudgetEditorProps) => {
+  const update = (patch: Partial<AgentBudget>) => onChange({ ...budget, ...patch });
+
+  return (
+    <div className="space-y-2">
+      <Label>Budget</Label>
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <Label htmlFor="budgetSoft" className="text-xs text-muted-foreground">Soft (USD)</Label>
+          <Input
+            id="budgetSoft"
+            inputMode="decimal"
+            value={budget.softUsd}
+            onChange={e => update({ softUsd: e.target.value })}
+            placeholder="Nessun limite"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <Label htmlFor="budgetHard" className="text-xs text-muted-foreground">Hard (USD)</Label>
+          <Input
+            id="budgetHard"
+            inputMode="decimal"
+            value={budget.hardUsd}
+            onChange={e => update({ hardUsd: e.target.value })}
+            placeholder="Nessun limite"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <Label className="text-xs text-muted-foreground">Periodo</Label>
+          <Select value={budget.period} onValueChange={period => update({ period: period as AgentBudget["period"] })} disabled={disabled}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-background z-50">
+              <SelectItem value="day">Giornaliero</SelectItem>
+              <SelectItem value="month">Mensile</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <Select
+          value={budget.downgradeProvider || NO_DOWNGRADE}
+          onValueChange={provider => update(provider === NO_DOWNGRADE
+            ? { downgradeProvider: "", downgradeModel: "" }
+            : { downgradeProvider: provider, downgradeModel: FALLBACK_PROVIDERS.find(p => p.value === provider)?.defaultModel || "" })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-background z-50">
+            <SelectItem value={NO_DOWNGRADE}>Nessun downgrade</SelectItem>
+            {FALLBACK_PROVIDERS.map(p => (
+              <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={budget.downgradeModel}
+          onChange={e => update({ downgradeModel: e.target.value })}
+          placeholder="Modello economico"
+          className="flex-1"
+          disabled={disabled || !budget.downgradeProvider}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Oltre il soft budget l'agente risponde con il modello di downgrade; oltre l'hard budget le nuove richieste vengono bloccate fino al periodo successivo
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,269 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import { Brain, Check, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+
+interface AgentMemory {
+  id: string;
+  content: string;
+  category: string;
+  importance: number;
+  source: string;
+  updated_at: string;
+  last_used_at: string | null;
+}
+
+interface ConversationSummary {
+  memory_summary: string | null;
+  memory_summary_messages: number;
+  memory_updated_at: string | null;
+}
+
+interface AgentMemoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  agentId: string;
+  agentName: string;
+  conversationId: string | null;
+}
+
+// Same categories as supabase/functions/_shared/conversationMemory.ts
+const CATEGORIES = [
+  { value: "preference", label: "Preferenza" },
+  { value: "fact", label: "Fatto" },
+  { value: "goal", label: "Obiettivo" },
+  { value: "context", label: "Contesto" },
+];
+
+const categoryLabel = (value: string) => CATEGORIES.find(c => c.value === value)?.label || value;
+
+export const AgentMemoryDialog = ({ open, onOpenChange, agentId, agentName, conversationId }: AgentMemoryDialogProps) => {
+  const { user } = useAuth();
+  const [memories, setMemories] = useState<AgentMemory[]>([]);
+  const [summary, setSummary] = useState<ConversationSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [newContent, setNewContent] = useState("");
+  const [newCategory, setNewCategory] = useState("fact");
+
+  const loadData = async () => {
+    setLoading(true);
+    const [memoriesResult, conversationResult] = await Promise.all([
+      supabase
+        .from("agent_user_memories")
+        .select("id, content, category, importance, source, updated_at, last_used_at")
+        .eq("agent_id", agentId)
+        .order("importance", { ascending: false })
+        .order("updated_at", { ascending: false }),
+      conversationId
+        ? supabase
+            .from("agent_conversations")
+            .select("memory_summary, memory_summary_messages, memory_updated_at")
+            .eq("id", conversationId)
+            .maybeSingle()
+        : Promise.resolve({ data: null }),
+    ]);
+
+    if (memoriesResult.error) {
+      console.error("Error loading memories:", memoriesResult.error);
+      toast.error("Errore nel caricamento della memoria");
+    } else {
+      setMemories(memoriesResult.data || []);
+    }
+    setSummary(conversationResult.data);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (open) loadData();
+  }, [open, agentId, conversationId]);
+
+  // Edited memories lose their embedding: update-conversation-memory re-embeds them
+  const saveEdit = async (memory: AgentMemory) => {
+    const content = draft.trim();
+    if (!content) return;
+    const { error } = await supabase
+      .from("agent_user_memories")
+      .update({ content, source: "user", embedding: null, embedding_model: null, updated_at: new Date().toISOString() })
+      .eq("id", memory.id);
+    if (error) {
+      toast.error("Errore nel salvataggio");
+      return;
+    }
+    setMemories(prev => prev.map(m => (m.id === memory.id ? { ...m, content, source: "user" } : m)));
+    setEditingId(null);
+  };
+
+  const deleteMemory = async (memory: AgentMemory) => {
+    const { error } = await supabase.from("agent_user_memories").delete().eq("id", memory.id);
+    if (error) {
+      toast.error("Errore nell'eliminazione");
+      return;
+    }
+    setMemories(prev => prev.filter(m => m.id !== memory.id));
+  };
+
+  const addMemory = async () => {
+    const content = newContent.trim();
+    if (!content || !user) return;
+    const { data, error } = await supabase
+      .from("agent_user_memories")
+      .insert({ user_id: user.id, agent_id: agentId, content, category: newCategory, source: "user" })
+      .select("id, content, category, importance, source, updated_at, last_used_at")
+      .single();
+    if (error || !data) {
+      toast.error("Errore nel salvataggio");
+      return;
+    }
+    setMemories(prev => [data, ...prev]);
+    setNewContent("");
+  };
+
+  const clearSummary = async () => {
+    if (!conversationId) return;
+    // memory_summary_through stays: forgotten messages are not summarized again
+    const { error } = await supabase
+      .from("agent_conversations")
+      .update({ memory_summary: null, memory_updated_at: new Date().toISOString() })
+      .eq("id", conversationId);
+    if (error) {
+      toast.error("Errore nell'eliminazione del riepilogo");
+      return;
+    }
+    setSummary(prev => (prev ? { ...prev, memory_summary: null } : prev));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl" data-testid="agent-memory-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Brain className="h-5 w-5" />
+            Cosa ricorda {agentName}
+          </DialogTitle>
+          <DialogDescription>
+            Riepilogo delle parti meno recenti della conversazione e informazioni su di te che l'agente usa nelle
+            risposte. Puoi correggerle o eliminarle in qualsiasi momento.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            <div className="space-y-6">
+              <section className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold">Riepilogo della conversazione</h3>
+                  {summary?.memory_summary && (
+                    <Button variant="ghost" size="sm" onClick={clearSummary} title="Elimina riepilogo">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                {summary?.memory_summary ? (
+                  <>
+                    <p className="text-sm whitespace-pre-wrap rounded-md bg-muted p-3">{summary.memory_summary}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {summary.memory_summary_messages} messaggi riassunti
+                      {summary.memory_updated_at && ` · aggiornato ${new Date(summary.memory_updated_at).toLocaleString("it-IT")}`}
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Nessun riepilogo: la conversazione è ancora abbastanza breve da essere letta per intero.
+                  </p>
+                )}
+              </section>
+
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold">Informazioni su di te ({memories.length})</h3>
+                <div className="flex gap-2">
+                  <Select value={newCategory} onValueChange={setNewCategory}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CATEGORIES.map(category => (
+                        <SelectItem key={category.value} value={category.value}>
+                          {category.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Textarea
+                    value={newContent}
+                    onChange={e => setNewContent(e.target.value)}
+                    placeholder="Aggiungi qualcosa che l'agente deve ricordare..."
+                    className="min-h-[40px]"
+                    rows={1}
+                  />
+                  <Button size="icon" onClick={addMemory} disabled={!newContent.trim()} title="Aggiungi">
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                {memories.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">L'agente non ricorda ancora nulla su di te.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {memories.map(memory => (
+                      <li key={memory.id} className="flex items-start gap-2 rounded-md border p-2">
+                        <Badge variant="outline" className="shrink-0 text-xs">{categoryLabel(memory.category)}</Badge>
+                        {editingId === memory.id ? (
+                          <>
+                            <Textarea value={draft} onChange={e => setDraft(e.target.value)} className="min-h-[60px] flex-1" />
+                            <Button variant="ghost" size="sm" onClick={() => saveEdit(memory)} title="Salva">
+                              <Check className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} title="Annulla">
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </>
+                        ) : (
+                          <>
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm">{memory.content}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {memory.source === "user" ? "Scritto da te" : "Dedotto dalla conversazione"}
+                                {memory.last_used_at && ` · usato ${new Date(memory.last_used_at).toLocaleString("it-IT")}`}
+                              </p>
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setEditingId(memory.id);
+                                setDraft(memory.content);
+                              }}
+                              title="Modifica"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => deleteMemory(memory)} title="Dimentica">
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,151 @@
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+type ToolRisk = "low" | "medium" | "high";
+type ToolCategory = "pdf" | "web" | "agents" | "lux" | "github" | "browser";
+
+// Mirror of TOOL_REGISTRY in supabase/functions/_shared/toolRegistry.ts
+export const AGENT_TOOLS: { name: string; label: string; category: ToolCategory; risk: ToolRisk; agentSpecific?: boolean; requiresApproval?: boolean }[] = [
+  { name: "download_pdf", label: "Scarica un PDF nel pool documenti", category: "pdf", risk: "medium", agentSpecific: true },
+  { name: "search_pdf_with_query", label: "Cerca PDF senza scaricarli", category: "pdf", risk: "low", agentSpecific: true },
+  { name: "search_and_acquire_pdfs", label: "Scarica i PDF approvati", category: "pdf", risk: "medium", agentSpecific: true },
+  { name: "web_search", label: "Ricerca Google", category: "web", risk: "low" },
+  { name: "web_scrape", label: "Estrai il contenuto di una pagina web", category: "web", risk: "low" },
+  { name: "list_other_agents", label: "Elenca gli altri agenti", category: "agents", risk: "low" },
+  { name: "get_agent_prompt", label: "Leggi il prompt di un agente", category: "agents", risk: "low" },
+  { name: "get_agent_knowledge", label: "Elenca i documenti di un agente", category: "agents", risk: "low" },
+  { name: "semantic_search", label: "Ricerca semantica nella knowledge base", category: "agents", risk: "low" },
+  { name: "get_agent_chat_history", label: "Leggi la cronologia chat di un agente", category: "agents", risk: "low" },
+  { name: "consult_agent_full_knowledge", label: "Consulta la knowledge completa di un agente", category: "agents", risk: "low" },
+  { name: "ask_agent_to_perform_task", label: "Delega un task a un altro agente", category: "agents", risk: "medium", requiresApproval: true },
+  { name: "delegate_task_graph", label: "Coordina più agenti con un grafo di task", category: "agents", risk: "medium", agentSpecific: true },
+  { name: "update_agent_system_prompt", label: "Riscrivi il prompt di un altro agente", category: "agents", risk: "high", requiresApproval: true },
+  { name: "create_actor_task", label: "Task Lux Actor", category: "lux", risk: "medium", requiresApproval: true },
+  { name: "create_thinker_task", label: "Task Lux Thinker", category: "lux", risk: "medium", requiresApproval: true },
+  { name: "create_tasker_task", label: "Task Lux Tasker", category: "lux", risk: "medium", requiresApproval: true },
+  { name: "github_read_file", label: "Leggi un file", category: "github", risk: "low" },
+  { name: "github_write_file", label: "Crea o modifica un file", category: "github", risk: "high", requiresApproval: true },
+  { name: "github_list_files", label: "Elenca i file", category: "github", risk: "low" },
+  { name: "github_create_branch", label: "Crea un branch", category: "github", risk: "medium" },
+  { name: "github_create_pr", label: "Apri una Pull Request", category: "github", risk: "high", requiresApproval: true },
+  { name: "tool_server_action", label: "Azione singola sul Tool Server", category: "browser", risk: "medium", requiresApproval: true },
+  { name: "lux_actor_vision", label: "Localizza elementi (Lux)", category: "browser", risk: "low" },
+  { name: "gemini_computer_use", label: "Localizza elementi (Gemini)", category: "browser", risk: "low" },
+  { name: "browser_get_dom", label: "Leggi il DOM della pagina", category: "browser", risk: "low" },
+  { name: "browser_orchestrator", label: "Esegui un piano multi-step", category: "browser", risk: "medium", requiresApproval: true },
+];
+
+const CATEGORIES: { value: ToolCategory; label: string }[] = [
+  { value: "pdf", label: "PDF" },
+  { value: "web", label: "Web" },
+  { value: "agents", label: "Agenti e knowledge" },
+  { value: "lux", label: "Lux (solo se l'agente è associato alla modalità)" },
+  { value: "github", label: "GitHub" },
+  { value: "browser", label: "Browser automation" },
+];
+
+const RISK_BADGES: Record<ToolRisk, { label: string; variant: "secondary" | "outline" | "destructive" }> = {
+  low: { label: "basso", variant: "secondary" },
+  medium: { label: "medio", variant: "outline" },
+  high: { label: "alto", variant: "destructive" },
+};
+
+// Starting points when switching from the defaults to an explicit list (high risk and agent-specific PDF tools excluded)
+const DEFAULT_ALLOWLIST = AGENT_TOOLS.filter(t => t.risk !== "high" && !t.agentSpecific).map(t => t.name);
+const DEFAULT_APPROVAL_POLICY = AGENT_TOOLS.filter(t => t.requiresApproval).map(t => t.name);
+
+interface ToolListEditorProps {
+  label: string;
+  selected: string[] | null;
+  defaults: string[];
+  onChange: (selected: string[] | null) => void;
+  defaultHint: string;
+  customHint: string;
+  disabled?: boolean;
+}
+
+// null = registry defaults, otherwise exactly the checked tools
+const ToolListEditor = ({ label, selected, defaults, onChange, defaultHint, customHint, disabled }: ToolListEditorProps) => {
+  const toggleTool = (name: string) => {
+    if (!selected) return;
+    onChange(selected.includes(name) ? selected.filter(n => n !== name) : [...selected, name]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>{label}</Label>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+          Predefinito
+          <Switch
+            checked={selected === null}
+            onCheckedChange={useDefault => onChange(useDefault ? null : [...defaults])}
+            disabled={disabled}
+          />
+        </label>
+      </div>
+      {selected !== null && (
+        <div className="rounded-lg border p-3 space-y-3">
+          {CATEGORIES.map(category => (
+            <div key={category.value} className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">{category.label}</p>
+              {AGENT_TOOLS.filter(t => t.category === category.value).map(tool => (
+                <label key={tool.name} className="flex items-center gap-2 text-xs cursor-pointer">
+                  <Checkbox
+                    checked={selected.includes(tool.name)}
+                    onCheckedChange={() => toggleTool(tool.name)}
+                    disabled={disabled}
+                  />
+                  <span className="font-mono">{tool.name}</span>
+                  <span className="text-muted-foreground truncate">{tool.label}</span>
+                  <Badge variant={RISK_BADGES[tool.risk].variant} className="ml-auto text-[10px] px-1.5 py-0">
+                    {RISK_BADGES[tool.risk].label}
+                  </Badge>
+                </label>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">{selected === null ? defaultHint : customHint}</p>
+    </div>
+  );
+};
+
+interface AgentToolAllowlistEditorProps {
+  allowlist: string[] | null;
+  onChange: (allowlist: string[] | null) => void;
+  disabled?: boolean;
+}
+
+export const AgentToolAllowlistEditor = ({ allowlist, onChange, disabled }: AgentToolAllowlistEditorProps) => (
+  <ToolListEditor
+    label="Tool"
+    selected={allowlist}
+    defaults={DEFAULT_ALLOWLIST}
+    onChange={onChange}
+    defaultHint="L'agente usa tutti i tool che aveva prima delle allowlist, compresi quelli ad alto rischio (scrittura GitHub, modifica prompt di altri agenti): usa una lista esplicita per limitarli"
+    customHint="L'agente può usare solo i tool selezionati; i tool con secret mancanti non vengono comunque offerti"
+    disabled={disabled}
+  />
+);
+
+interface AgentToolApprovalPolicyEditorProps {
+  policy: string[] | null;
+  onChange: (policy: string[] | null) => void;
+  disabled?: boolean;
+}
+
+export const AgentToolApprovalPolicyEditor = ({ policy, onChange, disabled }: AgentToolApprovalPolicyEditorProps) => (
+  <ToolListEditor
+    label="Approvazione tool"
+    selected={policy}
+    defaults={DEFAULT_APPROVAL_POLICY}
+    onChange={onChange}
+    defaultHint="Modifica dei prompt, scritture GitHub, delega ad altri agenti e automazione desktop/browser attendono l'approvazione dell'utente in chat"
+    customHint="Solo i tool selezionati attendono l'approvazione dell'utente prima di essere eseguiti"
+    disabled={disabled}
+  />
+);
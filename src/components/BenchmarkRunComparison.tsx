@@ -0,0 +1,313 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp, Loader2 } from "lucide-react";
+
+interface BenchmarkRun {
+  id: string;
+  name: string;
+  source: string;
+  suite: string | null;
+  status: string;
+  config: Json;
+  created_at: string | null;
+}
+
+interface RunResult {
+  question_id: string | null;
+  pdf_file: string;
+  question: string;
+  correct: boolean | null;
+  status: string;
+  response_time_ms: number | null;
+  agent_response: string | null;
+}
+
+interface RunAggregate {
+  total: number;
+  passed: number;
+  accuracy: number;
+  avgTimeMs: number;
+}
+
+interface Flip {
+  key: string;
+  pdf_file: string;
+  question: string;
+  baselineResponse: string | null;
+  candidateResponse: string | null;
+}
+
+// Match the same question across runs: question_id when present, otherwise file + text
+const resultKey = (r: RunResult) => r.question_id || `${r.pdf_file}|${r.question}`;
+
+const aggregate = (results: RunResult[]): RunAggregate => {
+  const completed = results.filter(r => r.status === "completed");
+  const passed = completed.filter(r => r.correct).length;
+  const timed = completed.filter(r => r.response_time_ms);
+  return {
+    total: completed.length,
+    passed,
+    accuracy: completed.length > 0 ? (passed / completed.length) * 100 : 0,
+    avgTimeMs: timed.length > 0 ? timed.reduce((sum, r) => sum + (r.response_time_ms || 0), 0) / timed.length : 0,
+  };
+};
+
+const flattenConfig = (value: Json, prefix = ""): Record<string, string> => {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    return { [prefix]: JSON.stringify(value) };
+  }
+  return Object.entries(value).reduce<Record<string, string>>((acc, [key, nested]) => ({
+    ...acc,
+    ...flattenConfig(nested as Json, prefix ? `${prefix}.${key}` : key),
+  }), {});
+};
+
+const describeConfigValue = (key: string, value: string | undefined) => {
+  if (value === undefined) return "—";
+  // Prompts are too long to show inline: show their size
+  if (key === "system_prompt") return `${JSON.parse(value)?.length ?? 0} caratteri`;
+  return value.length > 60 ? `${value.substring(0, 57)}...` : value;
+};
+
+export const BenchmarkRunComparison = () => {
+  const [runs, setRuns] = useState<BenchmarkRun[]>([]);
+  const [baselineId, setBaselineId] = useState<string | null>(null);
+  const [candidateId, setCandidateId] = useState<string | null>(null);
+  const [baselineResults, setBaselineResults] = useState<RunResult[]>([]);
+  const [candidateResults, setCandidateResults] = useState<RunResult[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const loadRuns = async () => {
+      const { data, error } = await supabase
+        .from("benchmark_runs")
+        .select("id, name, source, suite, status, config, created_at")
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        console.error("Error loading benchmark runs:", error);
+        toast.error("Errore caricamento run");
+        return;
+      }
+
+      setRuns(data || []);
+      if (data && data.length >= 2) {
+        setCandidateId(data[0].id);
+        setBaselineId(data[1].id);
+      }
+    };
+
+    loadRuns();
+  }, []);
+
+  useEffect(() => {
+    const loadResults = async () => {
+      if (!baselineId || !candidateId) return;
+      setLoading(true);
+      try {
+        const fetchRun = (runId: string) => supabase
+          .from("benchmark_results")
+          .select("question_id, pdf_file, question, correct, status, response_time_ms, agent_response")
+          .eq("run_id", runId);
+
+        const [baseline, candidate] = await Promise.all([fetchRun(baselineId), fetchRun(candidateId)]);
+        if (baseline.error) throw baseline.error;
+        if (candidate.error) throw candidate.error;
+
+        setBaselineResults(baseline.data || []);
+        setCandidateResults(candidate.data || []);
+      } catch (error) {
+        console.error("Error loading run results:", error);
+        toast.error("Errore caricamento risultati dei run");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadResults();
+  }, [baselineId, candidateId]);
+
+  const baselineRun = runs.find(r => r.id === baselineId);
+  const candidateRun = runs.find(r => r.id === candidateId);
+
+  const baselineStats = aggregate(baselineResults);
+  const candidateStats = aggregate(candidateResults);
+
+  const baselineByKey = new Map(baselineResults.filter(r => r.status === "completed").map(r => [resultKey(r), r]));
+  const regressions: Flip[] = [];
+  const fixes: Flip[] = [];
+  let common = 0;
+
+  candidateResults.filter(r => r.status === "completed").forEach(candidate => {
+    const baseline = baselineByKey.get(resultKey(candidate));
+    if (!baseline) return;
+    common++;
+
+    const flip: Flip = {
+      key: resultKey(candidate),
+      pdf_file: candidate.pdf_file,
+      question: candidate.question,
+      baselineResponse: baseline.agent_response,
+      candidateResponse: candidate.agent_response,
+    };
+    if (baseline.correct && !candidate.correct) regressions.push(flip);
+    if (!baseline.correct && candidate.correct) fixes.push(flip);
+  });
+
+  const baselineConfig = baselineRun ? flattenConfig(baselineRun.config) : {};
+  const candidateConfig = candidateRun ? flattenConfig(candidateRun.config) : {};
+  const changedConfigKeys = Array.from(new Set([...Object.keys(baselineConfig), ...Object.keys(candidateConfig)]))
+    .filter(key => baselineConfig[key] !== candidateConfig[key])
+    .sort();
+
+  const renderDelta = (delta: number, unit: string, higherIsBetter = true) => {
+    if (Math.abs(delta) < 0.05) return <span className="text-muted-foreground">±0{unit}</span>;
+    const good = higherIsBetter ? delta > 0 : delta < 0;
+    return (
+      <span className={`inline-flex items-center gap-1 ${good ? "text-green-600" : "text-red-600"}`}>
+        {delta > 0 ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+        {delta > 0 ? "+" : ""}{delta.toFixed(1)}{unit}
+      </span>
+    );
+  };
+
+  const renderFlips = (title: string, flips: Flip[], variant: "destructive" | "default") => (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <h4 className="font-medium text-sm">{title}</h4>
+        <Badge variant={variant}>{flips.length}</Badge>
+      </div>
+      {flips.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-xs">PDF</TableHead>
+              <TableHead className="text-xs">Domanda</TableHead>
+              <TableHead className="text-xs">Baseline</TableHead>
+              <TableHead className="text-xs">Candidato</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {flips.map(flip => (
+              <TableRow key={flip.key}>
+                <TableCell className="font-mono text-[10px] whitespace-nowrap">{flip.pdf_file}</TableCell>
+                <TableCell className="max-w-[200px] truncate text-xs" title={flip.question}>{flip.question}</TableCell>
+                <TableCell className="max-w-[200px] truncate text-xs" title={flip.baselineResponse || ""}>{flip.baselineResponse || "-"}</TableCell>
+                <TableCell className="max-w-[200px] truncate text-xs" title={flip.candidateResponse || ""}>{flip.candidateResponse || "-"}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+
+  const runLabel = (run: BenchmarkRun) =>
+    `${run.source === "cli" ? "💻" : "📊"} ${run.name}${run.status === "running" ? " (in corso)" : ""}`;
+
+  if (runs.length < 2) {
+    return (
+      <p className="text-sm text-muted-foreground">Servono almeno due run per un confronto.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <Select value={baselineId || ""} onValueChange={setBaselineId}>
+          <SelectTrigger>
+            <SelectValue placeholder="Baseline..." />
+          </SelectTrigger>
+          <SelectContent>
+            {runs.map(run => (
+              <SelectItem key={run.id} value={run.id}>{runLabel(run)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={candidateId || ""} onValueChange={setCandidateId}>
+          <SelectTrigger>
+            <SelectValue placeholder="Candidato..." />
+          </SelectTrigger>
+          <SelectContent>
+            {runs.map(run => (
+              <SelectItem key={run.id} value={run.id}>{runLabel(run)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Accuratezza</CardDescription>
+                <CardTitle className="text-2xl">{candidateStats.accuracy.toFixed(1)}%</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs">
+                vs {baselineStats.accuracy.toFixed(1)}% {renderDelta(candidateStats.accuracy - baselineStats.accuracy, " pt")}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Passed</CardDescription>
+                <CardTitle className="text-2xl">{candidateStats.passed}/{candidateStats.total}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs">
+                vs {baselineStats.passed}/{baselineStats.total} • {common} domande in comune
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Tempo Medio</CardDescription>
+                <CardTitle className="text-2xl">{(candidateStats.avgTimeMs / 1000).toFixed(1)}s</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs">
+                vs {(baselineStats.avgTimeMs / 1000).toFixed(1)}s {renderDelta((candidateStats.avgTimeMs - baselineStats.avgTimeMs) / 1000, "s", false)}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="font-medium text-sm">Differenze di configurazione</h4>
+            {changedConfigKeys.length === 0 ? (
+              <p className="text-xs text-muted-foreground">Nessuna differenza nello snapshot di configurazione.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Parametro</TableHead>
+                    <TableHead className="text-xs">Baseline</TableHead>
+                    <TableHead className="text-xs">Candidato</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changedConfigKeys.map(key => (
+                    <TableRow key={key}>
+                      <TableCell className="font-mono text-xs">{key}</TableCell>
+                      <TableCell className="text-xs">{describeConfigValue(key, baselineConfig[key])}</TableCell>
+                      <TableCell className="text-xs">{describeConfigValue(key, candidateConfig[key])}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+
+          {renderFlips("❌ Regressioni (corretto → sbagliato)", regressions, "destructive")}
+          {renderFlips("✅ Correzioni (sbagliato → corretto)", fixes, "default")}
+        </>
+      )}
+    </div>
+  );
+};
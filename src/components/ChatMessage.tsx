@@ -1,13 +1,17 @@
 import { useState, useEffect, useRef, useMemo, lazy, Suspense } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Copy, Check, Play, Square, ChevronDown, ChevronUp, Presentation, Sparkles, Loader2, AlertCircle, Video, RefreshCw } from "lucide-react";
+import { Copy, Check, Play, Square, ChevronDown, ChevronUp, Presentation, Sparkles, Loader2, AlertCircle, Video, RefreshCw, Layers } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { useTTS } from "@/contexts/TTSContext";
 import { useNavigate } from "react-router-dom";
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { CitationFootnotes, CITATION_HREF_PREFIX, linkifyCitations, type AnswerCitation } from "@/components/CitationFootnotes";
+import { ToolApprovalCard, type PendingToolApproval, type ToolApprovalDecision } from "@/components/ToolApprovalCard";
+import { TaskGraphView, type TaskGraphSnapshot } from "@/components/TaskGraphView";
+import { ContextManifestDialog, type ContextManifest } from "@/components/ContextManifestDialog";
 
 // Lazy load heavy dialog component
 const DeepDiveVideoDialog = lazy(() => import("@/components/DeepDiveVideoDialog").then(m => ({ default: m.DeepDiveVideoDialog })));
@@ -33,6 +37,11 @@ interface MessageMetadata {
   tools_used?: string[];
   source_reliability?: 'high' | 'medium' | 'low';
   video_documents_available?: VideoDocumentInfo[];
+  citations?: AnswerCitation[];
+  tool_approvals?: PendingToolApproval[];
+  task_graphs?: string[];
+  task_graph_live?: Record<string, TaskGraphSnapshot>;
+  context_manifest?: ContextManifest;
 }
 
 interface ChatMessageProps {
@@ -49,6 +58,7 @@ interface ChatMessageProps {
   llmProvider?: string;
   metadata?: MessageMetadata;
   videoDocumentsForAgent?: VideoDocumentInfo[];
+  onToolApprovalDecision?: (decision: ToolApprovalDecision) => void;
 }
 
 export const ChatMessage = ({ 
@@ -64,7 +74,8 @@ export const ChatMessage = ({
   agentId,
   llmProvider,
   metadata,
-  videoDocumentsForAgent
+  videoDocumentsForAgent,
+  onToolApprovalDecision
 }: ChatMessageProps) => {
   const [copied, setCopied] = useState(false);
   // null = segui forceExpanded, true/false = override manuale
@@ -72,6 +83,8 @@ export const ChatMessage = ({
   const [justReceivedLongContent, setJustReceivedLongContent] = useState(false);
   const [reloadingContent, setReloadingContent] = useState(false);
   const [showDeepDiveDialog, setShowDeepDiveDialog] = useState(false);
+  const [activeCitation, setActiveCitation] = useState<number | null>(null);
+  const [showContextManifest, setShowContextManifest] = useState(false);
   const prevContentLengthRef = useRef(content.length);
   const { currentMessageId, status, playMessage, stop } = useTTS();
   const longPressTimer = useRef<NodeJS.Timeout | null>(null);
@@ -122,6 +135,10 @@ export const ChatMessage = ({
   };
   
   const sourceBadge = getSourceBadge();
+  const citations = metadata?.citations || [];
+  const toolApprovals = metadata?.tool_approvals || [];
+  const taskGraphLive = metadata?.task_graph_live || {};
+  const taskGraphIds = [...new Set([...Object.keys(taskGraphLive), ...(metadata?.task_graphs || [])])];
   
   // Get LLM provider badge info
   const getLLMBadge = () => {
@@ -501,7 +518,26 @@ export const ChatMessage = ({
             <ReactMarkdown 
               remarkPlugins={[remarkGfm]}
               components={{
-                a: ({ node, ...props }) => (
+                a: ({ node, ...props }) => props.href?.startsWith(CITATION_HREF_PREFIX) ? (
+                  // Footnote marker produced by linkifyCitations
+                  <sup>
+                    <button
+                      type="button"
+                      className={cn(
+                        "px-0.5 font-mono text-[10px] hover:underline",
+                        citations.find(c => `${CITATION_HREF_PREFIX}${c.n}` === props.href)?.status === "hallucinated"
+                          ? "text-destructive"
+                          : "text-primary"
+                      )}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setActiveCitation(Number(props.href!.slice(CITATION_HREF_PREFIX.length)));
+                      }}
+                    >
+                      [{props.children}]
+                    </button>
+                  </sup>
+                ) : (
                   <a
                     {...props}
                     target="_blank"
@@ -512,8 +548,26 @@ export const ChatMessage = ({
                 ),
               }}
             >
-              {displayContent}
+              {linkifyCitations(displayContent)}
             </ReactMarkdown>
+            {citations.length > 0 && !isStreaming && (
+              <CitationFootnotes
+                citations={citations}
+                activeCitation={activeCitation}
+                onActiveCitationChange={setActiveCitation}
+              />
+            )}
+            {toolApprovals.map(approval => (
+              <ToolApprovalCard
+                key={approval.approval_id}
+                approval={approval}
+                onDecision={onToolApprovalDecision}
+                disabled={isStreaming}
+              />
+            ))}
+            {taskGraphIds.map(graphId => (
+              <TaskGraphView key={graphId} graphId={graphId} graph={taskGraphLive[graphId]} />
+            ))}
           </div>
         )}
         
@@ -759,12 +813,39 @@ export const ChatMessage = ({
                     <span className="text-xs hidden sm:inline">Slideshow</span>
                   </Button>
                 )}
+
+                {!isUser && metadata?.context_manifest && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onTouchStart={(e) => e.stopPropagation()}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setShowContextManifest(true);
+                    }}
+                    className="h-8 px-2"
+                    title="Contesto inviato al modello"
+                    data-testid="context-manifest-button"
+                    aria-label="Show context manifest"
+                  >
+                    <Layers className="h-3 w-3" />
+                  </Button>
+                )}
               </>
             )}
           </div>
         )}
       </div>
       
+      {metadata?.context_manifest && (
+        <ContextManifestDialog
+          open={showContextManifest}
+          onOpenChange={setShowContextManifest}
+          manifest={metadata.context_manifest}
+        />
+      )}
+
       {/* Deep Dive Video Dialog */}
       {showDeepDiveDialog && videoDocumentsForAgent && (
         <DeepDiveVideoDialog
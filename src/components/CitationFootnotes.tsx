@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, FileText, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+import { DocumentDetailsDialog, type DocumentFocus, type KnowledgeDocument } from "@/components/DocumentDetailsDialog";
+
+type PipelineSource = "pipeline_a" | "pipeline_a_hybrid" | "pipeline_b" | "pipeline_c";
+
+// Mirror of AnswerCitation in supabase/functions/_shared/citations.ts
+export interface AnswerCitation {
+  n: number;
+  citation_id: string;
+  status: "grounded" | "hallucinated";
+  chunk_id: string | null;
+  document_id: string | null;
+  document_name: string | null;
+  pipeline_source: PipelineSource | null;
+  page_number: number | null;
+  heading_path: string[];
+}
+
+const CITATION_MARKER_PATTERN = /\[cite:\s*([^\]\s]+)\s*\]/gi;
+export const CITATION_HREF_PREFIX = "#cite-";
+
+const PIPELINES: Record<PipelineSource, { table: "pipeline_a_documents" | "pipeline_a_hybrid_documents" | "pipeline_b_documents" | "pipeline_c_documents"; pipeline: KnowledgeDocument["pipeline"] }> = {
+  pipeline_a: { table: "pipeline_a_documents", pipeline: "a" },
+  pipeline_a_hybrid: { table: "pipeline_a_hybrid_documents", pipeline: "a-hybrid" },
+  pipeline_b: { table: "pipeline_b_documents", pipeline: "b" },
+  pipeline_c: { table: "pipeline_c_documents", pipeline: "c" },
+};
+
+/**
+ * Turn [cite:ID] markers into numbered footnote links. Numbering follows first appearance,
+ * same as the server, so markers are already numbered while the answer is streaming.
+ */
+export const linkifyCitations = (content: string): string => {
+  const numbers = new Map<string, number>();
+  return content.replace(CITATION_MARKER_PATTERN, (_marker, id: string) => {
+    const key = id.toUpperCase();
+    if (!numbers.has(key)) numbers.set(key, numbers.size + 1);
+    const n = numbers.get(key)!;
+    return `[${n}](${CITATION_HREF_PREFIX}${n})`;
+  });
+};
+
+const describeLocation = (citation: AnswerCitation) =>
+  [
+    citation.page_number !== null ? `p. ${citation.page_number}` : null,
+    citation.heading_path.length > 0 ? citation.heading_path.join(" › ") : null,
+  ].filter(Boolean).join(" — ");
+
+interface CitationFootnotesProps {
+  citations: AnswerCitation[];
+  activeCitation: number | null;
+  onActiveCitationChange: (n: number | null) => void;
+}
+
+export const CitationFootnotes = ({ citations, activeCitation, onActiveCitationChange }: CitationFootnotesProps) => {
+  const [document, setDocument] = useState<KnowledgeDocument | null>(null);
+  const [focus, setFocus] = useState<DocumentFocus | null>(null);
+  const [loadingN, setLoadingN] = useState<number | null>(null);
+
+  // Footnotes and inline markers both just select a number: the document is loaded here
+  useEffect(() => {
+    const citation = citations.find(c => c.n === activeCitation);
+    if (!citation) return;
+    if (citation.status === "hallucinated") {
+      toast.warning(`La fonte ${citation.citation_id} non è tra i documenti recuperati: citazione non verificabile`);
+      onActiveCitationChange(null);
+      return;
+    }
+    openCitation(citation);
+  }, [activeCitation]);
+
+  const openCitation = async (citation: AnswerCitation) => {
+    if (!citation.document_id || !citation.pipeline_source) {
+      onActiveCitationChange(null);
+      return;
+    }
+
+    setLoadingN(citation.n);
+    try {
+      const source = PIPELINES[citation.pipeline_source];
+      const { data, error } = await supabase
+        .from(source.table)
+        .select("*")
+        .eq("id", citation.document_id)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) {
+        toast.error("Documento non più presente nel pool");
+        onActiveCitationChange(null);
+        return;
+      }
+
+      const row = data as { id: string; file_name: string; status: string | null; created_at: string | null; file_path: string | null; storage_bucket: string | null; ai_summary?: string | null; keywords?: string[] | null; topics?: string[] | null; complexity_level?: string | null; full_text?: string | null };
+      setDocument({
+        id: row.id,
+        file_name: row.file_name,
+        validation_status: "validated",
+        validation_reason: "",
+        processing_status: row.status === "ready" ? "ready_for_assignment" : row.status || "",
+        ai_summary: row.ai_summary || "",
+        text_length: row.full_text?.length || 0,
+        created_at: row.created_at || new Date().toISOString(),
+        agent_names: [],
+        agents_count: 0,
+        keywords: row.keywords || undefined,
+        topics: row.topics || undefined,
+        complexity_level: row.complexity_level || undefined,
+        pipeline: source.pipeline,
+        status: row.status || undefined,
+        file_path: row.file_path,
+        storage_bucket: row.storage_bucket,
+      });
+      setFocus({ chunkId: citation.chunk_id, pageNumber: citation.page_number, headingPath: citation.heading_path });
+    } catch (error) {
+      console.error("Error loading cited document:", error);
+      toast.error("Errore caricamento documento citato");
+      onActiveCitationChange(null);
+    } finally {
+      setLoadingN(null);
+    }
+  };
+
+  const hallucinated = citations.filter(c => c.status === "hallucinated").length;
+
+  return (
+    <div className="mt-3 pt-2 border-t border-border/50 space-y-1">
+      <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+        Fonti
+        {hallucinated > 0 && (
+          <span className="inline-flex items-center gap-1 text-destructive">
+            <AlertTriangle className="h-3 w-3" />
+            {hallucinated} non verificat{hallucinated === 1 ? "a" : "e"}
+          </span>
+        )}
+      </div>
+      <ol className="space-y-0.5">
+        {citations.map(citation => (
+          <li key={citation.n}>
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onActiveCitationChange(citation.n);
+              }}
+              className={cn(
+                "flex items-start gap-1.5 text-left text-xs hover:underline",
+                citation.status === "hallucinated" ? "text-destructive" : "text-muted-foreground hover:text-foreground"
+              )}
+              title={citation.status === "hallucinated" ? "Il chunk citato non era tra quelli recuperati per questa risposta" : citation.citation_id}
+            >
+              <span className="font-mono">[{citation.n}]</span>
+              {loadingN === citation.n ? (
+                <Loader2 className="h-3 w-3 mt-0.5 animate-spin shrink-0" />
+              ) : citation.status === "hallucinated" ? (
+                <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+              ) : (
+                <FileText className="h-3 w-3 mt-0.5 shrink-0" />
+              )}
+              <span>
+                {citation.status === "hallucinated"
+                  ? `${citation.citation_id} — citazione non verificata`
+                  : [citation.document_name, describeLocation(citation)].filter(Boolean).join(" — ")}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <DocumentDetailsDialog
+        document={document}
+        open={document !== null}
+        onOpenChange={(open) => {
+          if (open) return;
+          setDocument(null);
+          setFocus(null);
+          onActiveCitationChange(null);
+        }}
+        focus={focus}
+      />
+    </div>
+  );
+};
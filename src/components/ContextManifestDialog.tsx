@@ -0,0 +1,160 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { Layers } from "lucide-react";
+
+// Same shape as ContextManifest in supabase/functions/_shared/contextAssembler.ts
+export interface ContextManifestSection {
+  id: string;
+  label: string;
+  priority: number;
+  status: "included" | "compressed" | "dropped";
+  original_tokens: number;
+  budget_tokens: number;
+  tokens: number;
+  items_total?: number;
+  items_full?: number;
+  items_condensed?: number;
+}
+
+export interface ContextManifestToolResult {
+  tool: string;
+  original_tokens: number;
+  tokens: number;
+  compressed: boolean;
+  items_total?: number;
+  items_kept?: number;
+}
+
+export interface ContextManifest {
+  model: string;
+  context_window: number;
+  output_tokens: number;
+  reserved_tokens: number;
+  budget_tokens: number;
+  used_tokens: number;
+  sections: ContextManifestSection[];
+  tool_results: ContextManifestToolResult[];
+  assembled_at: string;
+}
+
+interface ContextManifestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  manifest: ContextManifest;
+}
+
+const STATUS_LABELS: Record<ContextManifestSection["status"], { label: string; className: string }> = {
+  included: { label: "Completa", className: "bg-green-500/10 text-green-600 border-green-500/20" },
+  compressed: { label: "Compressa", className: "bg-yellow-500/10 text-yellow-600 border-yellow-500/20" },
+  dropped: { label: "Esclusa", className: "bg-red-500/10 text-red-600 border-red-500/20" },
+};
+
+const formatTokens = (tokens: number) => `~${tokens.toLocaleString("it-IT")}`;
+
+const describeItems = (section: ContextManifestSection) => {
+  if (section.items_total === undefined) return null;
+  const unit = section.id === "history" ? "messaggi" : "elementi";
+  let text = `${section.items_full ?? 0}/${section.items_total} ${unit} completi`;
+  if (section.items_condensed) text += `, ${section.items_condensed} ridotti`;
+  return text;
+};
+
+export const ContextManifestDialog = ({ open, onOpenChange, manifest }: ContextManifestDialogProps) => {
+  const usage = manifest.budget_tokens > 0 ? Math.min(100, (manifest.used_tokens / manifest.budget_tokens) * 100) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl" data-testid="context-manifest-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Contesto inviato al modello
+          </DialogTitle>
+          <DialogDescription>
+            {manifest.model} · finestra {formatTokens(manifest.context_window)} token, di cui{" "}
+            {formatTokens(manifest.output_tokens)} riservati alla risposta e {formatTokens(manifest.reserved_tokens)} a
+            tool e margine. Stime approssimate (4 caratteri ≈ 1 token).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span>Prompt</span>
+            <span className="text-muted-foreground">
+              {formatTokens(manifest.used_tokens)} / {formatTokens(manifest.budget_tokens)} token
+            </span>
+          </div>
+          <Progress value={usage} className="h-2" />
+        </div>
+
+        <ScrollArea className="max-h-[55vh] pr-3">
+          <div className="space-y-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground">
+                  <th className="py-1 font-medium">Sezione</th>
+                  <th className="py-1 font-medium">Priorità</th>
+                  <th className="py-1 font-medium text-right">Token (originali)</th>
+                  <th className="py-1 font-medium text-right">Budget</th>
+                  <th className="py-1 font-medium text-right">Stato</th>
+                </tr>
+              </thead>
+              <tbody>
+                {manifest.sections.map(section => (
+                  <tr key={section.id} className="border-t align-top">
+                    <td className="py-2">
+                      <div>{section.label}</div>
+                      {describeItems(section) && (
+                        <div className="text-xs text-muted-foreground">{describeItems(section)}</div>
+                      )}
+                    </td>
+                    <td className="py-2">{section.priority}</td>
+                    <td className="py-2 text-right">
+                      {formatTokens(section.tokens)}
+                      {section.tokens !== section.original_tokens && (
+                        <span className="text-xs text-muted-foreground"> ({formatTokens(section.original_tokens)})</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">{formatTokens(section.budget_tokens)}</td>
+                    <td className="py-2 text-right">
+                      <Badge variant="outline" className={cn("text-xs", STATUS_LABELS[section.status].className)}>
+                        {STATUS_LABELS[section.status].label}
+                      </Badge>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {manifest.tool_results.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold">Risultati dei tool</h3>
+                <ul className="space-y-1 text-sm">
+                  {manifest.tool_results.map((result, index) => (
+                    <li key={`${result.tool}-${index}`} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                      <code className="text-xs">{result.tool}</code>
+                      <span className="text-xs text-muted-foreground">
+                        {result.compressed
+                          ? `${formatTokens(result.original_tokens)} → ${formatTokens(result.tokens)} token${
+                              result.items_total !== undefined ? ` (${result.items_kept}/${result.items_total} elementi)` : ""
+                            }`
+                          : `${formatTokens(result.tokens)} token`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Assemblato il {new Date(manifest.assembled_at).toLocaleString("it-IT")}
+            </p>
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
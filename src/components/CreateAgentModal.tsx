@@ -11,6 +11,10 @@ import { Loader2, Copy, History, Trash2 } from "lucide-react";
 import { PDFKnowledgeUpload } from "@/components/PDFKnowledgeUpload";
 import { PromptHistoryDialog } from "@/components/PromptHistoryDialog";
 import { AgentTaskRequirementsView } from "@/components/AgentTaskRequirementsView";
+import { LLMFallbackChainEditor, parseFallbackSteps, serializeFallbackSteps, type FallbackStep } from "@/components/LLMFallbackChainEditor";
+import { AgentToolAllowlistEditor, AgentToolApprovalPolicyEditor } from "@/components/AgentToolAllowlistEditor";
+import { AgentBudgetEditor, EMPTY_BUDGET, parseAgentBudget, serializeAgentBudget, type AgentBudget, type AgentBudgetColumns } from "@/components/AgentBudgetEditor";
+import type { Json } from "@/integrations/supabase/types";
 import { toast } from "sonner";
 
 // Lazy load heavy component
@@ -40,7 +44,7 @@ const getDefaultModelForProvider = (provider: string): string => {
   }
 };
 
-interface Agent {
+interface Agent extends AgentBudgetColumns {
   id: string;
   name: string;
   slug: string;
@@ -49,6 +53,10 @@ interface Agent {
   system_prompt: string;
   llm_provider?: string;
   ai_model?: string;
+  reranker?: string | null;
+  llm_fallback_chain?: Json;
+  tool_allowlist?: string[] | null;
+  tool_approval_policy?: string[] | null;
 }
 
 interface CreateAgentModalProps {
@@ -66,6 +74,11 @@ export const CreateAgentModal = ({ open, onOpenChange, onSuccess, editingAgent,
   const [systemPrompt, setSystemPrompt] = useState("");
   const [llmProvider, setLlmProvider] = useState("anthropic");
   const [aiModel, setAiModel] = useState<string>("");
+  const [reranker, setReranker] = useState("boost_map");
+  const [fallbackChain, setFallbackChain] = useState<FallbackStep[]>([]);
+  const [budget, setBudget] = useState<AgentBudget>(EMPTY_BUDGET);
+  const [toolAllowlist, setToolAllowlist] = useState<string[] | null>(null);
+  const [toolApprovalPolicy, setToolApprovalPolicy] = useState<string[] | null>(null);
   const [prevProvider, setPrevProvider] = useState<string>("");
   const [loading, setLoading] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
@@ -85,6 +98,11 @@ export const CreateAgentModal = ({ open, onOpenChange, onSuccess, editingAgent,
       setLlmProvider(provider);
       const defaultModel = getDefaultModelForProvider(provider);
       setAiModel(editingAgent.ai_model || defaultModel);
+      setReranker(editingAgent.reranker || "boost_map");
+      setFallbackChain(parseFallbackSteps(editingAgent.llm_fallback_chain));
+      setBudget(parseAgentBudget(editingAgent));
+      setToolAllowlist(editingAgent.tool_allowlist ?? null);
+      setToolApprovalPolicy(editingAgent.tool_approval_policy ?? null);
       previousPromptRef.current = editingAgent.system_prompt;
     } else if (!open) {
       // Reset quando il modale si chiude
@@ -93,6 +111,11 @@ export const CreateAgentModal = ({ open, onOpenChange, onSuccess, editingAgent,
       setSystemPrompt("");
       setLlmProvider("anthropic");
       setAiModel("");
+      setReranker("boost_map");
+      setFallbackChain([]);
+      setBudget(EMPTY_BUDGET);
+      setToolAllowlist(null);
+      setToolApprovalPolicy(null);
       isEditingRef.current = false;
       previousPromptRef.current = "";
     }
@@ -155,6 +178,11 @@ export const CreateAgentModal = ({ open, onOpenChange, onSuccess, editingAgent,
           description: description || "",
           llm_provider: llmProvider,
           ai_model: aiModel || getDefaultModelForProvider(llmProvider),
+          reranker,
+          llm_fallback_chain: serializeFallbackSteps(fallbackChain),
+          ...serializeAgentBudget(budget),
+          tool_allowlist: toolAllowlist,
+          tool_approval_policy: toolApprovalPolicy,
         };
 
         // Claim legacy agent if it has no user_id
@@ -249,6 +277,11 @@ export const CreateAgentModal = ({ open, onOpenChange, onSuccess, editingAgent,
             system_prompt: systemPrompt,
             llm_provider: llmProvider,
             ai_model: aiModel || getDefaultModelForProvider(llmProvider),
+            reranker,
+            llm_fallback_chain: serializeFallbackSteps(fallbackChain),
+            ...serializeAgentBudget(budget),
+            tool_allowlist: toolAllowlist,
+            tool_approval_policy: toolApprovalPolicy,
             avatar: null,
             active: true,
             user_id: user.id
@@ -373,6 +406,11 @@ export const CreateAgentModal = ({ open, onOpenChange, onSuccess, editingAgent,
           description: editingAgent.description,
           system_prompt: editingAgent.system_prompt,
           llm_provider: editingAgent.llm_provider,
+          reranker: editingAgent.reranker,
+          llm_fallback_chain: editingAgent.llm_fallback_chain,
+          ...serializeAgentBudget(parseAgentBudget(editingAgent)),
+          tool_allowlist: editingAgent.tool_allowlist ?? null,
+          tool_approval_policy: editingAgent.tool_approval_policy ?? null,
           avatar: editingAgent.avatar,
           active: true,
           user_id: user.id
@@ -750,6 +788,67 @@ export const CreateAgentModal = ({ open, onOpenChange, onSuccess, editingAgent,
             </div>
           )}
 
+          {/* Retrieval Re-ranker Selection */}
+          <div>
+            <Label htmlFor="reranker">Knowledge Re-ranker</Label>
+            <Select
+              value={reranker}
+              onValueChange={setReranker}
+              disabled={loading}
+            >
+              <SelectTrigger id="reranker" data-testid="reranker-select">
+                <SelectValue placeholder="Select re-ranker" />
+              </SelectTrigger>
+              <SelectContent className="bg-background z-50">
+                <SelectItem value="boost_map">
+                  <div className="flex flex-col">
+                    <span className="font-medium">Financial Boost Map</span>
+                    <span className="text-xs text-muted-foreground">Boosts tables/statements for SEC financial queries</span>
+                  </div>
+                </SelectItem>
+                <SelectItem value="lexical">
+                  <div className="flex flex-col">
+                    <span className="font-medium">Lexical (BM25)</span>
+                    <span className="text-xs text-muted-foreground">Deterministic keyword overlap, no extra cost</span>
+                  </div>
+                </SelectItem>
+                <SelectItem value="llm_pointwise">
+                  <div className="flex flex-col">
+                    <span className="font-medium">LLM Pointwise</span>
+                    <span className="text-xs text-muted-foreground">LLM scores each excerpt, most accurate, slower</span>
+                  </div>
+                </SelectItem>
+                <SelectItem value="llm_listwise">
+                  <div className="flex flex-col">
+                    <span className="font-medium">LLM Listwise</span>
+                    <span className="text-xs text-muted-foreground">LLM orders all excerpts in a single call</span>
+                  </div>
+                </SelectItem>
+                <SelectItem value="none">
+                  <div className="flex flex-col">
+                    <span className="font-medium">None</span>
+                    <span className="text-xs text-muted-foreground">Keep the fused retrieval order</span>
+                  </div>
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">
+              How retrieved knowledge excerpts are re-ordered before reaching the agent
+            </p>
+          </div>
+
+          {/* LLM Fallback Chain */}
+          <LLMFallbackChainEditor steps={fallbackChain} onChange={setFallbackChain} disabled={loading} />
+
+          {/* Budget */}
+          <AgentBudgetEditor budget={budget} onChange={setBudget} disabled={loading} />
+
+          {/* Tool Allowlist */}
+          <AgentToolAllowlistEditor allowlist={toolAllowlist} onChange={setToolAllowlist} disabled={loading} />
+
+          {/* Tool Approval Policy */}
+          <AgentToolApprovalPolicyEditor policy={toolApprovalPolicy} onChange={setToolApprovalPolicy} disabled={loading} />
+
           {/* System Prompt */}
           <div>
             <div className="flex items-center justify-between mb-2">
@@ -8,14 +8,14 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
-import { FileText, Calendar, CheckCircle2, Hash, Tag, Gauge, RefreshCw, AlertCircle, Clock } from "lucide-react";
+import { FileText, Calendar, CheckCircle2, Hash, Tag, Gauge, RefreshCw, AlertCircle, Clock, Quote, ExternalLink, Loader2, History } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { it } from "date-fns/locale";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 
-interface KnowledgeDocument {
+export interface KnowledgeDocument {
   id: string;
   file_name: string;
   validation_status: string;
@@ -31,6 +31,42 @@ interface KnowledgeDocument {
   complexity_level?: string;
   pipeline?: 'a' | 'b' | 'c' | 'a-hybrid';
   status?: string; // For Pipeline B and C
+  file_path?: string | null;
+  storage_bucket?: string | null;
+}
+
+// Chunk to highlight when the dialog is opened from a citation
+export interface DocumentFocus {
+  chunkId: string | null;
+  pageNumber: number | null;
+  headingPath: string[];
+}
+
+const CHUNK_TABLES = {
+  'a': 'pipeline_a_chunks_raw',
+  'a-hybrid': 'pipeline_a_hybrid_chunks_raw',
+  'b': 'pipeline_b_chunks_raw',
+  'c': 'pipeline_c_chunks_raw',
+} as const;
+
+// document_versions.pipeline
+const VERSION_PIPELINES = {
+  'a': 'pipeline_a',
+  'a-hybrid': 'pipeline_a_hybrid',
+  'b': 'pipeline_b',
+  'c': 'pipeline_c',
+} as const;
+
+interface DocumentVersion {
+  id: string;
+  version: number;
+  created_at: string;
+  source: string | null;
+  status: string;
+  chunks_added: number;
+  chunks_kept: number;
+  chunks_retired: number;
+  error_message: string | null;
 }
 
 interface DocumentDetailsDialogProps {
@@ -38,6 +74,7 @@ interface DocumentDetailsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onRefresh?: () => void;
+  focus?: DocumentFocus | null;
 }
 
 export const DocumentDetailsDialog = ({
@@ -45,12 +82,69 @@ export const DocumentDetailsDialog = ({
   open,
   onOpenChange,
   onRefresh,
+  focus,
 }: DocumentDetailsDialogProps) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [isGeneratingMetadata, setIsGeneratingMetadata] = useState(false);
-  
+  const [focusContent, setFocusContent] = useState<string | null>(null);
+  const [loadingFocus, setLoadingFocus] = useState(false);
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+
+  useEffect(() => {
+    setFocusContent(null);
+    if (!open || !focus?.chunkId || !document?.pipeline) return;
+
+    const loadChunk = async () => {
+      setLoadingFocus(true);
+      const { data, error } = await supabase
+        .from(CHUNK_TABLES[document.pipeline!])
+        .select("content")
+        .eq("id", focus.chunkId!)
+        .maybeSingle();
+      if (error) console.error("Error loading cited chunk:", error);
+      setFocusContent(data?.content || null);
+      setLoadingFocus(false);
+    };
+
+    loadChunk();
+  }, [open, focus?.chunkId, document?.pipeline]);
+
+  useEffect(() => {
+    setVersions([]);
+    if (!open || !document?.pipeline) return;
+
+    const loadVersions = async () => {
+      const { data, error } = await supabase
+        .from("document_versions")
+        .select("id, version, created_at, source, status, chunks_added, chunks_kept, chunks_retired, error_message")
+        .eq("pipeline", VERSION_PIPELINES[document.pipeline!])
+        .eq("document_id", document.id)
+        .order("version", { ascending: false });
+      if (error) {
+        console.error("Error loading document versions:", error);
+        return;
+      }
+      setVersions(data || []);
+    };
+
+    loadVersions();
+  }, [open, document?.id, document?.pipeline]);
+
   if (!document) return null;
 
+  const handleOpenAtPage = async () => {
+    if (!document.file_path || !document.storage_bucket) return;
+    const { data, error } = await supabase.storage
+      .from(document.storage_bucket)
+      .createSignedUrl(document.file_path, 3600);
+    if (error || !data) {
+      console.error("Error creating signed URL:", error);
+      toast.error("Impossibile aprire il documento");
+      return;
+    }
+    window.open(`${data.signedUrl}${focus?.pageNumber ? `#page=${focus.pageNumber}` : ""}`, "_blank", "noopener,noreferrer");
+  };
+
   const handleGenerateMetadata = async () => {
     if (!document.id) return;
     setIsGeneratingMetadata(true);
@@ -250,6 +344,45 @@ export const DocumentDetailsDialog = ({
         </DialogHeader>
 
         <div className="space-y-6 pt-4">
+          {/* Cited passage (opened from a chat citation) */}
+          {focus && (
+            <>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="text-sm font-semibold flex items-center gap-2">
+                    <Quote className="h-4 w-4" />
+                    Passaggio Citato
+                    {focus.pageNumber !== null && (
+                      <Badge variant="outline" className="text-xs">Pagina {focus.pageNumber}</Badge>
+                    )}
+                  </h3>
+                  {document.file_path && document.storage_bucket && (
+                    <Button size="sm" variant="outline" onClick={handleOpenAtPage}>
+                      <ExternalLink className="h-4 w-4 mr-2" />
+                      {focus.pageNumber !== null ? `Apri a pagina ${focus.pageNumber}` : "Apri documento"}
+                    </Button>
+                  )}
+                </div>
+                {focus.headingPath.length > 0 && (
+                  <p className="text-xs text-muted-foreground">{focus.headingPath.join(" › ")}</p>
+                )}
+                {loadingFocus ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  </div>
+                ) : focusContent ? (
+                  <div className="text-sm leading-relaxed whitespace-pre-wrap bg-primary/5 border border-primary/20 p-4 rounded-lg max-h-64 overflow-y-auto">
+                    {focusContent}
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">Il chunk citato non è più disponibile (documento riprocessato?).</p>
+                )}
+              </div>
+
+              <Separator />
+            </>
+          )}
+
           {/* Status Section - Pipeline-aware */}
           {document.pipeline ? (
             // Pipeline moderne: usa status/processing_status
@@ -413,6 +546,49 @@ export const DocumentDetailsDialog = ({
             </div>
           </div>
 
+          {/* Version History Section */}
+          {versions.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold flex items-center gap-2">
+                  <History className="h-4 w-4" />
+                  Versioni
+                </h3>
+                <div className="space-y-1.5">
+                  {versions.map((version) => (
+                    <div key={version.id} className="flex flex-wrap items-center gap-2 text-xs">
+                      <Badge variant={version.version === versions[0].version ? "default" : "outline"} className="text-xs">
+                        v{version.version}
+                      </Badge>
+                      <span className="text-muted-foreground">
+                        {formatDistanceToNow(new Date(version.created_at), { addSuffix: true, locale: it })}
+                        {version.source && ` · ${version.source}`}
+                      </span>
+                      {version.status === "completed" ? (
+                        <span>
+                          <span className="text-green-600">+{version.chunks_added}</span>
+                          {" / "}
+                          <span className="text-muted-foreground">{version.chunks_kept} invariati</span>
+                          {" / "}
+                          <span className="text-red-500">-{version.chunks_retired}</span>
+                          {" chunk"}
+                        </span>
+                      ) : version.status === "failed" ? (
+                        <span className="text-red-500" title={version.error_message || undefined}>Fallita</span>
+                      ) : (
+                        <span className="flex items-center gap-1 text-muted-foreground">
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                          In elaborazione
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+
           {/* Assigned Agents Section */}
           {document.agent_names && document.agent_names.length > 0 && (
             <>
@@ -26,6 +26,11 @@ interface DocumentPoolUploadProps {
 // Threshold for direct storage upload (5MB) - files larger than this bypass base64 encoding
 const DIRECT_STORAGE_THRESHOLD = 5 * 1024 * 1024;
 
+// Formats parsed natively by Pipeline A-Hybrid (no LlamaParse); Pipeline B accepts PDF only
+const OFFICE_EXTENSIONS = ['.docx', '.pptx', '.xlsx', '.html', '.htm', '.epub'];
+
+const isOfficeFile = (file: File) => OFFICE_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+
 export const DocumentPoolUpload = ({ onUploadComplete }: DocumentPoolUploadProps) => {
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [uploading, setUploading] = useState(false);
@@ -43,8 +48,12 @@ export const DocumentPoolUpload = ({ onUploadComplete }: DocumentPoolUploadProps
     const validFiles: File[] = [];
     
     for (const file of files) {
-      if (file.type !== "application/pdf") {
-        toast.error(`${file.name} non è un PDF`);
+      if (file.type !== "application/pdf" && !isOfficeFile(file)) {
+        toast.error(`${file.name} non è un formato supportato`);
+        continue;
+      }
+      if (isOfficeFile(file) && selectedPipeline !== 'pipeline_a_hybrid') {
+        toast.error(`${file.name}: i documenti Office/HTML/EPUB sono supportati solo dalla Pipeline A-Hybrid`);
         continue;
       }
       if (file.size > 50 * 1024 * 1024) {
@@ -80,6 +89,10 @@ export const DocumentPoolUpload = ({ onUploadComplete }: DocumentPoolUploadProps
       toast.error("Nessun file selezionato");
       return;
     }
+    if (selectedPipeline !== 'pipeline_a_hybrid' && selectedFiles.some(isOfficeFile)) {
+      toast.error("I documenti Office/HTML/EPUB sono supportati solo dalla Pipeline A-Hybrid");
+      return;
+    }
 
     console.log('=== START SHARED POOL UPLOAD ===');
     console.log('Files:', selectedFiles.map(f => f.name));
@@ -177,7 +190,7 @@ export const DocumentPoolUpload = ({ onUploadComplete }: DocumentPoolUploadProps
             const { error: storageError } = await supabase.storage
               .from('pipeline-a-uploads')
               .upload(storagePath, file, {
-                contentType: 'application/pdf',
+                contentType: file.type || 'application/octet-stream',
                 upsert: false
               });
             
@@ -297,7 +310,7 @@ export const DocumentPoolUpload = ({ onUploadComplete }: DocumentPoolUploadProps
       <CardHeader>
         <CardTitle>Carica Nuovi Documenti</CardTitle>
         <CardDescription>
-          Carica PDF nel pool condiviso. Scegli quale pipeline utilizzare per l'elaborazione.
+          Carica PDF (o DOCX, PPTX, XLSX, HTML, EPUB con Pipeline A-Hybrid) nel pool condiviso. Scegli quale pipeline utilizzare per l'elaborazione.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -330,13 +343,13 @@ export const DocumentPoolUpload = ({ onUploadComplete }: DocumentPoolUploadProps
         </div>
         
         <div>
-          <Label htmlFor="pdf-file">Seleziona PDF (multipli, max 50MB)</Label>
+          <Label htmlFor="pdf-file">Seleziona documenti (multipli, max 50MB)</Label>
           <div className="mt-2">
             <Input
               key={inputKey}
               id="pdf-file"
               type="file"
-              accept=".pdf"
+              accept={selectedPipeline === 'pipeline_a_hybrid' ? ['.pdf', ...OFFICE_EXTENSIONS].join(',') : '.pdf'}
               multiple
               onChange={handleFileChange}
               disabled={uploading}
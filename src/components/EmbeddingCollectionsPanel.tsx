@@ -0,0 +1,235 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Loader2, RefreshCw, Boxes } from "lucide-react";
+
+type PipelineSource = "pipeline_a" | "pipeline_a_hybrid" | "pipeline_b" | "pipeline_c";
+type ReindexStatus = "queued" | "running" | "completed" | "failed";
+
+interface EmbeddingCollection {
+  pipeline: string;
+  embedding_model: string;
+  embedding_dimension: number;
+  reindex_model: string | null;
+}
+
+interface ReindexJob {
+  id: string;
+  pipeline: string;
+  from_model: string;
+  to_model: string;
+  status: string;
+  total_chunks: number;
+  processed_chunks: number;
+  failed_chunks: number;
+  error_message: string | null;
+  created_at: string;
+}
+
+// Mirror of EMBEDDING_MODELS in supabase/functions/_shared/embeddingService.ts
+const EMBEDDING_MODELS = [
+  { id: "text-embedding-3-small", label: "OpenAI text-embedding-3-small" },
+  { id: "text-embedding-3-large-1536", label: "OpenAI text-embedding-3-large (1536)" },
+  { id: "gemini-embedding-001-1536", label: "Google gemini-embedding-001 (1536)" },
+  { id: "local-hash-1536", label: "Locale (feature hashing, solo test)" },
+];
+
+const PIPELINE_LABELS: Record<PipelineSource, string> = {
+  pipeline_a: "Pipeline A",
+  pipeline_a_hybrid: "Pipeline A-Hybrid",
+  pipeline_b: "Pipeline B",
+  pipeline_c: "Pipeline C",
+};
+
+const STATUS_BADGES: Record<ReindexStatus, { label: string; variant: "secondary" | "outline" | "destructive" | "default" }> = {
+  queued: { label: "In coda", variant: "outline" },
+  running: { label: "In corso", variant: "secondary" },
+  completed: { label: "Completato", variant: "default" },
+  failed: { label: "Fallito", variant: "destructive" },
+};
+
+const isActive = (job?: ReindexJob) => job?.status === "queued" || job?.status === "running";
+
+export const EmbeddingCollectionsPanel = () => {
+  const [collections, setCollections] = useState<EmbeddingCollection[]>([]);
+  const [jobs, setJobs] = useState<Record<string, ReindexJob>>({});
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState<string | null>(null);
+
+  const loadData = async () => {
+    const [collectionsResult, jobsResult] = await Promise.all([
+      supabase.from("embedding_collections").select("pipeline, embedding_model, embedding_dimension, reindex_model").order("pipeline"),
+      supabase
+        .from("embedding_reindex_jobs")
+        .select("id, pipeline, from_model, to_model, status, total_chunks, processed_chunks, failed_chunks, error_message, created_at")
+        .order("created_at", { ascending: false })
+        .limit(20),
+    ]);
+
+    if (collectionsResult.error) {
+      console.error("Error loading embedding collections:", collectionsResult.error);
+      toast.error("Errore nel caricamento delle collezioni embedding");
+    } else {
+      setCollections(collectionsResult.data || []);
+    }
+
+    // Latest job per pipeline
+    const latest: Record<string, ReindexJob> = {};
+    (jobsResult.data || []).forEach(job => {
+      if (!latest[job.pipeline]) latest[job.pipeline] = job;
+    });
+    setJobs(latest);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  // Poll while a job is running
+  const hasActiveJob = Object.values(jobs).some(isActive);
+  useEffect(() => {
+    if (!hasActiveJob) return;
+    const interval = setInterval(loadData, 5000);
+    return () => clearInterval(interval);
+  }, [hasActiveJob]);
+
+  const startReindex = async (pipeline: string) => {
+    const model = targets[pipeline];
+    if (!model) return;
+
+    setStarting(pipeline);
+    try {
+      const { data, error } = await supabase.functions.invoke("reindex-embeddings", {
+        body: { pipeline, model },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      toast.success(`Re-index avviato: ${data.job.total_chunks} chunk da migrare`);
+      await loadData();
+    } catch (error) {
+      console.error("Error starting re-index:", error);
+      toast.error(error instanceof Error ? error.message : "Errore nell'avvio del re-index");
+    } finally {
+      setStarting(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Boxes className="h-5 w-5" />
+              Modelli di Embedding
+            </CardTitle>
+            <CardDescription>
+              Modello attivo per pipeline. Il re-index ricalcola gli embedding in background: durante la migrazione
+              la ricerca usa entrambi i modelli, senza mai confrontare vettori di modelli diversi.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadData} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Pipeline</TableHead>
+                <TableHead>Modello attivo</TableHead>
+                <TableHead>Ultimo re-index</TableHead>
+                <TableHead className="w-[320px]">Nuovo modello</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {collections.map(collection => {
+                const job = jobs[collection.pipeline];
+                const status = job ? STATUS_BADGES[job.status as ReindexStatus] : null;
+                const progress = job && job.total_chunks > 0
+                  ? Math.min(100, Math.round((job.processed_chunks / job.total_chunks) * 100))
+                  : 0;
+
+                return (
+                  <TableRow key={collection.pipeline}>
+                    <TableCell className="font-medium">
+                      {PIPELINE_LABELS[collection.pipeline as PipelineSource] || collection.pipeline}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-mono text-xs">{collection.embedding_model}</div>
+                      <div className="text-xs text-muted-foreground">{collection.embedding_dimension} dim</div>
+                      {collection.reindex_model && (
+                        <div className="text-xs text-muted-foreground">→ {collection.reindex_model}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {job ? (
+                        <div className="space-y-1 min-w-[200px]">
+                          <div className="flex items-center gap-2 text-xs">
+                            {status && <Badge variant={status.variant}>{status.label}</Badge>}
+                            <span className="text-muted-foreground">
+                              {job.processed_chunks}/{job.total_chunks}
+                              {job.failed_chunks > 0 && ` (${job.failed_chunks} errori)`}
+                            </span>
+                          </div>
+                          {isActive(job) && <Progress value={progress} className="h-2" />}
+                          {job.error_message && (
+                            <p className="text-xs text-destructive">{job.error_message}</p>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">Nessuno</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={targets[collection.pipeline] || ""}
+                          onValueChange={value => setTargets(prev => ({ ...prev, [collection.pipeline]: value }))}
+                          disabled={isActive(job)}
+                        >
+                          <SelectTrigger className="w-[220px]">
+                            <SelectValue placeholder="Seleziona modello" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {EMBEDDING_MODELS.map(model => (
+                              <SelectItem key={model.id} value={model.id}>
+                                {model.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          size="sm"
+                          onClick={() => startReindex(collection.pipeline)}
+                          disabled={!targets[collection.pipeline] || isActive(job) || starting !== null}
+                        >
+                          {starting === collection.pipeline ? <Loader2 className="h-4 w-4 animate-spin" /> : "Re-index"}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
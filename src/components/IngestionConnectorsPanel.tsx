@@ -0,0 +1,453 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import { Loader2, Plug, Plus, RefreshCw, Trash2, Upload } from "lucide-react";
+import type { Json } from "@/integrations/supabase/types";
+
+type ConnectorType = "website" | "html_export" | "mailbox";
+
+interface IngestionConnector {
+  id: string;
+  name: string;
+  connector_type: string;
+  pipeline: string;
+  folder: string | null;
+  config: Json;
+  sync_interval_minutes: number | null;
+  is_active: boolean;
+  last_sync_at: string | null;
+  last_sync_status: string | null;
+  last_sync_items: number;
+  last_error: string | null;
+}
+
+type QueueCounts = Record<"pending" | "processing" | "completed" | "skipped" | "failed", number>;
+
+const CONNECTOR_TYPES: { value: ConnectorType; label: string; description: string }[] = [
+  { value: "website", label: "Sito web", description: "Sitemap XML oppure crawl a partire da un URL" },
+  { value: "html_export", label: "Export HTML", description: "Export zip di Notion o Confluence (HTML)" },
+  { value: "mailbox", label: "Casella email", description: "File .mbox, .eml o zip di .eml" },
+];
+
+// Text sinks of supabase/functions/_shared/ingestSink.ts (pipeline C ingests PDFs only)
+const PIPELINES = [
+  { value: "pipeline_a_hybrid", label: "Pipeline A-Hybrid" },
+  { value: "pipeline_a", label: "Pipeline A" },
+  { value: "pipeline_b", label: "Pipeline B" },
+];
+
+const SYNC_INTERVALS = [
+  { value: "manual", label: "Solo manuale" },
+  { value: "60", label: "Ogni ora" },
+  { value: "360", label: "Ogni 6 ore" },
+  { value: "1440", label: "Ogni giorno" },
+];
+
+const CONNECTOR_BUCKET = "connector-uploads";
+
+const emptyQueueCounts = (): QueueCounts => ({ pending: 0, processing: 0, completed: 0, skipped: 0, failed: 0 });
+
+const configPath = (config: Json): string | null =>
+  config && typeof config === "object" && !Array.isArray(config) && typeof config.path === "string" ? config.path : null;
+
+export const IngestionConnectorsPanel = () => {
+  const { user } = useAuth();
+  const [connectors, setConnectors] = useState<IngestionConnector[]>([]);
+  const [queueCounts, setQueueCounts] = useState<Record<string, QueueCounts>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [syncing, setSyncing] = useState<string | null>(null);
+
+  const [name, setName] = useState("");
+  const [connectorType, setConnectorType] = useState<ConnectorType>("website");
+  const [pipeline, setPipeline] = useState("pipeline_a_hybrid");
+  const [folder, setFolder] = useState("");
+  const [interval, setSyncInterval] = useState("1440");
+  const [siteUrl, setSiteUrl] = useState("");
+  const [maxPages, setMaxPages] = useState("50");
+  const [file, setFile] = useState<File | null>(null);
+
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+  const [replaceTarget, setReplaceTarget] = useState<IngestionConnector | null>(null);
+
+  const loadData = async () => {
+    const [connectorsResult, queueResult] = await Promise.all([
+      supabase
+        .from("ingestion_connectors")
+        .select("id, name, connector_type, pipeline, folder, config, sync_interval_minutes, is_active, last_sync_at, last_sync_status, last_sync_items, last_error")
+        .order("created_at", { ascending: false }),
+      supabase.from("ingestion_queue").select("connector_id, status"),
+    ]);
+
+    if (connectorsResult.error) {
+      console.error("Error loading connectors:", connectorsResult.error);
+      toast.error("Errore nel caricamento dei connettori");
+    } else {
+      setConnectors(connectorsResult.data || []);
+    }
+
+    const counts: Record<string, QueueCounts> = {};
+    (queueResult.data || []).forEach(row => {
+      const entry = (counts[row.connector_id] ||= emptyQueueCounts());
+      if (row.status in entry) entry[row.status as keyof QueueCounts]++;
+    });
+    setQueueCounts(counts);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  // Refresh while items are being ingested
+  const hasPendingItems = Object.values(queueCounts).some(c => c.pending + c.processing > 0);
+  useEffect(() => {
+    if (!hasPendingItems) return;
+    const timer = setInterval(loadData, 10000);
+    return () => clearInterval(timer);
+  }, [hasPendingItems]);
+
+  const uploadSource = async (source: File, path?: string): Promise<string> => {
+    const target = path || `${connectorType}/${Date.now()}-${source.name.replace(/[^\w.-]+/g, "_")}`;
+    const { error } = await supabase.storage.from(CONNECTOR_BUCKET).upload(target, source, { upsert: true });
+    if (error) throw new Error(`Upload fallito: ${error.message}`);
+    return target;
+  };
+
+  const syncConnector = async (connectorId: string) => {
+    setSyncing(connectorId);
+    try {
+      const { data, error } = await supabase.functions.invoke("connector-sync", { body: { connectorId } });
+      if (error) throw error;
+      const result = data?.results?.[0];
+      if (result?.error) throw new Error(result.error);
+      toast.success(`Sincronizzazione completata: ${result?.enqueued ?? 0} elementi in coda`);
+    } catch (error) {
+      console.error("Error syncing connector:", error);
+      toast.error(error instanceof Error ? error.message : "Errore nella sincronizzazione");
+    } finally {
+      setSyncing(null);
+      loadData();
+    }
+  };
+
+  const createConnector = async () => {
+    if (!name.trim()) {
+      toast.error("Inserisci un nome per il connettore");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      let config: Record<string, unknown>;
+      if (connectorType === "website") {
+        if (!siteUrl.trim()) throw new Error("Inserisci l'URL del sito o della sitemap");
+        const url = siteUrl.trim();
+        config = {
+          ...(url.endsWith(".xml") ? { sitemapUrl: url } : { startUrl: url }),
+          maxPages: Number(maxPages) || 50,
+        };
+      } else {
+        if (!file) throw new Error("Seleziona il file da importare");
+        config = { bucket: CONNECTOR_BUCKET, path: await uploadSource(file) };
+      }
+
+      const { data, error } = await supabase
+        .from("ingestion_connectors")
+        .insert({
+          name: name.trim(),
+          connector_type: connectorType,
+          pipeline,
+          folder: folder.trim() || null,
+          config: config as Json,
+          sync_interval_minutes: interval === "manual" ? null : Number(interval),
+          created_by: user?.id ?? null,
+        })
+        .select("id")
+        .single();
+      if (error) throw error;
+
+      toast.success("Connettore creato");
+      setName("");
+      setSiteUrl("");
+      setFile(null);
+      await syncConnector(data.id);
+    } catch (error) {
+      console.error("Error creating connector:", error);
+      toast.error(error instanceof Error ? error.message : "Errore nella creazione del connettore");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (connector: IngestionConnector) => {
+    const { error } = await supabase
+      .from("ingestion_connectors")
+      .update({ is_active: !connector.is_active, updated_at: new Date().toISOString() })
+      .eq("id", connector.id);
+    if (error) {
+      toast.error("Errore nell'aggiornamento del connettore");
+      return;
+    }
+    loadData();
+  };
+
+  const deleteConnector = async (connector: IngestionConnector) => {
+    if (!confirm(`Eliminare il connettore "${connector.name}"? I documenti già importati restano nella pipeline.`)) return;
+    const { error } = await supabase.from("ingestion_connectors").delete().eq("id", connector.id);
+    if (error) {
+      toast.error("Errore nell'eliminazione del connettore");
+      return;
+    }
+    toast.success("Connettore eliminato");
+    loadData();
+  };
+
+  // A newer export / mailbox replaces the file at the same path, then only changed items are enqueued
+  const replaceSource = async (source: File) => {
+    const path = replaceTarget ? configPath(replaceTarget.config) : null;
+    if (!replaceTarget || !path) return;
+    try {
+      await uploadSource(source, path);
+      await syncConnector(replaceTarget.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Errore nel caricamento del file");
+    } finally {
+      setReplaceTarget(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plug className="h-5 w-5" />
+            Nuovo connettore
+          </CardTitle>
+          <CardDescription>
+            I connettori importano fonti esterne nella pipeline scelta tramite la coda di ingestione.
+            Le sincronizzazioni successive accodano solo gli elementi nuovi o modificati.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Nome</Label>
+              <Input value={name} onChange={e => setName(e.target.value)} placeholder="Documentazione prodotto" />
+            </div>
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={connectorType} onValueChange={value => setConnectorType(value as ConnectorType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONNECTOR_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {CONNECTOR_TYPES.find(type => type.value === connectorType)?.description}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Pipeline</Label>
+              <Select value={pipeline} onValueChange={setPipeline}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PIPELINES.map(p => (
+                    <SelectItem key={p.value} value={p.value}>
+                      {p.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Cartella (opzionale)</Label>
+              <Input value={folder} onChange={e => setFolder(e.target.value)} placeholder="connettori/docs" />
+            </div>
+            {connectorType === "website" ? (
+              <>
+                <div className="space-y-2">
+                  <Label>URL sitemap o pagina iniziale</Label>
+                  <Input
+                    value={siteUrl}
+                    onChange={e => setSiteUrl(e.target.value)}
+                    placeholder="https://example.com/sitemap.xml"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Pagine massime</Label>
+                  <Input type="number" min={1} max={500} value={maxPages} onChange={e => setMaxPages(e.target.value)} />
+                </div>
+              </>
+            ) : (
+              <div className="space-y-2">
+                <Label>File</Label>
+                <Input
+                  type="file"
+                  accept={connectorType === "mailbox" ? ".mbox,.mbx,.eml,.zip" : ".zip"}
+                  onChange={e => setFile(e.target.files?.[0] || null)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Sincronizzazione</Label>
+              <Select value={interval} onValueChange={setSyncInterval}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SYNC_INTERVALS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button onClick={createConnector} disabled={saving}>
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Crea e sincronizza
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Connettori</CardTitle>
+            <Button variant="outline" size="sm" onClick={loadData} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <input
+            ref={replaceInputRef}
+            type="file"
+            className="hidden"
+            onChange={e => {
+              const source = e.target.files?.[0];
+              e.target.value = "";
+              if (source) replaceSource(source);
+            }}
+          />
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : connectors.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nessun connettore configurato</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Pipeline</TableHead>
+                  <TableHead>Ultima sincronizzazione</TableHead>
+                  <TableHead>Coda</TableHead>
+                  <TableHead>Attivo</TableHead>
+                  <TableHead className="text-right">Azioni</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {connectors.map(connector => {
+                  const counts = queueCounts[connector.id] || emptyQueueCounts();
+                  const typeLabel = CONNECTOR_TYPES.find(type => type.value === connector.connector_type)?.label;
+                  return (
+                    <TableRow key={connector.id}>
+                      <TableCell>
+                        <div className="font-medium">{connector.name}</div>
+                        <Badge variant="outline" className="text-xs">{typeLabel || connector.connector_type}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {PIPELINES.find(p => p.value === connector.pipeline)?.label || connector.pipeline}
+                        {connector.folder && <div className="text-muted-foreground">{connector.folder}</div>}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {connector.last_sync_at ? (
+                          <div className="space-y-1">
+                            <div className="flex items-center gap-2">
+                              <Badge variant={connector.last_sync_status === "failed" ? "destructive" : "secondary"}>
+                                {connector.last_sync_status === "failed"
+                                  ? "Fallita"
+                                  : connector.last_sync_status === "running"
+                                    ? "In corso"
+                                    : "Completata"}
+                              </Badge>
+                              <span className="text-muted-foreground">
+                                {new Date(connector.last_sync_at).toLocaleString("it-IT")}
+                              </span>
+                            </div>
+                            {connector.last_error && <p className="text-destructive">{connector.last_error}</p>}
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground">Mai</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {counts.pending + counts.processing > 0 && <div>In coda: {counts.pending + counts.processing}</div>}
+                        <div>Importati: {counts.completed + counts.skipped}</div>
+                        {counts.failed > 0 && <div className="text-destructive">Falliti: {counts.failed}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Switch checked={connector.is_active} onCheckedChange={() => toggleActive(connector)} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          {configPath(connector.config) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Carica una nuova versione del file"
+                              onClick={() => {
+                                setReplaceTarget(connector);
+                                replaceInputRef.current?.click();
+                              }}
+                            >
+                              <Upload className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Sincronizza ora"
+                            onClick={() => syncConnector(connector.id)}
+                            disabled={syncing !== null}
+                          >
+                            {syncing === connector.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                          </Button>
+                          <Button variant="ghost" size="sm" title="Elimina" onClick={() => deleteConnector(connector)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,591 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Loader2, Save, Plus, Trash2, FlaskConical, Tags } from "lucide-react";
+import type { Json } from "@/integrations/supabase/types";
+
+type ScopeType = "global" | "agent" | "folder";
+
+interface QueryIntent {
+  id: string;
+  name: string;
+  description: string | null;
+  scope_type: ScopeType;
+  agent_id: string | null;
+  folder: string | null;
+  patterns: string[];
+  exemplars: string[];
+  chunk_type_boosts: Json;
+  exemplar_threshold: number;
+  priority: number;
+  is_active: boolean;
+}
+
+interface IntentForm {
+  id: string | null;
+  name: string;
+  description: string;
+  scope_type: ScopeType;
+  agent_id: string | null;
+  folder: string | null;
+  patterns: string;
+  exemplars: string;
+  boosts: string;
+  exemplar_threshold: string;
+  priority: string;
+  is_active: boolean;
+}
+
+interface IntentEvaluation {
+  intent: string;
+  scope: string;
+  folder?: string | null;
+  matched_pattern: string | null;
+  invalid_patterns: string[];
+  best_exemplar: string | null;
+  exemplar_similarity: number | null;
+}
+
+interface IntentTestResult {
+  match: {
+    intent: string;
+    scope: string | null;
+    matched_by: "pattern" | "exemplar" | "fallback";
+    pattern?: string;
+    exemplar?: string;
+    similarity?: number;
+    chunk_type_boosts: Record<string, number>;
+    evaluated: IntentEvaluation[];
+  };
+}
+
+const EMPTY_FORM: IntentForm = {
+  id: null,
+  name: "",
+  description: "",
+  scope_type: "global",
+  agent_id: null,
+  folder: null,
+  patterns: "",
+  exemplars: "",
+  boosts: "",
+  exemplar_threshold: "0.82",
+  priority: "0",
+  is_active: true,
+};
+
+const splitLines = (value: string) =>
+  value.split("\n").map(line => line.trim()).filter(Boolean);
+
+// "table: 1.8" per line ↔ { table: 1.8 }
+const formatBoosts = (boosts: Json) =>
+  Object.entries((boosts as Record<string, number>) || {})
+    .map(([chunkType, factor]) => `${chunkType}: ${factor}`)
+    .join("\n");
+
+const parseBoosts = (value: string): Record<string, number> => {
+  const boosts: Record<string, number> = {};
+  for (const line of splitLines(value)) {
+    const [chunkType, factor] = line.split(":").map(part => part.trim());
+    const parsed = Number(factor);
+    if (!chunkType || !Number.isFinite(parsed)) {
+      throw new Error(`Boost non valido: "${line}" (formato: chunk_type: 1.5)`);
+    }
+    boosts[chunkType.toLowerCase()] = parsed;
+  }
+  return boosts;
+};
+
+const invalidPatterns = (value: string) =>
+  splitLines(value).filter(pattern => {
+    try {
+      new RegExp(pattern, "i");
+      return false;
+    } catch {
+      return true;
+    }
+  });
+
+export const IntentTaxonomyEditor = () => {
+  const [intents, setIntents] = useState<QueryIntent[]>([]);
+  const [agents, setAgents] = useState<{ id: string; name: string }[]>([]);
+  const [folders, setFolders] = useState<string[]>([]);
+  const [form, setForm] = useState<IntentForm>(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [testQuery, setTestQuery] = useState("");
+  const [testAgentId, setTestAgentId] = useState<string>("none");
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<IntentTestResult | null>(null);
+
+  const loadIntents = async () => {
+    const { data, error } = await supabase
+      .from("query_intents")
+      .select("*")
+      .order("scope_type")
+      .order("priority", { ascending: false });
+
+    if (error) throw error;
+    setIntents((data || []) as QueryIntent[]);
+  };
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setLoading(true);
+      try {
+        const [{ data: agentsData }, { data: foldersData }] = await Promise.all([
+          supabase.from("agents").select("id, name").eq("active", true).order("name"),
+          supabase.from("folders").select("name").order("name"),
+        ]);
+        setAgents(agentsData || []);
+        setFolders((foldersData || []).map(f => f.name));
+        await loadIntents();
+      } catch (error) {
+        console.error("[IntentTaxonomyEditor] Error loading taxonomy:", error);
+        toast.error("Errore nel caricamento della tassonomia");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  const editIntent = (intent: QueryIntent) => {
+    setForm({
+      id: intent.id,
+      name: intent.name,
+      description: intent.description || "",
+      scope_type: intent.scope_type,
+      agent_id: intent.agent_id,
+      folder: intent.folder,
+      patterns: intent.patterns.join("\n"),
+      exemplars: intent.exemplars.join("\n"),
+      boosts: formatBoosts(intent.chunk_type_boosts),
+      exemplar_threshold: String(intent.exemplar_threshold),
+      priority: String(intent.priority),
+      is_active: intent.is_active,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error("Il nome dell'intent è obbligatorio");
+      return;
+    }
+    if (form.scope_type === "agent" && !form.agent_id) {
+      toast.error("Seleziona un agente per un intent con scope 'agent'");
+      return;
+    }
+    if (form.scope_type === "folder" && !form.folder) {
+      toast.error("Seleziona una cartella per un intent con scope 'folder'");
+      return;
+    }
+    const badPatterns = invalidPatterns(form.patterns);
+    if (badPatterns.length > 0) {
+      toast.error(`Regex non valide: ${badPatterns.join(", ")}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const payload = {
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        scope_type: form.scope_type,
+        agent_id: form.scope_type === "agent" ? form.agent_id : null,
+        folder: form.scope_type === "folder" ? form.folder : null,
+        patterns: splitLines(form.patterns),
+        exemplars: splitLines(form.exemplars),
+        chunk_type_boosts: parseBoosts(form.boosts),
+        exemplar_threshold: Number(form.exemplar_threshold) || 0.82,
+        priority: parseInt(form.priority, 10) || 0,
+        is_active: form.is_active,
+        updated_at: new Date().toISOString(),
+      };
+
+      const { error } = form.id
+        ? await supabase.from("query_intents").update(payload).eq("id", form.id)
+        : await supabase.from("query_intents").insert(payload);
+
+      if (error) throw error;
+
+      toast.success(form.id ? "Intent aggiornato" : "Intent creato");
+      setForm(EMPTY_FORM);
+      await loadIntents();
+    } catch (error) {
+      console.error("[IntentTaxonomyEditor] Error saving intent:", error);
+      toast.error(error instanceof Error ? error.message : "Errore nel salvataggio dell'intent");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (intentId: string) => {
+    const { error } = await supabase.from("query_intents").delete().eq("id", intentId);
+    if (error) {
+      toast.error("Errore nell'eliminazione dell'intent");
+      return;
+    }
+    toast.success("Intent eliminato");
+    if (form.id === intentId) setForm(EMPTY_FORM);
+    await loadIntents();
+  };
+
+  const handleTest = async () => {
+    if (!testQuery.trim()) return;
+    setTesting(true);
+    setTestResult(null);
+    try {
+      const { data, error } = await supabase.functions.invoke("test-query-intent", {
+        body: { query: testQuery, agentId: testAgentId === "none" ? null : testAgentId },
+      });
+      if (error) throw error;
+      setTestResult(data as IntentTestResult);
+    } catch (error) {
+      console.error("[IntentTaxonomyEditor] Test failed:", error);
+      toast.error("Errore durante il test della query");
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const scopeLabel = (intent: QueryIntent) => {
+    if (intent.scope_type === "agent") {
+      return `agent: ${agents.find(a => a.id === intent.agent_id)?.name || "?"}`;
+    }
+    if (intent.scope_type === "folder") return `folder: ${intent.folder}`;
+    return "global";
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const formInvalidPatterns = invalidPatterns(form.patterns);
+
+  return (
+    <div className="space-y-6">
+      {/* Query tester */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Test Query Intent
+          </CardTitle>
+          <CardDescription>
+            Verifica quale intent viene rilevato per una query e perché (pattern o esempio simile).
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col md:flex-row gap-2">
+            <Input
+              value={testQuery}
+              onChange={(e) => setTestQuery(e.target.value)}
+              placeholder="Es: What was the operating margin in 2023?"
+              onKeyDown={(e) => e.key === "Enter" && handleTest()}
+            />
+            <Select value={testAgentId} onValueChange={setTestAgentId}>
+              <SelectTrigger className="md:w-64">
+                <SelectValue placeholder="Agente (opzionale)" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Solo intent globali</SelectItem>
+                {agents.map(agent => (
+                  <SelectItem key={agent.id} value={agent.id}>{agent.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleTest} disabled={testing || !testQuery.trim()}>
+              {testing ? <Loader2 className="h-4 w-4 animate-spin" /> : "Testa"}
+            </Button>
+          </div>
+
+          {testResult && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span>Intent rilevato:</span>
+                <Badge variant={testResult.match.matched_by === "fallback" ? "secondary" : "default"}>
+                  {testResult.match.intent}
+                </Badge>
+                <span className="text-muted-foreground">
+                  {testResult.match.matched_by === "pattern" && <>via pattern <code className="text-xs">{testResult.match.pattern}</code></>}
+                  {testResult.match.matched_by === "exemplar" && (
+                    <>via esempio "{testResult.match.exemplar}" (similarità {testResult.match.similarity?.toFixed(3)})</>
+                  )}
+                  {testResult.match.matched_by === "fallback" && "nessun pattern o esempio sopra soglia"}
+                </span>
+                {testResult.match.scope && <Badge variant="outline">{testResult.match.scope}</Badge>}
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Intent</TableHead>
+                    <TableHead>Scope</TableHead>
+                    <TableHead>Pattern</TableHead>
+                    <TableHead>Esempio più simile</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {testResult.match.evaluated.map((evaluation, idx) => (
+                    <TableRow key={`${evaluation.intent}-${idx}`}>
+                      <TableCell className="font-medium">{evaluation.intent}</TableCell>
+                      <TableCell>{evaluation.folder ? `folder: ${evaluation.folder}` : evaluation.scope}</TableCell>
+                      <TableCell className="text-xs">
+                        {evaluation.matched_pattern
+                          ? <code className="text-green-600">{evaluation.matched_pattern}</code>
+                          : <span className="text-muted-foreground">—</span>}
+                        {evaluation.invalid_patterns.length > 0 && (
+                          <div className="text-destructive">Regex non valide: {evaluation.invalid_patterns.length}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {evaluation.best_exemplar
+                          ? `${evaluation.best_exemplar} (${evaluation.exemplar_similarity?.toFixed(3)})`
+                          : <span className="text-muted-foreground">—</span>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Intent list */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tags className="h-5 w-5" />
+            Tassonomia Intent
+          </CardTitle>
+          <CardDescription>
+            Gli intent guidano il boost dei chunk in semantic-search. Precedenza: agente &gt; cartella &gt; globale, poi priorità.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nome</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead>Pattern</TableHead>
+                <TableHead>Esempi</TableHead>
+                <TableHead>Priorità</TableHead>
+                <TableHead>Attivo</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {intents.map(intent => (
+                <TableRow
+                  key={intent.id}
+                  className={`cursor-pointer ${form.id === intent.id ? "bg-muted" : ""}`}
+                  onClick={() => editIntent(intent)}
+                >
+                  <TableCell className="font-medium">{intent.name}</TableCell>
+                  <TableCell><Badge variant="outline">{scopeLabel(intent)}</Badge></TableCell>
+                  <TableCell>{intent.patterns.length}</TableCell>
+                  <TableCell>{intent.exemplars.length}</TableCell>
+                  <TableCell>{intent.priority}</TableCell>
+                  <TableCell>{intent.is_active ? "✅" : "—"}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(intent.id);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {intents.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    Nessun intent configurato: semantic-search usa gli intent finanziari predefiniti
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Intent form */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{form.id ? `Modifica intent: ${form.name}` : "Nuovo intent"}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="intent-name">Nome *</Label>
+              <Input
+                id="intent-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="es. contract_clause"
+              />
+            </div>
+            <div>
+              <Label htmlFor="intent-description">Descrizione</Label>
+              <Input
+                id="intent-description"
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label>Scope</Label>
+              <Select
+                value={form.scope_type}
+                onValueChange={(value) => setForm(prev => ({ ...prev, scope_type: value as ScopeType }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="global">Globale</SelectItem>
+                  <SelectItem value="agent">Agente</SelectItem>
+                  <SelectItem value="folder">Cartella</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {form.scope_type === "agent" && (
+              <div>
+                <Label>Agente</Label>
+                <Select
+                  value={form.agent_id || ""}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, agent_id: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Seleziona agente..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {agents.map(agent => (
+                      <SelectItem key={agent.id} value={agent.id}>{agent.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {form.scope_type === "folder" && (
+              <div>
+                <Label>Cartella</Label>
+                <Select
+                  value={form.folder || ""}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, folder: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Seleziona cartella..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {folders.map(folder => (
+                      <SelectItem key={folder} value={folder}>{folder}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="intent-priority">Priorità</Label>
+              <Input
+                id="intent-priority"
+                type="number"
+                value={form.priority}
+                onChange={(e) => setForm(prev => ({ ...prev, priority: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="intent-threshold">Soglia similarità esempi</Label>
+              <Input
+                id="intent-threshold"
+                type="number"
+                step="0.01"
+                value={form.exemplar_threshold}
+                onChange={(e) => setForm(prev => ({ ...prev, exemplar_threshold: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="intent-patterns">Pattern regex (uno per riga, case-insensitive)</Label>
+            <Textarea
+              id="intent-patterns"
+              value={form.patterns}
+              onChange={(e) => setForm(prev => ({ ...prev, patterns: e.target.value }))}
+              rows={5}
+              className="font-mono text-xs"
+              placeholder={"\\b(indemnif(y|ication)|liability\\s+cap)\\b"}
+            />
+            {formInvalidPatterns.length > 0 && (
+              <p className="text-xs text-destructive mt-1">Regex non valide: {formInvalidPatterns.join(", ")}</p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="intent-exemplars">Query di esempio (una per riga, confrontate via embedding)</Label>
+            <Textarea
+              id="intent-exemplars"
+              value={form.exemplars}
+              onChange={(e) => setForm(prev => ({ ...prev, exemplars: e.target.value }))}
+              rows={4}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="intent-boosts">Boost per chunk_type (es. "table: 1.8", uno per riga)</Label>
+            <Textarea
+              id="intent-boosts"
+              value={form.boosts}
+              onChange={(e) => setForm(prev => ({ ...prev, boosts: e.target.value }))}
+              rows={4}
+              className="font-mono text-xs"
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="intent-active"
+              checked={form.is_active}
+              onCheckedChange={(checked) => setForm(prev => ({ ...prev, is_active: checked }))}
+            />
+            <Label htmlFor="intent-active">Attivo</Label>
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Salva
+            </Button>
+            <Button variant="outline" onClick={() => setForm(EMPTY_FORM)} disabled={saving}>
+              <Plus className="h-4 w-4 mr-2" />
+              Nuovo
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
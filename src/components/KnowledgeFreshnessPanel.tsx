@@ -0,0 +1,296 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Download, Github, Globe, Loader2, RefreshCw, Search } from "lucide-react";
+
+interface DocumentSource {
+  id: string;
+  document_id: string;
+  source_kind: string;
+  source_url: string | null;
+  repo_url: string | null;
+  repo_path: string | null;
+  branch: string | null;
+  refresh_policy: string;
+  check_interval_hours: number;
+  freshness_status: string;
+  consecutive_failures: number;
+  last_checked_at: string | null;
+  next_check_at: string | null;
+  last_changed_at: string | null;
+  last_refreshed_at: string | null;
+  last_error: string | null;
+}
+
+const STATUSES: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  fresh: { label: "Aggiornato", variant: "secondary" },
+  refreshing: { label: "In aggiornamento", variant: "default" },
+  stale: { label: "Non aggiornato", variant: "destructive" },
+  removed: { label: "Fonte rimossa", variant: "destructive" },
+  error: { label: "Errore", variant: "outline" },
+};
+
+const REFRESH_POLICIES = [
+  { value: "auto", label: "Aggiorna automaticamente" },
+  { value: "notify", label: "Solo notifica" },
+  { value: "manual", label: "Manuale" },
+];
+
+const CHECK_INTERVALS = [
+  { value: "1", label: "Ogni ora" },
+  { value: "6", label: "Ogni 6 ore" },
+  { value: "24", label: "Ogni giorno" },
+  { value: "168", label: "Ogni settimana" },
+];
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString("it-IT") : "Mai");
+
+export const KnowledgeFreshnessPanel = () => {
+  const [sources, setSources] = useState<DocumentSource[]>([]);
+  const [fileNames, setFileNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [checking, setChecking] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState("all");
+
+  const loadData = async () => {
+    const { data, error } = await supabase
+      .from("document_sources")
+      .select("id, document_id, source_kind, source_url, repo_url, repo_path, branch, refresh_policy, check_interval_hours, freshness_status, consecutive_failures, last_checked_at, next_check_at, last_changed_at, last_refreshed_at, last_error")
+      .order("updated_at", { ascending: false });
+
+    if (error) {
+      console.error("Error loading document sources:", error);
+      toast.error("Errore nel caricamento delle fonti");
+      setLoading(false);
+      return;
+    }
+
+    const rows = data || [];
+    setSources(rows);
+
+    const documentIds = [...new Set(rows.map(row => row.document_id))];
+    if (documentIds.length > 0) {
+      const { data: documents } = await supabase
+        .from("pipeline_a_hybrid_documents")
+        .select("id, file_name")
+        .in("id", documentIds);
+      setFileNames(Object.fromEntries((documents || []).map(doc => [doc.id, doc.file_name])));
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const checkSource = async (source: DocumentSource, refresh: boolean) => {
+    setChecking(source.id);
+    try {
+      const { data, error } = await supabase.functions.invoke("check-knowledge-freshness", {
+        body: { sourceId: source.id, refresh },
+      });
+      if (error) throw error;
+      const result = data?.results?.[0];
+      if (result?.error) throw new Error(result.error);
+      if (result?.refreshed) toast.success("Fonte cambiata: nuova versione in elaborazione");
+      else if (result?.outcome === "changed") toast.warning("La fonte è cambiata");
+      else if (result?.outcome === "removed") toast.warning("La fonte non è più disponibile");
+      else toast.success("Il documento è aggiornato");
+    } catch (error) {
+      console.error("Error checking document source:", error);
+      toast.error(error instanceof Error ? error.message : "Errore nella verifica");
+    } finally {
+      setChecking(null);
+      loadData();
+    }
+  };
+
+  const updateSource = async (source: DocumentSource, fields: Partial<Pick<DocumentSource, "refresh_policy" | "check_interval_hours">>) => {
+    const { error } = await supabase
+      .from("document_sources")
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq("id", source.id);
+    if (error) {
+      toast.error("Errore nel salvataggio");
+      return;
+    }
+    setSources(prev => prev.map(row => (row.id === source.id ? { ...row, ...fields } : row)));
+  };
+
+  const counts = sources.reduce<Record<string, number>>((acc, source) => {
+    acc[source.freshness_status] = (acc[source.freshness_status] || 0) + 1;
+    return acc;
+  }, {});
+  const visibleSources = statusFilter === "all" ? sources : sources.filter(source => source.freshness_status === statusFilter);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Freschezza della Knowledge</CardTitle>
+          <CardDescription>
+            Documenti importati da URL o da GitHub: la fonte viene ricontrollata periodicamente e, se è cambiata, il
+            documento viene re-importato come nuova versione. Gli agenti che lo usano ricevono un avviso quando la fonte
+            non è aggiornata o è stata rimossa.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(STATUSES).map(([status, { label, variant }]) => (
+              <Badge key={status} variant={variant}>
+                {label}: {counts[status] || 0}
+              </Badge>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle>Fonti</CardTitle>
+            <div className="flex items-center gap-2">
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Tutti gli stati</SelectItem>
+                  {Object.entries(STATUSES).map(([status, { label }]) => (
+                    <SelectItem key={status} value={status}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={loadData} disabled={loading}>
+                <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : visibleSources.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nessuna fonte monitorata</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Documento</TableHead>
+                  <TableHead>Stato</TableHead>
+                  <TableHead>Controlli</TableHead>
+                  <TableHead>Aggiornamento</TableHead>
+                  <TableHead className="text-right">Azioni</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleSources.map(source => {
+                  const status = STATUSES[source.freshness_status] || STATUSES.error;
+                  const location = source.source_kind === "github"
+                    ? `${source.repo_url}/${source.repo_path}${source.branch ? ` @ ${source.branch}` : ""}`
+                    : source.source_url;
+                  return (
+                    <TableRow key={source.id}>
+                      <TableCell className="max-w-xs">
+                        <div className="font-medium truncate">{fileNames[source.document_id] || source.document_id}</div>
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground truncate" title={location || undefined}>
+                          {source.source_kind === "github" ? <Github className="h-3 w-3 shrink-0" /> : <Globe className="h-3 w-3 shrink-0" />}
+                          <span className="truncate">{location}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        <div className="space-y-1">
+                          <Badge variant={status.variant}>{status.label}</Badge>
+                          {source.last_changed_at && (
+                            <div className="text-muted-foreground">Modificata: {formatDate(source.last_changed_at)}</div>
+                          )}
+                          {source.last_error && <p className="text-destructive">{source.last_error}</p>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        <div>Ultimo: {formatDate(source.last_checked_at)}</div>
+                        {source.refresh_policy !== "manual" && <div>Prossimo: {formatDate(source.next_check_at)}</div>}
+                        {source.consecutive_failures > 0 && (
+                          <div className="text-destructive">Errori consecutivi: {source.consecutive_failures}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          <Select
+                            value={source.refresh_policy}
+                            onValueChange={value => updateSource(source, { refresh_policy: value })}
+                          >
+                            <SelectTrigger className="h-8 w-52 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {REFRESH_POLICIES.map(option => (
+                                <SelectItem key={option.value} value={option.value}>
+                                  {option.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {source.refresh_policy !== "manual" && (
+                            <Select
+                              value={String(source.check_interval_hours)}
+                              onValueChange={value => updateSource(source, { check_interval_hours: Number(value) })}
+                            >
+                              <SelectTrigger className="h-8 w-52 text-xs">
+                                <SelectValue placeholder={`Ogni ${source.check_interval_hours} ore`} />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {CHECK_INTERVALS.map(option => (
+                                  <SelectItem key={option.value} value={option.value}>
+                                    {option.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Verifica ora"
+                            onClick={() => checkSource(source, false)}
+                            disabled={checking !== null}
+                          >
+                            {checking === source.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                          </Button>
+                          {source.freshness_status === "stale" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Verifica e re-importa se cambiata"
+                              onClick={() => checkSource(source, true)}
+                              disabled={checking !== null}
+                            >
+                              <Download className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
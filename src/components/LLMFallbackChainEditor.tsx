@@ -0,0 +1,172 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Json } from "@/integrations/supabase/types";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+
+export type FallbackReason = "rate_limit" | "server_error" | "timeout" | "context_length" | "tool_unsupported";
+
+export interface FallbackStep {
+  provider: string;
+  model: string;
+  on: FallbackReason[];
+}
+
+// Providers agent-chat can dispatch to
+export const FALLBACK_PROVIDERS: { value: string; label: string; defaultModel: string }[] = [
+  { value: "anthropic", label: "Anthropic", defaultModel: "claude-sonnet-4-5" },
+  { value: "openai", label: "OpenAI", defaultModel: "gpt-4o" },
+  { value: "google", label: "Google Gemini", defaultModel: "gemini-2.5-pro" },
+  { value: "deepseek", label: "DeepSeek", defaultModel: "deepseek-reasoner" },
+  { value: "openrouter", label: "OpenRouter", defaultModel: "deepseek/deepseek-chat" },
+];
+
+// Aliases accepted by the edge parser (_shared/llmFallback.ts)
+const PROVIDER_ALIASES: Record<string, string> = {
+  "google-gemini": "google",
+  gemini: "google",
+  claude: "anthropic",
+};
+
+/**
+ * Canonical provider id for a stored value, or null when agent-chat can't route to it
+ */
+const normalizeFallbackProvider = (provider: string): string | null => {
+  const key = provider.trim().toLowerCase();
+  const id = PROVIDER_ALIASES[key] || key;
+  return FALLBACK_PROVIDERS.some(p => p.value === id) ? id : null;
+};
+
+const FALLBACK_REASONS: { value: FallbackReason; label: string }[] = [
+  { value: "rate_limit", label: "Rate limit (429)" },
+  { value: "server_error", label: "Errore server (5xx)" },
+  { value: "timeout", label: "Timeout" },
+  { value: "context_length", label: "Contesto troppo lungo" },
+  { value: "tool_unsupported", label: "Tool non supportati" },
+];
+
+const ALL_REASONS = FALLBACK_REASONS.map(r => r.value);
+
+/**
+ * Read agents.llm_fallback_chain into editable steps (malformed entries and unknown providers dropped)
+ */
+export const parseFallbackSteps = (raw: Json | undefined): FallbackStep[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap(entry => {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry) || typeof entry.provider !== "string") return [];
+    const provider = normalizeFallbackProvider(entry.provider);
+    if (!provider) return [];
+    const on = Array.isArray(entry.on)
+      ? entry.on.filter((r): r is FallbackReason => ALL_REASONS.includes(r as FallbackReason))
+      : [];
+    return [{
+      provider,
+      model: typeof entry.model === "string" ? entry.model : "",
+      on: on.length > 0 ? on : [...ALL_REASONS],
+    }];
+  });
+};
+
+// Steps without conditions would never trigger and unknown providers can't be routed: drop them on save
+export const serializeFallbackSteps = (steps: FallbackStep[]) =>
+  steps
+    .filter(step => step.on.length > 0 && normalizeFallbackProvider(step.provider))
+    .map(step => ({ provider: normalizeFallbackProvider(step.provider), model: step.model.trim() || null, on: step.on }));
+
+interface LLMFallbackChainEditorProps {
+  steps: FallbackStep[];
+  onChange: (steps: FallbackStep[]) => void;
+  disabled?: boolean;
+}
+
+export const LLMFallbackChainEditor = ({ steps, onChange, disabled }: LLMFallbackChainEditorProps) => {
+  const updateStep = (index: number, patch: Partial<FallbackStep>) => {
+    onChange(steps.map((step, i) => (i === index ? { ...step, ...patch } : step)));
+  };
+
+  const toggleReason = (index: number, reason: FallbackReason) => {
+    const current = steps[index].on;
+    const on = current.includes(reason) ? current.filter(r => r !== reason) : [...current, reason];
+    updateStep(index, { on });
+  };
+
+  const moveStep = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= steps.length) return;
+    const next = [...steps];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const addStep = () => {
+    const provider = FALLBACK_PROVIDERS[0];
+    onChange([...steps, { provider: provider.value, model: provider.defaultModel, on: [...ALL_REASONS] }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Fallback LLM</Label>
+      {steps.map((step, index) => (
+        <div key={index} className="rounded-lg border p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground w-4">{index + 1}.</span>
+            <Select
+              value={step.provider}
+              onValueChange={provider => updateStep(index, {
+                provider,
+                model: FALLBACK_PROVIDERS.find(p => p.value === provider)?.defaultModel || "",
+              })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-background z-50">
+                {FALLBACK_PROVIDERS.map(p => (
+                  <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={step.model}
+              onChange={e => updateStep(index, { model: e.target.value })}
+              placeholder="Modello"
+              className="flex-1"
+              disabled={disabled}
+            />
+            <Button type="button" variant="ghost" size="icon" onClick={() => moveStep(index, -1)} disabled={disabled || index === 0}>
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" onClick={() => moveStep(index, 1)} disabled={disabled || index === steps.length - 1}>
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" onClick={() => onChange(steps.filter((_, i) => i !== index))} disabled={disabled}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 pl-6">
+            {FALLBACK_REASONS.map(reason => (
+              <label key={reason.value} className="flex items-center gap-1.5 text-xs cursor-pointer">
+                <Checkbox
+                  checked={step.on.includes(reason.value)}
+                  onCheckedChange={() => toggleReason(index, reason.value)}
+                  disabled={disabled}
+                />
+                {reason.label}
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={addStep} disabled={disabled} className="gap-2">
+        <Plus className="h-4 w-4" />
+        Aggiungi fallback
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Se il modello principale fallisce per una delle condizioni selezionate, risponde il primo fallback successivo che la copre
+      </p>
+    </div>
+  );
+};
@@ -29,6 +29,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { UsageLedgerPanel } from "./UsageLedgerPanel";
 
 interface OperationLog {
   id: string;
@@ -137,7 +138,9 @@ export const OperationsDashboard = () => {
   };
 
   return (
-    <>
+    <div className="space-y-4">
+      <UsageLedgerPanel />
+
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
@@ -343,6 +346,6 @@ export const OperationsDashboard = () => {
           )}
         </DialogContent>
       </Dialog>
-    </>
+    </div>
   );
 };
@@ -22,7 +22,8 @@ import {
   Loader2,
   Bot,
   Eye,
-  Target
+  Target,
+  FileCode
 } from 'lucide-react';
 
 const statusConfig: Record<string, { color: string; icon: React.ReactNode; label: string }> = {
@@ -53,6 +54,7 @@ export function OrchestratorPanel() {
     logs,
     isRunning,
     executeTask,
+    exportPlaywrightTest,
     abort,
     reset,
     progress,
@@ -139,6 +141,16 @@ export function OrchestratorPanel() {
               <RotateCcw className="h-4 w-4 mr-2" />
               Reset
             </Button>
+            {state.status === 'completed' && (
+              <Button
+                onClick={exportPlaywrightTest}
+                variant="outline"
+                title="Scarica l'esecuzione come test Playwright"
+              >
+                <FileCode className="h-4 w-4 mr-2" />
+                Esporta Playwright
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,300 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Loader2, Search } from "lucide-react";
+
+interface RetrievalEvalRow {
+  run_id: string;
+  created_at: string | null;
+  k: number;
+  pipeline_source: string;
+  gold_chunk_types: string[];
+  recall_at_k: number | null;
+  mrr: number | null;
+  ndcg_at_k: number | null;
+}
+
+interface MetricSummary {
+  questions: number;
+  recall_at_k: number;
+  mrr: number;
+  ndcg_at_k: number;
+}
+
+interface RetrievalRun {
+  run_id: string;
+  created_at: string;
+  k: number;
+  total: number;
+}
+
+const METRICS = [
+  { key: "recall_at_k", label: "Recall@k" },
+  { key: "mrr", label: "MRR" },
+  { key: "ndcg_at_k", label: "nDCG@k" },
+] as const;
+
+const PIPELINE_LABELS: Record<string, string> = {
+  unified: "🔀 Unified (RRF)",
+  pipeline_a: "Pipeline A",
+  pipeline_a_hybrid: "Pipeline A-Hybrid",
+  pipeline_b: "Pipeline B",
+  pipeline_c: "Pipeline C",
+};
+
+const summarize = (rows: RetrievalEvalRow[]): MetricSummary => {
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  return {
+    questions: rows.length,
+    recall_at_k: mean(rows.map(r => r.recall_at_k ?? 0)),
+    mrr: mean(rows.map(r => r.mrr ?? 0)),
+    ndcg_at_k: mean(rows.map(r => r.ndcg_at_k ?? 0)),
+  };
+};
+
+// Same grouping as summarizeByPipeline in supabase/functions/_shared/retrievalMetrics.ts
+const groupRows = (rows: RetrievalEvalRow[]) => {
+  const byPipeline: Record<string, RetrievalEvalRow[]> = {};
+  const byChunkType: Record<string, RetrievalEvalRow[]> = {};
+
+  rows.forEach(row => {
+    (byPipeline[row.pipeline_source] ||= []).push(row);
+    const chunkTypes = row.gold_chunk_types.length > 0 ? row.gold_chunk_types : ["unresolved"];
+    new Set(chunkTypes).forEach(chunkType => {
+      (byChunkType[`${row.pipeline_source}|${chunkType}`] ||= []).push(row);
+    });
+  });
+
+  const toSummary = (groups: Record<string, RetrievalEvalRow[]>) =>
+    Object.fromEntries(Object.entries(groups).map(([key, list]) => [key, summarize(list)]));
+
+  return { byPipeline: toSummary(byPipeline), byChunkType: toSummary(byChunkType) };
+};
+
+interface RetrievalEvalPanelProps {
+  suite: string;
+}
+
+export const RetrievalEvalPanel = ({ suite }: RetrievalEvalPanelProps) => {
+  const [runs, setRuns] = useState<RetrievalRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [baselineRunId, setBaselineRunId] = useState<string>("none");
+  const [rows, setRows] = useState<RetrievalEvalRow[]>([]);
+  const [baselineRows, setBaselineRows] = useState<RetrievalEvalRow[]>([]);
+  const [k, setK] = useState(10);
+  const [limit, setLimit] = useState(20);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const loadRuns = async () => {
+    const { data, error } = await supabase
+      .from("retrieval_eval_results")
+      .select("run_id, created_at, k")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error loading retrieval runs:", error);
+      return [];
+    }
+
+    const runsMap = new Map<string, RetrievalRun>();
+    data?.forEach(row => {
+      const existing = runsMap.get(row.run_id);
+      if (existing) {
+        existing.total++;
+      } else {
+        runsMap.set(row.run_id, { run_id: row.run_id, created_at: row.created_at || "", k: row.k, total: 1 });
+      }
+    });
+
+    const list = Array.from(runsMap.values());
+    setRuns(list);
+    return list;
+  };
+
+  const loadRunRows = async (runId: string): Promise<RetrievalEvalRow[]> => {
+    const { data, error } = await supabase
+      .from("retrieval_eval_results")
+      .select("run_id, created_at, k, pipeline_source, gold_chunk_types, recall_at_k, mrr, ndcg_at_k")
+      .eq("run_id", runId)
+      .is("error", null);
+
+    if (error) {
+      console.error("Error loading retrieval eval results:", error);
+      toast.error("Errore nel caricamento dei risultati retrieval");
+      return [];
+    }
+    return data || [];
+  };
+
+  useEffect(() => {
+    loadRuns().then(list => {
+      if (list.length > 0) setSelectedRunId(list[0].run_id);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (selectedRunId) loadRunRows(selectedRunId).then(setRows);
+  }, [selectedRunId]);
+
+  useEffect(() => {
+    if (baselineRunId === "none") {
+      setBaselineRows([]);
+    } else {
+      loadRunRows(baselineRunId).then(setBaselineRows);
+    }
+  }, [baselineRunId]);
+
+  const runEvaluation = async () => {
+    setIsRunning(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("run-retrieval-eval", {
+        body: { suite, k, limit },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      toast.success(`Valutazione retrieval completata: ${data.questions} domande`);
+      await loadRuns();
+      setSelectedRunId(data.run_id);
+    } catch (error) {
+      console.error("Retrieval eval error:", error);
+      toast.error(error instanceof Error ? error.message : "Errore durante la valutazione retrieval");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const current = groupRows(rows);
+  const baseline = groupRows(baselineRows);
+
+  const renderMetric = (value: number, baselineValue?: number) => {
+    const delta = baselineValue !== undefined ? value - baselineValue : null;
+    return (
+      <span>
+        {value.toFixed(3)}
+        {delta !== null && Math.abs(delta) >= 0.0005 && (
+          <span className={`ml-1 text-xs ${delta > 0 ? "text-green-600" : "text-red-600"}`}>
+            ({delta > 0 ? "+" : ""}{delta.toFixed(3)})
+          </span>
+        )}
+      </span>
+    );
+  };
+
+  const renderSummaryRows = (summaries: Record<string, MetricSummary>, baselines: Record<string, MetricSummary>, labelFor: (key: string) => string) =>
+    Object.entries(summaries)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, summary]) => (
+        <TableRow key={key}>
+          <TableCell className="text-xs md:text-sm">{labelFor(key)}</TableCell>
+          <TableCell className="text-xs md:text-sm">{summary.questions}</TableCell>
+          {METRICS.map(metric => (
+            <TableCell key={metric.key} className="font-mono text-xs md:text-sm">
+              {renderMetric(summary[metric.key], baselines[key]?.[metric.key])}
+            </TableCell>
+          ))}
+        </TableRow>
+      ));
+
+  const metricHeaders = (firstColumn: string) => (
+    <TableHeader>
+      <TableRow>
+        <TableHead className="text-xs md:text-sm">{firstColumn}</TableHead>
+        <TableHead className="text-xs md:text-sm">Domande</TableHead>
+        {METRICS.map(metric => (
+          <TableHead key={metric.key} className="text-xs md:text-sm">{metric.label}</TableHead>
+        ))}
+      </TableRow>
+    </TableHeader>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl md:text-2xl flex items-center gap-2">
+          <Search className="h-5 w-5" />
+          Valutazione Retrieval
+        </CardTitle>
+        <CardDescription className="text-xs md:text-sm">
+          Solo retrieval (nessuna generazione): recall@k, MRR e nDCG sulle domande etichettate con chunk o pagine gold.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row flex-wrap gap-2 items-start sm:items-end">
+          <div className="space-y-1">
+            <Label htmlFor="retrieval-k" className="text-xs">k</Label>
+            <Input id="retrieval-k" type="number" min={1} max={50} className="w-20" value={k}
+              onChange={(e) => setK(Math.max(1, parseInt(e.target.value) || 1))} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="retrieval-limit" className="text-xs">Domande</Label>
+            <Input id="retrieval-limit" type="number" min={1} max={100} className="w-24" value={limit}
+              onChange={(e) => setLimit(Math.max(1, parseInt(e.target.value) || 1))} />
+          </div>
+          <Button onClick={runEvaluation} disabled={isRunning} size="sm" className="gap-2">
+            {isRunning ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            {isRunning ? "In Corso..." : "Avvia Valutazione"}
+          </Button>
+
+          <Select value={selectedRunId || ""} onValueChange={setSelectedRunId}>
+            <SelectTrigger className="w-full sm:w-[260px]">
+              <SelectValue placeholder="Seleziona Run..." />
+            </SelectTrigger>
+            <SelectContent>
+              {runs.map(run => (
+                <SelectItem key={run.run_id} value={run.run_id}>
+                  📊 {new Date(run.created_at).toLocaleString("it-IT")} (k={run.k})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={baselineRunId} onValueChange={setBaselineRunId}>
+            <SelectTrigger className="w-full sm:w-[260px]">
+              <SelectValue placeholder="Confronta con..." />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Nessun confronto</SelectItem>
+              {runs.filter(run => run.run_id !== selectedRunId).map(run => (
+                <SelectItem key={run.run_id} value={run.run_id}>
+                  ↔️ {new Date(run.created_at).toLocaleString("it-IT")} (k={run.k})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {rows.length > 0 ? (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 overflow-x-auto">
+            <Table>
+              {metricHeaders("Pipeline")}
+              <TableBody>
+                {renderSummaryRows(current.byPipeline, baseline.byPipeline, key => PIPELINE_LABELS[key] || key)}
+              </TableBody>
+            </Table>
+            <Table>
+              {metricHeaders("Pipeline / chunk_type")}
+              <TableBody>
+                {renderSummaryRows(current.byChunkType, baseline.byChunkType, key => {
+                  const [pipeline, chunkType] = key.split("|");
+                  return `${PIPELINE_LABELS[pipeline] || pipeline} · ${chunkType}`;
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Nessuna valutazione retrieval disponibile. Etichetta le domande con gold_chunk_ids o gold_pages e avvia una valutazione.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
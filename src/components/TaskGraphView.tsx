@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, Loader2, Network } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+
+type TaskNodeStatus = "pending" | "running" | "completed" | "failed" | "skipped";
+
+// Mirror of TaskNode in supabase/functions/_shared/taskGraph.ts
+export interface TaskNode {
+  id: string;
+  agent_slug: string;
+  agent_name: string;
+  task: string;
+  depends_on: string[];
+  status: TaskNodeStatus;
+  output: string | null;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+// Shape of the task_graph SSE event
+export interface TaskGraphSnapshot {
+  id: string;
+  goal: string;
+  nodes: TaskNode[];
+}
+
+const STATUS_BADGES: Record<TaskNodeStatus, { label: string; variant: "secondary" | "outline" | "destructive" | "default" }> = {
+  pending: { label: "In coda", variant: "outline" },
+  running: { label: "In corso", variant: "secondary" },
+  completed: { label: "Completato", variant: "default" },
+  failed: { label: "Fallito", variant: "destructive" },
+  skipped: { label: "Saltato", variant: "outline" },
+};
+
+// Level = longest dependency chain above the node: nodes on the same level can run in parallel
+const groupByLevel = (nodes: TaskNode[]): TaskNode[][] => {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const levels = new Map<string, number>();
+  const levelOf = (node: TaskNode, seen: Set<string> = new Set()): number => {
+    if (levels.has(node.id)) return levels.get(node.id)!;
+    if (seen.has(node.id)) return 0;
+    seen.add(node.id);
+    const deps = node.depends_on.map(dep => byId.get(dep)).filter((dep): dep is TaskNode => !!dep);
+    const level = deps.length === 0 ? 0 : 1 + Math.max(...deps.map(dep => levelOf(dep, seen)));
+    levels.set(node.id, level);
+    return level;
+  };
+
+  const grouped: TaskNode[][] = [];
+  for (const node of nodes) {
+    const level = levelOf(node);
+    (grouped[level] ||= []).push(node);
+  }
+  return grouped.filter(Boolean);
+};
+
+const TaskNodeCard = ({ node }: { node: TaskNode }) => {
+  const [open, setOpen] = useState(false);
+  const detail = node.output || node.error;
+
+  return (
+    <div
+      className={cn(
+        "rounded border p-2 text-xs space-y-1 min-w-[180px] flex-1",
+        node.status === "running" && "border-primary/50",
+        node.status === "failed" && "border-destructive/50"
+      )}
+    >
+      <div className="flex items-center gap-1.5">
+        <span className="font-mono text-muted-foreground">{node.id}</span>
+        <span className="font-medium truncate">@{node.agent_slug}</span>
+        {node.status === "running" && <Loader2 className="h-3 w-3 animate-spin" />}
+        <Badge variant={STATUS_BADGES[node.status].variant} className="ml-auto text-[10px] px-1.5 py-0">
+          {STATUS_BADGES[node.status].label}
+        </Badge>
+      </div>
+      <p className="text-muted-foreground line-clamp-2">{node.task}</p>
+      {node.depends_on.length > 0 && (
+        <p className="text-[10px] text-muted-foreground">Dipende da: {node.depends_on.join(", ")}</p>
+      )}
+      {detail && (
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          className="flex items-center gap-1 text-[10px] text-muted-foreground hover:text-foreground"
+        >
+          {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          {node.output ? "Risultato" : "Errore"}
+        </button>
+      )}
+      {open && detail && (
+        <pre className="bg-muted/50 rounded p-2 max-h-64 overflow-auto whitespace-pre-wrap break-words">{detail}</pre>
+      )}
+    </div>
+  );
+};
+
+interface TaskGraphViewProps {
+  graphId: string;
+  graph?: TaskGraphSnapshot;
+}
+
+export const TaskGraphView = ({ graphId, graph }: TaskGraphViewProps) => {
+  const [loaded, setLoaded] = useState<TaskGraphSnapshot | null>(null);
+
+  // Live snapshots come from the stream; reopened conversations read agent_task_graphs
+  useEffect(() => {
+    if (graph) return;
+    const loadGraph = async () => {
+      const { data, error } = await supabase
+        .from("agent_task_graphs")
+        .select("id, goal, nodes")
+        .eq("id", graphId)
+        .maybeSingle();
+      if (error) {
+        console.error("Error loading task graph:", error);
+        return;
+      }
+      if (data) setLoaded({ id: data.id, goal: data.goal, nodes: (data.nodes as unknown as TaskNode[]) || [] });
+    };
+
+    loadGraph();
+  }, [graphId, graph]);
+
+  const current = graph || loaded;
+  if (!current) return null;
+
+  const completed = current.nodes.filter(node => node.status === "completed").length;
+
+  return (
+    <div className="mt-3 rounded-lg border p-3 space-y-2" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-2 text-xs font-medium">
+        <Network className="h-4 w-4 text-primary" />
+        <span className="truncate">{current.goal || "Coordinamento"}</span>
+        <span className="ml-auto text-muted-foreground">
+          {completed}/{current.nodes.length}
+        </span>
+      </div>
+      {groupByLevel(current.nodes).map((level, index) => (
+        <div key={index} className="flex flex-wrap gap-2">
+          {level.map(node => (
+            <TaskNodeCard key={node.id} node={node} />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -13,9 +13,11 @@ import {
   ChevronUp,
   ChevronDown,
   Image as ImageIcon,
-  ExternalLink
+  ExternalLink,
+  Database
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { CoordinateCacheStats } from "@/lib/tool-server";
 
 export interface ToolActivity {
   id: string;
@@ -32,6 +34,7 @@ interface ToolActivityPanelProps {
   isVisible: boolean;
   onClose: () => void;
   onClear: () => void;
+  cacheStats?: CoordinateCacheStats;
   className?: string;
 }
 
@@ -40,6 +43,7 @@ export function ToolActivityPanel({
   isVisible,
   onClose,
   onClear,
+  cacheStats,
   className
 }: ToolActivityPanelProps) {
   const [isExpanded, setIsExpanded] = useState(true);
@@ -86,7 +90,9 @@ export function ToolActivityPanel({
     };
   }, [activities]);
 
-  if (!isVisible || activities.length === 0) {
+  const cacheLookups = cacheStats ? cacheStats.hits + cacheStats.misses : 0;
+
+  if (!isVisible || (activities.length === 0 && cacheLookups === 0)) {
     return null;
   }
 
@@ -316,6 +322,17 @@ export function ToolActivityPanel({
                   {errorCount}
                 </span>
               )}
+              {cacheStats && cacheLookups > 0 && (
+                <span
+                  className="flex items-center gap-1"
+                  title={`Cache coordinate: ${cacheStats.hits} hit, ${cacheStats.misses} miss, ` +
+                    `${cacheStats.invalidations} invalidate, ${cacheStats.failures} fallite, ${cacheStats.stores} salvate`}
+                  data-testid="coordinate-cache-stats"
+                >
+                  <Database className="h-3 w-3 text-blue-500" />
+                  {cacheStats.hits}/{cacheLookups} ({Math.round((cacheStats.hits / cacheLookups) * 100)}%)
+                </span>
+              )}
             </div>
             <Button
               variant="ghost"
@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { Check, Loader2, Pencil, ShieldAlert, X } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+
+type ToolApprovalStatus = "pending" | "approved" | "rejected" | "executed" | "failed";
+
+// Mirror of PendingToolApproval / ToolApprovalDecision in supabase/functions/_shared/toolApprovals.ts
+export interface PendingToolApproval {
+  approval_id: string;
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+}
+
+export interface ToolApprovalDecision {
+  approvalId: string;
+  decision: "approve" | "reject";
+  editedInput?: Record<string, unknown>;
+  note?: string;
+}
+
+const STATUS_BADGES: Record<ToolApprovalStatus, { label: string; variant: "secondary" | "outline" | "destructive" | "default" }> = {
+  pending: { label: "In attesa", variant: "outline" },
+  approved: { label: "Approvato", variant: "default" },
+  rejected: { label: "Rifiutato", variant: "destructive" },
+  executed: { label: "Eseguito", variant: "secondary" },
+  failed: { label: "Fallito", variant: "destructive" },
+};
+
+interface ToolApprovalCardProps {
+  approval: PendingToolApproval;
+  onDecision?: (decision: ToolApprovalDecision) => void;
+  disabled?: boolean;
+}
+
+export const ToolApprovalCard = ({ approval, onDecision, disabled }: ToolApprovalCardProps) => {
+  const [status, setStatus] = useState<ToolApprovalStatus | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  // The message metadata only knows the request: the current state lives in tool_approvals
+  useEffect(() => {
+    const loadStatus = async () => {
+      const { data, error } = await supabase
+        .from("tool_approvals")
+        .select("status")
+        .eq("id", approval.approval_id)
+        .maybeSingle();
+      if (error) {
+        console.error("Error loading tool approval:", error);
+        return;
+      }
+      setStatus((data?.status as ToolApprovalStatus) || "pending");
+    };
+
+    loadStatus();
+  }, [approval.approval_id]);
+
+  const decide = (decision: ToolApprovalDecision) => {
+    if (!onDecision) return;
+    setStatus(decision.decision === "approve" ? "approved" : "rejected");
+    setEditing(false);
+    onDecision(decision);
+  };
+
+  const approveEdited = () => {
+    let editedInput: unknown;
+    try {
+      editedInput = JSON.parse(draft);
+    } catch {
+      toast.error("Input non valido: deve essere JSON");
+      return;
+    }
+    if (!editedInput || typeof editedInput !== "object" || Array.isArray(editedInput)) {
+      toast.error("Input non valido: deve essere un oggetto JSON");
+      return;
+    }
+    decide({ approvalId: approval.approval_id, decision: "approve", editedInput: editedInput as Record<string, unknown> });
+  };
+
+  const pending = status === "pending";
+  const actionsDisabled = disabled || !onDecision;
+
+  return (
+    <div className="mt-3 rounded-lg border border-amber-500/40 bg-amber-500/5 p-3 space-y-2" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-2 text-xs font-medium">
+        <ShieldAlert className="h-4 w-4 text-amber-600" />
+        <span>Richiesta di approvazione:</span>
+        <span className="font-mono">{approval.tool_name}</span>
+        {status === null ? (
+          <Loader2 className="h-3 w-3 animate-spin ml-auto" />
+        ) : (
+          <Badge variant={STATUS_BADGES[status].variant} className="ml-auto text-[10px]">
+            {STATUS_BADGES[status].label}
+          </Badge>
+        )}
+      </div>
+
+      {editing ? (
+        <Textarea
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          className="font-mono text-xs min-h-[160px]"
+        />
+      ) : (
+        <pre className="text-xs bg-muted/50 rounded p-2 max-h-48 overflow-auto whitespace-pre-wrap break-all">
+          {JSON.stringify(approval.tool_input, null, 2)}
+        </pre>
+      )}
+
+      {pending && (
+        <div className="flex flex-wrap gap-2">
+          {editing ? (
+            <>
+              <Button size="sm" onClick={approveEdited} disabled={actionsDisabled} className="gap-1">
+                <Check className="h-3 w-3" />
+                Approva modificato
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setEditing(false)}>
+                Annulla
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button
+                size="sm"
+                onClick={() => decide({ approvalId: approval.approval_id, decision: "approve" })}
+                disabled={actionsDisabled}
+                className="gap-1"
+              >
+                <Check className="h-3 w-3" />
+                Approva
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  setDraft(JSON.stringify(approval.tool_input, null, 2));
+                  setEditing(true);
+                }}
+                disabled={actionsDisabled}
+                className="gap-1"
+              >
+                <Pencil className="h-3 w-3" />
+                Modifica
+              </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => decide({ approvalId: approval.approval_id, decision: "reject" })}
+                disabled={actionsDisabled}
+                className="gap-1"
+              >
+                <X className="h-3 w-3" />
+                Rifiuta
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
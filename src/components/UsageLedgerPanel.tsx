@@ -0,0 +1,201 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+interface UsageRow {
+  day: string;
+  agent_id: string | null;
+  agent_name: string | null;
+  source: string;
+  provider: string;
+  model: string;
+  operation: string;
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  units: number | null;
+  cost_usd: number;
+}
+
+interface UsageGroup {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+type Breakdown = "agent" | "source" | "model" | "day";
+
+const BREAKDOWNS: { value: Breakdown; label: string; column: string }[] = [
+  { value: "agent", label: "Per agente", column: "Agente" },
+  { value: "source", label: "Per funzione", column: "Funzione" },
+  { value: "model", label: "Per modello", column: "Modello" },
+  { value: "day", label: "Per giorno", column: "Giorno" },
+];
+
+const groupKey = (row: UsageRow, breakdown: Breakdown) => {
+  switch (breakdown) {
+    case "agent":
+      return row.agent_name || "— nessun agente (ingestion, benchmark) —";
+    case "source":
+      return row.source;
+    case "model":
+      return `${row.provider}/${row.model}`;
+    case "day":
+      return row.day;
+  }
+};
+
+const groupRows = (rows: UsageRow[], breakdown: Breakdown): UsageGroup[] => {
+  const groups = new Map<string, UsageGroup>();
+  rows.forEach(row => {
+    const key = groupKey(row, breakdown);
+    const group = groups.get(key) || { key, calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+    group.calls += Number(row.calls);
+    group.inputTokens += Number(row.input_tokens);
+    group.outputTokens += Number(row.output_tokens);
+    group.costUsd += Number(row.cost_usd);
+    groups.set(key, group);
+  });
+  const sorted = Array.from(groups.values());
+  // Days read chronologically, everything else by spend
+  return breakdown === "day"
+    ? sorted.sort((a, b) => b.key.localeCompare(a.key))
+    : sorted.sort((a, b) => b.costUsd - a.costUsd);
+};
+
+const formatUsd = (value: number) => `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+const formatTokens = (value: number) => value.toLocaleString("it-IT");
+
+export const UsageLedgerPanel = () => {
+  const [days, setDays] = useState("30");
+  const [rows, setRows] = useState<UsageRow[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const loadUsage = async () => {
+      setLoading(true);
+      const since = new Date(Date.now() - Number(days) * 24 * 60 * 60 * 1000).toISOString();
+      const { data, error } = await supabase.rpc("get_usage_summary", { p_since: since });
+
+      if (error) {
+        console.error("Error loading usage summary:", error);
+        toast.error("Errore caricamento consumi");
+      } else {
+        setRows(data || []);
+      }
+      setLoading(false);
+    };
+
+    loadUsage();
+  }, [days]);
+
+  const totals = rows.reduce(
+    (acc, row) => ({
+      calls: acc.calls + Number(row.calls),
+      tokens: acc.tokens + Number(row.input_tokens) + Number(row.output_tokens),
+      costUsd: acc.costUsd + Number(row.cost_usd),
+    }),
+    { calls: 0, tokens: 0, costUsd: 0 }
+  );
+
+  const renderBreakdown = (breakdown: Breakdown, column: string) => {
+    const groups = groupRows(rows, breakdown);
+    if (groups.length === 0) {
+      return <p className="text-xs text-muted-foreground py-4">Nessun consumo registrato nel periodo.</p>;
+    }
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="text-xs">{column}</TableHead>
+            <TableHead className="text-xs text-right">Chiamate</TableHead>
+            <TableHead className="text-xs text-right">Token input</TableHead>
+            <TableHead className="text-xs text-right">Token output</TableHead>
+            <TableHead className="text-xs text-right">Costo</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {groups.map(group => (
+            <TableRow key={group.key}>
+              <TableCell className="font-mono text-xs max-w-[260px] truncate" title={group.key}>{group.key}</TableCell>
+              <TableCell className="text-xs text-right">{group.calls}</TableCell>
+              <TableCell className="text-xs text-right">{formatTokens(group.inputTokens)}</TableCell>
+              <TableCell className="text-xs text-right">{formatTokens(group.outputTokens)}</TableCell>
+              <TableCell className="text-xs text-right font-medium">{formatUsd(group.costUsd)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Consumi LLM e Costi</CardTitle>
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Ultimi 7 giorni</SelectItem>
+              <SelectItem value="30">Ultimi 30 giorni</SelectItem>
+              <SelectItem value="90">Ultimi 90 giorni</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Costo totale</CardDescription>
+                  <CardTitle className="text-2xl">{formatUsd(totals.costUsd)}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Chiamate</CardDescription>
+                  <CardTitle className="text-2xl">{totals.calls}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Token</CardDescription>
+                  <CardTitle className="text-2xl">{formatTokens(totals.tokens)}</CardTitle>
+                </CardHeader>
+              </Card>
+            </div>
+
+            <Tabs defaultValue="agent">
+              <TabsList>
+                {BREAKDOWNS.map(b => (
+                  <TabsTrigger key={b.value} value={b.value}>{b.label}</TabsTrigger>
+                ))}
+              </TabsList>
+              {BREAKDOWNS.map(b => (
+                <TabsContent key={b.value} value={b.value}>
+                  {renderBreakdown(b.value, b.column)}
+                </TabsContent>
+              ))}
+            </Tabs>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
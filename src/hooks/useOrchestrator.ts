@@ -15,7 +15,10 @@ import {
   PlanStep,
   StepExecution,
   DomForPlanningResult,
+  SavedProcedure,
+  ProcedureReplayResult,
 } from '@/lib/tool-server/orchestrator-types';
+import { downloadPlaywrightTest } from '@/lib/tool-server/playwright-export';
 
 export interface UseOrchestratorReturn {
   // State
@@ -29,6 +32,10 @@ export interface UseOrchestratorReturn {
   getDomForPlanning: (startUrl: string) => Promise<DomForPlanningResult>;
   /** Step 2: Execute the plan created by Agent */
   executePlan: (plan: Plan, startUrl?: string) => Promise<void>;
+  /** Replay a saved procedure without calling the planner */
+  replayProcedure: (procedure: SavedProcedure, startUrl?: string) => Promise<ProcedureReplayResult | null>;
+  /** Download the last completed run as a Playwright test; returns the file name */
+  exportPlaywrightTest: () => string | null;
   /** @deprecated Use executePlan instead - plans now come from the Agent */
   executeTask: (task: string, startUrl?: string) => Promise<void>;
   abort: () => void;
@@ -49,6 +56,7 @@ const initialState: OrchestratorState = {
   current_step_index: -1,
   executed_steps: [],
   status: 'idle',
+  assertions: [],
   started_at: null,
   completed_at: null,
 };
@@ -106,6 +114,31 @@ export function useOrchestrator(
     }
   }, [config, logs.length]);
 
+  // Replay di una procedura salvata, senza planner
+  const replayProcedure = useCallback(async (procedure: SavedProcedure, startUrl?: string) => {
+    setLogs([]);
+
+    const orchestrator = orchestratorRef.current || createOrchestrator(config, {
+      onStateChange: (newState) => setState(newState),
+      onLog: (entry) => setLogs(prev => [...prev, entry]),
+    });
+
+    orchestratorRef.current = orchestrator;
+
+    try {
+      await orchestrator.replayProcedure(procedure, { startUrl });
+    } catch (error) {
+      console.error('[Orchestrator] Replay error:', error);
+    }
+    return orchestrator.getLastReplay();
+  }, [config]);
+
+  // Export dell'ultima esecuzione completata come test Playwright
+  const exportPlaywrightTest = useCallback(() => {
+    const session = orchestratorRef.current?.getRecordedSession() ?? null;
+    return session ? downloadPlaywrightTest(session) : null;
+  }, []);
+
   // DEPRECATED: This now throws - use executePlan instead
   const executeTask = useCallback(async (_task: string, _startUrl?: string) => {
     console.warn('[Orchestrator] executeTask is deprecated. Use executePlan with a pre-built plan.');
@@ -140,6 +173,8 @@ export function useOrchestrator(
     isIdle,
     getDomForPlanning,
     executePlan,
+    replayProcedure,
+    exportPlaywrightTest,
     executeTask,
     abort,
     reset,
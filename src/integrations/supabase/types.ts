@@ -121,6 +121,10 @@ export type Database = {
           created_at: string | null
           id: string
           last_proposed_query: string | null
+          memory_summary: string | null
+          memory_summary_messages: number
+          memory_summary_through: string | null
+          memory_updated_at: string | null
           title: string | null
           updated_at: string | null
           user_id: string
@@ -132,6 +136,10 @@ export type Database = {
           created_at?: string | null
           id?: string
           last_proposed_query?: string | null
+          memory_summary?: string | null
+          memory_summary_messages?: number
+          memory_summary_through?: string | null
+          memory_updated_at?: string | null
           title?: string | null
           updated_at?: string | null
           user_id: string
@@ -143,6 +151,10 @@ export type Database = {
           created_at?: string | null
           id?: string
           last_proposed_query?: string | null
+          memory_summary?: string | null
+          memory_summary_messages?: number
+          memory_summary_through?: string | null
+          memory_updated_at?: string | null
           title?: string | null
           updated_at?: string | null
           user_id?: string
@@ -262,6 +274,7 @@ export type Database = {
           conversation_id: string
           created_at: string | null
           id: string
+          llm_model: string | null
           llm_provider: string | null
           metadata: Json | null
           role: string
@@ -271,6 +284,7 @@ export type Database = {
           conversation_id: string
           created_at?: string | null
           id?: string
+          llm_model?: string | null
           llm_provider?: string | null
           metadata?: Json | null
           role: string
@@ -280,6 +294,7 @@ export type Database = {
           conversation_id?: string
           created_at?: string | null
           id?: string
+          llm_model?: string | null
           llm_provider?: string | null
           metadata?: Json | null
           role?: string
@@ -406,6 +421,73 @@ export type Database = {
           },
         ]
       }
+      agent_task_graphs: {
+        Row: {
+          completed_at: string | null
+          conversation_id: string
+          coordinator_agent_id: string | null
+          created_at: string
+          delegation_depth: number
+          goal: string
+          id: string
+          merged_output: string | null
+          message_id: string | null
+          nodes: Json
+          status: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          conversation_id: string
+          coordinator_agent_id?: string | null
+          created_at?: string
+          delegation_depth?: number
+          goal: string
+          id?: string
+          merged_output?: string | null
+          message_id?: string | null
+          nodes?: Json
+          status?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          conversation_id?: string
+          coordinator_agent_id?: string | null
+          created_at?: string
+          delegation_depth?: number
+          goal?: string
+          id?: string
+          merged_output?: string | null
+          message_id?: string | null
+          nodes?: Json
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_task_graphs_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "agent_conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_task_graphs_coordinator_agent_id_fkey"
+            columns: ["coordinator_agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_task_graphs_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "agent_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       agent_task_requirements: {
         Row: {
           agent_id: string | null
@@ -472,47 +554,140 @@ export type Database = {
           },
         ]
       }
+      agent_user_memories: {
+        Row: {
+          agent_id: string
+          category: string
+          content: string
+          created_at: string
+          embedding: string | null
+          embedding_model: string | null
+          id: string
+          importance: number
+          last_used_at: string | null
+          source: string
+          source_conversation_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          agent_id: string
+          category?: string
+          content: string
+          created_at?: string
+          embedding?: string | null
+          embedding_model?: string | null
+          id?: string
+          importance?: number
+          last_used_at?: string | null
+          source?: string
+          source_conversation_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          agent_id?: string
+          category?: string
+          content?: string
+          created_at?: string
+          embedding?: string | null
+          embedding_model?: string | null
+          id?: string
+          importance?: number
+          last_used_at?: string | null
+          source?: string
+          source_conversation_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_user_memories_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_user_memories_source_conversation_id_fkey"
+            columns: ["source_conversation_id"]
+            isOneToOne: false
+            referencedRelation: "agent_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       agents: {
         Row: {
           active: boolean | null
           ai_model: string | null
           avatar: string | null
+          budget_downgrade_model: string | null
+          budget_downgrade_provider: string | null
+          budget_hard_usd: number | null
+          budget_period: string
+          budget_soft_usd: number | null
           created_at: string | null
           description: string
           first_alignment_completed_at: string | null
           id: string
+          llm_fallback_chain: Json
           llm_provider: string | null
           name: string
+          reranker: string | null
+          reranker_config: Json | null
           slug: string
           system_prompt: string
+          tool_allowlist: string[] | null
+          tool_approval_policy: string[] | null
           user_id: string | null
         }
         Insert: {
           active?: boolean | null
           ai_model?: string | null
           avatar?: string | null
+          budget_downgrade_model?: string | null
+          budget_downgrade_provider?: string | null
+          budget_hard_usd?: number | null
+          budget_period?: string
+          budget_soft_usd?: number | null
           created_at?: string | null
           description: string
           first_alignment_completed_at?: string | null
           id?: string
+          llm_fallback_chain?: Json
           llm_provider?: string | null
           name: string
+          reranker?: string | null
+          reranker_config?: Json | null
           slug: string
           system_prompt: string
+          tool_allowlist?: string[] | null
+          tool_approval_policy?: string[] | null
           user_id?: string | null
         }
         Update: {
           active?: boolean | null
           ai_model?: string | null
           avatar?: string | null
+          budget_downgrade_model?: string | null
+          budget_downgrade_provider?: string | null
+          budget_hard_usd?: number | null
+          budget_period?: string
+          budget_soft_usd?: number | null
           created_at?: string | null
           description?: string
           first_alignment_completed_at?: string | null
           id?: string
+          llm_fallback_chain?: Json
           llm_provider?: string | null
           name?: string
+          reranker?: string | null
+          reranker_config?: Json | null
           slug?: string
           system_prompt?: string
+          tool_allowlist?: string[] | null
+          tool_approval_policy?: string[] | null
           user_id?: string | null
         }
         Relationships: []
@@ -705,6 +880,8 @@ export type Database = {
           created_at: string | null
           document_id: string | null
           file_name: string
+          gold_chunk_ids: string[]
+          gold_pages: number[]
           ground_truth: string
           id: string
           is_active: boolean | null
@@ -720,6 +897,8 @@ export type Database = {
           created_at?: string | null
           document_id?: string | null
           file_name: string
+          gold_chunk_ids?: string[]
+          gold_pages?: number[]
           ground_truth: string
           id?: string
           is_active?: boolean | null
@@ -735,6 +914,8 @@ export type Database = {
           created_at?: string | null
           document_id?: string | null
           file_name?: string
+          gold_chunk_ids?: string[]
+          gold_pages?: number[]
           ground_truth?: string
           id?: string
           is_active?: boolean | null
@@ -808,10 +989,13 @@ export type Database = {
           id: string
           pdf_file: string
           question: string
+          question_id: string | null
           reason: string | null
           response_time_ms: number | null
           retrieval_metadata: Json | null
           run_id: string
+          scorer: string | null
+          scores: Json | null
           status: string
           suite_category: string | null
         }
@@ -824,10 +1008,13 @@ export type Database = {
           id?: string
           pdf_file: string
           question: string
+          question_id?: string | null
           reason?: string | null
           response_time_ms?: number | null
           retrieval_metadata?: Json | null
           run_id: string
+          scorer?: string | null
+          scores?: Json | null
           status: string
           suite_category?: string | null
         }
@@ -840,14 +1027,84 @@ export type Database = {
           id?: string
           pdf_file?: string
           question?: string
+          question_id?: string | null
           reason?: string | null
           response_time_ms?: number | null
           retrieval_metadata?: Json | null
           run_id?: string
+          scorer?: string | null
+          scores?: Json | null
           status?: string
           suite_category?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "benchmark_results_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "benchmark_datasets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      benchmark_runs: {
+        Row: {
+          accuracy: number | null
+          agent_id: string | null
+          avg_response_time_ms: number | null
+          completed_at: string | null
+          config: Json
+          created_at: string | null
+          failed: number | null
+          id: string
+          name: string
+          passed: number | null
+          source: string
+          status: string
+          suite: string | null
+          total_questions: number
+        }
+        Insert: {
+          accuracy?: number | null
+          agent_id?: string | null
+          avg_response_time_ms?: number | null
+          completed_at?: string | null
+          config?: Json
+          created_at?: string | null
+          failed?: number | null
+          id?: string
+          name: string
+          passed?: number | null
+          source?: string
+          status?: string
+          suite?: string | null
+          total_questions?: number
+        }
+        Update: {
+          accuracy?: number | null
+          agent_id?: string | null
+          avg_response_time_ms?: number | null
+          completed_at?: string | null
+          config?: Json
+          created_at?: string | null
+          failed?: number | null
+          id?: string
+          name?: string
+          passed?: number | null
+          source?: string
+          status?: string
+          suite?: string | null
+          total_questions?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "benchmark_runs_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       benchmark_suites: {
         Row: {
@@ -882,6 +1139,186 @@ export type Database = {
         }
         Relationships: []
       }
+      coordinate_cache: {
+        Row: {
+          coordinate_system: string
+          created_at: string
+          created_by: string | null
+          dom_fingerprint: string | null
+          fail_count: number
+          hit_count: number
+          id: string
+          last_used_at: string
+          success_count: number
+          target_key: string
+          updated_at: string
+          url_key: string
+          viewport: string
+          x: number
+          y: number
+        }
+        Insert: {
+          coordinate_system?: string
+          created_at?: string
+          created_by?: string | null
+          dom_fingerprint?: string | null
+          fail_count?: number
+          hit_count?: number
+          id?: string
+          last_used_at?: string
+          success_count?: number
+          target_key: string
+          updated_at?: string
+          url_key: string
+          viewport: string
+          x: number
+          y: number
+        }
+        Update: {
+          coordinate_system?: string
+          created_at?: string
+          created_by?: string | null
+          dom_fingerprint?: string | null
+          fail_count?: number
+          hit_count?: number
+          id?: string
+          last_used_at?: string
+          success_count?: number
+          target_key?: string
+          updated_at?: string
+          url_key?: string
+          viewport?: string
+          x?: number
+          y?: number
+        }
+        Relationships: []
+      }
+      document_sources: {
+        Row: {
+          branch: string | null
+          check_interval_hours: number
+          commit_sha: string | null
+          consecutive_failures: number
+          content_hash: string | null
+          created_at: string
+          document_id: string
+          etag: string | null
+          freshness_status: string
+          id: string
+          last_changed_at: string | null
+          last_checked_at: string | null
+          last_error: string | null
+          last_modified: string | null
+          last_refreshed_at: string | null
+          next_check_at: string | null
+          pipeline: string
+          refresh_policy: string
+          repo_path: string | null
+          repo_url: string | null
+          source_kind: string
+          source_url: string | null
+          updated_at: string
+        }
+        Insert: {
+          branch?: string | null
+          check_interval_hours?: number
+          commit_sha?: string | null
+          consecutive_failures?: number
+          content_hash?: string | null
+          created_at?: string
+          document_id: string
+          etag?: string | null
+          freshness_status?: string
+          id?: string
+          last_changed_at?: string | null
+          last_checked_at?: string | null
+          last_error?: string | null
+          last_modified?: string | null
+          last_refreshed_at?: string | null
+          next_check_at?: string | null
+          pipeline?: string
+          refresh_policy?: string
+          repo_path?: string | null
+          repo_url?: string | null
+          source_kind: string
+          source_url?: string | null
+          updated_at?: string
+        }
+        Update: {
+          branch?: string | null
+          check_interval_hours?: number
+          commit_sha?: string | null
+          consecutive_failures?: number
+          content_hash?: string | null
+          created_at?: string
+          document_id?: string
+          etag?: string | null
+          freshness_status?: string
+          id?: string
+          last_changed_at?: string | null
+          last_checked_at?: string | null
+          last_error?: string | null
+          last_modified?: string | null
+          last_refreshed_at?: string | null
+          next_check_at?: string | null
+          pipeline?: string
+          refresh_policy?: string
+          repo_path?: string | null
+          repo_url?: string | null
+          source_kind?: string
+          source_url?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      document_versions: {
+        Row: {
+          chunks_added: number
+          chunks_kept: number
+          chunks_retired: number
+          completed_at: string | null
+          content_hash: string
+          created_at: string
+          document_id: string
+          error_message: string | null
+          id: string
+          pipeline: string
+          source: string | null
+          status: string
+          version: number
+        }
+        Insert: {
+          chunks_added?: number
+          chunks_kept?: number
+          chunks_retired?: number
+          completed_at?: string | null
+          content_hash: string
+          created_at?: string
+          document_id: string
+          error_message?: string | null
+          id?: string
+          pipeline: string
+          source?: string | null
+          status?: string
+          version: number
+        }
+        Update: {
+          chunks_added?: number
+          chunks_kept?: number
+          chunks_retired?: number
+          completed_at?: string | null
+          content_hash?: string
+          created_at?: string
+          document_id?: string
+          error_message?: string | null
+          id?: string
+          pipeline?: string
+          source?: string | null
+          status?: string
+          version?: number
+        }
+        Relationships: []
+      }
       edge_function_execution_logs: {
         Row: {
           agent_id: string | null
@@ -923,6 +1360,89 @@ export type Database = {
           },
         ]
       }
+      embedding_collections: {
+        Row: {
+          embedding_dimension: number
+          embedding_model: string
+          pipeline: string
+          reindex_model: string | null
+          updated_at: string
+        }
+        Insert: {
+          embedding_dimension?: number
+          embedding_model?: string
+          pipeline: string
+          reindex_model?: string | null
+          updated_at?: string
+        }
+        Update: {
+          embedding_dimension?: number
+          embedding_model?: string
+          pipeline?: string
+          reindex_model?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      embedding_reindex_jobs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          cursor_chunk_id: string | null
+          error_message: string | null
+          failed_chunks: number
+          from_model: string
+          id: string
+          pipeline: string
+          processed_chunks: number
+          started_at: string | null
+          status: string
+          to_model: string
+          total_chunks: number
+          updated_at: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          cursor_chunk_id?: string | null
+          error_message?: string | null
+          failed_chunks?: number
+          from_model: string
+          id?: string
+          pipeline: string
+          processed_chunks?: number
+          started_at?: string | null
+          status?: string
+          to_model: string
+          total_chunks?: number
+          updated_at?: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          cursor_chunk_id?: string | null
+          error_message?: string | null
+          failed_chunks?: number
+          from_model?: string
+          id?: string
+          pipeline?: string
+          processed_chunks?: number
+          started_at?: string | null
+          status?: string
+          to_model?: string
+          total_chunks?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "embedding_reindex_jobs_pipeline_fkey"
+            columns: ["pipeline"]
+            isOneToOne: false
+            referencedRelation: "embedding_collections"
+            referencedColumns: ["pipeline"]
+          },
+        ]
+      }
       execution_logs: {
         Row: {
           completed_at: string | null
@@ -1139,7 +1659,126 @@ export type Database = {
             foreignKeyName: "github_processing_jobs_document_id_fkey"
             columns: ["document_id"]
             isOneToOne: false
-            referencedRelation: "pipeline_a_hybrid_documents"
+            referencedRelation: "pipeline_a_hybrid_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ingestion_connectors: {
+        Row: {
+          config: Json
+          connector_type: string
+          created_at: string
+          created_by: string | null
+          folder: string | null
+          id: string
+          is_active: boolean
+          last_error: string | null
+          last_sync_at: string | null
+          last_sync_items: number
+          last_sync_status: string | null
+          name: string
+          next_sync_at: string | null
+          pipeline: string
+          sync_cursor: Json | null
+          sync_interval_minutes: number | null
+          updated_at: string
+        }
+        Insert: {
+          config?: Json
+          connector_type: string
+          created_at?: string
+          created_by?: string | null
+          folder?: string | null
+          id?: string
+          is_active?: boolean
+          last_error?: string | null
+          last_sync_at?: string | null
+          last_sync_items?: number
+          last_sync_status?: string | null
+          name: string
+          next_sync_at?: string | null
+          pipeline?: string
+          sync_cursor?: Json | null
+          sync_interval_minutes?: number | null
+          updated_at?: string
+        }
+        Update: {
+          config?: Json
+          connector_type?: string
+          created_at?: string
+          created_by?: string | null
+          folder?: string | null
+          id?: string
+          is_active?: boolean
+          last_error?: string | null
+          last_sync_at?: string | null
+          last_sync_items?: number
+          last_sync_status?: string | null
+          name?: string
+          next_sync_at?: string | null
+          pipeline?: string
+          sync_cursor?: Json | null
+          sync_interval_minutes?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      ingestion_queue: {
+        Row: {
+          connector_id: string
+          created_at: string
+          document_id: string | null
+          error_message: string | null
+          id: string
+          item_key: string
+          item_version: string | null
+          pipeline: string
+          processed_at: string | null
+          retry_count: number
+          source_url: string | null
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          connector_id: string
+          created_at?: string
+          document_id?: string | null
+          error_message?: string | null
+          id?: string
+          item_key: string
+          item_version?: string | null
+          pipeline: string
+          processed_at?: string | null
+          retry_count?: number
+          source_url?: string | null
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          connector_id?: string
+          created_at?: string
+          document_id?: string | null
+          error_message?: string | null
+          id?: string
+          item_key?: string
+          item_version?: string | null
+          pipeline?: string
+          processed_at?: string | null
+          retry_count?: number
+          source_url?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingestion_queue_connector_id_fkey"
+            columns: ["connector_id"]
+            isOneToOne: false
+            referencedRelation: "ingestion_connectors"
             referencedColumns: ["id"]
           },
         ]
@@ -1913,51 +2552,63 @@ export type Database = {
           chunk_index: number
           chunk_type: string | null
           content: string
+          content_hash: string | null
           created_at: string | null
           document_id: string
           embedded_at: string | null
           embedding: string | null
+          embedding_dimension: number | null
           embedding_error: string | null
+          embedding_model: string | null
           embedding_status: string | null
           heading_hierarchy: Json | null
           id: string
           is_atomic: boolean | null
           original_content: string | null
           page_number: number | null
+          retired_at: string | null
           summary: string | null
         }
         Insert: {
           chunk_index: number
           chunk_type?: string | null
           content: string
+          content_hash?: string | null
           created_at?: string | null
           document_id: string
           embedded_at?: string | null
           embedding?: string | null
+          embedding_dimension?: number | null
           embedding_error?: string | null
+          embedding_model?: string | null
           embedding_status?: string | null
           heading_hierarchy?: Json | null
           id?: string
           is_atomic?: boolean | null
           original_content?: string | null
           page_number?: number | null
+          retired_at?: string | null
           summary?: string | null
         }
         Update: {
           chunk_index?: number
           chunk_type?: string | null
           content?: string
+          content_hash?: string | null
           created_at?: string | null
           document_id?: string
           embedded_at?: string | null
           embedding?: string | null
+          embedding_dimension?: number | null
           embedding_error?: string | null
+          embedding_model?: string | null
           embedding_status?: string | null
           heading_hierarchy?: Json | null
           id?: string
           is_atomic?: boolean | null
           original_content?: string | null
           page_number?: number | null
+          retired_at?: string | null
           summary?: string | null
         }
         Relationships: [
@@ -1972,7 +2623,9 @@ export type Database = {
       }
       pipeline_a_documents: {
         Row: {
+          content_hash: string | null
           created_at: string | null
+          current_version: number
           error_message: string | null
           file_name: string
           file_path: string
@@ -1992,7 +2645,9 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          content_hash?: string | null
           created_at?: string | null
+          current_version?: number
           error_message?: string | null
           file_name: string
           file_path: string
@@ -2012,7 +2667,9 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          content_hash?: string | null
           created_at?: string | null
+          current_version?: number
           error_message?: string | null
           file_name?: string
           file_path?: string
@@ -2078,11 +2735,14 @@ export type Database = {
           chunk_index: number
           chunk_type: string | null
           content: string
+          content_hash: string | null
           created_at: string | null
           document_id: string
           embedded_at: string | null
           embedding: string | null
+          embedding_dimension: number | null
           embedding_error: string | null
+          embedding_model: string | null
           embedding_retry_count: number | null
           embedding_status: string | null
           heading_hierarchy: Json | null
@@ -2090,6 +2750,7 @@ export type Database = {
           is_atomic: boolean | null
           original_content: string | null
           page_number: number | null
+          retired_at: string | null
           summary: string | null
           updated_at: string | null
         }
@@ -2098,11 +2759,14 @@ export type Database = {
           chunk_index: number
           chunk_type?: string | null
           content: string
+          content_hash?: string | null
           created_at?: string | null
           document_id: string
           embedded_at?: string | null
           embedding?: string | null
+          embedding_dimension?: number | null
           embedding_error?: string | null
+          embedding_model?: string | null
           embedding_retry_count?: number | null
           embedding_status?: string | null
           heading_hierarchy?: Json | null
@@ -2110,6 +2774,7 @@ export type Database = {
           is_atomic?: boolean | null
           original_content?: string | null
           page_number?: number | null
+          retired_at?: string | null
           summary?: string | null
           updated_at?: string | null
         }
@@ -2118,11 +2783,14 @@ export type Database = {
           chunk_index?: number
           chunk_type?: string | null
           content?: string
+          content_hash?: string | null
           created_at?: string | null
           document_id?: string
           embedded_at?: string | null
           embedding?: string | null
+          embedding_dimension?: number | null
           embedding_error?: string | null
+          embedding_model?: string | null
           embedding_retry_count?: number | null
           embedding_status?: string | null
           heading_hierarchy?: Json | null
@@ -2130,6 +2798,7 @@ export type Database = {
           is_atomic?: boolean | null
           original_content?: string | null
           page_number?: number | null
+          retired_at?: string | null
           summary?: string | null
           updated_at?: string | null
         }
@@ -2147,7 +2816,9 @@ export type Database = {
         Row: {
           ai_summary: string | null
           complexity_level: string | null
+          content_hash: string | null
           created_at: string | null
+          current_version: number
           error_message: string | null
           extraction_attempts: number | null
           extraction_mode: string | null
@@ -2173,7 +2844,9 @@ export type Database = {
         Insert: {
           ai_summary?: string | null
           complexity_level?: string | null
+          content_hash?: string | null
           created_at?: string | null
+          current_version?: number
           error_message?: string | null
           extraction_attempts?: number | null
           extraction_mode?: string | null
@@ -2199,7 +2872,9 @@ export type Database = {
         Update: {
           ai_summary?: string | null
           complexity_level?: string | null
+          content_hash?: string | null
           created_at?: string | null
+          current_version?: number
           error_message?: string | null
           extraction_attempts?: number | null
           extraction_mode?: string | null
@@ -2269,14 +2944,18 @@ export type Database = {
           chunk_index: number
           chunk_type: string
           content: string
+          content_hash: string | null
           created_at: string | null
           document_id: string
           embedded_at: string | null
           embedding: string | null
+          embedding_dimension: number | null
           embedding_error: string | null
+          embedding_model: string | null
           embedding_status: string
           id: string
           page_number: number | null
+          retired_at: string | null
           visual_grounding: Json | null
         }
         Insert: {
@@ -2284,14 +2963,18 @@ export type Database = {
           chunk_index: number
           chunk_type?: string
           content: string
+          content_hash?: string | null
           created_at?: string | null
           document_id: string
           embedded_at?: string | null
           embedding?: string | null
+          embedding_dimension?: number | null
           embedding_error?: string | null
+          embedding_model?: string | null
           embedding_status?: string
           id?: string
           page_number?: number | null
+          retired_at?: string | null
           visual_grounding?: Json | null
         }
         Update: {
@@ -2299,14 +2982,18 @@ export type Database = {
           chunk_index?: number
           chunk_type?: string
           content?: string
+          content_hash?: string | null
           created_at?: string | null
           document_id?: string
           embedded_at?: string | null
           embedding?: string | null
+          embedding_dimension?: number | null
           embedding_error?: string | null
+          embedding_model?: string | null
           embedding_status?: string
           id?: string
           page_number?: number | null
+          retired_at?: string | null
           visual_grounding?: Json | null
         }
         Relationships: [
@@ -2321,7 +3008,9 @@ export type Database = {
       }
       pipeline_b_documents: {
         Row: {
+          content_hash: string | null
           created_at: string | null
+          current_version: number
           error_message: string | null
           file_name: string
           file_path: string | null
@@ -2339,7 +3028,9 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          content_hash?: string | null
           created_at?: string | null
+          current_version?: number
           error_message?: string | null
           file_name: string
           file_path?: string | null
@@ -2357,7 +3048,9 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          content_hash?: string | null
           created_at?: string | null
+          current_version?: number
           error_message?: string | null
           file_name?: string
           file_path?: string | null
@@ -2425,7 +3118,9 @@ export type Database = {
           document_section: string | null
           embedded_at: string | null
           embedding: string | null
+          embedding_dimension: number | null
           embedding_error: string | null
+          embedding_model: string | null
           embedding_status: string | null
           headings: Json | null
           id: string
@@ -2444,7 +3139,9 @@ export type Database = {
           document_section?: string | null
           embedded_at?: string | null
           embedding?: string | null
+          embedding_dimension?: number | null
           embedding_error?: string | null
+          embedding_model?: string | null
           embedding_status?: string | null
           headings?: Json | null
           id?: string
@@ -2463,7 +3160,9 @@ export type Database = {
           document_section?: string | null
           embedded_at?: string | null
           embedding?: string | null
+          embedding_dimension?: number | null
           embedding_error?: string | null
+          embedding_model?: string | null
           embedding_status?: string | null
           headings?: Json | null
           id?: string
@@ -2662,6 +3361,142 @@ export type Database = {
         }
         Relationships: []
       }
+      query_intents: {
+        Row: {
+          agent_id: string | null
+          chunk_type_boosts: Json
+          created_at: string | null
+          description: string | null
+          exemplar_embeddings: Json
+          exemplar_threshold: number
+          exemplars: string[]
+          folder: string | null
+          id: string
+          is_active: boolean
+          name: string
+          patterns: string[]
+          priority: number
+          scope_type: string
+          updated_at: string | null
+        }
+        Insert: {
+          agent_id?: string | null
+          chunk_type_boosts?: Json
+          created_at?: string | null
+          description?: string | null
+          exemplar_embeddings?: Json
+          exemplar_threshold?: number
+          exemplars?: string[]
+          folder?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          patterns?: string[]
+          priority?: number
+          scope_type?: string
+          updated_at?: string | null
+        }
+        Update: {
+          agent_id?: string | null
+          chunk_type_boosts?: Json
+          created_at?: string | null
+          description?: string | null
+          exemplar_embeddings?: Json
+          exemplar_threshold?: number
+          exemplars?: string[]
+          folder?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          patterns?: string[]
+          priority?: number
+          scope_type?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "query_intents_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      retrieval_eval_results: {
+        Row: {
+          created_at: string | null
+          error: string | null
+          first_relevant_rank: number | null
+          gold_chunk_types: string[]
+          gold_count: number
+          id: string
+          k: number
+          mrr: number | null
+          ndcg_at_k: number | null
+          pdf_file: string
+          pipeline_source: string
+          question: string
+          question_id: string | null
+          recall_at_k: number | null
+          relevant_retrieved: number
+          response_time_ms: number | null
+          retrieved: Json
+          run_id: string
+          suite_category: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          error?: string | null
+          first_relevant_rank?: number | null
+          gold_chunk_types?: string[]
+          gold_count?: number
+          id?: string
+          k: number
+          mrr?: number | null
+          ndcg_at_k?: number | null
+          pdf_file: string
+          pipeline_source: string
+          question: string
+          question_id?: string | null
+          recall_at_k?: number | null
+          relevant_retrieved?: number
+          response_time_ms?: number | null
+          retrieved?: Json
+          run_id: string
+          suite_category?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          error?: string | null
+          first_relevant_rank?: number | null
+          gold_chunk_types?: string[]
+          gold_count?: number
+          id?: string
+          k?: number
+          mrr?: number | null
+          ndcg_at_k?: number | null
+          pdf_file?: string
+          pipeline_source?: string
+          question?: string
+          question_id?: string | null
+          recall_at_k?: number | null
+          relevant_retrieved?: number
+          response_time_ms?: number | null
+          retrieved?: Json
+          run_id?: string
+          suite_category?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "retrieval_eval_results_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "benchmark_datasets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       saved_procedures: {
         Row: {
           created_at: string
@@ -2675,6 +3510,7 @@ export type Database = {
           name: string
           project_id: string | null
           steps: Json
+          success_assertions: Json
           success_count: number
           success_criteria: string | null
           updated_at: string
@@ -2693,6 +3529,7 @@ export type Database = {
           name: string
           project_id?: string | null
           steps?: Json
+          success_assertions?: Json
           success_count?: number
           success_criteria?: string | null
           updated_at?: string
@@ -2711,6 +3548,7 @@ export type Database = {
           name?: string
           project_id?: string | null
           steps?: Json
+          success_assertions?: Json
           success_count?: number
           success_criteria?: string | null
           updated_at?: string
@@ -2829,6 +3667,117 @@ export type Database = {
           },
         ]
       }
+      tool_approval_audit: {
+        Row: {
+          actor_id: string | null
+          approval_id: string
+          created_at: string
+          details: Json
+          event: string
+          id: string
+          tool_name: string
+        }
+        Insert: {
+          actor_id?: string | null
+          approval_id: string
+          created_at?: string
+          details?: Json
+          event: string
+          id?: string
+          tool_name: string
+        }
+        Update: {
+          actor_id?: string | null
+          approval_id?: string
+          created_at?: string
+          details?: Json
+          event?: string
+          id?: string
+          tool_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tool_approval_audit_approval_id_fkey"
+            columns: ["approval_id"]
+            isOneToOne: false
+            referencedRelation: "tool_approvals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tool_approvals: {
+        Row: {
+          agent_id: string | null
+          approved_input: Json | null
+          conversation_id: string
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          decision_note: string | null
+          id: string
+          message_id: string | null
+          result: Json | null
+          status: string
+          tool_input: Json
+          tool_name: string
+          user_id: string
+        }
+        Insert: {
+          agent_id?: string | null
+          approved_input?: Json | null
+          conversation_id: string
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_note?: string | null
+          id?: string
+          message_id?: string | null
+          result?: Json | null
+          status?: string
+          tool_input?: Json
+          tool_name: string
+          user_id: string
+        }
+        Update: {
+          agent_id?: string | null
+          approved_input?: Json | null
+          conversation_id?: string
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_note?: string | null
+          id?: string
+          message_id?: string | null
+          result?: Json | null
+          status?: string
+          tool_input?: Json
+          tool_name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tool_approvals_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tool_approvals_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "agent_conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tool_approvals_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "agent_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tool_server_config: {
         Row: {
           device_name: string | null
@@ -2886,6 +3835,88 @@ export type Database = {
         }
         Relationships: []
       }
+      usage_ledger: {
+        Row: {
+          agent_id: string | null
+          benchmark_run_id: string | null
+          cache_read_tokens: number
+          cache_write_tokens: number
+          conversation_id: string | null
+          cost_usd: number | null
+          created_at: string
+          id: string
+          input_tokens: number
+          latency_ms: number | null
+          metadata: Json
+          model: string
+          operation: string
+          output_tokens: number
+          provider: string
+          source: string
+          units: number | null
+        }
+        Insert: {
+          agent_id?: string | null
+          benchmark_run_id?: string | null
+          cache_read_tokens?: number
+          cache_write_tokens?: number
+          conversation_id?: string | null
+          cost_usd?: number | null
+          created_at?: string
+          id?: string
+          input_tokens?: number
+          latency_ms?: number | null
+          metadata?: Json
+          model: string
+          operation?: string
+          output_tokens?: number
+          provider: string
+          source: string
+          units?: number | null
+        }
+        Update: {
+          agent_id?: string | null
+          benchmark_run_id?: string | null
+          cache_read_tokens?: number
+          cache_write_tokens?: number
+          conversation_id?: string | null
+          cost_usd?: number | null
+          created_at?: string
+          id?: string
+          input_tokens?: number
+          latency_ms?: number | null
+          metadata?: Json
+          model?: string
+          operation?: string
+          output_tokens?: number
+          provider?: string
+          source?: string
+          units?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_ledger_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "usage_ledger_benchmark_run_id_fkey"
+            columns: ["benchmark_run_id"]
+            isOneToOne: false
+            referencedRelation: "benchmark_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "usage_ledger_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "agent_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -3065,6 +4096,23 @@ export type Database = {
           total_batches: number
         }[]
       }
+      get_agent_knowledge_folders: {
+        Args: { p_agent_id: string }
+        Returns: {
+          folder: string
+        }[]
+      }
+      get_agent_knowledge_pipelines: {
+        Args: { p_agent_id: string }
+        Returns: {
+          chunk_count: number
+          pipeline_source: string
+        }[]
+      }
+      get_agent_spend: {
+        Args: { p_agent_id: string; p_since: string }
+        Returns: number
+      }
       get_agent_sync_status: {
         Args: { p_agent_id: string }
         Returns: {
@@ -3086,6 +4134,14 @@ export type Database = {
           summary: string
         }[]
       }
+      get_document_dependent_agents: {
+        Args: { p_document_id: string }
+        Returns: {
+          agent_id: string
+          agent_name: string
+          user_id: string
+        }[]
+      }
       get_or_create_conversation: {
         Args: { p_agent_id: string; p_user_id: string }
         Returns: string
@@ -3099,6 +4155,23 @@ export type Database = {
           ready_chunks: number
         }[]
       }
+      get_usage_summary: {
+        Args: { p_since: string }
+        Returns: {
+          agent_id: string
+          agent_name: string
+          calls: number
+          cost_usd: number
+          day: string
+          input_tokens: number
+          model: string
+          operation: string
+          output_tokens: number
+          provider: string
+          source: string
+          units: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -3140,6 +4213,28 @@ export type Database = {
               similarity: number
             }[]
           }
+      keyword_search_pipeline_chunks: {
+        Args: {
+          match_count?: number
+          p_agent_id: string
+          p_document_name?: string
+          p_pipeline: string
+          search_query: string
+        }
+        Returns: {
+          category: string
+          chunk_index: number
+          chunk_type: string
+          content: string
+          document_id: string
+          document_name: string
+          heading_hierarchy: Json
+          id: string
+          page_number: number
+          pipeline_source: string
+          similarity: number
+        }[]
+      }
       log_operation_complete: {
         Args: {
           p_error_code?: string
@@ -3165,6 +4260,22 @@ export type Database = {
         }
         Returns: string
       }
+      match_agent_user_memories: {
+        Args: {
+          match_count?: number
+          p_agent_id: string
+          p_embedding_model?: string
+          p_user_id: string
+          query_embedding: string
+        }
+        Returns: {
+          category: string
+          content: string
+          id: string
+          importance: number
+          similarity: number
+        }[]
+      }
       match_documents:
         | {
             Args: {
@@ -3201,7 +4312,49 @@ export type Database = {
               similarity: number
             }[]
           }
+      match_pipeline_chunks: {
+        Args: {
+          match_count?: number
+          match_threshold?: number
+          p_agent_id: string
+          p_document_name?: string
+          p_embedding_model?: string
+          p_pipeline: string
+          query_embedding: string
+        }
+        Returns: {
+          category: string
+          chunk_index: number
+          chunk_type: string
+          content: string
+          document_id: string
+          document_name: string
+          heading_hierarchy: Json
+          id: string
+          page_number: number
+          pipeline_source: string
+          similarity: number
+        }[]
+      }
       recategorize_github_documents: { Args: never; Returns: number }
+      record_coordinate_cache_result: {
+        Args: {
+          p_coordinate_system?: string
+          p_dom_fingerprint?: string
+          p_from_cache?: boolean
+          p_success: boolean
+          p_target_key: string
+          p_url_key: string
+          p_viewport: string
+          p_x?: number
+          p_y?: number
+        }
+        Returns: undefined
+      }
+      update_procedure_stats: {
+        Args: { p_procedure_id: string; p_success: boolean }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
@@ -1,13 +1,35 @@
 // ============================================================
 // ACTION CACHE - Caches successful action coordinates
 // ============================================================
+// Backed by the coordinate_cache table: entries survive page reloads
+// and are shared between users of the same web apps. The Map is only
+// a per-tab copy of the rows already read or written.
+//
+// An entry is keyed by normalised URL + target description + viewport
+// and carries the DOM fingerprint of the target when it was stored:
+// if the element now looks different (or is gone) the entry is
+// invalidated and the caller falls back to triple verification.
+// ============================================================
+
+import { supabase } from '@/integrations/supabase/client';
+import { toolServerClient } from './client';
+import { VIEWPORT } from './constants';
+import { CachedCoordinate, CoordinateCacheStats } from './orchestrator-types';
 
-import { CachedCoordinate } from './orchestrator-types';
+export interface CoordinateCacheLookup {
+  url: string;
+  targetDescription: string;
+  sessionId: string;
+  selector?: string;
+  viewport?: { width: number; height: number };
+}
 
 export class ActionCache {
   private cache: Map<string, CachedCoordinate> = new Map();
   private maxSize: number;
   private minSuccessCount: number;
+  private stats: CoordinateCacheStats = { hits: 0, misses: 0, invalidations: 0, failures: 0, stores: 0 };
+  private listeners: Set<(stats: CoordinateCacheStats) => void> = new Set();
 
   constructor(maxSize: number = 100, minSuccessCount: number = 2) {
     this.maxSize = maxSize;
@@ -15,84 +37,158 @@ export class ActionCache {
   }
 
   /**
-   * Generate cache key from URL and target description
+   * Normalize URL: origin + path, lowercase host, no query/hash/trailing slash
+   */
+  normalizeUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      const path = parsed.pathname.replace(/\/+$/, '') || '/';
+      return `${parsed.protocol}//${parsed.host.toLowerCase()}${path}`;
+    } catch {
+      return url.split(/[?#]/)[0];
+    }
+  }
+
+  normalizeTarget(targetDescription: string): string {
+    return targetDescription.toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+
+  private viewportKey(viewport?: { width: number; height: number }): string {
+    return `${viewport?.width ?? VIEWPORT.WIDTH}x${viewport?.height ?? VIEWPORT.HEIGHT}`;
+  }
+
+  /**
+   * Generate cache key from URL, target description and viewport
    */
-  private generateKey(url: string, targetDescription: string): string {
-    // Normalize URL (remove query params for better matching)
-    const normalizedUrl = new URL(url).origin + new URL(url).pathname;
-    // Normalize target description
-    const normalizedTarget = targetDescription.toLowerCase().trim();
-    return `${normalizedUrl}::${normalizedTarget}`;
+  private generateKey(urlKey: string, targetKey: string, viewport: string): string {
+    return `${urlKey}::${targetKey}::${viewport}`;
   }
 
   /**
-   * Get cached coordinates if available and reliable
+   * Fingerprint of the target element: tag, text and box rounded to 10px.
+   * Null when the DOM can't locate the target (canvas, iframes, vision-only targets).
    */
-  get(url: string, targetDescription: string): CachedCoordinate | null {
-    const key = this.generateKey(url, targetDescription);
-    const cached = this.cache.get(key);
+  async fingerprint(sessionId: string, targetDescription: string, selector?: string): Promise<string | null> {
+    try {
+      const rect = await toolServerClient.getElementRect({
+        session_id: sessionId,
+        selector,
+        text: selector ? undefined : targetDescription,
+      });
+      if (!rect.success || !rect.found || !rect.visible) return null;
+
+      const round = (value?: number) => Math.round((value ?? 0) / 10);
+      const text = (rect.text || '').replace(/\s+/g, ' ').trim().slice(0, 60);
+      return `${rect.tag || '?'}|${text}|${round(rect.x)},${round(rect.y)}|${round(rect.width)}x${round(rect.height)}`;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get cached coordinates if available, reliable and the target still matches its fingerprint
+   */
+  async get(lookup: CoordinateCacheLookup): Promise<CachedCoordinate | null> {
+    const urlKey = this.normalizeUrl(lookup.url);
+    const targetKey = this.normalizeTarget(lookup.targetDescription);
+    const viewport = this.viewportKey(lookup.viewport);
+    const key = this.generateKey(urlKey, targetKey, viewport);
+
+    let cached = this.cache.get(key) ?? null;
+    if (!cached) {
+      const { data } = await supabase
+        .from('coordinate_cache')
+        .select('x, y, coordinate_system, dom_fingerprint, success_count, last_used_at')
+        .eq('url_key', urlKey)
+        .eq('target_key', targetKey)
+        .eq('viewport', viewport)
+        .maybeSingle();
 
-    if (!cached) return null;
+      if (data) {
+        cached = {
+          x: data.x,
+          y: data.y,
+          coordinate_system: data.coordinate_system === 'lux_sdk' ? 'lux_sdk' : 'viewport',
+          success_count: data.success_count,
+          last_used: new Date(data.last_used_at).getTime(),
+          url: lookup.url,
+          dom_fingerprint: data.dom_fingerprint,
+        };
+        this.remember(key, cached);
+      }
+    }
 
     // Only return if it's been successful enough times
-    if (cached.success_count < this.minSuccessCount) return null;
+    if (!cached || cached.success_count < this.minSuccessCount) {
+      this.bump('misses');
+      return null;
+    }
 
-    // Check if not too old (1 hour max)
-    const maxAge = 60 * 60 * 1000; // 1 hour
-    if (Date.now() - cached.last_used > maxAge) {
-      this.cache.delete(key);
+    const currentFingerprint = await this.fingerprint(lookup.sessionId, lookup.targetDescription, lookup.selector);
+    if (currentFingerprint !== (cached.dom_fingerprint ?? null)) {
+      await this.invalidate(urlKey, targetKey, viewport);
+      this.bump('invalidations');
+      this.bump('misses');
       return null;
     }
 
+    this.bump('hits');
     return cached;
   }
 
   /**
-   * Record a successful action
+   * Record a successful action. domFingerprint must be taken before the action
+   * (afterwards it would describe the next page); fromCache = coordinates came from get()
    */
-  recordSuccess(
-    url: string,
-    targetDescription: string,
+  async recordSuccess(
+    lookup: CoordinateCacheLookup,
     x: number,
     y: number,
-    coordinateSystem: 'lux_sdk' | 'viewport'
-  ): void {
-    const key = this.generateKey(url, targetDescription);
+    coordinateSystem: 'lux_sdk' | 'viewport',
+    domFingerprint: string | null,
+    fromCache: boolean = false
+  ): Promise<void> {
+    const urlKey = this.normalizeUrl(lookup.url);
+    const targetKey = this.normalizeTarget(lookup.targetDescription);
+    const viewport = this.viewportKey(lookup.viewport);
+    const key = this.generateKey(urlKey, targetKey, viewport);
     const existing = this.cache.get(key);
 
-    if (existing) {
-      // Update existing entry
-      this.cache.set(key, {
-        ...existing,
-        x,
-        y,
-        coordinate_system: coordinateSystem,
-        success_count: existing.success_count + 1,
-        last_used: Date.now(),
-      });
-    } else {
-      // Evict if at capacity
-      if (this.cache.size >= this.maxSize) {
-        this.evictOldest();
-      }
+    this.remember(key, {
+      x,
+      y,
+      coordinate_system: coordinateSystem,
+      success_count: (existing?.success_count ?? 0) + 1,
+      last_used: Date.now(),
+      url: lookup.url,
+      dom_fingerprint: domFingerprint,
+    });
+    if (!fromCache) this.bump('stores');
 
-      // Create new entry
-      this.cache.set(key, {
-        x,
-        y,
-        coordinate_system: coordinateSystem,
-        success_count: 1,
-        last_used: Date.now(),
-        url,
-      });
+    const { error } = await supabase.rpc('record_coordinate_cache_result', {
+      p_url_key: urlKey,
+      p_target_key: targetKey,
+      p_viewport: viewport,
+      p_success: true,
+      p_from_cache: fromCache,
+      p_x: x,
+      p_y: y,
+      p_coordinate_system: coordinateSystem,
+      p_dom_fingerprint: domFingerprint ?? undefined,
+    });
+    if (error) {
+      console.warn('[ActionCache] Failed to persist coordinates:', error.message);
     }
   }
 
   /**
-   * Record a failed action (reduces confidence)
+   * Record a failed action on cached coordinates (reduces confidence)
    */
-  recordFailure(url: string, targetDescription: string): void {
-    const key = this.generateKey(url, targetDescription);
+  async recordFailure(lookup: CoordinateCacheLookup): Promise<void> {
+    const urlKey = this.normalizeUrl(lookup.url);
+    const targetKey = this.normalizeTarget(lookup.targetDescription);
+    const viewport = this.viewportKey(lookup.viewport);
+    const key = this.generateKey(urlKey, targetKey, viewport);
     const existing = this.cache.get(key);
 
     if (existing) {
@@ -107,6 +203,37 @@ export class ActionCache {
         });
       }
     }
+    this.bump('failures');
+
+    const { error } = await supabase.rpc('record_coordinate_cache_result', {
+      p_url_key: urlKey,
+      p_target_key: targetKey,
+      p_viewport: viewport,
+      p_success: false,
+    });
+    if (error) {
+      console.warn('[ActionCache] Failed to record failure:', error.message);
+    }
+  }
+
+  private async invalidate(urlKey: string, targetKey: string, viewport: string): Promise<void> {
+    this.cache.delete(this.generateKey(urlKey, targetKey, viewport));
+    const { error } = await supabase
+      .from('coordinate_cache')
+      .delete()
+      .eq('url_key', urlKey)
+      .eq('target_key', targetKey)
+      .eq('viewport', viewport);
+    if (error) {
+      console.warn('[ActionCache] Failed to invalidate entry:', error.message);
+    }
+  }
+
+  private remember(key: string, entry: CachedCoordinate): void {
+    if (!this.cache.has(key) && this.cache.size >= this.maxSize) {
+      this.evictOldest();
+    }
+    this.cache.set(key, entry);
   }
 
   /**
@@ -128,21 +255,30 @@ export class ActionCache {
     }
   }
 
+  private bump(metric: keyof CoordinateCacheStats): void {
+    this.stats = { ...this.stats, [metric]: this.stats[metric] + 1 };
+    this.listeners.forEach(listener => listener(this.stats));
+  }
+
   /**
-   * Clear all cache
+   * Clear the local copy (the shared table is untouched)
    */
   clear(): void {
     this.cache.clear();
   }
 
   /**
-   * Get cache stats
+   * Hit/miss metrics since the page was loaded
    */
-  getStats(): { size: number; entries: Array<{ key: string; successCount: number }> } {
-    const entries: Array<{ key: string; successCount: number }> = [];
-    this.cache.forEach((value, key) => {
-      entries.push({ key, successCount: value.success_count });
-    });
-    return { size: this.cache.size, entries };
+  getStats(): CoordinateCacheStats {
+    return this.stats;
+  }
+
+  subscribe(listener: (stats: CoordinateCacheStats) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
   }
 }
+
+// Singleton: metrics are shared by every Orchestrator of the page
+export const coordinateCache = new ActionCache();
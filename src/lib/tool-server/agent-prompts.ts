@@ -46,7 +46,7 @@
  */
 export const BROWSER_ORCHESTRATOR_CONFIG = {
   maxSteps: 20,
-  validActionTypes: ['click', 'type', 'scroll', 'keypress', 'wait', 'navigate'] as const,
+  validActionTypes: ['click', 'type', 'scroll', 'keypress', 'wait', 'navigate', 'assert'] as const,
   defaultConfig: {
     max_steps: 10,
     vision_fallback_enabled: true,
@@ -74,14 +74,16 @@ TU sei il Planner: crea il piano usando la tua Knowledge Base del sito.
   "steps": [
     {
       "step_number": 1,
-      "action_type": "click|type|scroll|keypress|wait|navigate",
+      "action_type": "click|type|scroll|keypress|wait|navigate|assert",
       "target_description": "Descrizione VISIVA dell'elemento (colore, posizione, testo)",
       "input_value": "Per type: testo. Per keypress: tasto (Enter, Tab). Per navigate: URL",
+      "assertion": { "type": "text_visible", "text": "Salvato" },
       "fallback_description": "Descrizione alternativa se il primo tentativo fallisce",
       "expected_result": "Cosa dovrebbe succedere dopo questa azione"
     }
   ],
-  "success_criteria": "Come verificare che il task sia completato"
+  "success_criteria": "Come verificare che il task sia completato",
+  "success_assertions": [{ "type": "url", "contains": "/ordini" }]
 }
 \`\`\`
 
@@ -100,10 +102,20 @@ TU sei il Planner: crea il piano usando la tua Knowledge Base del sito.
 - \`navigate\`: Vai a URL (input_value: l'URL)
 - \`wait\`: Attendi (input_value: millisecondi, es: "2000")
 - \`keypress\`: Premi tasto (input_value: "Enter", "Tab", "Escape")
+- \`assert\`: Verifica lo stato della pagina (richiede assertion, nessuna azione)
+
+### Asserzioni
+Controllate su DOM e URL (senza vision), sia come step \`assert\` sia in \`success_assertions\`
+alla fine del piano. L'esecuzione è completata solo se tutte passano:
+- \`{ "type": "element_visible", "selector" | "ref" | "text" }\`
+- \`{ "type": "text_visible", "text": "...", "exact": false }\`
+- \`{ "type": "url", "equals" | "contains" | "matches" }\`
+- \`{ "type": "title", "equals" | "contains" }\`
 
 ### Best Practices
 1. Crea il MINIMO numero di step necessari
 2. Ogni step deve essere atomico e verificabile
 3. Usa la tua KB per descrizioni precise degli elementi
 4. Fornisci sempre fallback_description alternative
+5. Aggiungi sempre success_assertions che dimostrino l'obiettivo raggiunto
 `;
@@ -12,7 +12,15 @@ export { sessionManager } from './session-manager';
 // Orchestrator
 export { Orchestrator, createOrchestrator } from './orchestrator';
 export { LoopDetector } from './loop-detector';
-export { ActionCache } from './action-cache';
+export { ActionCache, coordinateCache } from './action-cache';
+export type { CoordinateCacheLookup } from './action-cache';
+export {
+  toPlaywrightTest,
+  recordedSessionFromProcedure,
+  playwrightFileName,
+  downloadPlaywrightTest,
+} from './playwright-export';
+export type { RecordedSession, PlaywrightLocatorKind } from './playwright-export';
 export { BROWSER_ORCHESTRATOR_CONFIG, BROWSER_PLANNING_INSTRUCTIONS } from './agent-prompts';
 
 // Constants (v8.4.1)
@@ -71,16 +79,22 @@ export type {
   OrchestratorCallbacks,
   Plan,
   PlanStep,
+  PlanAssertion,
+  AssertionResult,
   VisionResult,
   StepExecution,
   ActionRecord,
   CachedCoordinate,
+  CoordinateCacheStats,
   LogEntry,
   LogLevel,
   // Procedure types
   ExecutionMode,
   SavedProcedure,
   ProcedureStep,
+  ProcedureLocator,
+  ProcedureStepReplay,
+  ProcedureReplayResult,
   // Triple verification types
   TripleVerificationPattern,
   TripleVerificationResult,
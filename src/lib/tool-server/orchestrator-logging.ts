@@ -6,6 +6,7 @@
 // ============================================================
 
 import type {
+  AssertionResult,
   PlanStep,
   TripleVerificationPattern,
   VisionResult,
@@ -116,6 +117,10 @@ export interface ExecutionStats {
   lux_calls: number;
   gemini_calls: number;
   dom_calls: number;
+
+  // Assertion steps + success_assertions
+  assertions_passed: number;
+  assertions_failed: number;
 }
 
 export interface ExecutionLog {
@@ -132,6 +137,9 @@ export interface ExecutionLog {
   // Step-by-step log
   steps: StepLog[];
 
+  // Assertion results (assert steps and final success_assertions), in order
+  assertions: AssertionResult[];
+
   // Aggregated stats
   stats: ExecutionStats;
 
@@ -150,6 +158,7 @@ export interface ExecutionLog {
 export class ExecutionLogManager {
   private currentLog: ExecutionLog | null = null;
   private stepLogs: StepLog[] = [];
+  private assertionLogs: AssertionResult[] = [];
   private patternCounts: Record<TripleVerificationPattern, number>;
 
   constructor() {
@@ -185,6 +194,7 @@ export class ExecutionLogManager {
       started_at: new Date().toISOString(),
       status: 'running',
       steps: [],
+      assertions: [],
       stats: {
         total_steps: 0,
         successful_steps: 0,
@@ -197,6 +207,8 @@ export class ExecutionLogManager {
         lux_calls: 0,
         gemini_calls: 0,
         dom_calls: 0,
+        assertions_passed: 0,
+        assertions_failed: 0,
       },
       environment: {
         url: params.url,
@@ -206,6 +218,7 @@ export class ExecutionLogManager {
     };
 
     this.stepLogs = [];
+    this.assertionLogs = [];
     this.patternCounts = {
       all_agree: 0,
       vision_agree_dom_far: 0,
@@ -353,6 +366,24 @@ export class ExecutionLogManager {
     console.log(`[LOG] Step ${stepLog.step_number}: ${params.success ? '✓' : '✗'} ${stepLog.action_type} - ${stepLog.target_description}`);
   }
 
+  /**
+   * Log the result of an assertion (assert step or success_assertions)
+   */
+  logAssertion(result: AssertionResult): void {
+    this.assertionLogs.push(result);
+
+    if (this.currentLog) {
+      if (result.passed) {
+        this.currentLog.stats.assertions_passed++;
+      } else {
+        this.currentLog.stats.assertions_failed++;
+      }
+    }
+
+    const where = result.step_number !== null ? `Step ${result.step_number}` : 'Success criteria';
+    console.log(`[LOG] ${where}: assertion ${result.assertion.type} ${result.passed ? '✓' : '✗'}${result.error ? ` (${result.error})` : ''}`);
+  }
+
   /**
    * Complete the execution log
    */
@@ -362,6 +393,7 @@ export class ExecutionLogManager {
     this.currentLog.completed_at = new Date().toISOString();
     this.currentLog.status = status;
     this.currentLog.steps = [...this.stepLogs];
+    this.currentLog.assertions = [...this.assertionLogs];
     this.currentLog.stats.patterns = { ...this.patternCounts };
 
     if (this.currentLog.stats.total_steps > 0) {
@@ -384,6 +416,7 @@ export class ExecutionLogManager {
     return {
       ...this.currentLog,
       steps: [...this.stepLogs],
+      assertions: [...this.assertionLogs],
       stats: {
         ...this.currentLog.stats,
         patterns: { ...this.patternCounts },
@@ -450,6 +483,9 @@ export class ExecutionLogManager {
     console.log(`Duration: ${(stats.total_duration_ms / 1000).toFixed(1)}s`);
     console.log(`\nSteps: ${stats.successful_steps}/${stats.total_steps} successful`);
     console.log(`API Calls: DOM=${stats.dom_calls} Lux=${stats.lux_calls} Gemini=${stats.gemini_calls}`);
+    if (stats.assertions_passed + stats.assertions_failed > 0) {
+      console.log(`Assertions: ${stats.assertions_passed}/${stats.assertions_passed + stats.assertions_failed} passed`);
+    }
     console.log(`\nPattern Distribution:`);
     Object.entries(stats.patterns).forEach(([pattern, count]) => {
       if (count > 0) {
@@ -39,13 +39,29 @@ export const DEFAULT_ORCHESTRATOR_CONFIG: OrchestratorConfig = {
   saveProcedures: true,
 };
 
+// Assertions: checked on DOM and URL state through the Tool Server verify endpoints (no vision)
+export type PlanAssertion =
+  | { type: 'element_visible'; selector?: string; ref?: string; text?: string; timeout_ms?: number }
+  | { type: 'text_visible'; text: string; exact?: boolean; timeout_ms?: number }
+  | { type: 'url'; equals?: string; contains?: string; matches?: string }
+  | { type: 'title'; equals?: string; contains?: string };
+
+export interface AssertionResult {
+  assertion: PlanAssertion;
+  step_number: number | null;  // null = plan success_assertions
+  passed: boolean;
+  details?: Record<string, unknown>;
+  error?: string;
+}
+
 // Plan Types (output from Planner Agent)
 export interface PlanStep {
   step_number: number;
-  action_type: 'click' | 'type' | 'scroll' | 'navigate' | 'wait' | 'keypress';
+  action_type: 'click' | 'type' | 'scroll' | 'navigate' | 'wait' | 'keypress' | 'assert';
   target_description: string;
   dom_selector?: string;  // Optional CSS selector for DOM lookup
   input_value?: string;
+  assertion?: PlanAssertion;  // Required for assert steps
   fallback_description?: string;
   expected_outcome?: string;
 }
@@ -54,7 +70,8 @@ export interface Plan {
   analysis: string;
   goal: string;
   steps: PlanStep[];
-  success_criteria: string;
+  success_criteria: string;               // Free text for the user
+  success_assertions?: PlanAssertion[];   // Checked after the last step, decide the final status
 }
 
 // Vision Result Types
@@ -100,6 +117,7 @@ export interface OrchestratorState {
   executed_steps: StepExecution[];
   status: OrchestratorStatus;
   error?: string;
+  assertions: AssertionResult[];
   started_at: number | null;
   completed_at: number | null;
 }
@@ -123,6 +141,16 @@ export interface CachedCoordinate {
   success_count: number;
   last_used: number;
   url: string;
+  dom_fingerprint?: string | null;
+}
+
+// Coordinate cache metrics (per page load)
+export interface CoordinateCacheStats {
+  hits: number;           // Coordinates reused, vision skipped
+  misses: number;         // No reliable entry, or entry invalidated
+  invalidations: number;  // Entry dropped because the DOM fingerprint changed
+  failures: number;       // Cached coordinates that didn't work
+  stores: number;         // New coordinates saved after triple verification
 }
 
 // Log Entry
@@ -217,12 +245,14 @@ export interface DomElementRect {
 // ============================================================
 
 export interface ProcedureStep {
-  action: 'click' | 'type' | 'scroll' | 'keypress' | 'navigate' | 'wait';
+  action: 'click' | 'type' | 'scroll' | 'keypress' | 'navigate' | 'wait' | 'assert';
   description: string;
 
   // Locators (in priority order)
   selector?: string;           // CSS selector from DOM
   ref?: string;                // Accessibility ref ID
+  role?: string;               // Accessibility role + name (Playwright getByRole)
+  role_name?: string;
   coordinates?: { x: number; y: number }; // Fallback coordinates
 
   // For type/keypress actions
@@ -236,11 +266,22 @@ export interface ProcedureStep {
   // For navigate action
   url?: string;
 
+  // For assert action
+  assertion?: PlanAssertion;
+
+  // Verification on replay
+  url_after?: string;             // Page URL (without query) after the step
+  expected_outcome?: string;
+
   // Learning metadata
   fallback_description?: string;  // Alternative description for vision fallback
   verified_by: ('dom' | 'lux' | 'gemini')[];
   confidence: number;
   learned_at: string;
+
+  // Self-healing: set when a replay repaired broken locators through vision
+  repaired_at?: string;
+  repair_count?: number;
 }
 
 export interface SavedProcedure {
@@ -264,12 +305,40 @@ export interface SavedProcedure {
   // Original goal
   goal: string;
   success_criteria: string;
+  success_assertions: PlanAssertion[];
 
   // User/project association
   user_id?: string;
   project_id?: string;
 }
 
+// ============================================================
+// PROCEDURE REPLAY - Deterministic execution of a SavedProcedure
+// ============================================================
+
+// Locators tried in this order on replay
+export type ProcedureLocator = 'selector' | 'ref' | 'vision' | 'coordinates';
+
+export interface ProcedureStepReplay {
+  index: number;
+  action: ProcedureStep['action'];
+  description: string;
+  located_by: ProcedureLocator | null;  // null for steps without a target (navigate, wait, keypress, scroll, assert)
+  success: boolean;
+  verified: boolean;
+  repaired: boolean;
+  error?: string;
+  duration_ms: number;
+}
+
+export interface ProcedureReplayResult {
+  procedure_id: string;
+  success: boolean;
+  steps: ProcedureStepReplay[];
+  repaired_steps: number;
+  error?: string;
+}
+
 // ============================================================
 // TRIPLE VERIFICATION TYPES (DOM + Lux + Gemini)
 // ============================================================
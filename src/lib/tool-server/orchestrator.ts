@@ -6,8 +6,11 @@ import { supabase } from '@/integrations/supabase/client';
 import { toolServerClient } from './client';
 import { sessionManager } from './session-manager';
 import { LoopDetector } from './loop-detector';
-import { ActionCache } from './action-cache';
+import { ActionCache, coordinateCache, CoordinateCacheLookup } from './action-cache';
 import { BROWSER_ORCHESTRATOR_CONFIG } from './agent-prompts';
+import { distance } from './coordinates';
+import type { RecordedSession } from './playwright-export';
+import type { Tables } from '@/integrations/supabase/types';
 import {
   OrchestratorConfig,
   DEFAULT_ORCHESTRATOR_CONFIG,
@@ -16,6 +19,8 @@ import {
   OrchestratorCallbacks,
   Plan,
   PlanStep,
+  PlanAssertion,
+  AssertionResult,
   VisionResult,
   StepExecution,
   ActionRecord,
@@ -27,6 +32,9 @@ import {
   TripleVerificationPattern,
   SavedProcedure,
   ProcedureStep,
+  ProcedureLocator,
+  ProcedureStepReplay,
+  ProcedureReplayResult,
   ExecutionMode,
 } from './orchestrator-types';
 import {
@@ -47,7 +55,10 @@ export class Orchestrator {
   // Logging and procedure learning
   private logManager: ExecutionLogManager;
   private learnedSteps: ProcedureStep[] = [];
+  private replayedSteps: ProcedureStep[] | null = null;
+  private startUrl: string | null = null;
   private currentVerificationLog: VerificationLog | null = null;
+  private lastReplay: ProcedureReplayResult | null = null;
 
   constructor(
     config: Partial<OrchestratorConfig> = {},
@@ -56,7 +67,7 @@ export class Orchestrator {
     this.config = { ...DEFAULT_ORCHESTRATOR_CONFIG, ...config };
     this.callbacks = callbacks;
     this.loopDetector = new LoopDetector(this.config.loopDetectionThreshold);
-    this.actionCache = new ActionCache();
+    this.actionCache = coordinateCache; // Shared: persistent cache + page-wide metrics
     this.logManager = executionLogManager; // Use singleton
     this.state = this.createInitialState();
   }
@@ -70,6 +81,7 @@ export class Orchestrator {
       current_step_index: -1,
       executed_steps: [],
       status: 'idle',
+      assertions: [],
       started_at: null,
       completed_at: null,
     };
@@ -271,6 +283,8 @@ export class Orchestrator {
     this.loopDetector.reset();
     this.logs = [];
     this.learnedSteps = [];
+    this.replayedSteps = null;
+    this.startUrl = null;
 
     try {
       // Phase 1: Handle browser session
@@ -291,24 +305,44 @@ export class Orchestrator {
         }
       }
 
+      // First page of the recorded session (Playwright export)
+      this.startUrl = this.state.current_url ?? await this.getPageUrl();
+
+      // Replay mode: a saved procedure for this page and goal runs instead of the plan
+      const procedure = this.config.mode === 'execution' || options?.procedureId
+        ? await this.findProcedure({ procedureId: options?.procedureId, goal: plan.goal, url: await this.getPageUrl() })
+        : null;
+
       // Start execution logging if enabled
       if (this.config.enableLogging) {
         this.logManager.startExecution({
           task_description: plan.goal,
           mode: this.config.mode,
-          procedure_id: options?.procedureId,
+          procedure_id: procedure?.id ?? options?.procedureId,
           url: this.state.current_url || options?.startUrl || 'unknown',
           session_id: this.state.session_id || 'unknown',
         });
       }
 
-      // Phase 2: Execute the pre-generated plan
-      this.callbacks.onPlanCreated?.(plan);
-      this.log('success', `Executing cloud plan: ${plan.steps.length} steps`);
-      this.log('info', `Goal: ${plan.goal}`);
-      this.log('info', `Mode: ${this.config.mode}`);
-
-      await this.executePlanSteps();
+      // Phase 2: Execute the pre-generated plan (or replay the procedure)
+      if (procedure) {
+        this.state.plan = this.procedureToPlan(procedure);
+        // Procedures saved without success_assertions are checked against the plan's
+        if (this.state.plan.success_assertions?.length === 0 && plan.success_assertions?.length) {
+          this.state.plan.success_assertions = plan.success_assertions;
+        }
+        this.callbacks.onPlanCreated?.(this.state.plan);
+        await this.replayProcedureSteps(procedure);
+      } else {
+        this.lastReplay = null;
+        this.callbacks.onPlanCreated?.(plan);
+        this.log('success', `Executing cloud plan: ${plan.steps.length} steps`);
+        this.log('info', `Goal: ${plan.goal}`);
+        this.log('info', `Mode: ${this.config.mode}`);
+
+        await this.executePlanSteps();
+        await this.checkSuccessAssertions();
+      }
 
       // Phase 3: Finalize
       this.state.status = 'completed';
@@ -489,6 +523,23 @@ export class Orchestrator {
         const result = await toolServerClient.browserNavigate(this.state.session_id!, step.input_value!);
         execution.action_result = { success: result.success, error: result.error };
         execution.success = result.success;
+        if (result.success) {
+          this.learnProcedureStep(step, null, null, await this.getPageUrl());
+        }
+        return this.finalizeExecution(execution, startTime);
+      }
+
+      if (step.action_type === 'assert') {
+        if (!step.assertion) {
+          execution.action_result = { success: false, error: 'Assert step without assertion' };
+          return this.finalizeExecution(execution, startTime);
+        }
+        const result = await this.evaluateAssertion(step.assertion, step.step_number);
+        execution.action_result = { success: result.passed, error: result.error };
+        execution.success = result.passed;
+        if (result.passed) {
+          this.learnProcedureStep(step, null, null, null);
+        }
         return this.finalizeExecution(execution, startTime);
       }
 
@@ -496,6 +547,19 @@ export class Orchestrator {
         await this.sleep(parseInt(step.input_value || '1000'));
         execution.action_result = { success: true };
         execution.success = true;
+        this.learnProcedureStep(step, null, null, null);
+        return this.finalizeExecution(execution, startTime);
+      }
+
+      // Coordinates cached by a previous run skip the vision calls
+      const pageUrl = await this.getPageUrl();
+      const cacheLookup: CoordinateCacheLookup | null = pageUrl ? {
+        url: pageUrl,
+        targetDescription: step.target_description,
+        sessionId: this.state.session_id!,
+        selector: step.dom_selector,
+      } : null;
+      if (cacheLookup && await this.executeFromCache(step, cacheLookup, execution)) {
         return this.finalizeExecution(execution, startTime);
       }
 
@@ -559,6 +623,14 @@ export class Orchestrator {
         };
         execution.vision_result = visionResult;
 
+        // Coordinates found with the fallback description are not cached under the primary one
+        const cacheable = cacheLookup !== null && !execution.used_fallback;
+        const domFingerprint = cacheable
+          ? await this.actionCache.fingerprint(cacheLookup.sessionId, cacheLookup.targetDescription, cacheLookup.selector)
+          : null;
+        // Role + name of the target for the recorded steps, read before the action changes the page
+        const accessible = step.dom_selector ? null : await this.findAccessibleTargetNear(targetDesc, coords);
+
         // Execute the action via toolServerClient
         const actionResult = await this.executeActionWithCoords(step, coords.x, coords.y);
         execution.action_result = actionResult;
@@ -583,11 +655,12 @@ export class Orchestrator {
         if (actionResult.success) {
           this.log('success', `Azione completata: ${step.action_type}`);
 
-          // Learn procedure step if in learning mode
-          if (this.config.mode === 'learning') {
-            this.learnProcedureStep(step, coords, tripleResult);
+          if (cacheable) {
+            await this.actionCache.recordSuccess(cacheLookup, coords.x, coords.y, 'viewport', domFingerprint);
           }
 
+          this.learnProcedureStep(step, coords, tripleResult, await this.getPageUrl(), accessible);
+
           break;
         }
       }
@@ -602,6 +675,171 @@ export class Orchestrator {
     return this.finalizeExecution(execution, startTime);
   }
 
+  /**
+   * Try the coordinate cache. Returns true when the action succeeded on cached coordinates.
+   */
+  private async executeFromCache(
+    step: PlanStep,
+    lookup: CoordinateCacheLookup,
+    execution: StepExecution
+  ): Promise<boolean> {
+    const cached = await this.actionCache.get(lookup);
+    if (!cached) return false;
+
+    this.log('info', `💾 Coordinate dalla cache: (${cached.x}, ${cached.y}), vision saltata`);
+    const visionResult: VisionResult = {
+      found: true,
+      x: cached.x,
+      y: cached.y,
+      confidence: 1,
+      coordinate_system: cached.coordinate_system,
+      reasoning: `Coordinate cache (${cached.success_count} successi)`,
+    };
+    execution.vision_result = visionResult;
+
+    const accessible = step.dom_selector ? null : await this.findAccessibleTargetNear(step.target_description, cached);
+    const actionResult = await this.executeActionWithCoords(step, cached.x, cached.y);
+    execution.action_result = actionResult;
+    execution.success = actionResult.success;
+    this.recordAction(step, visionResult, actionResult.success);
+
+    if (!actionResult.success) {
+      this.log('warn', `Coordinate in cache non valide, passo alla triple verification`);
+      await this.actionCache.recordFailure(lookup);
+      return false;
+    }
+
+    this.log('success', `Azione completata: ${step.action_type}`);
+    await this.actionCache.recordSuccess(lookup, cached.x, cached.y, cached.coordinate_system, cached.dom_fingerprint ?? null, true);
+    this.learnProcedureStep(step, { x: cached.x, y: cached.y, source: 'cache' }, null, await this.getPageUrl(), accessible);
+    return true;
+  }
+
+  // ============================================================
+  // ASSERTIONS: DOM + URL state, no vision
+  // ============================================================
+  // Assert steps and the plan's success_assertions decide whether the
+  // goal was reached: a plan whose actions all ran but whose
+  // assertions fail ends as 'failed'.
+  // ============================================================
+
+  /**
+   * Check one assertion through the Tool Server verify endpoints.
+   * stepNumber is null for the final success_assertions.
+   */
+  private async evaluateAssertion(assertion: PlanAssertion, stepNumber: number | null): Promise<AssertionResult> {
+    let result: AssertionResult;
+    try {
+      const response = await this.callVerifyEndpoint(assertion);
+      const passed = response.success && response.passed;
+      result = {
+        assertion,
+        step_number: stepNumber,
+        passed,
+        details: response.details,
+        error: passed ? undefined : response.error || `Asserzione non soddisfatta: ${this.describeAssertion(assertion)}`,
+      };
+    } catch (error) {
+      result = {
+        assertion,
+        step_number: stepNumber,
+        passed: false,
+        error: error instanceof Error ? error.message : 'Unknown',
+      };
+    }
+
+    this.state.assertions.push(result);
+    this.logManager.logAssertion(result);
+    this.log(result.passed ? 'success' : 'error',
+      `${result.passed ? '✓' : '✗'} Asserzione: ${this.describeAssertion(result.assertion)}`);
+    return result;
+  }
+
+  private async callVerifyEndpoint(
+    assertion: PlanAssertion
+  ): Promise<{ success: boolean; passed: boolean; details?: Record<string, unknown>; error?: string }> {
+    const sessionId = this.state.session_id;
+    if (!sessionId) {
+      return { success: false, passed: false, error: 'No browser session' };
+    }
+
+    switch (assertion.type) {
+      case 'element_visible':
+        return toolServerClient.verifyElementVisible({
+          session_id: sessionId,
+          selector: assertion.selector,
+          ref: assertion.ref,
+          text: assertion.text,
+          timeout: assertion.timeout_ms,
+        });
+      case 'text_visible':
+        return toolServerClient.verifyTextVisible({
+          session_id: sessionId,
+          text: assertion.text,
+          exact: assertion.exact,
+          timeout: assertion.timeout_ms,
+        });
+      case 'url':
+        return toolServerClient.verifyUrl({
+          session_id: sessionId,
+          url: assertion.equals,
+          url_contains: assertion.contains,
+          url_regex: assertion.matches,
+        });
+      case 'title':
+        return toolServerClient.verifyTitle({
+          session_id: sessionId,
+          title: assertion.equals,
+          title_contains: assertion.contains,
+        });
+      default:
+        return { success: false, passed: false, error: `Unknown assertion type: ${(assertion as { type: string }).type}` };
+    }
+  }
+
+  private describeAssertion(assertion: PlanAssertion): string {
+    switch (assertion.type) {
+      case 'element_visible':
+        return `elemento visibile ${assertion.selector || assertion.ref || `"${assertion.text}"`}`;
+      case 'text_visible':
+        return `testo visibile "${assertion.text}"`;
+      case 'url':
+        return assertion.equals ? `URL = ${assertion.equals}`
+          : assertion.contains ? `URL contiene "${assertion.contains}"`
+          : `URL corrisponde a /${assertion.matches}/`;
+      case 'title':
+        return assertion.equals ? `titolo = "${assertion.equals}"` : `titolo contiene "${assertion.contains}"`;
+      default:
+        return 'asserzione sconosciuta';
+    }
+  }
+
+  /**
+   * Evaluate the plan's success_assertions (all of them, for a complete log).
+   * Throws when one fails, so the execution ends as 'failed'.
+   */
+  private async checkSuccessAssertions(): Promise<void> {
+    const assertions = this.state.plan?.success_assertions ?? [];
+    if (assertions.length === 0) {
+      if (!this.state.plan?.steps.some(step => step.action_type === 'assert')) {
+        this.log('info', 'Nessuna asserzione nel piano: completamento non verificato');
+      }
+      return;
+    }
+
+    this.log('info', `Verifica criteri di successo: ${assertions.length} asserzioni`);
+    const results: AssertionResult[] = [];
+    for (const assertion of assertions) {
+      this.checkAbort();
+      results.push(await this.evaluateAssertion(assertion, null));
+    }
+
+    const failed = results.filter(result => !result.passed);
+    if (failed.length > 0) {
+      throw new Error(`Success criteria not met: ${failed.map(result => this.describeAssertion(result.assertion)).join('; ')}`);
+    }
+  }
+
   // ============================================================
   // TRIPLE VERIFICATION: DOM + Lux + Gemini
   // ============================================================
@@ -1181,22 +1419,25 @@ Rispondi SOLO con JSON: {"x": numero, "y": numero, "confidence": 0.0-1.0, "reaso
 
   /**
    * Learn a procedure step from a successful action execution.
-   * Called when in 'learning' mode after each successful step.
+   * Called after each successful step: the steps are saved as a procedure
+   * in 'learning' mode and are the recorded session for the Playwright export.
    */
   private learnProcedureStep(
     step: PlanStep,
-    coords: { x: number; y: number; source: string },
-    tripleResult: TripleVerificationResult
+    coords: { x: number; y: number; source: string } | null,
+    tripleResult: TripleVerificationResult | null,
+    urlAfter: string | null,
+    accessible: { ref: string; role: string; name: string } | null = null
   ): void {
-    // Determine which sources verified this step
+    // Determine which sources verified this step (none for navigate/wait)
     const verifiedBy: ('dom' | 'lux' | 'gemini')[] = [];
-    if (tripleResult.dom?.found && tripleResult.dom.visible) {
+    if (tripleResult?.dom?.found && tripleResult.dom.visible) {
       verifiedBy.push('dom');
     }
-    if (tripleResult.lux.found) {
+    if (tripleResult?.lux.found) {
       verifiedBy.push('lux');
     }
-    if (tripleResult.gemini.found) {
+    if (tripleResult?.gemini.found) {
       verifiedBy.push('gemini');
     }
 
@@ -1206,17 +1447,32 @@ Rispondi SOLO con JSON: {"x": numero, "y": numero, "confidence": 0.0-1.0, "reaso
 
       // Locators
       selector: step.dom_selector,
-      coordinates: { x: coords.x, y: coords.y },
+      ref: accessible?.ref,
+      role: accessible?.role,
+      role_name: accessible?.name,
+      coordinates: coords ? { x: coords.x, y: coords.y } : undefined,
 
       // Action-specific data
       text: step.action_type === 'type' ? step.input_value : undefined,
       key: step.action_type === 'keypress' ? step.input_value : undefined,
       url: step.action_type === 'navigate' ? step.input_value : undefined,
+      assertion: step.action_type === 'assert' ? step.assertion : undefined,
+      // Same direction/amount as executeActionWithCoords; wait duration in ms
+      direction: step.action_type === 'scroll'
+        ? (step.target_description.toLowerCase().includes('up') ? 'up' : 'down')
+        : undefined,
+      amount: step.action_type === 'scroll'
+        ? 300
+        : step.action_type === 'wait' ? parseInt(step.input_value || '1000') : undefined,
+
+      // Verification on replay
+      url_after: urlAfter ? this.extractUrlPattern(urlAfter) : undefined,
+      expected_outcome: step.expected_outcome,
 
       // Learning metadata
       fallback_description: step.fallback_description,
       verified_by: verifiedBy,
-      confidence: tripleResult.verification.confidence,
+      confidence: tripleResult ? tripleResult.verification.confidence : 1,
       learned_at: new Date().toISOString(),
     };
 
@@ -1246,14 +1502,19 @@ Rispondi SOLO con JSON: {"x": numero, "y": numero, "confidence": 0.0-1.0, "reaso
       steps: [...this.learnedSteps],
       goal: plan.goal,
       success_criteria: plan.success_criteria,
+      success_assertions: plan.success_assertions ?? [],
     };
 
     try {
+      // Owned by the current user: RLS only lets owners read procedures back for replay
+      const { data: { user } } = await supabase.auth.getUser();
+
       // Save to Supabase
       const { data, error } = await supabase
         .from('saved_procedures')
         .insert({
           id: procedure.id,
+          user_id: user?.id ?? null,
           name: procedure.name,
           description: procedure.description,
           learned_at: procedure.learned_at,
@@ -1264,6 +1525,7 @@ Rispondi SOLO con JSON: {"x": numero, "y": numero, "confidence": 0.0-1.0, "reaso
           steps: JSON.parse(JSON.stringify(procedure.steps)),
           goal: procedure.goal,
           success_criteria: procedure.success_criteria,
+          success_assertions: JSON.parse(JSON.stringify(procedure.success_assertions)),
         } as any)
         .select()
         .single();
@@ -1306,6 +1568,482 @@ Rispondi SOLO con JSON: {"x": numero, "y": numero, "confidence": 0.0-1.0, "reaso
     }
   }
 
+  // ============================================================
+  // PROCEDURE REPLAY
+  // ============================================================
+  // Replays the steps of a SavedProcedure without any planner call.
+  // Each target is located DOM-first: selector → ref → vision (Lux +
+  // Gemini) → learned coordinates. Every step is verified (action
+  // result + page URL learned for the step). When selector/ref are
+  // broken but vision finds the target, the step repairs itself and
+  // the procedure is saved back with the new locators.
+  // ============================================================
+
+  /**
+   * Replay a saved procedure on the current (or a new) browser session.
+   */
+  async replayProcedure(
+    procedure: SavedProcedure,
+    options?: { sessionId?: string; startUrl?: string }
+  ): Promise<OrchestratorState> {
+    return this.executePlanFromCloud(this.procedureToPlan(procedure), { ...options, procedureId: procedure.id });
+  }
+
+  /**
+   * Find the procedure to replay: by id, or the most reliable procedure
+   * learned for the same goal whose url_pattern matches the page.
+   */
+  async findProcedure(options: {
+    procedureId?: string;
+    goal?: string;
+    url?: string | null;
+  }): Promise<SavedProcedure | null> {
+    if (options.procedureId) {
+      const { data, error } = await supabase
+        .from('saved_procedures')
+        .select('*')
+        .eq('id', options.procedureId)
+        .maybeSingle();
+      if (error || !data) {
+        this.log('warn', `Procedure ${options.procedureId} not found`);
+        return null;
+      }
+      return this.toSavedProcedure(data);
+    }
+
+    if (!options.goal || !options.url) return null;
+    const url = options.url;
+
+    const { data, error } = await supabase
+      .from('saved_procedures')
+      .select('*')
+      .eq('name', this.generateProcedureName(options.goal));
+    if (error || !data) return null;
+
+    const rate = (p: SavedProcedure) => (p.success_count + 1) / (p.success_count + p.fail_count + 2);
+    const candidates = data
+      .map(row => this.toSavedProcedure(row))
+      .filter(p => p.steps.length > 0 && this.matchesUrlPattern(url, p.url_pattern))
+      .sort((a, b) => rate(b) - rate(a));
+
+    if (candidates.length === 0) {
+      this.log('info', `No saved procedure for ${this.extractUrlPattern(url)}, executing plan`);
+      return null;
+    }
+    return candidates[0];
+  }
+
+  /**
+   * Result of the last replay (null if the last run executed a plan)
+   */
+  getLastReplay(): ProcedureReplayResult | null {
+    return this.lastReplay;
+  }
+
+  private async replayProcedureSteps(procedure: SavedProcedure): Promise<void> {
+    this.updateStatus('executing');
+    this.log('success', `Replay procedura "${procedure.name}": ${procedure.steps.length} step, nessuna chiamata al planner`);
+
+    // Working copy: repaired locators are written back at the end
+    const steps = procedure.steps.map(step => ({ ...step }));
+    const result: ProcedureReplayResult = {
+      procedure_id: procedure.id,
+      success: false,
+      steps: [],
+      repaired_steps: 0,
+    };
+    this.lastReplay = result;
+    let stepsChanged = false;
+
+    try {
+      for (let i = 0; i < steps.length; i++) {
+        this.checkAbort();
+
+        const planStep = this.state.plan!.steps[i];
+        this.state.current_step_index = i;
+        this.callbacks.onStepStart?.(planStep, i);
+        this.log('info', `Replay step ${i + 1}/${steps.length}: ${steps[i].action} - ${steps[i].description}`);
+
+        const { replay, execution, changed } = await this.replayStep(steps[i], i, planStep);
+        result.steps.push(replay);
+        this.state.executed_steps.push(execution);
+        this.callbacks.onStepComplete?.(execution, i);
+        stepsChanged = stepsChanged || changed;
+        if (replay.repaired) result.repaired_steps++;
+
+        if (!execution.success) {
+          throw new Error(`Step ${i + 1} failed: ${replay.error || 'Unknown'}`);
+        }
+        this.notifyStateChange();
+      }
+      await this.checkSuccessAssertions();
+      result.success = true;
+      this.replayedSteps = steps;
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    // Aborted runs say nothing about the procedure
+    if (this.state.status !== 'aborted') {
+      await this.recordReplayOutcome(procedure, steps, result.success, stepsChanged);
+    }
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    this.log('success', `Replay completato${result.repaired_steps > 0 ? `, ${result.repaired_steps} step riparati` : ''}`);
+  }
+
+  private async replayStep(
+    step: ProcedureStep,
+    index: number,
+    planStep: PlanStep
+  ): Promise<{ replay: ProcedureStepReplay; execution: StepExecution; changed: boolean }> {
+    const startTime = Date.now();
+    const replay: ProcedureStepReplay = {
+      index,
+      action: step.action,
+      description: step.description,
+      located_by: null,
+      success: false,
+      verified: false,
+      repaired: false,
+      duration_ms: 0,
+    };
+    const execution: StepExecution = {
+      step: planStep,
+      vision_result: null,
+      action_result: null,
+      success: false,
+      retries: 0,
+      used_fallback: false,
+      duration_ms: 0,
+    };
+    let changed = false;
+
+    try {
+      let located: Awaited<ReturnType<Orchestrator['locateProcedureTarget']>> = null;
+      let actionResult: { success: boolean; error?: string };
+
+      if (step.action === 'click' || step.action === 'type') {
+        located = await this.locateProcedureTarget(step);
+        if (!located) {
+          throw new Error(`Target non trovato: ${step.description}`);
+        }
+        replay.located_by = located.locator;
+        execution.used_fallback = located.locator !== 'selector';
+        execution.vision_result = {
+          found: true,
+          x: located.x,
+          y: located.y,
+          confidence: located.confidence,
+          coordinate_system: 'viewport',
+          reasoning: `Replay: located by ${located.locator}`,
+        };
+        actionResult = await this.executeActionWithCoords(planStep, located.x, located.y);
+        this.recordAction(planStep, execution.vision_result, actionResult.success);
+      } else {
+        actionResult = await this.executeUntargetedProcedureStep(step, index + 1);
+      }
+
+      execution.action_result = actionResult;
+      replay.success = actionResult.success;
+      if (!actionResult.success) {
+        replay.error = actionResult.error || 'Action failed';
+      } else {
+        const verification = await this.verifyProcedureStep(step);
+        replay.verified = verification.verified;
+        if (!verification.verified) replay.error = verification.reason;
+      }
+
+      // Only verified steps may rewrite locators
+      if (replay.verified && located) {
+        changed = await this.healProcedureStep(step, located);
+        replay.repaired = changed && located.locator === 'vision';
+      }
+    } catch (error) {
+      replay.error = error instanceof Error ? error.message : 'Unknown';
+      execution.action_result = { success: false, error: replay.error };
+    }
+
+    execution.success = replay.success && replay.verified;
+    replay.duration_ms = Date.now() - startTime;
+    execution.duration_ms = replay.duration_ms;
+    return { replay, execution, changed };
+  }
+
+  private async locateProcedureTarget(
+    step: ProcedureStep
+  ): Promise<{ locator: ProcedureLocator; x: number; y: number; confidence: number; broken: ProcedureLocator[] } | null> {
+    const broken: ProcedureLocator[] = [];
+
+    // 1. DOM selector
+    if (step.selector) {
+      const rect = await this.getDomElementRect(step.selector);
+      if (rect?.visible) {
+        return { locator: 'selector', x: rect.x, y: rect.y, confidence: 1, broken };
+      }
+      this.log('warn', `Selector non più valido: ${step.selector}`);
+      broken.push('selector');
+    }
+
+    // 2. Accessibility ref
+    if (step.ref && this.state.session_id) {
+      try {
+        const rect = await toolServerClient.getElementRect({ session_id: this.state.session_id, ref: step.ref });
+        if (rect.success && rect.found && rect.visible && rect.x !== undefined && rect.y !== undefined) {
+          return { locator: 'ref', x: rect.x, y: rect.y, confidence: 0.9, broken };
+        }
+      } catch {
+        // treated as a broken ref
+      }
+      this.log('warn', `Ref non più valido: ${step.ref}`);
+      broken.push('ref');
+    }
+
+    // 3. Vision (Lux + Gemini), then with the fallback description
+    const descriptions = [step.description, step.fallback_description].filter((d): d is string => !!d);
+    for (const description of descriptions) {
+      const screenshot = await this.takeScreenshot();
+      if (!screenshot) break;
+
+      const [lux, gemini] = await Promise.all([
+        this.callLuxVision(screenshot, description),
+        this.callGeminiVision(screenshot, description, step.expected_outcome),
+      ]);
+      const analysis = this.analyzeTriplePattern(null, lux, gemini);
+      const decision = this.makeTripleDecision(analysis, null, lux, gemini);
+      if (decision.proceed && decision.coordinates && decision.confidence >= this.config.confidenceThreshold) {
+        this.log('info', `Target trovato dalla vision (${analysis.type}): (${decision.coordinates.x}, ${decision.coordinates.y})`);
+        return { locator: 'vision', x: decision.coordinates.x, y: decision.coordinates.y, confidence: decision.confidence, broken };
+      }
+    }
+
+    // 4. Learned coordinates, blind
+    if (step.coordinates) {
+      this.log('warn', `Uso le coordinate apprese (${step.coordinates.x}, ${step.coordinates.y}) per: ${step.description}`);
+      return { locator: 'coordinates', x: step.coordinates.x, y: step.coordinates.y, confidence: 0.3, broken };
+    }
+    return null;
+  }
+
+  private async executeUntargetedProcedureStep(
+    step: ProcedureStep,
+    stepNumber: number
+  ): Promise<{ success: boolean; error?: string }> {
+    const sessionId = this.state.session_id!;
+    try {
+      switch (step.action) {
+        case 'navigate':
+          if (!step.url) return { success: false, error: 'Navigate step without url' };
+          return await toolServerClient.browserNavigate(sessionId, step.url);
+
+        case 'wait':
+          await this.sleep(step.amount ?? 1000);
+          return { success: true };
+
+        case 'scroll':
+          return await toolServerClient.scroll({
+            scope: 'browser',
+            session_id: sessionId,
+            direction: step.direction === 'up' ? 'up' : 'down',
+            amount: step.amount ?? 300,
+          });
+
+        case 'keypress':
+          return await toolServerClient.keypress({
+            scope: 'browser',
+            session_id: sessionId,
+            keys: step.key || 'Enter',
+          });
+
+        case 'assert': {
+          if (!step.assertion) return { success: false, error: 'Assert step without assertion' };
+          const result = await this.evaluateAssertion(step.assertion, stepNumber);
+          return { success: result.passed, error: result.error };
+        }
+
+        default:
+          return { success: false, error: `Unsupported replay action: ${step.action}` };
+      }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown' };
+    }
+  }
+
+  /**
+   * A step is verified when the page is where it was after the same step during learning.
+   */
+  private async verifyProcedureStep(step: ProcedureStep): Promise<{ verified: boolean; reason?: string }> {
+    if (!step.url_after) return { verified: true };
+
+    await this.sleep(500); // Let navigations triggered by the action settle
+    const url = await this.getPageUrl();
+    if (url && this.extractUrlPattern(url) !== step.url_after) {
+      return { verified: false, reason: `Pagina inattesa dopo lo step: ${url} (attesa ${step.url_after})` };
+    }
+    return { verified: true };
+  }
+
+  /**
+   * Update the locators of a verified step. Returns true when the step changed.
+   */
+  private async healProcedureStep(
+    step: ProcedureStep,
+    located: { locator: ProcedureLocator; x: number; y: number; broken: ProcedureLocator[] }
+  ): Promise<boolean> {
+    const point = { x: located.x, y: located.y };
+
+    if (located.locator === 'vision') {
+      // Broken DOM locators are replaced by a ref found near the target, if any
+      if (located.broken.includes('selector')) step.selector = undefined;
+      const accessible = await this.findAccessibleTargetNear(step.description, point);
+      step.ref = accessible?.ref ?? (located.broken.includes('ref') ? undefined : step.ref);
+      if (accessible) {
+        step.role = accessible.role;
+        step.role_name = accessible.name;
+      }
+      step.coordinates = point;
+      step.repaired_at = new Date().toISOString();
+      step.repair_count = (step.repair_count ?? 0) + 1;
+      this.log('success', `🔧 Step riparato: ${step.description}${accessible ? ` (nuovo ref ${accessible.ref})` : ''}`);
+      return true;
+    }
+
+    // Layout moved: keep the coordinate fallback in sync with the DOM
+    if ((located.locator === 'selector' || located.locator === 'ref') &&
+        (!step.coordinates || distance(step.coordinates, point) > 50)) {
+      step.coordinates = point;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Look for an accessibility ref whose name appears in the step description
+   * and whose element sits where vision found the target.
+   */
+  private async findAccessibleTargetNear(
+    description: string,
+    point: { x: number; y: number }
+  ): Promise<{ ref: string; role: string; name: string } | null> {
+    if (!this.state.session_id) return null;
+    try {
+      const { success, snapshot } = await toolServerClient.getSnapshot(this.state.session_id);
+      if (!success || !snapshot) return null;
+
+      const needle = description.toLowerCase();
+      // Snapshot lines look like: - button 'Submit' [ref=e3]
+      const candidates = [...snapshot.matchAll(/-\s*([\w-]+)\s+["'](.+?)["'][^\n]*?\[ref=([\w-]+)\]/g)]
+        .filter(match => match[2].trim().length > 1 && needle.includes(match[2].trim().toLowerCase()))
+        .slice(0, 5);
+
+      for (const [, role, name, ref] of candidates) {
+        const rect = await toolServerClient.getElementRect({ session_id: this.state.session_id, ref });
+        if (rect.found && rect.visible && rect.x !== undefined && rect.y !== undefined &&
+            distance({ x: rect.x, y: rect.y }, point) < 50) {
+          return { ref, role, name: name.trim() };
+        }
+      }
+    } catch {
+      // No ref: the vision-learned coordinates remain the fallback
+    }
+    return null;
+  }
+
+  private async recordReplayOutcome(
+    procedure: SavedProcedure,
+    steps: ProcedureStep[],
+    success: boolean,
+    stepsChanged: boolean
+  ): Promise<void> {
+    const { error: statsError } = await supabase.rpc('update_procedure_stats', {
+      p_procedure_id: procedure.id,
+      p_success: success,
+    });
+    if (statsError) {
+      this.log('warn', `Failed to update procedure stats: ${statsError.message}`);
+    }
+
+    if (stepsChanged) {
+      const { error } = await supabase
+        .from('saved_procedures')
+        .update({ steps: JSON.parse(JSON.stringify(steps)) })
+        .eq('id', procedure.id);
+      if (error) {
+        this.log('warn', `Failed to save repaired procedure: ${error.message}`);
+      } else {
+        this.log('success', `Procedura aggiornata con i nuovi locator: ${procedure.name}`);
+      }
+    }
+  }
+
+  private procedureToPlan(procedure: SavedProcedure): Plan {
+    return {
+      analysis: `Replay della procedura salvata "${procedure.name}"`,
+      goal: procedure.goal,
+      success_criteria: procedure.success_criteria,
+      success_assertions: procedure.success_assertions,
+      steps: procedure.steps.map((step, index) => ({
+        step_number: index + 1,
+        action_type: step.action,
+        target_description: step.description,
+        dom_selector: step.selector,
+        input_value: step.action === 'type' ? step.text
+          : step.action === 'keypress' ? step.key
+          : step.action === 'navigate' ? step.url
+          : step.action === 'wait' ? String(step.amount ?? 1000)
+          : undefined,
+        assertion: step.assertion,
+        fallback_description: step.fallback_description,
+        expected_outcome: step.expected_outcome,
+      })),
+    };
+  }
+
+  private toSavedProcedure(row: Tables<'saved_procedures'>): SavedProcedure {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description ?? undefined,
+      learned_at: row.learned_at,
+      url_pattern: row.url_pattern,
+      success_count: row.success_count,
+      fail_count: row.fail_count,
+      last_success: row.last_success ?? undefined,
+      last_fail: row.last_fail ?? undefined,
+      steps: Array.isArray(row.steps) ? (row.steps as unknown as ProcedureStep[]) : [],
+      goal: row.goal,
+      success_criteria: row.success_criteria ?? '',
+      success_assertions: Array.isArray(row.success_assertions)
+        ? (row.success_assertions as unknown as PlanAssertion[])
+        : [],
+      user_id: row.user_id ?? undefined,
+      project_id: row.project_id ?? undefined,
+    };
+  }
+
+  /**
+   * url_pattern is saved as origin + path (extractUrlPattern); patterns edited by hand may be regexes.
+   */
+  private matchesUrlPattern(url: string, pattern: string): boolean {
+    if (this.extractUrlPattern(url) === pattern || url.startsWith(pattern)) return true;
+    try {
+      return new RegExp(pattern).test(url);
+    } catch {
+      return false;
+    }
+  }
+
+  private async getPageUrl(): Promise<string | null> {
+    if (!this.state.session_id) return null;
+    try {
+      const result = await toolServerClient.getCurrentUrl(this.state.session_id);
+      return result.success ? result.url : null;
+    } catch {
+      return null;
+    }
+  }
+
   // ============================================================
   // PUBLIC API: Execution Mode Control
   // ============================================================
@@ -1338,6 +2076,25 @@ Rispondi SOLO con JSON: {"x": numero, "y": numero, "confidence": 0.0-1.0, "reaso
   getLearnedSteps(): ProcedureStep[] {
     return [...this.learnedSteps];
   }
+
+  /**
+   * Steps of the last run for the Playwright export (null unless the run completed)
+   */
+  getRecordedSession(): RecordedSession | null {
+    if (this.state.status !== 'completed' || !this.state.plan) return null;
+
+    const steps = this.replayedSteps ?? this.learnedSteps;
+    if (steps.length === 0) return null;
+
+    return {
+      title: this.state.plan.goal || this.state.task,
+      start_url: this.startUrl,
+      steps: steps.map(step => ({ ...step })),
+      success_assertions: this.state.plan.success_assertions ?? [],
+      procedure_id: this.replayedSteps ? this.lastReplay?.procedure_id : undefined,
+      execution_log: this.logManager.getCurrentLog(),
+    };
+  }
 }
 
 // Factory function
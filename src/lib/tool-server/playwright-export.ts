@@ -0,0 +1,315 @@
+// ============================================================
+// PLAYWRIGHT EXPORT - Recorded browser sessions as Playwright tests
+// ============================================================
+// Turns the steps recorded by a successful Orchestrator run (or a
+// SavedProcedure) into a standalone Playwright test in TypeScript.
+// Locators are chosen DOM-first: test_id → role + name → CSS
+// selector; learned coordinates are only used when no DOM locator
+// was recorded and are flagged in the generated code.
+// Text typed into password-like fields is never written to the file:
+// it becomes a process.env placeholder listed in the header.
+// ============================================================
+
+import { VIEWPORT } from './constants';
+import type { ExecutionLog } from './orchestrator-logging';
+import type { PlanAssertion, ProcedureStep, SavedProcedure } from './orchestrator-types';
+
+export interface RecordedSession {
+  title: string;                      // Test title (the plan goal)
+  start_url: string | null;
+  steps: ProcedureStep[];
+  success_assertions: PlanAssertion[];
+  procedure_id?: string;
+  execution_log?: ExecutionLog | null;
+}
+
+export type PlaywrightLocatorKind = 'test_id' | 'role' | 'selector' | 'coordinates';
+
+/**
+ * Recorded session of a saved procedure (url_pattern is the first page when it is a plain URL)
+ */
+export function recordedSessionFromProcedure(procedure: SavedProcedure, startUrl?: string): RecordedSession {
+  return {
+    title: procedure.description || procedure.goal || procedure.name,
+    start_url: startUrl ?? (/^https?:\/\/[^\s*()[\]]+$/.test(procedure.url_pattern) ? procedure.url_pattern : null),
+    steps: procedure.steps,
+    success_assertions: procedure.success_assertions ?? [],
+    procedure_id: procedure.id,
+  };
+}
+
+/**
+ * Generate the Playwright test file for a recorded session
+ */
+export function toPlaywrightTest(session: RecordedSession): string {
+  const body: string[] = [];
+  const used: Record<PlaywrightLocatorKind, number> = { test_id: 0, role: 0, selector: 0, coordinates: 0 };
+  const secrets = secretVariables(session.steps);
+  let currentPage = session.start_url ? urlPattern(session.start_url) : null;
+
+  if (session.start_url) {
+    body.push(`await page.goto(${quote(session.start_url)});`);
+  }
+
+  session.steps.forEach((step, index) => {
+    body.push('');
+    body.push(`// ${index + 1}. ${step.action}: ${oneLine(step.description)}`);
+
+    const { lines, locator } = stepToCode(step, secrets.byStep.get(step));
+    body.push(...lines);
+    if (locator) used[locator]++;
+
+    // Navigation caused by the step, as observed while recording
+    if (step.url_after && step.url_after !== currentPage) {
+      const check = urlCheck(step.url_after);
+      if (check) body.push(`await expect(page).toHaveURL(${check});`);
+      currentPage = step.url_after;
+    }
+  });
+
+  if (session.success_assertions.length > 0) {
+    body.push('');
+    body.push('// Criteri di successo');
+    session.success_assertions.forEach(assertion => body.push(...assertionToCode(assertion)));
+  }
+
+  const header = [
+    `// Test generato dal browser orchestrator il ${new Date().toISOString()}`,
+    session.execution_log ? `// Esecuzione: ${session.execution_log.execution_id}` : null,
+    session.procedure_id ? `// Procedura: ${session.procedure_id}` : null,
+    `// Locator: ${used.test_id} test_id, ${used.role} role, ${used.selector} selector, ${used.coordinates} coordinate`,
+    used.coordinates > 0
+      ? '// ⚠️ Gli step con coordinate dipendono da layout e viewport: sostituirli con un locator DOM appena possibile'
+      : null,
+    secrets.variables.length > 0 ? '// Variabili d\'ambiente richieste (valori non registrati nel file):' : null,
+    ...secrets.variables.map(variable => `//   ${variable.name}: ${oneLine(variable.target)}`),
+  ].filter((line): line is string => line !== null);
+
+  return [
+    `import { test, expect } from '@playwright/test';`,
+    '',
+    ...header,
+    '',
+    `test.use({ viewport: { width: ${VIEWPORT.WIDTH}, height: ${VIEWPORT.HEIGHT} } });`,
+    '',
+    `test(${quote(session.title || 'Sessione registrata')}, async ({ page }) => {`,
+    ...body.map(line => (line ? `  ${line}` : '')),
+    '});',
+    '',
+  ].join('\n');
+}
+
+/**
+ * File name for the generated test, e.g. accedere-al-gestionale.spec.ts
+ */
+export function playwrightFileName(title: string): string {
+  const slug = title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+  return `${slug || 'recorded-session'}.spec.ts`;
+}
+
+/**
+ * Download the generated test from the browser. Returns the file name.
+ */
+export function downloadPlaywrightTest(session: RecordedSession): string {
+  const fileName = playwrightFileName(session.title);
+  const blob = new Blob([toPlaywrightTest(session)], { type: 'text/typescript' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+  return fileName;
+}
+
+// ============================================================
+// CODE GENERATION
+// ============================================================
+
+/**
+ * secretVariable: env var holding the text of a password-like type step
+ */
+function stepToCode(step: ProcedureStep, secretVariable?: string): { lines: string[]; locator: PlaywrightLocatorKind | null } {
+  const value = secretVariable ? `process.env.${secretVariable}!` : quote(step.text ?? '');
+
+  switch (step.action) {
+    case 'navigate':
+      return { lines: step.url ? [`await page.goto(${quote(step.url)});`] : ['// ⚠️ navigate senza URL registrato'], locator: null };
+
+    case 'wait':
+      return { lines: [`await page.waitForTimeout(${step.amount ?? 1000});`], locator: null };
+
+    case 'scroll':
+      return { lines: [`await page.mouse.wheel(0, ${step.direction === 'up' ? -(step.amount ?? 300) : step.amount ?? 300});`], locator: null };
+
+    case 'keypress':
+      return { lines: [`await page.keyboard.press(${quote(playwrightKey(step.key || 'Enter'))});`], locator: null };
+
+    case 'assert':
+      return { lines: step.assertion ? assertionToCode(step.assertion) : ['// ⚠️ assert senza asserzione registrata'], locator: null };
+
+    case 'click':
+    case 'type': {
+      const target = locatorFor(step);
+      if (!target) {
+        return { lines: [`// ⚠️ Nessun locator registrato per: ${oneLine(step.description)}`], locator: null };
+      }
+      if (target.kind === 'coordinates') {
+        const lines = [`await page.mouse.click(${target.code}); // ⚠️ coordinate: nessun locator DOM registrato`];
+        if (step.action === 'type') lines.push(`await page.keyboard.type(${value});`);
+        return { lines, locator: 'coordinates' };
+      }
+      return {
+        lines: [step.action === 'type' ? `await ${target.code}.fill(${value});` : `await ${target.code}.click();`],
+        locator: target.kind,
+      };
+    }
+
+    default:
+      return { lines: [`// ⚠️ Azione non supportata: ${step.action}`], locator: null };
+  }
+}
+
+/**
+ * test_id → role + name → CSS selector → learned coordinates
+ */
+function locatorFor(step: ProcedureStep): { kind: PlaywrightLocatorKind; code: string } | null {
+  const testId = step.selector?.match(/^\[data-testid=(["']?)(.+?)\1\]$/);
+  if (testId) {
+    return { kind: 'test_id', code: `page.getByTestId(${quote(testId[2])})` };
+  }
+  if (step.role && step.role_name) {
+    return { kind: 'role', code: `page.getByRole(${quote(step.role)}, { name: ${quote(step.role_name)}, exact: true })` };
+  }
+  if (step.selector) {
+    return { kind: 'selector', code: `page.locator(${quote(step.selector)})` };
+  }
+  if (step.coordinates) {
+    return { kind: 'coordinates', code: `${Math.round(step.coordinates.x)}, ${Math.round(step.coordinates.y)}` };
+  }
+  return null;
+}
+
+function assertionToCode(assertion: PlanAssertion): string[] {
+  switch (assertion.type) {
+    case 'element_visible': {
+      const options = assertion.timeout_ms ? `{ timeout: ${assertion.timeout_ms} }` : '';
+      if (assertion.selector) return [`await expect(page.locator(${quote(assertion.selector)}).first()).toBeVisible(${options});`];
+      if (assertion.text) return [`await expect(page.getByText(${quote(assertion.text)}).first()).toBeVisible(${options});`];
+      return [`// ⚠️ Asserzione su ref ${assertion.ref ?? '?'} non esportabile (i ref valgono solo nella sessione registrata)`];
+    }
+    case 'text_visible': {
+      const options = assertion.timeout_ms ? `{ timeout: ${assertion.timeout_ms} }` : '';
+      const exact = assertion.exact ? ', { exact: true }' : '';
+      return [`await expect(page.getByText(${quote(assertion.text)}${exact}).first()).toBeVisible(${options});`];
+    }
+    case 'url':
+      if (assertion.equals) return [`await expect(page).toHaveURL(${quote(assertion.equals)});`];
+      if (assertion.contains) return [`await expect(page).toHaveURL(/${escapeRegExp(assertion.contains)}/);`];
+      if (assertion.matches) return [`await expect(page).toHaveURL(new RegExp(${quote(assertion.matches)}));`];
+      return ['// ⚠️ Asserzione URL senza valore'];
+    case 'title':
+      if (assertion.equals) return [`await expect(page).toHaveTitle(${quote(assertion.equals)});`];
+      if (assertion.contains) return [`await expect(page).toHaveTitle(/${escapeRegExp(assertion.contains)}/);`];
+      return ['// ⚠️ Asserzione titolo senza valore'];
+    default:
+      return ['// ⚠️ Asserzione non supportata'];
+  }
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+const SECRET_TARGET_PATTERN = /passw|passcode|passphrase|pwd|secret|segret|\bpin\b|\botp\b|token|api[-_ ]?key/i;
+
+/**
+ * Env var per password-like target (by selector, accessible name or description):
+ * E2E_PASSWORD, E2E_PASSWORD_2, ... one per distinct field
+ */
+function secretVariables(steps: ProcedureStep[]): {
+  byStep: Map<ProcedureStep, string>;
+  variables: { name: string; target: string }[];
+} {
+  const byStep = new Map<ProcedureStep, string>();
+  const byTarget = new Map<string, string>();
+  const variables: { name: string; target: string }[] = [];
+
+  for (const step of steps) {
+    if (step.action !== 'type') continue;
+    if (![step.selector, step.role_name, step.description].some(value => value && SECRET_TARGET_PATTERN.test(value))) continue;
+
+    const target = step.selector || step.role_name || step.description;
+    let name = byTarget.get(target);
+    if (!name) {
+      name = variables.length === 0 ? 'E2E_PASSWORD' : `E2E_PASSWORD_${variables.length + 1}`;
+      byTarget.set(target, name);
+      variables.push({ name, target: step.description || target });
+    }
+    byStep.set(step, name);
+  }
+
+  return { byStep, variables };
+}
+
+const PLAYWRIGHT_KEYS: Record<string, string> = {
+  ctrl: 'Control', control: 'Control', alt: 'Alt', shift: 'Shift', cmd: 'Meta', command: 'Meta', meta: 'Meta',
+  enter: 'Enter', return: 'Enter', tab: 'Tab', esc: 'Escape', escape: 'Escape', backspace: 'Backspace',
+  delete: 'Delete', space: ' ', up: 'ArrowUp', down: 'ArrowDown', left: 'ArrowLeft', right: 'ArrowRight',
+  home: 'Home', end: 'End', pageup: 'PageUp', pagedown: 'PageDown',
+};
+
+/**
+ * Tool Server key combos (ctrl+a, Enter) in Playwright notation (Control+a, Enter)
+ */
+function playwrightKey(keys: string): string {
+  return keys
+    .split('+')
+    .map(key => PLAYWRIGHT_KEYS[key.trim().toLowerCase()] ?? key.trim())
+    .join('+');
+}
+
+/**
+ * Same pattern as Orchestrator.extractUrlPattern (protocol + hostname + path)
+ */
+function urlPattern(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.protocol}//${parsed.hostname}${parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * URL check for a recorded url_after: any port, query or hash
+ */
+function urlCheck(pattern: string): string | null {
+  try {
+    const parsed = new URL(pattern);
+    return `/^${escapeRegExp(`${parsed.protocol}//${parsed.hostname}`)}(:\\d+)?${escapeRegExp(parsed.pathname)}([?#]|$)/`;
+  } catch {
+    return null;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\r?\n/g, '\\n')}'`;
+}
+
+function oneLine(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
@@ -10,9 +10,12 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
-import { ArrowLeft, PlayCircle, CheckCircle, XCircle, AlertCircle, Clock, Settings, RefreshCw, FileDown } from "lucide-react";
+import { ArrowLeft, PlayCircle, CheckCircle, XCircle, AlertCircle, Clock, Settings, RefreshCw, FileDown, GitCompare } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { toast } from "sonner";
+import { RetrievalEvalPanel } from "@/components/RetrievalEvalPanel";
+import { BenchmarkRunComparison } from "@/components/BenchmarkRunComparison";
 
 interface QAPair {
   question: {
@@ -36,6 +39,8 @@ interface BenchmarkResult {
   agentResponse?: string;
   correct?: boolean;
   reason?: string;
+  scorer?: string;
+  scores?: Json;
   responseTimeMs?: number;
   status: 'pending' | 'running' | 'completed' | 'missing' | 'not_ready' | 'error';
   error?: string;
@@ -102,6 +107,7 @@ export default function Benchmark() {
   const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
   const [isLoadingHistorical, setIsLoadingHistorical] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [showComparison, setShowComparison] = useState(false);
 
   useEffect(() => {
     const init = async () => {
@@ -245,6 +251,8 @@ export default function Benchmark() {
             agentResponse: dbResult.agent_response || undefined,
             correct: dbResult.correct || undefined,
             reason: dbResult.reason || undefined,
+            scorer: dbResult.scorer || undefined,
+            scores: dbResult.scores || undefined,
             responseTimeMs: dbResult.response_time_ms || undefined,
             status: dbResult.status === 'completed' ? 'completed' : 
                     dbResult.status === 'missing' ? 'missing' :
@@ -624,6 +632,15 @@ export default function Benchmark() {
             <PlayCircle className="h-4 w-4 md:h-5 md:w-5" />
             {isRunning ? 'In Corso...' : 'Avvia'}
           </Button>
+          <Button
+            variant="outline"
+            onClick={() => setShowComparison(true)}
+            size="sm"
+            className="gap-2"
+          >
+            <GitCompare className="h-4 w-4" />
+            <span className="hidden sm:inline">Confronta Run</span>
+          </Button>
           <Button
             variant="outline"
             onClick={handleExportPdf}
@@ -637,6 +654,19 @@ export default function Benchmark() {
         </div>
       </div>
 
+      {/* Run Comparison Dialog */}
+      <Dialog open={showComparison} onOpenChange={setShowComparison}>
+        <DialogContent className="sm:max-w-[1000px] max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Confronto Run</DialogTitle>
+            <DialogDescription>
+              Delta aggregati, differenze di configurazione e domande che cambiano esito tra due run
+            </DialogDescription>
+          </DialogHeader>
+          {showComparison && <BenchmarkRunComparison />}
+        </DialogContent>
+      </Dialog>
+
       {/* Provisioning Dialog */}
       <Dialog open={showProvisioning} onOpenChange={setShowProvisioning}>
         <DialogContent className="sm:max-w-[500px] max-h-[85vh] flex flex-col">
@@ -942,6 +972,9 @@ export default function Benchmark() {
         </div>
       )}
 
+      {/* Retrieval-only evaluation */}
+      <RetrievalEvalPanel suite={selectedSuite} />
+
       {/* Results Table - Responsive */}
       <Card>
         <CardHeader>
@@ -983,7 +1016,14 @@ export default function Benchmark() {
                         <span className="text-muted-foreground">-</span>
                       )}
                     </TableCell>
-                    <TableCell className="whitespace-nowrap">{getStatusBadge(result)}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {getStatusBadge(result)}
+                      {result.scorer && (
+                        <div className="text-[10px] text-muted-foreground mt-1" title={result.scores ? JSON.stringify(result.scores) : undefined}>
+                          {result.scorer}
+                        </div>
+                      )}
+                    </TableCell>
                     <TableCell className="text-xs md:text-sm whitespace-nowrap">
                       {result.responseTimeMs ? `${(result.responseTimeMs / 1000).toFixed(1)}s` : '-'}
                     </TableCell>
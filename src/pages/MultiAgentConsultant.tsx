@@ -1,19 +1,22 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { useAuth } from "@/hooks/useAuth";
 import { useTTS } from "@/contexts/TTSContext";
 import { useMultipleAgentsHealth } from "@/hooks/useMultipleAgentsHealth";
 import { toast } from "sonner";
 import { ChatMessage } from "@/components/ChatMessage";
+import type { PendingToolApproval, ToolApprovalDecision } from "@/components/ToolApprovalCard";
 import { ChatInput } from "@/components/ChatInput";
 import { AgentsSidebar } from "@/components/AgentsSidebar";
 import { GlobalAlerts } from "@/components/GlobalAlerts";
 import ExportSelectedMessagesPDF from "@/components/ExportSelectedMessagesPDF";
 import { CreateAgentModal } from "@/components/CreateAgentModal";
 import { ForwardMessageDialog } from "@/components/ForwardMessageDialog";
+import { AgentMemoryDialog } from "@/components/AgentMemoryDialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Loader2, Menu, Forward, X, Edit, ChevronsDown, ChevronsUp, Trash2, Database, AlertCircle, Monitor } from "lucide-react";
+import { Loader2, Menu, Forward, X, Edit, ChevronsDown, ChevronsUp, Trash2, Database, AlertCircle, Monitor, Brain } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { Sheet, SheetContent } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
@@ -30,7 +33,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 // Browser automation imports
-import { toolServerClient, sessionManager, Orchestrator, Plan, TOOL_SERVER_URL_CHANGED_EVENT } from "@/lib/tool-server";
+import { toolServerClient, sessionManager, Orchestrator, Plan, TOOL_SERVER_URL_CHANGED_EVENT, coordinateCache, CoordinateCacheStats, downloadPlaywrightTest } from "@/lib/tool-server";
 import { ToolServerSettings } from "@/components/ToolServerSettings";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ToolActivityPanel, ToolActivity, parseClawdbotMessage, isClawdbotMessage, extractClawdbotMessages } from "@/components/ToolActivityPanel";
@@ -60,6 +63,7 @@ interface Message {
   role: "user" | "assistant" | "system";
   content: string;
   llm_provider?: string;
+  metadata?: Json;
 }
 
 interface Conversation {
@@ -117,8 +121,10 @@ export default function MultiAgentConsultant() {
   // Tool Server connection status (ora include 'not_configured')
   const [toolServerStatus, setToolServerStatus] = useState<'connected' | 'disconnected' | 'not_configured' | 'checking'>('checking');
   const [showToolServerDialog, setShowToolServerDialog] = useState(false);
+  const [showMemoryDialog, setShowMemoryDialog] = useState(false);
   // Tool Activity Panel state (for Clawdbot messages)
   const [toolActivities, setToolActivities] = useState<ToolActivity[]>([]);
+  const [coordinateCacheStats, setCoordinateCacheStats] = useState<CoordinateCacheStats>(coordinateCache.getStats());
   const [showToolActivityPanel, setShowToolActivityPanel] = useState(true);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const scrollTimeoutRef = useRef<NodeJS.Timeout>();
@@ -131,6 +137,9 @@ export default function MultiAgentConsultant() {
   // Monitora la salute di tutti gli agenti per mostrare gli alert globali
   const agentHealth = useMultipleAgentsHealth(agents.map(a => a.id));
 
+  // 💾 Hit/miss della cache coordinate del browser orchestrator
+  useEffect(() => coordinateCache.subscribe(setCoordinateCacheStats), []);
+
   // 💾 Save current session to sessionStorage
   useEffect(() => {
     if (currentAgent) {
@@ -1071,9 +1080,25 @@ export default function MultiAgentConsultant() {
       // Execute the pre-generated plan
       const result = await orchestrator.executePlanFromCloud(plan, {
         sessionId: sessionManager.sessionId || undefined,
-        navigation: navigation,
+ navigation: navigation,
       });
 
+      // Successful runs can become a Playwright regression test
+      const recording = orchestrator.getRecordedSession();
+      if (recording) {
+        toast.success('Automazione completata', {
+          description: `${recording.steps.length} step registrati`,
+          duration: 15000,
+          action: {
+            label: 'Esporta Playwright',
+            onClick: () => {
+              const fileName = downloadPlaywrightTest(recording);
+              toast.info(`📄 ${fileName} scaricato`);
+            },
+          },
+        });
+      }
+
       return { 
         success: result.status === 'completed', 
         state: result,
@@ -1092,7 +1117,8 @@ export default function MultiAgentConsultant() {
     forcedTool?: string, 
     luxMode?: string,
     computerUseProvider?: 'lux' | 'gemini',
-    geminiOptions?: { headless?: boolean; highlightMouse?: boolean }
+    geminiOptions?: { headless?: boolean; highlightMouse?: boolean },
+    toolApproval?: ToolApprovalDecision
   ) => {
     // ✅ Guard anti-double-submit
     if (isSending) {
@@ -1166,10 +1192,11 @@ export default function MultiAgentConsultant() {
             "apikey": import.meta.env.VITE_SUPABASE_ANON_KEY,
           },
           body: JSON.stringify({
-            message: text,
+            message: toolApproval ? '' : text, // the decision itself becomes the user turn
             conversationId,
             agentSlug: agent.slug,
             attachments,
+            toolApproval,
             forcedTool,
             luxMode,
             computerUseProvider,
@@ -1429,6 +1456,15 @@ export default function MultiAgentConsultant() {
                         ...m, 
                         content: finalText, // ✅ Usa testo completo dalla ref
                         llm_provider: isComplete ? parsed.llmProvider : m.llm_provider,
+                        metadata: isComplete && (parsed.metadata?.citations?.length || parsed.metadata?.tool_approvals?.length || parsed.metadata?.task_graphs?.length || parsed.metadata?.context_manifest)
+                          ? {
+                              ...(m.metadata as Record<string, Json>),
+                              citations: parsed.metadata.citations,
+                              tool_approvals: parsed.metadata.tool_approvals,
+                              task_graphs: parsed.metadata.task_graphs,
+                              context_manifest: parsed.metadata.context_manifest,
+                            }
+                          : m.metadata,
                       } 
                     : m
                 )
@@ -1469,6 +1505,31 @@ export default function MultiAgentConsultant() {
             } else if (parsed.type === "error") {
               throw new Error(parsed.error || "Unknown error");
               
+            } else if (parsed.type === "tool_approval_required") {
+              // ⏸️ The tool was not executed: show the approval card right away
+              const approval = parsed.approval as PendingToolApproval;
+              console.log(`⏸️ Tool ${approval.tool_name} awaiting approval (${approval.approval_id})`);
+              setMessages((prev) =>
+                prev.map((m) => {
+                  if (m.id !== assistantId) return m;
+                  const current = (m.metadata as Record<string, Json> | undefined) || {};
+                  const approvals = Array.isArray(current.tool_approvals) ? current.tool_approvals : [];
+                  return { ...m, metadata: { ...current, tool_approvals: [...approvals, approval as unknown as Json] } };
+                })
+              );
+
+            } else if (parsed.type === "task_graph") {
+              // 🧩 Coordinator mode: each update carries the whole graph
+              const graph = parsed.graph as { id: string };
+              setMessages((prev) =>
+                prev.map((m) => {
+                  if (m.id !== assistantId) return m;
+                  const current = (m.metadata as Record<string, Json> | undefined) || {};
+                  const live = (current.task_graph_live as Record<string, Json> | undefined) || {};
+                  return { ...m, metadata: { ...current, task_graph_live: { ...live, [graph.id]: parsed.graph as Json } } };
+                })
+              );
+
             } else if (parsed.type === "tool_execute_locally") {
               // ============================================================
               // BROWSER AUTOMATION: Execute tool locally via ToolServer.exe
@@ -1803,6 +1864,18 @@ export default function MultiAgentConsultant() {
     setSelectedMessages([]);
   };
 
+  // 🔐 Approve / reject a held tool call: the decision is sent as a new turn and the agent resumes from it
+  const handleToolApprovalDecision = (decision: ToolApprovalDecision) => {
+    const approval = messages
+      .flatMap(m => ((m.metadata as { tool_approvals?: PendingToolApproval[] } | null | undefined)?.tool_approvals || []))
+      .find(a => a.approval_id === decision.approvalId);
+    const toolName = approval?.tool_name || "tool";
+    const label = decision.decision === "approve"
+      ? `✅ Approvato \`${toolName}\`${decision.editedInput ? " (input modificato)" : ""}`
+      : `❌ Rifiutato \`${toolName}\``;
+    handleSendMessage(label, undefined, undefined, undefined, undefined, undefined, decision);
+  };
+
   const handleStartSelection = (messageId: string) => {
     setSelectionMode(true);
     setSelectedMessages([messageId]);
@@ -2033,6 +2106,20 @@ export default function MultiAgentConsultant() {
                                 }
                               </TooltipContent>
                             </Tooltip>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => setShowMemoryDialog(true)}
+                                  data-testid="agent-memory-button"
+                                  aria-label="Agent memory"
+                                >
+                                  <Brain className="h-4 w-4" />
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent>Cosa ricorda l'agente</TooltipContent>
+                            </Tooltip>
                             {/* Tool Server Status Indicator - CLICCABILE */}
                             <Tooltip>
                               <TooltipTrigger asChild>
@@ -2156,6 +2243,7 @@ export default function MultiAgentConsultant() {
                         llmProvider={(msg as any).llm_provider}
                         metadata={(msg as any).metadata}
                         videoDocumentsForAgent={videoDocumentsForAgent}
+                        onToolApprovalDecision={handleToolApprovalDecision}
                       />
                     ))
                   )}
@@ -2218,6 +2306,7 @@ export default function MultiAgentConsultant() {
               isVisible={showToolActivityPanel}
               onClose={() => setShowToolActivityPanel(false)}
               onClear={() => setToolActivities([])}
+              cacheStats={coordinateCacheStats}
             />
           </>
         ) : (
@@ -2305,6 +2394,17 @@ export default function MultiAgentConsultant() {
           <ToolServerSettings />
         </DialogContent>
       </Dialog>
+
+      {/* Agent Memory Dialog */}
+      {currentAgent && (
+        <AgentMemoryDialog
+          open={showMemoryDialog}
+          onOpenChange={setShowMemoryDialog}
+          agentId={currentAgent.id}
+          agentName={currentAgent.name}
+          conversationId={currentConversation?.id || null}
+        />
+      )}
     </div>
   );
 }
@@ -4,9 +4,12 @@
  * Universal categorization system that covers all possible agent types.
  * This is the SINGLE SOURCE OF TRUTH for agent classification and scoring weights.
  * 
- * SHARED MODULE: Used by both frontend and edge functions.
+ * SHARED MODULE: Used by edge functions (the frontend keeps its copy in src/utils/agentWeights.ts).
+ * Agent types are classified with the intent taxonomy matcher (queryIntent.ts).
  */
 
+import { detectIntent, type IntentDefinition } from './queryIntent.ts';
+
 export interface ScoringWeights {
   semantic_relevance: number;
   concept_coverage: number;
@@ -92,87 +95,48 @@ export const AGENT_TYPE_WEIGHTS: Record<string, ScoringWeights> = {
   }
 };
 
+function agentTypeIntent(name: string, priority: number, patterns: string[]): IntentDefinition {
+  return {
+    id: null,
+    name,
+    scope: 'builtin',
+    patterns,
+    exemplars: [],
+    exemplar_embeddings: [],
+    exemplar_threshold: 1,
+    chunk_type_boosts: {},
+    priority,
+  };
+}
+
 /**
- * Detects agent type from system prompt using keyword analysis.
- * 
- * Detection order matters: More specific types are checked first.
- * 
- * @param systemPrompt - The agent's system prompt text
- * @returns Agent type identifier from AGENT_TYPE_WEIGHTS
+ * Agent type taxonomy, matched against the system prompt.
+ * Order matters: more specific types are checked first.
  */
-export function detectAgentType(systemPrompt: string): string {
-  const promptLower = systemPrompt.toLowerCase();
-  
+export const AGENT_TYPE_INTENTS: IntentDefinition[] = [
   // NARRATIVE - Biographies, stories, historical accounts (check FIRST - very specific)
-  if (
-    promptLower.includes('biography') || 
-    promptLower.includes('biographical') || 
-    promptLower.includes('vita') || 
-    promptLower.includes('life of') ||
-    promptLower.includes('story') ||
-    promptLower.includes('narrative') ||
-    promptLower.includes('creative writing')
-  ) {
-    return 'narrative';
-  }
-  
+  agentTypeIntent('narrative', 50, ['biograph(y|ical)|vita|life of|story|narrative|creative writing']),
   // DOMAIN-EXPERT - Medical, Legal, Compliance (check before general categories)
-  if (
-    promptLower.includes('diagnose') || 
-    promptLower.includes('medical') || 
-    promptLower.includes('health') || 
-    promptLower.includes('patient') ||
-    promptLower.includes('clinical') ||
-    promptLower.includes('treatment') ||
-    promptLower.includes('legal') || 
-    promptLower.includes('contract') || 
-    promptLower.includes('compliance') || 
-    promptLower.includes('law') ||
-    promptLower.includes('regulation')
-  ) {
-    return 'domain-expert';
-  }
-  
+  agentTypeIntent('domain-expert', 40, [
+    'diagnose|medical|health|patient|clinical|treatment',
+    'legal|contract|compliance|law|regulation',
+  ]),
   // RESEARCH - Academic, scientific, analysis
-  if (
-    promptLower.includes('research') || 
-    promptLower.includes('academic') || 
-    promptLower.includes('paper') || 
-    promptLower.includes('scholar') ||
-    promptLower.includes('scientific') ||
-    promptLower.includes('analysis')
-  ) {
-    return 'research';
-  }
-  
+  agentTypeIntent('research', 30, ['research|academic|paper|scholar|scientific|analysis']),
   // TECHNICAL - Engineering, development, IT
-  if (
-    promptLower.includes('code') || 
-    promptLower.includes('technical') || 
-    promptLower.includes('engineer') || 
-    promptLower.includes('develop') ||
-    promptLower.includes('programming') ||
-    promptLower.includes('software')
-  ) {
-    return 'technical';
-  }
-  
+  agentTypeIntent('technical', 20, ['code|technical|engineer|develop|programming|software']),
   // PROCEDURAL - Support, operations, workflows
-  if (
-    promptLower.includes('support') || 
-    promptLower.includes('help') || 
-    promptLower.includes('guide') || 
-    promptLower.includes('assist') ||
-    promptLower.includes('workflow') ||
-    promptLower.includes('procedure') ||
-    promptLower.includes('how-to') ||
-    promptLower.includes('operations')
-  ) {
-    return 'procedural';
-  }
-  
-  // DEFAULT - General purpose agents
-  return 'general';
+  agentTypeIntent('procedural', 10, ['support|help|guide|assist|workflow|procedure|how-to|operations']),
+];
+
+/**
+ * Detects agent type from system prompt using the agent type taxonomy.
+ * 
+ * @param systemPrompt - The agent's system prompt text
+ * @returns Agent type identifier from AGENT_TYPE_WEIGHTS ('general' when nothing matches)
+ */
+export function detectAgentType(systemPrompt: string): string {
+  return detectIntent(systemPrompt, AGENT_TYPE_INTENTS).intent;
 }
 
 /**
@@ -0,0 +1,283 @@
+/**
+ * Answer Scorers
+ *
+ * Deterministic scorer chain for benchmark answers, cheapest first:
+ * - exact:      raw answer equals a ground truth (case-insensitive)
+ * - normalized: answer equals a ground truth after normalising case, punctuation, articles,
+ *               number words, thousands separators, scale words, units and currency
+ * - anls:       Average Normalized Levenshtein Similarity (DocVQA metric, τ = 0.5)
+ * - token_f1:   SQuAD-style token overlap F1
+ *
+ * ANLS and token F1 are computed over the whole normalised answer. Agents often answer in
+ * sentences: a ground truth that only appears inside the answer ("1.2 in 2021 and 0.9 in 2022"
+ * for "0.9", "No. Actually yes" for "No") is flagged as `contained` and left to the LLM judge,
+ * since containment alone can't tell a correct sentence from a hedge or a list of candidates.
+ *
+ * No runtime imports: shared by evaluate-answer (Deno) and scripts/run-docvqa-benchmark.ts (Node).
+ */
+
+export type CheapScorerName = 'exact' | 'normalized' | 'anls' | 'token_f1';
+export type ScorerName = CheapScorerName | 'llm_judge' | 'consensus' | 'majority';
+
+// chain:   LLM judge only when cheap scorers disagree
+// offline: never call the LLM, disagreements resolved by majority vote
+// llm:     always call the LLM judge (legacy behaviour)
+export type ScoringMode = 'chain' | 'offline' | 'llm';
+
+export const SCORING_MODES: ScoringMode[] = ['chain', 'offline', 'llm'];
+
+export const ANLS_TAU = 0.5;
+export const ANLS_PASS_THRESHOLD = 0.8;
+export const TOKEN_F1_PASS_THRESHOLD = 0.6;
+
+export interface ScorerVerdict {
+  score: number;
+  correct: boolean;
+}
+
+export interface CheapScores {
+  exact: ScorerVerdict;
+  normalized: ScorerVerdict;
+  anls: ScorerVerdict;
+  token_f1: ScorerVerdict;
+}
+
+export interface ChainOutcome {
+  scores: CheapScores;
+  unanimous: boolean;
+  // A ground truth appears inside the normalised answer without matching it
+  contained: boolean;
+  // Set when the cheap scorers agree (or a high-precision scorer fires)
+  decided: { correct: boolean; scorer: ScorerName; reason: string } | null;
+  // Majority vote, used by offline mode when scorers disagree
+  majority: boolean;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60,
+  seventy: 70, eighty: 80, ninety: 90, hundred: 100,
+};
+
+const SCALE_WORDS: Record<string, number> = {
+  thousand: 1e3, k: 1e3,
+  million: 1e6, millions: 1e6, mn: 1e6, m: 1e6, mm: 1e6,
+  billion: 1e9, billions: 1e9, bn: 1e9, b: 1e9,
+  trillion: 1e12, tn: 1e12,
+};
+
+// Dropped entirely: articles and currency/unit markers that don't change the value
+const DROPPED_TOKENS = new Set([
+  'a', 'an', 'the',
+  'usd', 'eur', 'gbp', 'dollar', 'dollars', 'euro', 'euros', 'pound', 'pounds',
+  'percent', 'percentage', 'pct',
+]);
+
+function formatNumber(value: number): string {
+  return String(Number(value.toPrecision(12)));
+}
+
+/**
+ * Normalise text into comparable tokens
+ */
+export function normalizeTokens(text: string): string[] {
+  const cleaned = text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    // Thousands separators: 1,577,000 → 1577000
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+    // Currency and percent symbols
+    .replace(/[$€£¥%]/g, ' ')
+    // Drop punctuation, keeping decimal points between digits
+    .replace(/[^\p{L}\p{N}.\s]/gu, ' ')
+    .replace(/(?<!\d)\.|\.(?!\d)/g, ' ');
+
+  const raw = cleaned.split(/\s+/).filter(Boolean);
+  const tokens: string[] = [];
+
+  for (let i = 0; i < raw.length; i++) {
+    let token = raw[i];
+    if (DROPPED_TOKENS.has(token)) continue;
+
+    // "8.7b", "12m": split an attached scale suffix
+    const attached = token.match(/^(\d+(?:\.\d+)?)(k|m|mm|mn|b|bn|tn)$/);
+    let numeric: number | null = null;
+    if (attached) {
+      numeric = parseFloat(attached[1]) * SCALE_WORDS[attached[2]];
+    } else if (/^\d+(\.\d+)?$/.test(token)) {
+      numeric = parseFloat(token);
+    } else if (token in NUMBER_WORDS) {
+      numeric = NUMBER_WORDS[token];
+      // "forty-two" → 42
+      const unit = NUMBER_WORDS[raw[i + 1]];
+      if (numeric >= 20 && numeric % 10 === 0 && numeric < 100 && unit > 0 && unit < 10) {
+        numeric += unit;
+        i++;
+      }
+    }
+
+    if (numeric !== null) {
+      // "1,577 million" → 1577000000
+      const next = raw[i + 1];
+      if (!attached && next && next in SCALE_WORDS && next.length > 1) {
+        numeric *= SCALE_WORDS[next];
+        i++;
+      }
+      token = formatNumber(numeric);
+    }
+
+    tokens.push(token);
+  }
+
+  return tokens;
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * ANLS for one answer/ground-truth pair (lowercased, whitespace-collapsed as in DocVQA)
+ */
+export function anls(answer: string, groundTruth: string, tau: number = ANLS_TAU): number {
+  const a = answer.toLowerCase().trim().replace(/\s+/g, ' ');
+  const g = groundTruth.toLowerCase().trim().replace(/\s+/g, ' ');
+  if (!a && !g) return 1;
+  const nl = levenshtein(a, g) / Math.max(a.length, g.length);
+  return nl < tau ? 1 - nl : 0;
+}
+
+export function tokenF1(answerTokens: string[], groundTruthTokens: string[]): number {
+  if (answerTokens.length === 0 || groundTruthTokens.length === 0) {
+    return answerTokens.length === groundTruthTokens.length ? 1 : 0;
+  }
+
+  const counts = new Map<string, number>();
+  groundTruthTokens.forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+
+  let overlap = 0;
+  for (const token of answerTokens) {
+    const available = counts.get(token) || 0;
+    if (available > 0) {
+      overlap++;
+      counts.set(token, available - 1);
+    }
+  }
+  if (overlap === 0) return 0;
+
+  const precision = overlap / answerTokens.length;
+  const recall = overlap / groundTruthTokens.length;
+  return (2 * precision * recall) / (precision + recall);
+}
+
+function containsSequence(haystack: string[], needle: string[]): boolean {
+  if (needle.length === 0) return false;
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((token, j) => haystack[i + j] === token)) return true;
+  }
+  return false;
+}
+
+// Identifiers written with separators: "499-150-498" = "499 150 498" = "499150498"
+function joinDigitGroups(text: string): string {
+  return text.replace(/(\d)[\s-](?=\d)/g, '$1');
+}
+
+/**
+ * Whether a ground truth appears inside the answer (normalised tokens, or identifier digits)
+ * without the answer being just that ground truth
+ */
+export function containsGroundTruth(answer: string, groundTruths: string[]): boolean {
+  const answerTokens = normalizeTokens(answer);
+  return groundTruths.some(truth => {
+    const truthTokens = normalizeTokens(truth);
+    if (answerTokens.join(' ') === truthTokens.join(' ')) return false;
+    if (containsSequence(answerTokens, truthTokens)) return true;
+    const truthDigits = truth.replace(/\D/g, '');
+    return /^\d+(?:[\s-]\d+)+$/.test(truth.trim()) && truthDigits.length >= 4 &&
+      joinDigitGroups(answer).includes(truthDigits);
+  });
+}
+
+/**
+ * Run every cheap scorer against all ground truths (best ground truth wins per scorer)
+ */
+export function scoreAnswer(answer: string, groundTruths: string[]): CheapScores {
+  const answerTokens = normalizeTokens(answer);
+  let exact = 0;
+  let normalized = 0;
+  let bestAnls = 0;
+  let bestF1 = 0;
+
+  for (const truth of groundTruths) {
+    if (answer.trim().toLowerCase() === truth.trim().toLowerCase()) exact = 1;
+
+    const truthTokens = normalizeTokens(truth);
+    if (truthTokens.length > 0 && answerTokens.join(' ') === truthTokens.join(' ')) {
+      normalized = 1;
+    }
+
+    if (/^\d+(?:[\s-]\d+)+$/.test(truth.trim())) {
+      const truthDigits = truth.replace(/\D/g, '');
+      if (truthDigits.length >= 4 && normalizeTokens(joinDigitGroups(answer)).join(' ') === truthDigits) {
+        normalized = 1;
+      }
+    }
+
+    bestAnls = Math.max(bestAnls, anls(answerTokens.join(' '), truthTokens.join(' ')));
+    bestF1 = Math.max(bestF1, tokenF1(answerTokens, truthTokens));
+  }
+
+  return {
+    exact: { score: exact, correct: exact === 1 },
+    normalized: { score: normalized, correct: normalized === 1 },
+    anls: { score: bestAnls, correct: bestAnls >= ANLS_PASS_THRESHOLD },
+    token_f1: { score: bestF1, correct: bestF1 >= TOKEN_F1_PASS_THRESHOLD },
+  };
+}
+
+/**
+ * Evaluate the cheap chain. Exact and normalised matches are high precision, so a positive
+ * from either decides immediately; otherwise a verdict is only taken when all scorers agree
+ * and no ground truth is contained in the answer (containment goes to the LLM judge).
+ */
+export function runScorerChain(answer: string, groundTruths: string[]): ChainOutcome {
+  const scores = scoreAnswer(answer, groundTruths);
+  const contained = !scores.normalized.correct && containsGroundTruth(answer, groundTruths);
+  const verdicts = Object.values(scores).map(v => v.correct);
+  const positives = verdicts.filter(Boolean).length;
+  const unanimous = positives === 0 || positives === verdicts.length;
+  const majority = positives * 2 > verdicts.length;
+
+  const summary = `ANLS ${scores.anls.score.toFixed(2)}, F1 ${scores.token_f1.score.toFixed(2)}`;
+
+  let decided: ChainOutcome['decided'] = null;
+  if (scores.exact.correct) {
+    decided = { correct: true, scorer: 'exact', reason: 'Risposta identica al ground truth' };
+  } else if (scores.normalized.correct) {
+    decided = { correct: true, scorer: 'normalized', reason: `Risposta uguale al ground truth dopo la normalizzazione (${summary})` };
+  } else if (unanimous && !contained) {
+    // Any positive would include exact, so agreement here means every scorer says wrong
+    decided = { correct: false, scorer: 'consensus', reason: `Tutti gli scorer concordano: errata (${summary})` };
+  }
+
+  return { scores, unanimous, contained, decided, majority };
+}
@@ -0,0 +1,122 @@
+/**
+ * Benchmark Runs
+ *
+ * A benchmark run groups benchmark_results under one id together with a snapshot
+ * of the configuration it was executed with, so runs can be compared side by side.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { RRF_K } from './unifiedRetrieval.ts';
+
+export interface BenchmarkRunConfig {
+  agent: { id: string; slug: string; name: string };
+  system_prompt: string;
+  llm_provider: string | null;
+  ai_model: string | null;
+  reranker: string | null;
+  reranker_config: unknown;
+  pipelines: Record<string, number>; // pipeline_source → active chunk count
+  retrieval: {
+    rrf_k: number;
+    document_filter: boolean;
+  };
+  suite: string;
+  limit: number;
+  scoring_mode: string;
+}
+
+/**
+ * Capture the agent configuration a run is about to be executed with
+ */
+export async function snapshotRunConfig(
+  supabase: SupabaseClient,
+  agentSlug: string,
+  params: { suite: string; limit: number; scoringMode: string }
+): Promise<{ agentId: string; config: BenchmarkRunConfig }> {
+  const { data: agent, error } = await supabase
+    .from('agents')
+    .select('id, slug, name, system_prompt, llm_provider, ai_model, reranker, reranker_config')
+    .eq('slug', agentSlug)
+    .single();
+
+  if (error || !agent) {
+    throw new Error(`Benchmark agent not found: ${agentSlug}`);
+  }
+
+  const { data: pipelineRows } = await supabase.rpc('get_agent_knowledge_pipelines', { p_agent_id: agent.id });
+
+  const pipelines: Record<string, number> = {};
+  (pipelineRows || []).forEach((row: { pipeline_source: string; chunk_count: number }) => {
+    pipelines[row.pipeline_source] = Number(row.chunk_count);
+  });
+
+  return {
+    agentId: agent.id,
+    config: {
+      agent: { id: agent.id, slug: agent.slug, name: agent.name },
+      system_prompt: agent.system_prompt,
+      llm_provider: agent.llm_provider,
+      ai_model: agent.ai_model,
+      reranker: agent.reranker,
+      reranker_config: agent.reranker_config,
+      pipelines,
+      retrieval: {
+        rrf_k: RRF_K,
+        document_filter: true,
+      },
+      suite: params.suite,
+      limit: params.limit,
+      scoring_mode: params.scoringMode,
+    },
+  };
+}
+
+/**
+ * Once no job of the run is pending/processing, store aggregate accuracy and close the run
+ */
+export async function finalizeBenchmarkRun(supabase: SupabaseClient, runId: string): Promise<boolean> {
+  const { count: openJobs } = await supabase
+    .from('benchmark_jobs_queue')
+    .select('*', { count: 'exact', head: true })
+    .eq('run_id', runId)
+    .in('status', ['pending', 'processing']);
+
+  if (openJobs && openJobs > 0) return false;
+
+  const { data: results, error } = await supabase
+    .from('benchmark_results')
+    .select('correct, status, response_time_ms')
+    .eq('run_id', runId);
+
+  if (error) {
+    console.error(`[BenchmarkRuns] Could not load results for run ${runId}:`, error.message);
+    return false;
+  }
+
+  const completed = (results || []).filter((r: { status: string }) => r.status === 'completed');
+  const passed = completed.filter((r: { correct: boolean | null }) => r.correct === true).length;
+  const timed = completed.filter((r: { response_time_ms: number | null }) => r.response_time_ms);
+
+  const { error: updateError } = await supabase
+    .from('benchmark_runs')
+    .update({
+      status: completed.length > 0 ? 'completed' : 'failed',
+      passed,
+      failed: completed.length - passed,
+      accuracy: completed.length > 0 ? (passed / completed.length) * 100 : null,
+      avg_response_time_ms: timed.length > 0
+        ? Math.round(timed.reduce((sum: number, r: { response_time_ms: number }) => sum + r.response_time_ms, 0) / timed.length)
+        : null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', runId)
+    .eq('status', 'running');
+
+  if (updateError) {
+    console.error(`[BenchmarkRuns] Could not finalize run ${runId}:`, updateError.message);
+    return false;
+  }
+
+  console.log(`[BenchmarkRuns] ✅ Run ${runId} finalized: ${passed}/${completed.length} correct`);
+  return true;
+}
@@ -0,0 +1,131 @@
+/**
+ * Grounded Citations
+ *
+ * Every excerpt injected into the prompt carries its citation id (see buildCitationId in
+ * unifiedRetrieval.ts). The model cites with inline markers:
+ *
+ *   Il valore nominale è 230 V [cite:A-1b2c3d4e].
+ *
+ * After the answer is complete, markers are resolved against the chunks that were actually
+ * retrieved for this turn (auto-search + semantic_search tool calls). Resolved markers carry
+ * chunk-level provenance (document, page, heading path); markers pointing at anything else
+ * are kept but flagged as hallucinated.
+ */
+
+import type { PipelineSource } from './unifiedRetrieval.ts';
+
+// Any bracketed cite marker, including malformed ids, so invented ones are caught too
+const CITATION_MARKER_PATTERN = /\[cite:\s*([^\]\s]+)\s*\]/gi;
+
+export interface CitableChunk {
+  id: string;
+  citation_id: string;
+  document_id: string | null;
+  document_name: string;
+  pipeline_source: PipelineSource | null;
+  page_number: number | null;
+  heading_hierarchy: unknown;
+}
+
+export type CitationStatus = 'grounded' | 'hallucinated';
+
+export interface AnswerCitation {
+  n: number;                 // footnote number, in order of first appearance
+  citation_id: string;
+  status: CitationStatus;
+  chunk_id: string | null;
+  document_id: string | null;
+  document_name: string | null;
+  pipeline_source: PipelineSource | null;
+  page_number: number | null;
+  heading_path: string[];
+}
+
+export interface CitationReport {
+  citations: AnswerCitation[];
+  grounded: number;
+  hallucinated: number;
+}
+
+/**
+ * Flatten the heading metadata of the different pipelines ({h1,h2,h3}, arrays, plain strings)
+ */
+export function headingPath(hierarchy: unknown): string[] {
+  if (!hierarchy) return [];
+  if (typeof hierarchy === 'string') return [hierarchy];
+  if (Array.isArray(hierarchy)) {
+    return hierarchy.flatMap(h => (typeof h === 'string' ? [h] : headingPath(h)));
+  }
+  if (typeof hierarchy === 'object') {
+    const levels = hierarchy as Record<string, unknown>;
+    return ['h1', 'h2', 'h3', 'h4', 'h5', 'h6']
+      .map(level => levels[level])
+      .filter((h): h is string => typeof h === 'string' && h.trim().length > 0);
+  }
+  return [];
+}
+
+/**
+ * Adapt a retrieval hit (semantic-search / unified retrieval row) to a citable chunk
+ */
+export function toCitableChunk(hit: Partial<CitableChunk> | null | undefined): CitableChunk | null {
+  if (!hit?.id || !hit?.citation_id) return null;
+  return {
+    id: hit.id,
+    citation_id: hit.citation_id,
+    document_id: hit.document_id ?? null,
+    document_name: hit.document_name || '',
+    pipeline_source: hit.pipeline_source ?? null,
+    page_number: hit.page_number ?? null,
+    heading_hierarchy: hit.heading_hierarchy ?? null,
+  };
+}
+
+/**
+ * Provenance line shown under each excerpt header in the prompt
+ */
+export function describeChunkLocation(chunk: CitableChunk): string {
+  const parts: string[] = [];
+  if (chunk.page_number !== null) parts.push(`Pagina ${chunk.page_number}`);
+  const path = headingPath(chunk.heading_hierarchy);
+  if (path.length > 0) parts.push(`Sezione: ${path.join(' > ')}`);
+  return parts.join(' | ');
+}
+
+export function citationInstructions(): string {
+  return `Per OGNI affermazione basata sugli excerpt, aggiungi subito dopo il marker di citazione con il Citation ID dell'excerpt: [cite:CITATION_ID] (es. [cite:A-1b2c3d4e]). Usa SOLO Citation ID presenti negli excerpt, uno per marker; più fonti = più marker consecutivi`;
+}
+
+/**
+ * Resolve the cite markers of an answer against the retrieved chunks
+ */
+export function extractCitations(answer: string, retrieved: Iterable<CitableChunk>): CitationReport {
+  const byCitationId = new Map<string, CitableChunk>();
+  for (const chunk of retrieved) byCitationId.set(chunk.citation_id.toUpperCase(), chunk);
+
+  const citations: AnswerCitation[] = [];
+  const seen = new Set<string>();
+
+  for (const match of answer.matchAll(CITATION_MARKER_PATTERN)) {
+    const citationId = match[1];
+    const key = citationId.toUpperCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const chunk = byCitationId.get(key);
+    citations.push({
+      n: citations.length + 1,
+      citation_id: chunk?.citation_id || citationId,
+      status: chunk ? 'grounded' : 'hallucinated',
+      chunk_id: chunk?.id || null,
+      document_id: chunk?.document_id || null,
+      document_name: chunk?.document_name || null,
+      pipeline_source: chunk?.pipeline_source || null,
+      page_number: chunk?.page_number ?? null,
+      heading_path: chunk ? headingPath(chunk.heading_hierarchy) : [],
+    });
+  }
+
+  const hallucinated = citations.filter(c => c.status === 'hallucinated').length;
+  return { citations, grounded: citations.length - hallucinated, hallucinated };
+}
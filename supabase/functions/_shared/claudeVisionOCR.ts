@@ -14,6 +14,7 @@
 
 import { encodeBase64 } from "https://deno.land/std@0.208.0/encoding/base64.ts";
 import { PDFDocument } from "https://esm.sh/pdf-lib@1.17.1";
+import { reportLLMUsage, usageFromPayload } from "./llmGateway.ts";
 
 // ============= INTERFACES =============
 
@@ -315,6 +316,7 @@ async function extractTextSingleRequest(
         }
         
         const result = await response.json();
+        reportLLMUsage({ source: 'claudeVisionOCR', provider: 'anthropic', model: CLAUDE_MODEL, usage: usageFromPayload('anthropic', CLAUDE_MODEL, result), operation: 'ocr' });
         return result.content?.[0]?.text || '';
       },
       maxRetries,
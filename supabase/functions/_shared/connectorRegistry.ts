@@ -0,0 +1,25 @@
+/**
+ * Connector registry: ingestion_connectors.connector_type → Connector implementation
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { ConnectorError, type Connector, type ConnectorConfigRow, type ConnectorType } from './connectors.ts';
+import { WebsiteConnector, type WebsiteConnectorConfig } from './websiteConnector.ts';
+import { HtmlExportConnector } from './htmlExportConnector.ts';
+import { MailboxConnector } from './mailboxConnector.ts';
+
+export const CONNECTOR_TYPES: ConnectorType[] = ['website', 'html_export', 'mailbox'];
+
+export function createConnector(supabase: SupabaseClient, row: ConnectorConfigRow): Connector {
+  const config = row.config || {};
+  switch (row.connector_type) {
+    case 'website':
+      return new WebsiteConnector(config as WebsiteConnectorConfig);
+    case 'html_export':
+      return new HtmlExportConnector(supabase, config);
+    case 'mailbox':
+      return new MailboxConnector(supabase, config);
+    default:
+      throw new ConnectorError(`Unknown connector type: ${row.connector_type}`);
+  }
+}
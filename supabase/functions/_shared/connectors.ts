@@ -0,0 +1,91 @@
+/**
+ * Ingestion Connectors
+ *
+ * A connector turns an external source into markdown documents for the ingest queue:
+ *
+ *   listItems(cursor)  → items that are new or changed since the cursor + the next cursor
+ *   fetchItem(item)    → the item as markdown
+ *
+ * connector-sync lists items on a schedule and enqueues them (ingestion_queue); process-ingest-queue
+ * fetches each queued item and hands it to the ingest sink (ingestSink.ts) of the connector's
+ * pipeline. Cursors are opaque JSON owned by each connector and stored on ingestion_connectors.
+ *
+ * Connectors: website (sitemap or crawl), html_export (zipped Notion/Confluence export),
+ * mailbox (mbox / EML, plain or zipped). See connectorRegistry.ts.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export type ConnectorType = 'website' | 'html_export' | 'mailbox';
+
+export type ConnectorCursor = Record<string, unknown>;
+
+export interface ConnectorItem {
+  key: string;               // stable within the connector: URL, path inside the archive, Message-ID
+  title: string;
+  version: string | null;    // change marker from the source (lastmod, content hash, ...); null = unknown
+  sourceUrl?: string | null;
+}
+
+export interface ConnectorListing {
+  items: ConnectorItem[];
+  cursor: ConnectorCursor;
+}
+
+export interface ConnectorDocument {
+  key: string;
+  title: string;
+  markdown: string;
+  sourceUrl: string | null;
+}
+
+export interface Connector {
+  readonly type: ConnectorType;
+  listItems(cursor: ConnectorCursor | null): Promise<ConnectorListing>;
+  fetchItem(item: ConnectorItem): Promise<ConnectorDocument>;
+}
+
+// Row of ingestion_connectors the registry builds a connector from
+export interface ConnectorConfigRow {
+  id: string;
+  connector_type: ConnectorType;
+  config: Record<string, unknown>;
+}
+
+export const CONNECTOR_USER_AGENT = 'Lovable-Ingestion-Connector/1.0';
+
+export class ConnectorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConnectorError';
+  }
+}
+
+/**
+ * Uploaded source file (export archive, mailbox) from storage
+ */
+export async function downloadStorageFile(supabase: SupabaseClient, bucket: string, path: string): Promise<Uint8Array> {
+  const { data, error } = await supabase.storage.from(bucket).download(path);
+  if (error || !data) throw new ConnectorError(`Failed to download ${bucket}/${path}: ${error?.message || 'no data'}`);
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+export function requireString(config: Record<string, unknown>, key: string): string {
+  const value = config[key];
+  if (typeof value !== 'string' || !value.trim()) throw new ConnectorError(`Connector config is missing "${key}"`);
+  return value.trim();
+}
+
+export async function fetchWithTimeout(url: string, timeoutMs: number = 20000): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, {
+      headers: { 'User-Agent': CONNECTOR_USER_AGENT, 'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8' },
+      signal: controller.signal,
+      redirect: 'follow',
+    });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -4,6 +4,8 @@
  * Replica il pattern Director-Analyst utilizzato per i video
  */
 
+import { callLLM } from './llmGateway.ts';
+
 export interface DocumentContext {
   domain: string;           // "trading", "finance", "architecture", "legal", "medical", etc.
   focusElements: string[];  // Elementi specifici da cercare nelle immagini
@@ -113,30 +115,19 @@ export async function analyzeDocumentContext(
   }
 
   try {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'x-api-key': anthropicKey,
-        'anthropic-version': '2023-06-01',
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: 'claude-haiku-4-5-20251001', // Fast model for quick analysis - Claude 4.5 family
-        max_tokens: 1024,
-        messages: [{
-          role: 'user',
-          content: `${CONTEXT_ANALYZER_PROMPT}\n\n--- TESTO DOCUMENTO ---\n${textSample}`
-        }]
-      })
+    const result = await callLLM({
+      provider: 'anthropic',
+      model: 'claude-haiku-4-5-20251001', // Fast model for quick analysis - Claude 4.5 family
+      apiKey: anthropicKey,
+      maxTokens: 1024,
+      messages: [{
+        role: 'user',
+        content: `${CONTEXT_ANALYZER_PROMPT}\n\n--- TESTO DOCUMENTO ---\n${textSample}`
+      }],
+      source: 'context-analyzer'
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Claude API failed: ${response.status} - ${errorText}`);
-    }
-
-    const result = await response.json();
-    const jsonText = result.content?.[0]?.text || '{}';
+    const jsonText = result.text || '{}';
     
     // Clean JSON from markdown code blocks
     const cleanJson = jsonText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
@@ -0,0 +1,379 @@
+/**
+ * Context Assembler
+ *
+ * Builds the prompt of an agent-chat turn within the context window of the model that answers it.
+ * Every section (system prompt, memory, knowledge excerpts, search results, tool results, history)
+ * has a priority and a maximum share of the window:
+ *   1. each section gets up to its share, in priority order (1 = most important)
+ *   2. what is left goes to the sections that still need more, again in priority order
+ *   3. sections over their budget are compressed, never cut blindly:
+ *      - item lists (knowledge excerpts): lowest-ranked items are condensed to a one-line excerpt,
+ *        then dropped with a note saying how many were left out
+ *      - history: oldest messages move into a compact digest in the system prompt
+ *      - plain text: head and tail are kept around an omission marker
+ *
+ * assembleContext returns the manifest of what was included, stored on the assistant message
+ * (metadata.context_manifest) for debugging.
+ */
+
+import { estimateTokens } from './conversationMemory.ts';
+
+// Matched in order on the model name, first match wins
+const MODEL_CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/claude/i, 200_000],
+  [/gemini-(1\.5|2|3)/i, 1_000_000],
+  [/gpt-4\.1/i, 1_000_000],
+  [/gpt-5/i, 400_000],
+  [/gpt-4o|gpt-4-turbo|o1|o3|o4/i, 128_000],
+  [/deepseek/i, 64_000],
+  [/llama|mistral|qwen/i, 32_000],
+];
+export const DEFAULT_CONTEXT_WINDOW = 32_000;
+
+// Kept free on top of the output tokens: the estimate is approximate
+const SAFETY_MARGIN_SHARE = 0.05;
+// Share of the window a single tool result may take
+const TOOL_RESULT_MAX_SHARE = 0.15;
+const CONDENSED_ITEM_CHARS = 300;
+const DIGEST_MESSAGE_CHARS = 240;
+
+export interface ContextItem {
+  text: string;
+  /** Shorter version used when the full text does not fit */
+  condensed?: string;
+}
+
+export interface ContextSection {
+  id: string;
+  label: string;
+  /** 1 = most important */
+  priority: number;
+  /** Maximum share of the budget granted before leftovers are redistributed */
+  maxShare: number;
+  /** Plain text section */
+  content?: string;
+  /** Ranked list section, best item first */
+  items?: ContextItem[];
+  header?: string;
+  footer?: string;
+}
+
+export interface ContextMessage {
+  role: string;
+  content: string;
+}
+
+export type ManifestSectionStatus = 'included' | 'compressed' | 'dropped';
+
+export interface ManifestSection {
+  id: string;
+  label: string;
+  priority: number;
+  status: ManifestSectionStatus;
+  original_tokens: number;
+  budget_tokens: number;
+  tokens: number;
+  items_total?: number;
+  items_full?: number;
+  items_condensed?: number;
+  note?: string;
+}
+
+export interface ToolResultManifestEntry {
+  tool: string;
+  original_tokens: number;
+  tokens: number;
+  compressed: boolean;
+  items_total?: number;
+  items_kept?: number;
+}
+
+export interface ContextManifest {
+  model: string;
+  context_window: number;
+  output_tokens: number;
+  reserved_tokens: number;
+  budget_tokens: number;
+  used_tokens: number;
+  sections: ManifestSection[];
+  tool_results: ToolResultManifestEntry[];
+  assembled_at: string;
+}
+
+export interface AssembleContextOptions {
+  model: string;
+  /** max_tokens requested for the answer */
+  outputTokens: number;
+  /** Tokens taken outside of the prompt, e.g. tool schemas */
+  reservedTokens?: number;
+  /** System prompt sections, in the order they appear in the prompt */
+  sections: ContextSection[];
+  /** Conversation history, oldest first; the last message is the current turn */
+  history: ContextMessage[];
+  historyPriority?: number;
+  historyMaxShare?: number;
+}
+
+export interface AssembledContext {
+  systemPrompt: string;
+  messages: ContextMessage[];
+  manifest: ContextManifest;
+}
+
+export function getModelContextWindow(model: string | null | undefined): number {
+  if (!model) return DEFAULT_CONTEXT_WINDOW;
+  const match = MODEL_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model));
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/** Keep the start and the end of a text within maxTokens, marking what was left out */
+export function truncateMiddle(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+  const maxChars = Math.max(0, maxTokens * 4 - 80);
+  if (maxChars === 0) return '';
+  const head = Math.ceil(maxChars * 0.7);
+  const tail = maxChars - head;
+  const omitted = text.length - head - tail;
+  return `${text.slice(0, head)}\n\n[... ${omitted} caratteri omessi per limiti di contesto ...]\n\n${tail > 0 ? text.slice(-tail) : ''}`;
+}
+
+function oneLine(text: string, maxChars: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > maxChars ? `${flat.slice(0, maxChars)}…` : flat;
+}
+
+function sectionTokens(section: ContextSection): number {
+  if (section.items) {
+    return estimateTokens((section.header || '') + section.items.map(i => i.text).join('') + (section.footer || ''));
+  }
+  return estimateTokens(section.content || '');
+}
+
+/** Full items while they fit, then condensed items, then a note for the rest */
+function compressItems(section: ContextSection, budget: number): { text: string; full: number; condensed: number } {
+  const items = section.items || [];
+  const header = section.header || '';
+  const footer = section.footer || '';
+  let remaining = budget - estimateTokens(header + footer) - 30;
+  const parts: string[] = [];
+  let full = 0;
+  let condensed = 0;
+
+  for (const item of items) {
+    const fullTokens = estimateTokens(item.text);
+    if (condensed === 0 && fullTokens <= remaining) {
+      parts.push(item.text);
+      remaining -= fullTokens;
+      full++;
+      continue;
+    }
+    const short = item.condensed ?? oneLine(item.text, CONDENSED_ITEM_CHARS);
+    const shortTokens = estimateTokens(short);
+    if (shortTokens > remaining) break;
+    parts.push(short);
+    remaining -= shortTokens;
+    condensed++;
+  }
+
+  const dropped = items.length - full - condensed;
+  if (condensed > 0 || dropped > 0) {
+    const notes: string[] = [];
+    if (condensed > 0) notes.push(`${condensed} ridotti a un estratto`);
+    if (dropped > 0) notes.push(`${dropped} omessi`);
+    parts.push(`\n_[Contenuto compresso per limiti di contesto: ${full} elementi completi, ${notes.join(', ')}]_\n\n`);
+  }
+  return { text: header + parts.join('') + footer, full, condensed };
+}
+
+/** Most recent messages verbatim, older ones condensed into a digest for the system prompt */
+function compressHistory(history: ContextMessage[], budget: number): { messages: ContextMessage[]; digest: string; full: number; condensed: number } {
+  if (history.length === 0) return { messages: [], digest: '', full: 0, condensed: 0 };
+
+  // The current turn always goes in, shortened if it alone exceeds the budget
+  const current = history[history.length - 1];
+  const currentContent = truncateMiddle(current.content, Math.max(budget, 500));
+  let remaining = budget - estimateTokens(currentContent);
+  const kept: ContextMessage[] = [{ role: current.role, content: currentContent }];
+
+  let index = history.length - 2;
+  for (; index >= 0; index--) {
+    const tokens = estimateTokens(history[index].content);
+    if (tokens > remaining) break;
+    kept.unshift(history[index]);
+    remaining -= tokens;
+  }
+  // The providers expect the conversation to open with a user message
+  while (kept.length > 1 && kept[0].role !== 'user') {
+    kept.shift();
+    index++;
+  }
+
+  const digestLines: string[] = [];
+  for (let i = index; i >= 0; i--) {
+    const line = `- ${history[i].role === 'user' ? 'Utente' : 'Assistente'}: ${oneLine(history[i].content, DIGEST_MESSAGE_CHARS)}`;
+    const tokens = estimateTokens(line) + 1;
+    if (tokens > remaining) break;
+    digestLines.unshift(line);
+    remaining -= tokens;
+  }
+
+  const digest = index >= 0
+    ? `\n\n## 🗂️ MESSAGGI PRECEDENTI (COMPRESSI)\n\n${index + 1} messaggi meno recenti non entrano nel contesto${digestLines.length > 0 ? `; i più recenti in forma ridotta:\n${digestLines.join('\n')}` : '.'}\n`
+    : '';
+  return { messages: kept, digest, full: kept.length, condensed: digestLines.length };
+}
+
+/** Fit the prompt of a turn into the window of the model, see the module comment */
+export function assembleContext(options: AssembleContextOptions): AssembledContext {
+  const contextWindow = getModelContextWindow(options.model);
+  const reserved = (options.reservedTokens || 0) + Math.ceil(contextWindow * SAFETY_MARGIN_SHARE);
+  const budget = Math.max(1000, contextWindow - options.outputTokens - reserved);
+
+  const historySection: ContextSection = {
+    id: 'history',
+    label: 'Cronologia conversazione',
+    priority: options.historyPriority ?? 5,
+    maxShare: options.historyMaxShare ?? 0.5,
+    content: options.history.map(m => m.content).join(''),
+  };
+  const all = [...options.sections, historySection];
+  const needs = new Map(all.map(s => [s.id, sectionTokens(s)]));
+  const grants = new Map(all.map(s => [s.id, 0]));
+  const byPriority = [...all].sort((a, b) => a.priority - b.priority);
+
+  let left = budget;
+  for (const section of byPriority) {
+    const grant = Math.min(needs.get(section.id)!, Math.floor(budget * section.maxShare), left);
+    grants.set(section.id, grant);
+    left -= grant;
+  }
+  for (const section of byPriority) {
+    if (left <= 0) break;
+    const extra = Math.min(needs.get(section.id)! - grants.get(section.id)!, left);
+    grants.set(section.id, grants.get(section.id)! + extra);
+    left -= extra;
+  }
+
+  const manifestSections: ManifestSection[] = [];
+  const promptParts: string[] = [];
+  for (const section of options.sections) {
+    const need = needs.get(section.id)!;
+    const grant = grants.get(section.id)!;
+    if (need === 0) continue;
+
+    const entry: ManifestSection = {
+      id: section.id,
+      label: section.label,
+      priority: section.priority,
+      status: 'included',
+      original_tokens: need,
+      budget_tokens: grant,
+      tokens: need,
+    };
+
+    let text: string;
+    if (section.items) {
+      entry.items_total = section.items.length;
+      if (need <= grant) {
+        text = (section.header || '') + section.items.map(i => i.text).join('') + (section.footer || '');
+        entry.items_full = section.items.length;
+        entry.items_condensed = 0;
+      } else {
+        const compressed = compressItems(section, grant);
+        text = compressed.full + compressed.condensed > 0 ? compressed.text : '';
+        entry.items_full = compressed.full;
+        entry.items_condensed = compressed.condensed;
+      }
+    } else {
+      text = need <= grant ? section.content || '' : grant >= 50 ? truncateMiddle(section.content || '', grant) : '';
+    }
+
+    entry.tokens = estimateTokens(text);
+    if (!text) entry.status = 'dropped';
+    else if (need > grant) entry.status = 'compressed';
+    manifestSections.push(entry);
+    if (text) promptParts.push(text);
+  }
+
+  const historyBudget = grants.get('history')!;
+  const history = compressHistory(options.history, historyBudget);
+  const historyTokens = estimateTokens(history.messages.map(m => m.content).join('') + history.digest);
+  manifestSections.push({
+    id: historySection.id,
+    label: historySection.label,
+    priority: historySection.priority,
+    status: history.full < options.history.length ? 'compressed' : 'included',
+    original_tokens: needs.get('history')!,
+    budget_tokens: historyBudget,
+    tokens: historyTokens,
+    items_total: options.history.length,
+    items_full: history.full,
+    items_condensed: history.condensed,
+  });
+
+  const systemPrompt = promptParts.join('') + history.digest;
+  return {
+    systemPrompt,
+    messages: history.messages,
+    manifest: {
+      model: options.model,
+      context_window: contextWindow,
+      output_tokens: options.outputTokens,
+      reserved_tokens: reserved,
+      budget_tokens: budget,
+      used_tokens: estimateTokens(systemPrompt) + estimateTokens(history.messages.map(m => m.content).join('')),
+      sections: manifestSections,
+      tool_results: [],
+      assembled_at: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Serialize a tool result for the next LLM call within TOOL_RESULT_MAX_SHARE of the window.
+ * Large arrays (chunks, results, documents) keep their first items and report what was left out;
+ * anything else is truncated around the middle.
+ */
+export function fitToolResult(
+  toolName: string,
+  result: unknown,
+  model: string
+): { content: string; entry: ToolResultManifestEntry } {
+  const maxTokens = Math.floor(getModelContextWindow(model) * TOOL_RESULT_MAX_SHARE);
+  const serialized = JSON.stringify(result ?? null);
+  const originalTokens = estimateTokens(serialized);
+  const entry: ToolResultManifestEntry = { tool: toolName, original_tokens: originalTokens, tokens: originalTokens, compressed: false };
+  if (originalTokens <= maxTokens) return { content: serialized, entry };
+
+  entry.compressed = true;
+  if (result && typeof result === 'object' && !Array.isArray(result)) {
+    const record = result as Record<string, unknown>;
+    const arrayKey = Object.keys(record)
+      .filter(key => Array.isArray(record[key]))
+      .sort((a, b) => JSON.stringify(record[b]).length - JSON.stringify(record[a]).length)[0];
+
+    if (arrayKey) {
+      const items = record[arrayKey] as unknown[];
+      const rest = { ...record, [arrayKey]: [] };
+      let remaining = maxTokens - estimateTokens(JSON.stringify(rest)) - 60;
+      const kept: unknown[] = [];
+      for (const item of items) {
+        const tokens = estimateTokens(JSON.stringify(item)) + 1;
+        if (tokens > remaining) break;
+        kept.push(item);
+        remaining -= tokens;
+      }
+      if (kept.length > 0) {
+        const content = JSON.stringify({
+          ...rest,
+          [arrayKey]: kept,
+          context_note: `Risultato compresso per limiti di contesto: ${kept.length} di ${items.length} elementi di "${arrayKey}" inclusi`,
+        });
+        return { content, entry: { ...entry, tokens: estimateTokens(content), items_total: items.length, items_kept: kept.length } };
+      }
+    }
+  }
+
+  const content = truncateMiddle(serialized, maxTokens);
+  return { content, entry: { ...entry, tokens: estimateTokens(content) } };
+}
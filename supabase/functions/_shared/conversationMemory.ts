@@ -0,0 +1,367 @@
+/**
+ * Conversation Memory
+ *
+ * agent-chat sends only the last RECENT_MESSAGE_WINDOW messages verbatim. Everything older is kept
+ * as memory:
+ *   - rolling summary (agent_conversations.memory_summary): messages that leave the window are
+ *     folded into the summary in batches, never re-summarizing what is already in it
+ *   - long-term facts (agent_user_memories): durable facts about the user, per user + agent,
+ *     extracted while folding; users can edit or delete them, edited rows are re-embedded later
+ *
+ * buildMemoryContext picks what goes into the system prompt within a token budget: the summary
+ * first, then the facts most similar to the current message (importance breaks ties).
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { callLLM } from './llmGateway.ts';
+import { DEFAULT_EMBEDDING_MODEL, generateEmbedding } from './embeddingService.ts';
+import type { UsageContext } from './usageLedger.ts';
+
+export type MemoryCategory = 'preference' | 'fact' | 'goal' | 'context';
+
+// Same window as agent-chat's MAX_MESSAGES
+export const RECENT_MESSAGE_WINDOW = 20;
+export const DEFAULT_MEMORY_TOKEN_BUDGET = 1200;
+
+// Messages out of the window before a summary update is worth an LLM call
+const MIN_MESSAGES_TO_FOLD = 6;
+const MAX_MESSAGES_PER_FOLD = 40;
+const MAX_MESSAGE_CHARS = 2000;
+const MAX_SUMMARY_CHARS = 4000;
+const MAX_MEMORIES_PER_AGENT = 200;
+// A new fact this close to an existing one is the same fact
+const DUPLICATE_SIMILARITY = 0.9;
+const MEMORY_MODEL = 'google/gemini-2.5-flash';
+
+const CATEGORY_LABELS: Record<MemoryCategory, string> = {
+  preference: 'preferenza',
+  fact: 'fatto',
+  goal: 'obiettivo',
+  context: 'contesto',
+};
+
+export interface UserMemory {
+  id: string;
+  content: string;
+  category: MemoryCategory;
+  importance: number;
+  similarity?: number;
+}
+
+export interface MemoryUpdateResult {
+  foldedMessages: number;
+  factsAdded: number;
+  memoriesEmbedded: number;
+}
+
+export interface MemoryContextOptions {
+  userId: string;
+  agentId: string;
+  query: string;
+  summary: string | null;
+  tokenBudget?: number;
+  openAIApiKey?: string;
+  usageContext?: UsageContext;
+}
+
+export interface MemoryContext {
+  section: string;
+  memoryIds: string[];
+  tokens: number;
+}
+
+interface ExtractedFact {
+  content: string;
+  category: MemoryCategory;
+  importance: number;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function normalizeFact(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+}
+
+function parseFacts(value: unknown): ExtractedFact[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((fact): fact is Record<string, unknown> => !!fact && typeof fact === 'object' && typeof fact.content === 'string')
+    .map(fact => ({
+      content: (fact.content as string).trim().slice(0, 500),
+      category: (['preference', 'fact', 'goal', 'context'].includes(fact.category as string) ? fact.category : 'fact') as MemoryCategory,
+      importance: Math.min(5, Math.max(1, Math.round(Number(fact.importance) || 3))),
+    }))
+    .filter(fact => fact.content.length > 0);
+}
+
+/**
+ * Fold the messages that left the recent window into the rolling summary and extract long-term
+ * facts from them. Cheap to call after every turn: nothing happens until enough messages piled up.
+ */
+export async function updateConversationMemory(
+  supabase: SupabaseClient,
+  conversationId: string,
+  options: { lovableApiKey?: string; openAIApiKey?: string; usageContext?: UsageContext } = {}
+): Promise<MemoryUpdateResult> {
+  const result: MemoryUpdateResult = { foldedMessages: 0, factsAdded: 0, memoriesEmbedded: 0 };
+
+  const { data: conversation, error } = await supabase
+    .from('agent_conversations')
+    .select('id, user_id, agent_id, memory_summary, memory_summary_through, memory_summary_messages')
+    .eq('id', conversationId)
+    .single();
+  if (error || !conversation) throw new Error(`Conversation not found: ${conversationId}`);
+
+  let messagesQuery = supabase
+    .from('agent_messages')
+    .select('role, content, created_at')
+    .eq('conversation_id', conversationId)
+    .not('content', 'is', null)
+    .neq('content', '')
+    .order('created_at', { ascending: true });
+  if (conversation.memory_summary_through) {
+    messagesQuery = messagesQuery.gt('created_at', conversation.memory_summary_through);
+  }
+  const { data: messages, error: messagesError } = await messagesQuery;
+  if (messagesError) throw new Error(`Failed to load messages: ${messagesError.message}`);
+
+  const outOfWindow = (messages || []).slice(0, Math.max(0, (messages || []).length - RECENT_MESSAGE_WINDOW));
+  if (outOfWindow.length >= MIN_MESSAGES_TO_FOLD) {
+    const toFold = outOfWindow.slice(0, MAX_MESSAGES_PER_FOLD);
+
+    const { data: existing } = await supabase
+      .from('agent_user_memories')
+      .select('content')
+      .eq('user_id', conversation.user_id)
+      .eq('agent_id', conversation.agent_id)
+      .order('importance', { ascending: false })
+      .limit(50);
+    const knownFacts = (existing || []).map((row: { content: string }) => row.content);
+
+    const transcript = toFold
+      .map((m: { role: string; content: string }) => `${m.role === 'user' ? 'UTENTE' : 'ASSISTENTE'}: ${truncate(m.content, MAX_MESSAGE_CHARS)}`)
+      .join('\n\n');
+
+    const prompt = `You maintain the memory of a long conversation between a user and an AI assistant.
+
+CURRENT SUMMARY (may be empty):
+${conversation.memory_summary || '(none)'}
+
+FACTS ALREADY REMEMBERED ABOUT THE USER:
+${knownFacts.length > 0 ? knownFacts.map((f: string) => `- ${f}`).join('\n') : '(none)'}
+
+NEW MESSAGES TO FOLD IN:
+${transcript}
+
+Tasks:
+1. Rewrite the summary so it also covers the new messages: topics discussed, decisions, open questions, results the user may refer back to. Max ${Math.round(MAX_SUMMARY_CHARS / 5)} words, same language as the conversation.
+2. Extract NEW durable facts about the user (preferences, role, projects, goals, constraints) that stay true beyond this conversation. Skip facts already remembered, one-off requests and anything about the assistant itself.
+
+Return ONLY valid JSON: {"summary":"...","facts":[{"content":"...","category":"preference|fact|goal|context","importance":1-5}]}`;
+
+    const llmResult = await callLLM({
+      provider: 'lovable',
+      model: MEMORY_MODEL,
+      apiKey: options.lovableApiKey,
+      messages: [{ role: 'user', content: prompt }],
+      responseFormat: 'json',
+      temperature: 0.2,
+      source: 'conversation-memory',
+      usageContext: options.usageContext,
+    });
+
+    const parsed = JSON.parse((llmResult.text || '').replace(/```json|```/g, '').trim());
+    const summary = typeof parsed.summary === 'string' && parsed.summary.trim()
+      ? truncate(parsed.summary.trim(), MAX_SUMMARY_CHARS)
+      : conversation.memory_summary;
+
+    const { error: updateError } = await supabase
+      .from('agent_conversations')
+      .update({
+        memory_summary: summary,
+        memory_summary_through: toFold[toFold.length - 1].created_at,
+        memory_summary_messages: (conversation.memory_summary_messages || 0) + toFold.length,
+        memory_updated_at: new Date().toISOString(),
+      })
+      .eq('id', conversationId);
+    if (updateError) throw new Error(`Failed to save conversation summary: ${updateError.message}`);
+    result.foldedMessages = toFold.length;
+
+    const known = new Set(knownFacts.map(normalizeFact));
+    for (const fact of parseFacts(parsed.facts)) {
+      if (known.has(normalizeFact(fact.content))) continue;
+      known.add(normalizeFact(fact.content));
+      if (await addExtractedFact(supabase, conversation, fact, options)) result.factsAdded++;
+    }
+  }
+
+  if (options.openAIApiKey) {
+    result.memoriesEmbedded = await embedPendingMemories(supabase, conversation.user_id, conversation.agent_id, options.openAIApiKey, options.usageContext);
+  }
+  return result;
+}
+
+async function addExtractedFact(
+  supabase: SupabaseClient,
+  conversation: { id: string; user_id: string; agent_id: string },
+  fact: ExtractedFact,
+  options: { openAIApiKey?: string; usageContext?: UsageContext }
+): Promise<boolean> {
+  let embedding: number[] | null = null;
+  if (options.openAIApiKey) {
+    try {
+      embedding = (await generateEmbedding(fact.content, options.openAIApiKey, {
+        source: 'conversation-memory',
+        context: options.usageContext,
+      })).embedding;
+
+      // Same fact in other words (the normalized-text check only catches exact repeats)
+      const { data: similar } = await supabase.rpc('match_agent_user_memories', {
+        p_user_id: conversation.user_id,
+        p_agent_id: conversation.agent_id,
+        query_embedding: JSON.stringify(embedding),
+        match_count: 1,
+      });
+      if (similar?.[0] && similar[0].similarity >= DUPLICATE_SIMILARITY) return false;
+    } catch (embeddingError) {
+      // Stored without embedding: embedPendingMemories picks it up on the next update
+      console.warn('[conversationMemory] Failed to embed fact:', embeddingError instanceof Error ? embeddingError.message : embeddingError);
+      embedding = null;
+    }
+  }
+
+  const { error } = await supabase.from('agent_user_memories').insert({
+    user_id: conversation.user_id,
+    agent_id: conversation.agent_id,
+    content: fact.content,
+    category: fact.category,
+    importance: fact.importance,
+    source: 'extracted',
+    source_conversation_id: conversation.id,
+    embedding: embedding ? JSON.stringify(embedding) : null,
+    embedding_model: embedding ? DEFAULT_EMBEDDING_MODEL : null,
+  });
+  if (error) {
+    console.error('[conversationMemory] Failed to store fact:', error.message);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Embed memories added or edited by the user (stored without embedding) and facts whose
+ * embedding failed at extraction time
+ */
+async function embedPendingMemories(
+  supabase: SupabaseClient,
+  userId: string,
+  agentId: string,
+  openAIApiKey: string,
+  usageContext?: UsageContext
+): Promise<number> {
+  const { data: pending } = await supabase
+    .from('agent_user_memories')
+    .select('id, content')
+    .eq('user_id', userId)
+    .eq('agent_id', agentId)
+    .is('embedding', null)
+    .limit(20);
+
+  let embedded = 0;
+  for (const memory of (pending || []) as { id: string; content: string }[]) {
+    try {
+      const { embedding } = await generateEmbedding(memory.content, openAIApiKey, { source: 'conversation-memory', context: usageContext });
+      await supabase
+        .from('agent_user_memories')
+        .update({ embedding: JSON.stringify(embedding), embedding_model: DEFAULT_EMBEDDING_MODEL })
+        .eq('id', memory.id);
+      embedded++;
+    } catch (embeddingError) {
+      console.warn(`[conversationMemory] Failed to embed memory ${memory.id}:`, embeddingError instanceof Error ? embeddingError.message : embeddingError);
+    }
+  }
+  return embedded;
+}
+
+/**
+ * Memory section for the system prompt. The summary takes at most 60% of the budget, the rest
+ * goes to the facts ranked by similarity to the query (all facts rank by importance when no
+ * embedding is available).
+ */
+export async function buildMemoryContext(supabase: SupabaseClient, options: MemoryContextOptions): Promise<MemoryContext> {
+  const budget = options.tokenBudget ?? DEFAULT_MEMORY_TOKEN_BUDGET;
+  let remaining = budget;
+  const parts: string[] = [];
+
+  if (options.summary) {
+    const summary = truncate(options.summary, Math.floor(budget * 0.6) * 4);
+    parts.push(`### Riepilogo della conversazione precedente\n${summary}`);
+    remaining -= estimateTokens(summary);
+  }
+
+  const { data: rows } = await supabase
+    .from('agent_user_memories')
+    .select('id, content, category, importance')
+    .eq('user_id', options.userId)
+    .eq('agent_id', options.agentId)
+    .order('importance', { ascending: false })
+    .order('updated_at', { ascending: false })
+    .limit(MAX_MEMORIES_PER_AGENT);
+  const memories = (rows || []) as UserMemory[];
+
+  const selected: UserMemory[] = [];
+  const lines: string[] = [];
+  if (memories.length > 0 && remaining > 0) {
+    const similarities = new Map<string, number>();
+    if (options.openAIApiKey && options.query.trim()) {
+      try {
+        const { embedding } = await generateEmbedding(options.query, options.openAIApiKey, {
+          source: 'conversation-memory',
+          context: options.usageContext,
+        });
+        const { data: matches } = await supabase.rpc('match_agent_user_memories', {
+          p_user_id: options.userId,
+          p_agent_id: options.agentId,
+          query_embedding: JSON.stringify(embedding),
+          match_count: 50,
+        });
+        for (const match of (matches || []) as UserMemory[]) similarities.set(match.id, match.similarity ?? 0);
+      } catch (embeddingError) {
+        console.warn('[conversationMemory] Query embedding failed, ranking memories by importance:', embeddingError instanceof Error ? embeddingError.message : embeddingError);
+      }
+    }
+
+    // Unembedded memories (just edited) rank as moderately similar rather than not at all
+    const score = (memory: UserMemory) =>
+      (similarities.size > 0 ? similarities.get(memory.id) ?? 0.5 : 0) + memory.importance * 0.05;
+    const ranked = [...memories].sort((a, b) => score(b) - score(a));
+
+    for (const memory of ranked) {
+      const line = `- [${CATEGORY_LABELS[memory.category] || memory.category}] ${memory.content}`;
+      const cost = estimateTokens(line) + 1;
+      if (cost > remaining) continue;
+      selected.push(memory);
+      lines.push(line);
+      remaining -= cost;
+    }
+    if (lines.length > 0) parts.push(`### Cosa sai dell'utente\n${lines.join('\n')}`);
+  }
+
+  if (parts.length === 0) return { section: '', memoryIds: [], tokens: 0 };
+
+  if (selected.length > 0) {
+    await supabase
+      .from('agent_user_memories')
+      .update({ last_used_at: new Date().toISOString() })
+      .in('id', selected.map(m => m.id));
+  }
+
+  const section = `\n\n## 🧠 MEMORIA\n\n${parts.join('\n\n')}\n\nUse this memory only when relevant to the current message. If the user says something that contradicts it, trust the user.\n`;
+  return { section, memoryIds: selected.map(m => m.id), tokens: budget - remaining };
+}
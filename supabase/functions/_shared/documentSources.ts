@@ -0,0 +1,298 @@
+/**
+ * Document Sources
+ *
+ * A document ingested from a live source (a PDF or page URL, a file in a GitHub repository) is
+ * registered in document_sources with a refresh policy. check-knowledge-freshness asks the source
+ * whether it changed, as cheaply as the source allows:
+ *   - url:    conditional GET (If-None-Match / If-Modified-Since), content hash when the server
+ *             sends no validators or answers 200 anyway
+ *   - github: SHA of the latest commit touching the path, content hash when the SHA moved
+ *             (a commit can touch the path without changing it)
+ *
+ * Only pipeline A-Hybrid documents are tracked: it is the pipeline that versions re-ingestion.
+ * web-scrape results are not persisted as documents and website connectors sync themselves.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { hashBytes, hashText, type VersionedPipeline } from './documentVersions.ts';
+
+export type DocumentSourceKind = 'url' | 'github';
+export type RefreshPolicy = 'auto' | 'notify' | 'manual';
+export type FreshnessStatus = 'fresh' | 'refreshing' | 'stale' | 'removed' | 'error';
+
+const SOURCE_USER_AGENT = 'Mozilla/5.0 (compatible; LovableBot/1.0)';
+const GITHUB_USER_AGENT = 'Lovable-Pipeline-A-Hybrid-GitHub-Ingest/1.0';
+const FETCH_TIMEOUT_MS = 30000;
+const ALERT_TTL_DAYS = 14;
+
+export interface DocumentSource {
+  id: string;
+  pipeline: VersionedPipeline;
+  document_id: string;
+  source_kind: DocumentSourceKind;
+  source_url: string | null;
+  repo_url: string | null;
+  repo_path: string | null;
+  branch: string | null;
+  refresh_policy: RefreshPolicy;
+  check_interval_hours: number;
+  etag: string | null;
+  last_modified: string | null;
+  commit_sha: string | null;
+  content_hash: string | null;
+  freshness_status: FreshnessStatus;
+  consecutive_failures: number;
+}
+
+export interface DocumentSourceRegistration {
+  documentId: string;
+  kind: DocumentSourceKind;
+  sourceUrl?: string;
+  repoUrl?: string;
+  repoPath?: string;
+  branch?: string | null;
+  contentHash: string | null;
+  // HTTP validators of the download the document was ingested from
+  etag?: string | null;
+  lastModified?: string | null;
+  refreshPolicy?: RefreshPolicy;
+  checkIntervalHours?: number;
+}
+
+/**
+ * Result of asking the source whether it changed. `content` is only set for 'changed': it is
+ * what the document must be re-ingested with (text for GitHub text files, bytes otherwise).
+ */
+export interface SourceCheck {
+  outcome: 'unchanged' | 'changed' | 'removed';
+  etag: string | null;
+  lastModified: string | null;
+  commitSha: string | null;
+  contentHash: string | null;
+  content?: { text: string } | { bytes: Uint8Array };
+}
+
+export class SourceCheckError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SourceCheckError';
+  }
+}
+
+/**
+ * Drop NUL and control characters (tab / newline / carriage return are kept) so the text can be
+ * stored in a text column. GitHub content hashes are computed on the sanitized text.
+ */
+export function sanitizeTextContent(content: string): string {
+  let result = '';
+  for (let i = 0; i < content.length; i++) {
+    const code = content.charCodeAt(i);
+    if (code >= 32 || code === 9 || code === 10 || code === 13) result += content[i];
+  }
+  return result;
+}
+
+/**
+ * Track the source of an ingested document. Re-registering the same document refreshes the
+ * location and the content hash and resets the status; the refresh policy and the check interval
+ * are only overwritten when given, so re-ingestion keeps what an admin configured.
+ */
+export async function registerDocumentSource(
+  supabase: SupabaseClient,
+  registration: DocumentSourceRegistration
+): Promise<void> {
+  const now = new Date().toISOString();
+  const row: Record<string, unknown> = {
+    pipeline: 'pipeline_a_hybrid',
+    document_id: registration.documentId,
+    source_kind: registration.kind,
+    source_url: registration.sourceUrl || null,
+    repo_url: registration.repoUrl || null,
+    repo_path: registration.repoPath || null,
+    branch: registration.branch || null,
+    content_hash: registration.contentHash,
+    etag: registration.etag || null,
+    last_modified: registration.lastModified || null,
+    commit_sha: null,
+    freshness_status: 'fresh',
+    consecutive_failures: 0,
+    last_error: null,
+    last_refreshed_at: now,
+    updated_at: now,
+  };
+  if (registration.refreshPolicy) row.refresh_policy = registration.refreshPolicy;
+  if (registration.checkIntervalHours) {
+    row.check_interval_hours = registration.checkIntervalHours;
+    row.next_check_at = new Date(Date.now() + registration.checkIntervalHours * 3600 * 1000).toISOString();
+  }
+
+  const { error } = await supabase.from('document_sources').upsert(row, { onConflict: 'pipeline,document_id' });
+  if (error) throw new Error(`Failed to register document source: ${error.message}`);
+}
+
+async function fetchWithTimeout(url: string, headers: Record<string, string>): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    return await fetch(url, { headers, signal: controller.signal, redirect: 'follow' });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function checkUrlSource(source: DocumentSource): Promise<SourceCheck> {
+  const headers: Record<string, string> = { 'User-Agent': SOURCE_USER_AGENT };
+  if (source.etag) headers['If-None-Match'] = source.etag;
+  if (source.last_modified) headers['If-Modified-Since'] = source.last_modified;
+
+  const response = await fetchWithTimeout(source.source_url!, headers);
+  const markers = {
+    etag: response.headers.get('etag') || source.etag,
+    lastModified: response.headers.get('last-modified') || source.last_modified,
+    commitSha: null,
+  };
+
+  if (response.status === 304) {
+    return { outcome: 'unchanged', ...markers, contentHash: source.content_hash };
+  }
+  if (response.status === 404 || response.status === 410) {
+    return { outcome: 'removed', ...markers, contentHash: source.content_hash };
+  }
+  if (!response.ok) {
+    throw new SourceCheckError(`${source.source_url} returned ${response.status} ${response.statusText}`);
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const contentHash = await hashBytes(bytes);
+  // No hash yet (sources registered before hashing): the first check only records a baseline
+  if (!source.content_hash || source.content_hash === contentHash) {
+    return { outcome: 'unchanged', ...markers, contentHash };
+  }
+  return { outcome: 'changed', ...markers, contentHash, content: { bytes } };
+}
+
+function githubHeaders(accept: string): Record<string, string> {
+  const headers: Record<string, string> = { 'Accept': accept, 'User-Agent': GITHUB_USER_AGENT };
+  const githubToken = Deno.env.get('GITHUB_TOKEN');
+  if (githubToken) headers['Authorization'] = `token ${githubToken}`;
+  return headers;
+}
+
+async function resolveGithubBranch(repoUrl: string): Promise<string> {
+  const response = await fetchWithTimeout(
+    `https://api.github.com/repos/${repoUrl}`,
+    githubHeaders('application/vnd.github.v3+json')
+  );
+  if (!response.ok) return 'main';
+  const repo = await response.json();
+  return repo.default_branch || 'main';
+}
+
+async function checkGithubSource(source: DocumentSource, isTextDocument: boolean): Promise<SourceCheck> {
+  const repoUrl = source.repo_url!;
+  const repoPath = source.repo_path!;
+  const branch = source.branch || await resolveGithubBranch(repoUrl);
+
+  const commitsResponse = await fetchWithTimeout(
+    `https://api.github.com/repos/${repoUrl}/commits?path=${encodeURIComponent(repoPath)}&sha=${encodeURIComponent(branch)}&per_page=1`,
+    githubHeaders('application/vnd.github.v3+json')
+  );
+  const unchangedMarkers = { etag: null, lastModified: null, commitSha: source.commit_sha, contentHash: source.content_hash };
+
+  // Repository (or branch) gone
+  if (commitsResponse.status === 404 || commitsResponse.status === 422) {
+    return { outcome: 'removed', ...unchangedMarkers };
+  }
+  if (!commitsResponse.ok) {
+    throw new SourceCheckError(`GitHub API returned ${commitsResponse.status} for ${repoUrl}/${repoPath}`);
+  }
+
+  const commits: { sha: string }[] = await commitsResponse.json();
+  // Without commits the path no longer exists on the branch
+  if (commits.length === 0) return { outcome: 'removed', ...unchangedMarkers };
+
+  const commitSha = commits[0].sha;
+  if (source.commit_sha === commitSha && source.content_hash) {
+    return { outcome: 'unchanged', ...unchangedMarkers };
+  }
+
+  const contentResponse = await fetchWithTimeout(
+    `https://raw.githubusercontent.com/${repoUrl}/${branch}/${repoPath}`,
+    githubHeaders('*/*')
+  );
+  if (contentResponse.status === 404) return { outcome: 'removed', ...unchangedMarkers, commitSha };
+  if (!contentResponse.ok) {
+    throw new SourceCheckError(`Failed to fetch ${repoUrl}/${repoPath}: ${contentResponse.status} ${contentResponse.statusText}`);
+  }
+
+  let content: { text: string } | { bytes: Uint8Array };
+  let contentHash: string;
+  if (isTextDocument) {
+    const text = sanitizeTextContent(await contentResponse.text());
+    content = { text };
+    contentHash = await hashText(text);
+  } else {
+    const bytes = new Uint8Array(await contentResponse.arrayBuffer());
+    content = { bytes };
+    contentHash = await hashBytes(bytes);
+  }
+
+  const markers = { etag: null, lastModified: null, commitSha, contentHash };
+  if (!source.content_hash || source.content_hash === contentHash) return { outcome: 'unchanged', ...markers };
+  return { outcome: 'changed', ...markers, content };
+}
+
+/**
+ * Ask the source of a document whether it changed since the last check.
+ * `isTextDocument`: the document is stored as full_text (GitHub text files), not as a file.
+ */
+export function checkDocumentSource(source: DocumentSource, isTextDocument: boolean): Promise<SourceCheck> {
+  return source.source_kind === 'github'
+    ? checkGithubSource(source, isTextDocument)
+    : checkUrlSource(source);
+}
+
+/**
+ * Raise an agent_alerts entry for every agent with active knowledge from the document.
+ * Returns the number of alerts created.
+ */
+export async function alertDependentAgents(
+  supabase: SupabaseClient,
+  source: DocumentSource,
+  fileName: string,
+  status: 'stale' | 'removed',
+  reason: string
+): Promise<number> {
+  const { data: agents, error } = await supabase.rpc('get_document_dependent_agents', {
+    p_document_id: source.document_id,
+  });
+  if (error) throw new Error(`Failed to load dependent agents: ${error.message}`);
+  if (!agents || agents.length === 0) return 0;
+
+  const location = source.source_kind === 'github' ? `${source.repo_url}/${source.repo_path}` : source.source_url;
+  const expiresAt = new Date(Date.now() + ALERT_TTL_DAYS * 24 * 3600 * 1000).toISOString();
+  const alerts = (agents as { agent_id: string; agent_name: string; user_id: string | null }[]).map(agent => ({
+    agent_id: agent.agent_id,
+    user_id: agent.user_id,
+    alert_type: status === 'removed' ? 'knowledge_source_removed' : 'knowledge_source_stale',
+    severity: status === 'removed' ? 'error' : 'warning',
+    title: status === 'removed' ? 'Fonte della Knowledge Rimossa' : 'Knowledge Non Aggiornata',
+    message: status === 'removed'
+      ? `La fonte di "${fileName}" usata da "${agent.agent_name}" non è più disponibile (${location})`
+      : `"${fileName}" usato da "${agent.agent_name}" non è allineato alla fonte: ${reason}`,
+    details: {
+      document_id: source.document_id,
+      document_source_id: source.id,
+      source_kind: source.source_kind,
+      location,
+      reason,
+    },
+    action_type: 'view_freshness',
+    action_url: '/admin?tab=freshness',
+    expires_at: expiresAt,
+  }));
+
+  const { error: insertError } = await supabase.from('agent_alerts').insert(alerts);
+  if (insertError) throw new Error(`Failed to create freshness alerts: ${insertError.message}`);
+  return alerts.length;
+}
@@ -0,0 +1,269 @@
+/**
+ * Document Versions
+ *
+ * Re-ingesting a document (same file_name / repo path) keeps the document row and its id; the new
+ * content becomes a new content-hashed version in document_versions. When the new version is
+ * chunked, the chunk set is diffed against the current one by chunk hash:
+ *   - unchanged chunks keep their row and embedding (position and page are refreshed)
+ *   - new or changed chunks are inserted as 'pending' and embedded as usual
+ *   - chunks that disappeared are retired (embedding_status='retired') and unlinked from agents
+ *
+ * Agents that had the document keep it: the new chunks are linked to them right away and become
+ * searchable once their embedding is ready.
+ *
+ * Versioned pipelines: A-Hybrid (markdown and GitHub ingestion), A and B (markdown and connector
+ * documents re-ingested through ingestSink.ts). Not versioned: Pipeline C, pipeline-a-ingest-github
+ * (skips repo paths already ingested) and the PDF/video ingest functions (a re-upload is a new document).
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export type VersionedPipeline = 'pipeline_a' | 'pipeline_a_hybrid' | 'pipeline_b';
+export type DocumentVersionStatus = 'processing' | 'completed' | 'failed';
+
+// hashedColumns: the HashableChunk fields the chunk table has
+const PIPELINE_TABLES: Record<VersionedPipeline, { documents: string; chunks: string; agentKnowledge: string; hashedColumns: string }> = {
+  pipeline_a: {
+    documents: 'pipeline_a_documents',
+    chunks: 'pipeline_a_chunks_raw',
+    agentKnowledge: 'pipeline_a_agent_knowledge',
+    hashedColumns: 'content, original_content, chunk_type, heading_hierarchy',
+  },
+  pipeline_a_hybrid: {
+    documents: 'pipeline_a_hybrid_documents',
+    chunks: 'pipeline_a_hybrid_chunks_raw',
+    agentKnowledge: 'pipeline_a_hybrid_agent_knowledge',
+    hashedColumns: 'content, original_content, chunk_type, heading_hierarchy',
+  },
+  pipeline_b: {
+    documents: 'pipeline_b_documents',
+    chunks: 'pipeline_b_chunks_raw',
+    agentKnowledge: 'pipeline_b_agent_knowledge',
+    hashedColumns: 'content, chunk_type',
+  },
+};
+
+const ID_BATCH_SIZE = 100;
+const INSERT_BATCH_SIZE = 50;
+
+export interface DocumentVersion {
+  id: string;
+  version: number;
+  content_hash: string;
+  status: DocumentVersionStatus;
+}
+
+// Chunk fields that end up in the embedding input
+export interface HashableChunk {
+  content: string;
+  original_content?: string | null;
+  chunk_type?: string | null;
+  heading_hierarchy?: unknown;
+}
+
+export interface ChunkDiff {
+  added: number;
+  kept: number;
+  retired: number;
+  agentIds: string[];
+}
+
+export function hashText(text: string): Promise<string> {
+  return hashBytes(new TextEncoder().encode(text));
+}
+
+export async function hashBytes(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function hashChunk(chunk: HashableChunk): Promise<string> {
+  return hashText(JSON.stringify([
+    chunk.chunk_type || 'text',
+    chunk.heading_hierarchy ?? null,
+    chunk.content,
+    chunk.original_content ?? null,
+  ]));
+}
+
+function batches<T>(items: T[], size: number): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) result.push(items.slice(i, i + size));
+  return result;
+}
+
+/**
+ * Open a new version for a document. Returns null when the content hash matches the current
+ * version, i.e. there is nothing to re-ingest.
+ */
+export async function beginDocumentVersion(
+  supabase: SupabaseClient,
+  pipeline: VersionedPipeline,
+  documentId: string,
+  contentHash: string,
+  source: string | null = null
+): Promise<DocumentVersion | null> {
+  const { data: latest, error } = await supabase
+    .from('document_versions')
+    .select('id, version, content_hash, status')
+    .eq('pipeline', pipeline)
+    .eq('document_id', documentId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load document versions: ${error.message}`);
+  if (latest && latest.content_hash === contentHash && latest.status !== 'failed') return null;
+
+  const version = (latest?.version || 0) + 1;
+  const { data: created, error: insertError } = await supabase
+    .from('document_versions')
+    .insert({ pipeline, document_id: documentId, version, content_hash: contentHash, source })
+    .select('id, version, content_hash, status')
+    .single();
+
+  if (insertError || !created) throw new Error(`Failed to create document version: ${insertError?.message || 'no row'}`);
+
+  await supabase
+    .from(PIPELINE_TABLES[pipeline].documents)
+    .update({ content_hash: contentHash, current_version: version })
+    .eq('id', documentId);
+
+  return created as DocumentVersion;
+}
+
+/**
+ * The version waiting for its chunks, if any
+ */
+export async function getProcessingVersion(
+  supabase: SupabaseClient,
+  pipeline: VersionedPipeline,
+  documentId: string
+): Promise<DocumentVersion | null> {
+  const { data } = await supabase
+    .from('document_versions')
+    .select('id, version, content_hash, status')
+    .eq('pipeline', pipeline)
+    .eq('document_id', documentId)
+    .eq('status', 'processing')
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return (data as DocumentVersion | null) || null;
+}
+
+export async function completeDocumentVersion(
+  supabase: SupabaseClient,
+  versionId: string,
+  diff: Pick<ChunkDiff, 'added' | 'kept' | 'retired'>
+): Promise<void> {
+  const { error } = await supabase
+    .from('document_versions')
+    .update({
+      status: 'completed',
+      chunks_added: diff.added,
+      chunks_kept: diff.kept,
+      chunks_retired: diff.retired,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', versionId);
+  if (error) console.error(`[DocumentVersions] Failed to complete version ${versionId}:`, error.message);
+}
+
+export async function failDocumentVersion(supabase: SupabaseClient, versionId: string, errorMessage: string): Promise<void> {
+  const { error } = await supabase
+    .from('document_versions')
+    .update({ status: 'failed', error_message: errorMessage, completed_at: new Date().toISOString() })
+    .eq('id', versionId);
+  if (error) console.error(`[DocumentVersions] Failed to mark version ${versionId} as failed:`, error.message);
+}
+
+/**
+ * Apply a new chunk set to a document that already has chunks. Incoming records must carry
+ * content_hash (see hashChunk); records with a hash already present are not re-inserted.
+ */
+export async function reconcileDocumentChunks(
+  supabase: SupabaseClient,
+  pipeline: VersionedPipeline,
+  documentId: string,
+  incoming: (HashableChunk & { content_hash: string; chunk_index: number; page_number?: number | null })[]
+): Promise<ChunkDiff> {
+  const tables = PIPELINE_TABLES[pipeline];
+
+  const { data, error } = await supabase
+    .from(tables.chunks)
+    .select(`id, content_hash, ${tables.hashedColumns}`)
+    .eq('document_id', documentId)
+    .neq('embedding_status', 'retired');
+  if (error) throw new Error(`Failed to load current chunks: ${error.message}`);
+  const current = data as unknown as (HashableChunk & { id: string; content_hash: string | null })[] | null;
+
+  // Same hash may appear more than once (repeated boilerplate): match them one to one
+  const available = new Map<string, string[]>();
+  for (const chunk of current || []) {
+    const hash = chunk.content_hash || await hashChunk(chunk);
+    available.set(hash, [...(available.get(hash) || []), chunk.id]);
+  }
+
+  const kept: { id: string; record: typeof incoming[number] }[] = [];
+  const added: typeof incoming = [];
+  for (const record of incoming) {
+    const id = available.get(record.content_hash)?.shift();
+    if (id) kept.push({ id, record });
+    else added.push(record);
+  }
+  const retiredIds = [...available.values()].flat();
+
+  // Agents of the document, read before the retired chunks lose their links
+  const agentIds = new Set<string>();
+  for (const ids of batches((current || []).map(c => c.id), ID_BATCH_SIZE)) {
+    const { data: links } = await supabase
+      .from(tables.agentKnowledge)
+      .select('agent_id')
+      .in('chunk_id', ids)
+      .eq('is_active', true);
+    (links || []).forEach((link: { agent_id: string }) => agentIds.add(link.agent_id));
+  }
+
+  for (const { id, record } of kept) {
+    await supabase
+      .from(tables.chunks)
+      .update({ chunk_index: record.chunk_index, page_number: record.page_number ?? null, content_hash: record.content_hash })
+      .eq('id', id);
+  }
+
+  const retiredAt = new Date().toISOString();
+  for (const ids of batches(retiredIds, ID_BATCH_SIZE)) {
+    await supabase
+      .from(tables.chunks)
+      .update({ embedding_status: 'retired', retired_at: retiredAt })
+      .in('id', ids);
+    await supabase
+      .from(tables.agentKnowledge)
+      .update({ is_active: false })
+      .in('chunk_id', ids);
+  }
+
+  for (const batch of batches(added, INSERT_BATCH_SIZE)) {
+    const { data: inserted, error: insertError } = await supabase
+      .from(tables.chunks)
+      .insert(batch.map(record => ({ ...record, document_id: documentId })))
+      .select('id');
+    if (insertError) throw new Error(`Failed to insert chunks: ${insertError.message}`);
+
+    if (agentIds.size > 0 && inserted && inserted.length > 0) {
+      const syncedAt = new Date().toISOString();
+      const { error: linkError } = await supabase
+        .from(tables.agentKnowledge)
+        .upsert(
+          inserted.flatMap((chunk: { id: string }) =>
+            [...agentIds].map(agentId => ({ agent_id: agentId, chunk_id: chunk.id, is_active: true, synced_at: syncedAt }))
+          ),
+          { onConflict: 'agent_id,chunk_id', ignoreDuplicates: false }
+        );
+      if (linkError) console.error(`[DocumentVersions] Failed to link new chunks to agents:`, linkError.message);
+    }
+  }
+
+  return { added: added.length, kept: kept.length, retired: retiredIds.length, agentIds: [...agentIds] };
+}
@@ -0,0 +1,74 @@
+/**
+ * Embedding Collections
+ *
+ * Each pipeline is a collection with one active embedding model (embedding_collections):
+ * - new chunks are embedded with the write model: the re-index target while a re-index job
+ *   runs (so they never need migrating), the active model otherwise
+ * - queries are embedded with every model the collection currently holds (active + re-index
+ *   target) and each vector is only compared with chunks of the same model
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { DEFAULT_EMBEDDING_MODEL, EMBEDDING_DIMENSION, getEmbeddingModel, type EmbeddingModelSpec } from './embeddingService.ts';
+import type { PipelineSource } from './unifiedRetrieval.ts';
+
+export interface EmbeddingCollection {
+  pipeline: PipelineSource;
+  embedding_model: string;
+  embedding_dimension: number;
+  reindex_model: string | null;
+}
+
+export const COLLECTION_CHUNK_TABLES: Record<PipelineSource, string> = {
+  pipeline_a: 'pipeline_a_chunks_raw',
+  pipeline_a_hybrid: 'pipeline_a_hybrid_chunks_raw',
+  pipeline_b: 'pipeline_b_chunks_raw',
+  pipeline_c: 'pipeline_c_chunks_raw',
+};
+
+function defaultCollection(pipeline: PipelineSource): EmbeddingCollection {
+  return { pipeline, embedding_model: DEFAULT_EMBEDDING_MODEL, embedding_dimension: EMBEDDING_DIMENSION, reindex_model: null };
+}
+
+/**
+ * All collections; missing rows (or a failed read) fall back to the default model
+ */
+export async function getEmbeddingCollections(
+  supabase: SupabaseClient
+): Promise<Record<PipelineSource, EmbeddingCollection>> {
+  const collections = {
+    pipeline_a: defaultCollection('pipeline_a'),
+    pipeline_a_hybrid: defaultCollection('pipeline_a_hybrid'),
+    pipeline_b: defaultCollection('pipeline_b'),
+    pipeline_c: defaultCollection('pipeline_c'),
+  };
+
+  const { data, error } = await supabase
+    .from('embedding_collections')
+    .select('pipeline, embedding_model, embedding_dimension, reindex_model');
+
+  if (error) {
+    console.warn('[EmbeddingCollections] Could not load collections, using defaults:', error.message);
+    return collections;
+  }
+
+  for (const row of (data || []) as EmbeddingCollection[]) {
+    if (row.pipeline in collections) collections[row.pipeline] = row;
+  }
+  return collections;
+}
+
+/**
+ * Model for newly embedded chunks of a pipeline
+ */
+export async function getWriteModel(supabase: SupabaseClient, pipeline: PipelineSource): Promise<EmbeddingModelSpec> {
+  const collection = (await getEmbeddingCollections(supabase))[pipeline];
+  return getEmbeddingModel(collection.reindex_model || collection.embedding_model);
+}
+
+/**
+ * Models a query has to be embedded with to search the whole collection
+ */
+export function searchModels(collection: EmbeddingCollection): string[] {
+  return [...new Set([collection.embedding_model, collection.reindex_model].filter((m): m is string => !!m))];
+}
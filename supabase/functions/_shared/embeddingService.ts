@@ -1,12 +1,25 @@
 /**
  * Embedding Service
- * Provides reliable OpenAI embedding generation with retry logic and batch processing
+ * Provides reliable embedding generation with retry logic and batch processing.
+ *
+ * Models are resolved through EMBEDDING_MODELS; each model maps to a provider:
+ * - openai: text-embedding-3-small (default), text-embedding-3-large reduced to 1536 dimensions
+ * - gemini: gemini-embedding-001 reduced to 1536 dimensions
+ * - local:  deterministic feature-hashing embedder, no network and no key (offline tests)
+ *
+ * Every chunk stores the model that produced its vector (embedding_model / embedding_dimension)
+ * and vectors from different models are never compared (see unifiedRetrieval.ts).
+ * All chunk tables use vector(1536), so every model must produce 1536 dimensions.
  */
 
+import { reportLLMUsage, usageFromPayload } from './llmGateway.ts';
+import { enforceAgentBudget, type UsageContext } from './usageLedger.ts';
+
 export interface EmbeddingResult {
   embedding: number[];
   text: string;
   model: string;
+  dimension: number;
 }
 
 export interface EmbeddingError {
@@ -15,61 +28,230 @@ export interface EmbeddingError {
   attemptNumber: number;
 }
 
-const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+// Usage ledger attribution (source = calling edge function); model defaults to DEFAULT_EMBEDDING_MODEL
+export interface EmbeddingUsageOptions {
+  source?: string;
+  context?: UsageContext;
+  model?: string | null;
+}
+
+export type EmbeddingProviderName = 'openai' | 'gemini' | 'local';
+
+export interface EmbeddingModelSpec {
+  id: string;                    // stored in chunks.embedding_model
+  provider: EmbeddingProviderName;
+  providerModel: string;
+  dimension: number;
+  apiKeyEnv: string | null;
+  label: string;
+}
+
+export const EMBEDDING_DIMENSION = 1536;
+export const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+export const EMBEDDING_MODELS: Record<string, EmbeddingModelSpec> = {
+  'text-embedding-3-small': {
+    id: 'text-embedding-3-small',
+    provider: 'openai',
+    providerModel: 'text-embedding-3-small',
+    dimension: 1536,
+    apiKeyEnv: 'OPENAI_API_KEY',
+    label: 'OpenAI text-embedding-3-small',
+  },
+  'text-embedding-3-large-1536': {
+    id: 'text-embedding-3-large-1536',
+    provider: 'openai',
+    providerModel: 'text-embedding-3-large',
+    dimension: 1536,
+    apiKeyEnv: 'OPENAI_API_KEY',
+    label: 'OpenAI text-embedding-3-large (1536)',
+  },
+  'gemini-embedding-001-1536': {
+    id: 'gemini-embedding-001-1536',
+    provider: 'gemini',
+    providerModel: 'gemini-embedding-001',
+    dimension: 1536,
+    apiKeyEnv: 'GOOGLE_AI_STUDIO_API_KEY',
+    label: 'Google gemini-embedding-001 (1536)',
+  },
+  'local-hash-1536': {
+    id: 'local-hash-1536',
+    provider: 'local',
+    providerModel: 'feature-hashing',
+    dimension: 1536,
+    apiKeyEnv: null,
+    label: 'Local hashing (offline, test only)',
+  },
+};
+
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 1000;
 const REQUEST_TIMEOUT_MS = 30000;
 
+/**
+ * Model spec by id; null/undefined = default model
+ */
+export function getEmbeddingModel(modelId?: string | null): EmbeddingModelSpec {
+  const spec = EMBEDDING_MODELS[modelId || DEFAULT_EMBEDDING_MODEL];
+  if (!spec) throw new Error(`Unknown embedding model: ${modelId}`);
+  return spec;
+}
+
+// FNV-1a: stable across runtimes, good enough spread for feature hashing
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic local embedding: unigrams and bigrams hashed into signed buckets, L2-normalised.
+ * Same text → same vector, shared words → positive cosine; no semantics beyond lexical overlap.
+ */
+export function localHashEmbedding(text: string, dimension: number = EMBEDDING_DIMENSION): number[] {
+  const vector = new Array<number>(dimension).fill(0);
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)];
+
+  for (const feature of features) {
+    const hash = fnv1a(feature);
+    vector[hash % dimension] += (hash & 0x80000000) ? -1 : 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) {
+    vector[0] = 1; // no tokens: unit vector instead of a zero vector (cosine undefined)
+    return vector;
+  }
+  return vector.map(v => v / norm);
+}
+
+/**
+ * One provider call. apiKey is only used by OpenAI models (legacy callers pass OPENAI_API_KEY);
+ * other providers read their own key.
+ */
+async function requestEmbedding(
+  spec: EmbeddingModelSpec,
+  text: string,
+  apiKey: string,
+  signal: AbortSignal
+): Promise<{ embedding: number[]; payload: unknown }> {
+  switch (spec.provider) {
+    case 'local':
+      return { embedding: localHashEmbedding(text, spec.dimension), payload: null };
+
+    case 'openai': {
+      if (!apiKey) throw new Error('OpenAI API key not provided');
+      const response = await fetch('https://api.openai.com/v1/embeddings', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: spec.providerModel,
+          input: text,
+          // text-embedding-3-small is natively 1536: only send dimensions when reducing
+          ...(spec.providerModel !== 'text-embedding-3-small' ? { dimensions: spec.dimension } : {}),
+        }),
+        signal,
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`OpenAI API error (${response.status}): ${errorText}`);
+      }
+      const data = await response.json();
+      if (!data.data || !data.data[0] || !data.data[0].embedding) {
+        throw new Error('Invalid response format from OpenAI API');
+      }
+      return { embedding: data.data[0].embedding, payload: data };
+    }
+
+    case 'gemini': {
+      const geminiKey = Deno.env.get(spec.apiKeyEnv!);
+      if (!geminiKey) throw new Error(`${spec.apiKeyEnv} not configured`);
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${spec.providerModel}:embedContent?key=${geminiKey}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            model: `models/${spec.providerModel}`,
+            content: { parts: [{ text }] },
+            outputDimensionality: spec.dimension,
+          }),
+          signal,
+        }
+      );
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Gemini API error (${response.status}): ${errorText}`);
+      }
+      const data = await response.json();
+      const values = data.embedding?.values;
+      if (!Array.isArray(values)) throw new Error('Invalid response format from Gemini API');
+      // Reduced Gemini vectors are not normalised
+      const norm = Math.sqrt(values.reduce((sum: number, v: number) => sum + v * v, 0)) || 1;
+      return { embedding: values.map((v: number) => v / norm), payload: data };
+    }
+  }
+}
+
 /**
  * Generate embedding for a single text with retry logic
  */
 export async function generateEmbedding(
   text: string,
   apiKey: string,
+  options: EmbeddingUsageOptions = {},
   attemptNumber: number = 1
 ): Promise<EmbeddingResult> {
   if (!text || text.trim().length === 0) {
     throw new Error('Empty text provided for embedding generation');
   }
 
-  if (!apiKey) {
-    throw new Error('OpenAI API key not provided');
-  }
+  const spec = getEmbeddingModel(options.model);
+  // Over the hard budget of the agent the embedding is billed to (the model can't be downgraded:
+  // vectors must match the indexed ones)
+  if (spec.provider !== 'local' && attemptNumber === 1) await enforceAgentBudget(options.context);
 
   try {
+    const startTime = Date.now();
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
 
-    const response = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: OPENAI_EMBEDDING_MODEL,
-        input: text,
-      }),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
+    let result: { embedding: number[]; payload: unknown };
+    try {
+      result = await requestEmbedding(spec, text, apiKey, controller.signal);
+    } finally {
+      clearTimeout(timeoutId);
+    }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenAI API error (${response.status}): ${errorText}`);
+    if (result.embedding.length !== spec.dimension) {
+      throw new Error(`${spec.id} returned ${result.embedding.length} dimensions (expected ${spec.dimension})`);
     }
 
-    const data = await response.json();
-    
-    if (!data.data || !data.data[0] || !data.data[0].embedding) {
-      throw new Error('Invalid response format from OpenAI API');
+    if (spec.provider !== 'local') {
+      const provider = spec.provider === 'gemini' ? 'google' : 'openai';
+      reportLLMUsage({
+        source: options.source || 'embeddingService',
+        provider,
+        model: spec.providerModel,
+        usage: usageFromPayload(provider, spec.providerModel, result.payload as Parameters<typeof usageFromPayload>[2]),
+        latencyMs: Date.now() - startTime,
+        operation: 'embedding',
+        context: options.context,
+      });
     }
 
     return {
-      embedding: data.data[0].embedding,
+      embedding: result.embedding,
       text,
-      model: OPENAI_EMBEDDING_MODEL,
+      model: spec.id,
+      dimension: spec.dimension,
     };
 
   } catch (error) {
@@ -81,7 +263,7 @@ export async function generateEmbedding(
         `[embeddingService] Attempt ${attemptNumber} failed: ${errorMessage}. Retrying in ${RETRY_DELAY_MS}ms...`
       );
       await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attemptNumber));
-      return generateEmbedding(text, apiKey, attemptNumber + 1);
+      return generateEmbedding(text, apiKey, options, attemptNumber + 1);
     }
 
     // Max retries exceeded
@@ -96,7 +278,8 @@ export async function generateEmbeddingsBatch(
   texts: string[],
   apiKey: string,
   batchSize: number = 10,
-  onProgress?: (completed: number, total: number) => void
+  onProgress?: (completed: number, total: number) => void,
+  options: EmbeddingUsageOptions = {}
 ): Promise<{ successes: EmbeddingResult[]; failures: EmbeddingError[] }> {
   const successes: EmbeddingResult[] = [];
   const failures: EmbeddingError[] = [];
@@ -115,7 +298,7 @@ export async function generateEmbeddingsBatch(
     const batchPromises = batch.map(async (text, batchIndex) => {
       const globalIndex = i + batchIndex;
       try {
-        const result = await generateEmbedding(text, apiKey);
+        const result = await generateEmbedding(text, apiKey, options);
         successes.push(result);
         
         if (onProgress) {
@@ -159,7 +342,7 @@ export async function generateEmbeddingsBatch(
 /**
  * Validate embedding result
  */
-export function validateEmbedding(embedding: number[]): { valid: boolean; reason?: string } {
+export function validateEmbedding(embedding: number[], dimension: number = EMBEDDING_DIMENSION): { valid: boolean; reason?: string } {
   if (!Array.isArray(embedding)) {
     return { valid: false, reason: 'Embedding is not an array' };
   }
@@ -168,9 +351,8 @@ export function validateEmbedding(embedding: number[]): { valid: boolean; reason
     return { valid: false, reason: 'Embedding is empty' };
   }
 
-  // text-embedding-3-small produces 1536-dimensional vectors
-  if (embedding.length !== 1536) {
-    return { valid: false, reason: `Invalid embedding dimension: ${embedding.length} (expected 1536)` };
+  if (embedding.length !== dimension) {
+    return { valid: false, reason: `Invalid embedding dimension: ${embedding.length} (expected ${dimension})` };
   }
 
   // Check for NaN or Infinity values
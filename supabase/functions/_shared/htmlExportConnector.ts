@@ -0,0 +1,98 @@
+/**
+ * HTML export connector (Notion / Confluence "Export to HTML")
+ *
+ * config: { bucket: "connector-uploads", path: "exports/space.zip" }
+ *
+ * Every .html page in the archive becomes a document. Uploading a newer export to the same path
+ * and syncing again only enqueues the pages whose HTML changed (per-page hash in the cursor).
+ * Notion appends a 32-char id to file names ("Onboarding 1a2b….html"); it is dropped from titles.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { strFromU8, unzipSync } from 'https://esm.sh/fflate@0.8.2';
+import {
+  ConnectorError,
+  downloadStorageFile,
+  requireString,
+  type Connector,
+  type ConnectorCursor,
+  type ConnectorDocument,
+  type ConnectorItem,
+  type ConnectorListing,
+} from './connectors.ts';
+import { extractHtmlTitle, htmlToMarkdown } from './htmlToMarkdown.ts';
+import { hashText } from './documentVersions.ts';
+
+const HTML_FILE = /\.html?$/i;
+const NOTION_ID_SUFFIX = /\s+[0-9a-f]{32}$/i;
+
+// Navigation pages of a Confluence export, no content of their own
+const SKIPPED_PAGES = new Set(['index.html']);
+
+function titleFromPath(path: string): string {
+  const fileName = path.split('/').pop() || path;
+  return fileName.replace(HTML_FILE, '').replace(NOTION_ID_SUFFIX, '').replace(/[_-]+/g, ' ').trim() || fileName;
+}
+
+export class HtmlExportConnector implements Connector {
+  readonly type = 'html_export' as const;
+  private readonly bucket: string;
+  private readonly path: string;
+  private pages: Record<string, string> | null = null;
+
+  constructor(private readonly supabase: SupabaseClient, config: Record<string, unknown>) {
+    this.bucket = requireString(config, 'bucket');
+    this.path = requireString(config, 'path');
+  }
+
+  // Archive is read once per connector instance (the queue worker fetches several pages in a row)
+  private async loadPages(): Promise<Record<string, string>> {
+    if (this.pages) return this.pages;
+    const archive = await downloadStorageFile(this.supabase, this.bucket, this.path);
+    let files: Record<string, Uint8Array>;
+    try {
+      files = unzipSync(archive, {
+        filter: file => HTML_FILE.test(file.name) && !file.name.startsWith('__MACOSX/'),
+      });
+    } catch (error) {
+      throw new ConnectorError(`${this.path} is not a valid zip archive: ${error instanceof Error ? error.message : error}`);
+    }
+
+    this.pages = Object.fromEntries(
+      Object.entries(files)
+        .filter(([name]) => !SKIPPED_PAGES.has(name.split('/').pop()!.toLowerCase()))
+        .map(([name, data]) => [name, strFromU8(data)])
+    );
+    return this.pages;
+  }
+
+  async listItems(cursor: ConnectorCursor | null): Promise<ConnectorListing> {
+    // Cursor: { hashes: path → HTML hash at the last sync }
+    const previous = (cursor?.hashes as Record<string, string> | undefined) || {};
+    const pages = await this.loadPages();
+
+    const hashes: Record<string, string> = {};
+    const items: ConnectorItem[] = [];
+    for (const [path, html] of Object.entries(pages)) {
+      const hash = await hashText(html);
+      hashes[path] = hash;
+      if (previous[path] === hash) continue;
+      items.push({ key: path, title: extractHtmlTitle(html) || titleFromPath(path), version: hash });
+    }
+    return { items, cursor: { hashes } };
+  }
+
+  async fetchItem(item: ConnectorItem): Promise<ConnectorDocument> {
+    const html = (await this.loadPages())[item.key];
+    if (html === undefined) throw new ConnectorError(`${item.key} is no longer in ${this.path}`);
+
+    const title = extractHtmlTitle(html) || titleFromPath(item.key);
+    const markdown = htmlToMarkdown(html);
+    return {
+      key: item.key,
+      title,
+      markdown: markdown.startsWith('# ') ? markdown : `# ${title}\n\n${markdown}`,
+      sourceUrl: null,
+    };
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * HTML → Markdown
+ *
+ * Lightweight regex converter for the HTML we ingest (crawled pages, Notion/Confluence exports,
+ * HTML e-mails). Keeps what the markdown chunker understands: headings, paragraphs, lists,
+ * links, code blocks and tables. Navigation, scripts, styles and forms are dropped.
+ */
+
+const DROPPED_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'nav', 'footer', 'form', 'iframe', 'head'];
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  egrave: 'è', eacute: 'é', agrave: 'à', ograve: 'ò', ugrave: 'ù', igrave: 'ì',
+  Egrave: 'È', Eacute: 'É', Agrave: 'À', laquo: '«', raquo: '»', hellip: '…',
+  ndash: '–', mdash: '—', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', euro: '€', copy: '©',
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+function stripTags(html: string): string {
+  return decodeHtmlEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * <title>, or the first <h1>, of a page
+ */
+export function extractHtmlTitle(html: string): string | null {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+    || html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i)?.[1];
+  const text = title ? stripTags(title) : '';
+  return text || null;
+}
+
+/**
+ * href values of <a> tags, resolved against baseUrl (fragments removed)
+ */
+export function extractHtmlLinks(html: string, baseUrl: string): string[] {
+  const links = new Set<string>();
+  for (const match of html.matchAll(/<a\b[^>]*\bhref\s*=\s*["']([^"']+)["']/gi)) {
+    try {
+      const url = new URL(decodeHtmlEntities(match[1]), baseUrl);
+      url.hash = '';
+      if (url.protocol === 'http:' || url.protocol === 'https:') links.add(url.toString());
+    } catch {
+      // Malformed href
+    }
+  }
+  return [...links];
+}
+
+function convertTable(tableHtml: string): string {
+  const rows = [...tableHtml.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)].map(row =>
+    [...row[1].matchAll(/<t[hd][^>]*>([\s\S]*?)<\/t[hd]>/gi)].map(cell => stripTags(cell[1]).replace(/\|/g, '\\|'))
+  ).filter(cells => cells.length > 0);
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map(r => r.length));
+  const pad = (cells: string[]) => [...cells, ...Array(width - cells.length).fill('')];
+  const [header, ...body] = rows;
+  return [
+    `| ${pad(header).join(' | ')} |`,
+    `| ${Array(width).fill('---').join(' | ')} |`,
+    ...body.map(cells => `| ${pad(cells).join(' | ')} |`),
+  ].join('\n');
+}
+
+/**
+ * Convert an HTML document (or fragment) to markdown. Only <main>/<article> is kept when present.
+ */
+export function htmlToMarkdown(html: string): string {
+  let body = html.match(/<body[^>]*>([\s\S]*?)<\/body>/i)?.[1] ?? html;
+  const main = body.match(/<(main|article)\b[^>]*>([\s\S]*?)<\/\1>/i)?.[2];
+  if (main && stripTags(main).length > 200) body = main;
+
+  body = body.replace(/<!--[\s\S]*?-->/g, '');
+  for (const tag of DROPPED_ELEMENTS) {
+    body = body.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}>`, 'gi'), '');
+  }
+
+  // Blocks whose content must not be touched by the inline rules
+  const blocks: string[] = [];
+  const keep = (markdown: string) => `\n\n\uE000${blocks.push(markdown) - 1}\uE000\n\n`;
+
+  body = body
+    .replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, (_, code: string) =>
+      keep('```\n' + decodeHtmlEntities(code.replace(/<[^>]+>/g, '')).replace(/\n+$/, '') + '\n```'))
+    .replace(/<table[^>]*>([\s\S]*?)<\/table>/gi, (_, table: string) => keep(convertTable(table)));
+
+  body = body
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${stripTags(text)}\n\n`)
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<hr[^>]*>/gi, '\n\n---\n\n')
+    .replace(/<li[^>]*>([\s\S]*?)<\/li>/gi, (_, text: string) => `\n- ${stripTags(text)}`)
+    .replace(/<\/?(ul|ol)[^>]*>/gi, '\n\n')
+    .replace(/<blockquote[^>]*>([\s\S]*?)<\/blockquote>/gi, (_, text: string) => `\n\n> ${stripTags(text)}\n\n`)
+    .replace(/<a\b[^>]*\bhref\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, text: string) => {
+      const label = stripTags(text);
+      return label && !href.startsWith('#') && !href.startsWith('javascript:') ? `[${label}](${href})` : label;
+    })
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, __, text: string) => `**${stripTags(text)}**`)
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, __, text: string) => `*${stripTags(text)}*`)
+    .replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, (_, text: string) => `\`${stripTags(text)}\``)
+    .replace(/<\/(p|div|section|article|main|aside|figure|dl|dd|dt)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, ' ');
+
+  const markdown = decodeHtmlEntities(body)
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return markdown.replace(/\uE000(\d+)\uE000/g, (_, index: string) => blocks[Number(index)]);
+}
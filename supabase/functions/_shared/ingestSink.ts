@@ -0,0 +1,225 @@
+/**
+ * Ingest Sink
+ *
+ * One place that turns a markdown document into a pipeline document: storage upload, document
+ * row, content-hash dedup and the processing trigger. Used by the markdown upload and by the
+ * connector queue (process-ingest-queue), so every source lands in the pipelines the same way.
+ *
+ * Re-ingesting the same file_name opens a new document version (documentVersions.ts): the document
+ * keeps its id, unchanged chunks keep their embedding and agent links, new chunks are linked to the
+ * agents that had the document. Pipelines A and B keep the text in full_text, Pipeline A-Hybrid in storage.
+ *
+ * Pipeline C only ingests PDFs and is not a text sink.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { beginDocumentVersion, hashText } from './documentVersions.ts';
+
+export type IngestPipeline = 'pipeline_a' | 'pipeline_a_hybrid' | 'pipeline_b';
+
+export const INGEST_PIPELINES: IngestPipeline[] = ['pipeline_a', 'pipeline_a_hybrid', 'pipeline_b'];
+
+export interface MarkdownDocument {
+  fileName: string;
+  markdown: string;
+  folder?: string | null;
+  // Recorded on the document version (markdown, connector:website, ...)
+  source: string;
+}
+
+export interface IngestResult {
+  documentId: string;
+  fileName: string;
+  created: boolean;
+  unchanged: boolean;
+  version: number | null;
+}
+
+const PIPELINE_SINKS: Record<IngestPipeline, { documents: string; processFunction: string }> = {
+  pipeline_a: {
+    documents: 'pipeline_a_documents',
+    processFunction: 'pipeline-a-process-chunks',
+  },
+  pipeline_a_hybrid: {
+    documents: 'pipeline_a_hybrid_documents',
+    processFunction: 'pipeline-a-hybrid-process-chunks',
+  },
+  pipeline_b: {
+    documents: 'pipeline_b_documents',
+    processFunction: 'pipeline-b-process-chunks',
+  },
+};
+
+export class IngestSinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IngestSinkError';
+  }
+}
+
+export function isIngestPipeline(pipeline: string): pipeline is IngestPipeline {
+  return (INGEST_PIPELINES as string[]).includes(pipeline);
+}
+
+/**
+ * Storage-safe .md file name for titles coming from external sources
+ */
+export function toMarkdownFileName(name: string): string {
+  const base = name
+    .replace(/[\\:*?"<>|#%{}^~[\]`]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 180) || 'untitled';
+  return base.toLowerCase().endsWith('.md') ? base : `${base}.md`;
+}
+
+function withMarkdownExtension(fileName: string): string {
+  return fileName.endsWith('.md') ? fileName : `${fileName}.md`;
+}
+
+// Event-driven processing, not awaited: the cron of each pipeline picks up anything missed
+function triggerProcessing(supabase: SupabaseClient, pipeline: IngestPipeline, documentId: string) {
+  const processFunction = PIPELINE_SINKS[pipeline].processFunction;
+  const invocation = supabase.functions
+    .invoke(processFunction, { body: { documentId } })
+    .catch(invokeError => console.warn(`[IngestSink] Failed to trigger ${processFunction} (will be handled by cron):`, invokeError));
+  (globalThis as { EdgeRuntime?: { waitUntil(promise: Promise<unknown>): void } }).EdgeRuntime?.waitUntil(invocation);
+}
+
+async function ingestHybrid(supabase: SupabaseClient, doc: MarkdownDocument, contentHash: string): Promise<IngestResult> {
+  const fileName = withMarkdownExtension(doc.fileName);
+  const filePath = doc.folder ? `${doc.folder}/${fileName}` : fileName;
+
+  // Same file_name = new version of the same document (id, agent links and unchanged chunks are kept)
+  const { data: existingDoc } = await supabase
+    .from('pipeline_a_hybrid_documents')
+    .select('id, content_hash, current_version')
+    .eq('file_name', fileName)
+    .maybeSingle();
+
+  if (existingDoc && existingDoc.content_hash === contentHash) {
+    return { documentId: existingDoc.id, fileName, created: false, unchanged: true, version: existingDoc.current_version };
+  }
+
+  // upsert=true allows re-provisioning
+  const { error: uploadError } = await supabase.storage
+    .from('pipeline-a-uploads')
+    .upload(filePath, new Blob([doc.markdown], { type: 'text/markdown' }), {
+      contentType: 'text/markdown',
+      upsert: true,
+    });
+  if (uploadError) throw new IngestSinkError(`Storage upload failed: ${uploadError.message}`);
+
+  const documentFields = {
+    file_path: filePath,
+    storage_bucket: 'pipeline-a-uploads',
+    source_type: 'markdown',
+    folder: doc.folder || null,
+    file_size_bytes: new Blob([doc.markdown]).size,
+    status: 'ingested',
+    error_message: null,
+  };
+
+  const { data: document, error } = existingDoc
+    ? await supabase
+        .from('pipeline_a_hybrid_documents')
+        .update({ ...documentFields, updated_at: new Date().toISOString() })
+        .eq('id', existingDoc.id)
+        .select('id, current_version')
+        .single()
+    : await supabase
+        .from('pipeline_a_hybrid_documents')
+        .insert({ file_name: fileName, ...documentFields })
+        .select('id, current_version')
+        .single();
+  if (error || !document) {
+    throw new IngestSinkError(`Database ${existingDoc ? 'update' : 'insert'} failed: ${error?.message || 'no row'}`);
+  }
+
+  const version = await beginDocumentVersion(supabase, 'pipeline_a_hybrid', document.id, contentHash, doc.source);
+  return {
+    documentId: document.id,
+    fileName,
+    created: !existingDoc,
+    unchanged: false,
+    version: version?.version ?? document.current_version,
+  };
+}
+
+// Pipelines A and B keep the text in full_text (documents ingested before versioning have no content_hash)
+async function ingestFullText(
+  supabase: SupabaseClient,
+  pipeline: 'pipeline_a' | 'pipeline_b',
+  doc: MarkdownDocument,
+  contentHash: string
+): Promise<IngestResult> {
+  const sink = PIPELINE_SINKS[pipeline];
+  const fileName = withMarkdownExtension(doc.fileName);
+
+  const { data: existingDoc } = await supabase
+    .from(sink.documents)
+    .select('id, full_text, content_hash, current_version')
+    .eq('file_name', fileName)
+    .maybeSingle();
+
+  if (existingDoc && (existingDoc.content_hash === contentHash || existingDoc.full_text === doc.markdown)) {
+    return { documentId: existingDoc.id, fileName, created: false, unchanged: true, version: existingDoc.current_version };
+  }
+
+  const documentFields = {
+    full_text: doc.markdown,
+    file_size_bytes: doc.markdown.length,
+    status: 'ingested',
+    error_message: null,
+    file_path: doc.folder ? `${doc.folder}/${fileName}` : fileName,
+    storage_bucket: null,
+    folder: doc.folder || null,
+    // pipeline_b_documents only accepts pdf/github/markdown/text and chunks full_text for github/text
+    source_type: pipeline === 'pipeline_a' ? 'markdown' : 'text',
+  };
+
+  // Existing chunks are not deleted (that would cascade to the agent links): process-chunks diffs
+  // them against the new version
+  if (existingDoc) {
+    const version = await beginDocumentVersion(supabase, pipeline, existingDoc.id, contentHash, doc.source);
+    if (!version) {
+      return { documentId: existingDoc.id, fileName, created: false, unchanged: true, version: existingDoc.current_version };
+    }
+
+    const { error } = await supabase
+      .from(sink.documents)
+      .update({ ...documentFields, updated_at: new Date().toISOString() })
+      .eq('id', existingDoc.id);
+    if (error) throw new IngestSinkError(`Database update failed: ${error.message}`);
+    return { documentId: existingDoc.id, fileName, created: false, unchanged: false, version: version.version };
+  }
+
+  const { data: document, error } = await supabase
+    .from(sink.documents)
+    .insert({ file_name: fileName, ...documentFields })
+    .select('id')
+    .single();
+  if (error || !document) throw new IngestSinkError(`Database insert failed: ${error?.message || 'no row'}`);
+
+  const version = await beginDocumentVersion(supabase, pipeline, document.id, contentHash, doc.source);
+  return { documentId: document.id, fileName, created: true, unchanged: false, version: version?.version ?? 1 };
+}
+
+/**
+ * Ingest (or re-ingest) a markdown document into a pipeline and trigger its processing
+ */
+export async function ingestMarkdownDocument(
+  supabase: SupabaseClient,
+  pipeline: IngestPipeline,
+  doc: MarkdownDocument
+): Promise<IngestResult> {
+  if (!doc.markdown.trim()) throw new IngestSinkError(`${doc.fileName} has no text content`);
+
+  const contentHash = await hashText(doc.markdown);
+  const result = pipeline === 'pipeline_a_hybrid'
+    ? await ingestHybrid(supabase, doc, contentHash)
+    : await ingestFullText(supabase, pipeline, doc, contentHash);
+
+  if (!result.unchanged) triggerProcessing(supabase, pipeline, result.documentId);
+  return result;
+}
@@ -5,7 +5,11 @@
  * with multimodal support (automatic graph/chart descriptions via GPT-4o/Gemini)
  */
 
+import { recordUsage } from './usageLedger.ts';
+
 const LLAMAPARSE_API_BASE = 'https://api.cloud.llamaindex.ai/api/parsing';
+// LlamaCloud list price: $1 per 1,000 credits
+const USD_PER_CREDIT = 0.001;
 
 /**
  * Retry with exponential backoff for API calls
@@ -332,6 +336,24 @@ export async function getJsonResult(
   }, 3, 1000, 'LlamaParse getJson');
 }
 
+/**
+ * Write the parse job to the usage ledger (credits estimated from page count and mode)
+ */
+function recordParseUsage(jobId: string, fileName: string, rawJson: unknown, mode: 'basic' | 'premium' | 'multimodal'): void {
+  const root = (Array.isArray(rawJson) ? rawJson[0] : rawJson) as { pages?: unknown } | null;
+  const pages = Array.isArray(root?.pages) ? root.pages.length : 0;
+  const credits = estimateCreditsNeeded(pages, mode);
+  recordUsage({
+    source: 'llamaparse',
+    provider: 'llamaparse',
+    model: mode,
+    operation: 'parse',
+    units: pages,
+    costUsd: pages > 0 ? credits * USD_PER_CREDIT : null,
+    metadata: { job_id: jobId, file_name: fileName, estimated_credits: credits },
+  });
+}
+
 /**
  * Complete PDF to JSON + Layout extraction workflow
  * @param pdfBuffer - PDF file as Uint8Array
@@ -357,6 +379,7 @@ export async function extractJsonWithLayout(
   } else {
     rawJson = await getJsonResult(jobId, apiKey);
   }
+  recordParseUsage(jobId, fileName, rawJson, 'basic');
 
   return {
     jobId,
@@ -406,6 +429,7 @@ export async function extractJsonWithLayoutAndCallback(
   } else {
     rawJson = await getJsonResult(jobId, apiKey);
   }
+  recordParseUsage(jobId, fileName, rawJson, forcePremium ? (vendorApiKey ? 'multimodal' : 'premium') : 'basic');
 
   return {
     jobId,
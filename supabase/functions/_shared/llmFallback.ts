@@ -0,0 +1,126 @@
+/**
+ * LLM Fallback Chains
+ *
+ * Each agent may declare an ordered chain of provider+model pairs (agents.llm_fallback_chain).
+ * When the primary model fails, the first later step whose conditions match the failure
+ * is tried next:
+ * - rate_limit:       HTTP 429
+ * - server_error:     HTTP 5xx or network failure
+ * - timeout:          request timed out
+ * - context_length:   prompt exceeds the model context window
+ * - tool_unsupported: the model cannot do tool calling (known up front or reported by the API)
+ *
+ * Example:
+ * [
+ *   { "provider": "openai", "model": "gpt-4o", "on": ["rate_limit", "server_error", "timeout"] },
+ *   { "provider": "google", "model": "gemini-2.5-pro", "on": ["context_length", "tool_unsupported"] }
+ * ]
+ */
+
+import { LLMGatewayError, normalizeProvider, type LLMProviderId } from './llmGateway.ts';
+
+export type LLMFallbackReason = 'rate_limit' | 'server_error' | 'timeout' | 'context_length' | 'tool_unsupported';
+
+export const FALLBACK_REASONS: LLMFallbackReason[] = [
+  'rate_limit',
+  'server_error',
+  'timeout',
+  'context_length',
+  'tool_unsupported',
+];
+
+// Providers agent-chat routes to; any other id would silently land in its Anthropic branch
+export type LLMFallbackProvider = Exclude<LLMProviderId, 'lovable'>;
+
+export const FALLBACK_PROVIDERS: LLMFallbackProvider[] = ['anthropic', 'openai', 'google', 'deepseek', 'openrouter'];
+
+export interface LLMFallbackStep {
+  provider: LLMFallbackProvider;
+  model: string | null;
+  on: LLMFallbackReason[];
+}
+
+// One entry per model that was tried and abandoned, stored on the answering message
+export interface LLMFallbackAttempt {
+  provider: string;
+  model: string;
+  reason: LLMFallbackReason;
+  status: number | null;
+  error: string;
+}
+
+// Models agent-chat knows to ignore tools with
+const TOOL_UNSUPPORTED_MODELS = new Set(['deepseek-chat']);
+
+const CONTEXT_LENGTH_PATTERN =
+  /context[ _-]?(length|window)|maximum context|prompt is too long|input is too long|too many tokens|max_tokens.*exceed|token limit/i;
+const TOOL_UNSUPPORTED_PATTERN =
+  /(does not|doesn't) support (tools|tool use|tool calling|function calling|functions)|(tools|tool use|function calling) (is|are) not supported|no endpoints found that support tool use/i;
+
+/**
+ * Canonical fallback provider for a stored id or alias ("gemini" → google, "claude" → anthropic), or null
+ */
+export function normalizeFallbackProvider(provider: unknown): LLMFallbackProvider | null {
+  const id = typeof provider === 'string' ? normalizeProvider(provider.trim().toLowerCase()) : null;
+  return id && (FALLBACK_PROVIDERS as string[]).includes(id) ? id as LLMFallbackProvider : null;
+}
+
+/**
+ * Parse agents.llm_fallback_chain, normalising provider aliases and dropping malformed steps
+ * and providers agent-chat cannot route to
+ */
+export function parseFallbackChain(raw: unknown): LLMFallbackStep[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((entry): LLMFallbackStep[] => {
+    if (!entry || typeof entry !== 'object') return [];
+    const step = entry as { provider?: unknown; model?: unknown; on?: unknown };
+    const provider = normalizeFallbackProvider(step.provider);
+    if (!provider) {
+      console.warn('[LLMFallback] Ignoring step with unknown provider:', JSON.stringify(entry));
+      return [];
+    }
+
+    const on = Array.isArray(step.on)
+      ? step.on.filter((r): r is LLMFallbackReason => FALLBACK_REASONS.includes(r as LLMFallbackReason))
+      : [];
+
+    return [{
+      provider,
+      model: typeof step.model === 'string' && step.model ? step.model : null,
+      // No conditions listed: the step covers every failure
+      on: on.length > 0 ? on : [...FALLBACK_REASONS],
+    }];
+  });
+}
+
+export function modelSupportsTools(model: string): boolean {
+  return !TOOL_UNSUPPORTED_MODELS.has(model);
+}
+
+/**
+ * Map a failed provider call onto a fallback condition (null = not a fallback case)
+ */
+export function classifyLLMFailure(error: unknown): LLMFallbackReason | null {
+  if (!(error instanceof LLMGatewayError)) return null;
+
+  const text = `${error.message} ${error.body}`;
+  if (error.status === 408) return 'timeout';
+  if (error.status === 429) return 'rate_limit';
+  if (TOOL_UNSUPPORTED_PATTERN.test(text)) return 'tool_unsupported';
+  if (CONTEXT_LENGTH_PATTERN.test(text)) return 'context_length';
+  if (error.status !== null && error.status >= 500) return 'server_error';
+  // No status but retryable: the network failed before any response
+  if (error.status === null && error.retryable) return 'server_error';
+  return null;
+}
+
+/**
+ * Index of the next step after `fromIndex` (-1 = primary model) that handles `reason`, or -1
+ */
+export function nextFallbackIndex(chain: LLMFallbackStep[], fromIndex: number, reason: LLMFallbackReason): number {
+  for (let i = fromIndex + 1; i < chain.length; i++) {
+    if (chain[i].on.includes(reason)) return i;
+  }
+  return -1;
+}
@@ -0,0 +1,1068 @@
+/**
+ * LLM Gateway
+ *
+ * Single entry point for chat-completion calls from edge functions:
+ * - one message / tool-call schema (Anthropic-style content blocks), encoded per provider
+ * - provider registry (endpoint, auth, wire format, default model) and model pricing table
+ * - per-attempt timeout, retries with exponential backoff on 429/5xx/network errors
+ * - streaming normalised into text / tool_call / done events
+ * - uniform usage + cost accounting, reported through reportLLMUsage() into the usage ledger
+ * - per-agent budgets: callLLM()/streamLLM() refuse calls over the hard limit and move them
+ *   to the agent's cheaper downgrade model over the soft limit
+ *
+ * Adding a provider = one entry in PROVIDERS. Adding a model = one entry in MODEL_PRICING.
+ * Callers that keep their own stream parsing (agent-chat) can use sendProviderRequest() +
+ * createUsageMeter() and still share transport, retries and accounting.
+ */
+
+import { enforceAgentBudget, recordUsage, type UsageContext, type UsageOperation } from './usageLedger.ts';
+
+// ========== TYPES ==========
+
+export type LLMProviderId = 'anthropic' | 'openai' | 'deepseek' | 'openrouter' | 'google' | 'lovable';
+export type LLMWireFormat = 'anthropic' | 'openai' | 'gemini';
+
+export type LLMContentBlock =
+  | { type: 'text'; text: string; cache?: boolean }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean; cache?: boolean };
+
+type ToolUseBlock = Extract<LLMContentBlock, { type: 'tool_use' }>;
+type ToolResultBlock = Extract<LLMContentBlock, { type: 'tool_result' }>;
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string | LLMContentBlock[];
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  input_schema: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export type LLMToolChoice = 'auto' | 'none' | { name: string };
+
+export type LLMStopReason = 'end_turn' | 'tool_use' | 'max_tokens' | 'content_filter' | 'other';
+
+export interface LLMUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  cost_usd: number | null;
+}
+
+export interface LLMRequest {
+  provider?: string;
+  model?: string;
+  system?: string;
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+  toolChoice?: LLMToolChoice;
+  maxTokens?: number;
+  temperature?: number;
+  responseFormat?: 'text' | 'json';
+  // Per-attempt timeout (for streams: until response headers arrive)
+  timeoutMs?: number;
+  retries?: number;
+  signal?: AbortSignal;
+  // Edge function / module issuing the call, used in usage reports
+  source?: string;
+  // Agent / conversation / benchmark run the call is billed to in the usage ledger
+  usageContext?: UsageContext;
+  // Overrides the provider key from the environment (callers that receive keys as parameters)
+  apiKey?: string;
+  anthropic?: {
+    betas?: string[];
+    // Provider-native tools appended as-is (e.g. computer_20250124)
+    nativeTools?: Record<string, unknown>[];
+    cacheSystemPrompt?: boolean;
+  };
+}
+
+export interface LLMResult {
+  text: string | null;
+  toolCalls: LLMToolCall[];
+  stopReason: LLMStopReason;
+  rawStopReason: string | null;
+  provider: LLMProviderId;
+  model: string;
+  usage: LLMUsage;
+  latencyMs: number;
+}
+
+export type LLMStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; call: LLMToolCall }
+  | { type: 'done'; result: LLMResult };
+
+export class LLMGatewayError extends Error {
+  constructor(
+    message: string,
+    readonly provider: LLMProviderId,
+    readonly status: number | null,
+    readonly retryable: boolean,
+    readonly body: string = ''
+  ) {
+    super(message);
+    this.name = 'LLMGatewayError';
+  }
+}
+
+// ========== WIRE PAYLOADS ==========
+
+// Fields read from provider responses / stream chunks (Anthropic, OpenAI-compatible, Gemini)
+interface ToolCallWire {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface GeminiPartWire {
+  text?: string;
+  functionCall?: { name: string; args?: Record<string, unknown> };
+}
+
+interface UsageWire {
+  // Anthropic
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+  // OpenAI-compatible
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  prompt_cache_hit_tokens?: number;
+}
+
+export interface LLMWirePayload {
+  type?: string;
+  index?: number;
+  model?: string;
+  message?: { model?: string; usage?: UsageWire };
+  usage?: UsageWire;
+  content?: { type: string; text?: string; id?: string; name?: string; input?: Record<string, unknown> }[];
+  content_block?: { type: string; id?: string; name?: string };
+  delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string };
+  stop_reason?: string;
+  error?: unknown;
+  choices?: {
+    message?: { content?: string | null; tool_calls?: ToolCallWire[] };
+    delta?: { content?: string; tool_calls?: ToolCallWire[] };
+    finish_reason?: string | null;
+  }[];
+  candidates?: { content?: { parts?: GeminiPartWire[] }; finishReason?: string }[];
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+    cachedContentTokenCount?: number;
+  };
+}
+
+// ========== PROVIDER REGISTRY ==========
+
+interface ProviderSpec {
+  id: LLMProviderId;
+  label: string;
+  format: LLMWireFormat;
+  apiKeyEnv: string;
+  defaultModel: string;
+  endpoint: (model: string, stream: boolean, apiKey: string) => string;
+  headers: (apiKey: string) => Record<string, string>;
+  // Extra body fields so streamed responses carry a usage payload
+  streamUsage?: Record<string, unknown>;
+  // Model ids are sent without this prefix (agents store e.g. 'google/gemini-2.5-flash')
+  stripModelPrefix?: string;
+}
+
+const bearer = (apiKey: string) => ({ 'Authorization': `Bearer ${apiKey}` });
+
+export const PROVIDERS: Record<LLMProviderId, ProviderSpec> = {
+  anthropic: {
+    id: 'anthropic',
+    label: 'Anthropic',
+    format: 'anthropic',
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+    defaultModel: 'claude-sonnet-4-5',
+    endpoint: () => 'https://api.anthropic.com/v1/messages',
+    headers: (apiKey) => ({ 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' }),
+  },
+  openai: {
+    id: 'openai',
+    label: 'OpenAI',
+    format: 'openai',
+    apiKeyEnv: 'OPENAI_API_KEY',
+    defaultModel: 'gpt-4o',
+    endpoint: () => 'https://api.openai.com/v1/chat/completions',
+    headers: bearer,
+    streamUsage: { stream_options: { include_usage: true } },
+  },
+  deepseek: {
+    id: 'deepseek',
+    label: 'DeepSeek',
+    format: 'openai',
+    apiKeyEnv: 'DEEPSEEK_API_KEY',
+    defaultModel: 'deepseek-chat',
+    endpoint: () => 'https://api.deepseek.com/v1/chat/completions',
+    headers: bearer,
+    streamUsage: { stream_options: { include_usage: true } },
+  },
+  openrouter: {
+    id: 'openrouter',
+    label: 'OpenRouter',
+    format: 'openai',
+    apiKeyEnv: 'OPENROUTER_API_KEY',
+    defaultModel: 'deepseek/deepseek-chat',
+    endpoint: () => 'https://openrouter.ai/api/v1/chat/completions',
+    headers: (apiKey) => ({
+      ...bearer(apiKey),
+      'HTTP-Referer': 'https://lovable.dev',
+      'X-Title': 'Multi-Agent Consultant',
+    }),
+    streamUsage: { usage: { include: true } },
+  },
+  google: {
+    id: 'google',
+    label: 'Google Gemini',
+    format: 'gemini',
+    apiKeyEnv: 'GOOGLE_AI_STUDIO_API_KEY',
+    defaultModel: 'gemini-2.0-flash',
+    endpoint: (model, stream, apiKey) => stream
+      ? `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?key=${apiKey}&alt=sse`
+      : `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+    headers: () => ({}),
+    stripModelPrefix: 'google/',
+  },
+  lovable: {
+    id: 'lovable',
+    label: 'Lovable AI Gateway',
+    format: 'openai',
+    apiKeyEnv: 'LOVABLE_API_KEY',
+    defaultModel: 'google/gemini-2.5-flash',
+    endpoint: () => 'https://ai.gateway.lovable.dev/v1/chat/completions',
+    headers: bearer,
+    streamUsage: { stream_options: { include_usage: true } },
+  },
+};
+
+const PROVIDER_ALIASES: Record<string, LLMProviderId> = {
+  'google-gemini': 'google',
+  gemini: 'google',
+  claude: 'anthropic',
+};
+
+export function normalizeProvider(provider: string | null | undefined): LLMProviderId | null {
+  if (!provider) return null;
+  const id = PROVIDER_ALIASES[provider] || provider;
+  return id in PROVIDERS ? id as LLMProviderId : null;
+}
+
+/**
+ * Guess the native provider of a bare model id (no gateway prefix)
+ */
+export function inferProviderFromModel(model: string | null | undefined): LLMProviderId | null {
+  if (!model || model.includes('/')) return null;
+  if (model.includes('claude')) return 'anthropic';
+  if (model.includes('gpt') || /^o\d/.test(model)) return 'openai';
+  if (model.includes('gemini')) return 'google';
+  if (model.includes('deepseek')) return 'deepseek';
+  return null;
+}
+
+/**
+ * Explicit provider wins; otherwise infer it from the model; default Anthropic
+ */
+export function resolveProviderAndModel(
+  provider?: string | null,
+  model?: string | null
+): { provider: LLMProviderId; model: string } {
+  const resolved = normalizeProvider(provider) || inferProviderFromModel(model) || 'anthropic';
+  return { provider: resolved, model: model || PROVIDERS[resolved].defaultModel };
+}
+
+function providerModelId(spec: ProviderSpec, model: string): string {
+  return spec.stripModelPrefix && model.startsWith(spec.stripModelPrefix)
+    ? model.slice(spec.stripModelPrefix.length)
+    : model;
+}
+
+export function getProviderApiKey(provider: LLMProviderId): string {
+  const spec = PROVIDERS[provider];
+  const apiKey = Deno.env.get(spec.apiKeyEnv);
+  if (!apiKey) {
+    throw new LLMGatewayError(`${spec.apiKeyEnv} not configured`, provider, null, false);
+  }
+  return apiKey;
+}
+
+// ========== PRICING ==========
+
+// USD per 1M tokens. Matched by longest prefix on the model id without gateway prefix.
+export const MODEL_PRICING: Record<string, { input: number; output: number; cacheRead?: number }> = {
+  'claude-opus-4': { input: 15, output: 75, cacheRead: 1.5 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheRead: 0.3 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cacheRead: 0.3 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheRead: 0.1 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheRead: 0.08 },
+  'gpt-4o': { input: 2.5, output: 10, cacheRead: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cacheRead: 0.075 },
+  'gpt-4.1': { input: 2, output: 8, cacheRead: 0.5 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cacheRead: 0.1 },
+  'gpt-5': { input: 1.25, output: 10, cacheRead: 0.125 },
+  'gpt-5-mini': { input: 0.25, output: 2, cacheRead: 0.025 },
+  'deepseek-chat': { input: 0.27, output: 1.1, cacheRead: 0.07 },
+  'deepseek-reasoner': { input: 0.55, output: 2.19, cacheRead: 0.14 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cacheRead: 0.075 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, cacheRead: 0.025 },
+  'gemini-2.5-pro': { input: 1.25, output: 10, cacheRead: 0.31 },
+  // Embeddings: input only
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'text-embedding-ada-002': { input: 0.1, output: 0 },
+  'gemini-embedding-001': { input: 0.15, output: 0 },
+};
+
+export function estimateCostUsd(
+  model: string,
+  usage: Omit<LLMUsage, 'cost_usd'>
+): number | null {
+  const bare = model.includes('/') ? model.slice(model.lastIndexOf('/') + 1) : model;
+  const key = Object.keys(MODEL_PRICING)
+    .filter(prefix => bare.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return null;
+
+  const price = MODEL_PRICING[key];
+  const uncachedInput = Math.max(0, usage.input_tokens - usage.cache_read_tokens);
+  const cost = uncachedInput * price.input
+    + usage.cache_read_tokens * (price.cacheRead ?? price.input)
+    + usage.cache_write_tokens * price.input * 1.25
+    + usage.output_tokens * price.output;
+  return Number((cost / 1_000_000).toFixed(6));
+}
+
+// ========== USAGE ==========
+
+const emptyUsage = (): Omit<LLMUsage, 'cost_usd'> => ({
+  input_tokens: 0,
+  output_tokens: 0,
+  cache_read_tokens: 0,
+  cache_write_tokens: 0,
+});
+
+/**
+ * Read token counts from a response body or stream chunk of the given wire format
+ */
+export function extractUsage(format: LLMWireFormat, p: LLMWirePayload): Partial<LLMUsage> | null {
+  if (format === 'anthropic') {
+    const u = p.usage || p.message?.usage;
+    if (!u) return null;
+    // cache_read_input_tokens are reported separately from input_tokens
+    return {
+      input_tokens: (u.input_tokens || 0) + (u.cache_read_input_tokens || 0) + (u.cache_creation_input_tokens || 0),
+      output_tokens: u.output_tokens || 0,
+      cache_read_tokens: u.cache_read_input_tokens || 0,
+      cache_write_tokens: u.cache_creation_input_tokens || 0,
+    };
+  }
+  if (format === 'openai') {
+    const u = p.usage;
+    if (!u) return null;
+    return {
+      input_tokens: u.prompt_tokens || 0,
+      output_tokens: u.completion_tokens || 0,
+      cache_read_tokens: u.prompt_tokens_details?.cached_tokens || u.prompt_cache_hit_tokens || 0,
+    };
+  }
+  const u = p.usageMetadata;
+  if (!u) return null;
+  return {
+    input_tokens: u.promptTokenCount || 0,
+    output_tokens: (u.candidatesTokenCount || 0) + (u.thoughtsTokenCount || 0),
+    cache_read_tokens: u.cachedContentTokenCount || 0,
+  };
+}
+
+export interface UsageMeter {
+  observe(payload: LLMWirePayload): void;
+  usage(): LLMUsage;
+}
+
+/**
+ * Accumulates usage across stream chunks. Providers report running totals
+ * (Anthropic: input on message_start, output on message_delta), so keep the max per field.
+ */
+export function createUsageMeter(provider: LLMProviderId, model: string): UsageMeter {
+  const format = PROVIDERS[provider].format;
+  const totals = emptyUsage();
+
+  return {
+    observe(payload) {
+      const partial = extractUsage(format, payload);
+      if (!partial) return;
+      for (const key of Object.keys(totals) as (keyof typeof totals)[]) {
+        totals[key] = Math.max(totals[key], partial[key] || 0);
+      }
+    },
+    usage() {
+      return { ...totals, cost_usd: estimateCostUsd(model, totals) };
+    },
+  };
+}
+
+/**
+ * Usage (with cost) of a complete, non-streamed response body
+ */
+export function usageFromPayload(provider: LLMProviderId, model: string, payload: LLMWirePayload): LLMUsage {
+  const meter = createUsageMeter(provider, model);
+  meter.observe(payload);
+  return meter.usage();
+}
+
+export interface LLMUsageReport {
+  source: string;
+  provider: LLMProviderId;
+  model: string;
+  usage: LLMUsage;
+  latencyMs?: number;
+  streamed?: boolean;
+  operation?: UsageOperation; // default 'chat'
+  context?: UsageContext;
+}
+
+/**
+ * Every LLM call reports its usage through here, in one format: log line + usage ledger row
+ */
+export function reportLLMUsage(report: LLMUsageReport): void {
+  const { usage } = report;
+  const operation = report.operation || 'chat';
+  const cost = usage.cost_usd !== null ? `$${usage.cost_usd.toFixed(6)}` : 'n/a';
+  console.log(
+    `[LLMUsage] source=${report.source} provider=${report.provider} model=${report.model} op=${operation} ` +
+    `in=${usage.input_tokens} out=${usage.output_tokens} cache_read=${usage.cache_read_tokens} ` +
+    `cache_write=${usage.cache_write_tokens} cost=${cost}` +
+    (report.latencyMs !== undefined ? ` latency_ms=${report.latencyMs}` : '') +
+    (report.streamed ? ' streamed=true' : '')
+  );
+
+  recordUsage({
+    source: report.source,
+    provider: report.provider,
+    model: report.model,
+    operation,
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    cacheReadTokens: usage.cache_read_tokens,
+    cacheWriteTokens: usage.cache_write_tokens,
+    costUsd: usage.cost_usd,
+    latencyMs: report.latencyMs,
+    context: report.context,
+    metadata: report.streamed ? { streamed: true } : undefined,
+  });
+}
+
+// ========== TRANSPORT ==========
+
+const DEFAULT_TIMEOUT_MS = 120000;
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+
+const isRetryableStatus = (status: number) => status === 408 || status === 409 || status === 429 || status >= 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function backoffDelay(attempt: number, retryAfter: string | null): number {
+  const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(retryAfterSeconds)) {
+    return Math.min(retryAfterSeconds * 1000, BACKOFF_MAX_MS);
+  }
+  const exponential = Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS);
+  return exponential / 2 + Math.random() * exponential / 2;
+}
+
+export interface ProviderRequestOptions {
+  model: string;
+  body: Record<string, unknown>;
+  stream?: boolean;
+  timeoutMs?: number;
+  retries?: number;
+  signal?: AbortSignal;
+  headers?: Record<string, string>;
+  apiKey?: string;
+}
+
+/**
+ * POST a provider-native body to the provider endpoint with auth, timeout and retries.
+ * Returns the successful Response (body unread); throws LLMGatewayError otherwise.
+ */
+export async function sendProviderRequest(
+  provider: LLMProviderId,
+  options: ProviderRequestOptions
+): Promise<Response> {
+  const spec = PROVIDERS[provider];
+  const apiKey = options.apiKey || getProviderApiKey(provider);
+  const stream = options.stream ?? false;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const model = providerModelId(spec, options.model);
+
+  const url = spec.endpoint(model, stream, apiKey);
+  const body = JSON.stringify({
+    ...(spec.format !== 'gemini' ? { model } : {}),
+    ...options.body,
+    ...(stream && spec.format !== 'gemini' ? { stream: true, ...spec.streamUsage } : {}),
+  });
+  const headers = { 'Content-Type': 'application/json', ...spec.headers(apiKey), ...options.headers };
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const forwardAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', forwardAbort);
+
+    let failure: LLMGatewayError;
+    let retryAfter: string | null = null;
+
+    try {
+      const response = await fetch(url, { method: 'POST', headers, body, signal: controller.signal });
+      if (response.ok) return response;
+
+      const errorText = await response.text();
+      retryAfter = response.headers.get('retry-after');
+      failure = new LLMGatewayError(
+        `${spec.label} API error ${response.status}: ${errorText.slice(0, 500)}`,
+        provider,
+        response.status,
+        isRetryableStatus(response.status),
+        errorText
+      );
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new LLMGatewayError(`${spec.label} request aborted`, provider, null, false);
+      }
+      const timedOut = controller.signal.aborted;
+      failure = new LLMGatewayError(
+        timedOut
+          ? `${spec.label} request timed out after ${timeoutMs}ms`
+          : `${spec.label} network error: ${error instanceof Error ? error.message : String(error)}`,
+        provider,
+        timedOut ? 408 : null,
+        true
+      );
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', forwardAbort);
+    }
+
+    if (!failure.retryable || attempt >= retries) throw failure;
+
+    const delay = backoffDelay(attempt, retryAfter);
+    console.warn(`[LLMGateway] ${failure.message.slice(0, 200)} — retry ${attempt + 1}/${retries} in ${Math.round(delay)}ms`);
+    await sleep(delay);
+  }
+}
+
+// ========== ENCODING ==========
+
+function textOf(content: string | LLMContentBlock[]): string {
+  if (typeof content === 'string') return content;
+  return content.filter(b => b.type === 'text').map(b => (b as { text: string }).text).join('');
+}
+
+function encodeAnthropicMessages(messages: LLMMessage[]): unknown[] {
+  return messages.map(msg => {
+    if (typeof msg.content === 'string') return { role: msg.role, content: msg.content };
+
+    const blocks = msg.content.map(block => {
+      const cacheControl = 'cache' in block && block.cache ? { cache_control: { type: 'ephemeral' } } : {};
+      switch (block.type) {
+        case 'text':
+          return { type: 'text', text: block.text, ...cacheControl };
+        case 'image':
+          return { type: 'image', source: block.source };
+        case 'tool_use':
+          return { type: 'tool_use', id: block.id, name: block.name, input: block.input };
+        case 'tool_result':
+          return { type: 'tool_result', tool_use_id: block.tool_use_id, content: block.content, is_error: block.is_error, ...cacheControl };
+      }
+    });
+    return { role: msg.role, content: blocks };
+  });
+}
+
+function encodeOpenAIMessages(messages: LLMMessage[], system?: string): unknown[] {
+  const result: unknown[] = system ? [{ role: 'system', content: system }] : [];
+
+  for (const msg of messages) {
+    if (typeof msg.content === 'string') {
+      result.push({ role: msg.role, content: msg.content });
+      continue;
+    }
+
+    const toolResults = msg.content.filter((b): b is ToolResultBlock => b.type === 'tool_result');
+    for (const block of toolResults) {
+      result.push({ role: 'tool', tool_call_id: block.tool_use_id, content: block.content });
+    }
+
+    const toolUses = msg.content.filter((b): b is ToolUseBlock => b.type === 'tool_use');
+    if (msg.role === 'assistant' && toolUses.length > 0) {
+      result.push({
+        role: 'assistant',
+        content: textOf(msg.content) || null,
+        tool_calls: toolUses.map(block => ({
+          id: block.id,
+          type: 'function',
+          function: { name: block.name, arguments: JSON.stringify(block.input) },
+        })),
+      });
+      continue;
+    }
+
+    const parts = msg.content
+      .filter(b => b.type === 'text' || b.type === 'image')
+      .map(block => block.type === 'image'
+        ? { type: 'image_url', image_url: { url: `data:${block.source.media_type};base64,${block.source.data}` } }
+        : { type: 'text', text: (block as { text: string }).text });
+    if (parts.length > 0) result.push({ role: msg.role, content: parts });
+  }
+
+  return result;
+}
+
+function encodeGeminiContents(messages: LLMMessage[]): unknown[] {
+  // functionResponse needs the function name, tool_result blocks only carry the call id
+  const toolNames = new Map<string, string>();
+
+  return messages.map(msg => {
+    const role = msg.role === 'assistant' ? 'model' : 'user';
+    if (typeof msg.content === 'string') return { role, parts: [{ text: msg.content }] };
+
+    const parts = msg.content.map(block => {
+      switch (block.type) {
+        case 'text':
+          return { text: block.text };
+        case 'image':
+          return { inlineData: { mimeType: block.source.media_type, data: block.source.data } };
+        case 'tool_use':
+          toolNames.set(block.id, block.name);
+          return { functionCall: { name: block.name, args: block.input } };
+        case 'tool_result':
+          return {
+            functionResponse: {
+              name: toolNames.get(block.tool_use_id) || 'tool_result',
+              response: { content: block.content },
+            },
+          };
+      }
+    });
+    return { role, parts };
+  });
+}
+
+/**
+ * Provider-native tool definitions
+ */
+export function encodeTools(provider: LLMProviderId, tools: LLMToolDefinition[]): unknown[] {
+  switch (PROVIDERS[provider].format) {
+    case 'anthropic':
+      return tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.input_schema }));
+    case 'openai':
+      return tools.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+      }));
+    case 'gemini':
+      return [{
+        function_declarations: tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.input_schema,
+        })),
+      }];
+  }
+}
+
+/**
+ * Provider-native tool_choice; a forced tool that is not in the tool list falls back to auto
+ */
+export function encodeToolChoice(
+  provider: LLMProviderId,
+  choice: LLMToolChoice | undefined,
+  tools: LLMToolDefinition[]
+): unknown {
+  const forced = typeof choice === 'object' && tools.some(t => t.name === choice.name) ? choice.name : null;
+  switch (PROVIDERS[provider].format) {
+    case 'anthropic':
+      if (forced) return { type: 'tool', name: forced };
+      return choice === 'none' ? { type: 'none' } : { type: 'auto' };
+    case 'openai':
+      if (forced) return { type: 'function', function: { name: forced } };
+      return choice === 'none' ? 'none' : 'auto';
+    case 'gemini':
+      if (forced) return { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [forced] } };
+      return { functionCallingConfig: { mode: choice === 'none' ? 'NONE' : 'AUTO' } };
+  }
+}
+
+export function encodeRequestBody(provider: LLMProviderId, request: LLMRequest): Record<string, unknown> {
+  const tools = request.tools || [];
+  const maxTokens = request.maxTokens ?? 4096;
+  const temperature = request.temperature !== undefined ? { temperature: request.temperature } : {};
+
+  switch (PROVIDERS[provider].format) {
+    case 'anthropic': {
+      const nativeTools = request.anthropic?.nativeTools || [];
+      const allTools = [...encodeTools(provider, tools), ...nativeTools];
+      const system = request.system && request.anthropic?.cacheSystemPrompt
+        ? [{ type: 'text', text: request.system, cache_control: { type: 'ephemeral' } }]
+        : request.system;
+      return {
+        max_tokens: maxTokens,
+        ...temperature,
+        ...(system ? { system } : {}),
+        messages: encodeAnthropicMessages(request.messages),
+        ...(allTools.length > 0 ? { tools: allTools, tool_choice: encodeToolChoice(provider, request.toolChoice, tools) } : {}),
+      };
+    }
+    case 'openai':
+      return {
+        max_tokens: maxTokens,
+        ...temperature,
+        messages: encodeOpenAIMessages(request.messages, request.system),
+        ...(tools.length > 0 ? { tools: encodeTools(provider, tools), tool_choice: encodeToolChoice(provider, request.toolChoice, tools) } : {}),
+        ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+      };
+    case 'gemini':
+      return {
+        contents: encodeGeminiContents(request.messages),
+        ...(request.system ? { systemInstruction: { parts: [{ text: request.system }] } } : {}),
+        ...(tools.length > 0 ? { tools: encodeTools(provider, tools), toolConfig: encodeToolChoice(provider, request.toolChoice, tools) } : {}),
+        generationConfig: {
+          maxOutputTokens: maxTokens,
+          ...temperature,
+          ...(request.responseFormat === 'json' ? { responseMimeType: 'application/json' } : {}),
+        },
+      };
+  }
+}
+
+function anthropicHeaders(request: LLMRequest): Record<string, string> | undefined {
+  const betas = request.anthropic?.betas || [];
+  return betas.length > 0 ? { 'anthropic-beta': betas.join(',') } : undefined;
+}
+
+// ========== DECODING ==========
+
+function normalizeStopReason(raw: string | null | undefined): LLMStopReason {
+  switch ((raw || '').toLowerCase()) {
+    case 'end_turn':
+    case 'stop':
+    case 'stop_sequence':
+      return 'end_turn';
+    case 'tool_use':
+    case 'tool_calls':
+    case 'function_call':
+      return 'tool_use';
+    case 'max_tokens':
+    case 'length':
+      return 'max_tokens';
+    case 'content_filter':
+    case 'safety':
+      return 'content_filter';
+    default:
+      return 'other';
+  }
+}
+
+function parseToolArguments(raw: string | undefined): Record<string, unknown> {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    console.warn(`[LLMGateway] Unparseable tool arguments: ${raw.slice(0, 200)}`);
+    return {};
+  }
+}
+
+function decodeResponse(format: LLMWireFormat, data: LLMWirePayload): Pick<LLMResult, 'text' | 'toolCalls' | 'rawStopReason'> & { model?: string } {
+  if (format === 'anthropic') {
+    let text = '';
+    const toolCalls: LLMToolCall[] = [];
+    for (const block of data.content || []) {
+      if (block.type === 'text') text += block.text;
+      if (block.type === 'tool_use') toolCalls.push({ id: block.id || '', name: block.name || '', input: block.input || {} });
+    }
+    return { text: text || null, toolCalls, rawStopReason: data.stop_reason ?? null, model: data.model };
+  }
+
+  if (format === 'openai') {
+    const choice = data.choices?.[0];
+    if (!choice) throw new Error('No choices in LLM response');
+    const toolCalls = (choice.message?.tool_calls || []).map(tc => ({
+      id: tc.id || '',
+      name: tc.function?.name || '',
+      input: parseToolArguments(tc.function?.arguments),
+    }));
+    return { text: choice.message?.content || null, toolCalls, rawStopReason: choice.finish_reason ?? null, model: data.model };
+  }
+
+  const candidate = data.candidates?.[0];
+  if (!candidate) throw new Error('No candidates in Gemini response');
+  let text = '';
+  const toolCalls: LLMToolCall[] = [];
+  for (const part of candidate.content?.parts || []) {
+    if (part.text) text += part.text;
+    if (part.functionCall) {
+      toolCalls.push({ id: crypto.randomUUID(), name: part.functionCall.name, input: part.functionCall.args || {} });
+    }
+  }
+  return {
+    text: text || null,
+    toolCalls,
+    // Gemini reports STOP even when it calls a function
+    rawStopReason: toolCalls.length > 0 ? 'tool_calls' : candidate.finishReason ?? null,
+  };
+}
+
+// ========== HIGH-LEVEL API ==========
+
+/**
+ * Apply the budget of the agent the call is billed to: BudgetExceededError over the hard limit;
+ * over the soft limit the call moves to the agent's downgrade model when that model is cheaper.
+ * Calls with their own API key or provider-native tools stay on their provider.
+ */
+async function applyAgentBudget(request: LLMRequest): Promise<LLMRequest> {
+  const decision = await enforceAgentBudget(request.usageContext);
+  if (decision?.budget.status !== 'soft' || !decision.downgradeProvider) return request;
+  if (request.apiKey || request.anthropic?.nativeTools?.length) return request;
+
+  const requested = resolveProviderAndModel(request.provider, request.model);
+  const downgrade = resolveProviderAndModel(decision.downgradeProvider, decision.downgradeModel);
+  const pricePerMillion = (model: string) =>
+    estimateCostUsd(model, { input_tokens: 1_000_000, output_tokens: 1_000_000, cache_read_tokens: 0, cache_write_tokens: 0 });
+  const requestedPrice = pricePerMillion(requested.model);
+  const downgradePrice = pricePerMillion(downgrade.model);
+  if (requestedPrice === null || downgradePrice === null || downgradePrice >= requestedPrice) return request;
+
+  console.warn(`[LLMGateway] Soft budget reached for agent ${request.usageContext?.agentId}: ${requested.provider}/${requested.model} → ${downgrade.provider}/${downgrade.model}`);
+  return { ...request, provider: downgrade.provider, model: downgrade.model };
+}
+
+/**
+ * Non-streaming completion in the common schema
+ */
+export async function callLLM(originalRequest: LLMRequest): Promise<LLMResult> {
+  const request = await applyAgentBudget(originalRequest);
+  const { provider, model } = resolveProviderAndModel(request.provider, request.model);
+  const format = PROVIDERS[provider].format;
+  const startedAt = Date.now();
+
+  const response = await sendProviderRequest(provider, {
+    model,
+    body: encodeRequestBody(provider, request),
+    timeoutMs: request.timeoutMs,
+    retries: request.retries,
+    signal: request.signal,
+    headers: format === 'anthropic' ? anthropicHeaders(request) : undefined,
+    apiKey: request.apiKey,
+  });
+
+  const data = await response.json();
+  const decoded = decodeResponse(format, data);
+
+  const result: LLMResult = {
+    text: decoded.text,
+    toolCalls: decoded.toolCalls,
+    stopReason: normalizeStopReason(decoded.rawStopReason),
+    rawStopReason: decoded.rawStopReason,
+    provider,
+    model: decoded.model || model,
+    usage: usageFromPayload(provider, model, data),
+    latencyMs: Date.now() - startedAt,
+  };
+
+  reportLLMUsage({
+    source: request.source || 'unknown',
+    provider,
+    model: result.model,
+    usage: result.usage,
+    latencyMs: result.latencyMs,
+    context: request.usageContext,
+  });
+  return result;
+}
+
+/**
+ * Parsed JSON payloads of an SSE response body ("data: {...}" lines)
+ */
+export async function* readSSEPayloads(response: Response): AsyncGenerator<LLMWirePayload> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error('No response body');
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.startsWith('data: ')) continue;
+      const data = line.slice(6).trim();
+      if (!data || data === '[DONE]') continue;
+      try {
+        yield JSON.parse(data);
+      } catch {
+        console.warn(`[LLMGateway] Skipping invalid SSE payload: ${data.slice(0, 100)}`);
+      }
+    }
+  }
+}
+
+/**
+ * Streaming completion: text deltas as they arrive, tool calls once complete,
+ * then a final 'done' event carrying the same LLMResult callLLM() would return
+ */
+export async function* streamLLM(originalRequest: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+  const request = await applyAgentBudget(originalRequest);
+  const { provider, model } = resolveProviderAndModel(request.provider, request.model);
+  const format = PROVIDERS[provider].format;
+  const startedAt = Date.now();
+
+  const response = await sendProviderRequest(provider, {
+    model,
+    body: encodeRequestBody(provider, request),
+    stream: true,
+    timeoutMs: request.timeoutMs,
+    retries: request.retries,
+    signal: request.signal,
+    headers: format === 'anthropic' ? anthropicHeaders(request) : undefined,
+    apiKey: request.apiKey,
+  });
+
+  const meter = createUsageMeter(provider, model);
+  const toolCalls: LLMToolCall[] = [];
+  // In-progress tool calls: Anthropic keys by content block index, OpenAI by tool_calls[].index
+  const pending = new Map<number, { id: string; name: string; args: string }>();
+  let text = '';
+  let rawStopReason: string | null = null;
+  let responseModel = model;
+
+  const flushToolCall = (index: number): LLMToolCall | null => {
+    const entry = pending.get(index);
+    if (!entry) return null;
+    pending.delete(index);
+    const call = { id: entry.id, name: entry.name, input: parseToolArguments(entry.args) };
+    toolCalls.push(call);
+    return call;
+  };
+
+  for await (const p of readSSEPayloads(response)) {
+    meter.observe(p);
+
+    if (format === 'anthropic') {
+      if (p.type === 'message_start' && p.message?.model) responseModel = p.message.model;
+      if (p.type === 'content_block_start' && p.content_block?.type === 'tool_use') {
+        pending.set(p.index ?? 0, { id: p.content_block.id || '', name: p.content_block.name || '', args: '' });
+      }
+      if (p.type === 'content_block_delta' && p.delta?.type === 'text_delta' && p.delta.text) {
+        text += p.delta.text;
+        yield { type: 'text', text: p.delta.text };
+      }
+      if (p.type === 'content_block_delta' && p.delta?.type === 'input_json_delta') {
+        const entry = pending.get(p.index ?? 0);
+        if (entry) entry.args += p.delta.partial_json || '';
+      }
+      if (p.type === 'content_block_stop') {
+        const call = flushToolCall(p.index ?? 0);
+        if (call) yield { type: 'tool_call', call };
+      }
+      if (p.type === 'message_delta' && p.delta?.stop_reason) rawStopReason = p.delta.stop_reason;
+      if (p.type === 'error') {
+        throw new LLMGatewayError(`${PROVIDERS[provider].label} stream error: ${JSON.stringify(p.error)}`, provider, null, false);
+      }
+    } else if (format === 'openai') {
+      if (p.model) responseModel = p.model;
+      const choice = p.choices?.[0];
+      if (choice?.delta?.content) {
+        text += choice.delta.content;
+        yield { type: 'text', text: choice.delta.content };
+      }
+      for (const tc of choice?.delta?.tool_calls || []) {
+        const index = tc.index ?? 0;
+        const entry = pending.get(index) || { id: '', name: '', args: '' };
+        if (tc.id) entry.id = tc.id;
+        if (tc.function?.name) entry.name = tc.function.name;
+        if (tc.function?.arguments) entry.args += tc.function.arguments;
+        pending.set(index, entry);
+      }
+      if (choice?.finish_reason) {
+        rawStopReason = choice.finish_reason;
+        for (const index of [...pending.keys()]) {
+          const call = flushToolCall(index);
+          if (call) yield { type: 'tool_call', call };
+        }
+      }
+    } else {
+      const candidate = p.candidates?.[0];
+      for (const part of candidate?.content?.parts || []) {
+        if (part.text) {
+          text += part.text;
+          yield { type: 'text', text: part.text };
+        }
+        if (part.functionCall) {
+          const call = { id: crypto.randomUUID(), name: part.functionCall.name, input: part.functionCall.args || {} };
+          toolCalls.push(call);
+          yield { type: 'tool_call', call };
+        }
+      }
+      if (candidate?.finishReason) rawStopReason = candidate.finishReason;
+    }
+  }
+
+  // Streams cut before finish_reason: still surface what was accumulated
+  for (const index of [...pending.keys()]) {
+    const call = flushToolCall(index);
+    if (call) yield { type: 'tool_call', call };
+  }
+  if (format === 'gemini' && toolCalls.length > 0) rawStopReason = 'tool_calls';
+
+  const result: LLMResult = {
+    text: text || null,
+    toolCalls,
+    stopReason: normalizeStopReason(rawStopReason),
+    rawStopReason,
+    provider,
+    model: responseModel,
+    usage: meter.usage(),
+    latencyMs: Date.now() - startedAt,
+  };
+
+  reportLLMUsage({
+    source: request.source || 'unknown',
+    provider,
+    model: responseModel,
+    usage: result.usage,
+    latencyMs: result.latencyMs,
+    streamed: true,
+    context: request.usageContext,
+  });
+  yield { type: 'done', result };
+}
@@ -0,0 +1,229 @@
+/**
+ * Mailbox connector
+ *
+ * config: { bucket: "connector-uploads", path: "mail/support.mbox" }   (.mbox, .eml or a .zip of .eml files)
+ *
+ * Every message becomes a document (subject, sender, date and the text body; HTML-only bodies are
+ * converted, attachments are skipped). Mail is append-only: the cursor keeps the newest Date seen
+ * and the next sync only lists newer messages (plus undated ones, deduplicated by the queue).
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { strFromU8, unzipSync } from 'https://esm.sh/fflate@0.8.2';
+import {
+  ConnectorError,
+  downloadStorageFile,
+  requireString,
+  type Connector,
+  type ConnectorCursor,
+  type ConnectorDocument,
+  type ConnectorItem,
+  type ConnectorListing,
+} from './connectors.ts';
+import { htmlToMarkdown } from './htmlToMarkdown.ts';
+import { hashText } from './documentVersions.ts';
+
+export interface MailMessage {
+  messageId: string;
+  subject: string;
+  from: string;
+  to: string;
+  date: Date | null;
+  text: string;
+  raw: string;
+}
+
+type MimeHeaders = Record<string, string>;
+
+function splitHeaders(raw: string): { headers: MimeHeaders; body: string } {
+  const match = raw.match(/\r?\n\r?\n/);
+  const headerBlock = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index! + match[0].length) : '';
+
+  const headers: MimeHeaders = {};
+  // Folded header lines start with whitespace
+  for (const line of headerBlock.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!(name in headers)) headers[name] = line.slice(colon + 1).trim();
+  }
+  return { headers, body };
+}
+
+function headerParams(value: string): { value: string; params: Record<string, string> } {
+  const [main, ...rest] = value.split(';');
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const eq = param.indexOf('=');
+    if (eq > 0) params[param.slice(0, eq).trim().toLowerCase()] = param.slice(eq + 1).trim().replace(/^"|"$/g, '');
+  }
+  return { value: main.trim().toLowerCase(), params };
+}
+
+function decodeBytes(bytes: Uint8Array, charset: string = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function base64Bytes(text: string): Uint8Array {
+  const binary = atob(text.replace(/[^A-Za-z0-9+/=]/g, ''));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function quotedPrintableBytes(text: string, underscoreIsSpace: boolean = false): Uint8Array {
+  const source = (underscoreIsSpace ? text.replace(/_/g, ' ') : text).replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '=' && /^[0-9A-F]{2}$/i.test(source.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(source.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(...new TextEncoder().encode(source[i]));
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+// RFC 2047: =?utf-8?B?...?= / =?iso-8859-1?Q?...?=
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, text: string) =>
+      decodeBytes(encoding.toUpperCase() === 'B' ? base64Bytes(text) : quotedPrintableBytes(text, true), charset));
+}
+
+function decodeBody(body: string, headers: MimeHeaders): string {
+  const encoding = (headers['content-transfer-encoding'] || '').toLowerCase();
+  const charset = headerParams(headers['content-type'] || '').params.charset;
+  if (encoding === 'base64') return decodeBytes(base64Bytes(body), charset);
+  if (encoding === 'quoted-printable') return decodeBytes(quotedPrintableBytes(body), charset);
+  return body;
+}
+
+/**
+ * Readable text of a MIME entity: text/plain preferred, text/html converted, attachments skipped
+ */
+function extractText(headers: MimeHeaders, body: string): string {
+  const contentType = headerParams(headers['content-type'] || 'text/plain');
+  if (/^attachment/i.test(headers['content-disposition'] || '')) return '';
+
+  if (contentType.value.startsWith('multipart/')) {
+    const boundary = contentType.params.boundary;
+    if (!boundary) return '';
+    const parts = body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter(part => !part.startsWith('--'))
+      .map(part => splitHeaders(part.replace(/^\r?\n/, '')));
+
+    if (contentType.value === 'multipart/alternative') {
+      const plain = parts.find(p => headerParams(p.headers['content-type'] || 'text/plain').value === 'text/plain');
+      const chosen = plain || parts[parts.length - 1];
+      return chosen ? extractText(chosen.headers, chosen.body) : '';
+    }
+    return parts.map(p => extractText(p.headers, p.body)).filter(Boolean).join('\n\n');
+  }
+
+  if (contentType.value === 'text/plain') return decodeBody(body, headers).trim();
+  if (contentType.value === 'text/html') return htmlToMarkdown(decodeBody(body, headers));
+  return '';
+}
+
+export async function parseMailMessage(raw: string): Promise<MailMessage> {
+  const { headers, body } = splitHeaders(raw);
+  const date = headers.date ? new Date(headers.date) : null;
+  return {
+    messageId: (headers['message-id'] || '').replace(/[<>]/g, '').trim() || `sha256:${await hashText(raw)}`,
+    subject: decodeEncodedWords(headers.subject || '').trim() || '(senza oggetto)',
+    from: decodeEncodedWords(headers.from || ''),
+    to: decodeEncodedWords(headers.to || ''),
+    date: date && !isNaN(date.getTime()) ? date : null,
+    text: extractText(headers, body),
+    raw,
+  };
+}
+
+/**
+ * Split an mbox file into raw messages ("From " separator lines, ">From " unescaped)
+ */
+export function splitMbox(mbox: string): string[] {
+  return mbox
+    .split(/^From .*\r?\n/m)
+    .filter(message => message.trim())
+    .map(message => message.replace(/^>(>*From )/gm, '$1'));
+}
+
+export class MailboxConnector implements Connector {
+  readonly type = 'mailbox' as const;
+  private readonly bucket: string;
+  private readonly path: string;
+  private messages: Map<string, MailMessage> | null = null;
+
+  constructor(private readonly supabase: SupabaseClient, config: Record<string, unknown>) {
+    this.bucket = requireString(config, 'bucket');
+    this.path = requireString(config, 'path');
+  }
+
+  private async loadMessages(): Promise<Map<string, MailMessage>> {
+    if (this.messages) return this.messages;
+    const data = await downloadStorageFile(this.supabase, this.bucket, this.path);
+    const lowerPath = this.path.toLowerCase();
+
+    let rawMessages: string[];
+    if (lowerPath.endsWith('.zip')) {
+      const files = unzipSync(data, { filter: file => file.name.toLowerCase().endsWith('.eml') });
+      rawMessages = Object.values(files).map(file => strFromU8(file));
+    } else if (lowerPath.endsWith('.eml')) {
+      rawMessages = [strFromU8(data)];
+    } else if (lowerPath.endsWith('.mbox') || lowerPath.endsWith('.mbx')) {
+      rawMessages = splitMbox(strFromU8(data));
+    } else {
+      throw new ConnectorError(`Unsupported mailbox file: ${this.path} (expected .mbox, .eml or .zip)`);
+    }
+
+    this.messages = new Map();
+    for (const raw of rawMessages) {
+      const message = await parseMailMessage(raw);
+      this.messages.set(message.messageId, message);
+    }
+    return this.messages;
+  }
+
+  async listItems(cursor: ConnectorCursor | null): Promise<ConnectorListing> {
+    // Cursor: { latestDate: newest message Date seen at the last sync }
+    const latestSynced = cursor?.latestDate as string | null | undefined;
+    const since = latestSynced ? new Date(latestSynced).getTime() : null;
+    let latest = since;
+
+    const items: ConnectorItem[] = [];
+    for (const message of (await this.loadMessages()).values()) {
+      const time = message.date?.getTime() ?? null;
+      if (time !== null && since !== null && time <= since) continue;
+      if (time !== null && (latest === null || time > latest)) latest = time;
+      items.push({ key: message.messageId, title: message.subject, version: await hashText(message.raw) });
+    }
+    return { items, cursor: { latestDate: latest !== null ? new Date(latest).toISOString() : null } };
+  }
+
+  async fetchItem(item: ConnectorItem): Promise<ConnectorDocument> {
+    const message = (await this.loadMessages()).get(item.key);
+    if (!message) throw new ConnectorError(`Message ${item.key} is no longer in ${this.path}`);
+
+    const meta = [
+      `**From:** ${message.from}`,
+      message.to ? `**To:** ${message.to}` : null,
+      message.date ? `**Date:** ${message.date.toISOString()}` : null,
+    ].filter(line => line !== null).join('  \n');
+
+    return {
+      key: item.key,
+      title: message.date ? `${message.date.toISOString().slice(0, 10)} ${message.subject}` : message.subject,
+      markdown: `# ${message.subject}\n\n${meta}\n\n${message.text || '(nessun contenuto testuale)'}`,
+      sourceUrl: null,
+    };
+  }
+}
@@ -450,7 +450,7 @@ function createChildChunks(parentContent: string): string[] {
  * @param lovableApiKey - Lovable AI Gateway API key
  * @returns Summary text
  */
-async function summarizeTable(
+export async function summarizeTable(
   tableMarkdown: string,
   lovableApiKey: string
 ): Promise<string> {
@@ -1,4 +1,5 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { callLLM } from './llmGateway.ts';
 
 interface MetadataResult {
   title: string | null;
@@ -82,18 +83,16 @@ ${text.slice(0, maxChars)}
 
 Return ONLY valid JSON: {"title":"...","authors":["..."],"confidence":"high|medium|low"}`;
 
-    const res = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: { 'Authorization': `Bearer ${lovableApiKey}`, 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [{ role: 'user', content: prompt }],
-        response_format: { type: 'json_object' }
-      })
+    const result = await callLLM({
+      provider: 'lovable',
+      model: 'google/gemini-2.5-flash',
+      apiKey: lovableApiKey,
+      messages: [{ role: 'user', content: prompt }],
+      responseFormat: 'json',
+      source: 'metadata-extractor'
     });
 
-    const data = await res.json();
-    const content = data.choices[0].message.content.replace(/```json|```/g, '').trim();
+    const content = (result.text || '').replace(/```json|```/g, '').trim();
     const meta = JSON.parse(content);
 
     let title = meta.title;
@@ -0,0 +1,556 @@
+/**
+ * Office Document Parser
+ *
+ * Native parsers for DOCX, PPTX, XLSX, HTML and EPUB that produce the same ParsedNode structure
+ * as markdownElementParser, so these files skip LlamaParse entirely:
+ * - DOCX / HTML / EPUB: converted to Markdown (Word heading styles → #, ##, ###) and chunked by
+ *   parseMarkdownElements, which derives heading_hierarchy and the atomic tables/lists
+ * - PPTX: one section per slide (title, body, tables, speaker notes), h1 = deck, h2 = slide title
+ * - XLSX: every sheet becomes atomic `table` nodes (header repeated every MAX_TABLE_ROWS rows)
+ *   with an LLM summary used for embedding
+ *
+ * Office files are zip archives of XML parts; parts are read with regexes (no DOM in edge runtime).
+ */
+
+import { strFromU8, unzipSync } from 'https://esm.sh/fflate@0.8.2';
+import { parseMarkdownElements, summarizeTable, type ParsedNode, type ParseResult } from './markdownElementParser.ts';
+import { decodeHtmlEntities, extractHtmlTitle, htmlToMarkdown } from './htmlToMarkdown.ts';
+
+const MAX_TABLE_ROWS = 50;     // Righe per nodo tabella (header ripetuto)
+const MAX_SHEET_ROWS = 1000;   // Oltre questa soglia le righe del foglio vengono troncate
+
+export type OfficeFormat = 'docx' | 'pptx' | 'xlsx' | 'html' | 'epub';
+
+export const OFFICE_FORMAT_CONTENT_TYPES: Record<OfficeFormat, string> = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  html: 'text/html',
+  epub: 'application/epub+zip',
+};
+
+const EXTENSION_FORMATS: Record<string, OfficeFormat> = {
+  docx: 'docx',
+  pptx: 'pptx',
+  xlsx: 'xlsx',
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  epub: 'epub',
+};
+
+export interface OfficeParseResult extends ParseResult {
+  format: OfficeFormat;
+  title: string;
+  markdown: string;   // Full text as Markdown (context analysis, full_text)
+}
+
+export class OfficeParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OfficeParseError';
+  }
+}
+
+export function detectOfficeFormat(fileName: string): OfficeFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_FORMATS[extension] || null;
+}
+
+// ===== XML HELPERS =====
+
+type ZipEntries = Record<string, Uint8Array>;
+
+function unzip(bytes: Uint8Array, fileName: string): ZipEntries {
+  try {
+    return unzipSync(bytes);
+  } catch (error) {
+    throw new OfficeParseError(`${fileName} is not a valid ${detectOfficeFormat(fileName)} archive: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function readPart(entries: ZipEntries, path: string): string | null {
+  const data = entries[path];
+  return data ? strFromU8(data) : null;
+}
+
+function attribute(tagXml: string, name: string): string | null {
+  const match = tagXml.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeHtmlEntities(match[1]) : null;
+}
+
+/**
+ * Outermost <tag>…</tag> elements (any of `tags`) in document order; nested occurrences of the
+ * same tags stay inside their parent's xml
+ */
+function topLevelElements(xml: string, tags: string[]): { tag: string; xml: string }[] {
+  const pattern = new RegExp(`<(/?)(${tags.join('|')})(?=[\\s/>])[^>]*?(/?)>`, 'g');
+  const elements: { tag: string; xml: string }[] = [];
+  let depth = 0;
+  let start = -1;
+  let openTag = '';
+
+  for (const match of xml.matchAll(pattern)) {
+    const [full, closing, tag, selfClosing] = match;
+    if (selfClosing) continue;
+    if (!closing) {
+      if (depth === 0) {
+        start = match.index!;
+        openTag = tag;
+      }
+      depth++;
+    } else if (depth > 0) {
+      depth--;
+      if (depth === 0 && tag === openTag) {
+        elements.push({ tag, xml: xml.slice(start, match.index! + full.length) });
+      }
+    }
+  }
+  return elements;
+}
+
+/**
+ * Resolve a relationship target against the part that owns the .rels file
+ */
+function relationshipTargets(entries: ZipEntries, partPath: string): Map<string, string> {
+  const dir = partPath.includes('/') ? partPath.slice(0, partPath.lastIndexOf('/')) : '';
+  const relsPath = `${dir ? dir + '/' : ''}_rels/${partPath.split('/').pop()}.rels`;
+  const targets = new Map<string, string>();
+  for (const match of (readPart(entries, relsPath) || '').matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = attribute(match[0], 'Id');
+    const target = attribute(match[0], 'Target');
+    if (id && target) targets.set(id, resolvePath(dir, target));
+  }
+  return targets;
+}
+
+function resolvePath(baseDir: string, target: string): string {
+  const segments = target.startsWith('/') ? [] : baseDir.split('/').filter(Boolean);
+  let decoded = target.split('#')[0];
+  try {
+    decoded = decodeURIComponent(decoded);
+  } catch {
+    // Malformed escape: keep the raw target
+  }
+  for (const segment of decoded.split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment && segment !== '.') segments.push(segment);
+  }
+  return segments.join('/');
+}
+
+function markdownTable(rows: string[][]): string {
+  const width = Math.max(...rows.map(row => row.length));
+  const cell = (value: string | undefined) => (value || '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ').trim();
+  const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => cell(row[i])).join(' | ')} |`;
+  return [line(rows[0]), `| ${Array(width).fill('---').join(' | ')} |`, ...rows.slice(1).map(line)].join('\n');
+}
+
+function baseName(fileName: string): string {
+  return (fileName.split('/').pop() || fileName).replace(/\.[^.]+$/, '');
+}
+
+function reindex(nodes: ParsedNode[]): ParsedNode[] {
+  nodes.forEach((node, idx) => {
+    node.chunk_index = idx;
+  });
+  return nodes;
+}
+
+// ===== DOCX =====
+
+function docxStyleLevels(entries: ZipEntries): Map<string, number> {
+  const levels = new Map<string, number>();
+  for (const style of (readPart(entries, 'word/styles.xml') || '').matchAll(/<w:style\b[^>]*>[\s\S]*?<\/w:style>/g)) {
+    const styleId = attribute(style[0], 'w:styleId');
+    const name = style[0].match(/<w:name w:val="([^"]*)"/)?.[1].toLowerCase() || '';
+    const outline = style[0].match(/<w:outlineLvl w:val="(\d)"/)?.[1];
+    if (!styleId) continue;
+    if (name === 'title') levels.set(styleId, 1);
+    else if (/^heading \d$/.test(name)) levels.set(styleId, Number(name.slice(-1)));
+    else if (outline !== undefined) levels.set(styleId, Number(outline) + 1);
+  }
+  return levels;
+}
+
+function docxParagraphText(paragraphXml: string): string {
+  let text = '';
+  for (const match of paragraphXml.matchAll(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\/>|<w:(?:br|cr)\b[^>]*\/>/g)) {
+    if (match[1] !== undefined) text += decodeHtmlEntities(match[1]);
+    else text += match[0].startsWith('<w:tab') ? '\t' : '\n';
+  }
+  return text.trim();
+}
+
+function docxTable(tableXml: string): string | null {
+  const rows = topLevelElements(tableXml.replace(/^<w:tbl[^>]*>/, ''), ['w:tr']).map(row =>
+    topLevelElements(row.xml.replace(/^<w:tr[^>]*>/, ''), ['w:tc']).map(cell =>
+      topLevelElements(cell.xml, ['w:p']).map(p => docxParagraphText(p.xml)).filter(Boolean).join(' ')
+    )
+  ).filter(row => row.some(Boolean));
+  return rows.length > 0 ? markdownTable(rows) : null;
+}
+
+function docxToMarkdown(entries: ZipEntries, fileName: string): string {
+  const documentXml = readPart(entries, 'word/document.xml');
+  if (!documentXml) throw new OfficeParseError(`${fileName} has no word/document.xml`);
+  const body = documentXml.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1] || '';
+  const styleLevels = docxStyleLevels(entries);
+
+  const blocks: { text: string; isListItem: boolean }[] = [];
+  for (const element of topLevelElements(body, ['w:p', 'w:tbl'])) {
+    if (element.tag === 'w:tbl') {
+      const table = docxTable(element.xml);
+      if (table) blocks.push({ text: table, isListItem: false });
+      continue;
+    }
+
+    const text = docxParagraphText(element.xml);
+    if (!text) continue;
+    const styleId = element.xml.match(/<w:pStyle w:val="([^"]*)"/)?.[1];
+    const outline = element.xml.match(/<w:outlineLvl w:val="(\d)"/)?.[1];
+    const headingLevel = (styleId && styleLevels.get(styleId)) || (outline !== undefined ? Number(outline) + 1 : 0);
+
+    if (headingLevel > 0) {
+      blocks.push({ text: `${'#'.repeat(Math.min(headingLevel, 6))} ${text.replace(/\s+/g, ' ')}`, isListItem: false });
+    } else if (element.xml.includes('<w:numPr>')) {
+      const level = Number(element.xml.match(/<w:ilvl w:val="(\d+)"/)?.[1] || 0);
+      blocks.push({ text: `${'  '.repeat(level)}- ${text.replace(/\s*\n\s*/g, ' ')}`, isListItem: true });
+    } else {
+      blocks.push({ text, isListItem: false });
+    }
+  }
+
+  // List items stay on consecutive lines so the chunker sees a single list
+  return blocks
+    .map((block, i) => (i > 0 && block.isListItem && blocks[i - 1].isListItem ? '\n' : i > 0 ? '\n\n' : '') + block.text)
+    .join('');
+}
+
+function coreTitle(entries: ZipEntries): string | null {
+  const title = readPart(entries, 'docProps/core.xml')?.match(/<dc:title>([\s\S]*?)<\/dc:title>/)?.[1];
+  return title ? decodeHtmlEntities(title).trim() || null : null;
+}
+
+// ===== PPTX =====
+
+interface Slide {
+  number: number;
+  title: string;
+  body: string;
+  notes: string;
+}
+
+function drawingParagraphs(xml: string): { text: string; level: number }[] {
+  return topLevelElements(xml, ['a:p']).map(p => ({
+    text: [...p.xml.matchAll(/<a:t>([\s\S]*?)<\/a:t>|<a:br\b[^>]*\/>/g)]
+      .map(match => (match[1] !== undefined ? decodeHtmlEntities(match[1]) : '\n'))
+      .join('')
+      .trim(),
+    level: Number(p.xml.match(/<a:pPr\b[^>]*\slvl="(\d+)"/)?.[1] || 0),
+  })).filter(paragraph => paragraph.text);
+}
+
+function drawingTable(xml: string): string | null {
+  const rows = topLevelElements(xml, ['a:tr']).map(row =>
+    topLevelElements(row.xml.replace(/^<a:tr[^>]*>/, ''), ['a:tc']).map(cell =>
+      drawingParagraphs(cell.xml).map(p => p.text).join(' ')
+    )
+  ).filter(row => row.some(Boolean));
+  return rows.length > 0 ? markdownTable(rows) : null;
+}
+
+function placeholderType(shapeXml: string): string | null {
+  const placeholder = shapeXml.match(/<p:ph\b[^>]*>/)?.[0];
+  if (!placeholder) return null;
+  return attribute(placeholder, 'type') || 'body';
+}
+
+function parseSlide(entries: ZipEntries, slidePath: string, number: number): Slide {
+  const slideXml = readPart(entries, slidePath) || '';
+  let title = '';
+  const body: string[] = [];
+
+  for (const shape of topLevelElements(slideXml, ['p:sp', 'p:graphicFrame'])) {
+    if (shape.tag === 'p:graphicFrame') {
+      const table = drawingTable(shape.xml);
+      if (table) body.push(table);
+      continue;
+    }
+    const type = placeholderType(shape.xml);
+    if (type === 'sldNum' || type === 'dt' || type === 'ftr') continue;
+    const paragraphs = drawingParagraphs(shape.xml);
+    if (paragraphs.length === 0) continue;
+
+    if ((type === 'title' || type === 'ctrTitle') && !title) {
+      title = paragraphs.map(p => p.text).join(' ').replace(/\s+/g, ' ');
+    } else if (type === 'subTitle') {
+      body.push(paragraphs.map(p => p.text).join('\n'));
+    } else {
+      body.push(paragraphs.map(p => `${'  '.repeat(p.level)}- ${p.text.replace(/\s*\n\s*/g, ' ')}`).join('\n'));
+    }
+  }
+
+  // Speaker notes: body placeholder of the linked notesSlide part
+  let notes = '';
+  const notesPath = [...relationshipTargets(entries, slidePath).values()].find(target => target.includes('notesSlides/'));
+  if (notesPath) {
+    notes = topLevelElements(readPart(entries, notesPath) || '', ['p:sp'])
+      .filter(shape => placeholderType(shape.xml) === 'body')
+      .flatMap(shape => drawingParagraphs(shape.xml).map(p => p.text))
+      .join('\n');
+  }
+
+  return { number, title: title || `Slide ${number}`, body: body.join('\n\n'), notes };
+}
+
+function pptxSlides(entries: ZipEntries, fileName: string): Slide[] {
+  const presentationXml = readPart(entries, 'ppt/presentation.xml');
+  if (!presentationXml) throw new OfficeParseError(`${fileName} has no ppt/presentation.xml`);
+
+  // Slide order comes from the presentation, not from the part names
+  const targets = relationshipTargets(entries, 'ppt/presentation.xml');
+  const slidePaths = [...presentationXml.matchAll(/<p:sldId\b[^>]*>/g)]
+    .map(match => targets.get(attribute(match[0], 'r:id') || ''))
+    .filter((path): path is string => !!path && !!entries[path]);
+
+  return slidePaths.map((path, idx) => parseSlide(entries, path, idx + 1));
+}
+
+function slideMarkdown(slide: Slide): string {
+  const parts = [`## Slide ${slide.number}: ${slide.title}`];
+  if (slide.body) parts.push(slide.body);
+  if (slide.notes) parts.push(`**Note del relatore:**\n${slide.notes}`);
+  return parts.join('\n\n');
+}
+
+// ===== XLSX =====
+
+// Built-in number formats that render dates (ECMA-376 §18.8.30)
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+function xlsxSharedStrings(entries: ZipEntries): string[] {
+  const xml = readPart(entries, 'xl/sharedStrings.xml') || '';
+  return [...xml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map(match =>
+    [...match[1].replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)]
+      .map(t => decodeHtmlEntities(t[1]))
+      .join('')
+  );
+}
+
+/**
+ * Indexes of cell styles (the `s` attribute) whose number format is a date
+ */
+function xlsxDateStyles(entries: ZipEntries): Set<number> {
+  const xml = readPart(entries, 'xl/styles.xml') || '';
+  const customDateFormats = new Set<number>();
+  for (const match of xml.matchAll(/<numFmt\b[^>]*>/g)) {
+    const code = (attribute(match[0], 'formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+    if (/[dy]/i.test(code)) customDateFormats.add(Number(attribute(match[0], 'numFmtId')));
+  }
+
+  const cellXfs = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] || '';
+  const dateStyles = new Set<number>();
+  [...cellXfs.matchAll(/<xf\b[^>]*>/g)].forEach((match, idx) => {
+    const formatId = Number(attribute(match[0], 'numFmtId') || 0);
+    if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) dateStyles.add(idx);
+  });
+  return dateStyles;
+}
+
+function excelSerialToDate(serial: number): string {
+  const iso = new Date(Math.round((serial - 25569) * 86400 * 1000)).toISOString();
+  return serial % 1 === 0 ? iso.slice(0, 10) : iso.slice(0, 16).replace('T', ' ');
+}
+
+function columnIndex(cellRef: string): number {
+  let index = 0;
+  for (const char of cellRef.replace(/\d+$/, '')) index = index * 26 + (char.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+function xlsxSheetRows(sheetXml: string, sharedStrings: string[], dateStyles: Set<number>): string[][] {
+  const rows: string[][] = [];
+  for (const rowMatch of sheetXml.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = [];
+    for (const cellMatch of (rowMatch[1] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cellMatch[1];
+      const inner = cellMatch[2] || '';
+      const ref = attribute(attrs, 'r');
+      const type = attribute(attrs, 't');
+      const raw = inner.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 'inlineStr') {
+        value = [...inner.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(t => decodeHtmlEntities(t[1])).join('');
+      } else if (raw === undefined) {
+        continue;
+      } else if (type === 's') {
+        value = sharedStrings[Number(raw)] ?? '';
+      } else if (type === 'b') {
+        value = raw === '1' ? 'TRUE' : 'FALSE';
+      } else if (type === 'str' || type === 'e') {
+        value = decodeHtmlEntities(raw);
+      } else if (dateStyles.has(Number(attribute(attrs, 's') || -1)) && Number(raw) > 0 && Number(raw) < 2958466) {
+        value = excelSerialToDate(Number(raw));
+      } else {
+        value = raw;
+      }
+      row[ref ? columnIndex(ref) : row.length] = value.trim();
+    }
+    if (row.some(Boolean)) rows.push(Array.from(row, value => value || ''));
+  }
+  return rows;
+}
+
+async function xlsxToNodes(entries: ZipEntries, fileName: string, title: string, lovableApiKey: string): Promise<{ nodes: ParsedNode[]; markdown: string }> {
+  const workbookXml = readPart(entries, 'xl/workbook.xml');
+  if (!workbookXml) throw new OfficeParseError(`${fileName} has no xl/workbook.xml`);
+
+  const targets = relationshipTargets(entries, 'xl/workbook.xml');
+  const sharedStrings = xlsxSharedStrings(entries);
+  const dateStyles = xlsxDateStyles(entries);
+  const nodes: ParsedNode[] = [];
+  const markdownParts = [`# ${title}`];
+
+  for (const sheetMatch of workbookXml.matchAll(/<sheet\b[^>]*>/g)) {
+    const sheetName = attribute(sheetMatch[0], 'name') || 'Foglio';
+    const sheetPath = targets.get(attribute(sheetMatch[0], 'r:id') || '');
+    const sheetXml = sheetPath ? readPart(entries, sheetPath) : null;
+    if (!sheetXml) continue;
+
+    const rows = xlsxSheetRows(sheetXml, sharedStrings, dateStyles);
+    if (rows.length === 0) continue;
+    if (rows.length > MAX_SHEET_ROWS + 1) {
+      console.warn(`[OfficeParser] Sheet "${sheetName}" has ${rows.length} rows, keeping the first ${MAX_SHEET_ROWS}`);
+    }
+
+    const [header, ...dataRows] = rows.slice(0, MAX_SHEET_ROWS + 1);
+    const blockCount = Math.max(1, Math.ceil(dataRows.length / MAX_TABLE_ROWS));
+    markdownParts.push(`## ${sheetName}`);
+
+    for (let block = 0; block < blockCount; block++) {
+      const blockRows = dataRows.slice(block * MAX_TABLE_ROWS, (block + 1) * MAX_TABLE_ROWS);
+      const table = markdownTable([header, ...blockRows]);
+      const rowRange = blockCount > 1
+        ? `Righe ${block * MAX_TABLE_ROWS + 2}–${block * MAX_TABLE_ROWS + blockRows.length + 1}`
+        : undefined;
+      const summary = await summarizeTable(`Foglio "${sheetName}"${rowRange ? ` (${rowRange})` : ''}\n\n${table}`, lovableApiKey);
+
+      nodes.push({
+        chunk_index: nodes.length,
+        content: summary,           // Summary for embedding
+        original_content: table,    // Full table for LLM
+        summary,
+        chunk_type: 'table',
+        is_atomic: true,
+        heading_hierarchy: { h1: title, h2: sheetName, ...(rowRange ? { h3: rowRange } : {}) },
+      });
+      markdownParts.push(table);
+    }
+  }
+
+  return { nodes, markdown: markdownParts.join('\n\n') };
+}
+
+// ===== EPUB =====
+
+function epubToMarkdown(entries: ZipEntries, fileName: string): { title: string | null; markdown: string } {
+  const container = readPart(entries, 'META-INF/container.xml') || '';
+  const opfPath = container.match(/<rootfile\b[^>]*full-path="([^"]+)"/)?.[1];
+  const opf = opfPath ? readPart(entries, opfPath) : null;
+  if (!opfPath || !opf) throw new OfficeParseError(`${fileName} has no OPF package document`);
+
+  const opfDir = opfPath.includes('/') ? opfPath.slice(0, opfPath.lastIndexOf('/')) : '';
+  const manifest = new Map<string, string>();
+  for (const item of opf.matchAll(/<item\b[^>]*>/g)) {
+    const id = attribute(item[0], 'id');
+    const href = attribute(item[0], 'href');
+    if (id && href) manifest.set(id, resolvePath(opfDir, href));
+  }
+
+  // Chapters in reading order (spine)
+  const chapters = [...opf.matchAll(/<itemref\b[^>]*>/g)]
+    .map(itemref => manifest.get(attribute(itemref[0], 'idref') || ''))
+    .filter((path): path is string => !!path && /\.x?html?$/i.test(path))
+    .map(path => htmlToMarkdown(readPart(entries, path) || ''))
+    .filter(Boolean);
+
+  const title = opf.match(/<dc:title[^>]*>([\s\S]*?)<\/dc:title>/)?.[1];
+  return { title: title ? decodeHtmlEntities(title).trim() : null, markdown: chapters.join('\n\n') };
+}
+
+// ===== ENTRY POINT =====
+
+function withTitle(markdown: string, title: string): string {
+  return /^#\s/.test(markdown.trimStart()) ? markdown : `# ${title}\n\n${markdown}`;
+}
+
+/**
+ * Parse a DOCX/PPTX/XLSX/HTML/EPUB file into ParsedNodes
+ * @param bytes - File content
+ * @param fileName - Original file name (format is detected from the extension)
+ * @param lovableApiKey - API key for table summarization
+ */
+export async function parseOfficeDocument(
+  bytes: Uint8Array,
+  fileName: string,
+  lovableApiKey: string
+): Promise<OfficeParseResult> {
+  const format = detectOfficeFormat(fileName);
+  if (!format) throw new OfficeParseError(`Unsupported document format: ${fileName}`);
+  console.log(`[OfficeParser] Parsing ${format.toUpperCase()}: ${fileName} (${bytes.length} bytes)`);
+
+  let title = baseName(fileName);
+  let markdown: string;
+  let baseNodes: ParsedNode[];
+
+  if (format === 'html') {
+    const html = strFromU8(bytes);
+    title = extractHtmlTitle(html) || title;
+    markdown = withTitle(htmlToMarkdown(html), title);
+    baseNodes = (await parseMarkdownElements(markdown, lovableApiKey)).baseNodes;
+  } else if (format === 'epub') {
+    const epub = epubToMarkdown(unzip(bytes, fileName), fileName);
+    title = epub.title || title;
+    markdown = withTitle(epub.markdown, title);
+    baseNodes = (await parseMarkdownElements(markdown, lovableApiKey)).baseNodes;
+  } else if (format === 'docx') {
+    const entries = unzip(bytes, fileName);
+    title = coreTitle(entries) || title;
+    markdown = withTitle(docxToMarkdown(entries, fileName), title);
+    baseNodes = (await parseMarkdownElements(markdown, lovableApiKey)).baseNodes;
+  } else if (format === 'pptx') {
+    const entries = unzip(bytes, fileName);
+    title = coreTitle(entries) || title;
+    const slides = pptxSlides(entries, fileName);
+    markdown = [`# ${title}`, ...slides.map(slideMarkdown)].join('\n\n');
+    // One section per slide: title, body and notes stay together
+    baseNodes = slides.map(slide => ({
+      chunk_index: slide.number - 1,
+      content: slideMarkdown(slide),
+      chunk_type: 'text' as const,
+      is_atomic: false,
+      heading_hierarchy: { h1: title, h2: slide.title },
+      page_number: slide.number,
+    }));
+    console.log(`[OfficeParser] ${slides.length} slides, ${slides.filter(slide => slide.notes).length} with speaker notes`);
+  } else {
+    const entries = unzip(bytes, fileName);
+    title = coreTitle(entries) || title;
+    const workbook = await xlsxToNodes(entries, fileName, title, lovableApiKey);
+    markdown = workbook.markdown;
+    baseNodes = workbook.nodes;
+  }
+
+  if (baseNodes.length === 0) throw new OfficeParseError(`No content extracted from ${fileName}`);
+  console.log(`[OfficeParser] ${fileName}: ${baseNodes.length} nodes`);
+
+  return {
+    format,
+    title,
+    markdown,
+    baseNodes: reindex(baseNodes),
+    objectsMap: new Map<string, ParsedNode>(),
+  };
+}
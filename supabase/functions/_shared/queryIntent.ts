@@ -0,0 +1,370 @@
+/**
+ * Query Intent Taxonomy
+ *
+ * Data-driven classification of a query into a retrieval intent.
+ * Intents live in the query_intents table and can be scoped globally, to an agent
+ * or to a document folder. Each intent carries:
+ * - patterns: regex sources (case-insensitive), checked first
+ * - exemplars: example queries, matched by embedding similarity when no pattern fires
+ * - chunk_type_boosts: chunk_type → boost factor, consumed by the boost_map re-ranker
+ *
+ * Resolution order: agent > folder > global, then priority DESC.
+ * BUILTIN_INTENTS (the original financial intents) are used when the table is empty or unreachable.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { generateEmbedding } from './embeddingService.ts';
+import type { UsageContext } from './usageLedger.ts';
+
+export const GENERAL_INTENT = 'general';
+
+export type IntentScope = 'builtin' | 'global' | 'agent' | 'folder';
+
+export interface ExemplarEmbedding {
+  text: string;
+  embedding: number[];
+}
+
+export interface IntentDefinition {
+  id: string | null;
+  name: string;
+  description?: string | null;
+  scope: IntentScope;
+  agent_id?: string | null;
+  folder?: string | null;
+  patterns: string[];
+  exemplars: string[];
+  exemplar_embeddings: ExemplarEmbedding[];
+  exemplar_threshold: number;
+  chunk_type_boosts: Record<string, number>;
+  priority: number;
+}
+
+export interface IntentEvaluation {
+  intent: string;
+  scope: IntentScope;
+  folder?: string | null;
+  matched_pattern: string | null;
+  invalid_patterns: string[];
+  best_exemplar: string | null;
+  exemplar_similarity: number | null;
+}
+
+export interface IntentMatch {
+  intent: string;
+  intent_id: string | null;
+  scope: IntentScope | null;
+  matched_by: 'pattern' | 'exemplar' | 'fallback';
+  pattern?: string;
+  exemplar?: string;
+  similarity?: number;
+  chunk_type_boosts: Record<string, number>;
+  evaluated: IntentEvaluation[];
+}
+
+const DEFAULT_EXEMPLAR_THRESHOLD = 0.82;
+
+const SCOPE_RANK: Record<IntentScope, number> = {
+  'agent': 0,
+  'folder': 1,
+  'global': 2,
+  'builtin': 3,
+};
+
+// Original hardcoded financial intents (SEC filings), kept as fallback taxonomy
+export const BUILTIN_INTENTS: IntentDefinition[] = [
+  {
+    id: null,
+    name: 'filing_metadata', // securities registered, filing date, auditor, exhibits
+    scope: 'builtin',
+    patterns: [
+      '\\b(securities?\\s+registered|exchange\\s+listing|trading\\s+symbol|ticker|cusip)\\b',
+      '\\b(auditor|independent\\s+accountant|filing\\s+date|form\\s+(10-[kq]|8-k)|sec\\s+filing)\\b',
+      '\\b(registrant|cover\\s+page|exhibit\\s+index|signatures?)\\b',
+      '\\b(debt\\s+securities?\\s+(registered|listed|traded))\\b',
+    ],
+    exemplars: [],
+    exemplar_embeddings: [],
+    exemplar_threshold: DEFAULT_EXEMPLAR_THRESHOLD,
+    chunk_type_boosts: { 'cover_page': 3.0, 'header': 2.5, 'exhibit': 2.0, 'text': 1.2, 'table': 0.6, 'visual': 0.5 },
+    priority: 50,
+  },
+  {
+    id: null,
+    name: 'balance_sheet_metric', // ROA, quick ratio, debt ratios, assets, liabilities
+    scope: 'builtin',
+    patterns: [
+      '\\b(quick\\s+ratio|current\\s+ratio|debt[- ]to[- ]equity|working\\s+capital)\\b',
+      '\\b(total\\s+(assets?|liabilities?|equity|debt)|book\\s+value)\\b',
+      '\\b(roa|roe|return\\s+on\\s+(assets?|equity))\\b',
+      '\\b(accounts?\\s+(receivable|payable)|inventory|cash\\s+and\\s+equivalents?)\\b',
+      '\\b(balance\\s+sheet|financial\\s+position)\\b',
+    ],
+    exemplars: [],
+    exemplar_embeddings: [],
+    exemplar_threshold: DEFAULT_EXEMPLAR_THRESHOLD,
+    chunk_type_boosts: { 'balance_sheet': 2.5, 'financial_statement': 2.0, 'table': 1.8, 'visual': 1.5, 'text': 0.9 },
+    priority: 40,
+  },
+  {
+    id: null,
+    name: 'income_statement_metric', // margins, revenue growth, EPS, net income
+    scope: 'builtin',
+    patterns: [
+      '\\b(revenue|sales|net\\s+income|gross\\s+profit|operating\\s+income)\\b',
+      '\\b(eps|earnings\\s+per\\s+share|diluted\\s+eps)\\b',
+      '\\b(gross\\s+margin|operating\\s+margin|net\\s+margin|profit\\s+margin)\\b',
+      '\\b(income\\s+statement|statement\\s+of\\s+operations?)\\b',
+      '\\b(cost\\s+of\\s+(goods\\s+sold|revenue|sales)|cogs)\\b',
+    ],
+    exemplars: [],
+    exemplar_embeddings: [],
+    exemplar_threshold: DEFAULT_EXEMPLAR_THRESHOLD,
+    chunk_type_boosts: { 'income_statement': 2.5, 'financial_statement': 2.0, 'table': 1.8, 'visual': 1.5, 'text': 0.9 },
+    priority: 30,
+  },
+  {
+    id: null,
+    name: 'cash_flow_metric', // capex, FCF, operating cash flow
+    scope: 'builtin',
+    patterns: [
+      '\\b(capex|capital\\s+expenditure|property[,\\s]+plant[,\\s]+and\\s+equipment)\\b',
+      '\\b(free\\s+cash\\s+flow|fcf|operating\\s+cash\\s+flow|cash\\s+from\\s+operations?)\\b',
+      '\\b(cash\\s+flow\\s+statement|statement\\s+of\\s+cash\\s+flows?)\\b',
+      '\\b(depreciation|amortization|investing\\s+activities?|financing\\s+activities?)\\b',
+    ],
+    exemplars: [],
+    exemplar_embeddings: [],
+    exemplar_threshold: DEFAULT_EXEMPLAR_THRESHOLD,
+    chunk_type_boosts: { 'cash_flow_statement': 2.5, 'financial_statement': 2.0, 'table': 1.8, 'visual': 1.5, 'text': 0.9 },
+    priority: 20,
+  },
+  {
+    id: null,
+    name: 'segment_analysis', // segment revenue, geographic breakdown
+    scope: 'builtin',
+    patterns: [
+      '\\b(segment|geographic|regional|by\\s+(region|country|product\\s+line))\\b',
+      '\\b(business\\s+unit|operating\\s+segment|reportable\\s+segment)\\b',
+    ],
+    exemplars: [],
+    exemplar_embeddings: [],
+    exemplar_threshold: DEFAULT_EXEMPLAR_THRESHOLD,
+    chunk_type_boosts: { 'segment': 2.0, 'table': 1.8, 'visual': 1.5, 'text': 1.0 },
+    priority: 10,
+  },
+];
+
+interface QueryIntentRow {
+  id: string;
+  name: string;
+  description: string | null;
+  scope_type: 'global' | 'agent' | 'folder';
+  agent_id: string | null;
+  folder: string | null;
+  patterns: string[] | null;
+  exemplars: string[] | null;
+  exemplar_embeddings: ExemplarEmbedding[] | null;
+  exemplar_threshold: number | null;
+  chunk_type_boosts: Record<string, number> | null;
+  priority: number | null;
+}
+
+function rowToDefinition(row: QueryIntentRow): IntentDefinition {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    scope: row.scope_type,
+    agent_id: row.agent_id,
+    folder: row.folder,
+    patterns: row.patterns || [],
+    exemplars: row.exemplars || [],
+    exemplar_embeddings: row.exemplar_embeddings || [],
+    exemplar_threshold: row.exemplar_threshold ?? DEFAULT_EXEMPLAR_THRESHOLD,
+    chunk_type_boosts: row.chunk_type_boosts || {},
+    priority: row.priority ?? 0,
+  };
+}
+
+export function sortByPrecedence(intents: IntentDefinition[]): IntentDefinition[] {
+  return [...intents].sort((a, b) =>
+    SCOPE_RANK[a.scope] - SCOPE_RANK[b.scope] || b.priority - a.priority
+  );
+}
+
+/**
+ * Load the intent taxonomy that applies to an agent:
+ * its own intents, intents of folders it has knowledge from, and global intents.
+ */
+export async function loadIntentTaxonomy(
+  supabase: SupabaseClient,
+  agentId: string | null
+): Promise<IntentDefinition[]> {
+  const { data, error } = await supabase
+    .from('query_intents')
+    .select('*')
+    .eq('is_active', true);
+
+  if (error || !data || data.length === 0) {
+    if (error) console.warn('[IntentTaxonomy] Could not load query_intents, using builtin:', error.message);
+    return BUILTIN_INTENTS;
+  }
+
+  let agentFolders = new Set<string>();
+  if (agentId && data.some((row: QueryIntentRow) => row.scope_type === 'folder')) {
+    const { data: folders } = await supabase.rpc('get_agent_knowledge_folders', { p_agent_id: agentId });
+    agentFolders = new Set((folders || []).map((f: { folder: string }) => f.folder));
+  }
+
+  const applicable = (data as QueryIntentRow[]).filter(row =>
+    row.scope_type === 'global' ||
+    (row.scope_type === 'agent' && row.agent_id === agentId) ||
+    (row.scope_type === 'folder' && row.folder !== null && agentFolders.has(row.folder))
+  );
+
+  return sortByPrecedence(applicable.map(rowToDefinition));
+}
+
+/**
+ * Compute and persist embeddings for exemplars that don't have one yet.
+ * Returns the taxonomy with embeddings filled in (builtin intents are untouched).
+ */
+export async function ensureExemplarEmbeddings(
+  supabase: SupabaseClient,
+  intents: IntentDefinition[],
+  openAIApiKey: string,
+  usageContext?: UsageContext
+): Promise<IntentDefinition[]> {
+  return await Promise.all(intents.map(async (intent) => {
+    const cached = new Set(intent.exemplar_embeddings.map(e => e.text));
+    const missing = intent.exemplars.filter(text => !cached.has(text));
+    if (!intent.id || missing.length === 0) return intent;
+
+    try {
+      const computed = await Promise.all(missing.map(async (text) => ({
+        text,
+        embedding: (await generateEmbedding(text, openAIApiKey, { source: 'queryIntent', context: usageContext })).embedding,
+      })));
+      // Drop embeddings of exemplars that were removed from the intent
+      const exemplarEmbeddings = [...intent.exemplar_embeddings, ...computed]
+        .filter(e => intent.exemplars.includes(e.text));
+
+      await supabase
+        .from('query_intents')
+        .update({ exemplar_embeddings: exemplarEmbeddings })
+        .eq('id', intent.id);
+
+      console.log(`[IntentTaxonomy] Embedded ${computed.length} exemplar(s) for "${intent.name}"`);
+      return { ...intent, exemplar_embeddings: exemplarEmbeddings };
+    } catch (error) {
+      console.warn(`[IntentTaxonomy] Exemplar embedding failed for "${intent.name}":`, error instanceof Error ? error.message : error);
+      return intent;
+    }
+  }));
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+/**
+ * Classify a query against a taxonomy (already sorted by precedence).
+ * Pattern matches win in precedence order; otherwise the best exemplar above
+ * its intent's threshold wins; otherwise 'general'. Every intent's evaluation is
+ * returned so the admin UI can show why an intent fired (or didn't).
+ */
+export function detectIntent(
+  query: string,
+  taxonomy: IntentDefinition[],
+  queryEmbedding: number[] | null = null
+): IntentMatch {
+  const evaluated: IntentEvaluation[] = taxonomy.map(intent => {
+    const invalidPatterns: string[] = [];
+    let matchedPattern: string | null = null;
+
+    for (const source of intent.patterns) {
+      try {
+        if (new RegExp(source, 'i').test(query)) {
+          matchedPattern = source;
+          break;
+        }
+      } catch {
+        invalidPatterns.push(source);
+      }
+    }
+
+    let bestExemplar: string | null = null;
+    let bestSimilarity: number | null = null;
+    if (queryEmbedding) {
+      for (const exemplar of intent.exemplar_embeddings) {
+        const similarity = cosineSimilarity(queryEmbedding, exemplar.embedding);
+        if (bestSimilarity === null || similarity > bestSimilarity) {
+          bestSimilarity = similarity;
+          bestExemplar = exemplar.text;
+        }
+      }
+    }
+
+    return {
+      intent: intent.name,
+      scope: intent.scope,
+      folder: intent.folder,
+      matched_pattern: matchedPattern,
+      invalid_patterns: invalidPatterns,
+      best_exemplar: bestExemplar,
+      exemplar_similarity: bestSimilarity,
+    };
+  });
+
+  const patternIdx = evaluated.findIndex(e => e.matched_pattern !== null);
+  if (patternIdx >= 0) {
+    const intent = taxonomy[patternIdx];
+    return {
+      intent: intent.name,
+      intent_id: intent.id,
+      scope: intent.scope,
+      matched_by: 'pattern',
+      pattern: evaluated[patternIdx].matched_pattern!,
+      chunk_type_boosts: intent.chunk_type_boosts,
+      evaluated,
+    };
+  }
+
+  let exemplarIdx = -1;
+  evaluated.forEach((e, idx) => {
+    if (e.exemplar_similarity === null || e.exemplar_similarity < taxonomy[idx].exemplar_threshold) return;
+    if (exemplarIdx < 0 || e.exemplar_similarity > evaluated[exemplarIdx].exemplar_similarity!) {
+      exemplarIdx = idx;
+    }
+  });
+  if (exemplarIdx >= 0) {
+    const intent = taxonomy[exemplarIdx];
+    return {
+      intent: intent.name,
+      intent_id: intent.id,
+      scope: intent.scope,
+      matched_by: 'exemplar',
+      exemplar: evaluated[exemplarIdx].best_exemplar!,
+      similarity: evaluated[exemplarIdx].exemplar_similarity!,
+      chunk_type_boosts: intent.chunk_type_boosts,
+      evaluated,
+    };
+  }
+
+  return {
+    intent: GENERAL_INTENT,
+    intent_id: null,
+    scope: null,
+    matched_by: 'fallback',
+    chunk_type_boosts: {},
+    evaluated,
+  };
+}
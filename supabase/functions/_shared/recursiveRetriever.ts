@@ -11,6 +11,8 @@
  * 3. Zero information loss during retrieval
  */
 
+import { describeChunkLocation, toCitableChunk } from './citations.ts';
+
 export interface ChunkWithRecursiveRetrieval {
   id: string;
   pool_document_id: string;
@@ -21,6 +23,9 @@ export interface ChunkWithRecursiveRetrieval {
   chunk_type: string;
   is_atomic: boolean;
   similarity: number;
+  citation_id?: string;         // present on unified retrieval hits: quoted back in [cite:...] markers
+  page_number?: number | null;
+  heading_hierarchy?: unknown;
 }
 
 /**
@@ -64,11 +69,14 @@ export function formatChunksForContext(
   if (chunks.length === 0) return '';
 
   const contextParts = chunks.map((chunk, idx) => {
+    const citable = toCitableChunk(chunk);
     const metadata = [
+      citable ? `Citation ID: ${citable.citation_id}` : null,
       `Documento: ${chunk.document_name}`,
+      citable ? describeChunkLocation(citable) : null,
       `Tipo: ${chunk.chunk_type}`,
       `Similarità: ${(chunk.similarity * 100).toFixed(1)}%`,
-    ].join(' | ');
+    ].filter(Boolean).join(' | ');
 
     return `[Chunk ${idx + 1}] ${metadata}\n${chunk.content}`;
   });
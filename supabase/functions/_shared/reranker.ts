@@ -0,0 +1,399 @@
+/**
+ * Pluggable Re-ranking Stage
+ *
+ * Post-retrieval re-rankers behind a single interface, selected per agent
+ * (agents.reranker / agents.reranker_config):
+ * - none:           keep the fused retrieval order
+ * - boost_map:      multiply the fused score by the detected intent's chunk_type boost (query_intents)
+ * - llm_pointwise:  LLM scores every candidate independently (0-10)
+ * - llm_listwise:   LLM orders the whole candidate list in one call
+ * - lexical:        deterministic BM25 over the candidate set (no network, safe for tests)
+ *
+ * Every re-ranker falls back to the input order on failure, never dropping candidates.
+ */
+
+import { BUILTIN_INTENTS, detectIntent, type IntentMatch } from './queryIntent.ts';
+import { callLLM } from './llmGateway.ts';
+import type { UsageContext } from './usageLedger.ts';
+
+export type RerankerName = 'none' | 'boost_map' | 'llm_pointwise' | 'llm_listwise' | 'lexical';
+
+export const RERANKER_NAMES: RerankerName[] = ['none', 'boost_map', 'llm_pointwise', 'llm_listwise', 'lexical'];
+
+export const DEFAULT_RERANKER: RerankerName = 'boost_map';
+
+export interface RerankerConfig {
+  name: RerankerName;
+  model?: string;           // LLM re-rankers only
+  max_candidates?: number;  // LLM re-rankers only: candidates sent to the model
+  timeout_ms?: number;      // LLM re-rankers only
+  lexical_weight?: number;  // lexical only: weight of BM25 vs fused score (0..1)
+}
+
+export interface RerankCandidate {
+  id: string;
+  content: string;
+  chunk_type: string;
+  fused_score: number;
+}
+
+export type Reranked<T> = T & {
+  rerank_score: number;
+  boosted_score?: number;
+  intent_boost?: number;
+};
+
+export interface RerankReport {
+  name: RerankerName;
+  applied: boolean;
+  fallback_reason?: string;
+  latency_ms: number;
+  details: Record<string, unknown>;
+}
+
+export interface RerankOutcome<T> {
+  chunks: Reranked<T>[];
+  report: RerankReport;
+}
+
+export interface RerankContext {
+  intent?: IntentMatch; // detected by semantic-search against the agent's intent taxonomy
+  usage?: UsageContext; // LLM rerank calls are billed to this agent/conversation
+}
+
+export interface Reranker {
+  readonly name: RerankerName;
+  rerank<T extends RerankCandidate>(query: string, candidates: T[], context?: RerankContext): Promise<RerankOutcome<T>>;
+}
+
+const DEFAULT_LLM_MODEL = 'google/gemini-2.5-flash-lite';
+const DEFAULT_LLM_MAX_CANDIDATES = 20;
+const DEFAULT_LLM_TIMEOUT_MS = 8000;
+const PASSAGE_CHAR_LIMIT = 1200;
+
+// ========== HELPERS ==========
+
+function sortByScore<T>(chunks: Reranked<T>[]): Reranked<T>[] {
+  return [...chunks].sort((a, b) => b.rerank_score - a.rerank_score);
+}
+
+function passthrough<T extends RerankCandidate>(candidates: T[]): Reranked<T>[] {
+  return candidates.map(c => ({ ...c, rerank_score: c.fused_score || 0 }));
+}
+
+function fallbackOutcome<T extends RerankCandidate>(
+  name: RerankerName,
+  candidates: T[],
+  startedAt: number,
+  reason: string
+): RerankOutcome<T> {
+  console.warn(`[Reranker:${name}] Falling back to retrieval order: ${reason}`);
+  return {
+    chunks: passthrough(candidates),
+    report: { name, applied: false, fallback_reason: reason, latency_ms: Date.now() - startedAt, details: {} },
+  };
+}
+
+function truncatePassage(content: string): string {
+  return content.length > PASSAGE_CHAR_LIMIT ? content.substring(0, PASSAGE_CHAR_LIMIT) + '…' : content;
+}
+
+function extractJson(raw: string): string {
+  return raw.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim();
+}
+
+// ========== NO-OP ==========
+
+export class NoopReranker implements Reranker {
+  readonly name = 'none' as const;
+
+  async rerank<T extends RerankCandidate>(_query: string, candidates: T[]): Promise<RerankOutcome<T>> {
+    return {
+      chunks: passthrough(candidates),
+      report: { name: this.name, applied: false, latency_ms: 0, details: {} },
+    };
+  }
+}
+
+// ========== BOOST MAP (intent × chunk_type) ==========
+
+export class BoostMapReranker implements Reranker {
+  readonly name = 'boost_map' as const;
+
+  async rerank<T extends RerankCandidate>(query: string, candidates: T[], context?: RerankContext): Promise<RerankOutcome<T>> {
+    const startedAt = Date.now();
+    const match = context?.intent ?? detectIntent(query, BUILTIN_INTENTS);
+    const intent = match.intent;
+    const boostMap = match.chunk_type_boosts;
+
+    // If no boosts for this intent (e.g. general), no re-ranking needed
+    if (Object.keys(boostMap).length === 0) {
+      return {
+        chunks: passthrough(candidates),
+        report: { name: this.name, applied: false, latency_ms: Date.now() - startedAt, details: { intent, matched_by: match.matched_by } },
+      };
+    }
+
+    const chunks = candidates.map(chunk => {
+      const chunkCategory = chunk.chunk_type?.toLowerCase() || 'text';
+      const boostFactor = boostMap[chunkCategory] || 1.0;
+      const boosted = (chunk.fused_score || 0) * boostFactor;
+      return { ...chunk, rerank_score: boosted, boosted_score: boosted, intent_boost: boostFactor };
+    });
+
+    return {
+      chunks: sortByScore(chunks),
+      report: { name: this.name, applied: true, latency_ms: Date.now() - startedAt, details: { intent, matched_by: match.matched_by } },
+    };
+  }
+}
+
+// ========== LEXICAL (deterministic BM25) ==========
+
+const STOPWORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'is', 'are', 'was', 'were', 'be',
+  'what', 'which', 'who', 'how', 'when', 'where', 'why', 'does', 'do', 'did', 'with', 'by', 'as',
+  'at', 'from', 'that', 'this', 'it', 'its', 'il', 'la', 'le', 'di', 'da', 'che', 'per', 'un', 'una',
+]);
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+export class LexicalReranker implements Reranker {
+  readonly name = 'lexical' as const;
+  private readonly weight: number;
+
+  // BM25 parameters (standard defaults)
+  private static readonly K1 = 1.2;
+  private static readonly B = 0.75;
+
+  constructor(config: RerankerConfig) {
+    this.weight = Math.min(1, Math.max(0, config.lexical_weight ?? 0.5));
+  }
+
+  async rerank<T extends RerankCandidate>(query: string, candidates: T[]): Promise<RerankOutcome<T>> {
+    const startedAt = Date.now();
+    const queryTerms = [...new Set(tokenize(query))];
+
+    if (queryTerms.length === 0 || candidates.length === 0) {
+      return {
+        chunks: passthrough(candidates),
+        report: { name: this.name, applied: false, latency_ms: Date.now() - startedAt, details: { query_terms: queryTerms } },
+      };
+    }
+
+    const docs = candidates.map(c => tokenize(c.content));
+    const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+
+    // IDF computed over the candidate set only: deterministic, no corpus stats needed
+    const idf = new Map<string, number>();
+    for (const term of queryTerms) {
+      const df = docs.filter(d => d.includes(term)).length;
+      idf.set(term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5)));
+    }
+
+    const bm25 = docs.map(doc => {
+      const tf = new Map<string, number>();
+      for (const token of doc) tf.set(token, (tf.get(token) || 0) + 1);
+
+      return queryTerms.reduce((score, term) => {
+        const freq = tf.get(term) || 0;
+        if (freq === 0) return score;
+        const norm = freq + LexicalReranker.K1 * (1 - LexicalReranker.B + LexicalReranker.B * doc.length / avgLength);
+        return score + idf.get(term)! * (freq * (LexicalReranker.K1 + 1)) / norm;
+      }, 0);
+    });
+
+    const maxBm25 = Math.max(...bm25) || 1;
+
+    const chunks = candidates.map((c, i) => ({
+      ...c,
+      rerank_score: this.weight * (bm25[i] / maxBm25) + (1 - this.weight) * (c.fused_score || 0),
+    }));
+
+    return {
+      chunks: sortByScore(chunks),
+      report: {
+        name: this.name,
+        applied: true,
+        latency_ms: Date.now() - startedAt,
+        details: { query_terms: queryTerms, lexical_weight: this.weight },
+      },
+    };
+  }
+}
+
+// ========== LLM (pointwise / listwise) ==========
+
+async function callRerankLLM(
+  prompt: string,
+  apiKey: string,
+  model: string,
+  timeoutMs: number,
+  usageContext?: UsageContext
+): Promise<string> {
+  const result = await callLLM({
+    provider: 'lovable',
+    model,
+    apiKey,
+    messages: [{ role: 'user', content: prompt }],
+    temperature: 0,
+    timeoutMs,
+    // Re-ranking sits on the query path: fall back to retrieval order instead of retrying
+    retries: 0,
+    source: 'reranker',
+    usageContext,
+  });
+
+  if (!result.text) {
+    throw new Error('Empty response from LLM');
+  }
+  return result.text;
+}
+
+export class LLMPointwiseReranker implements Reranker {
+  readonly name = 'llm_pointwise' as const;
+
+  constructor(private readonly config: RerankerConfig, private readonly apiKey: string | undefined) {}
+
+  async rerank<T extends RerankCandidate>(query: string, candidates: T[], context?: RerankContext): Promise<RerankOutcome<T>> {
+    const startedAt = Date.now();
+    if (!this.apiKey) return fallbackOutcome(this.name, candidates, startedAt, 'LOVABLE_API_KEY not configured');
+
+    const model = this.config.model || DEFAULT_LLM_MODEL;
+    const maxCandidates = this.config.max_candidates || DEFAULT_LLM_MAX_CANDIDATES;
+    const timeoutMs = this.config.timeout_ms || DEFAULT_LLM_TIMEOUT_MS;
+    const head = candidates.slice(0, maxCandidates);
+    const tail = candidates.slice(maxCandidates);
+
+    const scores = await Promise.all(head.map(async (candidate) => {
+      const prompt = `Rate how well the passage answers the query on a scale from 0 (irrelevant) to 10 (directly answers it).
+Respond ONLY with valid JSON: {"score": number}
+
+Query: ${query}
+
+Passage:
+${truncatePassage(candidate.content)}`;
+
+      try {
+        const raw = await callRerankLLM(prompt, this.apiKey!, model, timeoutMs, context?.usage);
+        const score = Number(JSON.parse(extractJson(raw)).score);
+        return Number.isFinite(score) ? Math.min(10, Math.max(0, score)) : null;
+      } catch (error) {
+        console.warn(`[Reranker:${this.name}] Scoring failed for ${candidate.id}:`, error instanceof Error ? error.message : error);
+        return null;
+      }
+    }));
+
+    const scored = scores.filter(s => s !== null).length;
+    if (scored === 0) return fallbackOutcome(this.name, candidates, startedAt, 'all LLM scoring calls failed');
+
+    // Unscored candidates keep their fused score; LLM score dominates, fused score breaks ties
+    const reranked = head.map((c, i) => ({
+      ...c,
+      rerank_score: scores[i] !== null ? 1 + scores[i]! / 10 + (c.fused_score || 0) / 100 : (c.fused_score || 0),
+    }));
+
+    return {
+      chunks: [...sortByScore(reranked), ...passthrough(tail)],
+      report: {
+        name: this.name,
+        applied: true,
+        latency_ms: Date.now() - startedAt,
+        details: { model, candidates_scored: scored, candidates_sent: head.length },
+      },
+    };
+  }
+}
+
+export class LLMListwiseReranker implements Reranker {
+  readonly name = 'llm_listwise' as const;
+
+  constructor(private readonly config: RerankerConfig, private readonly apiKey: string | undefined) {}
+
+  async rerank<T extends RerankCandidate>(query: string, candidates: T[], context?: RerankContext): Promise<RerankOutcome<T>> {
+    const startedAt = Date.now();
+    if (!this.apiKey) return fallbackOutcome(this.name, candidates, startedAt, 'LOVABLE_API_KEY not configured');
+    if (candidates.length < 2) return fallbackOutcome(this.name, candidates, startedAt, 'nothing to re-order');
+
+    const model = this.config.model || DEFAULT_LLM_MODEL;
+    const maxCandidates = this.config.max_candidates || DEFAULT_LLM_MAX_CANDIDATES;
+    const timeoutMs = this.config.timeout_ms || DEFAULT_LLM_TIMEOUT_MS;
+    const head = candidates.slice(0, maxCandidates);
+    const tail = candidates.slice(maxCandidates);
+
+    const passages = head
+      .map((c, i) => `[${i}] ${truncatePassage(c.content).replace(/\s+/g, ' ')}`)
+      .join('\n\n');
+
+    const prompt = `Order the passages by how well they answer the query, most relevant first.
+Respond ONLY with a valid JSON array of passage numbers, e.g. [3, 0, 1]. Include every passage exactly once.
+
+Query: ${query}
+
+Passages:
+${passages}`;
+
+    try {
+      const raw = await callRerankLLM(prompt, this.apiKey, model, timeoutMs, context?.usage);
+      const order = JSON.parse(extractJson(raw));
+      if (!Array.isArray(order)) throw new Error('LLM did not return an array');
+
+      // Keep only valid, unique indices; append anything the model forgot in original order
+      const seen = new Set<number>();
+      const ranking: number[] = [];
+      for (const value of order) {
+        const i = Number(value);
+        if (Number.isInteger(i) && i >= 0 && i < head.length && !seen.has(i)) {
+          seen.add(i);
+          ranking.push(i);
+        }
+      }
+      const missing = head.map((_, i) => i).filter(i => !seen.has(i));
+      const finalOrder = [...ranking, ...missing];
+
+      const reranked = finalOrder.map((idx, position) => ({
+        ...head[idx],
+        rerank_score: 1 + (finalOrder.length - position) / finalOrder.length,
+      }));
+
+      return {
+        chunks: [...reranked, ...passthrough(tail)],
+        report: {
+          name: this.name,
+          applied: true,
+          latency_ms: Date.now() - startedAt,
+          details: { model, candidates_sent: head.length, missing_from_llm: missing.length },
+        },
+      };
+    } catch (error) {
+      return fallbackOutcome(this.name, candidates, startedAt, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+}
+
+// ========== FACTORY ==========
+
+export function parseRerankerConfig(name: unknown, options: unknown): RerankerConfig {
+  const rerankerName = RERANKER_NAMES.includes(name as RerankerName) ? name as RerankerName : DEFAULT_RERANKER;
+  const extra = options && typeof options === 'object' ? options as Partial<RerankerConfig> : {};
+  return { ...extra, name: rerankerName };
+}
+
+export function createReranker(config: RerankerConfig, apiKey?: string): Reranker {
+  switch (config.name) {
+    case 'none':
+      return new NoopReranker();
+    case 'lexical':
+      return new LexicalReranker(config);
+    case 'llm_pointwise':
+      return new LLMPointwiseReranker(config, apiKey);
+    case 'llm_listwise':
+      return new LLMListwiseReranker(config, apiKey);
+    case 'boost_map':
+    default:
+      return new BoostMapReranker();
+  }
+}
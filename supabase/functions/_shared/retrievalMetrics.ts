@@ -0,0 +1,174 @@
+/**
+ * Retrieval Metrics
+ *
+ * Pure ranking metrics for the retrieval-only evaluation mode:
+ * - Gold labels are chunk ids (UUID or citation id) and/or pages of the question's document
+ * - Each gold label counts once: several chunks from the same gold page don't inflate recall or nDCG
+ * - Binary relevance, so nDCG is normalised against min(|gold|, k) perfect hits
+ */
+
+export interface GoldLabels {
+  chunkIds: string[];          // chunk UUIDs or citation ids ("AH-3f2a9c1b")
+  pages: number[];             // pages of documentName containing the answer
+  documentName: string | null;
+}
+
+export interface RankedChunk {
+  id: string;
+  citation_id: string;
+  document_name: string;
+  chunk_type: string;
+  page_number: number | null;
+}
+
+export interface RankingJudgement {
+  rank: number;
+  id: string;
+  citation_id: string;
+  chunk_type: string;
+  page_number: number | null;
+  relevant: boolean;
+}
+
+export interface RetrievalMetrics {
+  recall_at_k: number;
+  mrr: number;
+  ndcg_at_k: number;
+  first_relevant_rank: number | null;
+  gold_count: number;
+  relevant_retrieved: number;
+}
+
+export interface MetricRow extends RetrievalMetrics {
+  pipeline_source: string;
+  gold_chunk_types: string[];
+}
+
+export interface MetricSummary {
+  questions: number;
+  recall_at_k: number;
+  mrr: number;
+  ndcg_at_k: number;
+}
+
+/**
+ * Gold labels satisfied by a single retrieved chunk ("chunk:<label>" / "page:<n>")
+ */
+export function goldKeysForChunk(chunk: RankedChunk, gold: GoldLabels): string[] {
+  const keys: string[] = [];
+
+  for (const label of gold.chunkIds) {
+    if (label === chunk.id || label === chunk.citation_id) {
+      keys.push(`chunk:${label}`);
+    }
+  }
+
+  const sameDocument = !gold.documentName || chunk.document_name === gold.documentName;
+  if (sameDocument && chunk.page_number !== null && gold.pages.includes(chunk.page_number)) {
+    keys.push(`page:${chunk.page_number}`);
+  }
+
+  return keys;
+}
+
+/**
+ * Score a ranking against gold labels at cutoff k
+ */
+export function scoreRanking(
+  ranking: RankedChunk[],
+  gold: GoldLabels,
+  k: number
+): { metrics: RetrievalMetrics; judgements: RankingJudgement[] } {
+  const goldCount = gold.chunkIds.length + gold.pages.length;
+  const covered = new Set<string>();
+  const judgements: RankingJudgement[] = [];
+  let dcg = 0;
+  let firstRelevantRank: number | null = null;
+
+  ranking.slice(0, k).forEach((chunk, index) => {
+    const rank = index + 1;
+    const keys = goldKeysForChunk(chunk, gold);
+    const newKeys = keys.filter(key => !covered.has(key));
+
+    if (keys.length > 0 && firstRelevantRank === null) {
+      firstRelevantRank = rank;
+    }
+    if (newKeys.length > 0) {
+      newKeys.forEach(key => covered.add(key));
+      dcg += 1 / Math.log2(rank + 1);
+    }
+
+    judgements.push({
+      rank,
+      id: chunk.id,
+      citation_id: chunk.citation_id,
+      chunk_type: chunk.chunk_type,
+      page_number: chunk.page_number,
+      relevant: keys.length > 0,
+    });
+  });
+
+  let idcg = 0;
+  for (let rank = 1; rank <= Math.min(goldCount, k); rank++) {
+    idcg += 1 / Math.log2(rank + 1);
+  }
+
+  return {
+    metrics: {
+      recall_at_k: goldCount > 0 ? covered.size / goldCount : 0,
+      mrr: firstRelevantRank ? 1 / firstRelevantRank : 0,
+      ndcg_at_k: idcg > 0 ? dcg / idcg : 0,
+      first_relevant_rank: firstRelevantRank,
+      gold_count: goldCount,
+      relevant_retrieved: judgements.filter(j => j.relevant).length,
+    },
+    judgements,
+  };
+}
+
+function summarize(rows: RetrievalMetrics[]): MetricSummary {
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+  return {
+    questions: rows.length,
+    recall_at_k: mean(rows.map(r => r.recall_at_k)),
+    mrr: mean(rows.map(r => r.mrr)),
+    ndcg_at_k: mean(rows.map(r => r.ndcg_at_k)),
+  };
+}
+
+/**
+ * Macro-average metrics per pipeline and per pipeline × gold chunk_type.
+ * Questions whose gold evidence could not be resolved to a chunk_type land in "unresolved".
+ */
+export function summarizeByPipeline(rows: MetricRow[]): {
+  by_pipeline: Record<string, MetricSummary>;
+  by_chunk_type: Record<string, Record<string, MetricSummary>>;
+} {
+  const byPipeline = new Map<string, MetricRow[]>();
+  const byChunkType = new Map<string, Map<string, MetricRow[]>>();
+
+  for (const row of rows) {
+    byPipeline.set(row.pipeline_source, [...(byPipeline.get(row.pipeline_source) || []), row]);
+
+    const types = byChunkType.get(row.pipeline_source) || new Map<string, MetricRow[]>();
+    const chunkTypes = row.gold_chunk_types.length > 0 ? row.gold_chunk_types : ['unresolved'];
+    for (const chunkType of new Set(chunkTypes)) {
+      types.set(chunkType, [...(types.get(chunkType) || []), row]);
+    }
+    byChunkType.set(row.pipeline_source, types);
+  }
+
+  return {
+    by_pipeline: Object.fromEntries(
+      Array.from(byPipeline.entries()).map(([pipeline, list]) => [pipeline, summarize(list)])
+    ),
+    by_chunk_type: Object.fromEntries(
+      Array.from(byChunkType.entries()).map(([pipeline, types]) => [
+        pipeline,
+        Object.fromEntries(Array.from(types.entries()).map(([type, list]) => [type, summarize(list)])),
+      ])
+    ),
+  };
+}
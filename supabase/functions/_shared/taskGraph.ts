@@ -0,0 +1,167 @@
+/**
+ * Task Graph (coordinator mode)
+ *
+ * A coordinator agent breaks a request into a DAG of subtasks, each assigned to another agent:
+ *
+ *   [
+ *     { "id": "norme",   "agent": "normative-expert", "task": "Quali norme si applicano a ..." },
+ *     { "id": "costi",   "agent": "cost-analyst",     "task": "Stima i costi di ..." },
+ *     { "id": "sintesi", "agent": "report-writer",    "task": "Scrivi il report", "depends_on": ["norme", "costi"] }
+ *   ]
+ *
+ * Independent branches run in parallel (up to maxParallel); a node starts once all of its
+ * dependencies completed and receives their outputs. When a node fails, everything downstream
+ * is skipped. Graph size, dependency depth and nested delegation are bounded by TaskGraphLimits.
+ */
+
+export type TaskNodeStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface TaskNodeSpec {
+  id: string;
+  agent: string;       // slug or name, as written by the coordinator
+  task: string;
+  depends_on?: string[];
+}
+
+export interface TaskNode {
+  id: string;
+  agent_slug: string;
+  agent_name: string;
+  task: string;
+  depends_on: string[];
+  status: TaskNodeStatus;
+  output: string | null;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface TaskGraphLimits {
+  maxNodes: number;
+  maxDepth: number;           // longest dependency chain, in nodes
+  maxParallel: number;
+  maxDelegationDepth: number; // coordinator -> agent -> agent ... nesting
+}
+
+export const DEFAULT_TASK_GRAPH_LIMITS: TaskGraphLimits = {
+  maxNodes: 8,
+  maxDepth: 4,
+  maxParallel: 3,
+  maxDelegationDepth: 2,
+};
+
+export class TaskGraphError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaskGraphError';
+  }
+}
+
+/**
+ * Check ids, dependencies, cycles and limits. Returns the nodes in topological order.
+ */
+export function validateTaskGraph(specs: TaskNodeSpec[], limits: TaskGraphLimits = DEFAULT_TASK_GRAPH_LIMITS): TaskNodeSpec[] {
+  if (!Array.isArray(specs) || specs.length === 0) throw new TaskGraphError('The task graph has no tasks');
+  if (specs.length > limits.maxNodes) throw new TaskGraphError(`Too many tasks: ${specs.length} (max ${limits.maxNodes})`);
+
+  const byId = new Map<string, TaskNodeSpec>();
+  for (const spec of specs) {
+    if (!spec?.id || typeof spec.id !== 'string') throw new TaskGraphError('Every task needs a string id');
+    if (!spec.agent || !spec.task) throw new TaskGraphError(`Task ${spec.id} needs an agent and a task`);
+    if (byId.has(spec.id)) throw new TaskGraphError(`Duplicate task id: ${spec.id}`);
+    byId.set(spec.id, spec);
+  }
+  for (const spec of specs) {
+    for (const dep of spec.depends_on || []) {
+      if (!byId.has(dep)) throw new TaskGraphError(`Task ${spec.id} depends on unknown task ${dep}`);
+      if (dep === spec.id) throw new TaskGraphError(`Task ${spec.id} depends on itself`);
+    }
+  }
+
+  // Kahn: whatever is left once no node is ready sits on a cycle
+  const remaining = new Map(specs.map(spec => [spec.id, new Set(spec.depends_on || [])]));
+  const depth = new Map<string, number>();
+  const order: TaskNodeSpec[] = [];
+  while (remaining.size > 0) {
+    const ready = [...remaining.entries()].filter(([, deps]) => deps.size === 0).map(([id]) => id);
+    if (ready.length === 0) throw new TaskGraphError(`Dependency cycle between tasks: ${[...remaining.keys()].join(', ')}`);
+    for (const id of ready) {
+      const spec = byId.get(id)!;
+      depth.set(id, 1 + Math.max(0, ...(spec.depends_on || []).map(dep => depth.get(dep)!)));
+      if (depth.get(id)! > limits.maxDepth) {
+        throw new TaskGraphError(`Dependency chain too deep at task ${id} (max ${limits.maxDepth})`);
+      }
+      order.push(spec);
+      remaining.delete(id);
+    }
+    for (const deps of remaining.values()) ready.forEach(id => deps.delete(id));
+  }
+  return order;
+}
+
+/**
+ * Run every node once its dependencies completed, at most maxParallel at a time.
+ * onUpdate receives the whole graph after each status change.
+ */
+export async function runTaskGraph(
+  nodes: TaskNode[],
+  executeNode: (node: TaskNode, dependencies: TaskNode[]) => Promise<string>,
+  onUpdate: (nodes: TaskNode[]) => Promise<void> | void,
+  maxParallel: number = DEFAULT_TASK_GRAPH_LIMITS.maxParallel
+): Promise<TaskNode[]> {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const running = new Map<string, Promise<void>>();
+
+  const settle = (node: TaskNode, status: TaskNodeStatus, output: string | null, error: string | null) => {
+    node.status = status;
+    node.output = output;
+    node.error = error;
+    node.completed_at = new Date().toISOString();
+  };
+
+  while (true) {
+    // Downstream of a failure can never run
+    for (const node of nodes) {
+      if (node.status !== 'pending') continue;
+      const blocker = node.depends_on.map(dep => byId.get(dep)!).find(dep => dep.status === 'failed' || dep.status === 'skipped');
+      if (blocker) settle(node, 'skipped', null, `Dependency ${blocker.id} ${blocker.status}`);
+    }
+
+    const ready = nodes.filter(node =>
+      node.status === 'pending' && node.depends_on.every(dep => byId.get(dep)!.status === 'completed')
+    );
+    for (const node of ready.slice(0, Math.max(0, maxParallel - running.size))) {
+      node.status = 'running';
+      node.started_at = new Date().toISOString();
+      const dependencies = node.depends_on.map(dep => byId.get(dep)!);
+      running.set(node.id, (async () => {
+        try {
+          settle(node, 'completed', await executeNode(node, dependencies), null);
+        } catch (error) {
+          settle(node, 'failed', null, error instanceof Error ? error.message : String(error));
+        }
+        running.delete(node.id);
+        await onUpdate(nodes);
+      })());
+    }
+    await onUpdate(nodes);
+
+    if (running.size === 0) break;
+    await Promise.race(running.values());
+  }
+
+  return nodes;
+}
+
+/**
+ * Merge the node outputs into one attributed report for the coordinator
+ */
+export function mergeTaskResults(nodes: TaskNode[]): string {
+  return nodes
+    .map(node => {
+      const header = `### [${node.id}] @${node.agent_slug} (${node.agent_name})\n**Task:** ${node.task}`;
+      if (node.status === 'completed') return `${header}\n\n${node.output}`;
+      return `${header}\n\n_${node.status === 'skipped' ? 'Non eseguito' : 'Fallito'}: ${node.error || node.status}_`;
+    })
+    .join('\n\n---\n\n');
+}
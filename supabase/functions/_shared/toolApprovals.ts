@@ -0,0 +1,176 @@
+/**
+ * Tool Approvals
+ *
+ * Human approval gate for agent tools. When a call needs approval (toolNeedsApproval in
+ * toolRegistry.ts) agent-chat does not run it: the call is stored as a pending tool_approvals
+ * row and the chat shows an approve / edit / reject card. The user's decision comes back as a
+ * new agent-chat request ({ toolApproval }), which runs the tool (approved) or not (rejected)
+ * and lets the agent continue from the outcome.
+ *
+ * Every request, decision and execution is appended to tool_approval_audit.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export type ToolApprovalStatus = 'pending' | 'approved' | 'rejected' | 'executed' | 'failed';
+export type ToolApprovalEvent = 'requested' | 'approved' | 'edited' | 'rejected' | 'executed' | 'failed';
+
+export interface ToolApproval {
+  id: string;
+  conversation_id: string;
+  message_id: string | null;
+  agent_id: string | null;
+  user_id: string;
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+  status: ToolApprovalStatus;
+  approved_input: Record<string, unknown> | null;
+}
+
+// Stored on the requesting assistant message (metadata.tool_approvals) to render the card
+export interface PendingToolApproval {
+  approval_id: string;
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+}
+
+// Body of the resume request sent by the approval card
+export interface ToolApprovalDecision {
+  approvalId: string;
+  decision: 'approve' | 'reject';
+  editedInput?: Record<string, unknown>;
+  note?: string;
+}
+
+export class ToolApprovalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolApprovalError';
+  }
+}
+
+async function appendAudit(
+  supabase: SupabaseClient,
+  approvalId: string,
+  event: ToolApprovalEvent,
+  toolName: string,
+  actorId: string | null,
+  details: Record<string, unknown> = {}
+): Promise<void> {
+  const { error } = await supabase.from('tool_approval_audit').insert({
+    approval_id: approvalId,
+    event,
+    tool_name: toolName,
+    actor_id: actorId,
+    details,
+  });
+  if (error) console.error(`[ToolApprovals] Audit insert failed (${event} ${toolName}):`, error.message);
+}
+
+/**
+ * Persist a tool call as pending approval
+ */
+export async function requestToolApproval(
+  supabase: SupabaseClient,
+  call: {
+    conversationId: string;
+    messageId: string | null;
+    agentId: string;
+    userId: string;
+    toolName: string;
+    toolInput: Record<string, unknown>;
+  }
+): Promise<PendingToolApproval> {
+  const { data, error } = await supabase
+    .from('tool_approvals')
+    .insert({
+      conversation_id: call.conversationId,
+      message_id: call.messageId,
+      agent_id: call.agentId,
+      user_id: call.userId,
+      tool_name: call.toolName,
+      tool_input: call.toolInput,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) throw new ToolApprovalError(`Failed to store approval request: ${error?.message || 'no row'}`);
+
+  await appendAudit(supabase, data.id, 'requested', call.toolName, null, { tool_input: call.toolInput });
+  return { approval_id: data.id, tool_name: call.toolName, tool_input: call.toolInput };
+}
+
+/**
+ * Record the user's decision on a pending call. Only the owner can decide, and only once.
+ */
+export async function decideToolApproval(
+  supabase: SupabaseClient,
+  decision: ToolApprovalDecision,
+  userId: string,
+  conversationId: string
+): Promise<ToolApproval> {
+  const { data: approval, error } = await supabase
+    .from('tool_approvals')
+    .select('id, conversation_id, message_id, agent_id, user_id, tool_name, tool_input, status, approved_input')
+    .eq('id', decision.approvalId)
+    .maybeSingle();
+
+  if (error) throw new ToolApprovalError(`Failed to load approval: ${error.message}`);
+  if (!approval || approval.user_id !== userId || approval.conversation_id !== conversationId) {
+    throw new ToolApprovalError('Approval request not found');
+  }
+  if (approval.status !== 'pending') {
+    throw new ToolApprovalError(`Approval request already ${approval.status}`);
+  }
+
+  const approved = decision.decision === 'approve';
+  const edited = approved && decision.editedInput !== undefined &&
+    JSON.stringify(decision.editedInput) !== JSON.stringify(approval.tool_input);
+  const approvedInput = approved ? (edited ? decision.editedInput! : approval.tool_input) : null;
+
+  // Conditional update: a concurrent decision on the same call loses
+  const { data: updated, error: updateError } = await supabase
+    .from('tool_approvals')
+    .update({
+      status: approved ? 'approved' : 'rejected',
+      approved_input: approvedInput,
+      decided_by: userId,
+      decided_at: new Date().toISOString(),
+      decision_note: decision.note?.slice(0, 1000) || null,
+    })
+    .eq('id', approval.id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (updateError) throw new ToolApprovalError(`Failed to record decision: ${updateError.message}`);
+  if (!updated || updated.length === 0) throw new ToolApprovalError('Approval request already decided');
+
+  await appendAudit(
+    supabase,
+    approval.id,
+    approved ? (edited ? 'edited' : 'approved') : 'rejected',
+    approval.tool_name,
+    userId,
+    { note: decision.note || undefined, approved_input: edited ? approvedInput : undefined }
+  );
+
+  return { ...approval, status: approved ? 'approved' : 'rejected', approved_input: approvedInput };
+}
+
+/**
+ * Store the outcome of an approved call
+ */
+export async function recordToolApprovalResult(
+  supabase: SupabaseClient,
+  approval: ToolApproval,
+  result: unknown,
+  failed: boolean
+): Promise<void> {
+  const { error } = await supabase
+    .from('tool_approvals')
+    .update({ status: failed ? 'failed' : 'executed', result: result ?? null })
+    .eq('id', approval.id);
+  if (error) console.error(`[ToolApprovals] Result update failed (${approval.tool_name}):`, error.message);
+
+  await appendAudit(supabase, approval.id, failed ? 'failed' : 'executed', approval.tool_name, approval.user_id);
+}
@@ -0,0 +1,999 @@
+/**
+ * Agent Tool Registry
+ *
+ * Declarative catalogue of the tools agent-chat can expose to the LLM. Each entry declares:
+ * - schema:          name, description and input_schema sent to the provider
+ * - category/risk:   what the tool touches and how much damage a misuse can do
+ * - requiredSecrets: env vars the handler needs; tools whose secrets are missing are not offered
+ * - availability:    agent slugs that get it by default, or the Lux mode the agent must be bound to
+ * - requiresApproval: default approval policy, the call waits for the user (see toolApprovals.ts)
+ * - handler:         dispatch key of the implementation in agent-chat executeToolCall, whose branches are
+ *                    exhaustive over ToolHandler: a tool cannot be registered without a handler
+ *
+ * Each agent may restrict its tools with agents.tool_allowlist:
+ * - NULL:   legacy set = every tool available to the agent before allowlists existed, high risk included
+ * - [...]:  exactly the listed tools
+ * - []:     no tools at all
+ *
+ * and override which tools wait for approval with agents.tool_approval_policy (same NULL/array rules).
+ */
+
+import type { LLMToolDefinition } from './llmGateway.ts';
+
+export type ToolRisk = 'low' | 'medium' | 'high';
+export type ToolCategory = 'pdf' | 'web' | 'agents' | 'lux' | 'github' | 'browser';
+export type LuxMode = 'actor' | 'thinker' | 'tasker';
+
+export type ToolHandler =
+  | 'download_pdf' | 'pdf_search' | 'web_search' | 'web_scrape'
+  | 'list_other_agents' | 'get_agent_prompt' | 'get_agent_knowledge' | 'semantic_search'
+  | 'get_agent_chat_history' | 'consult_agent_full_knowledge' | 'ask_agent_to_perform_task'
+  | 'delegate_task_graph' | 'update_agent_system_prompt'
+  | 'create_actor_task' | 'create_thinker_task' | 'create_tasker_task'
+  | 'github_read_file' | 'github_write_file' | 'github_list_files' | 'github_create_branch' | 'github_create_pr'
+  | 'tool_server_action' | 'lux_actor_vision' | 'gemini_computer_use' | 'browser_get_dom' | 'browser_orchestrator';
+
+export interface ToolDefinition extends LLMToolDefinition {
+  handler: ToolHandler;
+  category: ToolCategory;
+  risk: ToolRisk;
+  requiredSecrets: string[];
+  defaultAgentSlugs?: string[]; // in the default set only for these agents
+  luxMode?: LuxMode;            // hard requirement, the allowlist cannot override it
+  requiresApproval?: boolean;
+}
+
+export type ToolSkipReason = 'not_allowlisted' | 'not_default' | 'lux_mode' | 'missing_secret' | 'unknown_tool';
+
+export interface ResolvedAgentTools {
+  tools: LLMToolDefinition[];
+  allowed: Set<string>;
+  skipped: { name: string; reason: ToolSkipReason }[];
+}
+
+const BOOK_SEARCH_AGENTS = ['book-search-expert-copy', 'book-serach-expert'];
+
+// Same shape as PlanAssertion in src/lib/tool-server/orchestrator-types.ts
+const PLAN_ASSERTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: ['element_visible', 'text_visible', 'url', 'title'] },
+    selector: { type: 'string', description: 'element_visible: CSS selector' },
+    ref: { type: 'string', description: 'element_visible: ref from the DOM tree' },
+    text: { type: 'string', description: 'element_visible / text_visible: text to find' },
+    exact: { type: 'boolean', description: 'text_visible: exact match (default false)' },
+    equals: { type: 'string', description: 'url / title: exact value' },
+    contains: { type: 'string', description: 'url / title: substring' },
+    matches: { type: 'string', description: 'url: regex' },
+    timeout_ms: { type: 'number', description: 'element_visible / text_visible: wait up to (default 5000)' }
+  },
+  required: ['type']
+};
+
+export const TOOL_REGISTRY: ToolDefinition[] = [
+  // ===== PDF ACQUISITION =====
+  {
+    name: 'download_pdf',
+    handler: 'download_pdf',
+    category: 'pdf',
+    risk: 'medium',
+    requiredSecrets: [],
+    defaultAgentSlugs: ['knowledge-search-expert'],
+    description: 'Downloads a PDF document from a URL and adds it to the document pool. Use this when you find relevant PDF documents that should be saved for later use.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        url: {
+          type: 'string',
+          description: 'The direct URL of the PDF file to download'
+        },
+        search_query: {
+          type: 'string',
+          description: 'The search query or context that led to finding this document'
+        }
+      },
+      required: ['url']
+    }
+  },
+  {
+    name: 'search_pdf_with_query',
+    handler: 'pdf_search',
+    category: 'pdf',
+    risk: 'low',
+    requiredSecrets: [],
+    defaultAgentSlugs: BOOK_SEARCH_AGENTS,
+    description: 'Esegue una ricerca PDF con una query specifica SENZA scaricare i PDF. Mostra solo i risultati. La query usata è ESATTAMENTE quella approvata dall\'utente. Usa questo DOPO che l\'utente ha approvato una query proposta da propose_pdf_search_query.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        searchQuery: {
+          type: 'string',
+          description: 'La query di ricerca COMPLETA E FINALE che verrà usata per cercare (es: "LLM Prompt Engineering" PDF). Questa è la query ESATTA che verrà inviata a Google.'
+        },
+        maxResults: {
+          type: 'number',
+          description: 'Numero massimo di risultati da trovare (default: 5, max: 10)',
+          default: 5
+        }
+      },
+      required: ['searchQuery']
+    }
+  },
+  {
+    name: 'search_and_acquire_pdfs',
+    handler: 'pdf_search',
+    category: 'pdf',
+    risk: 'medium',
+    requiredSecrets: [],
+    defaultAgentSlugs: BOOK_SEARCH_AGENTS,
+    description: 'Scarica e valida PDF già trovati e approvati dall\'utente. Il download avviene in BACKGROUND. Usa questo DOPO che l\'utente ha confermato di voler scaricare i risultati di search_pdf_with_query.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        pdfsToDownload: {
+          type: 'array',
+          description: 'Lista di PDF da scaricare (già trovati e approvati dall\'utente)',
+          items: {
+            type: 'object',
+            properties: {
+              title: { 
+                type: 'string',
+                description: 'Titolo del PDF'
+              },
+              url: { 
+                type: 'string',
+                description: 'URL del PDF'
+              },
+              source: { 
+                type: 'string',
+                description: 'Dominio sorgente del PDF'
+              }
+            },
+            required: ['title', 'url', 'source']
+          }
+        }
+      },
+      required: ['pdfsToDownload']
+    }
+  },
+
+  // ===== WEB =====
+  {
+    name: 'web_search',
+    handler: 'web_search',
+    category: 'web',
+    risk: 'low',
+    requiredSecrets: ['SERP_API_KEY'],
+    description: 'Search the internet for information using Google Custom Search. Use this when the user asks you to search for current information, news, articles, or any web content. Returns a list of search results with titles, URLs, and snippets.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'The search query to send to Google. Be specific and use relevant keywords.'
+        },
+        num_results: {
+          type: 'number',
+          description: 'Number of results to return (1-10, default 5)',
+          default: 5
+        },
+        scrape_results: {
+          type: 'boolean',
+          description: 'Whether to scrape full content from each result (default false)',
+          default: false
+        }
+      },
+      required: ['query']
+    }
+  },
+  {
+    name: 'web_scrape',
+    handler: 'web_scrape',
+    category: 'web',
+    risk: 'low',
+    requiredSecrets: ['SCRAPINGBEE_API_KEY'],
+    description: 'Scrape content from a specific web page URL. Returns both HTML and cleaned text content. Use this when you need to extract detailed information from a particular website.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        url: {
+          type: 'string',
+          description: 'The URL of the web page to scrape'
+        },
+        render_js: {
+          type: 'boolean',
+          description: 'Whether to render JavaScript on the page (default true)',
+          default: true
+        },
+        block_ads: {
+          type: 'boolean',
+          description: 'Whether to block ads (default true)',
+          default: true
+        }
+      },
+      required: ['url']
+    }
+  },
+
+  // ===== AGENTS & KNOWLEDGE =====
+  {
+    name: 'list_other_agents',
+    handler: 'list_other_agents',
+    category: 'agents',
+    risk: 'low',
+    requiredSecrets: [],
+    description: 'Get a list of all available agents in the system. Use this when the user asks about other agents or when you need to know what agents are available for consultation.',
+    input_schema: {
+      type: 'object',
+      properties: {},
+      required: []
+    }
+  },
+  {
+    name: 'get_agent_prompt',
+    handler: 'get_agent_prompt',
+    category: 'agents',
+    risk: 'low',
+    requiredSecrets: [],
+    description: 'Get the system prompt of another agent. Use this when the user asks about what another agent does or what instructions it follows.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        agent_name: {
+          type: 'string',
+          description: 'The name or slug of the agent whose prompt you want to retrieve'
+        }
+      },
+      required: ['agent_name']
+    }
+  },
+  {
+    name: 'get_agent_knowledge',
+    handler: 'get_agent_knowledge',
+    category: 'agents',
+    risk: 'low',
+    requiredSecrets: [],
+    description: '📋 Get document titles list. NOTE: Usually auto-executed by the system. Use ONLY if user explicitly asks about ANOTHER agent\'s documents (e.g., "what documents does Agent X have?").',
+    input_schema: {
+      type: 'object',
+      properties: {
+        agent_name: {
+          type: 'string',
+          description: 'Name or slug of another agent whose documents you want to list'
+        }
+      },
+      required: ['agent_name']
+    }
+  },
+  {
+    name: 'semantic_search',
+    handler: 'semantic_search',
+    category: 'agents',
+    risk: 'low',
+    requiredSecrets: [],
+    description: '📖 Search document content. NOTE: Usually auto-executed by the system. Use ONLY if you need ADDITIONAL searches beyond what was auto-retrieved, or for follow-up questions requiring different search terms.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Additional search query for follow-up information'
+        },
+        topK: {
+          type: 'number',
+          description: 'Number of results (default 5)',
+          default: 5
+        }
+      },
+      required: ['query']
+    }
+  },
+  {
+    name: 'get_agent_chat_history',
+    handler: 'get_agent_chat_history',
+    category: 'agents',
+    risk: 'low',
+    requiredSecrets: [],
+    description: 'Get the chat history of another agent with the current user. Use this when the user asks what they discussed with another agent.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        agent_name: {
+          type: 'string',
+          description: 'The name or slug of the agent whose chat history you want to view'
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of messages to retrieve (default 50)',
+          default: 50
+        }
+      },
+      required: ['agent_name']
+    }
+  },
+  {
+    name: 'consult_agent_full_knowledge',
+    handler: 'consult_agent_full_knowledge',
+    category: 'agents',
+    risk: 'low',
+    requiredSecrets: [],
+    description: 'Get the COMPLETE content of all documents in another agent\'s knowledge base. This retrieves ALL text chunks from all documents, allowing you to understand the full context of what an agent knows. Use this when you need to deeply understand another agent\'s knowledge before making decisions or writing prompts for them. WARNING: This can return a lot of data, use only when you need full knowledge access.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        agent_name: {
+          type: 'string',
+          description: 'The name or slug of the agent whose full knowledge base you want to access'
+        },
+        max_chunks: {
+          type: 'number',
+          description: 'Maximum number of knowledge chunks to retrieve (default 100, max 500)',
+          default: 100
+        }
+      },
+      required: ['agent_name']
+    }
+  },
+  {
+    name: 'ask_agent_to_perform_task',
+    handler: 'ask_agent_to_perform_task',
+    category: 'agents',
+    risk: 'medium',
+    requiredSecrets: [],
+    requiresApproval: true,
+    description: 'Ask another agent to perform a specific task and get their response. This creates a direct communication between agents. Use this when you need another agent to do something for you (e.g., ask the Prompt Expert to write a prompt, ask a specialist to analyze something). The other agent will receive your request and respond based on their expertise and knowledge.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        agent_name: {
+          type: 'string',
+          description: 'The name or slug of the agent you want to ask'
+        },
+        task_description: {
+          type: 'string',
+          description: 'A clear description of what you want the agent to do. Be specific and provide all necessary context.'
+        },
+        context_information: {
+          type: 'string',
+          description: 'Optional additional context or information the agent should consider when performing the task',
+        }
+      },
+      required: ['agent_name', 'task_description']
+    }
+  },
+  {
+    name: 'delegate_task_graph',
+    handler: 'delegate_task_graph',
+    category: 'agents',
+    risk: 'medium',
+    requiredSecrets: [],
+    defaultAgentSlugs: [], // coordinator mode is opt-in through the allowlist
+    description: 'Coordinator mode: break the user request into a graph of subtasks and assign each one to another agent. Subtasks without dependencies run in parallel; a subtask receives the outputs of the subtasks listed in depends_on. Returns every result attributed to its agent: merge them into your final answer, citing the agents (@slug) you took each part from. Max 8 subtasks, dependency chains up to 4 levels, no cycles. Subtask agents cannot use tools that need user approval (GitHub writes, prompt changes, browser and desktop automation): keep those steps for yourself.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        goal: {
+          type: 'string',
+          description: 'The overall goal the subtasks serve'
+        },
+        tasks: {
+          type: 'array',
+          description: 'The subtasks (graph nodes)',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Short unique id, e.g. "norme"' },
+              agent: { type: 'string', description: 'Slug or name of the agent that performs the subtask (see list_other_agents)' },
+              task: { type: 'string', description: 'Self-contained instructions for that agent' },
+              depends_on: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Ids of the subtasks whose output this subtask needs'
+              }
+            },
+            required: ['id', 'agent', 'task']
+          }
+        }
+      },
+      required: ['goal', 'tasks']
+    }
+  },
+  {
+    name: 'update_agent_system_prompt',
+    handler: 'update_agent_system_prompt',
+    category: 'agents',
+    risk: 'high',
+    requiredSecrets: [],
+    requiresApproval: true,
+    description: 'Update the system prompt of another agent. Use this when you need to modify how an agent behaves or what instructions it follows. Only use this when explicitly asked to update or change an agent\'s prompt.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        agent_name: {
+          type: 'string',
+          description: 'The name or slug of the agent whose prompt you want to update'
+        },
+        new_system_prompt: {
+          type: 'string',
+          description: 'The complete new system prompt for the agent'
+        }
+      },
+      required: ['agent_name', 'new_system_prompt']
+    }
+  },
+
+  // ===== LUX AUTOMATION - only for the agent bound to the mode in lux_mode_config =====
+  {
+    name: 'create_actor_task',
+    handler: 'create_actor_task',
+    category: 'lux',
+    risk: 'medium',
+    requiredSecrets: [],
+    luxMode: 'actor',
+    requiresApproval: true,
+    description: 'DEVI usare questo tool per ogni richiesta. Crea task semplice per Lux Actor. Converti la richiesta in inglese e chiama questo tool.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        user_request: { 
+          type: 'string', 
+          description: 'Richiesta originale dell\'utente (non modificata)' 
+        },
+        task_description: { 
+          type: 'string', 
+          description: 'Istruzione in INGLESE da passare a Lux Actor' 
+        },
+        platform: { 
+          type: 'string', 
+          description: 'Nome del sito/piattaforma target' 
+        },
+        start_url: { 
+          type: 'string', 
+          description: 'URL iniziale (opzionale)' 
+        }
+      },
+      required: ['user_request', 'task_description']
+    }
+  },
+  {
+    name: 'create_thinker_task',
+    handler: 'create_thinker_task',
+    category: 'lux',
+    risk: 'medium',
+    requiredSecrets: [],
+    luxMode: 'thinker',
+    requiresApproval: true,
+    description: 'DEVI usare questo tool per ogni richiesta. Crea task complesso per Lux Thinker. Converti in istruzioni dettagliate in inglese.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        user_request: { 
+          type: 'string', 
+          description: 'Richiesta originale dell\'utente (non modificata)' 
+        },
+        task_description: { 
+          type: 'string', 
+          description: 'Istruzione dettagliata in INGLESE' 
+        },
+        platform: { 
+          type: 'string', 
+          description: 'Nome del sito/piattaforma' 
+        },
+        start_url: { 
+          type: 'string', 
+          description: 'URL iniziale' 
+        },
+        max_steps_per_todo: {
+          type: 'integer',
+          description: 'Maximum steps per todo (default 24 for tasker, 100 for thinker)',
+          default: 24
+        },
+        complexity: { 
+          type: 'string', 
+          enum: ['medium', 'complex'],
+          description: 'Complessità stimata del task' 
+        }
+      },
+      required: ['user_request', 'task_description']
+    }
+  },
+  {
+    name: 'create_tasker_task',
+    handler: 'create_tasker_task',
+    category: 'lux',
+    risk: 'medium',
+    requiredSecrets: [],
+    luxMode: 'tasker',
+    requiresApproval: true,
+    description: 'DEVI usare questo tool per ogni richiesta. Crea task con decomposizione in step. Tutti i todos devono essere in INGLESE.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        user_request: { 
+          type: 'string', 
+          description: 'Richiesta originale dell\'utente (non modificata)' 
+        },
+        task_description: { 
+          type: 'string', 
+          description: 'Obiettivo generale in INGLESE' 
+        },
+        platform: { 
+          type: 'string', 
+          description: 'Nome del sito/piattaforma' 
+        },
+        start_url: { 
+          type: 'string', 
+          description: 'URL iniziale' 
+        },
+        todos: {
+          type: 'array',
+          description: 'Lista ordinata di step/goal in INGLESE',
+          items: {
+            type: 'object',
+            properties: {
+              description: { 
+                type: 'string', 
+                description: 'Descrizione del goal in inglese' 
+              },
+              action: { 
+                type: 'string', 
+                enum: ['click', 'type', 'scroll', 'press', 'wait', 'navigate'], 
+                description: 'Tipo di azione (opzionale)' 
+              },
+              target: { 
+                type: 'string', 
+                description: 'Elemento target (opzionale)' 
+              },
+              value: { 
+                type: 'string', 
+                description: 'Valore (opzionale)' 
+              },
+              expected_outcome: { 
+                type: 'string', 
+                description: 'Risultato atteso (opzionale)' 
+              }
+            },
+            required: ['description']
+          }
+        }
+      },
+      required: ['user_request', 'task_description', 'todos']
+    }
+  },
+
+  // ===== GITHUB REPOSITORY =====
+  {
+    name: 'github_read_file',
+    handler: 'github_read_file',
+    category: 'github',
+    risk: 'low',
+    requiredSecrets: ['GITHUB_TOKEN'],
+    description: 'Read the content of a file from a GitHub repository. Use for viewing source code, configs, or documentation.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        owner: { type: 'string', description: 'Repository owner (e.g., "federicostrane-max")' },
+        repo: { type: 'string', description: 'Repository name (e.g., "architects-hand-bridge")' },
+        path: { type: 'string', description: 'File path within repo (e.g., "src/bridge/index.js")' },
+        branch: { type: 'string', description: 'Branch name (default: "main")' }
+      },
+      required: ['owner', 'repo', 'path']
+    }
+  },
+  {
+    name: 'github_write_file',
+    handler: 'github_write_file',
+    category: 'github',
+    risk: 'high',
+    requiredSecrets: ['GITHUB_TOKEN'],
+    requiresApproval: true,
+    description: 'Create or update a file in a GitHub repository. Creates a commit with the changes.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        owner: { type: 'string', description: 'Repository owner' },
+        repo: { type: 'string', description: 'Repository name' },
+        path: { type: 'string', description: 'File path to create/update' },
+        content: { type: 'string', description: 'New file content' },
+        message: { type: 'string', description: 'Commit message describing the change' },
+        branch: { type: 'string', description: 'Target branch (default: "main")' }
+      },
+      required: ['owner', 'repo', 'path', 'content', 'message']
+    }
+  },
+  {
+    name: 'github_list_files',
+    handler: 'github_list_files',
+    category: 'github',
+    risk: 'low',
+    requiredSecrets: ['GITHUB_TOKEN'],
+    description: 'List files and directories in a GitHub repository path.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        owner: { type: 'string', description: 'Repository owner' },
+        repo: { type: 'string', description: 'Repository name' },
+        path: { type: 'string', description: 'Directory path (empty for root)' },
+        branch: { type: 'string', description: 'Branch name (default: "main")' }
+      },
+      required: ['owner', 'repo']
+    }
+  },
+  {
+    name: 'github_create_branch',
+    handler: 'github_create_branch',
+    category: 'github',
+    risk: 'medium',
+    requiredSecrets: ['GITHUB_TOKEN'],
+    description: 'Create a new branch in a GitHub repository for isolated development.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        owner: { type: 'string', description: 'Repository owner' },
+        repo: { type: 'string', description: 'Repository name' },
+        newBranch: { type: 'string', description: 'Name for the new branch' },
+        fromBranch: { type: 'string', description: 'Source branch (default: "main")' }
+      },
+      required: ['owner', 'repo', 'newBranch']
+    }
+  },
+  {
+    name: 'github_create_pr',
+    handler: 'github_create_pr',
+    category: 'github',
+    risk: 'high',
+    requiredSecrets: ['GITHUB_TOKEN'],
+    requiresApproval: true,
+    description: 'Create a Pull Request to merge changes from one branch to another.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        owner: { type: 'string', description: 'Repository owner' },
+        repo: { type: 'string', description: 'Repository name' },
+        title: { type: 'string', description: 'PR title' },
+        body: { type: 'string', description: 'PR description with details of changes' },
+        head: { type: 'string', description: 'Source branch with changes' },
+        base: { type: 'string', description: 'Target branch (default: "main")' }
+      },
+      required: ['owner', 'repo', 'title', 'body', 'head']
+    }
+  },
+
+  // ===== BROWSER AUTOMATION - executed by the local Tool Server =====
+  {
+    name: 'tool_server_action',
+    handler: 'tool_server_action',
+    category: 'browser',
+    risk: 'medium',
+    requiredSecrets: [],
+    requiresApproval: true,
+    description: `Execute a single browser or desktop action via the local Tool Server.
+  
+Available actions:
+- screenshot: Capture current screen/viewport (returns base64 PNG)
+- click: Click at coordinates (x, y) - REQUIRES coordinates from vision tools first
+- type: Type text into focused element
+- scroll: Scroll up/down/left/right
+- keypress: Press a key or combination (Enter, Tab, Escape, etc.)
+- navigate: Navigate browser to URL
+- browser_start: Start a new browser session with optional URL
+- browser_stop: Stop browser session
+- dom_tree: Get accessibility tree of current page
+
+WORKFLOW: For clicking elements, you MUST first:
+1. Call screenshot to capture current state
+2. Call lux_actor_vision OR gemini_computer_use with the screenshot to get coordinates
+3. Then call this tool with action=click and the coordinates
+
+Returns a command for frontend local execution (execute_locally: true).
+Requires Tool Server running locally on port 8766.`,
+    input_schema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: [
+            'screenshot', 'click', 'click_by_ref', 'type', 'scroll', 'keypress', 'navigate', 'browser_start', 'browser_stop', 'dom_tree',
+            'element_rect', // Get element coordinates by selector/text/role
+            // v10.4.0: Tracing and assertions
+            'tracing_start', 'tracing_stop', 'console_messages', 'network_requests',
+            'verify_visible', 'verify_text', 'verify_url', 'verify_title'
+          ],
+          description: 'The action to perform. Use click_by_ref with ref parameter (e.g., ref="e3") for DOM elements. Use element_rect to get coordinates by selector/text. Tracing/verify actions for testing.'
+        },
+        scope: { type: 'string', enum: ['browser', 'desktop'], description: 'Target scope (default: browser)' },
+        ref: { type: 'string', description: 'Element ref ID from dom_tree (e.g., "e3", "e9"). Use with click_by_ref action.' },
+        x: { type: 'number', description: 'X coordinate for click (use click_by_ref with ref instead when available)' },
+        y: { type: 'number', description: 'Y coordinate for click (use click_by_ref with ref instead when available)' },
+        click_type: { type: 'string', enum: ['single', 'double', 'right'], description: 'Click type (default: single)' },
+        coordinate_origin: { type: 'string', enum: ['viewport', 'screen', 'lux_sdk'], description: 'Coordinate system (lux_sdk for Lux, viewport for Gemini)' },
+        text: { type: 'string', description: 'Text to type (for type action) or text to verify (for verify_text action)' },
+        method: { type: 'string', enum: ['clipboard', 'keystrokes'], description: 'Typing method' },
+        direction: { type: 'string', enum: ['up', 'down', 'left', 'right'], description: 'Scroll direction' },
+        amount: { type: 'number', description: 'Scroll amount in pixels' },
+        key: { type: 'string', description: 'Key to press (Enter, Tab, Escape, etc.)' },
+        url: { type: 'string', description: 'URL for navigate/browser_start or verify_url' },
+        url_contains: { type: 'string', description: 'Partial URL match for verify_url' },
+        title: { type: 'string', description: 'Page title for verify_title' },
+        title_contains: { type: 'string', description: 'Partial title match for verify_title' },
+        selector: { type: 'string', description: 'CSS selector for verify_visible or element_rect' },
+        // element_rect parameters
+        role: { type: 'string', description: 'ARIA role for element_rect (button, link, textbox, etc.)' },
+        role_name: { type: 'string', description: 'Accessible name for role-based lookup in element_rect' },
+        test_id: { type: 'string', description: 'data-testid attribute for element_rect' },
+        label: { type: 'string', description: 'Label text for element_rect' },
+        placeholder: { type: 'string', description: 'Placeholder text for element_rect' },
+        index: { type: 'number', description: 'Index when multiple elements match (default: 0) for element_rect' },
+        exact: { type: 'boolean', description: 'Exact match for verify_text or element_rect text (default: false)' },
+        timeout: { type: 'number', description: 'Timeout in ms for verify actions (default: 5000)' },
+        screenshots: { type: 'boolean', description: 'Include screenshots in trace (for tracing_start)' },
+        snapshots: { type: 'boolean', description: 'Include DOM snapshots in trace (for tracing_start)' },
+        limit: { type: 'number', description: 'Max messages/requests to return (for console_messages/network_requests)' },
+        clear: { type: 'boolean', description: 'Clear messages after returning (for console_messages/network_requests)' },
+        session_id: { type: 'string', description: 'Browser session ID (auto-managed)' }
+      },
+      required: ['action']
+    }
+  },
+  {
+    name: 'lux_actor_vision',
+    handler: 'lux_actor_vision',
+    category: 'browser',
+    risk: 'low',
+    requiredSecrets: ['LUX_API_KEY'],
+    description: `Find element coordinates using Lux Actor vision model.
+FAST (~1 second). Returns coordinates in lux_sdk coordinate system.
+
+Use this to locate buttons, links, input fields, icons by visual description.
+REQUIRES screenshot_base64 from a previous tool_server_action(action: 'screenshot').
+
+WORKFLOW:
+1. First call tool_server_action with action='screenshot' to get base64 image
+2. Then call this with the screenshot and target description
+3. Use returned coordinates with tool_server_action(action='click', coordinate_origin='lux_sdk')
+
+Returns: { success, x, y, confidence, coordinate_system: 'lux_sdk' }`,
+    input_schema: {
+      type: 'object',
+      properties: {
+        screenshot_base64: { type: 'string', description: 'Base64 PNG screenshot from tool_server_action' },
+        target: { type: 'string', description: 'Visual description of element to find (e.g., "blue Send button", "search input field")' }
+      },
+      required: ['screenshot_base64', 'target']
+    }
+  },
+  {
+    name: 'gemini_computer_use',
+    handler: 'gemini_computer_use',
+    category: 'browser',
+    risk: 'low',
+    requiredSecrets: ['GOOGLE_AI_STUDIO_API_KEY'],
+    description: `Find element coordinates using Gemini Vision model.
+SLOWER (~3 seconds) but better at complex UIs and reasoning.
+Returns coordinates in viewport coordinate system.
+
+Use as FALLBACK when lux_actor_vision fails or for complex UIs.
+REQUIRES screenshot_base64 from a previous tool_server_action(action: 'screenshot').
+
+WORKFLOW:
+1. First call tool_server_action with action='screenshot' to get base64 image
+2. Then call this with the screenshot, target, and optional context
+3. Use returned coordinates with tool_server_action(action='click', coordinate_origin='viewport')
+
+Returns: { success, x, y, confidence, reasoning, coordinate_system: 'viewport' }`,
+    input_schema: {
+      type: 'object',
+      properties: {
+        screenshot_base64: { type: 'string', description: 'Base64 PNG screenshot from tool_server_action' },
+        target: { type: 'string', description: 'Description of element to find' },
+        context: { type: 'string', description: 'Additional context about the page or task' }
+      },
+      required: ['screenshot_base64', 'target']
+    }
+  },
+  {
+    name: 'browser_get_dom',
+    handler: 'browser_get_dom',
+    category: 'browser',
+    risk: 'low',
+    requiredSecrets: [],
+    description: `Retrieve the DOM structure of a webpage for planning browser automation.
+
+WHEN TO USE:
+- Call this FIRST when you need to automate browser actions
+- Before creating a browser_orchestrator plan
+- When you need to find exact selectors for elements
+
+WHAT YOU GET:
+- List of interactive elements (buttons, links, inputs, etc.)
+- CSS selectors and aria-labels for precise targeting
+- Current page URL and session ID
+
+IMPORTANT:
+- This tool triggers a LOCAL action - the frontend will analyze the page
+- The DOM will be returned to you in the NEXT message
+- After receiving DOM, use browser_orchestrator to create your plan
+- DO NOT call this tool twice for the same page`,
+    input_schema: {
+      type: 'object',
+      properties: {
+        url: { 
+          type: 'string', 
+          description: 'Full URL to navigate and analyze (e.g., "https://mail.google.com")' 
+        },
+        wait_for_selector: {
+          type: 'string',
+          description: 'Optional: CSS selector to wait for before capturing DOM'
+        }
+      },
+      required: ['url']
+    }
+  },
+  {
+    name: 'browser_orchestrator',
+    handler: 'browser_orchestrator',
+    category: 'browser',
+    risk: 'medium',
+    requiredSecrets: [],
+    requiresApproval: true,
+    description: `Execute a browser automation plan on the local machine.
+
+This tool EXECUTES plans that YOU create. You must provide the complete plan.
+Use your knowledge base to create accurate plans for specific websites.
+
+IMPORTANT: YOU are the planner! Use your KB knowledge about the target site
+to create precise step descriptions. If you called browser_get_dom first,
+use the DOM structure to create accurate dom_selector values.
+
+Plan structure you must provide:
+{
+  "analysis": "Brief analysis of what needs to be done",
+  "goal": "The end goal",
+  "steps": [
+    {
+      "step_number": 1,
+      "action_type": "click|type|scroll|keypress|wait|navigate|assert",
+      "target_description": "Visual description for Vision Agent (be specific! use colors, positions, text)",
+      "dom_selector": "CSS selector from DOM (optional but recommended for precision)",
+      "input_value": "For type: text to type. For keypress: key name (Enter, Tab). For navigate: URL",
+      "assertion": "For assert: { type: element_visible|text_visible|url|title, ... } (see below)",
+      "fallback_description": "Alternative description if first fails",
+      "expected_result": "What should happen after this step"
+    }
+  ],
+  "success_criteria": "How to verify task completion",
+  "success_assertions": [{ "type": "url", "contains": "/dashboard" }]
+}
+
+Assertions are checked on DOM and URL state (no vision), both as "assert" steps and as the final
+"success_assertions". The run only counts as completed when all of them pass:
+- { "type": "element_visible", "selector"?, "ref"?, "text"?, "timeout_ms"? }
+- { "type": "text_visible", "text", "exact"?, "timeout_ms"? }
+- { "type": "url", "equals"? | "contains"? | "matches"? (regex) }
+- { "type": "title", "equals"? | "contains"? }
+Always add success_assertions that prove the goal was reached (e.g. the confirmation message).
+
+Returns: { execute_locally: true, plan: {...} }
+Requires Tool Server running locally on port 8766.`,
+    input_schema: {
+      type: 'object',
+      properties: {
+        plan: {
+          type: 'object',
+          description: 'The execution plan YOU created with steps to execute',
+          properties: {
+            analysis: { type: 'string', description: 'Brief analysis of current situation' },
+            goal: { type: 'string', description: 'The end goal to achieve' },
+            steps: {
+              type: 'array',
+              description: 'Array of action steps',
+              items: {
+                type: 'object',
+                properties: {
+                  step_number: { type: 'number' },
+                  action_type: { type: 'string', enum: ['click', 'type', 'scroll', 'keypress', 'wait', 'navigate', 'assert'] },
+                  target_description: { type: 'string', description: 'Visual description of element (for Vision Agent)' },
+                  dom_selector: { type: 'string', description: 'CSS selector from DOM (for precise targeting)' },
+                  input_value: { type: 'string', description: 'Text/key/URL for type/keypress/navigate actions' },
+                  assertion: { ...PLAN_ASSERTION_SCHEMA, description: 'Check for assert steps (DOM/URL state, no vision)' },
+                  fallback_description: { type: 'string', description: 'Alternative target description' },
+                  expected_result: { type: 'string', description: 'Expected outcome of this step' }
+                },
+                required: ['step_number', 'action_type', 'target_description']
+              }
+            },
+            success_criteria: { type: 'string', description: 'How to verify task is complete' },
+            success_assertions: {
+              type: 'array',
+              description: 'Checks run after the last step; the run is completed only if all pass',
+              items: PLAN_ASSERTION_SCHEMA
+            }
+          },
+          required: ['goal', 'steps']
+        },
+        start_url: { type: 'string', description: 'Initial URL to open (optional)' },
+        config: {
+          type: 'object',
+          description: 'Execution configuration',
+          properties: {
+            max_steps: { type: 'number', description: 'Max steps to execute (default: 10)' },
+            vision_fallback_enabled: { type: 'boolean', description: 'Use Gemini as fallback (default: true)' },
+            confidence_threshold: { type: 'number', description: 'Min confidence for vision (default: 0.7)' },
+            mode: {
+              type: 'string',
+              enum: ['learning', 'execution'],
+              description: 'learning: execute the plan and save it as a procedure; execution: replay the saved procedure for this page and goal if one exists (default: learning)'
+            }
+          }
+        }
+      },
+      required: ['plan']
+    }
+  },
+];
+
+const TOOLS_BY_NAME = new Map(TOOL_REGISTRY.map(tool => [tool.name, tool]));
+
+export function getToolDefinition(name: string): ToolDefinition | undefined {
+  return TOOLS_BY_NAME.get(name);
+}
+
+/**
+ * Parse agents.tool_allowlist / agents.tool_approval_policy: null = registry defaults, otherwise the listed tool names
+ */
+export function parseToolAllowlist(raw: unknown): string[] | null {
+  if (!Array.isArray(raw)) return null;
+  return raw.filter((name): name is string => typeof name === 'string');
+}
+
+/**
+ * Whether a call must wait for the user: agents.tool_approval_policy when set, registry default otherwise
+ */
+export function toolNeedsApproval(name: string, policy: string[] | null): boolean {
+  if (policy) return policy.includes(name);
+  return TOOLS_BY_NAME.get(name)?.requiresApproval === true;
+}
+
+/**
+ * NULL allowlist: the tools every agent had before allowlists existed (risk does not matter here)
+ */
+function isDefaultTool(tool: ToolDefinition, agentSlug: string): boolean {
+  return !tool.defaultAgentSlugs || tool.defaultAgentSlugs.includes(agentSlug);
+}
+
+/**
+ * Tools offered to an agent for this request, in registry order
+ */
+export function resolveAgentTools(options: {
+  agentSlug: string;
+  allowlist: string[] | null;
+  luxMode: string | null;
+  hasSecret?: (name: string) => boolean;
+}): ResolvedAgentTools {
+  const hasSecret = options.hasSecret ?? ((name: string) => !!Deno.env.get(name));
+  const tools: LLMToolDefinition[] = [];
+  const skipped: ResolvedAgentTools['skipped'] = [];
+
+  for (const name of options.allowlist ?? []) {
+    if (!TOOLS_BY_NAME.has(name)) skipped.push({ name, reason: 'unknown_tool' });
+  }
+
+  for (const tool of TOOL_REGISTRY) {
+    let reason: ToolSkipReason | null = null;
+    if (options.allowlist) {
+      if (!options.allowlist.includes(tool.name)) reason = 'not_allowlisted';
+    } else if (!isDefaultTool(tool, options.agentSlug)) {
+      reason = 'not_default';
+    }
+    if (!reason && tool.luxMode && tool.luxMode !== options.luxMode) reason = 'lux_mode';
+    if (!reason && tool.requiredSecrets.some(secret => !hasSecret(secret))) reason = 'missing_secret';
+
+    if (reason) {
+      skipped.push({ name: tool.name, reason });
+    } else {
+      tools.push({ name: tool.name, description: tool.description, input_schema: tool.input_schema });
+    }
+  }
+
+  return { tools, allowed: new Set(tools.map(tool => tool.name)), skipped };
+}
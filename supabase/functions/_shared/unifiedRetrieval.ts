@@ -0,0 +1,322 @@
+/**
+ * Unified Retrieval Service
+ *
+ * Single retrieval contract shared by semantic-search, agent-chat and the benchmark runners:
+ * - Fans out to every pipeline (A, A-Hybrid, B, C) the agent has active knowledge in
+ * - Runs semantic + keyword search per pipeline in parallel
+ * - Fuses all ranked lists with Reciprocal Rank Fusion, so raw scores from different
+ *   pipelines (cosine vs ts_rank, summaries vs full text) never need to be compared
+ * - Every hit carries pipeline_source, a per-signal score breakdown and a stable citation id
+ * - Vectors are only compared within one embedding model (see embeddingCollections.ts)
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { DEFAULT_EMBEDDING_MODEL } from './embeddingService.ts';
+import { getEmbeddingCollections, searchModels } from './embeddingCollections.ts';
+
+export type PipelineSource = 'pipeline_a' | 'pipeline_a_hybrid' | 'pipeline_b' | 'pipeline_c';
+
+export type RetrievalSignal = 'semantic' | 'keyword';
+
+export const ALL_PIPELINES: PipelineSource[] = [
+  'pipeline_a',
+  'pipeline_a_hybrid',
+  'pipeline_b',
+  'pipeline_c',
+];
+
+// Standard RRF constant (Cormack et al.): dampens the weight of top ranks
+export const RRF_K = 60;
+
+const DEFAULT_MATCH_THRESHOLD = 0.05;
+
+// Short prefixes keep citation ids compact enough for the LLM to quote back
+const CITATION_PREFIX: Record<PipelineSource, string> = {
+  'pipeline_a': 'A',
+  'pipeline_a_hybrid': 'AH',
+  'pipeline_b': 'B',
+  'pipeline_c': 'C',
+};
+
+export interface SignalScores {
+  semantic: number | null;       // raw cosine similarity within its pipeline
+  keyword: number | null;        // raw ts_rank within its pipeline
+  semantic_rank: number | null;  // 1-based rank in the pipeline's semantic list
+  keyword_rank: number | null;   // 1-based rank in the pipeline's keyword list
+  rrf: number;                   // raw reciprocal rank fusion score
+}
+
+export interface RetrievalHit {
+  id: string;
+  citation_id: string;
+  document_id: string | null;
+  document_name: string;
+  content: string;
+  category: string;
+  chunk_type: string;
+  pipeline_source: PipelineSource;
+  page_number: number | null;
+  chunk_index: number | null;
+  heading_hierarchy: unknown;
+  search_type: 'semantic' | 'keyword' | 'hybrid';
+  similarity: number;            // best raw signal score (legacy field, kept for existing consumers)
+  semantic_score: number | null; // legacy field
+  keyword_score: number | null;  // legacy field
+  fused_score: number;           // RRF normalised to 0..1, comparable across pipelines
+  scores: SignalScores;
+}
+
+export interface RetrievalRequest {
+  agentId: string;
+  query: string;                    // used for keyword search (exact terms)
+  queryEmbedding: number[] | null;  // null = keyword-only retrieval
+  queryEmbeddingModel?: string;     // model of queryEmbedding (default: DEFAULT_EMBEDDING_MODEL)
+  embedQuery?: (model: string) => Promise<number[]>; // for collections on another model; without it they get keyword only
+  topK: number;
+  candidatesPerList?: number;       // defaults to topK * 2
+  documentFilter?: string | null;
+  matchThreshold?: number;
+  pipelines?: PipelineSource[];     // restrict fan-out (e.g. benchmark per pipeline)
+}
+
+export interface RetrievalResponse {
+  hits: RetrievalHit[];
+  pipelines_searched: PipelineSource[];
+  list_sizes: Record<string, number>; // "<pipeline>:<signal>" → rows returned
+  errors: string[];
+}
+
+interface RpcChunkRow {
+  id: string;
+  document_id: string | null;
+  content: string;
+  category: string;
+  similarity: number;
+  document_name: string;
+  chunk_type: string;
+  pipeline_source: PipelineSource;
+  page_number: number | null;
+  chunk_index: number | null;
+  heading_hierarchy: unknown;
+}
+
+interface RankedList {
+  pipeline: PipelineSource;
+  signal: RetrievalSignal;
+  rows: RpcChunkRow[];
+  model?: string;  // semantic lists: embedding model compared
+}
+
+/**
+ * Stable citation id for a chunk: same chunk → same id across queries and runs
+ */
+export function buildCitationId(pipeline: PipelineSource, chunkId: string): string {
+  return `${CITATION_PREFIX[pipeline]}-${chunkId.replace(/-/g, '').substring(0, 8)}`;
+}
+
+/**
+ * Pipeline a citation id was built for, or null when the label is not a citation id
+ */
+export function citationPipeline(citationId: string): PipelineSource | null {
+  const prefix = citationId.split('-')[0];
+  return ALL_PIPELINES.find(pipeline => CITATION_PREFIX[pipeline] === prefix) ?? null;
+}
+
+/**
+ * Return the pipelines in which the agent has at least one active chunk
+ */
+export async function resolveAgentPipelines(
+  supabase: SupabaseClient,
+  agentId: string
+): Promise<PipelineSource[]> {
+  const { data, error } = await supabase.rpc('get_agent_knowledge_pipelines', { p_agent_id: agentId });
+
+  if (error) {
+    // Non-blocking: searching an empty pipeline only costs an RPC round-trip
+    console.warn('[UnifiedRetrieval] Could not resolve agent pipelines, searching all:', error.message);
+    return [...ALL_PIPELINES];
+  }
+
+  return (data || [])
+    .filter((row: { pipeline_source: string; chunk_count: number }) => Number(row.chunk_count) > 0)
+    .map((row: { pipeline_source: string }) => row.pipeline_source as PipelineSource);
+}
+
+/**
+ * Reciprocal Rank Fusion over any number of ranked lists.
+ * score(d) = Σ 1 / (k + rank_i(d)) over the two signals. During a re-index a pipeline has one
+ * semantic list per embedding model: a chunk only counts its best semantic rank, so it is not
+ * boosted over chunks of pipelines searched with a single model.
+ */
+export function reciprocalRankFusion(lists: RankedList[], k: number = RRF_K): RetrievalHit[] {
+  const fused = new Map<string, RetrievalHit>();
+
+  for (const list of lists) {
+    list.rows.forEach((row, index) => {
+      const rank = index + 1;
+
+      let hit = fused.get(row.id);
+      if (!hit) {
+        hit = {
+          id: row.id,
+          citation_id: buildCitationId(row.pipeline_source, row.id),
+          document_id: row.document_id,
+          document_name: row.document_name,
+          content: row.content,
+          category: row.category,
+          chunk_type: row.chunk_type,
+          pipeline_source: row.pipeline_source,
+          page_number: row.page_number,
+          chunk_index: row.chunk_index,
+          heading_hierarchy: row.heading_hierarchy,
+          search_type: list.signal,
+          similarity: 0,
+          semantic_score: null,
+          keyword_score: null,
+          fused_score: 0,
+          scores: { semantic: null, keyword: null, semantic_rank: null, keyword_rank: null, rrf: 0 },
+        };
+        fused.set(row.id, hit);
+      } else if (hit.search_type !== list.signal) {
+        hit.search_type = 'hybrid';
+      }
+
+      if (list.signal === 'semantic') {
+        if (hit.scores.semantic_rank === null || rank < hit.scores.semantic_rank) {
+          hit.scores.semantic = row.similarity;
+          hit.scores.semantic_rank = rank;
+          hit.semantic_score = row.similarity;
+        }
+      } else if (hit.scores.keyword_rank === null || rank < hit.scores.keyword_rank) {
+        hit.scores.keyword = row.similarity;
+        hit.scores.keyword_rank = rank;
+        hit.keyword_score = row.similarity;
+      }
+    });
+  }
+
+  // Normalise: 1.0 = ranked first by every signal (semantic + keyword)
+  const signalsPerPipeline = 2;
+  const maxRrf = signalsPerPipeline / (k + 1);
+  const contribution = (rank: number | null) => rank === null ? 0 : 1 / (k + rank);
+
+  return Array.from(fused.values())
+    .map(hit => {
+      const rrf = contribution(hit.scores.semantic_rank) + contribution(hit.scores.keyword_rank);
+      return {
+        ...hit,
+        similarity: hit.scores.semantic ?? hit.scores.keyword ?? 0,
+        fused_score: rrf / maxRrf,
+        scores: { ...hit.scores, rrf },
+      };
+    })
+    .sort((a, b) => b.fused_score - a.fused_score);
+}
+
+/**
+ * Run semantic + keyword search on every pipeline the agent has knowledge in
+ * and return one fused ranked list.
+ */
+export async function retrieveForAgent(
+  supabase: SupabaseClient,
+  request: RetrievalRequest
+): Promise<RetrievalResponse> {
+  const {
+    agentId,
+    query,
+    queryEmbedding,
+    topK,
+    documentFilter = null,
+    matchThreshold = DEFAULT_MATCH_THRESHOLD,
+  } = request;
+  const candidatesPerList = request.candidatesPerList ?? topK * 2;
+
+  const agentPipelines = await resolveAgentPipelines(supabase, agentId);
+  const pipelines = request.pipelines
+    ? agentPipelines.filter(p => request.pipelines!.includes(p))
+    : agentPipelines;
+
+  const errors: string[] = [];
+  const listSizes: Record<string, number> = {};
+
+  if (pipelines.length === 0) {
+    console.log(`[UnifiedRetrieval] Agent ${agentId} has no active knowledge in any pipeline`);
+    return { hits: [], pipelines_searched: [], list_sizes: listSizes, errors };
+  }
+
+  const searches: Promise<RankedList>[] = [];
+  const queryModel = request.queryEmbeddingModel || DEFAULT_EMBEDDING_MODEL;
+  const collections = queryEmbedding ? await getEmbeddingCollections(supabase) : null;
+
+  // One query embedding per model, shared by every pipeline on that model
+  const queryEmbeddings = new Map<string, Promise<number[] | null>>();
+  const embeddingFor = (model: string): Promise<number[] | null> => {
+    if (model === queryModel) return Promise.resolve(queryEmbedding);
+    if (!request.embedQuery) return Promise.resolve(null);
+    if (!queryEmbeddings.has(model)) {
+      queryEmbeddings.set(model, request.embedQuery(model).catch((error: unknown) => {
+        errors.push(`embed:${model}: ${error instanceof Error ? error.message : String(error)}`);
+        return null;
+      }));
+    }
+    return queryEmbeddings.get(model)!;
+  };
+
+  for (const pipeline of pipelines) {
+    // During a re-index the collection holds two models: each is searched as its own ranked list
+    for (const model of collections ? searchModels(collections[pipeline]) : []) {
+      searches.push(
+        embeddingFor(model).then(async (embedding): Promise<RankedList> => {
+          if (!embedding) {
+            // Never compare vectors from different models
+            errors.push(`${pipeline}:semantic: chunks embedded with ${model}, query embedded with ${queryModel}`);
+            return { pipeline, signal: 'semantic', rows: [], model };
+          }
+          const { data, error } = await supabase.rpc('match_pipeline_chunks', {
+            p_pipeline: pipeline,
+            query_embedding: embedding,
+            p_agent_id: agentId,
+            match_threshold: matchThreshold,
+            match_count: candidatesPerList,
+            p_document_name: documentFilter,
+            p_embedding_model: model,
+          });
+          if (error) errors.push(`${pipeline}:semantic: ${error.message}`);
+          return { pipeline, signal: 'semantic', rows: (data as RpcChunkRow[] | null) || [], model };
+        })
+      );
+    }
+
+    searches.push(
+      (async (): Promise<RankedList> => {
+        const { data, error } = await supabase.rpc('keyword_search_pipeline_chunks', {
+          p_pipeline: pipeline,
+          search_query: query,
+          p_agent_id: agentId,
+          match_count: candidatesPerList,
+          p_document_name: documentFilter,
+        });
+        if (error) errors.push(`${pipeline}:keyword: ${error.message}`);
+        return { pipeline, signal: 'keyword', rows: (data as RpcChunkRow[] | null) || [] };
+      })()
+    );
+  }
+
+  const lists = await Promise.all(searches);
+  for (const list of lists) {
+    const key = list.model && list.model !== collections?.[list.pipeline].embedding_model
+      ? `${list.pipeline}:${list.signal}@${list.model}`
+      : `${list.pipeline}:${list.signal}`;
+    listSizes[key] = list.rows.length;
+  }
+
+  if (errors.length > 0) {
+    console.error('[UnifiedRetrieval] Search errors (non-blocking):', errors);
+  }
+
+  const hits = reciprocalRankFusion(lists).slice(0, topK);
+
+  console.log(`[UnifiedRetrieval] ${pipelines.join(', ')} → ${hits.length} fused hits`, listSizes);
+
+  return { hits, pipelines_searched: pipelines, list_sizes: listSizes, errors };
+}
@@ -0,0 +1,203 @@
+/**
+ * Usage Ledger
+ *
+ * Persists one usage_ledger row per billable call (LLM chat, embeddings, OCR / vision,
+ * document parsing) and evaluates per-agent budgets against it.
+ *
+ * LLM calls reach the ledger through reportLLMUsage() in llmGateway.ts; non-LLM vendors
+ * (LlamaParse) call recordUsage() directly. Writes never block or fail the measured call.
+ *
+ * Budgets are enforced on every billed call that carries an agent in its UsageContext
+ * (enforceAgentBudget, used by the LLM gateway and the embedding service), not only on
+ * the agent-chat answer.
+ */
+
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export type UsageOperation = 'chat' | 'embedding' | 'ocr' | 'vision' | 'parse';
+
+// Who the call was made for: every field optional, unknown stays NULL in the ledger
+export interface UsageContext {
+  agentId?: string | null;
+  conversationId?: string | null;
+  benchmarkRunId?: string | null;
+}
+
+export interface UsageLedgerEntry {
+  source: string;
+  provider: string;
+  model: string;
+  operation: UsageOperation;
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  units?: number | null;
+  costUsd: number | null;
+  latencyMs?: number | null;
+  context?: UsageContext;
+  metadata?: Record<string, unknown>;
+}
+
+interface EdgeRuntimeLike {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+let ledgerClient: SupabaseClient | null = null;
+
+function getLedgerClient(): SupabaseClient | null {
+  if (ledgerClient) return ledgerClient;
+  const url = Deno.env.get('SUPABASE_URL');
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !serviceKey) return null;
+  ledgerClient = createClient(url, serviceKey);
+  return ledgerClient;
+}
+
+/**
+ * Append a ledger row in the background (kept alive past the response via EdgeRuntime.waitUntil)
+ */
+export function recordUsage(entry: UsageLedgerEntry): void {
+  const client = getLedgerClient();
+  if (!client) return;
+
+  const write = Promise.resolve(
+    client.from('usage_ledger').insert({
+      source: entry.source,
+      provider: entry.provider,
+      model: entry.model,
+      operation: entry.operation,
+      agent_id: entry.context?.agentId || null,
+      conversation_id: entry.context?.conversationId || null,
+      benchmark_run_id: entry.context?.benchmarkRunId || null,
+      input_tokens: entry.inputTokens || 0,
+      output_tokens: entry.outputTokens || 0,
+      cache_read_tokens: entry.cacheReadTokens || 0,
+      cache_write_tokens: entry.cacheWriteTokens || 0,
+      units: entry.units ?? null,
+      cost_usd: entry.costUsd,
+      latency_ms: entry.latencyMs ?? null,
+      metadata: entry.metadata || {},
+    })
+  )
+    .then(({ error }) => {
+      if (error) console.error(`[UsageLedger] Insert failed (${entry.source}/${entry.model}):`, error.message);
+    })
+    .catch((error: unknown) => {
+      console.error('[UsageLedger] Insert failed:', error instanceof Error ? error.message : error);
+    });
+
+  const runtime = (globalThis as { EdgeRuntime?: EdgeRuntimeLike }).EdgeRuntime;
+  runtime?.waitUntil(write);
+}
+
+// ========== BUDGETS ==========
+
+export type BudgetPeriod = 'day' | 'month';
+export type BudgetStatus = 'ok' | 'soft' | 'hard';
+
+export interface AgentBudgetConfig {
+  id: string;
+  budget_soft_usd: number | null;
+  budget_hard_usd: number | null;
+  budget_period: BudgetPeriod | string | null;
+  budget_downgrade_provider?: string | null;
+  budget_downgrade_model?: string | null;
+}
+
+export interface BudgetCheck {
+  status: BudgetStatus;
+  spentUsd: number;
+  limitUsd: number | null; // the limit that was exceeded
+  period: BudgetPeriod;
+  since: string;
+}
+
+export function budgetPeriodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  return period === 'day'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Compare the agent's spend in the current period with its soft/hard limits
+ */
+export async function checkAgentBudget(supabase: SupabaseClient, agent: AgentBudgetConfig): Promise<BudgetCheck> {
+  const period: BudgetPeriod = agent.budget_period === 'day' ? 'day' : 'month';
+  const since = budgetPeriodStart(period).toISOString();
+  const soft = agent.budget_soft_usd !== null ? Number(agent.budget_soft_usd) : null;
+  const hard = agent.budget_hard_usd !== null ? Number(agent.budget_hard_usd) : null;
+
+  if (soft === null && hard === null) {
+    return { status: 'ok', spentUsd: 0, limitUsd: null, period, since };
+  }
+
+  const { data, error } = await supabase.rpc('get_agent_spend', { p_agent_id: agent.id, p_since: since });
+  if (error) {
+    // Budget accounting must not take the agent down: fail open
+    console.error(`[UsageLedger] Could not read spend for agent ${agent.id}:`, error.message);
+    return { status: 'ok', spentUsd: 0, limitUsd: null, period, since };
+  }
+
+  const spentUsd = Number(data) || 0;
+  if (hard !== null && spentUsd >= hard) return { status: 'hard', spentUsd, limitUsd: hard, period, since };
+  if (soft !== null && spentUsd >= soft) return { status: 'soft', spentUsd, limitUsd: soft, period, since };
+  return { status: 'ok', spentUsd, limitUsd: null, period, since };
+}
+
+export class BudgetExceededError extends Error {
+  constructor(readonly budget: BudgetCheck) {
+    super(`Hard budget reached: $${budget.spentUsd.toFixed(2)} >= $${Number(budget.limitUsd).toFixed(2)} (${budget.period})`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export interface BudgetDecision {
+  budget: BudgetCheck;
+  downgradeProvider: string | null;
+  downgradeModel: string | null;
+}
+
+// Spend is re-read at most every 30s per agent and isolate: calls right after crossing a limit may still pass
+const BUDGET_CACHE_TTL_MS = 30_000;
+const budgetCache = new Map<string, { expiresAt: number; decision: Promise<BudgetDecision | null> }>();
+
+async function loadBudgetDecision(agentId: string): Promise<BudgetDecision | null> {
+  const client = getLedgerClient();
+  if (!client) return null;
+
+  const { data: agent, error } = await client
+    .from('agents')
+    .select('id, budget_soft_usd, budget_hard_usd, budget_period, budget_downgrade_provider, budget_downgrade_model')
+    .eq('id', agentId)
+    .maybeSingle();
+  if (error || !agent) return null;
+
+  const config = agent as AgentBudgetConfig;
+  return {
+    budget: await checkAgentBudget(client, config),
+    downgradeProvider: config.budget_downgrade_provider || null,
+    downgradeModel: config.budget_downgrade_model || null,
+  };
+}
+
+/**
+ * Budget gate for a billed call made on behalf of an agent.
+ * Throws BudgetExceededError over the hard limit; otherwise returns the budget state
+ * (with the soft-limit downgrade target), or null when the call has no agent.
+ */
+export async function enforceAgentBudget(context?: UsageContext): Promise<BudgetDecision | null> {
+  const agentId = context?.agentId;
+  if (!agentId) return null;
+
+  let cached = budgetCache.get(agentId);
+  if (!cached || cached.expiresAt < Date.now()) {
+    // Fail open, like checkAgentBudget
+    cached = { expiresAt: Date.now() + BUDGET_CACHE_TTL_MS, decision: loadBudgetDecision(agentId).catch(() => null) };
+    budgetCache.set(agentId, cached);
+  }
+
+  const decision = await cached.decision;
+  if (decision?.budget.status === 'hard') throw new BudgetExceededError(decision.budget);
+  return decision;
+}
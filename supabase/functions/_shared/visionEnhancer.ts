@@ -1,4 +1,8 @@
 import { encodeBase64 } from "https://deno.land/std@0.208.0/encoding/base64.ts";
+import { reportLLMUsage, usageFromPayload } from "./llmGateway.ts";
+import { recordUsage } from "./usageLedger.ts";
+
+const CLAUDE_VISION_MODEL = 'claude-haiku-4-5-20251001';
 
 // ============= INTERFACES =============
 
@@ -112,7 +116,7 @@ sono RISOLTE usando il contesto disponibile nel documento stesso.`;
         'content-type': 'application/json'
       },
       body: JSON.stringify({
-        model: 'claude-haiku-4-5-20251001', // 🏎️→🛵 Haiku 4.5 economico invece di Sonnet Ferrari
+        model: CLAUDE_VISION_MODEL, // 🏎️→🛵 Haiku 4.5 economico invece di Sonnet Ferrari
         max_tokens: 1024, // 🛡️ Freno di sicurezza: max 1024 token invece di 4096
         messages: [{
           role: 'user',
@@ -141,6 +145,7 @@ sono RISOLTE usando il contesto disponibile nel documento stesso.`;
     }
 
     const result = await response.json();
+    reportLLMUsage({ source: 'visionEnhancer', provider: 'anthropic', model: CLAUDE_VISION_MODEL, usage: usageFromPayload('anthropic', CLAUDE_VISION_MODEL, result), operation: 'vision' });
     const extractedText = result.content?.[0]?.text;
     
     console.log(`[Vision Enhancement] ✓ Claude PDF extraction successful: ${extractedText?.length || 0} characters`);
@@ -206,6 +211,8 @@ export async function enhanceWithVisionAPI(
 
     const result = await response.json();
     console.log('[Vision Enhancement] API response received');
+    // Google Vision bills per page, not per token: no price table, units only
+    recordUsage({ source: 'visionEnhancer', provider: 'google-vision', model: 'DOCUMENT_TEXT_DETECTION', operation: 'ocr', units: result.responses?.length || 1, costUsd: null });
     
     // Debug logging per struttura risposta
     console.log('[Vision Enhancement] Response structure:', JSON.stringify(Object.keys(result)));
@@ -726,7 +733,7 @@ RULES:
         'Content-Type': 'application/json'
       },
       body: JSON.stringify({
-        model: 'claude-haiku-4-5-20251001',
+        model: CLAUDE_VISION_MODEL,
         max_tokens: 1500,  // Increased for dense data serialization
         temperature: 0.1,  // Low temperature for precision
         system: ragSystemPrompt,  // RAG-optimized system prompt
@@ -753,6 +760,7 @@ RULES:
     }
 
     const result = await response.json();
+    reportLLMUsage({ source: 'visionEnhancer', provider: 'anthropic', model: CLAUDE_VISION_MODEL, usage: usageFromPayload('anthropic', CLAUDE_VISION_MODEL, result), operation: 'vision' });
     const description = result.content?.[0]?.text || '[ERROR] No description generated';
     
     console.log(`[Visual Enrichment] ✓ Description generated: ${description.length} chars`);
@@ -860,7 +868,7 @@ Keep the description brief and factual. Use tables for numerical data when appro
       method: 'POST',
       headers,
       body: JSON.stringify({
-        model: 'claude-haiku-4-5-20251001', // 🏎️→🛵 Haiku 4.5 economico invece di Sonnet Ferrari
+        model: CLAUDE_VISION_MODEL, // 🏎️→🛵 Haiku 4.5 economico invece di Sonnet Ferrari
         max_tokens: 1024, // 🛡️ Freno di sicurezza: max 1024 token invece di 2048
         messages: [{
           role: 'user',
@@ -876,6 +884,7 @@ Keep the description brief and factual. Use tables for numerical data when appro
     }
 
     const result = await response.json();
+    reportLLMUsage({ source: 'visionEnhancer', provider: 'anthropic', model: CLAUDE_VISION_MODEL, usage: usageFromPayload('anthropic', CLAUDE_VISION_MODEL, result), operation: 'vision' });
     const description = result.content?.[0]?.text;
     
     if (!description) {
@@ -0,0 +1,169 @@
+/**
+ * Website connector
+ *
+ * config:
+ *   { sitemapUrl: "https://example.com/sitemap.xml" }   pages listed in the sitemap (sitemap indexes are followed)
+ *   { startUrl: "https://example.com/docs/" }           breadth-first crawl of same-origin links under the start path
+ *   maxPages?: number (default 50), includePaths?: string[] (URL path prefixes to keep)
+ *
+ * Incremental sync: with a sitemap, a page is listed when its <lastmod> changed; a crawl has no
+ * change marker, so the page HTML is hashed while crawling and only changed pages are listed.
+ * robots.txt Disallow rules for "*" are honoured.
+ */
+
+import {
+  ConnectorError,
+  fetchWithTimeout,
+  type Connector,
+  type ConnectorCursor,
+  type ConnectorDocument,
+  type ConnectorItem,
+  type ConnectorListing,
+} from './connectors.ts';
+import { decodeHtmlEntities, extractHtmlLinks, extractHtmlTitle, htmlToMarkdown } from './htmlToMarkdown.ts';
+import { hashText } from './documentVersions.ts';
+
+const DEFAULT_MAX_PAGES = 50;
+const MAX_SITEMAPS = 10;
+const SKIPPED_EXTENSIONS = /\.(pdf|png|jpe?g|gif|svg|webp|ico|css|js|json|xml|zip|gz|mp4|mp3|woff2?|ttf)$/i;
+
+export interface WebsiteConnectorConfig {
+  sitemapUrl?: string;
+  startUrl?: string;
+  maxPages?: number;
+  includePaths?: string[];
+}
+
+async function loadRobotsRules(origin: string): Promise<string[]> {
+  try {
+    const response = await fetchWithTimeout(`${origin}/robots.txt`, 10000);
+    if (!response.ok) return [];
+    const disallowed: string[] = [];
+    let appliesToUs = false;
+    for (const rawLine of (await response.text()).split('\n')) {
+      const line = rawLine.split('#')[0].trim();
+      const [field, ...rest] = line.split(':');
+      const value = rest.join(':').trim();
+      if (/^user-agent$/i.test(field)) appliesToUs = value === '*';
+      else if (appliesToUs && /^disallow$/i.test(field) && value) disallowed.push(value);
+    }
+    return disallowed;
+  } catch {
+    return [];
+  }
+}
+
+function sitemapEntries(xml: string, tag: 'url' | 'sitemap'): { loc: string; lastmod: string | null }[] {
+  return [...xml.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)<\\/${tag}>`, 'gi'))].map(match => ({
+    loc: decodeHtmlEntities(match[1].match(/<loc>\s*([\s\S]*?)\s*<\/loc>/i)?.[1] || ''),
+    lastmod: match[1].match(/<lastmod>\s*([\s\S]*?)\s*<\/lastmod>/i)?.[1] || null,
+  })).filter(entry => entry.loc);
+}
+
+export class WebsiteConnector implements Connector {
+  readonly type = 'website' as const;
+  private readonly maxPages: number;
+
+  constructor(private readonly config: WebsiteConnectorConfig) {
+    if (!config.sitemapUrl && !config.startUrl) throw new ConnectorError('Website connector needs sitemapUrl or startUrl');
+    this.maxPages = Math.min(Math.max(Number(config.maxPages) || DEFAULT_MAX_PAGES, 1), 500);
+  }
+
+  private isIncluded(url: URL, disallowed: string[]): boolean {
+    if (SKIPPED_EXTENSIONS.test(url.pathname)) return false;
+    if (disallowed.some(prefix => url.pathname.startsWith(prefix))) return false;
+    const includePaths = this.config.includePaths || [];
+    return includePaths.length === 0 || includePaths.some(prefix => url.pathname.startsWith(prefix));
+  }
+
+  async listItems(cursor: ConnectorCursor | null): Promise<ConnectorListing> {
+    // Cursor: { versions: url → lastmod (sitemap) or HTML hash (crawl) seen at the last sync }
+    const previous = (cursor?.versions as Record<string, string> | undefined) || {};
+    const pages = this.config.sitemapUrl ? await this.listFromSitemap() : await this.crawl();
+
+    const versions: Record<string, string> = {};
+    const items: ConnectorItem[] = [];
+    for (const page of pages) {
+      if (page.version) versions[page.url] = page.version;
+      if (page.version && previous[page.url] === page.version) continue;
+      items.push({ key: page.url, title: page.title || page.url, version: page.version, sourceUrl: page.url });
+    }
+    return { items, cursor: { versions } };
+  }
+
+  private async listFromSitemap(): Promise<{ url: string; title: string | null; version: string | null }[]> {
+    const root = new URL(this.config.sitemapUrl!);
+    const disallowed = await loadRobotsRules(root.origin);
+    const pages: { url: string; title: string | null; version: string | null }[] = [];
+    const queue = [root.toString()];
+    let sitemapsRead = 0;
+
+    while (queue.length > 0 && sitemapsRead < MAX_SITEMAPS && pages.length < this.maxPages) {
+      const sitemapUrl = queue.shift()!;
+      const response = await fetchWithTimeout(sitemapUrl);
+      if (!response.ok) throw new ConnectorError(`Sitemap ${sitemapUrl} returned ${response.status}`);
+      const xml = await response.text();
+      sitemapsRead++;
+
+      queue.push(...sitemapEntries(xml, 'sitemap').map(entry => entry.loc));
+      for (const entry of sitemapEntries(xml, 'url')) {
+        if (pages.length >= this.maxPages) break;
+        let url: URL;
+        try {
+          url = new URL(entry.loc);
+        } catch {
+          continue;
+        }
+        if (url.origin !== root.origin || !this.isIncluded(url, disallowed)) continue;
+        pages.push({ url: url.toString(), title: null, version: entry.lastmod });
+      }
+    }
+    return pages;
+  }
+
+  private async crawl(): Promise<{ url: string; title: string | null; version: string | null }[]> {
+    const start = new URL(this.config.startUrl!);
+    start.hash = '';
+    const disallowed = await loadRobotsRules(start.origin);
+    const basePath = start.pathname.endsWith('/') ? start.pathname : start.pathname.replace(/[^/]*$/, '');
+
+    const pages: { url: string; title: string | null; version: string | null }[] = [];
+    const seen = new Set([start.toString()]);
+    const queue = [start.toString()];
+
+    while (queue.length > 0 && pages.length < this.maxPages) {
+      const url = queue.shift()!;
+      try {
+        const response = await fetchWithTimeout(url);
+        if (!response.ok || !(response.headers.get('content-type') || '').includes('html')) continue;
+        const html = await response.text();
+        pages.push({ url, title: extractHtmlTitle(html), version: await hashText(html) });
+
+        for (const link of extractHtmlLinks(html, url)) {
+          const target = new URL(link);
+          if (seen.has(link) || target.origin !== start.origin || !target.pathname.startsWith(basePath)) continue;
+          if (!this.isIncluded(target, disallowed)) continue;
+          seen.add(link);
+          queue.push(link);
+        }
+      } catch (error) {
+        console.warn(`[WebsiteConnector] Failed to crawl ${url}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return pages;
+  }
+
+  async fetchItem(item: ConnectorItem): Promise<ConnectorDocument> {
+    const response = await fetchWithTimeout(item.key);
+    if (!response.ok) throw new ConnectorError(`${item.key} returned ${response.status}`);
+    const html = await response.text();
+    const title = extractHtmlTitle(html) || item.title;
+    const markdown = htmlToMarkdown(html);
+    return {
+      key: item.key,
+      title,
+      markdown: markdown.startsWith('# ') ? markdown : `# ${title}\n\nFonte: ${item.key}\n\n${markdown}`,
+      sourceUrl: item.key,
+    };
+  }
+}
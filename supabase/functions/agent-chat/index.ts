@@ -1,6 +1,47 @@
 // FORCE_DEPLOY_v3: 2025-01-31T20:08:00Z - Fix Google Gemini SSE streaming (second attempt)
 // Previous deploy did not propagate - forcing fresh build
-import { createClient } from "npm:@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import {
+  callLLM,
+  createUsageMeter,
+  encodeToolChoice,
+  encodeTools,
+  LLMGatewayError,
+  normalizeProvider,
+  reportLLMUsage,
+  resolveProviderAndModel,
+  sendProviderRequest,
+  type LLMToolChoice,
+} from "../_shared/llmGateway.ts";
+import {
+  classifyLLMFailure,
+  modelSupportsTools,
+  nextFallbackIndex,
+  parseFallbackChain,
+  type LLMFallbackAttempt,
+  type LLMFallbackReason,
+} from "../_shared/llmFallback.ts";
+import { checkAgentBudget, type UsageContext } from "../_shared/usageLedger.ts";
+import { buildMemoryContext, estimateTokens } from "../_shared/conversationMemory.ts";
+import { assembleContext, fitToolResult, type ContextItem, type ContextManifest, type ContextSection } from "../_shared/contextAssembler.ts";
+import { citationInstructions, describeChunkLocation, extractCitations, toCitableChunk, type CitableChunk } from "../_shared/citations.ts";
+import { getToolDefinition, parseToolAllowlist, resolveAgentTools, toolNeedsApproval } from "../_shared/toolRegistry.ts";
+import {
+  decideToolApproval,
+  recordToolApprovalResult,
+  requestToolApproval,
+  type PendingToolApproval,
+  type ToolApproval,
+  type ToolApprovalDecision,
+} from "../_shared/toolApprovals.ts";
+import {
+  DEFAULT_TASK_GRAPH_LIMITS,
+  mergeTaskResults,
+  runTaskGraph,
+  TaskGraphError,
+  validateTaskGraph,
+  type TaskNode,
+} from "../_shared/taskGraph.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -67,14 +108,6 @@ interface ToolServerResultPayload {
   timestamp: number;
 }
 
-interface UserIntent {
-  type: 'SEARCH_REQUEST' | 'DOWNLOAD_COMMAND' | 'FILTER_REQUEST' | 'SEMANTIC_QUESTION' | 'UNKNOWN';
-  topic?: string;
-  pdfNumbers?: number[];
-  filterCriteria?: string;
-  count?: number; // Number of results requested
-}
-
 // ============================================================================
 // PLANNER AGENT SYSTEM PROMPT - REMOVED
 // ============================================================================
@@ -123,7 +156,7 @@ function cleanJsonString(raw: string): string {
  * Usa un LLM veloce per estrarre query di ricerca distinte da un messaggio utente.
  * Se il messaggio è semplice (saluto o singola domanda), restituisce array con solo quel testo.
  */
-async function decomposeQueryWithLLM(userMessage: string): Promise<string[]> {
+async function decomposeQueryWithLLM(userMessage: string, usageContext?: UsageContext): Promise<string[]> {
   // Early exit per messaggi brevi (probabilmente già atomici)
   if (userMessage.length < DECOMPOSITION_CONFIG.MIN_MESSAGE_LENGTH) {
     console.log('⚡ [DECOMPOSITION] Message too short, skipping decomposition');
@@ -153,27 +186,18 @@ Output: ["Hello"]
 
 User message: ${userMessage}`;
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: DECOMPOSITION_CONFIG.MODEL,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.3, // Bassa temperatura per output più deterministico
-      }),
-      signal: AbortSignal.timeout(DECOMPOSITION_CONFIG.TIMEOUT_MS)
+    const result = await callLLM({
+      provider: 'lovable',
+      model: DECOMPOSITION_CONFIG.MODEL,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0.3, // Bassa temperatura per output più deterministico
+      timeoutMs: DECOMPOSITION_CONFIG.TIMEOUT_MS,
+      retries: 0,
+      source: 'agent-chat:decomposition',
+      usageContext,
     });
 
-    if (!response.ok) {
-      console.error(`❌ [DECOMPOSITION] LLM request failed: ${response.status}`);
-      return [userMessage];
-    }
-
-    const data = await response.json();
-    const rawContent = data.choices?.[0]?.message?.content;
+    const rawContent = result.text;
     
     if (!rawContent) {
       console.error('❌ [DECOMPOSITION] No content in LLM response');
@@ -210,6 +234,14 @@ User message: ${userMessage}`;
   }
 }
 
+/**
+ * Punteggio finale di un chunk restituito da semantic-search:
+ * rerank_score (re-ranker dell'agente) > fused_score (RRF) > similarity (legacy)
+ */
+function retrievalScore(doc: { rerank_score?: number; fused_score?: number; similarity?: number }): number {
+  return doc.rerank_score ?? doc.fused_score ?? doc.similarity ?? 0;
+}
+
 /**
  * Esegue semantic search in parallelo per ogni query e deduplica i risultati.
  * Rispetta il safety cap di MAX_TOTAL_CHUNKS per evitare Context Window Exceeded.
@@ -219,7 +251,8 @@ async function parallelSemanticSearch(
   agentId: string, 
   topKPerQuery: number,
   supabase: any,
-  documentFilter: string | null = null  // PRE-FILTER: restrict to specific document
+  documentFilter: string | null = null,  // PRE-FILTER: restrict to specific document
+  usageContext?: UsageContext
 ): Promise<{ 
   documents: any[], 
   queryBreakdown: Record<string, number> 
@@ -233,7 +266,7 @@ async function parallelSemanticSearch(
     const searchPromises = queries.map(async (query) => {
       try {
         const { data, error } = await supabase.functions.invoke('semantic-search', {
-          body: { query, agentId, topK: topKPerQuery, documentFilter }
+          body: { query, agentId, topK: topKPerQuery, documentFilter, conversationId: usageContext?.conversationId, benchmarkRunId: usageContext?.benchmarkRunId }
         });
         
         if (error) {
@@ -263,10 +296,10 @@ async function parallelSemanticSearch(
       for (const doc of docs) {
         const chunkId = doc.id;
         
-        // Se il chunk esiste già, mantieni quello con similarity più alta
+        // Se il chunk esiste già, mantieni quello con punteggio più alto
         if (chunkMap.has(chunkId)) {
           const existing = chunkMap.get(chunkId);
-          if ((doc.similarity || 0) > (existing.similarity || 0)) {
+          if (retrievalScore(doc) > retrievalScore(existing)) {
             chunkMap.set(chunkId, doc);
           }
         } else {
@@ -275,9 +308,9 @@ async function parallelSemanticSearch(
       }
     }
     
-    // Converti Map in array e ordina per similarity
+    // Converti Map in array e ordina per punteggio (comparabile tra pipeline)
     let uniqueDocs = Array.from(chunkMap.values())
-      .sort((a, b) => (b.similarity || 0) - (a.similarity || 0));
+      .sort((a, b) => retrievalScore(b) - retrievalScore(a));
     
     // 📊 [BENCHMARK LOGGING] Log retrieval details for analysis
     console.log(`📊 [RETRIEVAL-STATS] Query Breakdown:`, JSON.stringify(queryBreakdown, null, 2));
@@ -287,6 +320,9 @@ async function parallelSemanticSearch(
       console.log(`📊 [RETRIEVAL-STATS] Top 5 chunks:`, topChunks.map(d => ({
         document: d.document_name,
         similarity: d.similarity?.toFixed(3),
+        fused_score: d.fused_score?.toFixed(3),
+        rerank_score: d.rerank_score?.toFixed(3),
+        pipeline: d.pipeline_source,
         category: d.category,
         search_type: d.search_type
       })));
@@ -356,6 +392,9 @@ const DECOMPOSITION_CONFIG = {
   MIN_MESSAGE_LENGTH: 30              // Sotto questa lunghezza, skip decomposizione
 };
 
+// Timeout per la chiamata LLM principale (fino alla ricezione degli header dello stream)
+const LLM_REQUEST_TIMEOUT_MS = 300000;
+
 interface SearchResult {
   number: number;
   title: string;
@@ -423,6 +462,37 @@ async function updateConversationState(conversationId: string, updates: Partial<
   console.log(`💾 [WORKFLOW] State persisted to DB for conversation ${conversationId}:`, dbUpdates);
 }
 
+// LIKE wildcards in an LLM-supplied name must match literally
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// Agent named in a tool input: exact slug, then exact name, then partial match.
+// Each lookup is its own .eq()/.ilike() query so the name never ends up inside a PostgREST filter string.
+async function findActiveAgent(supabaseClient: SupabaseClient, nameOrSlug: string): Promise<{ id: string; name: string; slug: string; description: string; system_prompt: string } | null> {
+  const key = String(nameOrSlug || '').replace(/^@/, '').trim();
+  if (!key) return null;
+  const namePattern = escapeLikePattern(key.replace(/-/g, ' '));
+  const slugPattern = escapeLikePattern(key);
+  const columns = 'id, name, slug, description, system_prompt';
+
+  const { data: bySlug } = await supabaseClient
+    .from('agents').select(columns).eq('slug', key).eq('active', true).maybeSingle();
+  if (bySlug) return bySlug;
+
+  const { data: byName } = await supabaseClient
+    .from('agents').select(columns).ilike('name', namePattern).eq('active', true).limit(1).maybeSingle();
+  if (byName) return byName;
+
+  const { data: byPartialName } = await supabaseClient
+    .from('agents').select(columns).ilike('name', `%${namePattern}%`).eq('active', true).limit(1).maybeSingle();
+  if (byPartialName) return byPartialName;
+
+  const { data: byPartialSlug } = await supabaseClient
+    .from('agents').select(columns).ilike('slug', `%${slugPattern}%`).eq('active', true).limit(1).maybeSingle();
+  return byPartialSlug ?? null;
+}
+
 // Pattern detection for query proposals
 function detectProposedQuery(text: string): string | null {
   console.log(`🔍 [PATTERN] Checking for proposed query in text: "${text.substring(0, 200)}..."`);
@@ -608,127 +678,6 @@ async function triggerAsyncContinuation(
   console.log(`✅ [REQ-${requestId}] Continuation triggered (running in background)`);
 }
 
-// ============================================
-// INTENT PARSING
-// ============================================
-
-function parseKnowledgeSearchIntent(message: string): UserIntent {
-  console.log('🧠 [INTENT PARSER] Analyzing message:', message.slice(0, 100));
-  const lowerMsg = message.toLowerCase().trim();
-  
-  // Extract requested count (e.g., "find 20 PDFs", "5 documents", "get 50 papers")
-  const countMatch = message.match(/\b(\d+)\s+(?:pdf|pdfs|document|documents|result|results|file|files|paper|papers)/i);
-  const requestedCount = countMatch ? Math.min(parseInt(countMatch[1]), 100) : 10; // Default 10, max 100
-  console.log('📊 [INTENT PARSER] Requested count:', requestedCount);
-  
-  // SEARCH REQUEST: "Find PDFs on...", "Search for...", "Look for...", Italian patterns
-  const searchPatterns = [
-    // English patterns - STRICT (with "on/about/regarding")
-    /find\s+(?:pdf|pdfs|papers?|documents?|articles?)\s+(?:on|about|regarding)/i,
-    /search\s+(?:for\s+)?(?:pdf|pdfs|papers?)\s+(?:on|about|regarding)/i,
-    /look\s+(?:for\s+)?(?:pdf|pdfs|papers?)\s+(?:on|about|regarding)/i,
-    /\d+\s+(?:pdf|pdfs|papers?|documents?)\s+(?:on|about|regarding)/i, // "20 PDFs on..."
-    
-    // English patterns - FLEXIBLE (topic before pdf)
-    /(?:find|search|look\s+for|get)\s+.{3,80}\s+(?:pdf|pdfs|papers?|documents?|articles?)$/i,  // "Find [topic] pdf"
-    /(?:find|search|look\s+for|get)\s+(?:\d+\s+)?.{3,80}\s+(?:pdf|pdfs|papers?|documents?|articles?)$/i,  // "Find 5 [topic] pdf"
-    
-    // Italian patterns
-    /cerca\s+(?:pdf|articoli?|documenti?|paper)/i,
-    /trova\s+(?:pdf|articoli?|documenti?|paper)/i,
-    /dammi\s+(?:\d+\s+)?(?:pdf|articoli?|documenti?|paper)/i,
-    /ricerca\s+(?:pdf|articoli?|documenti?|paper)/i,
-    /voglio\s+(?:\d+\s+)?(?:pdf|articoli?|documenti?|paper)/i,
-    /mi\s+(?:servono?|occorrono?)\s+(?:\d+\s+)?(?:pdf|articoli?|paper)/i,
-    
-    // More flexible patterns
-    /(?:pdf|papers?|documents?|articoli?)\s+(?:su|on|about|riguardo|regarding)\s+/i,
-    /\d+\s+(?:pdf|paper|articoli?)\s+/i  // "5 PDF machine learning"
-  ];
-  
-  for (const pattern of searchPatterns) {
-    if (pattern.test(message)) {
-      let topic = message.replace(pattern, '').replace(/\b\d+\b/g, '').trim(); // Remove pattern and standalone numbers
-      
-      // Additional cleanup: remove common keywords
-      topic = topic.replace(/\b(pdf|pdfs|paper|papers|articolo|articoli|documento|documenti)\b/gi, '').trim();
-      
-      // Fallback: if topic is too short, take everything after first 3 words
-      if (!topic || topic.length < 3) {
-        const words = message.split(/\s+/);
-        topic = words.slice(3).join(' ').trim();
-      }
-      
-      console.log('✅ [INTENT PARSER] Detected SEARCH_REQUEST for topic:', topic);
-      return { type: 'SEARCH_REQUEST', topic, count: requestedCount };
-    }
-  }
-  
-  // AUTO-DETECT SIMPLE TOPIC: If user just pastes a topic without explicit command
-  // Check if message looks like a simple search topic (no questions, short, few words)
-  const wordCount = message.trim().split(/\s+/).length;
-  const hasQuestionMark = message.includes('?');
-  const hasExplicitAction = /\b(cerca|trova|dammi|voglio|search|find|look for|mi servono|download|get|scarica|show|filter)\b/i.test(message);
-  const isReasonableLength = message.length >= 5 && message.length <= 100;
-  const isShortPhrase = wordCount >= 1 && wordCount <= 10;
-  
-  if (!hasQuestionMark && !hasExplicitAction && isReasonableLength && isShortPhrase) {
-    // This looks like a simple topic - auto-add "find pdf on" prefix
-    const autoTopic = message.trim();
-    console.log('🎯 [INTENT PARSER] AUTO-DETECTED simple topic, treating as search:', autoTopic);
-    console.log('✅ [INTENT PARSER] Auto-wrapped as: "find pdf on ' + autoTopic + '"');
-    return { type: 'SEARCH_REQUEST', topic: autoTopic, count: requestedCount };
-  }
-  
-  // Check for vague search intent to provide feedback
-  const hasSearchIntent = /\b(cerca|trova|dammi|voglio|search|find|look for|mi servono|mi occorrono)\b/i.test(message);
-  const hasTopicWords = /\b(pdf|paper|articol|document)\b/i.test(message);
-  
-  if (hasSearchIntent && hasTopicWords) {
-    console.log('⚠️ [INTENT PARSER] Vague search intent detected, may need AI guidance');
-  }
-  
-  // DOWNLOAD COMMAND: "Download #2, #5", "Get PDFs #1, #3, #7", "Download all"
-  const downloadPattern = /download|get|scarica/i;
-  const numberPattern = /#(\d+)/g;
-  
-  if (downloadPattern.test(message)) {
-    // Check for "all" command first (download all, scaricali tutti, get all)
-    const allPattern = /\b(all|tutti|everything|tutte|tutto)\b/i;
-    if (allPattern.test(message)) {
-      console.log('✅ [INTENT PARSER] Detected DOWNLOAD_COMMAND for ALL PDFs');
-      return { type: 'DOWNLOAD_COMMAND', pdfNumbers: [] }; // Empty array signals "download all"
-    }
-    
-    // Otherwise look for specific numbers
-    const matches = Array.from(message.matchAll(numberPattern));
-    if (matches.length > 0) {
-      const pdfNumbers = matches.map(m => parseInt(m[1]));
-      console.log('✅ [INTENT PARSER] Detected DOWNLOAD_COMMAND for PDFs:', pdfNumbers);
-      return { type: 'DOWNLOAD_COMMAND', pdfNumbers };
-    }
-  }
-  
-  // FILTER REQUEST: "only last 3 years", "most authoritative"
-  const filterPatterns = [
-    /only|filter|show|keep|remove/i,
-    /last\s+\d+\s+years?/i,
-    /most\s+(?:authoritative|cited|recent)/i,
-    /from\s+(?:universities|arxiv)/i
-  ];
-  
-  for (const pattern of filterPatterns) {
-    if (pattern.test(message)) {
-      console.log('✅ [INTENT PARSER] Detected FILTER_REQUEST:', message.slice(0, 100));
-      return { type: 'FILTER_REQUEST', filterCriteria: message };
-    }
-  }
-  
-  // Default: semantic question for AI
-  console.log('✅ [INTENT PARSER] Detected SEMANTIC_QUESTION (default)');
-  return { type: 'SEMANTIC_QUESTION' };
-}
-
 async function executeWebSearch(topic: string, count: number = 10): Promise<SearchResult[]> {
   console.log('🔍 [WEB SEARCH] Starting Google Custom Search for topic:', topic);
   console.log('📊 [WEB SEARCH] Requested count:', count);
@@ -2315,7 +2264,7 @@ Deno.serve(async (req) => {
     const requestBody = await req.json();
     console.log('Request body:', JSON.stringify(requestBody, null, 2));
     
-    const { conversationId, message, agentSlug, attachments, skipSystemValidation, stream, serverUserId, documentFilter, forcedTool, luxMode, domResult, toolServerResult, silent } = requestBody as {
+    const { conversationId, message, agentSlug, attachments, skipSystemValidation, stream, serverUserId, documentFilter, forcedTool, luxMode, domResult, toolServerResult, toolApproval, silent, benchmarkRunId, delegationDepth, delegationChain } = requestBody as {
       conversationId?: string;
       message: string;
       agentSlug: string;
@@ -2328,7 +2277,11 @@ Deno.serve(async (req) => {
       luxMode?: string;
       domResult?: DomResultPayload;
       toolServerResult?: ToolServerResultPayload;
+      toolApproval?: ToolApprovalDecision;
       silent?: boolean;
+      benchmarkRunId?: string;
+      delegationDepth?: number;     // set by delegate_task_graph on the calls it makes
+      delegationChain?: string[];   // slugs of the coordinators above this call
     };
 
     // Server-to-server calls can pass serverUserId directly (for benchmark system)
@@ -2374,6 +2327,16 @@ Deno.serve(async (req) => {
     if (attachments && (!Array.isArray(attachments) || attachments.length > 10)) {
       throw new Error('Invalid attachments: must be an array with max 10 items');
     }
+    const currentDelegationDepth = Math.max(0, Math.floor(Number(delegationDepth) || 0));
+    const currentDelegationChain = Array.isArray(delegationChain)
+      ? delegationChain.filter((slug): slug is string => typeof slug === 'string').slice(0, 10)
+      : [];
+    if (toolApproval) {
+      validateUUID(toolApproval.approvalId, 'toolApproval.approvalId');
+      if (toolApproval.decision !== 'approve' && toolApproval.decision !== 'reject') {
+        throw new Error('Invalid toolApproval.decision: must be approve or reject');
+      }
+    }
 
     // Detailed request logging
     console.log('🆔 [REQ-' + requestId + '] New request received');
@@ -2492,6 +2455,52 @@ Deno.serve(async (req) => {
       }
     }
 
+    // Every LLM call below is billed to this agent/conversation in the usage ledger
+    const usageContext: UsageContext = {
+      agentId: agent.id,
+      conversationId: conversation.id,
+      benchmarkRunId: benchmarkRunId || null,
+    };
+
+    // ========== BUDGET CHECK ==========
+    // hard: no LLM call at all, including the Lux pipeline below; soft: answer with the cheaper
+    // downgrade model if configured (applied once the provider is resolved)
+    const budget = await checkAgentBudget(supabase, agent);
+    if (budget.status === 'hard') {
+      console.warn(`💸 [REQ-${requestId}] Hard budget reached for ${agent.slug}: $${budget.spentUsd.toFixed(4)} >= $${budget.limitUsd} (${budget.period})`);
+      const budgetMessage = `💸 Budget esaurito per questo agente: spesi $${budget.spentUsd.toFixed(2)} su $${Number(budget.limitUsd).toFixed(2)} ${budget.period === 'day' ? 'oggi' : 'questo mese'}. Riprova quando il budget si azzera o chiedi a un amministratore di aumentarlo.`;
+
+      await supabase.from('agent_messages').insert({
+        conversation_id: conversation.id,
+        role: 'assistant',
+        content: budgetMessage,
+        llm_provider: 'system',
+        metadata: { budget }
+      });
+
+      if (enableStreaming) {
+        const budgetEncoder = new TextEncoder();
+        const budgetStream = new ReadableStream({
+          start(controller) {
+            controller.enqueue(budgetEncoder.encode(`data: ${JSON.stringify({ type: 'content', text: budgetMessage })}\n\n`));
+            controller.enqueue(budgetEncoder.encode(`data: ${JSON.stringify({ type: 'done' })}\n\n`));
+            controller.close();
+          }
+        });
+        return new Response(budgetStream, {
+          headers: { ...corsHeaders, 'Content-Type': 'text/event-stream' }
+        });
+      }
+
+      return new Response(
+        JSON.stringify({ response: budgetMessage, llmProvider: 'system', metadata: { budget } }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Conversation memory is per user: benchmark runs and delegated sub-agent calls neither read nor write it
+    const memoryEnabled = !benchmarkRunId && currentDelegationDepth === 0;
+
     // Process attachments and build context
     let attachmentContext = '';
     if (attachments && attachments.length > 0) {
@@ -2622,78 +2631,45 @@ Deno.serve(async (req) => {
         });
       }
 
-      const retryableStatuses = new Set([429, 500, 502, 503, 504, 522, 524, 529]);
-      const maxAttempts = 4;
-
-      const callLuxPromptOptimizer = async (): Promise<
-        | { kind: 'ok'; response: Response }
-        | { kind: 'sse_error'; response: Response }
-      > => {
-        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-          const luxResponse = await fetch('https://api.anthropic.com/v1/messages', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-api-key': ANTHROPIC_API_KEY,
-              'anthropic-version': '2023-06-01'
-            },
-            body: JSON.stringify({
-              model: luxAgent.ai_model || 'claude-sonnet-4-20250514',
-              max_tokens: 2000,
-              messages: [{ role: 'user', content: message }],
-              system: luxAgent.system_prompt
-            }),
-            signal: AbortSignal.timeout(30000)
-          });
+      let luxOutput = '';
+      try {
+        const luxResult = await callLLM({
+          provider: 'anthropic',
+          model: luxAgent.ai_model || 'claude-sonnet-4-20250514',
+          apiKey: ANTHROPIC_API_KEY,
+          maxTokens: 2000,
+          system: luxAgent.system_prompt,
+          messages: [{ role: 'user', content: message }],
+          timeoutMs: 30000,
+          retries: 3,
+          source: 'agent-chat:lux',
+          usageContext,
+        });
+        luxOutput = luxResult.text || '';
+      } catch (luxError) {
+        const status = luxError instanceof LLMGatewayError ? luxError.status : null;
+        console.error(`❌ [REQ-${requestId}] Lux agent API call failed: ${status ?? (luxError instanceof Error ? luxError.message : luxError)}`);
 
-          if (luxResponse.ok) return { kind: 'ok', response: luxResponse };
-
-          const status = luxResponse.status;
-          const canRetry = retryableStatuses.has(status) && attempt < maxAttempts;
-          console.error(`❌ [REQ-${requestId}] Lux agent API call failed (attempt ${attempt}/${maxAttempts}): ${status}`);
-
-          if (!canRetry) {
-            // Return SSE error (200 OK) so the client can show the error without treating it as a hard network failure.
-            const encoder = new TextEncoder();
-            const stream = new ReadableStream({
-              start(controller) {
-                controller.enqueue(
-                  encoder.encode(
-                    `data: ${JSON.stringify({
-                      type: 'error',
-                      error: `Lux agent API overloaded/unavailable (HTTP ${status}). Please retry in a moment.`
-                    })}\n\n`
-                  )
-                );
-                controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'done' })}\n\n`));
-                controller.close();
-              }
-            });
-            return {
-              kind: 'sse_error',
-              response: new Response(stream, {
-                headers: { ...corsHeaders, 'Content-Type': 'text/event-stream' },
-              })
-            };
+        // Return SSE error (200 OK) so the client can show the error without treating it as a hard network failure.
+        const encoder = new TextEncoder();
+        const stream = new ReadableStream({
+          start(controller) {
+            controller.enqueue(
+              encoder.encode(
+                `data: ${JSON.stringify({
+                  type: 'error',
+                  error: `Lux agent API overloaded/unavailable (HTTP ${status ?? 'n/a'}). Please retry in a moment.`
+                })}\n\n`
+              )
+            );
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'done' })}\n\n`));
+            controller.close();
           }
-
-          // Exponential backoff with small jitter
-          const base = 500 * Math.pow(2, attempt - 1);
-          const jitter = Math.floor(Math.random() * 250);
-          await new Promise((r) => setTimeout(r, base + jitter));
-        }
-
-        // Should never reach here
-        throw new Error('Lux agent API call failed after retries');
-      };
-
-      const luxCall = await callLuxPromptOptimizer();
-      if (luxCall.kind === 'sse_error') {
-        return luxCall.response;
+        });
+        return new Response(stream, {
+          headers: { ...corsHeaders, 'Content-Type': 'text/event-stream' },
+        });
       }
-
-      const luxData = await luxCall.response.json();
-      const luxOutput = luxData.content?.[0]?.text || '';
       console.log(`📝 [REQ-${requestId}] Lux agent response length: ${luxOutput.length}`);
       
       // 3. Parse JSON from response
@@ -3006,6 +2982,17 @@ ${luxMode === 'tasker' && todosFormatted ? `\n**Todos (${parsedTask.todos.length
       }
     }
 
+    // 🔐 Tool approval decision: recorded before anything else, the tool runs once the stream starts
+    let decidedApproval: ToolApproval | null = null;
+    if (toolApproval) {
+      decidedApproval = await decideToolApproval(supabase, toolApproval, userId, conversation.id);
+      const verdict = decidedApproval.status === 'approved' ? 'approved' : 'rejected';
+      console.log(`🔐 [REQ-${requestId}] Tool approval ${verdict}: ${decidedApproval.tool_name} (${decidedApproval.id})`);
+      if (!message || message.trim() === '') {
+        messageToSave = `[Tool Approval: ${verdict} ${decidedApproval.tool_name}]${toolApproval.note ? `\n\n${toolApproval.note}` : ''}`;
+      }
+    }
+
     const { data: userMessage, error: userMsgError } = await supabase
       .from('agent_messages')
       .insert({
@@ -3282,10 +3269,9 @@ ${luxMode === 'tasker' && todosFormatted ? `\n**Todos (${parsedTask.todos.length
 
     console.log(`📊 Messages: ${messages?.length || 0} → ${cleanedMessages.length} after cleanup`);
 
-    // Truncate conversation history to prevent context overflow
-    // Keep enough messages to allow forwarding long agent responses
+    // Truncate conversation history to the recent window (older messages live in the memory summary).
+    // The token budget of what is left is enforced by the context assembler before the LLM call.
     const MAX_MESSAGES = 20;
-    const MAX_TOTAL_CHARS = 100000; // Allow long forwarded messages
     
     let truncatedMessages = cleanedMessages;
     
@@ -3295,26 +3281,25 @@ ${luxMode === 'tasker' && todosFormatted ? `\n**Todos (${parsedTask.todos.length
       console.log(`✂️ Truncated to last ${MAX_MESSAGES} messages`);
     }
     
-    // Check total character count
-    let totalChars = truncatedMessages.reduce((sum, m) => sum + (m.content?.length || 0), 0);
-    
-    if (totalChars > MAX_TOTAL_CHARS) {
-      // Remove oldest messages until under limit
-      while (totalChars > MAX_TOTAL_CHARS && truncatedMessages.length > 2) {
-        const removed = truncatedMessages.shift();
-        totalChars -= (removed?.content?.length || 0);
-      }
-      console.log(`✂️ Truncated to ${totalChars} chars across ${truncatedMessages.length} messages`);
-    }
-    
-    console.log(`📊 Final context: ${truncatedMessages.length} messages, ${totalChars} total chars`);
+    const totalChars = truncatedMessages.reduce((sum, m) => sum + (m.content?.length || 0), 0);
+    console.log(`📊 History: ${truncatedMessages.length} messages, ${totalChars} total chars`);
 
-    // Determine which LLM provider to use
-    const llmProvider = agent.llm_provider || 'anthropic';
-    const aiModel = agent.ai_model || null;
+    // Determine which LLM provider to use (reassigned when the fallback chain kicks in)
+    let llmProvider: string = agent.llm_provider || 'anthropic';
+    let aiModel: string | null = agent.ai_model || null;
 
     // Use agent's configured model or default to valid alias
-    const resolvedAnthropicModel = aiModel || 'claude-sonnet-4-5';
+    let resolvedAnthropicModel = aiModel || 'claude-sonnet-4-5';
+
+    // Soft budget (checked above): downgrade model for the main answer
+    if (budget.status === 'soft' && agent.budget_downgrade_provider) {
+      llmProvider = agent.budget_downgrade_provider;
+      aiModel = agent.budget_downgrade_model || null;
+      resolvedAnthropicModel = aiModel || 'claude-sonnet-4-5';
+      console.warn(`💸 [REQ-${requestId}] Soft budget reached for ${agent.slug} ($${budget.spentUsd.toFixed(4)} >= $${budget.limitUsd}): downgrading to ${llmProvider}/${aiModel || 'default'}`);
+    } else if (budget.status === 'soft') {
+      console.warn(`💸 [REQ-${requestId}] Soft budget reached for ${agent.slug} but no downgrade model configured`);
+    }
 
     console.log('🤖 Using LLM Provider:', llmProvider);
     if (aiModel) {
@@ -3635,34 +3620,21 @@ Il prompt deve essere pronto all'uso direttamente.`;
             
             // Call Prompt Expert
             try {
-              const anthropicKey = Deno.env.get('ANTHROPIC_API_KEY');
-              if (!anthropicKey) throw new Error('ANTHROPIC_API_KEY not configured');
-              
-              const anthropicResponse = await fetch('https://api.anthropic.com/v1/messages', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'x-api-key': anthropicKey,
-                  'anthropic-version': '2023-06-01'
-                },
-                body: JSON.stringify({
-                  model: 'claude-sonnet-4-5',
-                  max_tokens: 64000,
-                  temperature: 0.7,
-                  system: promptExpert.system_prompt || 'You are an expert in creating and modifying AI agent system prompts.',
-                  messages: [
-                    { role: 'user', content: taskForPromptExpert }
-                  ]
-                })
+              const expertResult = await callLLM({
+                provider: 'anthropic',
+                model: 'claude-sonnet-4-5',
+                maxTokens: 64000,
+                temperature: 0.7,
+                system: promptExpert.system_prompt || 'You are an expert in creating and modifying AI agent system prompts.',
+                messages: [
+                  { role: 'user', content: taskForPromptExpert }
+                ],
+                timeoutMs: 300000,
+                source: 'agent-chat:modify-prompt',
+                usageContext,
               });
               
-              if (!anthropicResponse.ok) {
-                const errorBody = await anthropicResponse.text();
-                throw new Error(`Anthropic API error: ${anthropicResponse.status} - ${errorBody}`);
-              }
-              
-              const responseData = await anthropicResponse.json();
-              const newPrompt = responseData.content[0].text.trim();
+              const newPrompt = (expertResult.text || '').trim();
               
               console.log(`✅ [MODIFY PROMPT] Received new prompt from Prompt Expert (${newPrompt.length} chars)`);
               
@@ -3974,6 +3946,8 @@ The system has automatically executed a search based on your proposed query and
           // Every user message triggers automatic semantic search for knowledge base access
           // ============================================================================
           let knowledgeContext = '';
+          const knowledgeItems: ContextItem[] = [];
+          let knowledgeFooter = '';
           
           // 📊 Track knowledge context for metadata (declare at function scope)
           let hasKnowledgeContext = false;
@@ -3986,6 +3960,8 @@ The system has automatically executed a search based on your proposed query and
           let documents: any[] = [];
           let queryBreakdown: Record<string, number> = {};
           let decomposedQueries: string[] = [];
+          // Chunks the answer may cite (auto-search + semantic_search tool results), keyed by citation id
+          const citableChunks = new Map<string, CitableChunk>();
           
           console.log(`🔍 [AUTO-SEARCH] Starting Query Decomposition for: "${message}"`);
           
@@ -4009,7 +3985,7 @@ The system has automatically executed a search based on your proposed query and
             // ============================================================================
             // STEP 1: QUERY DECOMPOSITION
             // ============================================================================
-            decomposedQueries = await decomposeQueryWithLLM(message);
+            decomposedQueries = await decomposeQueryWithLLM(message, usageContext);
             console.log(`🧩 [DECOMPOSITION] Extracted ${decomposedQueries.length} queries:`, decomposedQueries);
             
             // ============================================================================
@@ -4030,7 +4006,9 @@ The system has automatically executed a search based on your proposed query and
                     query: decomposedQueries[0],
                     agentId: agent.id,
                     topK: topK,
-                    documentFilter: specifiedDocumentName  // PRE-FILTER: pass document name to RPC
+                    documentFilter: specifiedDocumentName,  // PRE-FILTER: pass document name to RPC
+                    conversationId: conversation.id,
+                    benchmarkRunId: benchmarkRunId || null
                   }
                 }
               );
@@ -4038,6 +4016,9 @@ The system has automatically executed a search based on your proposed query and
               if (!searchError && searchData) {
                 documents = Array.isArray(searchData) ? searchData : searchData?.documents || [];
                 queryBreakdown[decomposedQueries[0]] = documents.length;
+                if (searchData?.reranker) {
+                  console.log(`🔀 [RERANKER] ${searchData.reranker.name} (applied: ${searchData.reranker.applied})`);
+                }
               }
               
             } else {
@@ -4052,7 +4033,8 @@ The system has automatically executed a search based on your proposed query and
                 agent.id, 
                 topKPerQuery,
                 supabase,
-                specifiedDocumentName  // PRE-FILTER: pass document name to RPC
+                specifiedDocumentName,  // PRE-FILTER: pass document name to RPC
+                usageContext
               );
               
               documents = searchResult.documents;
@@ -4162,34 +4144,48 @@ The system has automatically executed a search based on your proposed query and
               
               knowledgeContext += `The following excerpts from your knowledge base are automatically loaded and relevant to the user's query:\n\n`;
               
+              // One item per excerpt, best first: the context assembler condenses the tail when the window is tight
               documents.forEach((doc: any, index: number) => {
-                knowledgeContext += `### Excerpt ${index + 1}: ${doc.document_name}\n`;
-                if (doc.category) knowledgeContext += `**Category**: ${doc.category}\n`;
-                if (doc.summary) knowledgeContext += `**Summary**: ${doc.summary}\n`;
-                knowledgeContext += `**Similarity**: ${((doc.similarity || 0) * 100).toFixed(1)}%\n`;
-                knowledgeContext += `\n**Content**:\n${doc.content}\n\n`;
-                knowledgeContext += `---\n\n`;
+                let excerptHeader = `### Excerpt ${index + 1}: ${doc.document_name}\n`;
+                const citable = toCitableChunk(doc);
+                if (citable) {
+                  citableChunks.set(citable.citation_id, citable);
+                  excerptHeader += `**Citation ID**: ${citable.citation_id}\n`;
+                  const location = describeChunkLocation(citable);
+                  if (location) excerptHeader += `**Posizione**: ${location}\n`;
+                }
+                let excerpt = excerptHeader;
+                if (doc.category) excerpt += `**Category**: ${doc.category}\n`;
+                if (doc.summary) excerpt += `**Summary**: ${doc.summary}\n`;
+                excerpt += `**Similarity**: ${((doc.similarity || 0) * 100).toFixed(1)}%\n`;
+                excerpt += `\n**Content**:\n${doc.content}\n\n`;
+                excerpt += `---\n\n`;
+                const excerptContent = String(doc.summary || doc.content || '').replace(/\s+/g, ' ').trim();
+                knowledgeItems.push({
+                  text: excerpt,
+                  condensed: `${excerptHeader}**Estratto ridotto**: ${excerptContent.slice(0, 300)}${excerptContent.length > 300 ? '…' : ''}\n\n---\n\n`,
+                });
               });
               
-              knowledgeContext += `\n**⚠️ REGOLE ANTI-HALLUCINATION OBBLIGATORIE**:\n`;
-              knowledgeContext += `1. **RISPONDI SOLO** utilizzando informazioni ESPLICITAMENTE presenti negli excerpt sopra\n`;
-              knowledgeContext += `2. Per OGNI affermazione, **CITA LA FONTE** specifica: "[Da: nome_documento, Excerpt N]"\n`;
-              knowledgeContext += `3. Se un'informazione NON è presente negli excerpt, rispondi ESPLICITAMENTE:\n`;
-              knowledgeContext += `   → "Questa informazione specifica non è presente nei documenti della knowledge base"\n`;
-              knowledgeContext += `4. **NON INVENTARE MAI**:\n`;
-              knowledgeContext += `   - Dati, numeri, percentuali non presenti nei chunk\n`;
-              knowledgeContext += `   - Nomi, date, fonti non esplicitamente citati\n`;
-              knowledgeContext += `   - Conclusioni non supportate dagli excerpt\n`;
-              knowledgeContext += `5. Se la domanda copre PIÙ ARGOMENTI e solo ALCUNI sono presenti:\n`;
-              knowledgeContext += `   - Rispondi per gli argomenti coperti con citazioni\n`;
-              knowledgeContext += `   - Specifica esplicitamente quali argomenti NON sono coperti\n`;
-              knowledgeContext += `6. **PRIORITÀ**: Precisione > Completezza. Meglio dire "non presente" che inventare\n\n`;
-              knowledgeContext += `**ISTRUZIONI GENERALI**:\n`;
-              knowledgeContext += `- Usa gli excerpt sopra per rispondere alla domanda dell'utente\n`;
-              knowledgeContext += `- NON chiamare nuovamente il tool semantic_search - questo contenuto è stato caricato automaticamente\n`;
-              knowledgeContext += `- I tool get_agent_knowledge e semantic_search sono disponibili SOLO per:\n`;
-              knowledgeContext += `  * Interrogare la knowledge base di ALTRI agenti\n`;
-              knowledgeContext += `  * Eseguire ricerche aggiuntive/di follow-up oltre questa ricerca automatica\n\n`;
+              knowledgeFooter = `\n**⚠️ REGOLE ANTI-HALLUCINATION OBBLIGATORIE**:\n`;
+              knowledgeFooter += `1. **RISPONDI SOLO** utilizzando informazioni ESPLICITAMENTE presenti negli excerpt sopra\n`;
+              knowledgeFooter += `2. **CITA LA FONTE**: ${citationInstructions()}\n`;
+              knowledgeFooter += `3. Se un'informazione NON è presente negli excerpt, rispondi ESPLICITAMENTE:\n`;
+              knowledgeFooter += `   → "Questa informazione specifica non è presente nei documenti della knowledge base"\n`;
+              knowledgeFooter += `4. **NON INVENTARE MAI**:\n`;
+              knowledgeFooter += `   - Dati, numeri, percentuali non presenti nei chunk\n`;
+              knowledgeFooter += `   - Nomi, date, fonti non esplicitamente citati\n`;
+              knowledgeFooter += `   - Conclusioni non supportate dagli excerpt\n`;
+              knowledgeFooter += `5. Se la domanda copre PIÙ ARGOMENTI e solo ALCUNI sono presenti:\n`;
+              knowledgeFooter += `   - Rispondi per gli argomenti coperti con citazioni\n`;
+              knowledgeFooter += `   - Specifica esplicitamente quali argomenti NON sono coperti\n`;
+              knowledgeFooter += `6. **PRIORITÀ**: Precisione > Completezza. Meglio dire "non presente" che inventare\n\n`;
+              knowledgeFooter += `**ISTRUZIONI GENERALI**:\n`;
+              knowledgeFooter += `- Usa gli excerpt sopra per rispondere alla domanda dell'utente\n`;
+              knowledgeFooter += `- NON chiamare nuovamente il tool semantic_search - questo contenuto è stato caricato automaticamente\n`;
+              knowledgeFooter += `- I tool get_agent_knowledge e semantic_search sono disponibili SOLO per:\n`;
+              knowledgeFooter += `  * Interrogare la knowledge base di ALTRI agenti\n`;
+              knowledgeFooter += `  * Eseguire ricerche aggiuntive/di follow-up oltre questa ricerca automatica\n\n`;
               
             } else {
               console.log('ℹ️ [AUTO-SEARCH] No relevant content found in knowledge base');
@@ -4212,10 +4208,41 @@ The system has automatically executed a search based on your proposed query and
           // ============================================================================
           const toolsUsed: string[] = [];
           
+          // ============================================================================
+          // CONVERSATION MEMORY (rolling summary + long-term user facts)
+          // ============================================================================
+          let memoryContext = '';
+          if (memoryEnabled) {
+            try {
+              const memory = await buildMemoryContext(supabase, {
+                userId: conversation.user_id,
+                agentId: agent.id,
+                query: message,
+                // The summary covers messages cut from the history above, useless while nothing was cut
+                summary: cleanedMessages.length > truncatedMessages.length ? conversation.memory_summary : null,
+                openAIApiKey: Deno.env.get('OPENAI_API_KEY'),
+                usageContext,
+              });
+              memoryContext = memory.section;
+              if (memory.tokens > 0) {
+                console.log(`🧠 [REQ-${requestId}] Memory context: ~${memory.tokens} tokens, ${memory.memoryIds.length} user facts`);
+              }
+            } catch (memoryError) {
+              console.warn(`⚠️ [REQ-${requestId}] Memory context unavailable:`, memoryError);
+            }
+          }
+
           // ============================================================================
           // BASE SYSTEM PROMPT (NO TOOL INSTRUCTIONS)
           // ============================================================================
-          const baseSystemPrompt = `${agent.system_prompt}
+          // Sections in prompt order: the context assembler fits them into the window of the answering model
+          const contextSections: ContextSection[] = [
+            {
+              id: 'system',
+              label: 'System prompt',
+              priority: 1,
+              maxShare: 0.3,
+              content: `${agent.system_prompt}
 
 ## RESPONSE GUIDELINES
 
@@ -4226,13 +4253,18 @@ You are an expert AI assistant. When answering:
 - Keep responses under 500 words unless absolutely necessary
 - If information is not in context, state "Information not found"
 - Do NOT provide comprehensive breakdowns unless explicitly requested
-
-${knowledgeContext}${searchResultsContext}`;
-
-          // Add mention instruction if @agent tags were detected
-          let enhancedSystemPrompt = mentions.length > 0 
-            ? baseSystemPrompt + mentionInstruction
-            : baseSystemPrompt;
+`,
+            },
+            { id: 'memory', label: 'Memoria', priority: 4, maxShare: 0.1, content: memoryContext },
+            knowledgeItems.length > 0
+              ? { id: 'knowledge', label: 'Knowledge base', priority: 3, maxShare: 0.4, header: knowledgeContext, items: knowledgeItems, footer: knowledgeFooter }
+              : { id: 'knowledge', label: 'Knowledge base', priority: 3, maxShare: 0.4, content: knowledgeContext },
+            { id: 'search_results', label: 'Risultati ricerca PDF', priority: 2, maxShare: 0.1, content: searchResultsContext },
+            // Add mention instruction if @agent tags were detected
+            { id: 'mentions', label: 'Istruzioni @menzioni', priority: 1, maxShare: 0.05, content: mentions.length > 0 ? mentionInstruction : '' },
+          ];
+          // Assigned by the context assembler right before the LLM call
+          let enhancedSystemPrompt = '';
           
           // ============================================================
           // BROWSER_GET_DOM: Inject DOM result if present in request
@@ -4256,7 +4288,7 @@ IMPORTANT: You now have the DOM structure. Create your automation plan using bro
 DO NOT call browser_get_dom again - you already have the structure.
 Use the selectors and element descriptions above to create precise steps with dom_selector values.
 `;
-            enhancedSystemPrompt += domAddition;
+            contextSections.push({ id: 'dom', label: 'DOM browser', priority: 2, maxShare: 0.3, content: domAddition });
             console.log(`🌐 [REQ-${requestId}] DOM context injected (${domResult.dom_tree.length} chars)`);
           }
           
@@ -4357,41 +4389,56 @@ Data: ${JSON.stringify(toolServerResult.data || {})}
 `;
             }
             
-            enhancedSystemPrompt += resultContent;
+            contextSections.push({ id: 'tool_server', label: 'Risultato Tool Server', priority: 2, maxShare: 0.3, content: resultContent });
             console.log(`🔧 [REQ-${requestId}] Tool Server Result injected: ${toolServerResult.action} (${resultContent.length} chars)`);
           }
           
-          // 🤖 DIAGNOSTIC: Log context size before LLM call
-          console.log(`🤖 [REQ-${requestId}] Calling ${llmProvider} with ${enhancedSystemPrompt?.length || 0} chars context`);
 
           // Define tools for all agents (simplified - tools are now optional/secondary)
           let toolCallCount = 0; // Track tool calls for validation
           let lastExecutedToolName = ''; // Track last tool name for fallback message
           
-          const tools = [];
+          // ===== TOOLS: registry filtered by the agent allowlist (see _shared/toolRegistry.ts) =====
+          // Fetch lux_mode_config to determine which agent has which Lux tool
+          const { data: luxModeConfig } = await supabase
+            .from('lux_mode_config')
+            .select('lux_mode, agent_id');
           
-          // Add download_pdf tool only for knowledge-search-expert agents
-          if (agent.slug === 'knowledge-search-expert') {
-            tools.push({
-              name: 'download_pdf',
-              description: 'Downloads a PDF document from a URL and adds it to the document pool. Use this when you find relevant PDF documents that should be saved for later use.',
-              input_schema: {
-                type: 'object',
-                properties: {
-                  url: {
-                    type: 'string',
-                    description: 'The direct URL of the PDF file to download'
-                  },
-                  search_query: {
-                    type: 'string',
-                    description: 'The search query or context that led to finding this document'
-                  }
-                },
-                required: ['url']
+          // Create map: agent_id -> lux_mode
+          const luxModeMap = new Map<string, string>();
+          if (luxModeConfig) {
+            luxModeConfig.forEach((entry: { lux_mode: string; agent_id: string | null }) => {
+              if (entry.agent_id) {
+                luxModeMap.set(entry.agent_id, entry.lux_mode);
               }
             });
           }
           
+          // Check if current agent is configured for a Lux mode
+          const agentLuxMode = luxModeMap.get(agent.id);
+          console.log(`🔧 [REQ-${requestId}] Agent ${agent.slug} Lux mode: ${agentLuxMode || 'none'}`);
+          
+          const toolAllowlist = parseToolAllowlist(agent.tool_allowlist);
+          const approvalPolicy = parseToolAllowlist(agent.tool_approval_policy);
+          const pendingToolApprovals: PendingToolApproval[] = [];
+          const taskGraphIds: string[] = [];
+          const resolvedTools = resolveAgentTools({
+            agentSlug: agent.slug,
+            allowlist: toolAllowlist,
+            luxMode: agentLuxMode ?? null,
+          });
+          // Nested coordinators stop at maxDelegationDepth
+          if (currentDelegationDepth >= DEFAULT_TASK_GRAPH_LIMITS.maxDelegationDepth) {
+            resolvedTools.allowed.delete('delegate_task_graph');
+          }
+          const tools = resolvedTools.tools.filter(tool => resolvedTools.allowed.has(tool.name));
+          if (toolAllowlist) {
+            console.log(`🔐 [REQ-${requestId}] Tool allowlist: ${toolAllowlist.length > 0 ? toolAllowlist.join(', ') : '(none)'}`);
+          }
+          resolvedTools.skipped
+            .filter(s => s.reason === 'missing_secret' || s.reason === 'unknown_tool')
+            .forEach(s => console.warn(`⚠️ [REQ-${requestId}] Tool ${s.name} skipped: ${s.reason}`));
+          
           // ============= SHARED TOOL EXECUTION FUNCTION =============
           /**
            * Shared tool execution function for ALL LLM providers
@@ -4413,7 +4460,8 @@ Data: ${JSON.stringify(toolServerResult.data || {})}
               fullResponse: string,
               conversationState: any,
               req: Request
-            }
+            },
+            options: { approved?: boolean } = {}
           ): Promise<{
             toolResult: any,
             responseText: string,
@@ -4423,8 +4471,59 @@ Data: ${JSON.stringify(toolServerResult.data || {})}
             let responseText = '';
             let newFullResponse = context.fullResponse;
             
+            // 🔐 The model may still name a tool it was not offered (hallucinated or from history)
+            if (!resolvedTools.allowed.has(toolName)) {
+              console.warn(`🔐 [REQ-${context.requestId}] Tool ${toolName} blocked: not allowed for agent ${context.agent.slug}`);
+              toolResult = { error: `Tool ${toolName} is not allowed for this agent` };
+              return { toolResult, responseText, newFullResponse };
+            }
+            
+            // ⏸️ Approval gate: the call is stored as pending and NOT executed
+            if (!options.approved && toolNeedsApproval(toolName, approvalPolicy)) {
+              // Delegated runs (task graph nodes, ask_agent_to_perform_task) are non-streaming:
+              // no chat would show the approval, so the call is refused instead of held forever
+              if (currentDelegationDepth > 0) {
+                console.warn(`🔐 [REQ-${context.requestId}] Tool ${toolName} refused: needs approval inside a delegated run (depth ${currentDelegationDepth})`);
+                toolResult = {
+                  error: `Tool ${toolName} needs user approval, which is not available inside a delegated task. Complete the task without it, or say in your answer what the coordinator should ask the user to approve.`
+                };
+                return { toolResult, responseText, newFullResponse };
+              }
+              
+              try {
+                const pending = await requestToolApproval(context.supabase, {
+                  conversationId: context.conversation.id,
+                  messageId: placeholderMsg?.id ?? null,
+                  agentId: context.agent.id,
+                  userId: context.userId,
+                  toolName,
+                  toolInput: toolInput || {},
+                });
+                pendingToolApprovals.push(pending);
+                console.log(`⏸️ [REQ-${context.requestId}] Tool ${toolName} awaiting approval (${pending.approval_id})`);
+                
+                await context.sendSSE(JSON.stringify({ type: 'tool_approval_required', approval: pending }));
+                responseText = `⏸️ **In attesa di approvazione**: \`${toolName}\`\n`;
+                newFullResponse += responseText;
+                await context.sendSSE(JSON.stringify({ type: 'content', text: responseText }));
+                
+                toolResult = {
+                  status: 'pending_approval',
+                  approval_id: pending.approval_id,
+                  message: 'This call was NOT executed: it is waiting for the user to approve it in the chat. Briefly tell the user what the call will do and why, then stop. Do not call this tool again.'
+                };
+              } catch (error) {
+                console.error(`❌ [REQ-${context.requestId}] Approval request failed for ${toolName}:`, error);
+                toolResult = { error: `Tool ${toolName} needs user approval but the request could not be stored` };
+              }
+              return { toolResult, responseText, newFullResponse };
+            }
+            
+            // Dispatch on the registry handler key (allowed tools are always registered)
+            const handler = getToolDefinition(toolName)!.handler;
+            
             // ============= TOOL 1: get_agent_knowledge =============
-            if (toolName === 'get_agent_knowledge') {
+            if (handler === 'get_agent_knowledge') {
               console.log(`🛠️ [REQ-${context.requestId}] Tool called: get_agent_knowledge with input:`, JSON.stringify(toolInput));
               
               try {
@@ -4537,112 +4636,366 @@ Data: ${JSON.stringify(toolServerResult.data || {})}
               }
             }
             
-            // ============= TOOL 2: web_search =============
-            else if (toolName === 'web_search') {
-              console.log(`🛠️ [REQ-${context.requestId}] Tool called: web_search`);
-              console.log(`   Query: ${toolInput.query}`);
+            // ============= TOOL: list_other_agents =============
+            else if (handler === 'list_other_agents') {
+              console.log(`🛠️ [REQ-${context.requestId}] Tool called: list_other_agents`);
               
               try {
-                const SERP_API_KEY = Deno.env.get('SERP_API_KEY');
-                if (!SERP_API_KEY) throw new Error('SERP_API_KEY not configured');
-                
-                const serpUrl = `https://serpapi.com/search.json?q=${encodeURIComponent(toolInput.query)}&api_key=${SERP_API_KEY}&num=${toolInput.num_results || 5}`;
-                const serpResponse = await fetch(serpUrl);
-                const serpData = await serpResponse.json();
-                
-                const results = serpData.organic_results?.slice(0, toolInput.num_results || 5).map((r: any) => ({
-                  title: r.title,
-                  url: r.link,
-                  snippet: r.snippet
-                })) || [];
-                
-                toolResult = { results };
-                
-                responseText = `🔍 **Web Search Results** for "${toolInput.query}":\n\n`;
-                results.forEach((r: any, i: number) => {
-                  responseText += `${i + 1}. **${r.title}**\n   ${r.snippet}\n   🔗 ${r.url}\n\n`;
-                });
+                const { data: otherAgents, error: agentsError } = await context.supabase
+                  .from('agents')
+                  .select('name, slug, description')
+                  .eq('active', true)
+                  .neq('id', context.agent.id)
+                  .order('name');
+                if (agentsError) throw agentsError;
                 
+                toolResult = { success: true, total_agents: otherAgents?.length || 0, agents: otherAgents || [] };
+                responseText = `🤖 **Agenti disponibili**: ${otherAgents?.length || 0}\n`;
                 newFullResponse += responseText;
                 await context.sendSSE(JSON.stringify({ type: 'content', text: responseText }));
                 
               } catch (error) {
-                console.error('❌ Error in web_search:', error);
-                toolResult = { error: 'Web search failed' };
+                console.error('❌ Error in list_other_agents:', error);
+                toolResult = { error: 'Failed to list agents', success: false };
               }
             }
             
-            // ============= TOOL 3: download_pdf =============
-            else if (toolName === 'download_pdf') {
-              console.log(`🛠️ [REQ-${context.requestId}] Tool called: download_pdf`);
-              console.log(`   URL: ${toolInput.url}`);
+            // ============= TOOL: get_agent_prompt =============
+            else if (handler === 'get_agent_prompt') {
+              console.log(`🛠️ [REQ-${context.requestId}] Tool called: get_agent_prompt for "${toolInput.agent_name}"`);
               
-              try {
-                const { data: downloadData, error: downloadError } = await context.supabase.functions.invoke('download-pdf-tool', {
-                  body: {
-                    url: toolInput.url,
-                    expectedTitle: toolInput.expected_title,
-                    expectedAuthor: toolInput.expected_author,
-                    agentId: context.agent.id,
-                    conversationId: context.conversation.id,
-                    searchQuery: toolInput.search_query || ''
-                  }
-                });
-                
-                if (downloadError) throw downloadError;
-                
-                toolResult = downloadData;
-                responseText = `✅ PDF downloaded successfully\n`;
+              const targetAgent = await findActiveAgent(context.supabase, toolInput.agent_name);
+              if (!targetAgent) {
+                toolResult = { error: `Agent "${toolInput.agent_name}" non trovato`, success: false };
+              } else {
+                toolResult = {
+                  success: true,
+                  agent: { name: targetAgent.name, slug: targetAgent.slug, description: targetAgent.description },
+                  system_prompt: targetAgent.system_prompt
+                };
+                responseText = `📄 Prompt di **${targetAgent.name}** letto\n`;
                 newFullResponse += responseText;
                 await context.sendSSE(JSON.stringify({ type: 'content', text: responseText }));
-                
-              } catch (error) {
-                console.error('❌ Error in download_pdf:', error);
-                toolResult = { error: 'PDF download failed' };
               }
             }
             
-            // ============= TOOL 4: semantic_search =============
-            else if (toolName === 'semantic_search') {
-              console.log(`🔍 [REQ-${context.requestId}] Tool called: semantic_search with query: "${toolInput.query}"`);
+            // ============= TOOL: get_agent_chat_history =============
+            else if (handler === 'get_agent_chat_history') {
+              console.log(`🛠️ [REQ-${context.requestId}] Tool called: get_agent_chat_history for "${toolInput.agent_name}"`);
               
               try {
-                const topK = toolInput.topK || 5;
-                console.log(`   TopK: ${topK}`);
-                
-                // Call the semantic-search edge function
-                const { data: searchResults, error: searchError } = await context.supabase.functions.invoke('semantic-search', {
-                  body: {
-                    query: toolInput.query,
-                    agentId: context.agent.id,
-                    topK: Math.min(topK, 10) // Max 10 chunks
-                  }
-                });
-                
-                const results = Array.isArray(searchResults) ? searchResults : searchResults?.documents || [];
-                
-                if (searchError) {
-                  console.error(`❌ Semantic search error:`, searchError);
-                  toolResult = { error: 'Failed to search knowledge base', success: false };
-                  responseText = `❌ Errore nella ricerca: ${searchError.message}\n`;
-                } else if (results.length === 0) {
-                  console.log(`⚠️ No results found for query: "${toolInput.query}"`);
-                  toolResult = { results: [], count: 0, success: true };
-                  responseText = `ℹ️ Nessun risultato trovato per "${toolInput.query}".\n`;
+                const targetAgent = await findActiveAgent(context.supabase, toolInput.agent_name);
+                if (!targetAgent) {
+                  toolResult = { error: `Agent "${toolInput.agent_name}" non trovato`, success: false };
                 } else {
-                  console.log(`✅ Found ${results.length} relevant chunks`);
-                  results.forEach((r: any, i: number) => {
-                    console.log(`   ${i + 1}. ${r.document_name} (similarity: ${r.similarity?.toFixed(3)})`);
-                  });
+                  const limit = Math.min(Math.max(Number(toolInput.limit) || 50, 1), 200);
+                  const { data: conversations } = await context.supabase
+                    .from('agent_conversations')
+                    .select('id')
+                    .eq('user_id', context.userId)
+                    .eq('agent_id', targetAgent.id);
+                  const conversationIds = (conversations || []).map((c: { id: string }) => c.id);
                   
-                  toolResult = {
-                    results: results.map((r: any) => ({
-                      document_name: r.document_name,
-                      content: r.content,
+                  let history: { role: string; content: string; created_at: string | null }[] = [];
+                  if (conversationIds.length > 0) {
+                    const { data: rows, error: historyError } = await context.supabase
+                      .from('agent_messages')
+                      .select('role, content, created_at')
+                      .in('conversation_id', conversationIds)
+                      .order('created_at', { ascending: false })
+                      .limit(limit);
+                    if (historyError) throw historyError;
+                    history = (rows || []).reverse();
+                  }
+                  
+                  toolResult = { success: true, agent: targetAgent.slug, total_messages: history.length, messages: history };
+                  responseText = `💬 Cronologia con **${targetAgent.name}**: ${history.length} messaggi\n`;
+                  newFullResponse += responseText;
+                  await context.sendSSE(JSON.stringify({ type: 'content', text: responseText }));
+                }
+              } catch (error) {
+                console.error('❌ Error in get_agent_chat_history:', error);
+                toolResult = { error: 'Failed to retrieve chat history', success: false };
+              }
+            }
+            
+            // ============= TOOL: consult_agent_full_knowledge =============
+            else if (handler === 'consult_agent_full_knowledge') {
+              console.log(`🛠️ [REQ-${context.requestId}] Tool called: consult_agent_full_knowledge for "${toolInput.agent_name}"`);
+              
+              try {
+                const targetAgent = await findActiveAgent(context.supabase, toolInput.agent_name);
+                if (!targetAgent) {
+                  toolResult = { error: `Agent "${toolInput.agent_name}" non trovato`, success: false };
+                } else {
+                  const maxChunks = Math.min(Math.max(Number(toolInput.max_chunks) || 100, 1), 500);
+                  
+                  // Same sources as get_distinct_documents: direct uploads + synced pool documents
+                  const { data: links } = await context.supabase
+                    .from('agent_document_links')
+                    .select('document_id')
+                    .eq('agent_id', targetAgent.id)
+                    .eq('sync_status', 'completed');
+                  const poolIds = (links || []).map((l: { document_id: string }) => l.document_id);
+                  
+                  let chunkQuery = context.supabase
+                    .from('agent_knowledge')
+                    .select('document_name, content')
+                    .eq('is_active', true);
+                  chunkQuery = poolIds.length > 0
+                    ? chunkQuery.or(`agent_id.eq.${targetAgent.id},and(agent_id.is.null,pool_document_id.in.(${poolIds.join(',')}))`)
+                    : chunkQuery.eq('agent_id', targetAgent.id);
+                  const { data: chunks, error: chunksError } = await chunkQuery
+                    .order('document_name')
+                    .limit(maxChunks);
+                  if (chunksError) throw chunksError;
+                  
+                  const documents = new Set((chunks || []).map((c: { document_name: string }) => c.document_name));
+                  toolResult = {
+                    success: true,
+                    agent: targetAgent.slug,
+                    total_documents: documents.size,
+                    total_chunks: chunks?.length || 0,
+                    truncated: (chunks?.length || 0) >= maxChunks,
+                    chunks: chunks || []
+                  };
+                  responseText = `📚 Knowledge di **${targetAgent.name}**: ${chunks?.length || 0} chunk da ${documents.size} documenti\n`;
+                  newFullResponse += responseText;
+                  await context.sendSSE(JSON.stringify({ type: 'content', text: responseText }));
+                }
+              } catch (error) {
+                console.error('❌ Error in consult_agent_full_knowledge:', error);
+                toolResult = { error: 'Failed to retrieve knowledge', success: false };
+              }
+            }
+            
+            // ============= TOOL: ask_agent_to_perform_task =============
+            else if (handler === 'ask_agent_to_perform_task') {
+              console.log(`🛠️ [REQ-${context.requestId}] Tool called: ask_agent_to_perform_task → "${toolInput.agent_name}"`);
+              
+              try {
+                const targetAgent = await findActiveAgent(context.supabase, toolInput.agent_name);
+                const chain = [...currentDelegationChain, context.agent.slug];
+                if (!targetAgent) throw new Error(`Agent "${toolInput.agent_name}" non trovato`);
+                if (chain.includes(targetAgent.slug)) {
+                  throw new Error(`@${targetAgent.slug} is already in the delegation chain (${chain.join(' → ')})`);
+                }
+                if (currentDelegationDepth >= DEFAULT_TASK_GRAPH_LIMITS.maxDelegationDepth) {
+                  throw new Error(`Delegation depth limit reached (${DEFAULT_TASK_GRAPH_LIMITS.maxDelegationDepth})`);
+                }
+                
+                const task = String(toolInput.task_description || '');
+                const message = toolInput.context_information
+                  ? `${task}\n\n---\nContesto:\n${toolInput.context_information}`
+                  : task;
+                
+                responseText = `🤝 Chiedo a **${targetAgent.name}**...\n`;
+                newFullResponse += responseText;
+                await context.sendSSE(JSON.stringify({ type: 'content', text: responseText }));
+                
+                const { data: consultedConversation, error: convError } = await context.supabase
+                  .from('agent_conversations')
+                  .insert({ user_id: context.userId, agent_id: targetAgent.id, title: `🤝 ${context.agent.name}: ${task.slice(0, 60)}` })
+                  .select('id')
+                  .single();
+                if (convError || !consultedConversation) throw new Error(`Failed to create conversation for @${targetAgent.slug}`);
+                
+                const { data: consultResponse, error: consultError } = await context.supabase.functions.invoke('agent-chat', {
+                  body: {
+                    conversationId: consultedConversation.id,
+                    message,
+                    agentSlug: targetAgent.slug,
+                    skipSystemValidation: true,
+                    stream: false,
+                    delegationDepth: currentDelegationDepth + 1,
+                    delegationChain: chain
+                  },
+                  headers: {
+                    Authorization: context.req.headers.get('authorization') || ''
+                  }
+                });
+                if (consultError) throw consultError;
+                
+                const answer = typeof consultResponse?.response === 'string' ? consultResponse.response : '';
+                if (!answer.trim()) throw new Error(`Empty response from @${targetAgent.slug}`);
+                
+                await context.supabase
+                  .from('inter_agent_messages')
+                  .insert({
+                    requesting_agent_id: context.agent.id,
+                    consulted_agent_id: targetAgent.id,
+                    context_conversation_id: context.conversation.id,
+                    question: task,
+                    answer
+                  });
+                
+                toolResult = { success: true, agent: targetAgent.slug, response: answer };
+                responseText = `✅ **${targetAgent.name}** ha risposto\n`;
+                newFullResponse += responseText;
+                await context.sendSSE(JSON.stringify({ type: 'content', text: responseText }));
+                
+              } catch (error) {
+                console.error('❌ Error in ask_agent_to_perform_task:', error);
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                toolResult = { error: errorMessage, success: false };
+                responseText = `❌ Consultazione fallita: ${errorMessage}\n`;
+                newFullResponse += responseText;
+                await context.sendSSE(JSON.stringify({ type: 'content', text: responseText }));
+              }
+            }
+            
+            // ============= TOOL: update_agent_system_prompt =============
+            else if (handler === 'update_agent_system_prompt') {
+              console.log(`🛠️ [REQ-${context.requestId}] Tool called: update_agent_system_prompt for "${toolInput.agent_name}"`);
+              
+              try {
+                const targetAgent = await findActiveAgent(context.supabase, toolInput.agent_name);
+                if (!targetAgent) throw new Error(`Agent "${toolInput.agent_name}" non trovato`);
+                if (!toolInput.new_system_prompt || typeof toolInput.new_system_prompt !== 'string') {
+                  throw new Error('new_system_prompt is required');
+                }
+                
+                // Same path as the UI: keeps agent_prompt_history versions
+                const { data: updateResult, error: updateError } = await context.supabase.functions.invoke('update-agent-prompt', {
+                  body: {
+                    agentSlugOrId: targetAgent.id,
+                    newSystemPrompt: toolInput.new_system_prompt,
+                    updatedBy: context.userId
+                  }
+                });
+                if (updateError) throw updateError;
+                if (updateResult?.success === false) throw new Error(updateResult.error || 'Prompt update failed');
+                
+                toolResult = { success: true, agent: targetAgent.slug, version: updateResult?.versionNumber ?? null };
+                responseText = `✏️ Prompt di **${targetAgent.name}** aggiornato\n`;
+                newFullResponse += responseText;
+                await context.sendSSE(JSON.stringify({ type: 'content', text: responseText }));
+                
+              } catch (error) {
+                console.error('❌ Error in update_agent_system_prompt:', error);
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                toolResult = { error: errorMessage, success: false };
+                responseText = `❌ Aggiornamento prompt fallito: ${errorMessage}\n`;
+                newFullResponse += responseText;
+                await context.sendSSE(JSON.stringify({ type: 'content', text: responseText }));
+              }
+            }
+            
+            // ============= TOOL 2: web_search =============
+            else if (handler === 'web_search') {
+              console.log(`🛠️ [REQ-${context.requestId}] Tool called: web_search`);
+              console.log(`   Query: ${toolInput.query}`);
+              
+              try {
+                const SERP_API_KEY = Deno.env.get('SERP_API_KEY');
+                if (!SERP_API_KEY) throw new Error('SERP_API_KEY not configured');
+                
+                const serpUrl = `https://serpapi.com/search.json?q=${encodeURIComponent(toolInput.query)}&api_key=${SERP_API_KEY}&num=${toolInput.num_results || 5}`;
+                const serpResponse = await fetch(serpUrl);
+                const serpData = await serpResponse.json();
+                
+                const results = serpData.organic_results?.slice(0, toolInput.num_results || 5).map((r: any) => ({
+                  title: r.title,
+                  url: r.link,
+                  snippet: r.snippet
+                })) || [];
+                
+                toolResult = { results };
+                
+                responseText = `🔍 **Web Search Results** for "${toolInput.query}":\n\n`;
+                results.forEach((r: any, i: number) => {
+                  responseText += `${i + 1}. **${r.title}**\n   ${r.snippet}\n   🔗 ${r.url}\n\n`;
+                });
+                
+                newFullResponse += responseText;
+                await context.sendSSE(JSON.stringify({ type: 'content', text: responseText }));
+                
+              } catch (error) {
+                console.error('❌ Error in web_search:', error);
+                toolResult = { error: 'Web search failed' };
+              }
+            }
+            
+            // ============= TOOL 3: download_pdf =============
+            else if (handler === 'download_pdf') {
+              console.log(`🛠️ [REQ-${context.requestId}] Tool called: download_pdf`);
+              console.log(`   URL: ${toolInput.url}`);
+              
+              try {
+                const { data: downloadData, error: downloadError } = await context.supabase.functions.invoke('download-pdf-tool', {
+                  body: {
+                    url: toolInput.url,
+                    expectedTitle: toolInput.expected_title,
+                    expectedAuthor: toolInput.expected_author,
+                    agentId: context.agent.id,
+                    conversationId: context.conversation.id,
+                    searchQuery: toolInput.search_query || ''
+                  }
+                });
+                
+                if (downloadError) throw downloadError;
+                
+                toolResult = downloadData;
+                responseText = `✅ PDF downloaded successfully\n`;
+                newFullResponse += responseText;
+                await context.sendSSE(JSON.stringify({ type: 'content', text: responseText }));
+                
+              } catch (error) {
+                console.error('❌ Error in download_pdf:', error);
+                toolResult = { error: 'PDF download failed' };
+              }
+            }
+            
+            // ============= TOOL 4: semantic_search =============
+            else if (handler === 'semantic_search') {
+              console.log(`🔍 [REQ-${context.requestId}] Tool called: semantic_search with query: "${toolInput.query}"`);
+              
+              try {
+                const topK = toolInput.topK || 5;
+                console.log(`   TopK: ${topK}`);
+                
+                // Call the semantic-search edge function
+                const { data: searchResults, error: searchError } = await context.supabase.functions.invoke('semantic-search', {
+                  body: {
+                    query: toolInput.query,
+                    agentId: context.agent.id,
+                    topK: Math.min(topK, 10), // Max 10 chunks
+                    conversationId: context.conversation.id,
+                    benchmarkRunId: benchmarkRunId || null
+                  }
+                });
+                
+                const results = Array.isArray(searchResults) ? searchResults : searchResults?.documents || [];
+                const rerankerUsed = searchResults?.reranker?.name || null;
+                
+                if (searchError) {
+                  console.error(`❌ Semantic search error:`, searchError);
+                  toolResult = { error: 'Failed to search knowledge base', success: false };
+                  responseText = `❌ Errore nella ricerca: ${searchError.message}\n`;
+                } else if (results.length === 0) {
+                  console.log(`⚠️ No results found for query: "${toolInput.query}"`);
+                  toolResult = { results: [], count: 0, success: true };
+                  responseText = `ℹ️ Nessun risultato trovato per "${toolInput.query}".\n`;
+                } else {
+                  console.log(`✅ Found ${results.length} relevant chunks`);
+                  results.forEach((r: any, i: number) => {
+                    console.log(`   ${i + 1}. ${r.document_name} (similarity: ${r.similarity?.toFixed(3)})`);
+                    const citable = toCitableChunk(r);
+                    if (citable) citableChunks.set(citable.citation_id, citable);
+                  });
+                  
+                  toolResult = {
+                    results: results.map((r: any) => ({
+                      citation_id: r.citation_id,
+                      document_name: r.document_name,
+                      content: r.content,
                       category: r.category,
-                      similarity: r.similarity
+                      pipeline_source: r.pipeline_source,
+                      similarity: r.similarity,
+                      fused_score: r.fused_score
                     })),
                     count: results.length,
+                    reranker: rerankerUsed,
                     success: true
                   };
                   
@@ -4665,7 +5018,7 @@ Data: ${JSON.stringify(toolServerResult.data || {})}
             }
             
             // ============= TOOL 5: web_scrape =============
-            else if (toolName === 'web_scrape') {
+            else if (handler === 'web_scrape') {
               console.log(`🛠️ [REQ-${context.requestId}] Tool called: web_scrape`);
               
               try {
@@ -4686,32 +5039,8 @@ Data: ${JSON.stringify(toolServerResult.data || {})}
               }
             }
             
-            // ============= TOOL 6: airtop_browser_automation =============
-            else if (toolName === 'airtop_browser_automation') {
-              console.log(`🛠️ [REQ-${context.requestId}] Tool called: airtop_browser_automation`);
-              
-              try {
-                const { data: airtopData, error: airtopError } = await context.supabase.functions.invoke('airtop-browser-automation', {
-                  body: { task: toolInput.task }
-                });
-                
-                if (airtopError) throw airtopError;
-                
-                toolResult = airtopData;
-                responseText = `✅ Browser automation completed\n`;
-                newFullResponse += responseText;
-                await context.sendSSE(JSON.stringify({ type: 'content', text: responseText }));
-                
-              } catch (error) {
-                console.error('❌ Error in airtop_browser_automation:', error);
-                toolResult = { error: 'Browser automation failed' };
-              }
-            }
-            
             // ============= TOOL 6-12: Book Search Expert Tools =============
-            else if (toolName === 'search_pdf_with_query' || 
-                     toolName === 'search_and_acquire_pdfs' ||
-                     toolName === 'propose_pdf_search_query') {
+            else if (handler === 'pdf_search') {
               console.log(`🛠️ [REQ-${context.requestId}] Tool called: ${toolName} (Book Search Expert)`);
               
               // These tools have complex logic handled in dedicated edge functions
@@ -4727,7 +5056,7 @@ Data: ${JSON.stringify(toolServerResult.data || {})}
             }
             
             // ============= TOOL: create_actor_task =============
-            else if (toolName === 'create_actor_task') {
+            else if (handler === 'create_actor_task') {
               console.log(`🛠️ [REQ-${context.requestId}] Tool called: create_actor_task`);
               
               try {
@@ -4811,7 +5140,7 @@ Il task apparirà automaticamente e Lux Actor lo eseguirà direttamente.`;
             }
             
             // ============= TOOL: create_thinker_task =============
-            else if (toolName === 'create_thinker_task') {
+            else if (handler === 'create_thinker_task') {
               console.log(`🛠️ [REQ-${context.requestId}] Tool called: create_thinker_task`);
               
               try {
@@ -4896,7 +5225,7 @@ Il task apparirà automaticamente e Lux Thinker lo eseguirà con ragionamento au
             }
             
             // ============= TOOL: create_tasker_task =============
-            else if (toolName === 'create_tasker_task') {
+            else if (handler === 'create_tasker_task') {
               console.log(`🛠️ [REQ-${context.requestId}] Tool called: create_tasker_task`);
               
               // Helper: Format Lux Instruction (deterministic parser)
@@ -5026,7 +5355,7 @@ TaskerAgent eseguirà ogni step in sequenza con auto-correzione.`;
             }
             
             // ============= TOOL: github_read_file =============
-            else if (toolName === 'github_read_file') {
+            else if (handler === 'github_read_file') {
               console.log(`🛠️ [REQ-${context.requestId}] Tool called: github_read_file`);
               console.log(`   Repo: ${toolInput.owner}/${toolInput.repo}, Path: ${toolInput.path}`);
               
@@ -5064,7 +5393,7 @@ TaskerAgent eseguirà ogni step in sequenza con auto-correzione.`;
             }
             
             // ============= TOOL: github_write_file =============
-            else if (toolName === 'github_write_file') {
+            else if (handler === 'github_write_file') {
               console.log(`🛠️ [REQ-${context.requestId}] Tool called: github_write_file`);
               console.log(`   Repo: ${toolInput.owner}/${toolInput.repo}, Path: ${toolInput.path}`);
               
@@ -5104,7 +5433,7 @@ TaskerAgent eseguirà ogni step in sequenza con auto-correzione.`;
             }
             
             // ============= TOOL: github_list_files =============
-            else if (toolName === 'github_list_files') {
+            else if (handler === 'github_list_files') {
               console.log(`🛠️ [REQ-${context.requestId}] Tool called: github_list_files`);
               console.log(`   Repo: ${toolInput.owner}/${toolInput.repo}, Path: ${toolInput.path || '/'}`);
               
@@ -5142,7 +5471,7 @@ TaskerAgent eseguirà ogni step in sequenza con auto-correzione.`;
             }
             
             // ============= TOOL: github_create_branch =============
-            else if (toolName === 'github_create_branch') {
+            else if (handler === 'github_create_branch') {
               console.log(`🛠️ [REQ-${context.requestId}] Tool called: github_create_branch`);
               console.log(`   Repo: ${toolInput.owner}/${toolInput.repo}, Branch: ${toolInput.newBranch}`);
               
@@ -5180,7 +5509,7 @@ TaskerAgent eseguirà ogni step in sequenza con auto-correzione.`;
             }
             
             // ============= TOOL: github_create_pr =============
-            else if (toolName === 'github_create_pr') {
+            else if (handler === 'github_create_pr') {
               console.log(`🛠️ [REQ-${context.requestId}] Tool called: github_create_pr`);
               console.log(`   Repo: ${toolInput.owner}/${toolInput.repo}, PR: ${toolInput.head} → ${toolInput.base || 'main'}`);
               
@@ -5220,7 +5549,7 @@ TaskerAgent eseguirà ogni step in sequenza con auto-correzione.`;
             }
             
             // ============= TOOL: tool_server_action =============
-            else if (toolName === 'tool_server_action') {
+            else if (handler === 'tool_server_action') {
               console.log(`🔧 [REQ-${context.requestId}] Tool: tool_server_action - ${toolInput.action}`);
 
               const command: Record<string, unknown> = {
@@ -5395,7 +5724,7 @@ TaskerAgent eseguirà ogni step in sequenza con auto-correzione.`;
             }
 
             // ============= TOOL: browser_get_dom =============
-            else if (toolName === 'browser_get_dom') {
+            else if (handler === 'browser_get_dom') {
               console.log(`🌐 [REQ-${context.requestId}] Tool: browser_get_dom - ${toolInput.url}`);
 
               const url = toolInput.url;
@@ -5428,7 +5757,7 @@ TaskerAgent eseguirà ogni step in sequenza con auto-correzione.`;
             }
 
             // ============= TOOL: lux_actor_vision =============
-            else if (toolName === 'lux_actor_vision') {
+            else if (handler === 'lux_actor_vision') {
               console.log(`👁️ [REQ-${context.requestId}] Tool: lux_actor_vision - "${toolInput.target}"`);
 
               try {
@@ -5468,7 +5797,7 @@ TaskerAgent eseguirà ogni step in sequenza con auto-correzione.`;
             }
 
             // ============= TOOL: gemini_computer_use =============
-            else if (toolName === 'gemini_computer_use') {
+            else if (handler === 'gemini_computer_use') {
               console.log(`🔮 [REQ-${context.requestId}] Tool: gemini_computer_use - "${toolInput.target}"`);
 
               try {
@@ -5515,7 +5844,7 @@ Respond ONLY with valid JSON: {"x": number, "y": number, "confidence": 0.0-1.0,
             // ============= TOOL: browser_orchestrator =============
             // NOTE: This tool now receives a PRE-BUILT plan from the Agent (which has KB).
             // No more Planner LLM call - just validate and forward to frontend.
-            else if (toolName === 'browser_orchestrator') {
+            else if (handler === 'browser_orchestrator') {
               console.log(`🤖 [REQ-${context.requestId}] Tool: browser_orchestrator - Executing pre-built plan`);
 
               try {
@@ -5539,7 +5868,14 @@ Respond ONLY with valid JSON: {"x": number, "y": number, "confidence": 0.0-1.0,
                 }
                 
                 // Validate each step
-                const validActions = ['click', 'type', 'scroll', 'keypress', 'wait', 'navigate'];
+                const validActions = ['click', 'type', 'scroll', 'keypress', 'wait', 'navigate', 'assert'];
+                const validAssertions = ['element_visible', 'text_visible', 'url', 'title'];
+                const checkAssertion = (assertion: unknown, where: string) => {
+                  const type = assertion && typeof assertion === 'object' ? (assertion as { type?: unknown }).type : undefined;
+                  if (typeof type !== 'string' || !validAssertions.includes(type)) {
+                    throw new Error(`Invalid assertion in ${where}. Valid types: ${validAssertions.join(', ')}`);
+                  }
+                };
                 for (const step of plan.steps) {
                   if (!step.action_type || !step.target_description) {
                     throw new Error(`Invalid step ${step.step_number || '?'}: missing action_type or target_description`);
@@ -5547,6 +5883,15 @@ Respond ONLY with valid JSON: {"x": number, "y": number, "confidence": 0.0-1.0,
                   if (!validActions.includes(step.action_type)) {
                     throw new Error(`Invalid action_type "${step.action_type}" in step ${step.step_number || '?'}. Valid: ${validActions.join(', ')}`);
                   }
+                  if (step.action_type === 'assert') {
+                    checkAssertion(step.assertion, `step ${step.step_number || '?'}`);
+                  }
+                }
+                if (plan.success_assertions !== undefined) {
+                  if (!Array.isArray(plan.success_assertions)) {
+                    throw new Error('Invalid plan: "success_assertions" must be an array');
+                  }
+                  plan.success_assertions.forEach((assertion: unknown, i: number) => checkAssertion(assertion, `success_assertions[${i}]`));
                 }
                 
                 // ========== BUILD RESPONSE ==========
@@ -5562,6 +5907,9 @@ Respond ONLY with valid JSON: {"x": number, "y": number, "confidence": 0.0-1.0,
                   if (step.input_value) responseText += ` → "${step.input_value}"`;
                   responseText += `\n`;
                 });
+                if (plan.success_assertions?.length) {
+                  responseText += `✅ Criteri di successo: ${plan.success_assertions.length} asserzioni\n`;
+                }
                 
                 responseText += `\n⏳ Esecuzione locale in corso...\n`;
                 newFullResponse += responseText;
@@ -5604,752 +5952,282 @@ Respond ONLY with valid JSON: {"x": number, "y": number, "confidence": 0.0-1.0,
               }
             }
             
-            // ============= FALLBACK: Unknown Tool =============
-            else {
-              console.warn(`⚠️ [REQ-${context.requestId}] Unknown tool: ${toolName}`);
-              toolResult = { error: `Unknown tool: ${toolName}` };
-            }
-            
-            return { toolResult, responseText, newFullResponse };
-          }
-          
-          // Add PDF search tools for both Book Search Expert agents
-          if (agent.slug === 'book-search-expert-copy' || agent.slug === 'book-serach-expert') {
-            // Tool: Execute search query (will auto-add " PDF")
-            tools.push({
-              name: 'search_pdf_with_query',
-              description: 'Esegue una ricerca PDF con una query specifica SENZA scaricare i PDF. Mostra solo i risultati. La query usata è ESATTAMENTE quella approvata dall\'utente. Usa questo DOPO che l\'utente ha approvato una query proposta da propose_pdf_search_query.',
-              input_schema: {
-                type: 'object',
-                properties: {
-                  searchQuery: {
-                    type: 'string',
-                    description: 'La query di ricerca COMPLETA E FINALE che verrà usata per cercare (es: "LLM Prompt Engineering" PDF). Questa è la query ESATTA che verrà inviata a Google.'
-                  },
-                  maxResults: {
-                    type: 'number',
-                    description: 'Numero massimo di risultati da trovare (default: 5, max: 10)',
-                    default: 5
-                  }
-                },
-                required: ['searchQuery']
-              }
-            });
-            
-            // Tool 3: Download approved PDFs
-            tools.push({
-              name: 'search_and_acquire_pdfs',
-              description: 'Scarica e valida PDF già trovati e approvati dall\'utente. Il download avviene in BACKGROUND. Usa questo DOPO che l\'utente ha confermato di voler scaricare i risultati di search_pdf_with_query.',
-              input_schema: {
-                type: 'object',
-                properties: {
-                  pdfsToDownload: {
-                    type: 'array',
-                    description: 'Lista di PDF da scaricare (già trovati e approvati dall\'utente)',
-                    items: {
-                      type: 'object',
-                      properties: {
-                        title: { 
-                          type: 'string',
-                          description: 'Titolo del PDF'
-                        },
-                        url: { 
-                          type: 'string',
-                          description: 'URL del PDF'
-                        },
-                        source: { 
-                          type: 'string',
-                          description: 'Dominio sorgente del PDF'
-                        }
-                      },
-                      required: ['title', 'url', 'source']
-                    }
-                  }
-                },
-                required: ['pdfsToDownload']
-              }
-            });
-          }
-          
-          // Add collaboration tools for all agents
-          tools.push({
-            name: 'web_search',
-            description: 'Search the internet for information using Google Custom Search. Use this when the user asks you to search for current information, news, articles, or any web content. Returns a list of search results with titles, URLs, and snippets.',
-            input_schema: {
-              type: 'object',
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'The search query to send to Google. Be specific and use relevant keywords.'
-                },
-                num_results: {
-                  type: 'number',
-                  description: 'Number of results to return (1-10, default 5)',
-                  default: 5
-                },
-                scrape_results: {
-                  type: 'boolean',
-                  description: 'Whether to scrape full content from each result (default false)',
-                  default: false
-                }
-              },
-              required: ['query']
-            }
-          });
-          
-          tools.push({
-            name: 'web_scrape',
-            description: 'Scrape content from a specific web page URL. Returns both HTML and cleaned text content. Use this when you need to extract detailed information from a particular website.',
-            input_schema: {
-              type: 'object',
-              properties: {
-                url: {
-                  type: 'string',
-                  description: 'The URL of the web page to scrape'
-                },
-                render_js: {
-                  type: 'boolean',
-                  description: 'Whether to render JavaScript on the page (default true)',
-                  default: true
-                },
-                block_ads: {
-                  type: 'boolean',
-                  description: 'Whether to block ads (default true)',
-                  default: true
-                }
-              },
-              required: ['url']
-            }
-          });
-          
-          tools.push({
-            name: 'list_other_agents',
-            description: 'Get a list of all available agents in the system. Use this when the user asks about other agents or when you need to know what agents are available for consultation.',
-            input_schema: {
-              type: 'object',
-              properties: {},
-              required: []
-            }
-          });
-          
-          tools.push({
-            name: 'get_agent_prompt',
-            description: 'Get the system prompt of another agent. Use this when the user asks about what another agent does or what instructions it follows.',
-            input_schema: {
-              type: 'object',
-              properties: {
-                agent_name: {
-                  type: 'string',
-                  description: 'The name or slug of the agent whose prompt you want to retrieve'
-                }
-              },
-              required: ['agent_name']
-            }
-          });
-          
-          tools.push({
-            name: 'get_agent_knowledge',
-            description: '📋 Get document titles list. NOTE: Usually auto-executed by the system. Use ONLY if user explicitly asks about ANOTHER agent\'s documents (e.g., "what documents does Agent X have?").',
-            input_schema: {
-              type: 'object',
-              properties: {
-                agent_name: {
-                  type: 'string',
-                  description: 'Name or slug of another agent whose documents you want to list'
-                }
-              },
-              required: ['agent_name']
-            }
-          });
-          
-          tools.push({
-            name: 'semantic_search',
-            description: '📖 Search document content. NOTE: Usually auto-executed by the system. Use ONLY if you need ADDITIONAL searches beyond what was auto-retrieved, or for follow-up questions requiring different search terms.',
-            input_schema: {
-              type: 'object',
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'Additional search query for follow-up information'
-                },
-                topK: {
-                  type: 'number',
-                  description: 'Number of results (default 5)',
-                  default: 5
-                }
-              },
-              required: ['query']
-            }
-          });
-          
-          tools.push({
-            name: 'get_agent_chat_history',
-            description: 'Get the chat history of another agent with the current user. Use this when the user asks what they discussed with another agent.',
-            input_schema: {
-              type: 'object',
-              properties: {
-                agent_name: {
-                  type: 'string',
-                  description: 'The name or slug of the agent whose chat history you want to view'
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of messages to retrieve (default 50)',
-                  default: 50
-                }
-              },
-              required: ['agent_name']
-            }
-          });
-          
-          tools.push({
-            name: 'consult_agent_full_knowledge',
-            description: 'Get the COMPLETE content of all documents in another agent\'s knowledge base. This retrieves ALL text chunks from all documents, allowing you to understand the full context of what an agent knows. Use this when you need to deeply understand another agent\'s knowledge before making decisions or writing prompts for them. WARNING: This can return a lot of data, use only when you need full knowledge access.',
-            input_schema: {
-              type: 'object',
-              properties: {
-                agent_name: {
-                  type: 'string',
-                  description: 'The name or slug of the agent whose full knowledge base you want to access'
-                },
-                max_chunks: {
-                  type: 'number',
-                  description: 'Maximum number of knowledge chunks to retrieve (default 100, max 500)',
-                  default: 100
-                }
-              },
-              required: ['agent_name']
-            }
-          });
-          
-          tools.push({
-            name: 'ask_agent_to_perform_task',
-            description: 'Ask another agent to perform a specific task and get their response. This creates a direct communication between agents. Use this when you need another agent to do something for you (e.g., ask the Prompt Expert to write a prompt, ask a specialist to analyze something). The other agent will receive your request and respond based on their expertise and knowledge.',
-            input_schema: {
-              type: 'object',
-              properties: {
-                agent_name: {
-                  type: 'string',
-                  description: 'The name or slug of the agent you want to ask'
-                },
-                task_description: {
-                  type: 'string',
-                  description: 'A clear description of what you want the agent to do. Be specific and provide all necessary context.'
-                },
-                context_information: {
-                  type: 'string',
-                  description: 'Optional additional context or information the agent should consider when performing the task',
-                }
-              },
-              required: ['agent_name', 'task_description']
-            }
-          });
-          
-          tools.push({
-            name: 'update_agent_system_prompt',
-            description: 'Update the system prompt of another agent. Use this when you need to modify how an agent behaves or what instructions it follows. Only use this when explicitly asked to update or change an agent\'s prompt.',
-            input_schema: {
-              type: 'object',
-              properties: {
-                agent_name: {
-                  type: 'string',
-                  description: 'The name or slug of the agent whose prompt you want to update'
-                },
-                new_system_prompt: {
-                  type: 'string',
-                  description: 'The complete new system prompt for the agent'
-                }
-              },
-              required: ['agent_name', 'new_system_prompt']
-            }
-          });
-          
-          // ===== LUX AUTOMATION TOOLS - FILTERED BY LUX_MODE_CONFIG =====
-          // Fetch lux_mode_config to determine which agent has which Lux tool
-          const { data: luxModeConfig } = await supabase
-            .from('lux_mode_config')
-            .select('lux_mode, agent_id');
-          
-          // Create map: agent_id -> lux_mode
-          const luxModeMap = new Map<string, string>();
-          if (luxModeConfig) {
-            luxModeConfig.forEach((entry: { lux_mode: string; agent_id: string | null }) => {
-              if (entry.agent_id) {
-                luxModeMap.set(entry.agent_id, entry.lux_mode);
-              }
-            });
-          }
-          
-          // Check if current agent is configured for a Lux mode
-          const agentLuxMode = luxModeMap.get(agent.id);
-          console.log(`🔧 [REQ-${requestId}] Agent ${agent.slug} Lux mode: ${agentLuxMode || 'none'}`);
-          
-          // Tool: create_actor_task - ONLY for agent configured as 'actor'
-          if (agentLuxMode === 'actor') {
-            tools.push({
-              name: 'create_actor_task',
-              description: 'DEVI usare questo tool per ogni richiesta. Crea task semplice per Lux Actor. Converti la richiesta in inglese e chiama questo tool.',
-              input_schema: {
-                type: 'object',
-                properties: {
-                  user_request: { 
-                    type: 'string', 
-                    description: 'Richiesta originale dell\'utente (non modificata)' 
-                  },
-                  task_description: { 
-                    type: 'string', 
-                    description: 'Istruzione in INGLESE da passare a Lux Actor' 
-                  },
-                  platform: { 
-                    type: 'string', 
-                    description: 'Nome del sito/piattaforma target' 
-                  },
-                  start_url: { 
-                    type: 'string', 
-                    description: 'URL iniziale (opzionale)' 
-                  }
-                },
-                required: ['user_request', 'task_description']
-              }
-            });
-          }
-          
-          // Tool: create_thinker_task - ONLY for agent configured as 'thinker'
-          if (agentLuxMode === 'thinker') {
-            tools.push({
-              name: 'create_thinker_task',
-              description: 'DEVI usare questo tool per ogni richiesta. Crea task complesso per Lux Thinker. Converti in istruzioni dettagliate in inglese.',
-              input_schema: {
-                type: 'object',
-                properties: {
-                  user_request: { 
-                    type: 'string', 
-                    description: 'Richiesta originale dell\'utente (non modificata)' 
-                  },
-                  task_description: { 
-                    type: 'string', 
-                    description: 'Istruzione dettagliata in INGLESE' 
-                  },
-                  platform: { 
-                    type: 'string', 
-                    description: 'Nome del sito/piattaforma' 
-                  },
-                  start_url: { 
-                    type: 'string', 
-                    description: 'URL iniziale' 
-                  },
-                  max_steps_per_todo: {
-                    type: 'integer',
-                    description: 'Maximum steps per todo (default 24 for tasker, 100 for thinker)',
-                    default: 24
-                  },
-                  complexity: { 
-                    type: 'string', 
-                    enum: ['medium', 'complex'],
-                    description: 'Complessità stimata del task' 
-                  }
-                },
-                required: ['user_request', 'task_description']
-              }
-            });
-          }
-          
-          // Tool: create_tasker_task - ONLY for agent configured as 'tasker'
-          if (agentLuxMode === 'tasker') {
-            tools.push({
-              name: 'create_tasker_task',
-              description: 'DEVI usare questo tool per ogni richiesta. Crea task con decomposizione in step. Tutti i todos devono essere in INGLESE.',
-              input_schema: {
-                type: 'object',
-                properties: {
-                  user_request: { 
-                    type: 'string', 
-                    description: 'Richiesta originale dell\'utente (non modificata)' 
-                  },
-                  task_description: { 
-                    type: 'string', 
-                    description: 'Obiettivo generale in INGLESE' 
-                  },
-                  platform: { 
-                    type: 'string', 
-                    description: 'Nome del sito/piattaforma' 
-                  },
-                  start_url: { 
-                    type: 'string', 
-                    description: 'URL iniziale' 
-                  },
-                  todos: {
-                    type: 'array',
-                    description: 'Lista ordinata di step/goal in INGLESE',
-                    items: {
-                      type: 'object',
-                      properties: {
-                        description: { 
-                          type: 'string', 
-                          description: 'Descrizione del goal in inglese' 
-                        },
-                        action: { 
-                          type: 'string', 
-                          enum: ['click', 'type', 'scroll', 'press', 'wait', 'navigate'], 
-                          description: 'Tipo di azione (opzionale)' 
-                        },
-                        target: { 
-                          type: 'string', 
-                          description: 'Elemento target (opzionale)' 
-                        },
-                        value: { 
-                          type: 'string', 
-                          description: 'Valore (opzionale)' 
-                        },
-                        expected_outcome: { 
-                          type: 'string', 
-                          description: 'Risultato atteso (opzionale)' 
-                        }
-                      },
-                      required: ['description']
-                    }
+            // ============= TOOL: delegate_task_graph (coordinator mode) =============
+            else if (handler === 'delegate_task_graph') {
+              console.log(`🧩 [REQ-${context.requestId}] Tool: delegate_task_graph - ${toolInput.tasks?.length || 0} tasks (depth ${currentDelegationDepth})`);
+              let graphId: string | null = null;
+
+              try {
+                const specs = validateTaskGraph(toolInput.tasks);
+                const chain = [...currentDelegationChain, context.agent.slug];
+
+                // Resolve assigned agents (slug first, then name); agents already in the chain would loop back
+                const { data: activeAgentRows } = await context.supabase
+                  .from('agents')
+                  .select('id, name, slug')
+                  .eq('active', true);
+                const nodeAgents = new Map<string, { id: string; name: string; slug: string }>();
+                const nodes: TaskNode[] = specs.map(spec => {
+                  const key = String(spec.agent).replace(/^@/, '').trim().toLowerCase();
+                  const target = (activeAgentRows || []).find((a: { slug: string }) => a.slug.toLowerCase() === key)
+                    || (activeAgentRows || []).find((a: { name: string }) => a.name.toLowerCase() === key.replace(/-/g, ' '));
+                  if (!target) throw new TaskGraphError(`Unknown agent for task ${spec.id}: ${spec.agent}`);
+                  if (chain.includes(target.slug)) {
+                    throw new TaskGraphError(`Task ${spec.id}: @${target.slug} is already in the delegation chain (${chain.join(' → ')})`);
                   }
-                },
-                required: ['user_request', 'task_description', 'todos']
-              }
-            });
-          }
-          
-          // ===== GITHUB REPOSITORY TOOLS =====
-          // Tool: github_read_file - Read file from GitHub repo
-          tools.push({
-            name: 'github_read_file',
-            description: 'Read the content of a file from a GitHub repository. Use for viewing source code, configs, or documentation.',
-            input_schema: {
-              type: 'object',
-              properties: {
-                owner: { type: 'string', description: 'Repository owner (e.g., "federicostrane-max")' },
-                repo: { type: 'string', description: 'Repository name (e.g., "architects-hand-bridge")' },
-                path: { type: 'string', description: 'File path within repo (e.g., "src/bridge/index.js")' },
-                branch: { type: 'string', description: 'Branch name (default: "main")' }
-              },
-              required: ['owner', 'repo', 'path']
-            }
-          });
-          
-          // Tool: github_write_file - Create or update file in GitHub repo
-          tools.push({
-            name: 'github_write_file',
-            description: 'Create or update a file in a GitHub repository. Creates a commit with the changes.',
-            input_schema: {
-              type: 'object',
-              properties: {
-                owner: { type: 'string', description: 'Repository owner' },
-                repo: { type: 'string', description: 'Repository name' },
-                path: { type: 'string', description: 'File path to create/update' },
-                content: { type: 'string', description: 'New file content' },
-                message: { type: 'string', description: 'Commit message describing the change' },
-                branch: { type: 'string', description: 'Target branch (default: "main")' }
-              },
-              required: ['owner', 'repo', 'path', 'content', 'message']
-            }
-          });
-          
-          // Tool: github_list_files - List files and directories in a repo
-          tools.push({
-            name: 'github_list_files',
-            description: 'List files and directories in a GitHub repository path.',
-            input_schema: {
-              type: 'object',
-              properties: {
-                owner: { type: 'string', description: 'Repository owner' },
-                repo: { type: 'string', description: 'Repository name' },
-                path: { type: 'string', description: 'Directory path (empty for root)' },
-                branch: { type: 'string', description: 'Branch name (default: "main")' }
-              },
-              required: ['owner', 'repo']
-            }
-          });
-          
-          // Tool: github_create_branch - Create a new branch
-          tools.push({
-            name: 'github_create_branch',
-            description: 'Create a new branch in a GitHub repository for isolated development.',
-            input_schema: {
-              type: 'object',
-              properties: {
-                owner: { type: 'string', description: 'Repository owner' },
-                repo: { type: 'string', description: 'Repository name' },
-                newBranch: { type: 'string', description: 'Name for the new branch' },
-                fromBranch: { type: 'string', description: 'Source branch (default: "main")' }
-              },
-              required: ['owner', 'repo', 'newBranch']
-            }
-          });
-          
-          // Tool: github_create_pr - Create a Pull Request
-          tools.push({
-            name: 'github_create_pr',
-            description: 'Create a Pull Request to merge changes from one branch to another.',
-            input_schema: {
-              type: 'object',
-              properties: {
-                owner: { type: 'string', description: 'Repository owner' },
-                repo: { type: 'string', description: 'Repository name' },
-                title: { type: 'string', description: 'PR title' },
-                body: { type: 'string', description: 'PR description with details of changes' },
-                head: { type: 'string', description: 'Source branch with changes' },
-                base: { type: 'string', description: 'Target branch (default: "main")' }
-              },
-              required: ['owner', 'repo', 'title', 'body', 'head']
-            }
-          });
-          
-          // ===== BROWSER AUTOMATION TOOLS (4 tools) =====
-          // These tools enable browser automation via local Tool Server
-          
-          // Tool 1: tool_server_action - Execute single browser/desktop actions
-          tools.push({
-            name: 'tool_server_action',
-            description: `Execute a single browser or desktop action via the local Tool Server.
-  
-Available actions:
-- screenshot: Capture current screen/viewport (returns base64 PNG)
-- click: Click at coordinates (x, y) - REQUIRES coordinates from vision tools first
-- type: Type text into focused element
-- scroll: Scroll up/down/left/right
-- keypress: Press a key or combination (Enter, Tab, Escape, etc.)
-- navigate: Navigate browser to URL
-- browser_start: Start a new browser session with optional URL
-- browser_stop: Stop browser session
-- dom_tree: Get accessibility tree of current page
-
-WORKFLOW: For clicking elements, you MUST first:
-1. Call screenshot to capture current state
-2. Call lux_actor_vision OR gemini_computer_use with the screenshot to get coordinates
-3. Then call this tool with action=click and the coordinates
-
-Returns a command for frontend local execution (execute_locally: true).
-Requires Tool Server running locally on port 8766.`,
-            input_schema: {
-              type: 'object',
-              properties: {
-                action: {
-                  type: 'string',
-                  enum: [
-                    'screenshot', 'click', 'click_by_ref', 'type', 'scroll', 'keypress', 'navigate', 'browser_start', 'browser_stop', 'dom_tree',
-                    'element_rect', // Get element coordinates by selector/text/role
-                    // v10.4.0: Tracing and assertions
-                    'tracing_start', 'tracing_stop', 'console_messages', 'network_requests',
-                    'verify_visible', 'verify_text', 'verify_url', 'verify_title'
-                  ],
-                  description: 'The action to perform. Use click_by_ref with ref parameter (e.g., ref="e3") for DOM elements. Use element_rect to get coordinates by selector/text. Tracing/verify actions for testing.'
-                },
-                scope: { type: 'string', enum: ['browser', 'desktop'], description: 'Target scope (default: browser)' },
-                ref: { type: 'string', description: 'Element ref ID from dom_tree (e.g., "e3", "e9"). Use with click_by_ref action.' },
-                x: { type: 'number', description: 'X coordinate for click (use click_by_ref with ref instead when available)' },
-                y: { type: 'number', description: 'Y coordinate for click (use click_by_ref with ref instead when available)' },
-                click_type: { type: 'string', enum: ['single', 'double', 'right'], description: 'Click type (default: single)' },
-                coordinate_origin: { type: 'string', enum: ['viewport', 'screen', 'lux_sdk'], description: 'Coordinate system (lux_sdk for Lux, viewport for Gemini)' },
-                text: { type: 'string', description: 'Text to type (for type action) or text to verify (for verify_text action)' },
-                method: { type: 'string', enum: ['clipboard', 'keystrokes'], description: 'Typing method' },
-                direction: { type: 'string', enum: ['up', 'down', 'left', 'right'], description: 'Scroll direction' },
-                amount: { type: 'number', description: 'Scroll amount in pixels' },
-                key: { type: 'string', description: 'Key to press (Enter, Tab, Escape, etc.)' },
-                url: { type: 'string', description: 'URL for navigate/browser_start or verify_url' },
-                url_contains: { type: 'string', description: 'Partial URL match for verify_url' },
-                title: { type: 'string', description: 'Page title for verify_title' },
-                title_contains: { type: 'string', description: 'Partial title match for verify_title' },
-                selector: { type: 'string', description: 'CSS selector for verify_visible or element_rect' },
-                // element_rect parameters
-                role: { type: 'string', description: 'ARIA role for element_rect (button, link, textbox, etc.)' },
-                role_name: { type: 'string', description: 'Accessible name for role-based lookup in element_rect' },
-                test_id: { type: 'string', description: 'data-testid attribute for element_rect' },
-                label: { type: 'string', description: 'Label text for element_rect' },
-                placeholder: { type: 'string', description: 'Placeholder text for element_rect' },
-                index: { type: 'number', description: 'Index when multiple elements match (default: 0) for element_rect' },
-                exact: { type: 'boolean', description: 'Exact match for verify_text or element_rect text (default: false)' },
-                timeout: { type: 'number', description: 'Timeout in ms for verify actions (default: 5000)' },
-                screenshots: { type: 'boolean', description: 'Include screenshots in trace (for tracing_start)' },
-                snapshots: { type: 'boolean', description: 'Include DOM snapshots in trace (for tracing_start)' },
-                limit: { type: 'number', description: 'Max messages/requests to return (for console_messages/network_requests)' },
-                clear: { type: 'boolean', description: 'Clear messages after returning (for console_messages/network_requests)' },
-                session_id: { type: 'string', description: 'Browser session ID (auto-managed)' }
-              },
-              required: ['action']
-            }
-          });
-          
-          // Tool 2: lux_actor_vision - Fast element location
-          tools.push({
-            name: 'lux_actor_vision',
-            description: `Find element coordinates using Lux Actor vision model.
-FAST (~1 second). Returns coordinates in lux_sdk coordinate system.
-
-Use this to locate buttons, links, input fields, icons by visual description.
-REQUIRES screenshot_base64 from a previous tool_server_action(action: 'screenshot').
-
-WORKFLOW:
-1. First call tool_server_action with action='screenshot' to get base64 image
-2. Then call this with the screenshot and target description
-3. Use returned coordinates with tool_server_action(action='click', coordinate_origin='lux_sdk')
-
-Returns: { success, x, y, confidence, coordinate_system: 'lux_sdk' }`,
-            input_schema: {
-              type: 'object',
-              properties: {
-                screenshot_base64: { type: 'string', description: 'Base64 PNG screenshot from tool_server_action' },
-                target: { type: 'string', description: 'Visual description of element to find (e.g., "blue Send button", "search input field")' }
-              },
-              required: ['screenshot_base64', 'target']
-            }
-          });
-          
-          // Tool 3: gemini_computer_use - Smart element location (fallback)
-          tools.push({
-            name: 'gemini_computer_use',
-            description: `Find element coordinates using Gemini Vision model.
-SLOWER (~3 seconds) but better at complex UIs and reasoning.
-Returns coordinates in viewport coordinate system.
-
-Use as FALLBACK when lux_actor_vision fails or for complex UIs.
-REQUIRES screenshot_base64 from a previous tool_server_action(action: 'screenshot').
-
-WORKFLOW:
-1. First call tool_server_action with action='screenshot' to get base64 image
-2. Then call this with the screenshot, target, and optional context
-3. Use returned coordinates with tool_server_action(action='click', coordinate_origin='viewport')
-
-Returns: { success, x, y, confidence, reasoning, coordinate_system: 'viewport' }`,
-            input_schema: {
-              type: 'object',
-              properties: {
-                screenshot_base64: { type: 'string', description: 'Base64 PNG screenshot from tool_server_action' },
-                target: { type: 'string', description: 'Description of element to find' },
-                context: { type: 'string', description: 'Additional context about the page or task' }
-              },
-              required: ['screenshot_base64', 'target']
-            }
-          });
-          
-          // Tool 4: browser_get_dom - Get DOM structure for planning
-          tools.push({
-            name: 'browser_get_dom',
-            description: `Retrieve the DOM structure of a webpage for planning browser automation.
-
-WHEN TO USE:
-- Call this FIRST when you need to automate browser actions
-- Before creating a browser_orchestrator plan
-- When you need to find exact selectors for elements
-
-WHAT YOU GET:
-- List of interactive elements (buttons, links, inputs, etc.)
-- CSS selectors and aria-labels for precise targeting
-- Current page URL and session ID
-
-IMPORTANT:
-- This tool triggers a LOCAL action - the frontend will analyze the page
-- The DOM will be returned to you in the NEXT message
-- After receiving DOM, use browser_orchestrator to create your plan
-- DO NOT call this tool twice for the same page`,
-            input_schema: {
-              type: 'object',
-              properties: {
-                url: { 
-                  type: 'string', 
-                  description: 'Full URL to navigate and analyze (e.g., "https://mail.google.com")' 
-                },
-                wait_for_selector: {
-                  type: 'string',
-                  description: 'Optional: CSS selector to wait for before capturing DOM'
-                }
-              },
-              required: ['url']
-            }
-          });
-          
-          // Tool 5: browser_orchestrator - Multi-step automation (Plan Executor)
-          tools.push({
-            name: 'browser_orchestrator',
-            description: `Execute a browser automation plan on the local machine.
-
-This tool EXECUTES plans that YOU create. You must provide the complete plan.
-Use your knowledge base to create accurate plans for specific websites.
-
-IMPORTANT: YOU are the planner! Use your KB knowledge about the target site
-to create precise step descriptions. If you called browser_get_dom first,
-use the DOM structure to create accurate dom_selector values.
-
-Plan structure you must provide:
-{
-  "analysis": "Brief analysis of what needs to be done",
-  "goal": "The end goal",
-  "steps": [
-    {
-      "step_number": 1,
-      "action_type": "click|type|scroll|keypress|wait|navigate",
-      "target_description": "Visual description for Vision Agent (be specific! use colors, positions, text)",
-      "dom_selector": "CSS selector from DOM (optional but recommended for precision)",
-      "input_value": "For type: text to type. For keypress: key name (Enter, Tab). For navigate: URL",
-      "fallback_description": "Alternative description if first fails",
-      "expected_result": "What should happen after this step"
-    }
-  ],
-  "success_criteria": "How to verify task completion"
-}
+                  nodeAgents.set(spec.id, target);
+                  return {
+                    id: spec.id,
+                    agent_slug: target.slug,
+                    agent_name: target.name,
+                    task: spec.task,
+                    depends_on: spec.depends_on || [],
+                    status: 'pending',
+                    output: null,
+                    error: null,
+                    started_at: null,
+                    completed_at: null,
+                  };
+                });
+
+                const goal = String(toolInput.goal || '');
+                const { data: graphRow, error: graphError } = await context.supabase
+                  .from('agent_task_graphs')
+                  .insert({
+                    conversation_id: context.conversation.id,
+                    message_id: placeholderMsg?.id ?? null,
+                    coordinator_agent_id: context.agent.id,
+                    user_id: context.userId,
+                    goal,
+                    nodes,
+                    delegation_depth: currentDelegationDepth,
+                  })
+                  .select('id')
+                  .single();
+                if (graphError) throw graphError;
+                const currentGraphId: string = graphRow.id;
+                graphId = currentGraphId;
+                taskGraphIds.push(currentGraphId);
+
+                responseText = `🧩 **Coordinamento**: ${nodes.length} task delegati a ${new Set(nodes.map(n => n.agent_slug)).size} agenti\n`;
+                newFullResponse += responseText;
+                await context.sendSSE(JSON.stringify({ type: 'content', text: responseText }));
+
+                // Live graph: SSE for the open chat, the row for reloads
+                const publish = async (current: TaskNode[]) => {
+                  await context.sendSSE(JSON.stringify({ type: 'task_graph', graph: { id: currentGraphId, goal, nodes: current } }));
+                  await context.supabase.from('agent_task_graphs').update({ nodes: current }).eq('id', currentGraphId);
+                };
+
+                const runNode = async (node: TaskNode, dependencies: TaskNode[]): Promise<string> => {
+                  const target = nodeAgents.get(node.id)!;
+
+                  // Fresh conversation per node: parallel runs in one conversation would clean up each other's placeholders
+                  const { data: nodeConversation, error: convError } = await context.supabase
+                    .from('agent_conversations')
+                    .insert({ user_id: context.userId, agent_id: target.id, title: `🧩 ${node.id}: ${node.task.slice(0, 60)}` })
+                    .select('id')
+                    .single();
+                  if (convError || !nodeConversation) throw new Error(`Failed to create conversation for @${target.slug}`);
+
+                  const { data: logEntry } = await context.supabase
+                    .from('inter_agent_logs')
+                    .insert({
+                      requesting_conversation_id: context.conversation.id,
+                      requesting_agent_id: context.agent.id,
+                      consulted_agent_id: target.id,
+                      consulted_conversation_id: nodeConversation.id,
+                      task_description: node.task,
+                      status: 'processing',
+                      metadata: { task_graph_id: currentGraphId, node_id: node.id, depends_on: node.depends_on }
+                    })
+                    .select('id')
+                    .single();
+
+                  const dependencyContext = dependencies
+                    .map(dep => `### [${dep.id}] @${dep.agent_slug}\n${(dep.output || '').slice(0, 6000)}`)
+                    .join('\n\n');
+                  const nodeMessage = dependencyContext
+                    ? `${node.task}\n\n---\nRisultati dei task da cui dipende questo task:\n\n${dependencyContext}`
+                    : node.task;
 
-Returns: { execute_locally: true, plan: {...} }
-Requires Tool Server running locally on port 8766.`,
-            input_schema: {
-              type: 'object',
-              properties: {
-                plan: {
-                  type: 'object',
-                  description: 'The execution plan YOU created with steps to execute',
-                  properties: {
-                    analysis: { type: 'string', description: 'Brief analysis of current situation' },
-                    goal: { type: 'string', description: 'The end goal to achieve' },
-                    steps: {
-                      type: 'array',
-                      description: 'Array of action steps',
-                      items: {
-                        type: 'object',
-                        properties: {
-                          step_number: { type: 'number' },
-                          action_type: { type: 'string', enum: ['click', 'type', 'scroll', 'keypress', 'wait', 'navigate'] },
-                          target_description: { type: 'string', description: 'Visual description of element (for Vision Agent)' },
-                          dom_selector: { type: 'string', description: 'CSS selector from DOM (for precise targeting)' },
-                          input_value: { type: 'string', description: 'Text/key/URL for type/keypress/navigate actions' },
-                          fallback_description: { type: 'string', description: 'Alternative target description' },
-                          expected_result: { type: 'string', description: 'Expected outcome of this step' }
-                        },
-                        required: ['step_number', 'action_type', 'target_description']
+                  try {
+                    const { data: nodeResponse, error: nodeError } = await context.supabase.functions.invoke('agent-chat', {
+                      body: {
+                        conversationId: nodeConversation.id,
+                        message: nodeMessage,
+                        agentSlug: target.slug,
+                        skipSystemValidation: true,
+                        stream: false,
+                        delegationDepth: currentDelegationDepth + 1,
+                        delegationChain: chain
+                      },
+                      headers: {
+                        Authorization: context.req.headers.get('authorization') || ''
                       }
-                    },
-                    success_criteria: { type: 'string', description: 'How to verify task is complete' }
-                  },
-                  required: ['goal', 'steps']
-                },
-                start_url: { type: 'string', description: 'Initial URL to open (optional)' },
-                config: {
-                  type: 'object',
-                  description: 'Execution configuration',
-                  properties: {
-                    max_steps: { type: 'number', description: 'Max steps to execute (default: 10)' },
-                    vision_fallback_enabled: { type: 'boolean', description: 'Use Gemini as fallback (default: true)' },
-                    confidence_threshold: { type: 'number', description: 'Min confidence for vision (default: 0.7)' }
+                    });
+                    if (nodeError) throw nodeError;
+
+                    const output = typeof nodeResponse?.response === 'string' ? nodeResponse.response : '';
+                    if (!output.trim()) throw new Error(`Empty response from @${target.slug}`);
+
+                    await context.supabase
+                      .from('inter_agent_messages')
+                      .insert({
+                        requesting_agent_id: context.agent.id,
+                        consulted_agent_id: target.id,
+                        context_conversation_id: context.conversation.id,
+                        question: node.task,
+                        answer: output
+                      });
+                    if (logEntry) {
+                      await context.supabase
+                        .from('inter_agent_logs')
+                        .update({ status: 'completed', completed_at: new Date().toISOString() })
+                        .eq('id', logEntry.id);
+                    }
+                    return output;
+                  } catch (error) {
+                    if (logEntry) {
+                      await context.supabase
+                        .from('inter_agent_logs')
+                        .update({
+                          status: 'failed',
+                          completed_at: new Date().toISOString(),
+                          error_message: error instanceof Error ? error.message : String(error)
+                        })
+                        .eq('id', logEntry.id);
+                    }
+                    throw error;
                   }
+                };
+
+                await runTaskGraph(nodes, runNode, publish, DEFAULT_TASK_GRAPH_LIMITS.maxParallel);
+
+                const completed = nodes.filter(n => n.status === 'completed').length;
+                const status = completed === nodes.length ? 'completed' : completed > 0 ? 'partial' : 'failed';
+                const merged = mergeTaskResults(nodes);
+                await context.supabase
+                  .from('agent_task_graphs')
+                  .update({ status, nodes, merged_output: merged, completed_at: new Date().toISOString() })
+                  .eq('id', currentGraphId);
+                console.log(`🧩 [REQ-${context.requestId}] Task graph ${currentGraphId} ${status}: ${completed}/${nodes.length}`);
+
+                toolResult = {
+                  success: completed > 0,
+                  task_graph_id: currentGraphId,
+                  status,
+                  completed,
+                  total: nodes.length,
+                  merged_results: merged.length > 30000 ? merged.slice(0, 30000) + '\n... (truncated)' : merged,
+                  instructions: 'Merge these results into your answer. Attribute every part to the agent that produced it (@slug) and point out failed or skipped subtasks.'
+                };
+                responseText = `${status === 'completed' ? '✅' : '⚠️'} **Coordinamento completato**: ${completed}/${nodes.length} task riusciti\n\n`;
+                newFullResponse += responseText;
+                await context.sendSSE(JSON.stringify({ type: 'content', text: responseText }));
+
+              } catch (error) {
+                console.error(`❌ [REQ-${context.requestId}] Error in delegate_task_graph:`, error);
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                if (graphId) {
+                  await context.supabase
+                    .from('agent_task_graphs')
+                    .update({ status: 'failed', completed_at: new Date().toISOString() })
+                    .eq('id', graphId);
                 }
-              },
-              required: ['plan']
+                toolResult = { success: false, error: errorMessage };
+                responseText = `❌ Errore coordinamento: ${errorMessage}\n`;
+                newFullResponse += responseText;
+                await context.sendSSE(JSON.stringify({ type: 'content', text: responseText }));
+              }
             }
-          });
+            
+            // ============= EXHAUSTIVE: every ToolHandler has a branch above =============
+            else {
+              const unhandled: never = handler;
+              console.warn(`⚠️ [REQ-${context.requestId}] No handler ${unhandled} for tool ${toolName}`);
+              toolResult = { error: `Unknown tool: ${toolName}` };
+            }
+            
+            return { toolResult, responseText, newFullResponse };
+          }
           
           // Log tool availability
           if (tools) {
             console.log(`🔧 [REQ-${requestId}] Tools available to agent:`);
-            tools.forEach(tool => console.log(`   - ${tool.name}: enabled`));
+            tools.forEach(tool => console.log(`   - ${tool.name}${toolNeedsApproval(tool.name, approvalPolicy) ? ' (approval)' : ''}: enabled`));
           }
-
-          // Set timeout for API call (5 minutes)
-          const controller = new AbortController();
-          const timeout = setTimeout(() => controller.abort(), 300000); // 5 min timeout
           
+          // 🔐 Resume after an approval decision: run the approved call, then let the agent continue from its outcome
+          if (decidedApproval) {
+            let approvalSection: string;
+            if (decidedApproval.status === 'approved') {
+              const { toolResult: approvedResult, newFullResponse } = await executeToolCall(
+                decidedApproval.tool_name,
+                decidedApproval.approved_input || decidedApproval.tool_input,
+                {
+                  agent,
+                  userId,
+                  conversation,
+                  supabase,
+                  sendSSE,
+                  requestId,
+                  fullResponse,
+                  conversationState,
+                  req
+                },
+                { approved: true }
+              );
+              fullResponse = newFullResponse;
+              toolsUsed.push(decidedApproval.tool_name);
+              
+              const failed = !approvedResult || approvedResult.success === false || !!approvedResult.error;
+              await recordToolApprovalResult(supabase, decidedApproval, approvedResult, failed);
+              
+              const resultJson = JSON.stringify(approvedResult ?? null, null, 2);
+              approvalSection = `\n\n## ✅ TOOL APPROVATO DALL'UTENTE\n\nL'utente ha approvato \`${decidedApproval.tool_name}\` con input:\n\n\`\`\`json\n${JSON.stringify(decidedApproval.approved_input || decidedApproval.tool_input, null, 2).slice(0, 2000)}\n\`\`\`\n\nIl tool è stato eseguito, risultato:\n\n\`\`\`json\n${resultJson.length > 8000 ? resultJson.slice(0, 8000) + '\n... (troncato)' : resultJson}\n\`\`\`\n\nRiprendi il lavoro a partire da questo risultato. Non richiamare lo stesso tool con lo stesso input.`;
+            } else {
+              approvalSection = `\n\n## ❌ TOOL RIFIUTATO DALL'UTENTE\n\nL'utente ha rifiutato \`${decidedApproval.tool_name}\`: il tool NON è stato eseguito. Non riproporlo con lo stesso input; chiedi all'utente come preferisce procedere.`;
+            }
+            contextSections.push({ id: 'tool_approval', label: 'Esito approvazione tool', priority: 2, maxShare: 0.15, content: approvalSection });
+          }
+
+          // ============================================================
+          // CONTEXT ASSEMBLY: system prompt sections + history within the model window
+          // ============================================================
+          const rawHistory = [...anthropicMessages];
+          let contextManifest = null as ContextManifest | null;
+          const assemblePrompt = () => {
+            const model = resolveProviderAndModel(llmProvider, aiModel).model;
+            const assembled = assembleContext({
+              model,
+              // Same max_tokens as the provider requests below
+              outputTokens: llmProvider === 'google' || llmProvider === 'google-gemini'
+                ? 8192
+                : ['deepseek', 'openai', 'openrouter'].includes(llmProvider) ? 4096 : 64000,
+              reservedTokens: estimateTokens(JSON.stringify(tools)),
+              sections: contextSections,
+              history: rawHistory,
+            });
+            enhancedSystemPrompt = assembled.systemPrompt;
+            anthropicMessages.splice(0, anthropicMessages.length, ...assembled.messages);
+            contextManifest = { ...assembled.manifest, tool_results: contextManifest?.tool_results || [] };
+
+            const compressed = assembled.manifest.sections.filter(section => section.status !== 'included').map(section => section.id);
+            console.log(`🤖 [REQ-${requestId}] Context for ${model}: ~${assembled.manifest.used_tokens}/${assembled.manifest.budget_tokens} tokens, ${anthropicMessages.length} messages${compressed.length > 0 ? `, compressed: ${compressed.join(', ')}` : ''}`);
+          };
+          assemblePrompt();
+
+          // Tool results fed back to the LLM stay within a share of the window and are listed in the manifest
+          const serializeToolResult = (toolName: string, result: unknown): string => {
+            const fitted = fitToolResult(toolName, result, resolveProviderAndModel(llmProvider, aiModel).model);
+            contextManifest?.tool_results.push(fitted.entry);
+            if (fitted.entry.compressed) {
+              console.log(`✂️ [REQ-${requestId}] Tool result ${toolName} compressed: ~${fitted.entry.original_tokens} → ~${fitted.entry.tokens} tokens`);
+            }
+            return fitted.content;
+          };
+
           // Declare provider-specific variables in outer scope for continuation access
           let deepseekMessages: any[] = [];
           let deepseekModel = '';
@@ -6362,198 +6240,166 @@ Requires Tool Server running locally on port 8766.`,
           let openrouterMessages: any[] = [];
           let openrouterModel = '';
           let openrouterTools: any[] = [];
-          let OPENROUTER_API_KEY: string | undefined;
           
           let geminiMessages: any[] = [];
           let geminiModel = '';
           let geminiTools: any[] = [];
-          let GOOGLE_API_KEY: string | undefined; // Will hold GOOGLE_AI_STUDIO_API_KEY
           
-          let response: Response;
-          try {
-            // Route to appropriate LLM provider
-            if (llmProvider === 'deepseek') {
-              // DeepSeek with direct streaming
-              deepseekModel = agent.ai_model || 'deepseek-chat';
-              console.log('🚀 ROUTING TO DEEPSEEK');
-              console.log(`   Model: ${deepseekModel}`);
-              console.log(`   Message count: ${anthropicMessages.length}`);
-              
-              // ⚠️ CRITICAL: DeepSeek tool calling ONLY works with deepseek-reasoner
-              if (deepseekModel === 'deepseek-chat' && tools && tools.length > 0) {
-                console.warn('⚠️ WARNING: deepseek-chat does NOT support tool calling!');
-                console.warn('⚠️ Tools will be IGNORED. Use deepseek-reasoner for tool calling.');
-                console.warn('⚠️ Available tools being ignored:', tools.map(t => t.name).join(', '));
-              }
-              
-              if (!DEEPSEEK_API_KEY) {
-                throw new Error('DEEPSEEK_API_KEY is required but not set');
+          if (forcedTool && !resolvedTools.allowed.has(forcedTool)) {
+            console.warn(`🔐 [REQ-${requestId}] Forced tool ${forcedTool} not allowed for agent ${agent.slug}, using auto`);
+          }
+          const requestedToolChoice: LLMToolChoice = forcedTool && resolvedTools.allowed.has(forcedTool) ? { name: forcedTool } : 'auto';
+          
+          // 🔀 Fallback chain: on a matching failure the next provider+model of the agent answers instead
+          const fallbackChain = parseFallbackChain(agent.llm_fallback_chain);
+          const fallbackAttempts: LLMFallbackAttempt[] = [];
+          let fallbackIndex = -1; // -1 = modello primario dell'agente
+
+          const switchToFallback = (reason: LLMFallbackReason, next: number, status: number | null, errorText: string) => {
+            const failedModel = resolveProviderAndModel(llmProvider, aiModel).model;
+            fallbackAttempts.push({ provider: llmProvider, model: failedModel, reason, status, error: errorText.slice(0, 300) });
+
+            const step = fallbackChain[next];
+            fallbackIndex = next;
+            llmProvider = step.provider;
+            aiModel = step.model;
+            resolvedAnthropicModel = aiModel || 'claude-sonnet-4-5';
+            console.warn(`🔀 [REQ-${requestId}] Fallback (${reason}): ${fallbackAttempts[fallbackAttempts.length - 1].provider}/${failedModel} → ${llmProvider}/${aiModel || 'default'}`);
+            // The fallback model may have a smaller window
+            assemblePrompt();
+          };
+
+          let response!: Response;
+          while (true) {
+            // Models known to ignore tools are skipped up front when the chain covers it
+            if (tools.length > 0 && !modelSupportsTools(resolveProviderAndModel(llmProvider, aiModel).model)) {
+              const next = nextFallbackIndex(fallbackChain, fallbackIndex, 'tool_unsupported');
+              if (next >= 0) {
+                switchToFallback('tool_unsupported', next, null, 'Model does not support tool calling');
+                continue;
               }
+            }
+
+            try {
+              // Route to appropriate LLM provider
+              if (llmProvider === 'deepseek') {
+                // DeepSeek with direct streaming
+                deepseekModel = aiModel || 'deepseek-chat';
+                console.log('🚀 ROUTING TO DEEPSEEK');
+                console.log(`   Model: ${deepseekModel}`);
+                console.log(`   Message count: ${anthropicMessages.length}`);
               
-              deepseekMessages = [
-                { role: 'system', content: enhancedSystemPrompt },
-                ...anthropicMessages
-              ];
+                // ⚠️ CRITICAL: DeepSeek tool calling ONLY works with deepseek-reasoner
+                if (deepseekModel === 'deepseek-chat' && tools && tools.length > 0) {
+                  console.warn('⚠️ WARNING: deepseek-chat does NOT support tool calling!');
+                  console.warn('⚠️ Tools will be IGNORED. Use deepseek-reasoner for tool calling.');
+                  console.warn('⚠️ Available tools being ignored:', tools.map(t => t.name).join(', '));
+                }
               
-              // Convert tools to OpenAI format (DeepSeek is OpenAI-compatible)
-              deepseekTools = tools?.map(tool => ({
-                type: "function",
-                function: {
-                  name: tool.name,
-                  description: tool.description,
-                  parameters: tool.input_schema
+                DEEPSEEK_API_KEY = DEEPSEEK_API_KEY || Deno.env.get('DEEPSEEK_API_KEY');
+                if (!DEEPSEEK_API_KEY) {
+                  throw new Error('DEEPSEEK_API_KEY is required but not set');
                 }
-              }));
               
-              response = await fetch('https://api.deepseek.com/v1/chat/completions', {
-                method: 'POST',
-                headers: {
-                  'Authorization': `Bearer ${DEEPSEEK_API_KEY}`,
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
+                deepseekMessages = [
+                  { role: 'system', content: enhancedSystemPrompt },
+                  ...anthropicMessages
+                ];
+              
+                // Convert tools to OpenAI format (DeepSeek is OpenAI-compatible)
+                deepseekTools = encodeTools('deepseek', tools);
+              
+                response = await sendProviderRequest('deepseek', {
                   model: deepseekModel,
-                  messages: deepseekMessages,
-                  temperature: 0.7,
-                  max_tokens: 4000,
-                  tools: deepseekTools,
-                  tool_choice: forcedTool && deepseekTools?.some((t: any) => t.function?.name === forcedTool) 
-                    ? { type: "function", function: { name: forcedTool } } 
-                    : "auto",
-                  stream: true
-                }),
-                signal: controller.signal
-              });
+                  body: {
+                    messages: deepseekMessages,
+                    temperature: 0.7,
+                    max_tokens: 4000,
+                    tools: deepseekTools,
+                    tool_choice: encodeToolChoice('deepseek', requestedToolChoice, tools),
+                  },
+                  stream: true,
+                  timeoutMs: LLM_REQUEST_TIMEOUT_MS,
+                });
               
-            } else if (llmProvider === 'openai') {
-              // OpenAI implementation (streaming)
-              openaiModel = 'gpt-4o';
-              console.log('🚀 ROUTING TO OPENAI');
-              console.log(`   Model: ${openaiModel}`);
-              console.log(`   Message count: ${anthropicMessages.length}`);
+              } else if (llmProvider === 'openai') {
+                // OpenAI implementation (streaming)
+                openaiModel = aiModel || 'gpt-4o';
+                console.log('🚀 ROUTING TO OPENAI');
+                console.log(`   Model: ${openaiModel}`);
+                console.log(`   Message count: ${anthropicMessages.length}`);
               
-              // Convert tools to OpenAI format
-              openaiTools = tools?.map(tool => ({
-                type: "function",
-                function: {
-                  name: tool.name,
-                  description: tool.description,
-                  parameters: tool.input_schema
-                }
-              }));
+                // Convert tools to OpenAI format
+                openaiTools = encodeTools('openai', tools);
               
-              openaiMessages = [
-                { role: 'system', content: enhancedSystemPrompt },
-                ...anthropicMessages
-              ];
+                openaiMessages = [
+                  { role: 'system', content: enhancedSystemPrompt },
+                  ...anthropicMessages
+                ];
               
-              response = await fetch('https://api.openai.com/v1/chat/completions', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${OPENAI_API_KEY}`,
-                },
-                body: JSON.stringify({
+                response = await sendProviderRequest('openai', {
                   model: openaiModel,
-                  messages: openaiMessages,
-                  temperature: 0.7,
-                  max_tokens: 4096, // 🔧 ADDED: explicit limit (was unlimited before)
-                  tools: openaiTools,
-                  tool_choice: forcedTool && openaiTools?.some((t: any) => t.function?.name === forcedTool) 
-                    ? { type: "function", function: { name: forcedTool } } 
-                    : "auto",
-                  stream: true
-                }),
-                signal: controller.signal
-              });
-              
-            } else if (llmProvider === 'openrouter') {
-              // OpenRouter implementation (streaming) - access to 100+ models
-              openrouterModel = aiModel || 'deepseek/deepseek-chat'; // Use agent's model or default
-              console.log('🚀 ROUTING TO OPENROUTER');
-              console.log(`   Model: ${openrouterModel}`);
-              console.log(`   Message count: ${anthropicMessages.length}`);
+                  body: {
+                    messages: openaiMessages,
+                    temperature: 0.7,
+                    max_tokens: 4096, // 🔧 ADDED: explicit limit (was unlimited before)
+                    tools: openaiTools,
+                    tool_choice: encodeToolChoice('openai', requestedToolChoice, tools),
+                  },
+                  stream: true,
+                  timeoutMs: LLM_REQUEST_TIMEOUT_MS,
+                });
               
-              OPENROUTER_API_KEY = Deno.env.get('OPENROUTER_API_KEY');
-              if (!OPENROUTER_API_KEY) {
-                throw new Error('OPENROUTER_API_KEY is required but not set');
-              }
+              } else if (llmProvider === 'openrouter') {
+                // OpenRouter implementation (streaming) - access to 100+ models
+                openrouterModel = aiModel || 'deepseek/deepseek-chat'; // Use agent's model or default
+                console.log('🚀 ROUTING TO OPENROUTER');
+                console.log(`   Model: ${openrouterModel}`);
+                console.log(`   Message count: ${anthropicMessages.length}`);
               
-              // Convert tools based on model type (Anthropic or OpenAI format)
-              const isAnthropicModel = openrouterModel.includes('claude');
-              openrouterTools = isAnthropicModel 
-                ? tools  // Keep Anthropic format
-                : tools?.map(tool => ({  // Convert to OpenAI format
-                    type: "function",
-                    function: {
-                      name: tool.name,
-                      description: tool.description,
-                      parameters: tool.input_schema
-                    }
-                  }));
+                // Convert tools based on model type (Anthropic or OpenAI format)
+                const isAnthropicModel = openrouterModel.includes('claude');
+                openrouterTools = isAnthropicModel 
+                  ? tools  // Keep Anthropic format
+                  : encodeTools('openrouter', tools);
               
-              openrouterMessages = [
-                { role: 'system', content: enhancedSystemPrompt },
-                ...anthropicMessages
-              ];
+                openrouterMessages = [
+                  { role: 'system', content: enhancedSystemPrompt },
+                  ...anthropicMessages
+                ];
               
-              response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-                  'HTTP-Referer': 'https://lovable.dev',
-                  'X-Title': 'Multi-Agent Consultant',
-                },
-                body: JSON.stringify({
+                response = await sendProviderRequest('openrouter', {
                   model: openrouterModel,
-                  messages: openrouterMessages,
-                  temperature: 0.7,
-                  max_tokens: 4096, // 🔧 ADDED: explicit limit (was unlimited before)
-                  tools: openrouterTools,
-                  tool_choice: forcedTool && openrouterTools?.some((t: any) => t.function?.name === forcedTool || t.name === forcedTool) 
-                    ? { type: "function", function: { name: forcedTool } } 
-                    : "auto",
-                  stream: true
-                }),
-                signal: controller.signal
-              });
-              
-            } else if (llmProvider === 'google' || llmProvider === 'google-gemini') {
-              // Google Gemini implementation
-              geminiModel = aiModel ? aiModel.replace('google/', '') : 'gemini-2.0-flash-exp';
-              console.log('🚀 ROUTING TO GOOGLE GEMINI');
-              console.log(`   Model: ${geminiModel}`);
-              console.log(`   Message count: ${anthropicMessages.length}`);
+                  body: {
+                    messages: openrouterMessages,
+                    temperature: 0.7,
+                    max_tokens: 4096, // 🔧 ADDED: explicit limit (was unlimited before)
+                    tools: openrouterTools,
+                    tool_choice: encodeToolChoice('openrouter', requestedToolChoice, tools),
+                  },
+                  stream: true,
+                  timeoutMs: LLM_REQUEST_TIMEOUT_MS,
+                });
               
-              GOOGLE_API_KEY = Deno.env.get('GOOGLE_AI_STUDIO_API_KEY');
-              if (!GOOGLE_API_KEY) {
-                throw new Error('GOOGLE_AI_STUDIO_API_KEY is required but not set');
-              }
+              } else if (llmProvider === 'google' || llmProvider === 'google-gemini') {
+                // Google Gemini implementation
+                geminiModel = aiModel ? aiModel.replace('google/', '') : 'gemini-2.0-flash-exp';
+                console.log('🚀 ROUTING TO GOOGLE GEMINI');
+                console.log(`   Model: ${geminiModel}`);
+                console.log(`   Message count: ${anthropicMessages.length}`);
               
-              // Convert tools to Gemini format
-              geminiTools = tools ? [{
-                function_declarations: tools.map(tool => ({
-                  name: tool.name,
-                  description: tool.description,
-                  parameters: tool.input_schema
-                }))
-              }] : [];
+                // Convert tools to Gemini format
+                geminiTools = encodeTools('google', tools);
               
-              // Convert messages to Gemini format
-              geminiMessages = anthropicMessages.map(msg => ({
-                role: msg.role === 'assistant' ? 'model' : 'user',
-                parts: [{ text: msg.content }]
-              }));
+                // Convert messages to Gemini format
+                geminiMessages = anthropicMessages.map(msg => ({
+                  role: msg.role === 'assistant' ? 'model' : 'user',
+                  parts: [{ text: msg.content }]
+                }));
               
-              response = await fetch(
-                `https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:streamGenerateContent?key=${GOOGLE_API_KEY}&alt=sse`,
-                {
-                  method: 'POST',
-                  headers: {
-                    'Content-Type': 'application/json',
-                  },
-                  body: JSON.stringify({
+                response = await sendProviderRequest('google', {
+                  model: geminiModel,
+                  body: {
                     contents: geminiMessages,
                     tools: geminiTools,
                     systemInstruction: {
@@ -6563,82 +6409,84 @@ Requires Tool Server running locally on port 8766.`,
                       temperature: 0.7,
                       maxOutputTokens: 8192,
                     }
-                  }),
-                  signal: controller.signal
-                }
-              );
+                  },
+                  stream: true,
+                  timeoutMs: LLM_REQUEST_TIMEOUT_MS,
+                });
               
-            } else {
-              // Default: Anthropic
-              if (!ANTHROPIC_API_KEY) {
-                throw new Error('ANTHROPIC_API_KEY is required but not set');
-              }
+              } else {
+                // Default: Anthropic
+                ANTHROPIC_API_KEY = ANTHROPIC_API_KEY || Deno.env.get('ANTHROPIC_API_KEY');
+                if (!ANTHROPIC_API_KEY) {
+                  throw new Error('ANTHROPIC_API_KEY is required but not set');
+                }
 
-              console.log('🚀 ROUTING TO ANTHROPIC');
-              console.log(`   Model: ${resolvedAnthropicModel}`);
-              console.log(`   Message count: ${anthropicMessages.length}`);
-              console.log(`   API Key present: ${ANTHROPIC_API_KEY ? 'YES' : 'NO'}`);
-              console.log(`   API Key prefix: ${ANTHROPIC_API_KEY?.slice(0, 8)}...`);
-              console.log(`   System prompt length: ${enhancedSystemPrompt.length} chars`);
-              console.log(`   Tools enabled: ${tools.length} tools`);
+                console.log('🚀 ROUTING TO ANTHROPIC');
+                console.log(`   Model: ${resolvedAnthropicModel}`);
+                console.log(`   Message count: ${anthropicMessages.length}`);
+                console.log(`   API Key present: ${ANTHROPIC_API_KEY ? 'YES' : 'NO'}`);
+                console.log(`   API Key prefix: ${ANTHROPIC_API_KEY?.slice(0, 8)}...`);
+                console.log(`   System prompt length: ${enhancedSystemPrompt.length} chars`);
+                console.log(`   Tools enabled: ${tools.length} tools`);
 
-              response = await fetch('https://api.anthropic.com/v1/messages', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'x-api-key': ANTHROPIC_API_KEY,
-                  'anthropic-version': '2023-06-01'
-                },
-                body: JSON.stringify({
+                response = await sendProviderRequest('anthropic', {
                   model: resolvedAnthropicModel,
-                  max_tokens: 64000,  // Massimo supportato da Claude Sonnet 4
-                  temperature: 0.7,
-                  system: enhancedSystemPrompt,
-                  messages: anthropicMessages,
-                  tools: tools,
-                  tool_choice: forcedTool && tools?.some((t: any) => t.name === forcedTool)
-                    ? { type: "tool", name: forcedTool }
-                    : { type: "auto" },
-                  stream: true // ✅ Riabilitato per compatibilità con parser SSE
-                }),
-                signal: controller.signal
-              });
+                  body: {
+                    max_tokens: 64000,  // Massimo supportato da Claude Sonnet 4
+                    temperature: 0.7,
+                    system: enhancedSystemPrompt,
+                    messages: anthropicMessages,
+                    tools: tools,
+                    tool_choice: encodeToolChoice('anthropic', requestedToolChoice, tools),
+                  },
+                  stream: true, // ✅ Riabilitato per compatibilità con parser SSE
+                  timeoutMs: LLM_REQUEST_TIMEOUT_MS,
+                });
 
-              console.log(`   ✅ Response status: ${response.status}`);
-              console.log(`   ✅ Response ok: ${response.ok}`);
-              console.log(`   ✅ Response headers:`, Object.fromEntries(response.headers.entries()));
-            }
-          
-            clearTimeout(timeout);
-
-            if (!response.ok) {
-              const errorBody = await response.text();
-              console.error(`❌ ${llmProvider.toUpperCase()} API ERROR`);
-              console.error(`   Status: ${response.status}`);
-              console.error(`   Body: ${errorBody}`);
-              console.error(`   Headers:`, Object.fromEntries(response.headers.entries()));
-              
-              // Update placeholder with error message so user sees something
-              if (placeholderMsg) {
-                await supabase
-                  .from('agent_messages')
-                  .update({
-                    content: `❌ Errore API (${response.status}): ${errorBody.slice(0, 200)}...`,
-                    llm_provider: llmProvider
-                  })
-                  .eq('id', placeholderMsg.id);
+                console.log(`   ✅ Response status: ${response.status}`);
               }
-              
-              throw new Error(`${llmProvider.toUpperCase()} API error: ${response.status} - ${errorBody}`);
-            }
-          } catch (error: any) {
-            clearTimeout(timeout);
-            if (error.name === 'AbortError') {
-              throw new Error('Request timeout after 5 minutes');
+            } catch (error: unknown) {
+              const fallbackReason = classifyLLMFailure(error);
+              const next = fallbackReason ? nextFallbackIndex(fallbackChain, fallbackIndex, fallbackReason) : -1;
+              if (fallbackReason && next >= 0 && error instanceof LLMGatewayError) {
+                switchToFallback(fallbackReason, next, error.status, error.body || error.message);
+                continue;
+              }
+              // Gateway already retried 429/5xx/network errors with backoff
+              if (error instanceof LLMGatewayError) {
+                console.error(`❌ ${llmProvider.toUpperCase()} API ERROR`);
+                console.error(`   Status: ${error.status}`);
+                console.error(`   Body: ${error.body}`);
+
+                // Update placeholder with error message so user sees something
+                if (placeholderMsg) {
+                  await supabase
+                    .from('agent_messages')
+                    .update({
+                      content: `❌ Errore API (${error.status ?? 'rete'}): ${(error.body || error.message).slice(0, 200)}...`,
+                      llm_provider: llmProvider
+                    })
+                    .eq('id', placeholderMsg.id);
+                }
+
+                if (error.status === 408) {
+                  throw new Error('Request timeout after 5 minutes');
+                }
+              }
+              throw error;
             }
-            throw error;
+            break;
           }
 
+          // Token usage is read from the same SSE chunks the parsers below consume.
+          // Same branches as the routing above: after a fallback the earlier provider's model var is still set
+          const activeModel = llmProvider === 'deepseek' ? deepseekModel
+            : llmProvider === 'openai' ? openaiModel
+            : llmProvider === 'openrouter' ? openrouterModel
+            : llmProvider === 'google' || llmProvider === 'google-gemini' ? geminiModel
+            : resolvedAnthropicModel;
+          const usageMeter = createUsageMeter(normalizeProvider(llmProvider) || 'anthropic', activeModel);
+
           const reader = response.body?.getReader();
           if (!reader) throw new Error('No response body');
 
@@ -6687,6 +6535,15 @@ Requires Tool Server running locally on port 8766.`,
                 console.log(`✅ [REQ-${requestId}] Stream ended. Provider: ${llmProvider}, Total response length: ${fullResponse.length} chars`);
                 console.log(`   Duration: ${totalDuration}s, Chunks: ${chunkCount}`);
                 clearInterval(keepAliveInterval);
+                reportLLMUsage({
+                  source: 'agent-chat',
+                  provider: normalizeProvider(llmProvider) || 'anthropic',
+                  model: activeModel,
+                  usage: usageMeter.usage(),
+                  latencyMs: Date.now() - requestStartTime,
+                  streamed: true,
+                  context: usageContext
+                });
                 // Progressive save every 5k chars during streaming
                 if (fullResponse.length > 0) {
                   // 📊 Calculate source reliability
@@ -6752,6 +6609,7 @@ Requires Tool Server running locally on port 8766.`,
 
                 try {
                   const parsed = JSON.parse(data);
+                  usageMeter.observe(parsed);
                   chunkCount++;
                   
                   // Clear Anthropic timeout on first chunk received
@@ -6838,12 +6696,13 @@ Requires Tool Server running locally on port 8766.`,
                         console.log(`📦 [REQ-${requestId}] [Google] Sanitized tool result: ${JSON.stringify(sanitizedResult).length} chars, chunks: ${sanitizedResult?.results?.length || 0}`);
                         
                         // Continue streaming with tool result
-                        const continueResponse = await fetch(
-                          `https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:streamGenerateContent?key=${GOOGLE_API_KEY}&alt=sse`,
-                          {
-                            method: 'POST',
-                            headers: { 'Content-Type': 'application/json' },
-                            body: JSON.stringify({
+                        let continueResponse: Response;
+                        try {
+                          continueResponse = await sendProviderRequest('google', {
+                            model: geminiModel,
+                            stream: true,
+                            timeoutMs: LLM_REQUEST_TIMEOUT_MS,
+                            body: {
                               contents: [
                                 ...geminiMessages,
                                 // 🔧 FIX: Use original model content to preserve thought_signature (prevents 400 errors)
@@ -6861,13 +6720,12 @@ Requires Tool Server running locally on port 8766.`,
                                 temperature: 0.7,
                                 maxOutputTokens: 1024
                               }
-                            })
-                          }
-                        );
-                        
-                        if (!continueResponse.ok) {
-                          const errorBody = await continueResponse.text();
-                          console.error(`❌ [REQ-${requestId}] [Google] API error ${continueResponse.status}: ${errorBody.slice(0, 500)}`);
+                            }
+                          });
+                        } catch (continueError) {
+                          if (!(continueError instanceof LLMGatewayError)) throw continueError;
+                          const errorBody = continueError.body;
+                          console.error(`❌ [REQ-${requestId}] [Google] API error ${continueError.status}: ${errorBody.slice(0, 500)}`);
                           
                           // FALLBACK: Generate response from retrieved chunks
                           if (toolResult?.results?.length > 0) {
@@ -6883,7 +6741,7 @@ Requires Tool Server running locally on port 8766.`,
                             console.log(`⚠️ [REQ-${requestId}] [Google] Fallback response generated from ${toolResult.results.length} chunks`);
                             break; // Exit the tool calling loop
                           } else {
-                            throw new Error(`Google API error: ${continueResponse.status} - ${errorBody.slice(0, 200)}`);
+                            throw new Error(`Google API error: ${continueError.status} - ${errorBody.slice(0, 200)}`);
                           }
                         }
                         
@@ -6891,6 +6749,7 @@ Requires Tool Server running locally on port 8766.`,
                         const continueReader = continueResponse.body?.getReader();
                         if (!continueReader) throw new Error('No response body from Google');
                         
+                        const continueMeter = createUsageMeter('google', geminiModel);
                         let continueBuffer = '';
                         while (true) {
                           const { done, value } = await continueReader.read();
@@ -6909,6 +6768,7 @@ Requires Tool Server running locally on port 8766.`,
                             
                             try {
                               const continueParsed = JSON.parse(continueData);
+                              continueMeter.observe(continueParsed);
                               const continueText = continueParsed.candidates?.[0]?.content?.parts?.[0]?.text;
                               if (continueText) {
                                 fullResponse += continueText;
@@ -6919,6 +6779,7 @@ Requires Tool Server running locally on port 8766.`,
                             }
                           }
                         }
+                        reportLLMUsage({ source: 'agent-chat', provider: 'google', model: geminiModel, usage: continueMeter.usage(), streamed: true, context: usageContext });
                       } catch (toolError) {
                         console.error(`❌ [REQ-${requestId}] [Google] Tool execution error:`, toolError);
                       }
@@ -6987,7 +6848,7 @@ Requires Tool Server running locally on port 8766.`,
                         deepseekMessages.push({
                           role: 'tool',
                           tool_call_id: toolUseId || 'tool_' + Date.now(),
-                          content: JSON.stringify(toolResult)
+                          content: serializeToolResult(toolUseName!, toolResult)
                         });
                         
                         fullResponse = newFullResponse;
@@ -7102,7 +6963,7 @@ Requires Tool Server running locally on port 8766.`,
                   openaiMessages.push({
                     role: 'tool',
                     tool_call_id: toolUseId || 'tool_' + Date.now(),
-                    content: JSON.stringify(toolResult)
+                    content: serializeToolResult(toolUseName!, toolResult)
                   });
                   
                   fullResponse = newFullResponse;
@@ -7320,7 +7181,7 @@ Requires Tool Server running locally on port 8766.`,
                           {
                             type: 'tool_result',
                             tool_use_id: toolUseId,
-                            content: JSON.stringify(toolResult)
+                            content: serializeToolResult(toolUseName!, toolResult)
                           }
                         ]
                       });
@@ -7438,36 +7299,31 @@ Requires Tool Server running locally on port 8766.`,
             
             try {
               // Make API call with tool results
-              const continueResponse = await fetch('https://api.anthropic.com/v1/messages', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'x-api-key': ANTHROPIC_API_KEY!,
-                  'anthropic-version': '2023-06-01',
-                },
-                body: JSON.stringify({
-                  model: resolvedAnthropicModel,
+              const continueResponse = await sendProviderRequest('anthropic', {
+                model: resolvedAnthropicModel,
+                body: {
                   max_tokens: 64000,
                   temperature: 0.7,
                   system: enhancedSystemPrompt,
                   messages: anthropicMessages,
                   tools: tools,
-                  stream: true,
-                }),
+                },
+                stream: true,
+                timeoutMs: LLM_REQUEST_TIMEOUT_MS,
+              }).catch((error: unknown) => {
+                if (error instanceof LLMGatewayError) {
+                  console.error(`❌ [REQ-${requestId}] Anthropic continuation error:`, error.body);
+                }
+                throw error;
               });
               
-              if (!continueResponse.ok) {
-                const errorText = await continueResponse.text();
-                console.error(`❌ [REQ-${requestId}] Anthropic continuation error:`, errorText);
-                throw new Error(`Anthropic API error: ${continueResponse.status} ${errorText}`);
-              }
-              
               // Stream the continuation response
               const reader2 = continueResponse.body?.getReader();
               if (!reader2) throw new Error('No readable stream in continuation');
               
               const decoder2 = new TextDecoder();
               let buffer2 = '';
+              const continueMeter = createUsageMeter('anthropic', resolvedAnthropicModel);
               let continuationChunks = 0;
               
               console.log(`📡 [REQ-${requestId}] Streaming continuation #${continuationDepth} response...`);
@@ -7477,6 +7333,7 @@ Requires Tool Server running locally on port 8766.`,
                 
                 if (done) {
                   console.log(`✅ [REQ-${requestId}] Continuation #${continuationDepth} stream ended. Chunks: ${continuationChunks}`);
+                  reportLLMUsage({ source: 'agent-chat', provider: 'anthropic', model: resolvedAnthropicModel, usage: continueMeter.usage(), streamed: true, context: usageContext });
                   break;
                 }
                 
@@ -7493,6 +7350,7 @@ Requires Tool Server running locally on port 8766.`,
                   
                   try {
                     const parsed = JSON.parse(data);
+                    continueMeter.observe(parsed);
                     continuationChunks++;
                     
                     // Handle text content from continuation
@@ -7570,7 +7428,7 @@ Requires Tool Server running locally on port 8766.`,
                             {
                               type: 'tool_result',
                               tool_use_id: contToolUseId,
-                              content: JSON.stringify(contToolResult)
+                              content: serializeToolResult(contToolUseName!, contToolResult)
                             }
                           ]
                         });
@@ -7623,36 +7481,30 @@ Requires Tool Server running locally on port 8766.`,
             console.log(`   Current deepseekMessages length: ${deepseekMessages.length}`);
             
             try {
-              const continueResponse = await fetch('https://api.deepseek.com/v1/chat/completions', {
-                method: 'POST',
-                headers: {
-                  'Authorization': `Bearer ${DEEPSEEK_API_KEY}`,
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  model: deepseekModel,
+              const continueResponse = await sendProviderRequest('deepseek', {
+                model: deepseekModel,
+                body: {
                   messages: deepseekMessages,
                   temperature: 0.7,
                   max_tokens: 4000,
                   tools: deepseekTools,
-                  tool_choice: forcedTool && deepseekTools?.some((t: any) => t.function?.name === forcedTool) 
-                    ? { type: "function", function: { name: forcedTool } } 
-                    : "auto",
-                  stream: true
-                }),
+                  tool_choice: encodeToolChoice('deepseek', requestedToolChoice, tools),
+                },
+                stream: true,
+                timeoutMs: LLM_REQUEST_TIMEOUT_MS,
+              }).catch((error: unknown) => {
+                if (error instanceof LLMGatewayError) {
+                  console.error(`❌ [REQ-${requestId}] DeepSeek continuation error:`, error.body);
+                }
+                throw error;
               });
               
-              if (!continueResponse.ok) {
-                const errorText = await continueResponse.text();
-                console.error(`❌ [REQ-${requestId}] DeepSeek continuation error:`, errorText);
-                throw new Error(`DeepSeek API error: ${continueResponse.status}`);
-              }
-              
               const reader2 = continueResponse.body?.getReader();
               if (!reader2) throw new Error('No readable stream in continuation');
               
               const decoder2 = new TextDecoder();
               let buffer2 = '';
+              const continueMeter = createUsageMeter('deepseek', deepseekModel);
               let continuationChunks = 0;
               
               console.log(`📡 [REQ-${requestId}] Streaming DeepSeek continuation response...`);
@@ -7662,6 +7514,7 @@ Requires Tool Server running locally on port 8766.`,
                 
                 if (done) {
                   console.log(`✅ [REQ-${requestId}] DeepSeek continuation stream ended. Chunks: ${continuationChunks}`);
+                  reportLLMUsage({ source: 'agent-chat', provider: 'deepseek', model: deepseekModel, usage: continueMeter.usage(), streamed: true, context: usageContext });
                   break;
                 }
                 
@@ -7678,6 +7531,7 @@ Requires Tool Server running locally on port 8766.`,
                   
                   try {
                     const parsed = JSON.parse(data);
+                    continueMeter.observe(parsed);
                     continuationChunks++;
                     
                     if (parsed.choices?.[0]?.delta?.content) {
@@ -7720,35 +7574,29 @@ Requires Tool Server running locally on port 8766.`,
             console.log(`   Current openaiMessages length: ${openaiMessages.length}`);
             
             try {
-              const continueResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-                method: 'POST',
-                headers: {
-                  'Authorization': `Bearer ${OPENAI_API_KEY}`,
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  model: openaiModel,
+              const continueResponse = await sendProviderRequest('openai', {
+                model: openaiModel,
+                body: {
                   messages: openaiMessages,
                   max_completion_tokens: 16000,
                   tools: openaiTools,
-                  tool_choice: forcedTool && openaiTools?.some((t: any) => t.function?.name === forcedTool) 
-                    ? { type: "function", function: { name: forcedTool } } 
-                    : "auto",
-                  stream: true
-                }),
+                  tool_choice: encodeToolChoice('openai', requestedToolChoice, tools),
+                },
+                stream: true,
+                timeoutMs: LLM_REQUEST_TIMEOUT_MS,
+              }).catch((error: unknown) => {
+                if (error instanceof LLMGatewayError) {
+                  console.error(`❌ [REQ-${requestId}] OpenAI continuation error:`, error.body);
+                }
+                throw error;
               });
               
-              if (!continueResponse.ok) {
-                const errorText = await continueResponse.text();
-                console.error(`❌ [REQ-${requestId}] OpenAI continuation error:`, errorText);
-                throw new Error(`OpenAI API error: ${continueResponse.status}`);
-              }
-              
               const reader2 = continueResponse.body?.getReader();
               if (!reader2) throw new Error('No readable stream in continuation');
               
               const decoder2 = new TextDecoder();
               let buffer2 = '';
+              const continueMeter = createUsageMeter('openai', openaiModel);
               let continuationChunks = 0;
               
               console.log(`📡 [REQ-${requestId}] Streaming OpenAI continuation response...`);
@@ -7758,6 +7606,7 @@ Requires Tool Server running locally on port 8766.`,
                 
                 if (done) {
                   console.log(`✅ [REQ-${requestId}] OpenAI continuation stream ended. Chunks: ${continuationChunks}`);
+                  reportLLMUsage({ source: 'agent-chat', provider: 'openai', model: openaiModel, usage: continueMeter.usage(), streamed: true, context: usageContext });
                   break;
                 }
                 
@@ -7774,6 +7623,7 @@ Requires Tool Server running locally on port 8766.`,
                   
                   try {
                     const parsed = JSON.parse(data);
+                    continueMeter.observe(parsed);
                     continuationChunks++;
                     
                     if (parsed.choices?.[0]?.delta?.content) {
@@ -7816,34 +7666,28 @@ Requires Tool Server running locally on port 8766.`,
             console.log(`   Current openrouterMessages length: ${openrouterMessages.length}`);
             
             try {
-              const continueResponse = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-                method: 'POST',
-                headers: {
-                  'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  model: openrouterModel,
+              const continueResponse = await sendProviderRequest('openrouter', {
+                model: openrouterModel,
+                body: {
                   messages: openrouterMessages,
                   tools: openrouterTools,
-                  tool_choice: forcedTool && openrouterTools?.some((t: any) => t.function?.name === forcedTool || t.name === forcedTool) 
-                    ? { type: "function", function: { name: forcedTool } } 
-                    : "auto",
-                  stream: true
-                }),
+                  tool_choice: encodeToolChoice('openrouter', requestedToolChoice, tools),
+                },
+                stream: true,
+                timeoutMs: LLM_REQUEST_TIMEOUT_MS,
+              }).catch((error: unknown) => {
+                if (error instanceof LLMGatewayError) {
+                  console.error(`❌ [REQ-${requestId}] OpenRouter continuation error:`, error.body);
+                }
+                throw error;
               });
               
-              if (!continueResponse.ok) {
-                const errorText = await continueResponse.text();
-                console.error(`❌ [REQ-${requestId}] OpenRouter continuation error:`, errorText);
-                throw new Error(`OpenRouter API error: ${continueResponse.status}`);
-              }
-              
               const reader2 = continueResponse.body?.getReader();
               if (!reader2) throw new Error('No readable stream in continuation');
               
               const decoder2 = new TextDecoder();
               let buffer2 = '';
+              const continueMeter = createUsageMeter('openrouter', openrouterModel);
               let continuationChunks = 0;
               
               console.log(`📡 [REQ-${requestId}] Streaming OpenRouter continuation response...`);
@@ -7853,6 +7697,7 @@ Requires Tool Server running locally on port 8766.`,
                 
                 if (done) {
                   console.log(`✅ [REQ-${requestId}] OpenRouter continuation stream ended. Chunks: ${continuationChunks}`);
+                  reportLLMUsage({ source: 'agent-chat', provider: 'openrouter', model: openrouterModel, usage: continueMeter.usage(), streamed: true, context: usageContext });
                   break;
                 }
                 
@@ -7869,6 +7714,7 @@ Requires Tool Server running locally on port 8766.`,
                   
                   try {
                     const parsed = JSON.parse(data);
+                    continueMeter.observe(parsed);
                     continuationChunks++;
                     
                     if (parsed.choices?.[0]?.delta?.content) {
@@ -7911,35 +7757,31 @@ Requires Tool Server running locally on port 8766.`,
             console.log(`   Current geminiMessages length: ${geminiMessages.length}`);
             
             try {
-              const continueResponse = await fetch(
-                `https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:streamGenerateContent?key=${GOOGLE_API_KEY}`,
-                {
-                  method: 'POST',
-                  headers: {
-                    'Content-Type': 'application/json',
+              const continueResponse = await sendProviderRequest('google', {
+                model: geminiModel,
+                body: {
+                  contents: geminiMessages,
+                  tools: geminiTools,
+                  generationConfig: {
+                    temperature: 0.7,
+                    maxOutputTokens: 8192,
                   },
-                  body: JSON.stringify({
-                    contents: geminiMessages,
-                    tools: geminiTools,
-                    generationConfig: {
-                      temperature: 0.7,
-                      maxOutputTokens: 8192,
-                    },
-                  }),
+                },
+                stream: true,
+                timeoutMs: LLM_REQUEST_TIMEOUT_MS,
+              }).catch((error: unknown) => {
+                if (error instanceof LLMGatewayError) {
+                  console.error(`❌ [REQ-${requestId}] Gemini continuation error:`, error.body);
                 }
-              );
-              
-              if (!continueResponse.ok) {
-                const errorText = await continueResponse.text();
-                console.error(`❌ [REQ-${requestId}] Gemini continuation error:`, errorText);
-                throw new Error(`Gemini API error: ${continueResponse.status}`);
-              }
+                throw error;
+              });
               
               const reader2 = continueResponse.body?.getReader();
               if (!reader2) throw new Error('No readable stream in continuation');
               
               const decoder2 = new TextDecoder();
               let buffer2 = '';
+              const continueMeter = createUsageMeter('google', geminiModel);
               let continuationChunks = 0;
               
               console.log(`📡 [REQ-${requestId}] Streaming Gemini continuation response...`);
@@ -7949,6 +7791,7 @@ Requires Tool Server running locally on port 8766.`,
                 
                 if (done) {
                   console.log(`✅ [REQ-${requestId}] Gemini continuation stream ended. Chunks: ${continuationChunks}`);
+                  reportLLMUsage({ source: 'agent-chat', provider: 'google', model: geminiModel, usage: continueMeter.usage(), streamed: true, context: usageContext });
                   break;
                 }
                 
@@ -7957,10 +7800,11 @@ Requires Tool Server running locally on port 8766.`,
                 buffer2 = lines.pop() || '';
                 
                 for (const line of lines) {
-                  if (!line.trim()) continue;
+                  if (!line.trim() || !line.startsWith('data: ')) continue;
                   
                   try {
-                    const parsed = JSON.parse(line);
+                    const parsed = JSON.parse(line.slice(6));
+                    continueMeter.observe(parsed);
                     continuationChunks++;
                     
                     if (parsed.candidates?.[0]?.content?.parts?.[0]?.text) {
@@ -8139,6 +7983,15 @@ Requires Tool Server running locally on port 8766.`,
 
           // Final update to DB with complete metadata
           const sourceReliability = hasKnowledgeContext ? 'high' : (toolsUsed.length > 0 ? 'medium' : 'low');
+
+          // 📎 Resolve [cite:...] markers against the chunks retrieved in this turn
+          const citationReport = extractCitations(fullResponse, citableChunks.values());
+          if (citationReport.citations.length > 0) {
+            console.log(`📎 [REQ-${requestId}] Citations: ${citationReport.grounded} grounded, ${citationReport.hallucinated} hallucinated`);
+            if (citationReport.hallucinated > 0) {
+              console.warn(`⚠️ [REQ-${requestId}] Hallucinated citations:`, citationReport.citations.filter(c => c.status === 'hallucinated').map(c => c.citation_id).join(', '));
+            }
+          }
           
           // 📊 [BENCHMARK] Construct enriched retrieval metadata for analysis
           const retrievalMetadata = {
@@ -8164,17 +8017,33 @@ Requires Tool Server running locally on port 8766.`,
             .update({ 
               content: fullResponse,
               llm_provider: llmProvider,
+              llm_model: activeModel,
               metadata: {
                 has_knowledge_context: hasKnowledgeContext,
                 knowledge_stats: knowledgeStats,
                 tools_used: toolsUsed,
                 source_reliability: sourceReliability,
                 video_documents_available: videoDocumentsAvailable.length > 0 ? videoDocumentsAvailable : undefined,
-                retrieval_metadata: retrievalMetadata
+                retrieval_metadata: retrievalMetadata,
+                llm_fallbacks: fallbackAttempts.length > 0 ? fallbackAttempts : undefined,
+                budget: budget.status !== 'ok' ? budget : undefined,
+                citations: citationReport.citations.length > 0 ? citationReport.citations : undefined,
+                tool_approvals: pendingToolApprovals.length > 0 ? pendingToolApprovals : undefined,
+                task_graphs: taskGraphIds.length > 0 ? taskGraphIds : undefined,
+                context_manifest: contextManifest || undefined
               }
             })
             .eq('id', placeholderMsg.id);
 
+          // 🧠 Fold messages that left the history window into the conversation memory (fire-and-forget)
+          if (memoryEnabled) {
+            supabase.functions.invoke('update-conversation-memory', {
+              body: { conversationId: conversation.id }
+            }).catch((err: unknown) => {
+              console.error(`❌ [REQ-${requestId}] Failed to trigger memory update:`, err);
+            });
+          }
+
           // ========== POST-PROCESSING: PARSING TABELLA PDF ==========
           if (agent.slug.includes('knowledge-search-expert')) {
             console.log(`📋 [REQ-${requestId}] Checking for PDF table in response`);
@@ -8243,7 +8112,11 @@ Requires Tool Server running locally on port 8766.`,
             llmProvider: llmProvider,  // Send provider info to client
             metadata: {
               retrieval_metadata: retrievalMetadata,
-              knowledge_stats: knowledgeStats
+              knowledge_stats: knowledgeStats,
+              citations: citationReport.citations,
+              tool_approvals: pendingToolApprovals,
+              task_graphs: taskGraphIds,
+              context_manifest: contextManifest
             }
           }));
           
@@ -2,6 +2,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { 
   AGENT_TYPE_WEIGHTS,
+  detectAgentType,
   type ScoringWeights 
 } from '../_shared/agentWeights.ts';
 import { createLogger, type EdgeFunctionLogger } from '../_shared/logger.ts';
@@ -45,85 +46,6 @@ interface KnowledgeChunk {
   pool_document_id: string | null;
 }
 
-/**
- * Detects agent type from system prompt using keyword analysis.
- * Uses the universal categorization from agentWeights.ts
- */
-function detectAgentType(systemPrompt: string): string {
-  const promptLower = systemPrompt.toLowerCase();
-  
-  // NARRATIVE - Biographies, stories, historical accounts (check FIRST - very specific)
-  if (
-    promptLower.includes('biography') || 
-    promptLower.includes('biographical') || 
-    promptLower.includes('vita') || 
-    promptLower.includes('life of') ||
-    promptLower.includes('story') ||
-    promptLower.includes('narrative') ||
-    promptLower.includes('creative writing')
-  ) {
-    return 'narrative';
-  }
-  
-  // DOMAIN-EXPERT - Medical, Legal, Compliance
-  if (
-    promptLower.includes('diagnose') || 
-    promptLower.includes('medical') || 
-    promptLower.includes('health') || 
-    promptLower.includes('patient') ||
-    promptLower.includes('clinical') ||
-    promptLower.includes('treatment') ||
-    promptLower.includes('legal') || 
-    promptLower.includes('contract') || 
-    promptLower.includes('compliance') || 
-    promptLower.includes('law') ||
-    promptLower.includes('regulation')
-  ) {
-    return 'domain-expert';
-  }
-  
-  // RESEARCH - Academic, scientific, analysis
-  if (
-    promptLower.includes('research') || 
-    promptLower.includes('academic') || 
-    promptLower.includes('paper') || 
-    promptLower.includes('scholar') ||
-    promptLower.includes('scientific') ||
-    promptLower.includes('analysis')
-  ) {
-    return 'research';
-  }
-  
-  // TECHNICAL - Engineering, development, IT
-  if (
-    promptLower.includes('code') || 
-    promptLower.includes('technical') || 
-    promptLower.includes('engineer') || 
-    promptLower.includes('develop') ||
-    promptLower.includes('programming') ||
-    promptLower.includes('software')
-  ) {
-    return 'technical';
-  }
-  
-  // PROCEDURAL - Support, operations, workflows
-  if (
-    promptLower.includes('support') || 
-    promptLower.includes('help') || 
-    promptLower.includes('guide') || 
-    promptLower.includes('assist') ||
-    promptLower.includes('workflow') ||
-    promptLower.includes('procedure') ||
-    promptLower.includes('how-to') ||
-    promptLower.includes('operations')
-  ) {
-    return 'procedural';
-  }
-  
-  // DEFAULT - General purpose agents
-  return 'general';
-}
-
 /**
  * Extract JSON from LLM response, removing markdown code blocks if present
  */
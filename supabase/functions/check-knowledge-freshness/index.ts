@@ -0,0 +1,270 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { beginDocumentVersion } from '../_shared/documentVersions.ts';
+import {
+  alertDependentAgents,
+  checkDocumentSource,
+  type DocumentSource,
+  type FreshnessStatus,
+  type SourceCheck,
+} from '../_shared/documentSources.ts';
+
+declare const EdgeRuntime: {
+  waitUntil(promise: Promise<unknown>): void;
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BATCH_SIZE = 25;
+const TIME_BUDGET_MS = 120_000;
+// Failed checks in a row before the source is reported as stale
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+interface SourceDocument {
+  id: string;
+  file_name: string;
+  storage_bucket: string | null;
+}
+
+interface CheckResult {
+  sourceId: string;
+  documentId: string;
+  outcome: SourceCheck['outcome'] | 'error';
+  status: FreshnessStatus;
+  refreshed: boolean;
+  alerts: number;
+  error?: string;
+}
+
+/**
+ * Store the new content on the document and start a new version. Returns false when the content
+ * matches the current version (nothing to re-process).
+ */
+async function refreshDocument(
+  supabase: SupabaseClient,
+  doc: SourceDocument,
+  check: SourceCheck
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const content = check.content;
+  if (!content) throw new Error('Changed source returned no content');
+  let update: Record<string, unknown>;
+
+  if ('text' in content) {
+    update = { full_text: content.text, file_size_bytes: content.text.length };
+  } else {
+    // New file next to the old one: the previous version stays readable in storage
+    const filePath = `${crypto.randomUUID()}/${doc.file_name}`;
+    const { error: uploadError } = await supabase.storage
+      .from('pipeline-a-uploads')
+      .upload(filePath, content.bytes, { contentType: 'application/pdf', upsert: false });
+    if (uploadError) throw new Error(`Storage upload failed: ${uploadError.message}`);
+    update = {
+      file_path: filePath,
+      storage_bucket: 'pipeline-a-uploads',
+      file_size_bytes: content.bytes.byteLength,
+      llamaparse_job_id: null,
+    };
+  }
+
+  const { error: updateError } = await supabase
+    .from('pipeline_a_hybrid_documents')
+    .update({ ...update, status: 'ingested', error_message: null, updated_at: now })
+    .eq('id', doc.id);
+  if (updateError) throw new Error(`Failed to update document: ${updateError.message}`);
+
+  const version = await beginDocumentVersion(supabase, 'pipeline_a_hybrid', doc.id, check.contentHash!, 'freshness');
+  if (!version) return false;
+
+  EdgeRuntime.waitUntil(
+    supabase.functions.invoke('pipeline-a-hybrid-process-chunks', { body: { documentId: doc.id } })
+      .catch(err => console.warn(`[Knowledge Freshness] Failed to trigger processing for ${doc.file_name} (will retry via cron):`, err))
+  );
+  return true;
+}
+
+async function checkSource(
+  supabase: SupabaseClient,
+  source: DocumentSource,
+  forceRefresh: boolean
+): Promise<CheckResult> {
+  const now = new Date();
+  const result: CheckResult = {
+    sourceId: source.id,
+    documentId: source.document_id,
+    outcome: 'unchanged',
+    status: source.freshness_status,
+    refreshed: false,
+    alerts: 0,
+  };
+
+  const { data: doc } = await supabase
+    .from('pipeline_a_hybrid_documents')
+    .select('id, file_name, storage_bucket')
+    .eq('id', source.document_id)
+    .maybeSingle();
+
+  // Document deleted from the pool: nothing left to keep fresh
+  if (!doc) {
+    await supabase.from('document_sources').delete().eq('id', source.id);
+    console.log(`🗑️ [Knowledge Freshness] Document ${source.document_id} no longer exists, source removed`);
+    return { ...result, outcome: 'removed', status: 'removed' };
+  }
+
+  const update: Record<string, unknown> = {
+    last_checked_at: now.toISOString(),
+    next_check_at: new Date(now.getTime() + source.check_interval_hours * 3600 * 1000).toISOString(),
+    updated_at: now.toISOString(),
+  };
+  let alertReason: string | null = null;
+
+  try {
+    const check = await checkDocumentSource(source, !(doc as SourceDocument).storage_bucket);
+    result.outcome = check.outcome;
+    update.consecutive_failures = 0;
+    update.last_error = null;
+
+    if (check.outcome === 'removed') {
+      result.status = 'removed';
+      alertReason = 'la fonte non esiste più';
+    } else if (check.outcome === 'unchanged') {
+      result.status = 'fresh';
+      Object.assign(update, {
+        etag: check.etag,
+        last_modified: check.lastModified,
+        commit_sha: check.commitSha,
+        content_hash: check.contentHash,
+      });
+    } else if (source.refresh_policy === 'auto' || forceRefresh) {
+      update.last_changed_at = now.toISOString();
+      await supabase.from('document_sources').update({ freshness_status: 'refreshing' }).eq('id', source.id);
+      try {
+        result.refreshed = await refreshDocument(supabase, doc as SourceDocument, check);
+        result.status = 'fresh';
+        Object.assign(update, {
+          etag: check.etag,
+          last_modified: check.lastModified,
+          commit_sha: check.commitSha,
+          content_hash: check.contentHash,
+          last_refreshed_at: now.toISOString(),
+        });
+      } catch (refreshError) {
+        const message = refreshError instanceof Error ? refreshError.message : 'Unknown error';
+        result.status = 'stale';
+        result.error = message;
+        update.last_error = `Aggiornamento fallito: ${message}`;
+        alertReason = `aggiornamento automatico fallito (${message})`;
+      }
+    } else {
+      // notify: the markers stay on the ingested content so the change is reported until refreshed
+      if (source.freshness_status !== 'stale') update.last_changed_at = now.toISOString();
+      result.status = 'stale';
+      alertReason = 'la fonte è cambiata dopo l\'ultima ingestione';
+    }
+  } catch (checkError) {
+    const message = checkError instanceof Error ? checkError.message : 'Unknown error';
+    const failures = source.consecutive_failures + 1;
+    result.outcome = 'error';
+    result.error = message;
+    result.status = failures >= MAX_CONSECUTIVE_FAILURES ? 'stale' : 'error';
+    update.consecutive_failures = failures;
+    update.last_error = message;
+    if (result.status === 'stale') alertReason = `fonte non raggiungibile da ${failures} controlli (${message})`;
+  }
+
+  update.freshness_status = result.status;
+  const { error: updateError } = await supabase.from('document_sources').update(update).eq('id', source.id);
+  if (updateError) console.error(`❌ [Knowledge Freshness] Failed to update source ${source.id}:`, updateError.message);
+
+  // Alert once per transition, not at every check of a source that stays stale
+  if (alertReason && result.status !== source.freshness_status && (result.status === 'stale' || result.status === 'removed')) {
+    try {
+      result.alerts = await alertDependentAgents(supabase, source, (doc as SourceDocument).file_name, result.status, alertReason);
+    } catch (alertError) {
+      console.error('❌ [Knowledge Freshness] Failed to raise alerts:', alertError);
+    }
+  }
+
+  const icon = result.status === 'fresh' ? '✅' : result.status === 'error' ? '❌' : '⚠️';
+  console.log(`${icon} [Knowledge Freshness] ${(doc as SourceDocument).file_name}: ${result.outcome} → ${result.status}${result.refreshed ? ' (re-ingested)' : ''}`);
+  return result;
+}
+
+/**
+ * Check the live sources of ingested documents.
+ *
+ * POST { sourceId, refresh? } checks one source now (refresh: true re-ingests a changed source
+ * even with the 'notify' policy); an empty body (cron) checks every source whose next_check_at is
+ * due, continuing in a fresh invocation while due sources are left.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  const startedAt = Date.now();
+
+  try {
+    const { sourceId, refresh } = await req.json().catch(() => ({}));
+    const nowIso = new Date().toISOString();
+
+    let sources: DocumentSource[];
+    if (sourceId) {
+      const { data, error } = await supabase.from('document_sources').select('*').eq('id', sourceId).single();
+      if (error || !data) throw new Error(`Document source not found: ${sourceId}`);
+      sources = [data as DocumentSource];
+    } else {
+      const { data, error } = await supabase
+        .from('document_sources')
+        .select('*')
+        .neq('refresh_policy', 'manual')
+        .or(`next_check_at.is.null,next_check_at.lte.${nowIso}`)
+        .order('next_check_at', { ascending: true, nullsFirst: true })
+        .limit(BATCH_SIZE);
+      if (error) throw new Error(`Failed to load document sources: ${error.message}`);
+      sources = (data || []) as DocumentSource[];
+    }
+
+    console.log(`🔎 [Knowledge Freshness] Checking ${sources.length} source(s)`);
+
+    const results: CheckResult[] = [];
+    for (const source of sources) {
+      if (Date.now() - startedAt > TIME_BUDGET_MS) break;
+      results.push(await checkSource(supabase, source, !!sourceId && refresh === true));
+    }
+
+    // More due sources: continue in a fresh invocation instead of waiting for the next cron tick
+    if (!sourceId) {
+      const { count: remaining } = await supabase
+        .from('document_sources')
+        .select('id', { count: 'exact', head: true })
+        .neq('refresh_policy', 'manual')
+        .or(`next_check_at.is.null,next_check_at.lte.${nowIso}`);
+
+      if ((remaining || 0) > 0 && results.length > 0) {
+        EdgeRuntime.waitUntil(
+          fetch(`${supabaseUrl}/functions/v1/check-knowledge-freshness`, {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${supabaseKey}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify({}),
+          }).catch(err => console.error('[Knowledge Freshness] Failed to continue:', err))
+        );
+      }
+    }
+
+    return new Response(JSON.stringify({ success: true, results }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('❌ [Knowledge Freshness] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,192 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { createConnector } from '../_shared/connectorRegistry.ts';
+import type { ConnectorConfigRow, ConnectorItem } from '../_shared/connectors.ts';
+
+declare const EdgeRuntime: {
+  waitUntil(promise: Promise<unknown>): void;
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const KEY_BATCH_SIZE = 100;
+
+interface ConnectorRow extends ConnectorConfigRow {
+  name: string;
+  pipeline: string;
+  sync_cursor: Record<string, unknown> | null;
+  sync_interval_minutes: number | null;
+}
+
+interface QueuedItem {
+  item_key: string;
+  item_version: string | null;
+  status: string;
+}
+
+interface SyncResult {
+  connectorId: string;
+  name: string;
+  listed: number;
+  enqueued: number;
+  error?: string;
+}
+
+/**
+ * Enqueue listed items: new keys are inserted, known keys are re-queued only when their version
+ * changed (or when the last attempt failed)
+ */
+async function enqueueItems(supabase: SupabaseClient, connector: ConnectorRow, items: ConnectorItem[]): Promise<number> {
+  let enqueued = 0;
+  const now = new Date().toISOString();
+
+  for (let i = 0; i < items.length; i += KEY_BATCH_SIZE) {
+    const batch = items.slice(i, i + KEY_BATCH_SIZE);
+    const { data: existing, error } = await supabase
+      .from('ingestion_queue')
+      .select('item_key, item_version, status')
+      .eq('connector_id', connector.id)
+      .in('item_key', batch.map(item => item.key));
+    if (error) throw new Error(`Failed to read ingestion queue: ${error.message}`);
+
+    const known = new Map<string, QueuedItem>((existing || []).map((row: QueuedItem) => [row.item_key, row]));
+    const rows = batch
+      .filter(item => {
+        const row = known.get(item.key);
+        if (!row) return true;
+        if (row.status === 'pending' || row.status === 'processing') return false;
+        return row.status === 'failed' || item.version === null || row.item_version !== item.version;
+      })
+      .map(item => ({
+        connector_id: connector.id,
+        pipeline: connector.pipeline,
+        item_key: item.key,
+        item_version: item.version,
+        title: item.title.slice(0, 500),
+        source_url: item.sourceUrl || null,
+        status: 'pending',
+        retry_count: 0,
+        error_message: null,
+        updated_at: now,
+      }));
+
+    if (rows.length === 0) continue;
+    const { error: upsertError } = await supabase
+      .from('ingestion_queue')
+      .upsert(rows, { onConflict: 'connector_id,item_key' });
+    if (upsertError) throw new Error(`Failed to enqueue items: ${upsertError.message}`);
+    enqueued += rows.length;
+  }
+  return enqueued;
+}
+
+async function syncConnector(supabase: SupabaseClient, connector: ConnectorRow): Promise<SyncResult> {
+  const startedAt = new Date();
+  const nextSyncAt = connector.sync_interval_minutes
+    ? new Date(startedAt.getTime() + connector.sync_interval_minutes * 60 * 1000).toISOString()
+    : null;
+
+  await supabase
+    .from('ingestion_connectors')
+    .update({ last_sync_status: 'running', updated_at: startedAt.toISOString() })
+    .eq('id', connector.id);
+
+  try {
+    const listing = await createConnector(supabase, connector).listItems(connector.sync_cursor);
+    const enqueued = await enqueueItems(supabase, connector, listing.items);
+
+    // Cursor only moves once the items are safely in the queue
+    await supabase
+      .from('ingestion_connectors')
+      .update({
+        sync_cursor: listing.cursor,
+        last_sync_at: startedAt.toISOString(),
+        next_sync_at: nextSyncAt,
+        last_sync_status: 'completed',
+        last_sync_items: enqueued,
+        last_error: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', connector.id);
+
+    console.log(`✅ [Connector Sync] ${connector.name}: ${listing.items.length} listed, ${enqueued} enqueued`);
+    return { connectorId: connector.id, name: connector.name, listed: listing.items.length, enqueued };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`❌ [Connector Sync] ${connector.name} failed:`, message);
+    await supabase
+      .from('ingestion_connectors')
+      .update({
+        last_sync_at: startedAt.toISOString(),
+        next_sync_at: nextSyncAt,
+        last_sync_status: 'failed',
+        last_error: message,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', connector.id);
+    return { connectorId: connector.id, name: connector.name, listed: 0, enqueued: 0, error: message };
+  }
+}
+
+/**
+ * Sync ingestion connectors into the ingest queue.
+ *
+ * POST { connectorId } syncs one connector now; an empty body (cron) syncs every active connector
+ * whose next_sync_at is due. process-ingest-queue is triggered when anything was enqueued.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { connectorId } = await req.json().catch(() => ({}));
+    const columns = 'id, name, connector_type, pipeline, config, sync_cursor, sync_interval_minutes';
+
+    let connectors: ConnectorRow[];
+    if (connectorId) {
+      const { data, error } = await supabase.from('ingestion_connectors').select(columns).eq('id', connectorId).single();
+      if (error || !data) throw new Error(`Connector not found: ${connectorId}`);
+      connectors = [data as ConnectorRow];
+    } else {
+      const { data, error } = await supabase
+        .from('ingestion_connectors')
+        .select(columns)
+        .eq('is_active', true)
+        .not('sync_interval_minutes', 'is', null)
+        .or(`next_sync_at.is.null,next_sync_at.lte.${new Date().toISOString()}`);
+      if (error) throw new Error(`Failed to load connectors: ${error.message}`);
+      connectors = (data || []) as ConnectorRow[];
+    }
+
+    console.log(`🔌 [Connector Sync] Syncing ${connectors.length} connector(s)`);
+
+    const results: SyncResult[] = [];
+    for (const connector of connectors) {
+      results.push(await syncConnector(supabase, connector));
+    }
+
+    if (results.some(result => result.enqueued > 0)) {
+      EdgeRuntime.waitUntil(
+        supabase.functions.invoke('process-ingest-queue', { body: {} })
+          .catch(err => console.error('[Connector Sync] Failed to trigger process-ingest-queue:', err))
+      );
+    }
+
+    return new Response(JSON.stringify({ success: true, results }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('❌ [Connector Sync] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
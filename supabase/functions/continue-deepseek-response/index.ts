@@ -1,5 +1,6 @@
 // Force redeploy: 2025-12-18T00:00:00Z
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.7';
+import { callLLM } from '../_shared/llmGateway.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -85,31 +86,17 @@ async function callDeepSeekForContinuation(
     }
   ];
   
-  const response = await fetch('https://api.deepseek.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${deepseekApiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'deepseek-chat',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        ...continuationMessages
-      ],
-      temperature: 0.7,
-      max_tokens: 8000,
-      stream: false
-    }),
+  const result = await callLLM({
+    provider: 'deepseek',
+    model: 'deepseek-chat',
+    apiKey: deepseekApiKey,
+    system: systemPrompt,
+    messages: continuationMessages,
+    temperature: 0.7,
+    maxTokens: 8000,
+    source: 'continue-deepseek-response',
   });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`DeepSeek API error (${response.status}): ${error}`);
-  }
-
-  const data = await response.json();
-  const continuation = data.choices?.[0]?.message?.content || '';
+  const continuation = result.text;
   
   console.log(`✅ [CONTINUE-${requestId}] DeepSeek continuation received: ${continuation.length} chars`);
   return continuation;
@@ -154,7 +141,7 @@ async function callClaudeForContinuation(
   const claudeModel = resolveClaudeModel(aiModel);
   console.log(`🔄 [CONTINUE-${requestId}] Requesting continuation from Claude (model: ${claudeModel})...`);
   
-  const continuationMessages = [
+  const continuationMessages: Message[] = [
     ...messages.map(m => ({
       role: m.role,
       content: m.content
@@ -166,30 +153,17 @@ async function callClaudeForContinuation(
     }
   ];
   
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': anthropicApiKey,
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: claudeModel,
-      system: systemPrompt,
-      messages: continuationMessages,
-      max_tokens: 8192,
-      temperature: 0.7,
-      stream: false
-    }),
+  const result = await callLLM({
+    provider: 'anthropic',
+    model: claudeModel,
+    apiKey: anthropicApiKey,
+    system: systemPrompt,
+    messages: continuationMessages,
+    temperature: 0.7,
+    maxTokens: 8192,
+    source: 'continue-deepseek-response',
   });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Claude API error (${response.status}): ${error}`);
-  }
-
-  const data = await response.json();
-  const continuation = data.content?.[0]?.text || '';
+  const continuation = result.text;
   
   console.log(`✅ [CONTINUE-${requestId}] Claude continuation received: ${continuation.length} chars`);
   return continuation;
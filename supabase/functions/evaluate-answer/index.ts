@@ -1,5 +1,8 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { runScorerChain, SCORING_MODES, type ScorerName, type ScoringMode } from "../_shared/answerScorers.ts";
+import { callLLM } from "../_shared/llmGateway.ts";
+import type { UsageContext } from "../_shared/usageLedger.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,6 +14,8 @@ interface EvaluationRequest {
   agentResponse: string;
   groundTruths: string[];
   suiteCategory?: string;
+  scoringMode?: ScoringMode;
+  benchmarkRunId?: string; // attributes judge costs to the run in the usage ledger
 }
 
 interface EvaluationResult {
@@ -18,6 +23,20 @@ interface EvaluationResult {
   reason: string;
 }
 
+interface ScoredEvaluation extends EvaluationResult {
+  scorer: ScorerName;
+  scoring_mode: ScoringMode;
+  llm_called: boolean;
+  // Intermediate scores, stored per result to audit scorer disagreements
+  scores: {
+    exact: number;
+    normalized: number;
+    anls: number;
+    token_f1: number;
+    llm_judge: boolean | null;
+  };
+}
+
 function cleanJsonString(text: string): string {
   text = text.trim();
   const jsonMatch = text.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
@@ -32,28 +51,18 @@ function cleanJsonString(text: string): string {
   return text;
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const { question, agentResponse, groundTruths, suiteCategory }: EvaluationRequest = await req.json();
-    
-    if (!question || !agentResponse || !groundTruths || groundTruths.length === 0) {
-      throw new Error('Missing required fields: question, agentResponse, groundTruths');
-    }
-
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY not configured');
-    }
-
-    // Determine if this is a reasoning-based suite (narrative, science)
-    const isReasoningSuite = suiteCategory === 'narrative' || suiteCategory === 'science';
-
-    // FACTUAL_JUDGE_PROMPT: For precise factual data (dates, numbers, names)
-    const FACTUAL_JUDGE_PROMPT = `You are an impartial judge evaluating QA accuracy.
+/**
+ * Remote LLM judge (factual or reasoning prompt depending on the suite)
+ */
+async function llmJudge(
+  question: string,
+  agentResponse: string,
+  groundTruths: string[],
+  isReasoningSuite: boolean,
+  usageContext?: UsageContext
+): Promise<EvaluationResult> {
+  // FACTUAL_JUDGE_PROMPT: For precise factual data (dates, numbers, names)
+  const FACTUAL_JUDGE_PROMPT = `You are an impartial judge evaluating QA accuracy.
 
 Question: ${question}
 Ground Truth(s): ${groundTruths.join(' OR ')}
@@ -76,8 +85,8 @@ EVALUATION RULES:
 Respond ONLY with valid JSON:
 {"correct": boolean, "reason": "brief explanation in italiano"}`;
 
-    // REASONING_JUDGE_PROMPT: For deep understanding and synthesis (narrative, science)
-    const REASONING_JUDGE_PROMPT = `You are evaluating REASONING-BASED answers that require synthesis and understanding.
+  // REASONING_JUDGE_PROMPT: For deep understanding and synthesis (narrative, science)
+  const REASONING_JUDGE_PROMPT = `You are evaluating REASONING-BASED answers that require synthesis and understanding.
 
 Question: ${question}
 Ground Truth: ${groundTruths.join(' OR ')}
@@ -96,60 +105,109 @@ EVALUATION RULES FOR REASONING:
 Respond ONLY with valid JSON:
 {"correct": boolean, "reason": "brief explanation in italiano"}`;
 
-    // Select appropriate prompt based on suite category
-    const JUDGE_PROMPT = isReasoningSuite ? REASONING_JUDGE_PROMPT : FACTUAL_JUDGE_PROMPT;
-
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: 'You are a precise evaluation judge. Always respond with valid JSON only.' },
-          { role: 'user', content: JUDGE_PROMPT }
-        ]
-      }),
-    });
+  // Select appropriate prompt based on suite category
+  const JUDGE_PROMPT = isReasoningSuite ? REASONING_JUDGE_PROMPT : FACTUAL_JUDGE_PROMPT;
+
+  const result = await callLLM({
+    provider: 'lovable',
+    model: 'google/gemini-2.5-flash',
+    system: 'You are a precise evaluation judge. Always respond with valid JSON only.',
+    messages: [
+      { role: 'user', content: JUDGE_PROMPT }
+    ],
+    source: 'evaluate-answer',
+    usageContext,
+  });
+
+  const judgeResponse = result.text;
+  console.log('Judge response content:', judgeResponse);
+  
+  if (!judgeResponse || judgeResponse.trim() === '') {
+    console.error('Empty response from LLM judge');
+    throw new Error('Empty response from LLM judge');
+  }
+  
+  const cleanedJson = cleanJsonString(judgeResponse);
+  console.log('Cleaned JSON:', cleanedJson);
+  
+  if (!cleanedJson || cleanedJson.trim() === '') {
+    console.error('cleanJsonString returned empty string');
+    throw new Error('Failed to extract JSON from LLM response');
+  }
+  
+  const evaluation: EvaluationResult = JSON.parse(cleanedJson);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Lovable AI error:', response.status, errorText);
-      throw new Error(`Lovable AI error: ${response.status}`);
-    }
+  if (typeof evaluation.correct !== 'boolean' || !evaluation.reason) {
+    throw new Error('Invalid evaluation format from LLM');
+  }
 
-    const data = await response.json();
-    console.log('Lovable AI response data:', JSON.stringify(data, null, 2));
-    
-    if (!data.choices || !data.choices[0] || !data.choices[0].message) {
-      console.error('Invalid response structure from Lovable AI:', data);
-      throw new Error('Invalid response structure from LLM');
-    }
-    
-    const judgeResponse = data.choices[0].message.content;
-    console.log('Judge response content:', judgeResponse);
-    
-    if (!judgeResponse || judgeResponse.trim() === '') {
-      console.error('Empty response from LLM judge');
-      throw new Error('Empty response from LLM judge');
-    }
-    
-    const cleanedJson = cleanJsonString(judgeResponse);
-    console.log('Cleaned JSON:', cleanedJson);
+  return evaluation;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { question, agentResponse, groundTruths, suiteCategory, scoringMode, benchmarkRunId }: EvaluationRequest = await req.json();
     
-    if (!cleanedJson || cleanedJson.trim() === '') {
-      console.error('cleanJsonString returned empty string');
-      throw new Error('Failed to extract JSON from LLM response');
+    if (!question || !agentResponse || !groundTruths || groundTruths.length === 0) {
+      throw new Error('Missing required fields: question, agentResponse, groundTruths');
     }
-    
-    const evaluation: EvaluationResult = JSON.parse(cleanedJson);
 
-    if (typeof evaluation.correct !== 'boolean' || !evaluation.reason) {
-      throw new Error('Invalid evaluation format from LLM');
+    // Determine if this is a reasoning-based suite (narrative, science)
+    const isReasoningSuite = suiteCategory === 'narrative' || suiteCategory === 'science';
+
+    // Cheap scorers can't judge synthesis answers: reasoning suites default to the LLM judge
+    const mode: ScoringMode = scoringMode && SCORING_MODES.includes(scoringMode)
+      ? scoringMode
+      : (isReasoningSuite ? 'llm' : 'chain');
+
+    const chain = runScorerChain(agentResponse, groundTruths);
+    const scores: ScoredEvaluation['scores'] = {
+      exact: chain.scores.exact.score,
+      normalized: chain.scores.normalized.score,
+      anls: chain.scores.anls.score,
+      token_f1: chain.scores.token_f1.score,
+      llm_judge: null,
+    };
+
+    let evaluation: ScoredEvaluation;
+
+    if (mode !== 'llm' && chain.decided) {
+      evaluation = { ...chain.decided, scoring_mode: mode, llm_called: false, scores };
+    } else if (mode === 'offline') {
+      evaluation = {
+        correct: chain.majority,
+        reason: `${chain.contained ? 'Ground truth contenuto nella risposta ma non uguale' : 'Scorer in disaccordo'}, voto di maggioranza (ANLS ${scores.anls.toFixed(2)}, F1 ${scores.token_f1.toFixed(2)})`,
+        scorer: 'majority',
+        scoring_mode: mode,
+        llm_called: false,
+        scores,
+      };
+    } else {
+      try {
+        const judged = await llmJudge(question, agentResponse, groundTruths, isReasoningSuite, { benchmarkRunId: benchmarkRunId || null });
+        scores.llm_judge = judged.correct;
+        evaluation = { ...judged, scorer: 'llm_judge', scoring_mode: mode, llm_called: true, scores };
+      } catch (judgeError) {
+        // In chain mode the cheap scorers still give a usable verdict
+        if (mode === 'llm') throw judgeError;
+        console.error('LLM judge failed, falling back to majority vote:', judgeError);
+        evaluation = {
+          correct: chain.majority,
+          reason: `LLM judge non disponibile, voto di maggioranza degli scorer`,
+          scorer: 'majority',
+          scoring_mode: mode,
+          llm_called: true,
+          scores,
+        };
+      }
     }
 
+    console.log(`[evaluate-answer] mode=${mode} scorer=${evaluation.scorer} correct=${evaluation.correct}`, scores);
+
     return new Response(JSON.stringify(evaluation), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { callLLM, LLMGatewayError } from '../_shared/llmGateway.ts';
+import type { UsageContext } from '../_shared/usageLedger.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -79,7 +81,7 @@ async function hashQuery(query: string): Promise<string> {
 }
 
 // LLM expansion using Lovable AI Gateway
-async function expandWithLLM(query: string, lovableApiKey: string): Promise<string | null> {
+async function expandWithLLM(query: string, usageContext?: UsageContext): Promise<string | null> {
   const prompt = `Expand this financial query with synonyms and related terms found in SEC filings (10-K, 10-Q, 8-K).
 Add:
 - GAAP/IFRS equivalent terms
@@ -92,35 +94,21 @@ Return ONLY the expanded query as a single line, no explanation or formatting.
 Query: "${query}"`;
 
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000); // 5s timeout
-
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${lovableApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash-lite', // Cheapest model
-        messages: [
-          { role: 'user', content: prompt }
-        ],
-        max_tokens: 200,
-        temperature: 0.3, // Low temp for consistency
-      }),
-      signal: controller.signal,
+    const result = await callLLM({
+      provider: 'lovable',
+      model: 'google/gemini-2.5-flash-lite', // Cheapest model
+      messages: [
+        { role: 'user', content: prompt }
+      ],
+      maxTokens: 200,
+      temperature: 0.3, // Low temp for consistency
+      timeoutMs: 5000, // 5s timeout
+      retries: 0, // Dictionary expansion is the fallback, no time for retries
+      source: 'expand-query-llm',
+      usageContext,
     });
 
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      console.error(`[LLM Expand] API error: ${response.status}`);
-      return null;
-    }
-
-    const data = await response.json();
-    const expandedQuery = data.choices?.[0]?.message?.content?.trim();
+    const expandedQuery = result.text?.trim();
     
     if (!expandedQuery) {
       console.error('[LLM Expand] Empty response from LLM');
@@ -131,11 +119,10 @@ Query: "${query}"`;
     return expandedQuery;
 
   } catch (error: unknown) {
-    const err = error as Error;
-    if (err.name === 'AbortError') {
+    if (error instanceof LLMGatewayError && error.status === 408) {
       console.error('[LLM Expand] Timeout after 5s');
     } else {
-      console.error('[LLM Expand] Error:', err.message);
+      console.error('[LLM Expand] Error:', error instanceof Error ? error.message : error);
     }
     return null;
   }
@@ -147,7 +134,7 @@ serve(async (req) => {
   }
 
   try {
-    const { query } = await req.json();
+    const { query, usageContext } = await req.json();
 
     if (!query) {
       throw new Error('No query provided');
@@ -213,7 +200,7 @@ serve(async (req) => {
       console.log('   Calling Lovable AI Gateway...');
       
       const startTime = Date.now();
-      const llmResult = await expandWithLLM(query, lovableApiKey);
+      const llmResult = await expandWithLLM(query, usageContext);
       const elapsed = Date.now() - startTime;
       
       console.log(`   ⏱️  LLM call took: ${elapsed}ms`);
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hashBytes } from "../_shared/documentVersions.ts";
+import { registerDocumentSource } from "../_shared/documentSources.ts";
 
 declare const EdgeRuntime: any;
 
@@ -14,7 +16,7 @@ serve(async (req) => {
   }
 
   try {
-    const { url, fileName, folder } = await req.json();
+    const { url, fileName, folder, refreshPolicy } = await req.json();
 
     if (!url || !fileName) {
       return new Response(
@@ -82,6 +84,21 @@ serve(async (req) => {
 
     console.log(`[Ingest PDF from URL] Created document record: ${document.id}`);
 
+    // Track the URL so check-knowledge-freshness re-ingests the PDF when it changes
+    try {
+      await registerDocumentSource(supabase, {
+        documentId: document.id,
+        kind: 'url',
+        sourceUrl: url,
+        contentHash: await hashBytes(fileBuffer),
+        etag: response.headers.get('etag'),
+        lastModified: response.headers.get('last-modified'),
+        refreshPolicy,
+      });
+    } catch (sourceError) {
+      console.warn(`[Ingest PDF from URL] Failed to register source for freshness checks:`, sourceError);
+    }
+
     // Trigger batch splitting via event-driven invocation
     const triggerBatchSplit = async () => {
       try {
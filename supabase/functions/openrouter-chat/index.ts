@@ -1,16 +1,12 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { streamLLM, type LLMMessage } from "../_shared/llmGateway.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface Message {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -18,106 +14,45 @@ serve(async (req) => {
 
   try {
     const { messages, systemPrompt, model = 'deepseek/deepseek-chat' } = await req.json();
-    const openRouterApiKey = Deno.env.get('OPENROUTER_API_KEY');
-
-    if (!openRouterApiKey) {
-      throw new Error('OPENROUTER_API_KEY not configured');
-    }
 
     console.log(`[OpenRouter] Starting chat with model: ${model}`);
-
-    // Prepare messages with system prompt
-    const openRouterMessages: Message[] = [];
-    
-    if (systemPrompt) {
-      openRouterMessages.push({
-        role: 'system',
-        content: systemPrompt
-      });
-    }
-
-    openRouterMessages.push(...messages);
-
-    console.log(`[OpenRouter] Sending ${openRouterMessages.length} messages`);
+    console.log(`[OpenRouter] Sending ${messages.length + (systemPrompt ? 1 : 0)} messages`);
 
     // Call OpenRouter API with streaming
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openRouterApiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://lovable.dev', // Optional but recommended
-        'X-Title': 'Multi-Agent Consultant', // Optional but recommended
-      },
-      body: JSON.stringify({
-        model: model,
-        messages: openRouterMessages,
-        stream: true,
-        temperature: 0.7,
-      }),
+    const events = streamLLM({
+      provider: 'openrouter',
+      model,
+      system: systemPrompt,
+      messages: messages as LLMMessage[],
+      temperature: 0.7,
+      source: 'openrouter-chat',
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('[OpenRouter] API error:', response.status, errorText);
-      throw new Error(`OpenRouter API error: ${response.status} - ${errorText}`);
-    }
+    // Pull the first event before answering, so API errors still surface as HTTP 500
+    const first = await events.next();
 
     console.log('[OpenRouter] Starting to stream response');
 
     // Stream the response back to client
     const stream = new ReadableStream({
       async start(controller) {
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-
-        if (!reader) {
-          controller.close();
-          return;
-        }
-
         try {
-          while (true) {
-            const { done, value } = await reader.read();
-            
-            if (done) {
+          for (let step = first; !step.done; step = await events.next()) {
+            const event = step.value;
+            if (event.type === 'text') {
+              controller.enqueue(`data: ${JSON.stringify({
+                type: 'token',
+                content: event.text
+              })}\n\n`);
+            } else if (event.type === 'done') {
               console.log('[OpenRouter] Stream completed');
-              controller.enqueue(`data: ${JSON.stringify({ done: true })}\n\n`);
-              controller.close();
-              break;
-            }
-
-            const chunk = decoder.decode(value, { stream: true });
-            const lines = chunk.split('\n');
-
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                const data = line.slice(6);
-                
-                if (data === '[DONE]') {
-                  continue;
-                }
-
-                try {
-                  const parsed = JSON.parse(data);
-                  const content = parsed.choices?.[0]?.delta?.content;
-
-                  if (content) {
-                    controller.enqueue(`data: ${JSON.stringify({ 
-                      type: 'token',
-                      content: content 
-                    })}\n\n`);
-                  }
-                } catch (e) {
-                  // Skip invalid JSON chunks
-                  console.log('[OpenRouter] Skipping invalid JSON chunk');
-                }
-              }
+              controller.enqueue(`data: ${JSON.stringify({ done: true, usage: event.result.usage })}\n\n`);
             }
           }
+          controller.close();
         } catch (error) {
           console.error('[OpenRouter] Stream error:', error);
-          controller.enqueue(`data: ${JSON.stringify({ 
+          controller.enqueue(`data: ${JSON.stringify({
             type: 'error',
             error: error instanceof Error ? error.message : 'Unknown streaming error'
           })}\n\n`);
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { generateEmbedding } from '../_shared/embeddingService.ts';
+import { getWriteModel } from '../_shared/embeddingCollections.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -63,12 +65,13 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
     const supabase = createClient(supabaseUrl, supabaseKey);
+    const embeddingModel = await getWriteModel(supabase, 'pipeline_a');
 
-    if (!openaiApiKey) {
+    if (!openaiApiKey && embeddingModel.provider === 'openai') {
       throw new Error('OPENAI_API_KEY not configured');
     }
 
-    console.log('[Pipeline A Embeddings] Starting embedding generation...');
+    console.log(`[Pipeline A Embeddings] Starting embedding generation (model: ${embeddingModel.id})...`);
 
     // ============================================================
     // STUCK CHUNK RECOVERY: Reset chunks stuck in 'failed' for >10 minutes
@@ -111,7 +114,8 @@ serve(async (req) => {
         const { data: chunks } = await supabase
           .from('pipeline_a_chunks_raw')
           .select('id, embedding_status')
-          .eq('document_id', doc.id);
+          .eq('document_id', doc.id)
+          .neq('embedding_status', 'retired'); // chunks of previous versions
 
         if (!chunks || chunks.length === 0) {
           // Document in chunked/processing state but has no chunks - reset to ingested
@@ -196,31 +200,17 @@ serve(async (req) => {
         console.log(`[Pipeline A Embeddings] Embedding chunk ${chunk.id}: ${textToEmbed.length} chars (heading context: ${hasHeadingContext ? 'yes' : 'no'})`);
 
         // Generate embedding for content with retry logic
-        const embedding = await retryWithBackoff(async () => {
-          const response = await fetch('https://api.openai.com/v1/embeddings', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${openaiApiKey}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              model: 'text-embedding-3-small',
-              input: textToEmbed,
-            }),
-          });
-
-          if (!response.ok) {
-            throw new Error(`OpenAI error: ${response.status}`);
-          }
-
-          const data = await response.json();
-          return data.data[0].embedding;
-        }, 3, 500, 'OpenAI embedding');
+        const result = await retryWithBackoff(
+          () => generateEmbedding(textToEmbed, openaiApiKey || '', { source: 'pipeline-a-generate-embeddings', model: embeddingModel.id }),
+          3, 500, 'Embedding'
+        );
 
         await supabase
           .from('pipeline_a_chunks_raw')
           .update({
-            embedding: JSON.stringify(embedding),
+            embedding: JSON.stringify(result.embedding),
+            embedding_model: result.model,
+            embedding_dimension: result.dimension,
             embedding_status: 'ready',
             embedded_at: new Date().toISOString(),
           })
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { generateEmbedding } from "../_shared/embeddingService.ts";
+import { getWriteModel } from "../_shared/embeddingCollections.ts";
 
 // Declare EdgeRuntime for background task support
 declare const EdgeRuntime: {
@@ -177,8 +178,9 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const openaiKey = Deno.env.get('OPENAI_API_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
+    const embeddingModel = await getWriteModel(supabase, 'pipeline_a_hybrid');
 
-    console.log(`[Pipeline A-Hybrid Embeddings] Starting embedding generation (batch size: ${effectiveBatchSize})`);
+    console.log(`[Pipeline A-Hybrid Embeddings] Starting embedding generation (batch size: ${effectiveBatchSize}, model: ${embeddingModel.id})`);
 
     // Status reconciliation
     const { data: stuckDocs } = await supabase
@@ -193,7 +195,8 @@ serve(async (req) => {
         const { count: totalChunks } = await supabase
           .from('pipeline_a_hybrid_chunks_raw')
           .select('id', { count: 'exact', head: true })
-          .eq('document_id', doc.id);
+          .eq('document_id', doc.id)
+          .neq('embedding_status', 'retired'); // chunks of previous versions
 
         const { count: readyChunks } = await supabase
           .from('pipeline_a_hybrid_chunks_raw')
@@ -412,11 +415,13 @@ serve(async (req) => {
 
         const fileName = chunk.pipeline_a_hybrid_documents?.file_name || 'Unknown';
         const embeddingInput = await buildEmbeddingInput(chunk, fileName);
-        const result = await generateEmbedding(embeddingInput, openaiKey);
+        const result = await generateEmbedding(embeddingInput, openaiKey, { source: 'pipeline-a-hybrid-generate-embeddings', model: embeddingModel.id });
 
         // Prepare update object
         const updateData: any = {
           embedding: JSON.stringify(result.embedding),
+          embedding_model: result.model,
+          embedding_dimension: result.dimension,
           embedding_status: 'ready',
           embedded_at: new Date().toISOString()
         };
@@ -455,7 +460,8 @@ serve(async (req) => {
       const { count: totalChunks } = await supabase
         .from('pipeline_a_hybrid_chunks_raw')
         .select('id', { count: 'exact', head: true })
-        .eq('document_id', docId);
+        .eq('document_id', docId)
+        .neq('embedding_status', 'retired'); // chunks of previous versions
 
       const { count: readyChunks } = await supabase
         .from('pipeline_a_hybrid_chunks_raw')
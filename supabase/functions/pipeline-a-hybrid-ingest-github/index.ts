@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { beginDocumentVersion, hashBytes, hashText } from "../_shared/documentVersions.ts";
+import { registerDocumentSource, sanitizeTextContent } from "../_shared/documentSources.ts";
 
 declare const EdgeRuntime: any;
 
@@ -59,13 +61,6 @@ function isMarkdownFile(fileName: string): boolean {
   return lowerName.endsWith('.md') || lowerName.endsWith('.mdx');
 }
 
-// Sanitize text content to avoid database errors
-function sanitizeTextContent(content: string): string {
-  return content
-    .replace(/\0/g, '')
-    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
-}
-
 // Build hierarchical folder path that mirrors GitHub repository structure
 function buildHierarchicalFolder(baseFolder: string | null, repoName: string, filePath: string): string {
   // Extract the directory from the file path (without the filename)
@@ -331,15 +326,15 @@ serve(async (req) => {
             continue;
           }
 
-          // Check for duplicates before processing
+          // Check for duplicates before processing (text files are re-ingested as a new version when they changed)
           const { data: existingDoc } = await supabase
             .from('pipeline_a_hybrid_documents')
-            .select('id')
+            .select('id, content_hash')
             .eq('repo_url', repoUrl)
             .eq('repo_path', file.path)
             .maybeSingle();
 
-          if (existingDoc) {
+          if (existingDoc && !isTextFile(fileName)) {
             console.log(`[Pipeline A-Hybrid GitHub] ⏭️ Duplicate skipped: ${file.path}`);
             filesSkipped++;
             continue;
@@ -376,32 +371,48 @@ serve(async (req) => {
               continue;
             }
 
+            const contentHash = await hashText(sanitizedContent);
+            if (existingDoc && existingDoc.content_hash === contentHash) {
+              console.log(`[Pipeline A-Hybrid GitHub] ⏭️ Unchanged, skipped: ${file.path}`);
+              filesSkipped++;
+              continue;
+            }
+
             // Determine source_type: markdown vs code
             const sourceType = isMarkdownFile(fileName) ? 'markdown' : 'code';
-
-            // Insert into pipeline_a_hybrid_documents with status='pending_processing'
-            const { data: doc, error: insertError } = await supabase
-              .from('pipeline_a_hybrid_documents')
-              .insert({
-                file_name: fileName,
-                file_path: file.path,
-                full_text: sanitizedContent,
-                source_type: sourceType,
-                repo_url: repoUrl,
-                repo_path: file.path,
-                status: 'ingested',  // Valid status - job queue will handle processing
-                file_size_bytes: sanitizedContent.length,
-                storage_bucket: null,
-                folder: buildHierarchicalFolder(folder, repo, file.path),
-              })
-              .select('id')
-              .single();
+            const documentFields = {
+              file_name: fileName,
+              file_path: file.path,
+              full_text: sanitizedContent,
+              source_type: sourceType,
+              repo_url: repoUrl,
+              repo_path: file.path,
+              status: 'ingested',  // Valid status - job queue will handle processing
+              file_size_bytes: sanitizedContent.length,
+              storage_bucket: null,
+              folder: buildHierarchicalFolder(folder, repo, file.path),
+            };
+
+            // Insert into pipeline_a_hybrid_documents, or reset the existing document for a new version
+            const { data: doc, error: insertError } = existingDoc
+              ? await supabase
+                  .from('pipeline_a_hybrid_documents')
+                  .update({ ...documentFields, error_message: null, updated_at: new Date().toISOString() })
+                  .eq('id', existingDoc.id)
+                  .select('id')
+                  .single()
+              : await supabase
+                  .from('pipeline_a_hybrid_documents')
+                  .insert(documentFields)
+                  .select('id')
+                  .single();
 
             if (insertError) {
-              throw new Error(`Failed to insert document: ${insertError.message}`);
+              throw new Error(`Failed to ${existingDoc ? 'update' : 'insert'} document: ${insertError.message}`);
             }
 
-            console.log(`[Pipeline A-Hybrid GitHub] ✅ Text file ingested (${sourceType}): ${fileName}`);
+            await beginDocumentVersion(supabase, 'pipeline_a_hybrid', doc.id, contentHash, 'github');
+            console.log(`[Pipeline A-Hybrid GitHub] ✅ Text file ${existingDoc ? 're-ingested' : 'ingested'} (${sourceType}): ${fileName}`);
 
             // ★ UNIFIED PIPELINE: Trigger processing directly (same as markdown pipeline)
             // No separate queue - use the same event-driven pattern as PDF and Markdown
@@ -415,6 +426,16 @@ serve(async (req) => {
               })
             );
 
+            // Tracked for check-knowledge-freshness
+            await registerDocumentSource(supabase, {
+              documentId: doc.id,
+              kind: 'github',
+              repoUrl,
+              repoPath: file.path,
+              branch: effectiveBranch,
+              contentHash,
+            });
+
             filesIngested++;
           } else if (isPdfFile(fileName)) {
             // PDF FILE: Download, upload to storage, use split-pdf-into-batches (same as ingest-pdf)
@@ -491,6 +512,16 @@ serve(async (req) => {
               })
             );
 
+            // Tracked for check-knowledge-freshness
+            await registerDocumentSource(supabase, {
+              documentId: doc.id,
+              kind: 'github',
+              repoUrl,
+              repoPath: file.path,
+              branch: effectiveBranch,
+              contentHash: await hashBytes(new Uint8Array(arrayBuffer)),
+            });
+
             filesIngested++;
           }
         } catch (fileError) {
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ingestMarkdownDocument } from "../_shared/ingestSink.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -27,91 +28,30 @@ serve(async (req) => {
 
     console.log('[Pipeline A-Hybrid Ingest Markdown] Ingesting:', fileName);
 
-    // Create .md filename
-    const mdFileName = fileName.endsWith('.md') ? fileName : `${fileName}.md`;
-    const filePath = folder ? `${folder}/${mdFileName}` : mdFileName;
-
-    // Upload markdown to storage (upsert=true allows re-provisioning)
-    const markdownBlob = new Blob([markdownContent], { type: 'text/markdown' });
-    const { error: uploadError } = await supabase.storage
-      .from('pipeline-a-uploads')
-      .upload(filePath, markdownBlob, {
-        contentType: 'text/markdown',
-        upsert: true
-      });
-
-    if (uploadError) {
-      throw new Error(`Storage upload failed: ${uploadError.message}`);
-    }
-
-    console.log('[Pipeline A-Hybrid Ingest Markdown] Uploaded to storage:', filePath);
-
-    // Delete existing document with same file_name (allows re-provisioning)
-    const { data: existingDoc } = await supabase
-      .from('pipeline_a_hybrid_documents')
-      .select('id')
-      .eq('file_name', mdFileName)
-      .maybeSingle();
-
-    if (existingDoc) {
-      console.log('[Pipeline A-Hybrid Ingest Markdown] Deleting existing document:', existingDoc.id);
-      // Delete associated chunks first
-      await supabase
-        .from('pipeline_a_hybrid_chunks_raw')
-        .delete()
-        .eq('document_id', existingDoc.id);
-      
-      // Delete agent knowledge links
-      await supabase
-        .from('pipeline_a_hybrid_agent_knowledge')
-        .delete()
-        .eq('chunk_id', existingDoc.id);
-      
-      // Delete document
-      await supabase
-        .from('pipeline_a_hybrid_documents')
-        .delete()
-        .eq('id', existingDoc.id);
-    }
-
-    // Insert document record with source_type='markdown'
-    const { data: document, error: insertError } = await supabase
-      .from('pipeline_a_hybrid_documents')
-      .insert({
-        file_name: mdFileName,
-        file_path: filePath,
-        storage_bucket: 'pipeline-a-uploads',
-        source_type: 'markdown',
-        folder: folder || null,
-        file_size_bytes: new Blob([markdownContent]).size,
-        status: 'ingested'
-      })
-      .select()
-      .single();
-
-    if (insertError) {
-      throw new Error(`Database insert failed: ${insertError.message}`);
-    }
-
-    console.log('[Pipeline A-Hybrid Ingest Markdown] Document created:', document.id);
-
-    // Trigger processing (event-driven)
-    try {
-      supabase.functions.invoke('pipeline-a-hybrid-process-chunks', {
-        body: { documentId: document.id }
-      }).then(() => {
-        console.log('[Pipeline A-Hybrid Ingest Markdown] Triggered processing for', document.id);
-      });
-    } catch (invokeError) {
-      console.warn('[Pipeline A-Hybrid Ingest Markdown] Failed to trigger processing (will be handled by cron):', invokeError);
+    // Same file_name = new version of the same document (id, agent links and unchanged chunks are kept)
+    const result = await ingestMarkdownDocument(supabase, 'pipeline_a_hybrid', {
+      fileName,
+      markdown: markdownContent,
+      folder,
+      source: 'markdown',
+    });
+
+    if (result.unchanged) {
+      console.log('[Pipeline A-Hybrid Ingest Markdown] Content unchanged, skipping:', result.documentId);
+    } else {
+      console.log(`[Pipeline A-Hybrid Ingest Markdown] Document ${result.created ? 'created' : 're-ingested'}: ${result.documentId} (v${result.version})`);
     }
 
     return new Response(
       JSON.stringify({ 
         success: true, 
-        documentId: document.id,
-        fileName: mdFileName,
-        message: 'Markdown ingested successfully'
+        documentId: result.documentId,
+        fileName: result.fileName,
+        version: result.version,
+        unchanged: result.unchanged,
+        message: result.unchanged
+          ? 'Markdown unchanged, nothing to re-ingest'
+          : result.created ? 'Markdown ingested successfully' : 'Markdown re-ingested as a new version'
       }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { detectOfficeFormat, OFFICE_FORMAT_CONTENT_TYPES } from "../_shared/officeDocumentParser.ts";
 
 declare const EdgeRuntime: any;
 
@@ -10,7 +11,7 @@ const corsHeaders = {
 
 // ===== UNIFIED ASYNC PIPELINE =====
 // ALL PDFs go through batch processing (no size-based bifurcation)
-// Markdown/Image files still use direct processing
+// Markdown/Image/Office (DOCX, PPTX, XLSX, HTML, EPUB) files still use direct processing
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -52,8 +53,12 @@ serve(async (req) => {
     // Detect content type based on file extension or source_type
     const isPNG = fileName.toLowerCase().endsWith('.png') || source_type === 'image';
     const isMarkdown = fileName.toLowerCase().endsWith('.md') || source_type === 'markdown';
-    const isPDF = fileName.toLowerCase().endsWith('.pdf') || (!isPNG && !isMarkdown);
-    const contentType = isPNG ? 'image/png' : isMarkdown ? 'text/markdown' : 'application/pdf';
+    const officeFormat = isPNG || isMarkdown ? null : detectOfficeFormat(fileName);
+    const isPDF = fileName.toLowerCase().endsWith('.pdf') || (!isPNG && !isMarkdown && !officeFormat);
+    const contentType = isPNG ? 'image/png'
+      : isMarkdown ? 'text/markdown'
+      : officeFormat ? OFFICE_FORMAT_CONTENT_TYPES[officeFormat]
+      : 'application/pdf';
     
     console.log(`[Pipeline A-Hybrid Ingest] Detected type: ${contentType}, isPDF: ${isPDF}`);
 
@@ -80,7 +85,7 @@ serve(async (req) => {
         storage_bucket: 'pipeline-a-uploads',
         file_size_bytes: fileSize,
         folder: folder || null,
-        source_type: source_type || (isPDF ? 'pdf' : isPNG ? 'image' : 'markdown'),
+        source_type: source_type || (isPDF ? 'pdf' : isPNG ? 'image' : officeFormat ? 'office' : 'markdown'),
         status: 'ingested',
         processing_metadata: {
           ingested_at: new Date().toISOString(),
@@ -114,7 +119,7 @@ serve(async (req) => {
         console.warn('[Pipeline A-Hybrid Ingest] Failed to trigger batch splitting:', invokeError);
       }
     } else {
-      // Markdown/Image files use direct processing (lightweight, no batch needed)
+      // Markdown/Image/Office files use direct processing (lightweight, no batch needed)
       console.log(`[Pipeline A-Hybrid Ingest] Non-PDF file (${contentType}) - routing to direct processing`);
       
       try {
@@ -11,8 +11,18 @@ import {
 } from "../_shared/llamaParseClient.ts";
 import { reconstructFromLlamaParse } from "../_shared/documentReconstructor.ts";
 import { parseMarkdownElements, type ParsedNode } from "../_shared/markdownElementParser.ts";
+import { parseOfficeDocument } from "../_shared/officeDocumentParser.ts";
 import { detectOCRIssues, enhanceWithVisionAPI, enhanceWithClaudePDF, buildEnhancedSuperDocument } from "../_shared/visionEnhancer.ts";
 import { createTraceReport, finalizeTraceReport, type ProcessingTraceReport } from "../_shared/processingTraceReport.ts";
+import {
+  completeDocumentVersion,
+  failDocumentVersion,
+  getProcessingVersion,
+  hashChunk,
+  reconcileDocumentChunks,
+  type ChunkDiff,
+  type DocumentVersion,
+} from "../_shared/documentVersions.ts";
 
 // Declare EdgeRuntime for background task support
 declare const EdgeRuntime: any;
@@ -125,6 +135,7 @@ serve(async (req) => {
     for (const doc of documents) {
       const startTime = Date.now();
       const traceReport = createTraceReport();
+      let processingVersion: DocumentVersion | null = null;
       
       try {
         console.log(`[Pipeline A-Hybrid Process] Processing document: ${doc.file_name}`);
@@ -134,9 +145,17 @@ serve(async (req) => {
           .from('pipeline_a_hybrid_chunks_raw')
           .select('id')
           .eq('document_id', doc.id)
+          .neq('embedding_status', 'retired')
           .limit(1);
 
-        if (existingChunks && existingChunks.length > 0) {
+        // A pending version means re-ingestion: existing chunks are diffed instead of skipped
+        processingVersion = await getProcessingVersion(supabase, 'pipeline_a_hybrid', doc.id);
+        const isReingestion = !!existingChunks && existingChunks.length > 0 && processingVersion !== null;
+        if (isReingestion) {
+          console.log(`[Pipeline A-Hybrid Process] Re-ingesting document ${doc.id} as v${processingVersion!.version}`);
+        }
+
+        if (existingChunks && existingChunks.length > 0 && !isReingestion) {
           console.log(`[Pipeline A-Hybrid Process] Document ${doc.id} already has chunks, skipping`);
           traceReport.context_analysis.skipped_reason = 'Chunks already exist';
           await supabase
@@ -445,6 +464,40 @@ serve(async (req) => {
           };
           
           console.log(`[Pipeline A-Hybrid Process] Generated ${chunks.length} chunks from code file (${language})`);
+        } else if (doc.source_type === 'office') {
+          // OFFICE PATH: DOCX/PPTX/XLSX/HTML/EPUB parsed natively (bypass LlamaParse)
+          console.log(`[Pipeline A-Hybrid Process] Processing office document: ${doc.file_name}`);
+          const officeResult = await parseOfficeDocument(new Uint8Array(await fileData.arrayBuffer()), doc.file_name, lovableApiKey);
+          chunks = officeResult.baseNodes;
+
+          if (anthropicKey && officeResult.markdown.length > 100) {
+            try {
+              const { analyzeDocumentContext } = await import("../_shared/contextAnalyzer.ts");
+              documentContext = await analyzeDocumentContext(officeResult.markdown.substring(0, 2000), anthropicKey, doc.file_name);
+
+              traceReport.context_analysis = {
+                domain: documentContext.domain,
+                focus_elements: documentContext.focusElements || [],
+                terminology: documentContext.terminology || [],
+                verbosity: documentContext.verbosity,
+                analysis_model: 'claude-3-5-haiku-20241022'
+              };
+
+              console.log(`[Context Analyzer] ✓ Office domain: ${documentContext.domain}`);
+            } catch (err) {
+              console.warn('[Context Analyzer] Failed for office document:', err);
+            }
+          }
+
+          metadata = {
+            source_type: 'office',
+            office_format: officeResult.format,
+            document_title: officeResult.title,
+            processing_method: 'native_office_parse',
+            chunks_generated: chunks.length
+          };
+
+          console.log(`[Pipeline A-Hybrid Process] Generated ${chunks.length} chunks from ${officeResult.format.toUpperCase()} document`);
         } else {
           // PDF PATH: LlamaParse + Context-Aware Visual Enrichment
           const pdfBuffer = new Uint8Array(await fileData.arrayBuffer());
@@ -832,13 +885,10 @@ serve(async (req) => {
           atomic_elements: chunks.filter((c: any) => c.is_atomic).length
         };
 
-        // Insert chunks in batches
-        const chunkBatchSize = 50;
-        for (let i = 0; i < chunks.length; i += chunkBatchSize) {
-          const batch = chunks.slice(i, i + chunkBatchSize);
-          const records = batch.map((chunk: ParsedNode, idx: number) => ({
+        const chunkRecords = await Promise.all(chunks.map(async (chunk: ParsedNode, idx: number) => {
+          const record = {
             document_id: doc.id,
-            chunk_index: i + idx,
+            chunk_index: idx,
             content: chunk.content,
             original_content: chunk.original_content || null,
             summary: chunk.summary || null,
@@ -847,11 +897,16 @@ serve(async (req) => {
             page_number: chunk.page_number || null,
             heading_hierarchy: chunk.heading_hierarchy || null,
             embedding_status: 'pending'
-          }));
+          };
+          return { ...record, content_hash: await hashChunk(record) };
+        }));
 
+        // Insert chunks in batches (re-ingestion applies them as a diff together with the meta-chunk below)
+        const chunkBatchSize = 50;
+        for (let i = 0; !isReingestion && i < chunkRecords.length; i += chunkBatchSize) {
           const { error: insertError } = await supabase
             .from('pipeline_a_hybrid_chunks_raw')
-            .insert(records);
+            .insert(chunkRecords.slice(i, i + chunkBatchSize));
 
           if (insertError) {
             throw new Error(`Failed to insert chunks: ${insertError.message}`);
@@ -930,10 +985,20 @@ serve(async (req) => {
           is_atomic: true,
           embedding_status: 'ready'  // Mark as ready to bypass embedding (chunk_index=-1 filtered)
         };
+        const metaRecord = { ...metaChunk, content_hash: await hashChunk(metaChunk) };
         
-        await supabase
-          .from('pipeline_a_hybrid_chunks_raw')
-          .insert(metaChunk);
+        let chunkDiff: Pick<ChunkDiff, 'added' | 'kept' | 'retired'> = { added: chunkRecords.length, kept: 0, retired: 0 };
+        if (isReingestion) {
+          chunkDiff = await reconcileDocumentChunks(supabase, 'pipeline_a_hybrid', doc.id, [...chunkRecords, metaRecord]);
+          console.log(`[Pipeline A-Hybrid Process] v${processingVersion!.version} diff: +${chunkDiff.added} added, ${chunkDiff.kept} kept, -${chunkDiff.retired} retired`);
+        } else {
+          await supabase
+            .from('pipeline_a_hybrid_chunks_raw')
+            .insert(metaRecord);
+        }
+        if (processingVersion) {
+          await completeDocumentVersion(supabase, processingVersion.id, chunkDiff);
+        }
         
         console.log(`[Trace Report] Meta-Chunk created for agent self-awareness`);
 
@@ -976,6 +1041,9 @@ serve(async (req) => {
           documentName: doc.file_name,
           documentId: doc.id
         });
+        if (processingVersion) {
+          await failDocumentVersion(supabase, processingVersion.id, errorMessage);
+        }
         await supabase
           .from('pipeline_a_hybrid_documents')
           .update({
@@ -278,6 +278,7 @@ serve(async (req) => {
           }
 
           // Check for duplicates before processing
+          // (Pipeline A is not versioned: changed files are not re-ingested, see _shared/documentVersions.ts)
           const { data: existingDoc } = await supabase
             .from('pipeline_a_documents')
             .select('id')
@@ -286,7 +287,7 @@ serve(async (req) => {
             .maybeSingle();
 
           if (existingDoc) {
-            console.log(`[Pipeline A GitHub] ⏭️ Duplicate skipped: ${file.path}`);
+            console.log(`[Pipeline A GitHub] ⏭️ Duplicate skipped (already ingested, changes are not re-ingested): ${file.path}`);
             continue;
           }
 
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { detectOfficeFormat, OFFICE_FORMAT_CONTENT_TYPES } from "../_shared/officeDocumentParser.ts";
 
 declare const EdgeRuntime: any;
 
@@ -32,6 +33,9 @@ serve(async (req) => {
     // Decode base64 file data
     const decodedData = Uint8Array.from(atob(fileData), c => c.charCodeAt(0));
 
+    // DOCX/PPTX/XLSX/HTML/EPUB are parsed natively (no LlamaParse)
+    const officeFormat = detectOfficeFormat(fileName);
+
     // Generate unique file path
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     const randomId = crypto.randomUUID();
@@ -41,7 +45,7 @@ serve(async (req) => {
     const { data: uploadData, error: uploadError } = await supabase.storage
       .from('pipeline-a-uploads')
       .upload(filePath, decodedData, {
-        contentType: 'application/pdf',
+        contentType: officeFormat ? OFFICE_FORMAT_CONTENT_TYPES[officeFormat] : 'application/pdf',
         upsert: false,
       });
 
@@ -61,6 +65,7 @@ serve(async (req) => {
         file_path: filePath,
         storage_bucket: 'pipeline-a-uploads',
         file_size_bytes: fileSize,
+        source_type: officeFormat ? 'office' : 'pdf',
         status: 'ingested',
       })
       .select()
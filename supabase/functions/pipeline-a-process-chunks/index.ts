@@ -5,7 +5,17 @@ import {
   validateCreditsBeforeProcessing,
   estimateCreditsNeeded
 } from "../_shared/llamaParseClient.ts";
-import { parseMarkdownElements } from "../_shared/markdownElementParser.ts";
+import { parseMarkdownElements, type ParsedNode } from "../_shared/markdownElementParser.ts";
+import { parseOfficeDocument } from "../_shared/officeDocumentParser.ts";
+import {
+  completeDocumentVersion,
+  failDocumentVersion,
+  getProcessingVersion,
+  hashChunk,
+  reconcileDocumentChunks,
+  type ChunkDiff,
+  type DocumentVersion,
+} from "../_shared/documentVersions.ts";
 
 declare const EdgeRuntime: any;
 
@@ -124,15 +134,25 @@ serve(async (req) => {
     };
 
     for (const doc of documents) {
+      let processingVersion: DocumentVersion | null = null;
+
       try {
         // Check if chunks already exist
         const { data: existingChunks } = await supabase
           .from('pipeline_a_chunks_raw')
           .select('id')
           .eq('document_id', doc.id)
+          .neq('embedding_status', 'retired')
           .limit(1);
 
-        if (existingChunks && existingChunks.length > 0) {
+        // A pending version means re-ingestion: existing chunks are diffed instead of skipped
+        processingVersion = await getProcessingVersion(supabase, 'pipeline_a', doc.id);
+        const isReingestion = !!existingChunks && existingChunks.length > 0 && processingVersion !== null;
+        if (isReingestion) {
+          console.log(`[Pipeline A Process] Re-ingesting document ${doc.id} as v${processingVersion!.version}`);
+        }
+
+        if (existingChunks && existingChunks.length > 0 && !isReingestion) {
           console.log(`[Pipeline A Process] Document ${doc.id} already has chunks, skipping`);
           
           // Update status to chunked if stuck in ingested
@@ -155,6 +175,7 @@ serve(async (req) => {
 
         let markdown: string;
         let jobId: string | null = null;
+        let officeNodes: ParsedNode[] | null = null;
 
         // ⭐ AMPHIBIOUS BYPASS LOGIC
         if (doc.source_type === 'video' && doc.full_text) {
@@ -169,6 +190,20 @@ serve(async (req) => {
           // 🚀 BYPASS: Text file with content already available
           console.log(`[Pipeline A Process] BYPASS mode (text file): ${doc.file_name}`);
           markdown = prepareMarkdownForParsing(doc.full_text, doc.file_name);
+        } else if (doc.source_type === 'office') {
+          // 📑 BYPASS: DOCX/PPTX/XLSX/HTML/EPUB - native parser, nodes already structured
+          console.log(`[Pipeline A Process] Office parser mode: ${doc.file_name}`);
+          const { data: fileData, error: downloadError } = await supabase.storage
+            .from(doc.storage_bucket || 'pipeline-a-uploads')
+            .download(doc.file_path);
+
+          if (downloadError || !fileData) {
+            throw new Error(`Failed to download file: ${downloadError?.message || 'Unknown error'}`);
+          }
+
+          const officeResult = await parseOfficeDocument(new Uint8Array(await fileData.arrayBuffer()), doc.file_name, lovableApiKey);
+          markdown = officeResult.markdown;
+          officeNodes = officeResult.baseNodes;
         } else {
           // 📄 PDF: Standard LlamaParse processing
           console.log(`[Pipeline A Process] LlamaParse mode: ${doc.file_name}`);
@@ -234,7 +269,7 @@ serve(async (req) => {
         }
 
         // Parse structured elements with LLM summarization
-        const { baseNodes } = await parseMarkdownElements(markdown, lovableApiKey);
+        const baseNodes = officeNodes ?? (await parseMarkdownElements(markdown, lovableApiKey)).baseNodes;
 
         console.log(`[Pipeline A Process] Parsed ${baseNodes.length} nodes`);
 
@@ -242,11 +277,8 @@ serve(async (req) => {
           throw new Error('No chunks extracted from Markdown');
         }
 
-        // Insert chunks in batches
-        const CHUNK_BATCH = 50;
-        for (let i = 0; i < baseNodes.length; i += CHUNK_BATCH) {
-          const batch = baseNodes.slice(i, i + CHUNK_BATCH);
-          const chunksToInsert = batch.map(node => ({
+        const chunkRecords = await Promise.all(baseNodes.map(async (node) => {
+          const record = {
             document_id: doc.id,
             chunk_index: node.chunk_index,
             content: node.content,
@@ -257,16 +289,30 @@ serve(async (req) => {
             heading_hierarchy: node.heading_hierarchy || null,
             page_number: node.page_number || null,
             embedding_status: 'pending',
-          }));
-
-          const { error: insertError } = await supabase
-            .from('pipeline_a_chunks_raw')
-            .insert(chunksToInsert);
-
-          if (insertError) {
-            throw new Error(`Failed to insert chunks: ${insertError.message}`);
+          };
+          return { ...record, content_hash: await hashChunk(record) };
+        }));
+
+        let chunkDiff: Pick<ChunkDiff, 'added' | 'kept' | 'retired'> = { added: chunkRecords.length, kept: 0, retired: 0 };
+        if (isReingestion) {
+          chunkDiff = await reconcileDocumentChunks(supabase, 'pipeline_a', doc.id, chunkRecords);
+          console.log(`[Pipeline A Process] v${processingVersion!.version} diff: +${chunkDiff.added} added, ${chunkDiff.kept} kept, -${chunkDiff.retired} retired`);
+        } else {
+          // Insert chunks in batches
+          const CHUNK_BATCH = 50;
+          for (let i = 0; i < chunkRecords.length; i += CHUNK_BATCH) {
+            const { error: insertError } = await supabase
+              .from('pipeline_a_chunks_raw')
+              .insert(chunkRecords.slice(i, i + CHUNK_BATCH));
+
+            if (insertError) {
+              throw new Error(`Failed to insert chunks: ${insertError.message}`);
+            }
           }
         }
+        if (processingVersion) {
+          await completeDocumentVersion(supabase, processingVersion.id, chunkDiff);
+        }
 
         // Update document status and save LlamaParse job ID
         await supabase
@@ -302,6 +348,9 @@ serve(async (req) => {
 
       } catch (docError) {
         console.error(`[Pipeline A Process] Failed to process document ${doc.id}:`, docError);
+        if (processingVersion) {
+          await failDocumentVersion(supabase, processingVersion.id, docError instanceof Error ? docError.message : 'Unknown error');
+        }
         
         // Update document to failed status
         await supabase
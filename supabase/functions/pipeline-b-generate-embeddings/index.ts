@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import { generateEmbedding } from '../_shared/embeddingService.ts';
+import { getWriteModel } from '../_shared/embeddingCollections.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -7,29 +9,6 @@ const corsHeaders = {
 };
 
 const BATCH_SIZE = 50; // Process 50 chunks at a time
-const EMBEDDING_MODEL = 'text-embedding-3-small';
-
-async function generateEmbedding(text: string, apiKey: string): Promise<number[]> {
-  const response = await fetch('https://api.openai.com/v1/embeddings', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: EMBEDDING_MODEL,
-      input: text,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} - ${error}`);
-  }
-
-  const result = await response.json();
-  return result.data[0].embedding;
-}
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -42,13 +21,13 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const openaiKey = Deno.env.get('OPENAI_API_KEY');
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const embeddingModel = await getWriteModel(supabase, 'pipeline_b');
 
-    if (!openaiKey) {
+    if (!openaiKey && embeddingModel.provider === 'openai') {
       throw new Error('OPENAI_API_KEY not configured');
     }
 
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
     // Parse body to check for event-driven mode (single documentId)
     const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
     const targetDocumentId = body.documentId;
@@ -96,7 +75,8 @@ serve(async (req) => {
         const { data: allChunks } = await supabase
           .from('pipeline_b_chunks_raw')
           .select('id, embedding_status')
-          .eq('document_id', doc.id);
+          .eq('document_id', doc.id)
+          .neq('embedding_status', 'retired'); // chunks of previous versions
 
         if (!allChunks || allChunks.length === 0) {
           // Document in chunked/processing state but has no chunks - reset to ingested
@@ -188,18 +168,18 @@ serve(async (req) => {
           .eq('id', chunk.id);
 
         // Generate embedding
-        const embedding = await generateEmbedding(chunk.content, openaiKey);
-
-        // Validate embedding
-        if (!Array.isArray(embedding) || embedding.length !== 1536) {
-          throw new Error(`Invalid embedding dimensions: ${embedding?.length}`);
-        }
+        const { embedding, model, dimension } = await generateEmbedding(chunk.content, openaiKey || '', {
+          source: 'pipeline-b-generate-embeddings',
+          model: embeddingModel.id,
+        });
 
         // Update chunk with embedding
         const { error: updateError } = await supabase
           .from('pipeline_b_chunks_raw')
           .update({
             embedding: JSON.stringify(embedding),
+            embedding_model: model,
+            embedding_dimension: dimension,
             embedding_status: 'ready',
             embedded_at: new Date().toISOString(),
           })
@@ -240,7 +220,7 @@ serve(async (req) => {
         .from('pipeline_b_chunks_raw')
         .select('id')
         .eq('document_id', docId)
-        .neq('embedding_status', 'ready')
+        .not('embedding_status', 'in', '(ready,retired)')
         .limit(1);
 
       // If no pending chunks remain, mark document as ready
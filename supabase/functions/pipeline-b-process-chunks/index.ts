@@ -1,5 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import {
+  completeDocumentVersion,
+  failDocumentVersion,
+  getProcessingVersion,
+  hashChunk,
+  reconcileDocumentChunks,
+  type ChunkDiff,
+  type DocumentVersion,
+} from "../_shared/documentVersions.ts";
 
 // Declare EdgeRuntime global for background task execution
 declare const EdgeRuntime: {
@@ -288,6 +297,8 @@ serve(async (req) => {
     };
 
     for (const doc of documents) {
+      let processingVersion: DocumentVersion | null = null;
+
       try {
         console.log(`\n📄 Processing: ${doc.file_name}`);
 
@@ -296,9 +307,17 @@ serve(async (req) => {
           .from('pipeline_b_chunks_raw')
           .select('id')
           .eq('document_id', doc.id)
+          .neq('embedding_status', 'retired')
           .limit(1);
 
-        if (existingChunks && existingChunks.length > 0) {
+        // A pending version means re-ingestion: existing chunks are diffed instead of skipped
+        processingVersion = await getProcessingVersion(supabase, 'pipeline_b', doc.id);
+        const isReingestion = !!existingChunks && existingChunks.length > 0 && processingVersion !== null;
+        if (isReingestion) {
+          console.log(`🔁 Re-ingesting ${doc.file_name} as v${processingVersion!.version}`);
+        }
+
+        if (existingChunks && existingChunks.length > 0 && !isReingestion) {
           console.log(`⏭️  Skipping ${doc.file_name} - already has chunks`);
           
           // Update status to 'chunked' if stuck in 'ingested'
@@ -347,22 +366,34 @@ serve(async (req) => {
         console.log(`✓ Retrieved ${landingChunks.length} validated chunks from job ${jobId}`);
 
         // Map Landing AI chunks to database format
-        const chunksToInsert = landingChunks.map((chunk, index) => ({
-          document_id: doc.id,
-          content: chunk.markdown,              // ✅ Correct field name
-          chunk_type: chunk.type,                // ✅ Correct field name
-          chunk_index: index,
-          chunk_id: chunk.id,                    // ✅ Separate column
-          visual_grounding: chunk.grounding || null,  // ✅ Correct column name
-          page_number: chunk.grounding?.page || null,  // ✅ Not array
-          embedding_status: 'pending',
+        const chunksToInsert = await Promise.all(landingChunks.map(async (chunk, index) => {
+          const record = {
+            document_id: doc.id,
+            content: chunk.markdown,              // ✅ Correct field name
+            chunk_type: chunk.type,                // ✅ Correct field name
+            chunk_index: index,
+            chunk_id: chunk.id,                    // ✅ Separate column
+            visual_grounding: chunk.grounding || null,  // ✅ Correct column name
+            page_number: chunk.grounding?.page || null,  // ✅ Not array
+            embedding_status: 'pending',
+          };
+          return { ...record, content_hash: await hashChunk(record) };
         }));
 
-        const { error: insertError } = await supabase
-          .from('pipeline_b_chunks_raw')
-          .insert(chunksToInsert);
+        let chunkDiff: Pick<ChunkDiff, 'added' | 'kept' | 'retired'> = { added: chunksToInsert.length, kept: 0, retired: 0 };
+        if (isReingestion) {
+          chunkDiff = await reconcileDocumentChunks(supabase, 'pipeline_b', doc.id, chunksToInsert);
+          console.log(`🔁 v${processingVersion!.version} diff: +${chunkDiff.added} added, ${chunkDiff.kept} kept, -${chunkDiff.retired} retired`);
+        } else {
+          const { error: insertError } = await supabase
+            .from('pipeline_b_chunks_raw')
+            .insert(chunksToInsert);
 
-        if (insertError) throw insertError;
+          if (insertError) throw insertError;
+        }
+        if (processingVersion) {
+          await completeDocumentVersion(supabase, processingVersion.id, chunkDiff);
+        }
 
         // Mark document as chunked
         await supabase
@@ -399,6 +430,9 @@ serve(async (req) => {
       } catch (error) {
         console.error(`❌ Failed to process ${doc.file_name}:`, error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        if (processingVersion) {
+          await failDocumentVersion(supabase, processingVersion.id, errorMessage);
+        }
         
         // Mark as failed
         await supabase
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { generateEmbedding } from '../_shared/embeddingService.ts';
+import { getWriteModel } from '../_shared/embeddingCollections.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -157,7 +159,8 @@ serve(async (req) => {
     console.log(`[Pipeline C Embeddings] Processing ${chunks.length} chunks`);
 
     const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-    if (!OPENAI_API_KEY) {
+    const embeddingModel = await getWriteModel(supabase, 'pipeline_c');
+    if (!OPENAI_API_KEY && embeddingModel.provider === 'openai') {
       throw new Error('OPENAI_API_KEY not configured');
     }
 
@@ -175,36 +178,18 @@ serve(async (req) => {
           .eq('id', chunk.id);
 
         // Generate embedding
-        const embeddingResponse = await fetch('https://api.openai.com/v1/embeddings', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${OPENAI_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'text-embedding-3-small',
-            input: chunk.content,
-          }),
+        const { embedding, model, dimension } = await generateEmbedding(chunk.content, OPENAI_API_KEY || '', {
+          source: 'pipeline-c-generate-embeddings',
+          model: embeddingModel.id,
         });
 
-        if (!embeddingResponse.ok) {
-          const errorText = await embeddingResponse.text();
-          throw new Error(`OpenAI API error: ${embeddingResponse.status} - ${errorText}`);
-        }
-
-        const embeddingData = await embeddingResponse.json();
-        const embedding = embeddingData.data[0].embedding;
-
-        // Validate embedding
-        if (!Array.isArray(embedding) || embedding.length !== 1536) {
-          throw new Error('Invalid embedding dimension');
-        }
-
         // Update chunk with embedding
         const { error: updateError } = await supabase
           .from('pipeline_c_chunks_raw')
           .update({
             embedding: JSON.stringify(embedding),
+            embedding_model: model,
+            embedding_dimension: dimension,
             embedding_status: 'ready',
             embedded_at: new Date().toISOString(),
             embedding_error: null,
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { finalizeBenchmarkRun } from "../_shared/benchmarkRuns.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -39,7 +40,7 @@ serve(async (req) => {
     
     const { data: stuckJobs } = await supabase
       .from('benchmark_jobs_queue')
-      .select('id, attempts, max_attempts, started_at')
+      .select('id, run_id, attempts, max_attempts, started_at')
       .eq('status', 'processing')
       .lt('started_at', stuckCutoff);
     
@@ -58,6 +59,7 @@ serve(async (req) => {
             })
             .eq('id', stuckJob.id);
           console.log(`[Process Benchmark Job] ❌ Zombie job ${stuckJob.id} marked failed (max retries exceeded)`);
+          await finalizeBenchmarkRun(supabase, stuckJob.run_id);
         } else {
           // Reset to pending for retry
           await supabase
@@ -235,7 +237,8 @@ async function processJob(
         conversationId,
         stream: false,
         serverUserId: BENCHMARK_USER_ID,
-        documentFilter: question.file_name  // EXPLICIT PRE-FILTER: ensures semantic search is restricted to this document
+        documentFilter: question.file_name,  // EXPLICIT PRE-FILTER: ensures semantic search is restricted to this document
+        benchmarkRunId: job.run_id  // usage ledger attribution
       }),
       signal: controller.signal
     });
@@ -282,19 +285,28 @@ async function processJob(
     }
     
     await markJobFailed(supabase, targetJobId, errorMessage);
+    await finalizeBenchmarkRun(supabase, job.run_id);
     return { error: errorMessage };
   }
 
-  // Step 5: Evaluate answer
-  let evaluationResult = { correct: false, reason: 'Evaluation failed' };
-  
+  // Step 5: Evaluate answer (scoring mode comes from the run's config snapshot)
+  let evaluationResult: { correct: boolean; reason: string; scorer?: string; scores?: Record<string, unknown> } = { correct: false, reason: 'Evaluation failed' };
+
+  const { data: run } = await supabase
+    .from('benchmark_runs')
+    .select('config')
+    .eq('id', job.run_id)
+    .maybeSingle();
+
   try {
     const evalResponse = await supabase.functions.invoke('evaluate-answer', {
       body: {
         question: question.question,
         agentResponse,
         groundTruths: [question.ground_truth],
-        suiteCategory: question.suite_category
+        suiteCategory: question.suite_category,
+        scoringMode: run?.config?.scoring_mode,
+        benchmarkRunId: job.run_id
       }
     });
 
@@ -309,11 +321,14 @@ async function processJob(
   // Step 6: Save to benchmark_results
   await supabase.from('benchmark_results').insert({
     run_id: job.run_id,
+    question_id: question.id,
     question: question.question,
     ground_truth: question.ground_truth,
     agent_response: agentResponse,
     correct: evaluationResult.correct,
     reason: evaluationResult.reason,
+    scorer: evaluationResult.scorer ?? null,
+    scores: evaluationResult.scores ?? null,
     response_time_ms: responseTimeMs,
     status: 'completed',
     pdf_file: question.file_name,
@@ -334,6 +349,9 @@ async function processJob(
     })
     .eq('id', targetJobId);
 
+  // Close the run (aggregate accuracy) once its last job is done
+  await finalizeBenchmarkRun(supabase, job.run_id);
+
   console.log(`[Process Benchmark Job] ✅ Job completed: ${evaluationResult.correct ? 'CORRECT' : 'INCORRECT'}`);
 
   return {
@@ -153,7 +153,8 @@ serve(async (req) => {
             if (completed % 10 === 0 || completed === total) {
               console.log(`  Progress: ${completed}/${total} embeddings`);
             }
-          }
+          },
+          { source: 'process-github-batch' }
         );
 
         if (failures.length > 0) {
@@ -0,0 +1,201 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { createConnector } from '../_shared/connectorRegistry.ts';
+import type { Connector, ConnectorConfigRow } from '../_shared/connectors.ts';
+import { hashText } from '../_shared/documentVersions.ts';
+import { ingestMarkdownDocument, isIngestPipeline, toMarkdownFileName } from '../_shared/ingestSink.ts';
+
+declare const EdgeRuntime: {
+  waitUntil(promise: Promise<unknown>): void;
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BATCH_SIZE = 10;
+const MAX_RETRIES = 3;
+const STUCK_THRESHOLD_MINUTES = 10;
+const TIME_BUDGET_MS = 100_000;
+
+interface QueueItem {
+  id: string;
+  connector_id: string;
+  pipeline: string;
+  item_key: string;
+  item_version: string | null;
+  title: string;
+  source_url: string | null;
+  retry_count: number;
+}
+
+interface ConnectorRow extends ConnectorConfigRow {
+  folder: string | null;
+}
+
+/**
+ * Deterministic per connector + item, so a re-sync lands on the same document (new version)
+ * and two sources with the same page title never overwrite each other
+ */
+async function documentFileName(item: QueueItem, title: string): Promise<string> {
+  const suffix = (await hashText(`${item.connector_id}:${item.item_key}`)).slice(0, 8);
+  return toMarkdownFileName(`${title.slice(0, 150)} ~${suffix}`);
+}
+
+async function resetStuckItems(supabase: SupabaseClient): Promise<number> {
+  const stuckThreshold = new Date(Date.now() - STUCK_THRESHOLD_MINUTES * 60 * 1000).toISOString();
+  const { data: stuck } = await supabase
+    .from('ingestion_queue')
+    .select('id, retry_count')
+    .eq('status', 'processing')
+    .lt('updated_at', stuckThreshold);
+
+  for (const item of stuck || []) {
+    const retryCount = item.retry_count + 1;
+    await supabase
+      .from('ingestion_queue')
+      .update({
+        status: retryCount >= MAX_RETRIES ? 'failed' : 'pending',
+        retry_count: retryCount,
+        error_message: `Reset after stuck in processing (attempt ${retryCount})`,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', item.id);
+  }
+  return stuck?.length || 0;
+}
+
+async function processItem(supabase: SupabaseClient, connector: Connector, row: ConnectorRow, item: QueueItem) {
+  if (!isIngestPipeline(item.pipeline)) throw new Error(`Pipeline ${item.pipeline} cannot ingest connector items`);
+
+  const doc = await connector.fetchItem({
+    key: item.item_key,
+    title: item.title,
+    version: item.item_version,
+    sourceUrl: item.source_url,
+  });
+
+  return ingestMarkdownDocument(supabase, item.pipeline, {
+    fileName: await documentFileName(item, doc.title),
+    markdown: doc.markdown,
+    folder: row.folder,
+    source: `connector:${row.connector_type}`,
+  });
+}
+
+/**
+ * Ingest queue worker: fetches pending connector items and ingests them through the sink of their
+ * pipeline. Runs on a schedule and re-invokes itself while items are left (time-boxed per run).
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  const startedAt = Date.now();
+
+  try {
+    const stats = { stuckReset: await resetStuckItems(supabase), completed: 0, skipped: 0, failed: 0, retried: 0 };
+
+    const { data: items, error } = await supabase
+      .from('ingestion_queue')
+      .select('id, connector_id, pipeline, item_key, item_version, title, source_url, retry_count')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+    if (error) throw new Error(`Failed to load ingestion queue: ${error.message}`);
+
+    console.log(`📥 [Ingest Queue] ${items?.length || 0} pending item(s)`);
+
+    // One connector instance per run: archive-based connectors read their source once
+    const connectors = new Map<string, { connector: Connector; row: ConnectorRow }>();
+    let processedAll = true;
+
+    for (const item of (items || []) as QueueItem[]) {
+      if (Date.now() - startedAt > TIME_BUDGET_MS) {
+        processedAll = false;
+        break;
+      }
+
+      await supabase
+        .from('ingestion_queue')
+        .update({ status: 'processing', updated_at: new Date().toISOString() })
+        .eq('id', item.id);
+
+      try {
+        if (!connectors.has(item.connector_id)) {
+          const { data: row, error: connectorError } = await supabase
+            .from('ingestion_connectors')
+            .select('id, connector_type, config, folder')
+            .eq('id', item.connector_id)
+            .single();
+          if (connectorError || !row) throw new Error(`Connector ${item.connector_id} not found`);
+          connectors.set(item.connector_id, { connector: createConnector(supabase, row as ConnectorRow), row: row as ConnectorRow });
+        }
+        const { connector, row } = connectors.get(item.connector_id)!;
+
+        const result = await processItem(supabase, connector, row, item);
+        await supabase
+          .from('ingestion_queue')
+          .update({
+            status: result.unchanged ? 'skipped' : 'completed',
+            document_id: result.documentId,
+            error_message: null,
+            processed_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', item.id);
+
+        if (result.unchanged) stats.skipped++;
+        else stats.completed++;
+        console.log(`✅ [Ingest Queue] ${item.title} → ${result.fileName}${result.unchanged ? ' (unchanged)' : ''}`);
+      } catch (itemError) {
+        const message = itemError instanceof Error ? itemError.message : 'Unknown error';
+        const retryCount = item.retry_count + 1;
+        const failed = retryCount >= MAX_RETRIES;
+        await supabase
+          .from('ingestion_queue')
+          .update({
+            status: failed ? 'failed' : 'pending',
+            retry_count: retryCount,
+            error_message: message,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', item.id);
+
+        if (failed) stats.failed++;
+        else stats.retried++;
+        console.error(`❌ [Ingest Queue] ${item.item_key} failed (attempt ${retryCount}):`, message);
+      }
+    }
+
+    // More work left: continue in a fresh invocation instead of waiting for the next cron tick
+    const { count: remaining } = await supabase
+      .from('ingestion_queue')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'pending');
+
+    if ((remaining || 0) > 0 && (stats.completed + stats.skipped > 0 || !processedAll)) {
+      EdgeRuntime.waitUntil(
+        fetch(`${supabaseUrl}/functions/v1/process-ingest-queue`, {
+          method: 'POST',
+          headers: { 'Authorization': `Bearer ${supabaseKey}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify({}),
+        }).catch(err => console.error('[Ingest Queue] Failed to continue:', err))
+      );
+    }
+
+    return new Response(JSON.stringify({ success: true, stats, remaining: remaining || 0 }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('❌ [Ingest Queue] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
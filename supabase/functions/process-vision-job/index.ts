@@ -132,7 +132,7 @@ serve(async (req) => {
               ? `Document: ${doc.file_name}\n\n${updatedContent}`
               : updatedContent;
 
-            const embeddingResult = await generateEmbedding(embeddingInput, openaiKey);
+            const embeddingResult = await generateEmbedding(embeddingInput, openaiKey, { source: 'process-vision-job' });
 
             await supabaseClient
               .from('pipeline_a_hybrid_chunks_raw')
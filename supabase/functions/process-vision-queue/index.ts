@@ -217,7 +217,7 @@ serve(async (req) => {
                 ? `Document: ${doc.file_name}\n\n${description}`
                 : description;
 
-              const embedding = await generateEmbedding(embeddingInput, openAiKey);
+              const embedding = await generateEmbedding(embeddingInput, openAiKey, { source: 'process-vision-queue' });
 
               await supabase
                 .from('pipeline_a_hybrid_chunks_raw')
@@ -337,7 +337,7 @@ serve(async (req) => {
                     ? `Document: ${doc.file_name}\n\n${updatedChunk.content}`
                     : updatedChunk.content;
 
-                  const embedding = await generateEmbedding(embeddingInput, openAiKey);
+                  const embedding = await generateEmbedding(embeddingInput, openAiKey, { source: 'process-vision-queue' });
 
                   await supabase
                     .from('pipeline_a_hybrid_chunks_raw')
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { reportLLMUsage, usageFromPayload } from '../_shared/llmGateway.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -246,6 +247,7 @@ serve(async (req) => {
             }
 
             const embeddingData = await embeddingResponse.json();
+            reportLLMUsage({ source: 'recover-missing-fulltext', provider: 'openai', model: 'text-embedding-3-small', usage: usageFromPayload('openai', 'text-embedding-3-small', embeddingData), operation: 'embedding' });
             const embedding = embeddingData.data[0].embedding;
 
             // Insert chunk to agent_knowledge (shared pool)
@@ -118,7 +118,7 @@ serve(async (req) => {
           ? `Document: ${doc.file_name}\n\n${updatedContent}`
           : updatedContent;
 
-        const embedding = await generateEmbedding(embeddingInput, openAiKey);
+        const embedding = await generateEmbedding(embeddingInput, openAiKey, { source: 'recover-pending-visuals' });
 
         await supabase
           .from('pipeline_a_hybrid_chunks_raw')
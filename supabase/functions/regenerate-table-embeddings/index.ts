@@ -119,7 +119,7 @@ serve(async (req) => {
         embeddingInput += summary;
 
         // Generate new embedding
-        const result = await generateEmbedding(embeddingInput, openaiKey);
+        const result = await generateEmbedding(embeddingInput, openaiKey, { source: 'regenerate-table-embeddings' });
 
         // Update chunk with new summary and embedding
         await supabase
@@ -0,0 +1,323 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { DEFAULT_EMBEDDING_MODEL, generateEmbedding, getEmbeddingModel } from '../_shared/embeddingService.ts';
+import { COLLECTION_CHUNK_TABLES, getEmbeddingCollections } from '../_shared/embeddingCollections.ts';
+import { ALL_PIPELINES, type PipelineSource } from '../_shared/unifiedRetrieval.ts';
+
+declare const EdgeRuntime: {
+  waitUntil(promise: Promise<unknown>): void;
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BATCH_SIZE = 25;
+
+interface ReindexChunk {
+  id: string;
+  document_id: string | null;
+  content: string;
+  heading_hierarchy?: unknown;
+}
+
+interface ReindexJob {
+  id: string;
+  pipeline: PipelineSource;
+  to_model: string;
+  status: string;
+  processed_chunks: number;
+  failed_chunks: number;
+  cursor_chunk_id: string | null;
+}
+
+/**
+ * Same input the pipeline's own generate-embeddings function builds, so a re-indexed chunk
+ * matches a freshly ingested one
+ */
+function buildEmbeddingInput(pipeline: PipelineSource, chunk: ReindexChunk, fileName: string): string {
+  if (pipeline === 'pipeline_a') {
+    const headings = (chunk.heading_hierarchy || {}) as Record<string, string | undefined>;
+    const headingParts = [headings.h1, headings.h2, headings.h3].filter(Boolean);
+    return headingParts.length > 0 ? `${headingParts.join(' > ')}\n\n${chunk.content}` : chunk.content;
+  }
+
+  if (pipeline === 'pipeline_a_hybrid') {
+    let text = `Document: ${fileName}\n\n`;
+    if (Array.isArray(chunk.heading_hierarchy) && chunk.heading_hierarchy.length > 0) {
+      const headings = (chunk.heading_hierarchy as { text?: string }[]).map(h => h.text || '').filter(Boolean);
+      if (headings.length > 0) text += headings.join(' > ') + '\n\n';
+    }
+    return text + chunk.content;
+  }
+
+  return chunk.content;
+}
+
+// Chunks still to migrate: embedded, and not yet with the target model (NULL = legacy default model)
+function pendingChunksQuery(
+  supabase: SupabaseClient,
+  pipeline: PipelineSource,
+  toModel: string,
+  columns: string,
+  options?: { count: 'exact'; head: boolean }
+) {
+  const query = supabase
+    .from(COLLECTION_CHUNK_TABLES[pipeline])
+    .select(columns, options)
+    .eq('embedding_status', 'ready')
+    .not('embedding', 'is', null);
+  return toModel === DEFAULT_EMBEDDING_MODEL
+    ? query.not('embedding_model', 'is', null).neq('embedding_model', toModel)
+    : query.or(`embedding_model.is.null,embedding_model.neq.${toModel}`);
+}
+
+async function countPendingChunks(supabase: SupabaseClient, pipeline: PipelineSource, toModel: string): Promise<number> {
+  const { count, error } = await pendingChunksQuery(supabase, pipeline, toModel, 'id', { count: 'exact', head: true });
+  if (error) throw new Error(`Failed to count chunks: ${error.message}`);
+  return count || 0;
+}
+
+function continueInBackground(jobId: string) {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  EdgeRuntime.waitUntil(
+    fetch(`${supabaseUrl}/functions/v1/reindex-embeddings`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${supabaseKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jobId }),
+    }).catch(err => console.error(`[Reindex] Failed to continue job ${jobId}:`, err))
+  );
+}
+
+async function startJob(supabase: SupabaseClient, pipeline: PipelineSource, modelId: string) {
+  const target = getEmbeddingModel(modelId);
+  const collection = (await getEmbeddingCollections(supabase))[pipeline];
+
+  if (collection.reindex_model) {
+    const { data: active } = await supabase
+      .from('embedding_reindex_jobs')
+      .select('id')
+      .eq('pipeline', pipeline)
+      .in('status', ['queued', 'running'])
+      .maybeSingle();
+    if (active) throw new Error(`A re-index job is already running for ${pipeline}`);
+  }
+  if (collection.embedding_model === target.id && !collection.reindex_model) {
+    throw new Error(`${pipeline} already uses ${target.id}`);
+  }
+
+  const totalChunks = await countPendingChunks(supabase, pipeline, target.id);
+
+  const { data: job, error } = await supabase
+    .from('embedding_reindex_jobs')
+    .insert({
+      pipeline,
+      from_model: collection.embedding_model,
+      to_model: target.id,
+      total_chunks: totalChunks,
+    })
+    .select('*')
+    .single();
+  if (error || !job) throw new Error(`Failed to create re-index job: ${error?.message || 'no row'}`);
+
+  // From now on new chunks are embedded with the target model and queries search both models
+  await supabase
+    .from('embedding_collections')
+    .update({ reindex_model: target.id, updated_at: new Date().toISOString() })
+    .eq('pipeline', pipeline);
+
+  console.log(`🔁 [Reindex] Job ${job.id}: ${pipeline} ${collection.embedding_model} → ${target.id} (${totalChunks} chunks)`);
+  return job;
+}
+
+async function finishJob(supabase: SupabaseClient, job: ReindexJob) {
+  const remaining = await countPendingChunks(supabase, job.pipeline, job.to_model);
+  const now = new Date().toISOString();
+
+  if (remaining > 0) {
+    // Collection keeps both models searchable; a new job picks up the leftovers
+    await supabase
+      .from('embedding_reindex_jobs')
+      .update({
+        status: 'failed',
+        error_message: `${remaining} chunk(s) could not be re-embedded with ${job.to_model}`,
+        completed_at: now,
+        updated_at: now,
+      })
+      .eq('id', job.id);
+    console.warn(`⚠️ [Reindex] Job ${job.id} finished with ${remaining} chunk(s) left on the old model`);
+    return;
+  }
+
+  await supabase
+    .from('embedding_collections')
+    .update({
+      embedding_model: job.to_model,
+      embedding_dimension: getEmbeddingModel(job.to_model).dimension,
+      reindex_model: null,
+      updated_at: now,
+    })
+    .eq('pipeline', job.pipeline);
+
+  await supabase
+    .from('embedding_reindex_jobs')
+    .update({ status: 'completed', completed_at: now, updated_at: now })
+    .eq('id', job.id);
+
+  console.log(`✅ [Reindex] Job ${job.id} completed: ${job.pipeline} now uses ${job.to_model}`);
+}
+
+async function processBatch(supabase: SupabaseClient, jobId: string) {
+  const { data, error } = await supabase
+    .from('embedding_reindex_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single();
+  if (error || !data) throw new Error(`Re-index job not found: ${jobId}`);
+  const job = data as ReindexJob;
+  if (job.status !== 'queued' && job.status !== 'running') return { job, done: true };
+
+  const pipeline = job.pipeline;
+  const table = COLLECTION_CHUNK_TABLES[pipeline];
+  const target = getEmbeddingModel(job.to_model);
+  const apiKey = target.apiKeyEnv ? Deno.env.get(target.apiKeyEnv) : '';
+  if (target.apiKeyEnv && !apiKey) throw new Error(`${target.apiKeyEnv} not configured`);
+
+  if (job.status === 'queued') {
+    const now = new Date().toISOString();
+    await supabase
+      .from('embedding_reindex_jobs')
+      .update({ status: 'running', started_at: now, updated_at: now })
+      .eq('id', jobId);
+  }
+
+  let query = pendingChunksQuery(supabase, pipeline, target.id, '*')
+    .order('id', { ascending: true })
+    .limit(BATCH_SIZE);
+  if (job.cursor_chunk_id) query = query.gt('id', job.cursor_chunk_id);
+
+  const { data: rows, error: fetchError } = await query;
+  const chunks = rows as ReindexChunk[] | null;
+  if (fetchError) throw new Error(`Failed to fetch chunks: ${fetchError.message}`);
+
+  if (!chunks || chunks.length === 0) {
+    await finishJob(supabase, job);
+    return { job, done: true };
+  }
+
+  const documentIds = [...new Set(chunks.map(c => c.document_id).filter(Boolean))];
+  const fileNames = new Map<string, string>();
+  if (pipeline === 'pipeline_a_hybrid' && documentIds.length > 0) {
+    const { data: docs } = await supabase.from('pipeline_a_hybrid_documents').select('id, file_name').in('id', documentIds);
+    (docs || []).forEach((d: { id: string; file_name: string }) => fileNames.set(d.id, d.file_name));
+  }
+
+  let processed = 0;
+  let failed = 0;
+  for (const chunk of chunks) {
+    try {
+      const input = buildEmbeddingInput(pipeline, chunk, fileNames.get(chunk.document_id || '') || 'Unknown');
+      const result = await generateEmbedding(input, apiKey || '', { source: 'reindex-embeddings', model: target.id });
+
+      const { error: updateError } = await supabase
+        .from(table)
+        .update({
+          embedding: JSON.stringify(result.embedding),
+          embedding_model: result.model,
+          embedding_dimension: result.dimension,
+          embedded_at: new Date().toISOString(),
+        })
+        .eq('id', chunk.id);
+      if (updateError) throw new Error(updateError.message);
+      processed++;
+    } catch (chunkError) {
+      // The chunk keeps its old vector (still searchable with the old model)
+      console.error(`❌ [Reindex] Chunk ${chunk.id} failed:`, chunkError);
+      failed++;
+    }
+  }
+
+  await supabase
+    .from('embedding_reindex_jobs')
+    .update({
+      processed_chunks: job.processed_chunks + processed,
+      failed_chunks: job.failed_chunks + failed,
+      cursor_chunk_id: chunks[chunks.length - 1].id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', jobId);
+
+  console.log(`📦 [Reindex] Job ${jobId}: batch of ${chunks.length} (${processed} ok, ${failed} failed)`);
+
+  if (chunks.length < BATCH_SIZE) {
+    await finishJob(supabase, job);
+    return { job, done: true };
+  }
+  return { job, done: false };
+}
+
+/**
+ * Re-index a pipeline with another embedding model.
+ *
+ * POST { pipeline, model } starts a job; POST { jobId } processes the next batch. Each batch
+ * schedules the following one in the background until no chunk is left on the old model, then
+ * the collection switches to the new model.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { pipeline, model, jobId } = await req.json();
+
+    if (jobId) {
+      try {
+        const { done } = await processBatch(supabase, jobId);
+        if (!done) continueInBackground(jobId);
+        return new Response(JSON.stringify({ success: true, jobId, done }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const now = new Date().toISOString();
+        await supabase
+          .from('embedding_reindex_jobs')
+          .update({ status: 'failed', error_message: message, completed_at: now, updated_at: now })
+          .eq('id', jobId);
+        throw error;
+      }
+    }
+
+    if (!ALL_PIPELINES.includes(pipeline)) {
+      return new Response(JSON.stringify({ error: `Invalid pipeline: ${pipeline}` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    if (!model) {
+      return new Response(JSON.stringify({ error: 'model is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const job = await startJob(supabase, pipeline, model);
+    continueInBackground(job.id);
+
+    return new Response(JSON.stringify({ success: true, job }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('❌ [Reindex] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
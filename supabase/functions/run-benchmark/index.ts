@@ -1,11 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { snapshotRunConfig } from "../_shared/benchmarkRuns.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const BENCHMARK_AGENT_SLUG = 'book-serach-expert';
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -16,7 +19,7 @@ serve(async (req) => {
   const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
   try {
-    const { suite = 'financebench', limit = 50 } = await req.json().catch(() => ({}));
+    const { suite = 'financebench', limit = 50, name, scoringMode = 'chain' } = await req.json().catch(() => ({}));
     
     console.log(`[Run Benchmark] Starting event-driven benchmark for suite: ${suite}, limit: ${limit}`);
 
@@ -67,9 +70,28 @@ serve(async (req) => {
 
     console.log(`[Run Benchmark] Found ${validQuestions.length} valid questions across ${readyDocIds.size} ready documents`);
 
-    // Step 3: Generate run_id
+    // Step 3: Generate run_id and record the run with its configuration snapshot
     const run_id = crypto.randomUUID();
 
+    const { agentId, config } = await snapshotRunConfig(supabase, BENCHMARK_AGENT_SLUG, { suite, limit, scoringMode });
+
+    const { error: runError } = await supabase
+      .from('benchmark_runs')
+      .insert({
+        id: run_id,
+        name: name || `${suite} · ${new Date().toISOString().substring(0, 16).replace('T', ' ')}`,
+        source: 'server',
+        suite,
+        agent_id: agentId,
+        config,
+        status: 'running',
+        total_questions: validQuestions.length
+      });
+
+    if (runError) {
+      throw new Error(`Failed to create benchmark run: ${runError.message}`);
+    }
+
     // Step 4: Insert all jobs into queue (trigger will invoke processing)
     const jobsToInsert = validQuestions.map(q => ({
       run_id,
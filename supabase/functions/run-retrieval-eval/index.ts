@@ -0,0 +1,295 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { generateEmbedding } from '../_shared/embeddingService.ts';
+import {
+  ALL_PIPELINES,
+  citationPipeline,
+  resolveAgentPipelines,
+  retrieveForAgent,
+  type PipelineSource,
+} from '../_shared/unifiedRetrieval.ts';
+import {
+  scoreRanking,
+  summarizeByPipeline,
+  type GoldLabels,
+  type MetricRow,
+} from '../_shared/retrievalMetrics.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BENCHMARK_AGENT_SLUG = 'book-serach-expert';
+const UNIFIED = 'unified';
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface LabelledQuestion {
+  id: string;
+  question: string;
+  file_name: string;
+  suite_category: string;
+  gold_chunk_ids: string[];
+  gold_pages: number[];
+}
+
+/**
+ * Retrieval-only benchmark: runs labelled benchmark questions straight through the
+ * search RPCs (no LLM generation, no judge) and stores recall@k / MRR / nDCG per
+ * question and per pipeline in retrieval_eval_results.
+ *
+ * Each pipeline is ranked on its own, plus one "unified" row with the fused
+ * cross-pipeline ranking that agent-chat actually sees. Gold chunk ids only count
+ * for the pipeline they belong to (gold pages are shared), so recall@k and nDCG of a
+ * pipeline are not capped by another pipeline's gold chunks.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      suite = 'financebench',
+      limit = 20,
+      k = 10,
+      agentSlug = BENCHMARK_AGENT_SLUG,
+      pipelines: requestedPipelines = null,
+      includeUnified = true,
+    } = await req.json().catch(() => ({}));
+
+    const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
+    if (!openAIApiKey) {
+      throw new Error('OPENAI_API_KEY not configured');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const { data: agent, error: agentError } = await supabase
+      .from('agents')
+      .select('id')
+      .eq('slug', agentSlug)
+      .single();
+
+    if (agentError || !agent) {
+      throw new Error(`Agent not found: ${agentSlug}`);
+    }
+
+    // Only questions with at least one gold label can be scored
+    let questionsQuery = supabase
+      .from('benchmark_datasets')
+      .select('id, question, file_name, suite_category, gold_chunk_ids, gold_pages')
+      .eq('is_active', true)
+      .or('gold_chunk_ids.neq.{},gold_pages.neq.{}')
+      .limit(limit);
+
+    if (suite !== 'all') {
+      questionsQuery = questionsQuery.eq('suite_category', suite);
+    }
+
+    const { data: questions, error: questionsError } = await questionsQuery;
+
+    if (questionsError) {
+      throw new Error(`Failed to fetch questions: ${questionsError.message}`);
+    }
+
+    if (!questions || questions.length === 0) {
+      return new Response(JSON.stringify({
+        error: 'No labelled benchmark questions found (gold_chunk_ids / gold_pages)',
+        suite
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const agentPipelines = await resolveAgentPipelines(supabase, agent.id);
+    const pipelines = Array.isArray(requestedPipelines)
+      ? agentPipelines.filter(p => requestedPipelines.includes(p))
+      : agentPipelines;
+
+    const run_id = crypto.randomUUID();
+    console.log(`[Retrieval Eval] Run ${run_id}: ${questions.length} questions, k=${k}, pipelines: ${pipelines.join(', ')}`);
+
+    const metricRows: MetricRow[] = [];
+
+    for (const question of questions as LabelledQuestion[]) {
+      const gold: GoldLabels = {
+        chunkIds: question.gold_chunk_ids || [],
+        pages: question.gold_pages || [],
+        documentName: question.file_name,
+      };
+
+      let queryEmbedding: number[];
+      try {
+        queryEmbedding = (await generateEmbedding(question.question, openAIApiKey, { source: 'run-retrieval-eval' })).embedding;
+      } catch (embeddingError) {
+        console.error(`[Retrieval Eval] Embedding failed for question ${question.id}:`, embeddingError);
+        await supabase.from('retrieval_eval_results').insert({
+          run_id,
+          question_id: question.id,
+          question: question.question,
+          pdf_file: question.file_name,
+          suite_category: question.suite_category,
+          pipeline_source: UNIFIED,
+          k,
+          error: `Embedding failed: ${embeddingError instanceof Error ? embeddingError.message : String(embeddingError)}`,
+        });
+        continue;
+      }
+
+      const targets: Array<PipelineSource | typeof UNIFIED> = includeUnified
+        ? [...pipelines, UNIFIED]
+        : [...pipelines];
+
+      const goldByPipeline = new Map<PipelineSource, PipelineGold>();
+      for (const pipeline of pipelines) {
+        goldByPipeline.set(pipeline, await resolvePipelineGold(supabase, pipeline, gold));
+      }
+      const unifiedGold: GoldLabels = {
+        ...gold,
+        chunkIds: Array.from(new Set(Array.from(goldByPipeline.values()).flatMap(g => g.labels.chunkIds))),
+      };
+
+      const rows = [];
+      for (const target of targets) {
+        const startTime = Date.now();
+        const retrieval = await retrieveForAgent(supabase, {
+          agentId: agent.id,
+          query: question.question,
+          queryEmbedding,
+          embedQuery: async (model) => (await generateEmbedding(question.question, openAIApiKey, { source: 'run-retrieval-eval', model })).embedding,
+          topK: k,
+          documentFilter: question.file_name,
+          pipelines: target === UNIFIED ? pipelines : [target],
+        });
+        const responseTimeMs = Date.now() - startTime;
+
+        const targetGold = target === UNIFIED ? unifiedGold : goldByPipeline.get(target)?.labels || gold;
+        const { metrics, judgements } = scoreRanking(retrieval.hits, targetGold, k);
+
+        const goldChunkTypes = new Set<string>(
+          target === UNIFIED
+            ? Array.from(goldByPipeline.values()).flatMap(g => g.chunkTypes)
+            : goldByPipeline.get(target)?.chunkTypes || []
+        );
+        // Citation-id labels can't be looked up by prefix: fall back to the relevant hits' types
+        judgements.filter(j => j.relevant).forEach(j => goldChunkTypes.add(j.chunk_type));
+
+        const row: MetricRow = {
+          pipeline_source: target,
+          gold_chunk_types: Array.from(goldChunkTypes),
+          ...metrics,
+        };
+        metricRows.push(row);
+
+        rows.push({
+          run_id,
+          question_id: question.id,
+          question: question.question,
+          pdf_file: question.file_name,
+          suite_category: question.suite_category,
+          k,
+          retrieved: judgements,
+          response_time_ms: responseTimeMs,
+          error: retrieval.errors.length > 0 ? retrieval.errors.join('; ') : null,
+          ...row,
+        });
+      }
+
+      const { error: insertError } = await supabase.from('retrieval_eval_results').insert(rows);
+      if (insertError) {
+        console.error(`[Retrieval Eval] Failed to store results for question ${question.id}:`, insertError);
+      }
+    }
+
+    const summary = summarizeByPipeline(metricRows);
+    console.log(`[Retrieval Eval] ✅ Run ${run_id} complete`, summary.by_pipeline);
+
+    return new Response(JSON.stringify({
+      success: true,
+      run_id,
+      k,
+      questions: questions.length,
+      pipelines,
+      ...summary,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('[Retrieval Eval] Critical error:', error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+interface PipelineGold {
+  labels: GoldLabels;
+  chunkTypes: string[];
+}
+
+/**
+ * Gold evidence of a question as seen by one pipeline:
+ * - labels: gold pages plus the gold chunk ids stored in this pipeline (UUIDs found in
+ *   its chunk table, citation ids with its prefix; other labels are kept as they are)
+ * - chunkTypes: chunk_type of those chunks plus every chunk on a gold page of the
+ *   question's document
+ */
+async function resolvePipelineGold(
+  supabase: SupabaseClient,
+  pipeline: PipelineSource,
+  gold: GoldLabels
+): Promise<PipelineGold> {
+  if (!ALL_PIPELINES.includes(pipeline)) return { labels: gold, chunkTypes: [] };
+
+  const chunkTypes = new Set<string>();
+  const chunkUuids = gold.chunkIds.filter(label => UUID_REGEX.test(label));
+  const pipelineUuids = new Set<string>();
+
+  if (chunkUuids.length > 0) {
+    const { data } = await supabase
+      .from(`${pipeline}_chunks_raw`)
+      .select('id, chunk_type')
+      .in('id', chunkUuids);
+    (data || []).forEach((chunk: { id: string; chunk_type: string | null }) => {
+      pipelineUuids.add(chunk.id);
+      if (chunk.chunk_type) chunkTypes.add(chunk.chunk_type);
+    });
+  }
+
+  const chunkIds = gold.chunkIds.filter(label => {
+    if (UUID_REGEX.test(label)) return pipelineUuids.has(label);
+    const labelPipeline = citationPipeline(label);
+    return labelPipeline === null || labelPipeline === pipeline;
+  });
+
+  if (gold.pages.length > 0 && gold.documentName) {
+    const { data: document } = await supabase
+      .from(`${pipeline}_documents`)
+      .select('id')
+      .eq('file_name', gold.documentName)
+      .limit(1)
+      .maybeSingle();
+
+    if (document) {
+      const { data } = await supabase
+        .from(`${pipeline}_chunks_raw`)
+        .select('chunk_type')
+        .eq('document_id', document.id)
+        .in('page_number', gold.pages)
+        .limit(200);
+      (data || []).forEach((chunk: { chunk_type: string | null }) => {
+        if (chunk.chunk_type) chunkTypes.add(chunk.chunk_type);
+      });
+    }
+  }
+
+  return { labels: { ...gold, chunkIds }, chunkTypes: Array.from(chunkTypes) };
+}
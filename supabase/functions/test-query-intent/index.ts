@@ -0,0 +1,80 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { generateEmbedding } from '../_shared/embeddingService.ts';
+import { detectIntent, ensureExemplarEmbeddings, loadIntentTaxonomy } from '../_shared/queryIntent.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Test a query against the intent taxonomy that applies to an agent.
+ * Returns the winning intent plus the per-intent evaluation trace
+ * (matched pattern, invalid patterns, best exemplar similarity) for the admin UI.
+ *
+ * Note: semantic-search embeds the LLM-expanded query, here the query is embedded as typed.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { query, agentId = null } = await req.json();
+
+    if (!query || typeof query !== 'string') {
+      throw new Error('No query provided');
+    }
+
+    const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
+    if (!openAIApiKey) {
+      throw new Error('OPENAI_API_KEY not configured');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const taxonomy = await ensureExemplarEmbeddings(
+      supabase,
+      await loadIntentTaxonomy(supabase, agentId),
+      openAIApiKey
+    );
+
+    // Only embed the query when some intent actually has exemplars
+    const needsEmbedding = taxonomy.some(intent => intent.exemplar_embeddings.length > 0);
+    const queryEmbedding = needsEmbedding
+      ? (await generateEmbedding(query, openAIApiKey, { source: 'test-query-intent' })).embedding
+      : null;
+
+    const match = detectIntent(query, taxonomy, queryEmbedding);
+
+    console.log(`[test-query-intent] "${query.substring(0, 80)}" → ${match.intent} (${match.matched_by})`);
+
+    return new Response(
+      JSON.stringify({
+        match,
+        taxonomy: taxonomy.map(intent => ({
+          id: intent.id,
+          name: intent.name,
+          scope: intent.scope,
+          folder: intent.folder,
+          priority: intent.priority,
+          exemplar_threshold: intent.exemplar_threshold,
+        })),
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in test-query-intent:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
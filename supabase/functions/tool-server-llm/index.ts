@@ -1,9 +1,12 @@
 // ============================================================
-// Edge Function: tool-server-llm v2.0.0
+// Edge Function: tool-server-llm v2.1.0
 // ============================================================
 // Chiama LLM e restituisce risposta RAW (incluso tool_use).
 // NON esegue tool internamente - lascia al frontend.
 //
+// v2.1.0: provider calls via shared LLM gateway (_shared/llmGateway.ts)
+// - retries/timeouts, usage + cost in `usage`
+//
 // v2.0.0: Claude Computer Use Native Support
 // - Beta flags per computer-use-2025-01-24
 // - Prompt caching per ridurre costi
@@ -12,6 +15,14 @@
 // ============================================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  callLLM,
+  inferProviderFromModel,
+  resolveProviderAndModel,
+  type LLMContentBlock,
+  type LLMMessage,
+  type LLMUsage,
+} from "../_shared/llmGateway.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -33,6 +44,11 @@ const VIEWPORT_HEIGHT = 700;
 // Max images to keep in conversation (older ones are filtered)
 const MAX_RECENT_IMAGES = 10;
 
+// Computer use is validated on Sonnet 4: keep it as the Anthropic default here
+const PROVIDER_DEFAULT_MODELS: Record<string, string | undefined> = {
+  anthropic: 'claude-sonnet-4-20250514',
+};
+
 // ────────────────────────────────────────────────────────────
 // Types
 // ────────────────────────────────────────────────────────────
@@ -94,10 +110,7 @@ interface LLMResponse {
   tool_use: ToolUse | null;
   stop_reason: string;
   model: string;
-  usage?: {
-    input_tokens: number;
-    output_tokens: number;
-  };
+  usage?: LLMUsage;
 }
 
 // ────────────────────────────────────────────────────────────
@@ -165,46 +178,60 @@ serve(async (req) => {
       }
     }
 
-    const { selectedProvider, selectedModel } = resolveProviderAndModel(provider, model);
+    const { provider: selectedProvider, model: selectedModel } = model
+      ? resolveProviderAndModel(inferProviderFromModel(model) || provider, model)
+      : resolveProviderAndModel(provider, PROVIDER_DEFAULT_MODELS[provider || 'anthropic']);
     console.log(`🤖 [${requestId}] Using ${selectedProvider}/${selectedModel}`);
 
     const fullSystemPrompt = buildSystemPrompt(system_prompt, context);
-
-    let llmResponse: LLMResponse;
-
-    switch (selectedProvider) {
-      case 'anthropic':
-        llmResponse = await callAnthropic(
-          messages,
-          tools,
-          selectedModel,
-          fullSystemPrompt,
-          max_tokens,
-          temperature,
-          requestId,
-          {
-            enableComputerUse: enable_computer_use,
-            enablePromptCaching: enable_prompt_caching,
-            enableTokenEfficientTools: enable_token_efficient_tools,
-            maxRecentImages: max_recent_images,
-            screenWidth: context?.screen_width || VIEWPORT_WIDTH,
-            screenHeight: context?.screen_height || VIEWPORT_HEIGHT,
-          }
-        );
-        break;
-      case 'openai':
-        llmResponse = await callOpenAI(messages, tools, selectedModel, fullSystemPrompt, max_tokens, temperature, requestId);
-        break;
-      case 'google':
-        llmResponse = await callGoogle(messages, tools, selectedModel, fullSystemPrompt, max_tokens, temperature, requestId);
-        break;
-      case 'deepseek':
-        llmResponse = await callDeepSeek(messages, tools, selectedModel, fullSystemPrompt, max_tokens, temperature, requestId);
-        break;
-      default:
-        throw new Error(`Unknown provider: ${selectedProvider}`);
+    const isAnthropic = selectedProvider === 'anthropic';
+
+    // Build beta flags (Anthropic only)
+    const betas: string[] = [];
+    if (isAnthropic && enable_computer_use) betas.push(COMPUTER_USE_BETA_FLAG);
+    if (isAnthropic && enable_prompt_caching) betas.push(PROMPT_CACHING_BETA_FLAG);
+    if (isAnthropic && enable_token_efficient_tools) betas.push(TOKEN_EFFICIENT_TOOLS_BETA);
+    if (isAnthropic) console.log(`🔵 [${requestId}] Betas: ${betas.join(', ') || 'none'}`);
+
+    // Native Claude computer tool
+    const nativeTools: Record<string, unknown>[] = [];
+    if (isAnthropic && enable_computer_use) {
+      const screenWidth = context?.screen_width || VIEWPORT_WIDTH;
+      const screenHeight = context?.screen_height || VIEWPORT_HEIGHT;
+      nativeTools.push({
+        type: 'computer_20250124',
+        name: 'computer',
+        display_width_px: screenWidth,
+        display_height_px: screenHeight,
+      });
+      console.log(`🖥️ [${requestId}] Computer tool: ${screenWidth}x${screenHeight}`);
     }
 
+    // Filter old images to save tokens
+    const filteredMessages = isAnthropic ? filterOldImages(messages, max_recent_images) : messages;
+
+    const result = await callLLM({
+      provider: selectedProvider,
+      model: selectedModel,
+      system: fullSystemPrompt,
+      messages: toGatewayMessages(filteredMessages, isAnthropic && enable_prompt_caching),
+      tools,
+      maxTokens: max_tokens,
+      temperature,
+      source: 'tool-server-llm',
+      anthropic: isAnthropic
+        ? { betas, nativeTools, cacheSystemPrompt: enable_prompt_caching }
+        : undefined,
+    });
+
+    const llmResponse: LLMResponse = {
+      response: result.text,
+      tool_use: result.toolCalls[0] || null,
+      stop_reason: result.rawStopReason || result.stopReason,
+      model: result.model,
+      usage: result.usage,
+    };
+
     console.log(`✅ [${requestId}] Response: ${llmResponse.tool_use ? `tool_use(${llmResponse.tool_use.name})` : 'text'}`);
 
     return new Response(JSON.stringify(llmResponse), {
@@ -226,46 +253,6 @@ serve(async (req) => {
   }
 });
 
-// ────────────────────────────────────────────────────────────
-// Provider/Model Resolution
-// ────────────────────────────────────────────────────────────
-
-function resolveProviderAndModel(
-  provider?: string,
-  model?: string
-): { selectedProvider: string; selectedModel: string } {
-  
-  if (model) {
-    if (model.includes('claude')) {
-      return { selectedProvider: 'anthropic', selectedModel: model };
-    }
-    if (model.includes('gpt')) {
-      return { selectedProvider: 'openai', selectedModel: model };
-    }
-    if (model.includes('gemini')) {
-      return { selectedProvider: 'google', selectedModel: model };
-    }
-    if (model.includes('deepseek')) {
-      return { selectedProvider: 'deepseek', selectedModel: model };
-    }
-  }
-
-  if (provider) {
-    const defaults: Record<string, string> = {
-      anthropic: 'claude-sonnet-4-20250514',
-      openai: 'gpt-4o',
-      google: 'gemini-2.0-flash',
-      deepseek: 'deepseek-chat',
-    };
-    return { selectedProvider: provider, selectedModel: defaults[provider] || model || '' };
-  }
-
-  return {
-    selectedProvider: 'anthropic',
-    selectedModel: 'claude-sonnet-4-20250514',
-  };
-}
-
 // ────────────────────────────────────────────────────────────
 // System Prompt Builder - Optimized for Windows/Edge
 // ────────────────────────────────────────────────────────────
@@ -359,137 +346,50 @@ IMPORTANT: Always specify coordinate_origin when clicking!
   return fullPrompt;
 }
 
-// ════════════════════════════════════════════════════════════
-// ANTHROPIC (Claude) - With Computer Use Support
-// ════════════════════════════════════════════════════════════
-
-interface AnthropicOptions {
-  enableComputerUse: boolean;
-  enablePromptCaching: boolean;
-  enableTokenEfficientTools: boolean;
-  maxRecentImages: number;
-  screenWidth: number;
-  screenHeight: number;
-}
-
-async function callAnthropic(
-  messages: Message[],
-  tools: Tool[],
-  model: string,
-  systemPrompt: string,
-  maxTokens: number,
-  temperature: number,
-  requestId: string,
-  options: AnthropicOptions
-): Promise<LLMResponse> {
-  const apiKey = Deno.env.get('ANTHROPIC_API_KEY');
-  if (!apiKey) throw new Error('ANTHROPIC_API_KEY not configured');
-
-  // Build beta flags
-  const betas: string[] = [];
-  if (options.enableComputerUse) {
-    betas.push(COMPUTER_USE_BETA_FLAG);
-  }
-  if (options.enablePromptCaching) {
-    betas.push(PROMPT_CACHING_BETA_FLAG);
-  }
-  if (options.enableTokenEfficientTools) {
-    betas.push(TOKEN_EFFICIENT_TOOLS_BETA);
-  }
-
-  console.log(`🔵 [${requestId}] Betas: ${betas.join(', ') || 'none'}`);
-
-  // Filter old images to save tokens
-  const filteredMessages = filterOldImages(messages, options.maxRecentImages);
-
-  // Convert messages with prompt caching
-  const anthropicMessages = convertMessagesToAnthropic(filteredMessages, options.enablePromptCaching);
-
-  // Build tools array - include native computer tool if enabled
-  const anthropicTools: unknown[] = tools.map(tool => ({
-    name: tool.name,
-    description: tool.description,
-    input_schema: tool.input_schema,
-  }));
-
-  // Add native Claude computer tool
-  if (options.enableComputerUse) {
-    anthropicTools.push({
-      type: 'computer_20250124',
-      name: 'computer',
-      display_width_px: options.screenWidth,
-      display_height_px: options.screenHeight,
-    });
-    console.log(`🖥️ [${requestId}] Computer tool: ${options.screenWidth}x${options.screenHeight}`);
-  }
-
-  // Build system with cache control
-  const system = options.enablePromptCaching
-    ? [{ type: 'text', text: systemPrompt, cache_control: { type: 'ephemeral' } }]
-    : systemPrompt;
-
-  console.log(`🔵 [${requestId}] Calling Anthropic API...`);
-
-  const requestBody: Record<string, unknown> = {
-    model,
-    max_tokens: maxTokens,
-    temperature,
-    system,
-    messages: anthropicMessages,
-    tools: anthropicTools,
-  };
-
-  // Add betas header if any
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    'x-api-key': apiKey,
-    'anthropic-version': '2023-06-01',
-  };
-
-  if (betas.length > 0) {
-    headers['anthropic-beta'] = betas.join(',');
-  }
+// ────────────────────────────────────────────────────────────
+// Message Conversion - frontend history → gateway schema
+// ────────────────────────────────────────────────────────────
 
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(requestBody),
-  });
+function toGatewayMessages(messages: Message[], enableCaching: boolean): LLMMessage[] {
+  const result: LLMMessage[] = [];
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Anthropic API error ${response.status}: ${errorText}`);
-  }
+  for (let i = 0; i < messages.length; i++) {
+    const msg = messages[i];
+    if (msg.role !== 'user' && msg.role !== 'assistant') continue;
 
-  const data = await response.json();
+    // For prompt caching, mark the last block of the most recent user messages
+    const cacheLast = enableCaching && msg.role === 'user' && i >= messages.length - 3;
 
-  let textContent = '';
-  let toolUse: ToolUse | null = null;
+    if (msg.tool_use) {
+      const blocks: LLMContentBlock[] = [];
+      if (typeof msg.content === 'string' && msg.content) blocks.push({ type: 'text', text: msg.content });
+      blocks.push({ type: 'tool_use', id: msg.tool_use.id, name: msg.tool_use.name, input: msg.tool_use.input });
+      result.push({ role: 'assistant', content: blocks });
+      continue;
+    }
 
-  for (const block of data.content || []) {
-    if (block.type === 'text') {
-      textContent += block.text;
-    } else if (block.type === 'tool_use') {
-      toolUse = {
-        id: block.id,
-        name: block.name,
-        input: block.input,
-      };
+    if (!Array.isArray(msg.content)) {
+      result.push({
+        role: msg.role,
+        content: cacheLast ? [{ type: 'text', text: msg.content || '', cache: true }] : msg.content || '',
+      });
+      continue;
     }
-  }
 
-  // Log cache performance if available
-  if (data.usage?.cache_creation_input_tokens || data.usage?.cache_read_input_tokens) {
-    console.log(`💾 [${requestId}] Cache: created=${data.usage.cache_creation_input_tokens || 0}, read=${data.usage.cache_read_input_tokens || 0}`);
+    const blocks = msg.content.map((block, blockIdx): LLMContentBlock => {
+      const cache = cacheLast && blockIdx === msg.content.length - 1;
+      if (block.type === 'tool_result') {
+        return { type: 'tool_result', tool_use_id: block.tool_use_id || '', content: block.content || '', is_error: block.is_error, cache };
+      }
+      if (block.type === 'image' && block.source) {
+        return { type: 'image', source: block.source };
+      }
+      return { type: 'text', text: block.text || '', cache };
+    });
+    result.push({ role: msg.role, content: blocks });
   }
 
-  return {
-    response: textContent || null,
-    tool_use: toolUse,
-    stop_reason: data.stop_reason,
-    model: data.model,
-    usage: data.usage,
-  };
+  return result;
 }
 
 // ────────────────────────────────────────────────────────────
@@ -531,412 +431,3 @@ function filterOldImages(messages: Message[], maxImages: number): Message[] {
     return { ...msg, content: filteredContent };
   });
 }
-
-function convertMessagesToAnthropic(messages: Message[], enableCaching: boolean = false): unknown[] {
-  const result: unknown[] = [];
-
-  for (let i = 0; i < messages.length; i++) {
-    const msg = messages[i];
-    if (msg.role === 'system') continue;
-
-    // For prompt caching, add cache_control to recent user messages
-    const isRecentUserMessage = enableCaching &&
-      msg.role === 'user' &&
-      i >= messages.length - 3; // Last 3 user messages
-
-    if (msg.role === 'user' || msg.role === 'assistant') {
-      if (Array.isArray(msg.content)) {
-        const blocks = msg.content.map((block, blockIdx) => {
-          const isLastBlock = blockIdx === msg.content.length - 1;
-
-          if (block.type === 'tool_result') {
-            const result: Record<string, unknown> = {
-              type: 'tool_result',
-              tool_use_id: block.tool_use_id,
-              content: block.content,
-              is_error: block.is_error,
-            };
-            // Add cache control to last block of recent messages
-            if (isRecentUserMessage && isLastBlock) {
-              result.cache_control = { type: 'ephemeral' };
-            }
-            return result;
-          }
-          if (block.type === 'image') {
-            return {
-              type: 'image',
-              source: block.source,
-            };
-          }
-          const textBlock: Record<string, unknown> = { type: 'text', text: block.text || '' };
-          if (isRecentUserMessage && isLastBlock) {
-            textBlock.cache_control = { type: 'ephemeral' };
-          }
-          return textBlock;
-        });
-        result.push({ role: msg.role, content: blocks });
-      } else if (msg.tool_use) {
-        result.push({
-          role: 'assistant',
-          content: [
-            { type: 'tool_use', id: msg.tool_use.id, name: msg.tool_use.name, input: msg.tool_use.input }
-          ],
-        });
-      } else {
-        const content = isRecentUserMessage
-          ? [{ type: 'text', text: msg.content as string, cache_control: { type: 'ephemeral' } }]
-          : msg.content;
-        result.push({ role: msg.role, content });
-      }
-    }
-  }
-
-  return result;
-}
-
-// ════════════════════════════════════════════════════════════
-// OPENAI (GPT)
-// ════════════════════════════════════════════════════════════
-
-async function callOpenAI(
-  messages: Message[],
-  tools: Tool[],
-  model: string,
-  systemPrompt: string,
-  maxTokens: number,
-  temperature: number,
-  requestId: string
-): Promise<LLMResponse> {
-  const apiKey = Deno.env.get('OPENAI_API_KEY');
-  if (!apiKey) throw new Error('OPENAI_API_KEY not configured');
-
-  const openaiMessages = convertMessagesToOpenAI(messages, systemPrompt);
-
-  const openaiTools = tools.map(tool => ({
-    type: 'function',
-    function: {
-      name: tool.name,
-      description: tool.description,
-      parameters: tool.input_schema,
-    },
-  }));
-
-  console.log(`🟢 [${requestId}] Calling OpenAI API...`);
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model,
-      max_tokens: maxTokens,
-      temperature,
-      messages: openaiMessages,
-      tools: openaiTools,
-      tool_choice: 'auto',
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`OpenAI API error ${response.status}: ${errorText}`);
-  }
-
-  const data = await response.json();
-  const choice = data.choices?.[0];
-
-  if (!choice) {
-    throw new Error('No response from OpenAI');
-  }
-
-  let toolUse: ToolUse | null = null;
-  if (choice.message.tool_calls?.length > 0) {
-    const tc = choice.message.tool_calls[0];
-    toolUse = {
-      id: tc.id,
-      name: tc.function.name,
-      input: JSON.parse(tc.function.arguments || '{}'),
-    };
-  }
-
-  return {
-    response: choice.message.content || null,
-    tool_use: toolUse,
-    stop_reason: choice.finish_reason,
-    model: data.model,
-    usage: data.usage ? {
-      input_tokens: data.usage.prompt_tokens,
-      output_tokens: data.usage.completion_tokens,
-    } : undefined,
-  };
-}
-
-function convertMessagesToOpenAI(messages: Message[], systemPrompt: string): unknown[] {
-  const result: unknown[] = [
-    { role: 'system', content: systemPrompt }
-  ];
-
-  for (const msg of messages) {
-    if (msg.role === 'system') continue;
-
-    if (Array.isArray(msg.content)) {
-      const toolResults = msg.content.filter(b => b.type === 'tool_result');
-      if (toolResults.length > 0) {
-        for (const tr of toolResults) {
-          result.push({
-            role: 'tool',
-            tool_call_id: tr.tool_use_id,
-            content: tr.content,
-          });
-        }
-        continue;
-      }
-      const parts = msg.content.map(block => {
-        if (block.type === 'image' && block.source) {
-          return {
-            type: 'image_url',
-            image_url: { url: `data:${block.source.media_type};base64,${block.source.data}` }
-          };
-        }
-        return { type: 'text', text: block.text || '' };
-      });
-      result.push({ role: msg.role, content: parts });
-    } else if (msg.tool_use) {
-      result.push({
-        role: 'assistant',
-        content: null,
-        tool_calls: [{
-          id: msg.tool_use.id,
-          type: 'function',
-          function: {
-            name: msg.tool_use.name,
-            arguments: JSON.stringify(msg.tool_use.input),
-          },
-        }],
-      });
-    } else {
-      result.push({ role: msg.role, content: msg.content });
-    }
-  }
-
-  return result;
-}
-
-// ════════════════════════════════════════════════════════════
-// GOOGLE (Gemini)
-// ════════════════════════════════════════════════════════════
-
-async function callGoogle(
-  messages: Message[],
-  tools: Tool[],
-  model: string,
-  systemPrompt: string,
-  maxTokens: number,
-  temperature: number,
-  requestId: string
-): Promise<LLMResponse> {
-  const apiKey = Deno.env.get('GOOGLE_AI_STUDIO_API_KEY');
-  if (!apiKey) throw new Error('GOOGLE_AI_STUDIO_API_KEY not configured');
-
-  const geminiContents = convertMessagesToGemini(messages);
-
-  const geminiTools = [{
-    function_declarations: tools.map(tool => ({
-      name: tool.name,
-      description: tool.description,
-      parameters: tool.input_schema,
-    })),
-  }];
-
-  console.log(`🔴 [${requestId}] Calling Google Gemini API...`);
-
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      contents: geminiContents,
-      tools: geminiTools,
-      systemInstruction: { parts: [{ text: systemPrompt }] },
-      generationConfig: {
-        maxOutputTokens: maxTokens,
-        temperature,
-      },
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Google API error ${response.status}: ${errorText}`);
-  }
-
-  const data = await response.json();
-  const candidate = data.candidates?.[0];
-
-  if (!candidate) {
-    throw new Error('No response from Gemini');
-  }
-
-  let textContent = '';
-  let toolUse: ToolUse | null = null;
-
-  for (const part of candidate.content?.parts || []) {
-    if (part.text) {
-      textContent += part.text;
-    } else if (part.functionCall) {
-      toolUse = {
-        id: crypto.randomUUID(),
-        name: part.functionCall.name,
-        input: part.functionCall.args || {},
-      };
-    }
-  }
-
-  return {
-    response: textContent || null,
-    tool_use: toolUse,
-    stop_reason: candidate.finishReason || 'stop',
-    model,
-    usage: data.usageMetadata ? {
-      input_tokens: data.usageMetadata.promptTokenCount,
-      output_tokens: data.usageMetadata.candidatesTokenCount,
-    } : undefined,
-  };
-}
-
-function convertMessagesToGemini(messages: Message[]): unknown[] {
-  const result: unknown[] = [];
-
-  for (const msg of messages) {
-    if (msg.role === 'system') continue;
-
-    const role = msg.role === 'assistant' ? 'model' : 'user';
-
-    if (Array.isArray(msg.content)) {
-      const toolResults = msg.content.filter(b => b.type === 'tool_result');
-      if (toolResults.length > 0) {
-        for (const tr of toolResults) {
-          result.push({
-            role: 'user',
-            parts: [{
-              functionResponse: {
-                name: 'tool_result',
-                response: { content: tr.content },
-              },
-            }],
-          });
-        }
-        continue;
-      }
-
-      const parts = msg.content.map(block => {
-        if (block.type === 'image' && block.source) {
-          return {
-            inlineData: {
-              mimeType: block.source.media_type,
-              data: block.source.data,
-            },
-          };
-        }
-        return { text: block.text || '' };
-      });
-      result.push({ role, parts });
-    } else if (msg.tool_use) {
-      result.push({
-        role: 'model',
-        parts: [{
-          functionCall: {
-            name: msg.tool_use.name,
-            args: msg.tool_use.input,
-          },
-        }],
-      });
-    } else {
-      result.push({ role, parts: [{ text: msg.content as string }] });
-    }
-  }
-
-  return result;
-}
-
-// ════════════════════════════════════════════════════════════
-// DEEPSEEK
-// ════════════════════════════════════════════════════════════
-
-async function callDeepSeek(
-  messages: Message[],
-  tools: Tool[],
-  model: string,
-  systemPrompt: string,
-  maxTokens: number,
-  temperature: number,
-  requestId: string
-): Promise<LLMResponse> {
-  const apiKey = Deno.env.get('DEEPSEEK_API_KEY');
-  if (!apiKey) throw new Error('DEEPSEEK_API_KEY not configured');
-
-  const deepseekMessages = convertMessagesToOpenAI(messages, systemPrompt);
-
-  const deepseekTools = tools.map(tool => ({
-    type: 'function',
-    function: {
-      name: tool.name,
-      description: tool.description,
-      parameters: tool.input_schema,
-    },
-  }));
-
-  console.log(`🟣 [${requestId}] Calling DeepSeek API...`);
-
-  const response = await fetch('https://api.deepseek.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model,
-      max_tokens: maxTokens,
-      temperature,
-      messages: deepseekMessages,
-      tools: deepseekTools,
-      tool_choice: 'auto',
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`DeepSeek API error ${response.status}: ${errorText}`);
-  }
-
-  const data = await response.json();
-  const choice = data.choices?.[0];
-
-  if (!choice) {
-    throw new Error('No response from DeepSeek');
-  }
-
-  let toolUse: ToolUse | null = null;
-  if (choice.message.tool_calls?.length > 0) {
-    const tc = choice.message.tool_calls[0];
-    toolUse = {
-      id: tc.id,
-      name: tc.function.name,
-      input: JSON.parse(tc.function.arguments || '{}'),
-    };
-  }
-
-  return {
-    response: choice.message.content || null,
-    tool_use: toolUse,
-    stop_reason: choice.finish_reason,
-    model: data.model,
-    usage: data.usage ? {
-      input_tokens: data.usage.prompt_tokens,
-      output_tokens: data.usage.completion_tokens,
-    } : undefined,
-  };
-}
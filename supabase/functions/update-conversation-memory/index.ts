@@ -0,0 +1,60 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { updateConversationMemory } from '../_shared/conversationMemory.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Update the memory of a conversation after a turn.
+ *
+ * POST { conversationId } folds the messages that left agent-chat's recent window into the rolling
+ * summary, extracts long-term user facts from them and embeds memories edited by the user.
+ * Called in the background by agent-chat; a no-op while the conversation is short.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { conversationId } = await req.json();
+    if (!conversationId) {
+      return new Response(
+        JSON.stringify({ error: 'conversationId is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: conversation } = await supabase
+      .from('agent_conversations')
+      .select('agent_id')
+      .eq('id', conversationId)
+      .maybeSingle();
+
+    const result = await updateConversationMemory(supabase, conversationId, {
+      lovableApiKey: Deno.env.get('LOVABLE_API_KEY'),
+      openAIApiKey: Deno.env.get('OPENAI_API_KEY'),
+      usageContext: { agentId: conversation?.agent_id || null, conversationId },
+    });
+
+    if (result.foldedMessages > 0 || result.factsAdded > 0) {
+      console.log(`🧠 [Conversation Memory] ${conversationId}: ${result.foldedMessages} messages summarized, ${result.factsAdded} facts added`);
+    }
+
+    return new Response(JSON.stringify({ success: true, ...result }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('❌ [Conversation Memory] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
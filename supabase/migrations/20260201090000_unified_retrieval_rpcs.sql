@@ -0,0 +1,308 @@
+-- Unified retrieval: per-pipeline search RPCs
+-- The unified retrieval service (_shared/unifiedRetrieval.ts) fans out to every pipeline
+-- an agent has knowledge in and fuses the ranked lists with Reciprocal Rank Fusion.
+-- Each pipeline is searched separately so that ranks (not raw scores) are compared.
+
+-- Step 1: Which pipelines does the agent have active knowledge in?
+CREATE OR REPLACE FUNCTION public.get_agent_knowledge_pipelines(p_agent_id uuid)
+RETURNS TABLE(pipeline_source text, chunk_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT 'pipeline_a'::text, count(*) FROM pipeline_a_agent_knowledge
+    WHERE agent_id = p_agent_id AND is_active = true
+  UNION ALL
+  SELECT 'pipeline_a_hybrid'::text, count(*) FROM pipeline_a_hybrid_agent_knowledge
+    WHERE agent_id = p_agent_id AND is_active = true
+  UNION ALL
+  SELECT 'pipeline_b'::text, count(*) FROM pipeline_b_agent_knowledge
+    WHERE agent_id = p_agent_id AND is_active = true
+  UNION ALL
+  SELECT 'pipeline_c'::text, count(*) FROM pipeline_c_agent_knowledge
+    WHERE agent_id = p_agent_id AND is_active = true;
+$function$;
+
+-- Step 2: Semantic search restricted to a single pipeline
+CREATE OR REPLACE FUNCTION public.match_pipeline_chunks(
+  p_pipeline text,
+  query_embedding vector,
+  p_agent_id uuid,
+  match_threshold double precision DEFAULT 0.05,
+  match_count integer DEFAULT 10,
+  p_document_name text DEFAULT NULL
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  content text,
+  category text,
+  similarity double precision,
+  document_name text,
+  chunk_type text,
+  pipeline_source text,
+  page_number integer,
+  chunk_index integer,
+  heading_hierarchy jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF p_pipeline = 'pipeline_a' THEN
+    RETURN QUERY
+    SELECT
+      par.id,
+      par.document_id,
+      COALESCE(par.original_content, par.content) as content,
+      par.chunk_type::text as category,
+      1 - (par.embedding <=> query_embedding) as similarity,
+      pad.file_name as document_name,
+      par.chunk_type,
+      'pipeline_a'::text as pipeline_source,
+      par.page_number,
+      par.chunk_index,
+      par.heading_hierarchy
+    FROM pipeline_a_chunks_raw par
+    JOIN pipeline_a_agent_knowledge paak ON paak.chunk_id = par.id
+    JOIN pipeline_a_documents pad ON pad.id = par.document_id
+    WHERE paak.agent_id = p_agent_id
+      AND paak.is_active = true
+      AND par.embedding_status = 'ready'
+      AND 1 - (par.embedding <=> query_embedding) > match_threshold
+      AND (p_document_name IS NULL OR pad.file_name = p_document_name)
+    ORDER BY similarity DESC
+    LIMIT match_count;
+
+  ELSIF p_pipeline = 'pipeline_a_hybrid' THEN
+    RETURN QUERY
+    SELECT
+      pah.id,
+      pah.document_id,
+      COALESCE(pah.original_content, pah.content) as content,
+      pah.chunk_type::text as category,
+      1 - (pah.embedding <=> query_embedding) as similarity,
+      pahd.file_name as document_name,
+      pah.chunk_type,
+      'pipeline_a_hybrid'::text as pipeline_source,
+      pah.page_number,
+      pah.chunk_index,
+      pah.heading_hierarchy
+    FROM pipeline_a_hybrid_chunks_raw pah
+    JOIN pipeline_a_hybrid_agent_knowledge pahak ON pahak.chunk_id = pah.id
+    JOIN pipeline_a_hybrid_documents pahd ON pahd.id = pah.document_id
+    WHERE pahak.agent_id = p_agent_id
+      AND pahak.is_active = true
+      AND pah.embedding_status = 'ready'
+      AND 1 - (pah.embedding <=> query_embedding) > match_threshold
+      AND (p_document_name IS NULL OR pahd.file_name = p_document_name)
+    ORDER BY similarity DESC
+    LIMIT match_count;
+
+  ELSIF p_pipeline = 'pipeline_b' THEN
+    RETURN QUERY
+    SELECT
+      pbr.id,
+      pbr.document_id,
+      pbr.content,
+      pbr.chunk_type::text as category,
+      1 - (pbr.embedding <=> query_embedding) as similarity,
+      pbd.file_name as document_name,
+      pbr.chunk_type,
+      'pipeline_b'::text as pipeline_source,
+      pbr.page_number,
+      pbr.chunk_index,
+      NULL::jsonb as heading_hierarchy
+    FROM pipeline_b_chunks_raw pbr
+    JOIN pipeline_b_agent_knowledge pbak ON pbak.chunk_id = pbr.id
+    JOIN pipeline_b_documents pbd ON pbd.id = pbr.document_id
+    WHERE pbak.agent_id = p_agent_id
+      AND pbak.is_active = true
+      AND pbr.embedding_status = 'ready'
+      AND 1 - (pbr.embedding <=> query_embedding) > match_threshold
+      AND (p_document_name IS NULL OR pbd.file_name = p_document_name)
+    ORDER BY similarity DESC
+    LIMIT match_count;
+
+  ELSIF p_pipeline = 'pipeline_c' THEN
+    RETURN QUERY
+    SELECT
+      pcr.id,
+      pcr.document_id,
+      pcr.content,
+      pcr.chunk_type::text as category,
+      1 - (pcr.embedding <=> query_embedding) as similarity,
+      pcd.file_name as document_name,
+      pcr.chunk_type,
+      'pipeline_c'::text as pipeline_source,
+      pcr.page_number,
+      pcr.chunk_index,
+      pcr.headings as heading_hierarchy
+    FROM pipeline_c_chunks_raw pcr
+    JOIN pipeline_c_agent_knowledge pcak ON pcak.chunk_id = pcr.id
+    JOIN pipeline_c_documents pcd ON pcd.id = pcr.document_id
+    WHERE pcak.agent_id = p_agent_id
+      AND pcak.is_active = true
+      AND pcr.embedding_status = 'ready'
+      AND 1 - (pcr.embedding <=> query_embedding) > match_threshold
+      AND (p_document_name IS NULL OR pcd.file_name = p_document_name)
+    ORDER BY similarity DESC
+    LIMIT match_count;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown pipeline: %', p_pipeline;
+  END IF;
+END;
+$function$;
+
+-- Step 3: Keyword (FTS) search restricted to a single pipeline
+-- Same OR-logic as keyword_search_documents; Pipeline C is now searchable by keyword too.
+CREATE OR REPLACE FUNCTION public.keyword_search_pipeline_chunks(
+  p_pipeline text,
+  search_query text,
+  p_agent_id uuid,
+  match_count integer DEFAULT 10,
+  p_document_name text DEFAULT NULL
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  content text,
+  category text,
+  similarity double precision,
+  document_name text,
+  chunk_type text,
+  pipeline_source text,
+  page_number integer,
+  chunk_index integer,
+  heading_hierarchy jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  or_query text;
+BEGIN
+  -- Convert space-separated terms to OR logic for permissive matching
+  or_query := regexp_replace(trim(search_query), '\s+', ' | ', 'g');
+
+  IF p_pipeline = 'pipeline_a' THEN
+    RETURN QUERY
+    SELECT
+      par.id,
+      par.document_id,
+      COALESCE(par.original_content, par.content) as content,
+      par.chunk_type::text as category,
+      GREATEST(
+        ts_rank(to_tsvector('english', par.content), to_tsquery('english', or_query)),
+        COALESCE(ts_rank(to_tsvector('english', par.original_content), to_tsquery('english', or_query)), 0)
+      )::double precision as similarity,
+      pad.file_name as document_name,
+      par.chunk_type,
+      'pipeline_a'::text as pipeline_source,
+      par.page_number,
+      par.chunk_index,
+      par.heading_hierarchy
+    FROM pipeline_a_chunks_raw par
+    JOIN pipeline_a_agent_knowledge paak ON paak.chunk_id = par.id
+    JOIN pipeline_a_documents pad ON pad.id = par.document_id
+    WHERE paak.agent_id = p_agent_id
+      AND paak.is_active = true
+      AND par.embedding_status = 'ready'
+      AND (
+        to_tsvector('english', par.content) @@ to_tsquery('english', or_query)
+        OR to_tsvector('english', COALESCE(par.original_content, '')) @@ to_tsquery('english', or_query)
+      )
+      AND (p_document_name IS NULL OR pad.file_name = p_document_name)
+    ORDER BY similarity DESC
+    LIMIT match_count;
+
+  ELSIF p_pipeline = 'pipeline_a_hybrid' THEN
+    RETURN QUERY
+    SELECT
+      pah.id,
+      pah.document_id,
+      COALESCE(pah.original_content, pah.content) as content,
+      pah.chunk_type::text as category,
+      GREATEST(
+        ts_rank(to_tsvector('english', pah.content), to_tsquery('english', or_query)),
+        COALESCE(ts_rank(to_tsvector('english', pah.original_content), to_tsquery('english', or_query)), 0)
+      )::double precision as similarity,
+      pahd.file_name as document_name,
+      pah.chunk_type,
+      'pipeline_a_hybrid'::text as pipeline_source,
+      pah.page_number,
+      pah.chunk_index,
+      pah.heading_hierarchy
+    FROM pipeline_a_hybrid_chunks_raw pah
+    JOIN pipeline_a_hybrid_agent_knowledge pahak ON pahak.chunk_id = pah.id
+    JOIN pipeline_a_hybrid_documents pahd ON pahd.id = pah.document_id
+    WHERE pahak.agent_id = p_agent_id
+      AND pahak.is_active = true
+      AND pah.embedding_status = 'ready'
+      AND (
+        to_tsvector('english', pah.content) @@ to_tsquery('english', or_query)
+        OR to_tsvector('english', COALESCE(pah.original_content, '')) @@ to_tsquery('english', or_query)
+      )
+      AND (p_document_name IS NULL OR pahd.file_name = p_document_name)
+    ORDER BY similarity DESC
+    LIMIT match_count;
+
+  ELSIF p_pipeline = 'pipeline_b' THEN
+    RETURN QUERY
+    SELECT
+      pbr.id,
+      pbr.document_id,
+      pbr.content,
+      pbr.chunk_type::text as category,
+      ts_rank(to_tsvector('english', pbr.content), to_tsquery('english', or_query))::double precision as similarity,
+      pbd.file_name as document_name,
+      pbr.chunk_type,
+      'pipeline_b'::text as pipeline_source,
+      pbr.page_number,
+      pbr.chunk_index,
+      NULL::jsonb as heading_hierarchy
+    FROM pipeline_b_chunks_raw pbr
+    JOIN pipeline_b_agent_knowledge pbak ON pbak.chunk_id = pbr.id
+    JOIN pipeline_b_documents pbd ON pbd.id = pbr.document_id
+    WHERE pbak.agent_id = p_agent_id
+      AND pbak.is_active = true
+      AND pbr.embedding_status = 'ready'
+      AND to_tsvector('english', pbr.content) @@ to_tsquery('english', or_query)
+      AND (p_document_name IS NULL OR pbd.file_name = p_document_name)
+    ORDER BY similarity DESC
+    LIMIT match_count;
+
+  ELSIF p_pipeline = 'pipeline_c' THEN
+    RETURN QUERY
+    SELECT
+      pcr.id,
+      pcr.document_id,
+      pcr.content,
+      pcr.chunk_type::text as category,
+      ts_rank(to_tsvector('english', pcr.content), to_tsquery('english', or_query))::double precision as similarity,
+      pcd.file_name as document_name,
+      pcr.chunk_type,
+      'pipeline_c'::text as pipeline_source,
+      pcr.page_number,
+      pcr.chunk_index,
+      pcr.headings as heading_hierarchy
+    FROM pipeline_c_chunks_raw pcr
+    JOIN pipeline_c_agent_knowledge pcak ON pcak.chunk_id = pcr.id
+    JOIN pipeline_c_documents pcd ON pcd.id = pcr.document_id
+    WHERE pcak.agent_id = p_agent_id
+      AND pcak.is_active = true
+      AND pcr.embedding_status = 'ready'
+      AND to_tsvector('english', pcr.content) @@ to_tsquery('english', or_query)
+      AND (p_document_name IS NULL OR pcd.file_name = p_document_name)
+    ORDER BY similarity DESC
+    LIMIT match_count;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown pipeline: %', p_pipeline;
+  END IF;
+END;
+$function$;
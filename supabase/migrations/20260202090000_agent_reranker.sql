@@ -0,0 +1,18 @@
+-- Per-agent re-ranker selection for semantic-search
+-- reranker: which re-ranking strategy to apply after unified retrieval
+-- reranker_config: strategy options (LLM model, max candidates, timeout, lexical weight)
+ALTER TABLE public.agents
+ADD COLUMN IF NOT EXISTS reranker TEXT DEFAULT 'boost_map';
+
+ALTER TABLE public.agents
+DROP CONSTRAINT IF EXISTS agents_reranker_check;
+
+ALTER TABLE public.agents
+ADD CONSTRAINT agents_reranker_check
+CHECK (reranker IN ('none', 'boost_map', 'llm_pointwise', 'llm_listwise', 'lexical'));
+
+ALTER TABLE public.agents
+ADD COLUMN IF NOT EXISTS reranker_config JSONB DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.agents.reranker IS 'Post-retrieval re-ranker used by semantic-search (none, boost_map, llm_pointwise, llm_listwise, lexical)';
+COMMENT ON COLUMN public.agents.reranker_config IS 'Re-ranker options: model, max_candidates, timeout_ms, lexical_weight';
@@ -0,0 +1,147 @@
+-- Data-driven query intent taxonomy
+-- Replaces the hardcoded INTENT_PATTERNS / BOOST_MAPS in semantic-search.
+-- Intents can be global, scoped to an agent, or scoped to a document folder.
+-- Resolution order: agent > folder > global, then priority DESC.
+
+CREATE TABLE IF NOT EXISTS public.query_intents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  scope_type TEXT NOT NULL DEFAULT 'global' CHECK (scope_type IN ('global', 'agent', 'folder')),
+  agent_id UUID REFERENCES public.agents(id) ON DELETE CASCADE,
+  folder TEXT,
+  -- Regex sources, evaluated case-insensitively
+  patterns TEXT[] NOT NULL DEFAULT '{}',
+  -- Example queries: matched by embedding similarity when no pattern fires
+  exemplars TEXT[] NOT NULL DEFAULT '{}',
+  -- Cached exemplar embeddings: [{ "text": "...", "embedding": [...] }]
+  exemplar_embeddings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  exemplar_threshold DOUBLE PRECISION NOT NULL DEFAULT 0.82,
+  -- chunk_type → boost factor, e.g. { "table": 1.8, "text": 0.9 }
+  chunk_type_boosts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT query_intents_scope_check CHECK (
+    (scope_type = 'global' AND agent_id IS NULL AND folder IS NULL) OR
+    (scope_type = 'agent' AND agent_id IS NOT NULL AND folder IS NULL) OR
+    (scope_type = 'folder' AND folder IS NOT NULL AND agent_id IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_intents_agent ON public.query_intents(agent_id) WHERE agent_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_query_intents_folder ON public.query_intents(folder) WHERE folder IS NOT NULL;
+
+ALTER TABLE public.query_intents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read query intents"
+  ON public.query_intents FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can manage query intents"
+  ON public.query_intents FOR ALL
+  USING (auth.uid() IS NOT NULL)
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Service role can manage query intents"
+  ON public.query_intents FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- Folders containing documents the agent has active knowledge from (for folder-scoped intents)
+CREATE OR REPLACE FUNCTION public.get_agent_knowledge_folders(p_agent_id uuid)
+RETURNS TABLE(folder text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT DISTINCT d.folder FROM pipeline_a_documents d
+    JOIN pipeline_a_chunks_raw c ON c.document_id = d.id
+    JOIN pipeline_a_agent_knowledge k ON k.chunk_id = c.id
+    WHERE k.agent_id = p_agent_id AND k.is_active = true AND d.folder IS NOT NULL
+  UNION
+  SELECT DISTINCT d.folder FROM pipeline_a_hybrid_documents d
+    JOIN pipeline_a_hybrid_chunks_raw c ON c.document_id = d.id
+    JOIN pipeline_a_hybrid_agent_knowledge k ON k.chunk_id = c.id
+    WHERE k.agent_id = p_agent_id AND k.is_active = true AND d.folder IS NOT NULL
+  UNION
+  SELECT DISTINCT d.folder FROM pipeline_b_documents d
+    JOIN pipeline_b_chunks_raw c ON c.document_id = d.id
+    JOIN pipeline_b_agent_knowledge k ON k.chunk_id = c.id
+    WHERE k.agent_id = p_agent_id AND k.is_active = true AND d.folder IS NOT NULL
+  UNION
+  SELECT DISTINCT d.folder FROM pipeline_c_documents d
+    JOIN pipeline_c_chunks_raw c ON c.document_id = d.id
+    JOIN pipeline_c_agent_knowledge k ON k.chunk_id = c.id
+    WHERE k.agent_id = p_agent_id AND k.is_active = true AND d.folder IS NOT NULL;
+$function$;
+
+-- Seed: the former hardcoded financial intents become global taxonomy entries
+INSERT INTO public.query_intents (name, description, scope_type, patterns, chunk_type_boosts, priority) VALUES
+(
+  'filing_metadata',
+  'Securities registered, filing date, auditor, exhibits',
+  'global',
+  ARRAY[
+    '\b(securities?\s+registered|exchange\s+listing|trading\s+symbol|ticker|cusip)\b',
+    '\b(auditor|independent\s+accountant|filing\s+date|form\s+(10-[kq]|8-k)|sec\s+filing)\b',
+    '\b(registrant|cover\s+page|exhibit\s+index|signatures?)\b',
+    '\b(debt\s+securities?\s+(registered|listed|traded))\b'
+  ],
+  '{"cover_page": 3.0, "header": 2.5, "exhibit": 2.0, "text": 1.2, "table": 0.6, "visual": 0.5}'::jsonb,
+  50
+),
+(
+  'balance_sheet_metric',
+  'ROA, quick ratio, debt ratios, assets, liabilities',
+  'global',
+  ARRAY[
+    '\b(quick\s+ratio|current\s+ratio|debt[- ]to[- ]equity|working\s+capital)\b',
+    '\b(total\s+(assets?|liabilities?|equity|debt)|book\s+value)\b',
+    '\b(roa|roe|return\s+on\s+(assets?|equity))\b',
+    '\b(accounts?\s+(receivable|payable)|inventory|cash\s+and\s+equivalents?)\b',
+    '\b(balance\s+sheet|financial\s+position)\b'
+  ],
+  '{"balance_sheet": 2.5, "financial_statement": 2.0, "table": 1.8, "visual": 1.5, "text": 0.9}'::jsonb,
+  40
+),
+(
+  'income_statement_metric',
+  'Margins, revenue growth, EPS, net income',
+  'global',
+  ARRAY[
+    '\b(revenue|sales|net\s+income|gross\s+profit|operating\s+income)\b',
+    '\b(eps|earnings\s+per\s+share|diluted\s+eps)\b',
+    '\b(gross\s+margin|operating\s+margin|net\s+margin|profit\s+margin)\b',
+    '\b(income\s+statement|statement\s+of\s+operations?)\b',
+    '\b(cost\s+of\s+(goods\s+sold|revenue|sales)|cogs)\b'
+  ],
+  '{"income_statement": 2.5, "financial_statement": 2.0, "table": 1.8, "visual": 1.5, "text": 0.9}'::jsonb,
+  30
+),
+(
+  'cash_flow_metric',
+  'Capex, FCF, operating cash flow',
+  'global',
+  ARRAY[
+    '\b(capex|capital\s+expenditure|property[,\s]+plant[,\s]+and\s+equipment)\b',
+    '\b(free\s+cash\s+flow|fcf|operating\s+cash\s+flow|cash\s+from\s+operations?)\b',
+    '\b(cash\s+flow\s+statement|statement\s+of\s+cash\s+flows?)\b',
+    '\b(depreciation|amortization|investing\s+activities?|financing\s+activities?)\b'
+  ],
+  '{"cash_flow_statement": 2.5, "financial_statement": 2.0, "table": 1.8, "visual": 1.5, "text": 0.9}'::jsonb,
+  20
+),
+(
+  'segment_analysis',
+  'Segment revenue, geographic breakdown',
+  'global',
+  ARRAY[
+    '\b(segment|geographic|regional|by\s+(region|country|product\s+line))\b',
+    '\b(business\s+unit|operating\s+segment|reportable\s+segment)\b'
+  ],
+  '{"segment": 2.0, "table": 1.8, "visual": 1.5, "text": 1.0}'::jsonb,
+  10
+);
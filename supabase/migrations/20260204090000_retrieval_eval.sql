@@ -0,0 +1,50 @@
+-- Retrieval-only evaluation
+-- Benchmark questions can be labelled with gold chunks and/or gold pages, so retrieval
+-- quality (recall@k, MRR, nDCG) can be measured without going through generation.
+
+ALTER TABLE public.benchmark_datasets
+  -- Chunk UUIDs or citation ids (e.g. "AH-3f2a9c1b") of the chunks that answer the question
+  ADD COLUMN IF NOT EXISTS gold_chunk_ids TEXT[] NOT NULL DEFAULT '{}',
+  -- Pages of the question's document that contain the answer
+  ADD COLUMN IF NOT EXISTS gold_pages INTEGER[] NOT NULL DEFAULT '{}';
+
+-- One row per (run, question, pipeline). pipeline_source = 'unified' is the fused cross-pipeline ranking
+CREATE TABLE IF NOT EXISTS public.retrieval_eval_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL,
+  question_id UUID REFERENCES public.benchmark_datasets(id) ON DELETE SET NULL,
+  question TEXT NOT NULL,
+  pdf_file TEXT NOT NULL,
+  suite_category TEXT,
+  pipeline_source TEXT NOT NULL,
+  k INTEGER NOT NULL,
+  recall_at_k DOUBLE PRECISION,
+  mrr DOUBLE PRECISION,
+  ndcg_at_k DOUBLE PRECISION,
+  first_relevant_rank INTEGER,
+  gold_count INTEGER NOT NULL DEFAULT 0,
+  relevant_retrieved INTEGER NOT NULL DEFAULT 0,
+  -- chunk_type of the gold evidence in this pipeline (drives the per chunk_type breakdown)
+  gold_chunk_types TEXT[] NOT NULL DEFAULT '{}',
+  -- Top-k ranking: [{ rank, id, citation_id, chunk_type, page_number, relevant }]
+  retrieved JSONB NOT NULL DEFAULT '[]'::jsonb,
+  response_time_ms INTEGER,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_retrieval_eval_results_run_id ON public.retrieval_eval_results(run_id);
+CREATE INDEX IF NOT EXISTS idx_retrieval_eval_results_created_at ON public.retrieval_eval_results(created_at DESC);
+
+ALTER TABLE public.retrieval_eval_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view retrieval eval results"
+  ON public.retrieval_eval_results FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Service role can manage retrieval eval results"
+  ON public.retrieval_eval_results FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE public.retrieval_eval_results IS 'Metriche retrieval-only (recall@k, MRR, nDCG) per domanda e pipeline';
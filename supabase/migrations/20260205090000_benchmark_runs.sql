@@ -0,0 +1,67 @@
+-- First-class benchmark runs
+-- benchmark_results rows were only grouped by a bare run_id. A run now records the
+-- configuration it was executed with (agent prompt, model, pipelines, retrieval params)
+-- plus aggregate accuracy, so two runs can be compared and regressions gated.
+
+CREATE TABLE IF NOT EXISTS public.benchmark_runs (
+  -- Same value as benchmark_results.run_id / benchmark_jobs_queue.run_id
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'server' CHECK (source IN ('server', 'cli', 'legacy')),
+  suite TEXT,
+  agent_id UUID REFERENCES public.agents(id) ON DELETE SET NULL,
+  -- Snapshot: { agent: {...}, system_prompt, llm_provider, ai_model, reranker, pipelines, retrieval: {...} }
+  config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  total_questions INTEGER NOT NULL DEFAULT 0,
+  passed INTEGER,
+  failed INTEGER,
+  accuracy DOUBLE PRECISION,
+  avg_response_time_ms INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_benchmark_runs_created_at ON public.benchmark_runs(created_at DESC);
+
+-- Stable key to match the same question across runs (per-question flips)
+ALTER TABLE public.benchmark_results
+  ADD COLUMN IF NOT EXISTS question_id UUID REFERENCES public.benchmark_datasets(id) ON DELETE SET NULL;
+
+ALTER TABLE public.benchmark_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view benchmark runs"
+  ON public.benchmark_runs FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can update benchmark runs"
+  ON public.benchmark_runs FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Service role can manage benchmark runs"
+  ON public.benchmark_runs FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- Backfill: existing run_ids become legacy runs without a config snapshot
+INSERT INTO public.benchmark_runs (id, name, source, suite, status, total_questions, passed, failed, accuracy, avg_response_time_ms, created_at, completed_at)
+SELECT
+  run_id,
+  'Run ' || to_char(MIN(created_at), 'YYYY-MM-DD HH24:MI'),
+  'legacy',
+  MIN(suite_category),
+  'completed',
+  COUNT(*),
+  COUNT(*) FILTER (WHERE status = 'completed' AND correct IS TRUE),
+  COUNT(*) FILTER (WHERE status = 'completed' AND correct IS NOT TRUE),
+  CASE WHEN COUNT(*) FILTER (WHERE status = 'completed') > 0
+    THEN 100.0 * COUNT(*) FILTER (WHERE status = 'completed' AND correct IS TRUE) / COUNT(*) FILTER (WHERE status = 'completed')
+  END,
+  AVG(response_time_ms)::INTEGER,
+  MIN(created_at),
+  MAX(created_at)
+FROM public.benchmark_results
+GROUP BY run_id
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE public.benchmark_runs IS 'Run di benchmark con snapshot della configurazione (prompt, modello, pipeline, retrieval)';
@@ -0,0 +1,9 @@
+-- Deterministic scorer chain for evaluate-answer
+-- Stores which scorer decided each result and the intermediate scores
+-- (exact, normalized, anls, token_f1, llm_judge) so disagreements can be audited.
+
+ALTER TABLE public.benchmark_results
+  ADD COLUMN IF NOT EXISTS scorer TEXT,
+  ADD COLUMN IF NOT EXISTS scores JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_benchmark_results_scorer ON public.benchmark_results(scorer);
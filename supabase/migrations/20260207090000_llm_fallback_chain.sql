@@ -0,0 +1,19 @@
+-- Per-agent LLM fallback chain for agent-chat
+-- llm_fallback_chain: ordered [{ provider, model, on: [conditions] }] tried when the primary model fails
+-- conditions: rate_limit, server_error, timeout, context_length, tool_unsupported (omitted = all)
+ALTER TABLE public.agents
+ADD COLUMN IF NOT EXISTS llm_fallback_chain JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.agents
+DROP CONSTRAINT IF EXISTS agents_llm_fallback_chain_check;
+
+ALTER TABLE public.agents
+ADD CONSTRAINT agents_llm_fallback_chain_check
+CHECK (jsonb_typeof(llm_fallback_chain) = 'array');
+
+-- Model that actually produced the answer (llm_provider alone is ambiguous after a fallback)
+ALTER TABLE public.agent_messages
+ADD COLUMN IF NOT EXISTS llm_model TEXT;
+
+COMMENT ON COLUMN public.agents.llm_fallback_chain IS 'Ordered fallback provider+model steps with trigger conditions (rate_limit, server_error, timeout, context_length, tool_unsupported)';
+COMMENT ON COLUMN public.agent_messages.llm_model IS 'Model that answered; fallbacks taken are listed in metadata.llm_fallbacks';
@@ -0,0 +1,117 @@
+-- Token and cost ledger
+-- One row per billable call (LLM chat, embeddings, OCR / vision, document parsing),
+-- written by the edge functions through _shared/usageLedger.ts.
+
+CREATE TABLE IF NOT EXISTS public.usage_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Edge function (or shared module) that made the call, e.g. 'agent-chat', 'semantic-search'
+  source TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  operation TEXT NOT NULL DEFAULT 'chat' CHECK (operation IN ('chat', 'embedding', 'ocr', 'vision', 'parse')),
+  agent_id UUID REFERENCES public.agents(id) ON DELETE SET NULL,
+  conversation_id UUID REFERENCES public.agent_conversations(id) ON DELETE SET NULL,
+  benchmark_run_id UUID REFERENCES public.benchmark_runs(id) ON DELETE SET NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+  -- Non-token units (parsed pages for LlamaParse)
+  units INTEGER,
+  -- NULL when the model has no known price
+  cost_usd NUMERIC(12, 6),
+  latency_ms INTEGER,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_ledger_created_at ON public.usage_ledger(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_usage_ledger_agent_created_at ON public.usage_ledger(agent_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_usage_ledger_benchmark_run ON public.usage_ledger(benchmark_run_id) WHERE benchmark_run_id IS NOT NULL;
+
+ALTER TABLE public.usage_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view usage ledger"
+  ON public.usage_ledger FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Service role can manage usage ledger"
+  ON public.usage_ledger FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- Per-agent budgets over a rolling calendar period (UTC day or month)
+-- soft: answers (and LLM calls where it is cheaper) switch to budget_downgrade_provider / budget_downgrade_model
+-- hard: LLM and embedding calls billed to the agent are refused until the period resets
+ALTER TABLE public.agents
+  ADD COLUMN IF NOT EXISTS budget_soft_usd NUMERIC(10, 2),
+  ADD COLUMN IF NOT EXISTS budget_hard_usd NUMERIC(10, 2),
+  ADD COLUMN IF NOT EXISTS budget_period TEXT NOT NULL DEFAULT 'month',
+  ADD COLUMN IF NOT EXISTS budget_downgrade_provider TEXT,
+  ADD COLUMN IF NOT EXISTS budget_downgrade_model TEXT;
+
+ALTER TABLE public.agents
+DROP CONSTRAINT IF EXISTS agents_budget_period_check;
+
+ALTER TABLE public.agents
+ADD CONSTRAINT agents_budget_period_check
+CHECK (budget_period IN ('day', 'month'));
+
+-- Spend of one agent since a point in time
+CREATE OR REPLACE FUNCTION public.get_agent_spend(p_agent_id UUID, p_since TIMESTAMPTZ)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(cost_usd), 0)
+  FROM public.usage_ledger
+  WHERE agent_id = p_agent_id
+    AND created_at >= p_since;
+$$;
+
+-- Daily rollup used by the operations dashboard (one row per day/agent/source/provider/model/operation)
+CREATE OR REPLACE FUNCTION public.get_usage_summary(p_since TIMESTAMPTZ)
+RETURNS TABLE (
+  day DATE,
+  agent_id UUID,
+  agent_name TEXT,
+  source TEXT,
+  provider TEXT,
+  model TEXT,
+  operation TEXT,
+  calls BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  units BIGINT,
+  cost_usd NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (l.created_at AT TIME ZONE 'UTC')::date AS day,
+    l.agent_id,
+    a.name AS agent_name,
+    l.source,
+    l.provider,
+    l.model,
+    l.operation,
+    COUNT(*) AS calls,
+    SUM(l.input_tokens)::BIGINT AS input_tokens,
+    SUM(l.output_tokens)::BIGINT AS output_tokens,
+    SUM(l.units)::BIGINT AS units,
+    COALESCE(SUM(l.cost_usd), 0) AS cost_usd
+  FROM public.usage_ledger l
+  LEFT JOIN public.agents a ON a.id = l.agent_id
+  WHERE l.created_at >= p_since
+  GROUP BY 1, 2, 3, 4, 5, 6, 7
+  ORDER BY 1 DESC;
+$$;
+
+COMMENT ON TABLE public.usage_ledger IS 'Ledger di token e costi per chiamata LLM, embedding, OCR e parsing';
+COMMENT ON COLUMN public.agents.budget_soft_usd IS 'Soft budget (USD per budget_period): above it answers and cheaper-to-downgrade LLM calls use budget_downgrade_provider/model';
+COMMENT ON COLUMN public.agents.budget_hard_usd IS 'Hard budget (USD per budget_period): above it LLM and embedding calls billed to the agent are blocked';
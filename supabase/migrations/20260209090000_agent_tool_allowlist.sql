@@ -0,0 +1,8 @@
+-- Per-agent tool allowlist for agent-chat (tools are declared in _shared/toolRegistry.ts)
+-- NULL: legacy set, every tool the agent had before allowlists existed (high risk included), so
+-- existing agents keep github_write_file, github_create_pr and update_agent_system_prompt
+-- array: exactly the listed tools, e.g. a support agent without the high risk tools
+ALTER TABLE public.agents
+ADD COLUMN IF NOT EXISTS tool_allowlist TEXT[];
+
+COMMENT ON COLUMN public.agents.tool_allowlist IS 'Tool names agent-chat may offer to this agent; NULL = legacy set (all tools available to the agent), empty = no tools';
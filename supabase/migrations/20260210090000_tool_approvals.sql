@@ -0,0 +1,73 @@
+-- Human approval gate for agent tools
+-- A tool call that needs approval is persisted as 'pending' instead of running; the user approves
+-- (optionally editing the input) or rejects it from the chat, and agent-chat resumes with the result.
+
+CREATE TABLE IF NOT EXISTS public.tool_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  conversation_id UUID NOT NULL REFERENCES public.agent_conversations(id) ON DELETE CASCADE,
+  -- Assistant message that requested the tool (shows the approval card)
+  message_id UUID REFERENCES public.agent_messages(id) ON DELETE SET NULL,
+  agent_id UUID REFERENCES public.agents(id) ON DELETE SET NULL,
+  user_id TEXT NOT NULL,
+  tool_name TEXT NOT NULL,
+  tool_input JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'executed', 'failed')),
+  -- Input actually executed when the user edited it before approving
+  approved_input JSONB,
+  decided_by TEXT,
+  decided_at TIMESTAMPTZ,
+  decision_note TEXT,
+  result JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_tool_approvals_conversation ON public.tool_approvals(conversation_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tool_approvals_pending ON public.tool_approvals(user_id) WHERE status = 'pending';
+
+-- Append-only audit trail: one row per request, decision and execution
+CREATE TABLE IF NOT EXISTS public.tool_approval_audit (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  approval_id UUID NOT NULL REFERENCES public.tool_approvals(id) ON DELETE CASCADE,
+  event TEXT NOT NULL CHECK (event IN ('requested', 'approved', 'edited', 'rejected', 'executed', 'failed')),
+  actor_id TEXT,
+  tool_name TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_tool_approval_audit_approval ON public.tool_approval_audit(approval_id, created_at);
+
+ALTER TABLE public.tool_approvals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tool_approval_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tool approvals"
+  ON public.tool_approvals FOR SELECT
+  USING (user_id = auth.uid()::text);
+
+CREATE POLICY "Service role can manage tool approvals"
+  ON public.tool_approvals FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- Audit details carry the tool input: same owner scope as tool_approvals
+CREATE POLICY "Users can view their tool approval audit"
+  ON public.tool_approval_audit FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.tool_approvals t
+    WHERE t.id = approval_id AND t.user_id = auth.uid()::text
+  ));
+
+CREATE POLICY "Service role can manage tool approval audit"
+  ON public.tool_approval_audit FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- Per-agent approval policy
+-- NULL: registry defaults (prompt rewrites, GitHub writes, delegation, desktop/browser automation)
+-- array: exactly the listed tools need approval; empty = never ask
+ALTER TABLE public.agents
+ADD COLUMN IF NOT EXISTS tool_approval_policy TEXT[];
+
+COMMENT ON TABLE public.tool_approvals IS 'Tool calls held for human approval and their outcome';
+COMMENT ON TABLE public.tool_approval_audit IS 'Append-only log of tool approval requests, decisions and executions';
+COMMENT ON COLUMN public.agents.tool_approval_policy IS 'Tool names that need user approval before running; NULL = registry defaults, empty = none';
@@ -0,0 +1,34 @@
+-- Coordinator mode: task graphs delegated by one agent to other agents
+-- nodes: [{ id, agent_slug, agent_name, task, depends_on, status, output, error, started_at, completed_at }]
+-- Each node run is also logged in inter_agent_logs (metadata.task_graph_id / metadata.node_id).
+
+CREATE TABLE IF NOT EXISTS public.agent_task_graphs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  conversation_id UUID NOT NULL REFERENCES public.agent_conversations(id) ON DELETE CASCADE,
+  -- Coordinator answer the graph belongs to
+  message_id UUID REFERENCES public.agent_messages(id) ON DELETE SET NULL,
+  coordinator_agent_id UUID REFERENCES public.agents(id) ON DELETE SET NULL,
+  user_id TEXT NOT NULL,
+  goal TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'partial', 'failed')),
+  nodes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  merged_output TEXT,
+  delegation_depth INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_task_graphs_conversation ON public.agent_task_graphs(conversation_id, created_at DESC);
+
+ALTER TABLE public.agent_task_graphs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their task graphs"
+  ON public.agent_task_graphs FOR SELECT
+  USING (user_id = auth.uid()::text);
+
+CREATE POLICY "Service role can manage task graphs"
+  ON public.agent_task_graphs FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE public.agent_task_graphs IS 'Subtask DAGs run by coordinator agents (delegate_task_graph tool), with per-node status and output';
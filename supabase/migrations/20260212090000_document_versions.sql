@@ -0,0 +1,55 @@
+-- Versioned document re-ingestion
+-- Re-ingesting a document keeps its id: the new content becomes a new version, unchanged chunks keep
+-- their embedding, new/changed chunks are embedded and removed chunks are retired instead of deleted.
+
+ALTER TABLE public.pipeline_a_hybrid_documents
+  ADD COLUMN IF NOT EXISTS content_hash TEXT,
+  ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.pipeline_a_hybrid_chunks_raw
+  ADD COLUMN IF NOT EXISTS content_hash TEXT,
+  ADD COLUMN IF NOT EXISTS retired_at TIMESTAMPTZ;
+
+-- 'retired' = no longer part of the current version (kept for history, never retrieved)
+ALTER TABLE public.pipeline_a_hybrid_chunks_raw
+DROP CONSTRAINT IF EXISTS pipeline_a_hybrid_chunks_raw_embedding_status_check;
+
+ALTER TABLE public.pipeline_a_hybrid_chunks_raw
+ADD CONSTRAINT pipeline_a_hybrid_chunks_raw_embedding_status_check
+CHECK (embedding_status IN ('pending', 'processing', 'ready', 'failed', 'waiting_enrichment', 'retired'));
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_a_hybrid_chunks_content_hash
+  ON public.pipeline_a_hybrid_chunks_raw(document_id, content_hash);
+
+CREATE TABLE IF NOT EXISTS public.document_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  pipeline TEXT NOT NULL CHECK (pipeline IN ('pipeline_a', 'pipeline_a_hybrid', 'pipeline_b', 'pipeline_c')),
+  document_id UUID NOT NULL,
+  version INTEGER NOT NULL,
+  content_hash TEXT NOT NULL,
+  -- Where the content came from (markdown upload, github, ...)
+  source TEXT,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed', 'failed')),
+  chunks_added INTEGER NOT NULL DEFAULT 0,
+  chunks_kept INTEGER NOT NULL DEFAULT 0,
+  chunks_retired INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  UNIQUE (pipeline, document_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_versions_document ON public.document_versions(document_id, version DESC);
+
+ALTER TABLE public.document_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view document versions"
+  ON public.document_versions FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Service role can manage document versions"
+  ON public.document_versions FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE public.document_versions IS 'Content-hashed versions of ingested documents with the chunk diff applied by each re-ingestion';
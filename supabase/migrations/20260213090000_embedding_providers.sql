@@ -0,0 +1,227 @@
+-- Pluggable embedding providers
+-- Every chunk records the model (and dimension) that produced its vector; each pipeline ("collection")
+-- has an active model used for new chunks and for query embeddings. Vector search only compares
+-- vectors of the requested model. A re-index job migrates a collection to a new model in the
+-- background: while it runs, both models are searched and new chunks already use the target model.
+
+ALTER TABLE public.pipeline_a_chunks_raw
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+  ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER;
+ALTER TABLE public.pipeline_a_hybrid_chunks_raw
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+  ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER;
+ALTER TABLE public.pipeline_b_chunks_raw
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+  ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER;
+ALTER TABLE public.pipeline_c_chunks_raw
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+  ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER;
+
+-- Everything embedded so far came from text-embedding-3-small
+UPDATE public.pipeline_a_chunks_raw SET embedding_model = 'text-embedding-3-small', embedding_dimension = 1536
+  WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+UPDATE public.pipeline_a_hybrid_chunks_raw SET embedding_model = 'text-embedding-3-small', embedding_dimension = 1536
+  WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+UPDATE public.pipeline_b_chunks_raw SET embedding_model = 'text-embedding-3-small', embedding_dimension = 1536
+  WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+UPDATE public.pipeline_c_chunks_raw SET embedding_model = 'text-embedding-3-small', embedding_dimension = 1536
+  WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.embedding_collections (
+  pipeline TEXT PRIMARY KEY CHECK (pipeline IN ('pipeline_a', 'pipeline_a_hybrid', 'pipeline_b', 'pipeline_c')),
+  embedding_model TEXT NOT NULL DEFAULT 'text-embedding-3-small',
+  embedding_dimension INTEGER NOT NULL DEFAULT 1536,
+  -- Target model of the running re-index job (NULL when idle)
+  reindex_model TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO public.embedding_collections (pipeline) VALUES
+  ('pipeline_a'), ('pipeline_a_hybrid'), ('pipeline_b'), ('pipeline_c')
+ON CONFLICT (pipeline) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.embedding_reindex_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  pipeline TEXT NOT NULL REFERENCES public.embedding_collections(pipeline),
+  from_model TEXT NOT NULL,
+  to_model TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  total_chunks INTEGER NOT NULL DEFAULT 0,
+  processed_chunks INTEGER NOT NULL DEFAULT 0,
+  failed_chunks INTEGER NOT NULL DEFAULT 0,
+  -- Last chunk id handled: each batch continues after it
+  cursor_chunk_id UUID,
+  error_message TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_reindex_jobs_pipeline ON public.embedding_reindex_jobs(pipeline, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_embedding_reindex_jobs_active
+  ON public.embedding_reindex_jobs(pipeline) WHERE status IN ('queued', 'running');
+
+ALTER TABLE public.embedding_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.embedding_reindex_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view embedding collections"
+  ON public.embedding_collections FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Service role can manage embedding collections"
+  ON public.embedding_collections FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Authenticated users can view embedding reindex jobs"
+  ON public.embedding_reindex_jobs FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Service role can manage embedding reindex jobs"
+  ON public.embedding_reindex_jobs FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE public.embedding_collections IS 'Active embedding model per pipeline; query embeddings must use the same model';
+COMMENT ON TABLE public.embedding_reindex_jobs IS 'Background migrations of a pipeline''s chunks to a new embedding model';
+
+-- Semantic search only compares vectors of one model (NULL = legacy text-embedding-3-small)
+DROP FUNCTION IF EXISTS public.match_pipeline_chunks(text, vector, uuid, double precision, integer, text);
+
+CREATE OR REPLACE FUNCTION public.match_pipeline_chunks(
+  p_pipeline text,
+  query_embedding vector,
+  p_agent_id uuid,
+  match_threshold double precision DEFAULT 0.05,
+  match_count integer DEFAULT 10,
+  p_document_name text DEFAULT NULL,
+  p_embedding_model text DEFAULT NULL
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  content text,
+  category text,
+  similarity double precision,
+  document_name text,
+  chunk_type text,
+  pipeline_source text,
+  page_number integer,
+  chunk_index integer,
+  heading_hierarchy jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF p_pipeline = 'pipeline_a' THEN
+    RETURN QUERY
+    SELECT
+      par.id,
+      par.document_id,
+      COALESCE(par.original_content, par.content) as content,
+      par.chunk_type::text as category,
+      1 - (par.embedding <=> query_embedding) as similarity,
+      pad.file_name as document_name,
+      par.chunk_type,
+      'pipeline_a'::text as pipeline_source,
+      par.page_number,
+      par.chunk_index,
+      par.heading_hierarchy
+    FROM pipeline_a_chunks_raw par
+    JOIN pipeline_a_agent_knowledge paak ON paak.chunk_id = par.id
+    JOIN pipeline_a_documents pad ON pad.id = par.document_id
+    WHERE paak.agent_id = p_agent_id
+      AND paak.is_active = true
+      AND par.embedding_status = 'ready'
+      AND COALESCE(par.embedding_model, 'text-embedding-3-small') = COALESCE(p_embedding_model, 'text-embedding-3-small')
+      AND 1 - (par.embedding <=> query_embedding) > match_threshold
+      AND (p_document_name IS NULL OR pad.file_name = p_document_name)
+    ORDER BY similarity DESC
+    LIMIT match_count;
+
+  ELSIF p_pipeline = 'pipeline_a_hybrid' THEN
+    RETURN QUERY
+    SELECT
+      pah.id,
+      pah.document_id,
+      COALESCE(pah.original_content, pah.content) as content,
+      pah.chunk_type::text as category,
+      1 - (pah.embedding <=> query_embedding) as similarity,
+      pahd.file_name as document_name,
+      pah.chunk_type,
+      'pipeline_a_hybrid'::text as pipeline_source,
+      pah.page_number,
+      pah.chunk_index,
+      pah.heading_hierarchy
+    FROM pipeline_a_hybrid_chunks_raw pah
+    JOIN pipeline_a_hybrid_agent_knowledge pahak ON pahak.chunk_id = pah.id
+    JOIN pipeline_a_hybrid_documents pahd ON pahd.id = pah.document_id
+    WHERE pahak.agent_id = p_agent_id
+      AND pahak.is_active = true
+      AND pah.embedding_status = 'ready'
+      AND COALESCE(pah.embedding_model, 'text-embedding-3-small') = COALESCE(p_embedding_model, 'text-embedding-3-small')
+      AND 1 - (pah.embedding <=> query_embedding) > match_threshold
+      AND (p_document_name IS NULL OR pahd.file_name = p_document_name)
+    ORDER BY similarity DESC
+    LIMIT match_count;
+
+  ELSIF p_pipeline = 'pipeline_b' THEN
+    RETURN QUERY
+    SELECT
+      pbr.id,
+      pbr.document_id,
+      pbr.content,
+      pbr.chunk_type::text as category,
+      1 - (pbr.embedding <=> query_embedding) as similarity,
+      pbd.file_name as document_name,
+      pbr.chunk_type,
+      'pipeline_b'::text as pipeline_source,
+      pbr.page_number,
+      pbr.chunk_index,
+      NULL::jsonb as heading_hierarchy
+    FROM pipeline_b_chunks_raw pbr
+    JOIN pipeline_b_agent_knowledge pbak ON pbak.chunk_id = pbr.id
+    JOIN pipeline_b_documents pbd ON pbd.id = pbr.document_id
+    WHERE pbak.agent_id = p_agent_id
+      AND pbak.is_active = true
+      AND pbr.embedding_status = 'ready'
+      AND COALESCE(pbr.embedding_model, 'text-embedding-3-small') = COALESCE(p_embedding_model, 'text-embedding-3-small')
+      AND 1 - (pbr.embedding <=> query_embedding) > match_threshold
+      AND (p_document_name IS NULL OR pbd.file_name = p_document_name)
+    ORDER BY similarity DESC
+    LIMIT match_count;
+
+  ELSIF p_pipeline = 'pipeline_c' THEN
+    RETURN QUERY
+    SELECT
+      pcr.id,
+      pcr.document_id,
+      pcr.content,
+      pcr.chunk_type::text as category,
+      1 - (pcr.embedding <=> query_embedding) as similarity,
+      pcd.file_name as document_name,
+      pcr.chunk_type,
+      'pipeline_c'::text as pipeline_source,
+      pcr.page_number,
+      pcr.chunk_index,
+      pcr.headings as heading_hierarchy
+    FROM pipeline_c_chunks_raw pcr
+    JOIN pipeline_c_agent_knowledge pcak ON pcak.chunk_id = pcr.id
+    JOIN pipeline_c_documents pcd ON pcd.id = pcr.document_id
+    WHERE pcak.agent_id = p_agent_id
+      AND pcak.is_active = true
+      AND pcr.embedding_status = 'ready'
+      AND COALESCE(pcr.embedding_model, 'text-embedding-3-small') = COALESCE(p_embedding_model, 'text-embedding-3-small')
+      AND 1 - (pcr.embedding <=> query_embedding) > match_threshold
+      AND (p_document_name IS NULL OR pcd.file_name = p_document_name)
+    ORDER BY similarity DESC
+    LIMIT match_count;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown pipeline: %', p_pipeline;
+  END IF;
+END;
+$function$;
@@ -0,0 +1,106 @@
+-- Ingestion connectors
+-- A connector (website, zipped Notion/Confluence HTML export, mailbox) lists the items of an external
+-- source and the change cursor since its last sync; connector-sync enqueues new/changed items in
+-- ingestion_queue and process-ingest-queue turns each one into a document of the connector's pipeline.
+
+CREATE TABLE IF NOT EXISTS public.ingestion_connectors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  name TEXT NOT NULL,
+  connector_type TEXT NOT NULL CHECK (connector_type IN ('website', 'html_export', 'mailbox')),
+  -- Text sinks only: pipeline C ingests PDFs
+  pipeline TEXT NOT NULL DEFAULT 'pipeline_a_hybrid' CHECK (pipeline IN ('pipeline_a', 'pipeline_a_hybrid', 'pipeline_b')),
+  folder TEXT,
+  -- website: { sitemapUrl | startUrl, maxPages, includePaths }; html_export / mailbox: { bucket, path }
+  config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Opaque, owned by the connector implementation
+  sync_cursor JSONB,
+  -- NULL = manual sync only
+  sync_interval_minutes INTEGER CHECK (sync_interval_minutes IS NULL OR sync_interval_minutes >= 15),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_sync_at TIMESTAMPTZ,
+  next_sync_at TIMESTAMPTZ,
+  last_sync_status TEXT CHECK (last_sync_status IN ('running', 'completed', 'failed')),
+  last_sync_items INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_by UUID
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_connectors_next_sync
+  ON public.ingestion_connectors(next_sync_at) WHERE is_active = true AND sync_interval_minutes IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.ingestion_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  connector_id UUID NOT NULL REFERENCES public.ingestion_connectors(id) ON DELETE CASCADE,
+  pipeline TEXT NOT NULL CHECK (pipeline IN ('pipeline_a', 'pipeline_a_hybrid', 'pipeline_b')),
+  -- Stable key of the item inside the connector (URL, archive path, Message-ID)
+  item_key TEXT NOT NULL,
+  -- Change marker of the last enqueued revision (lastmod, content hash, ...)
+  item_version TEXT,
+  title TEXT NOT NULL,
+  source_url TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'skipped', 'failed')),
+  retry_count INTEGER NOT NULL DEFAULT 0,
+  document_id UUID,
+  error_message TEXT,
+  processed_at TIMESTAMPTZ,
+  UNIQUE (connector_id, item_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_queue_status ON public.ingestion_queue(status, created_at);
+
+ALTER TABLE public.ingestion_connectors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ingestion_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view ingestion connectors"
+  ON public.ingestion_connectors FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can manage ingestion connectors"
+  ON public.ingestion_connectors FOR ALL
+  USING (auth.uid() IS NOT NULL)
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Service role can manage ingestion connectors"
+  ON public.ingestion_connectors FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Authenticated users can view ingestion queue"
+  ON public.ingestion_queue FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Service role can manage ingestion queue"
+  ON public.ingestion_queue FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- Uploaded sources of the html_export / mailbox connectors
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('connector-uploads', 'connector-uploads', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Allow authenticated users to upload connector sources"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'connector-uploads');
+
+-- upsert (re-uploading a newer export to the same path) needs SELECT + UPDATE as well
+CREATE POLICY "Allow authenticated users to read connector sources"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'connector-uploads');
+
+CREATE POLICY "Allow authenticated users to replace connector sources"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (bucket_id = 'connector-uploads');
+
+COMMENT ON TABLE public.ingestion_connectors IS 'External knowledge sources synced into a pipeline through the ingest queue';
+COMMENT ON TABLE public.ingestion_queue IS 'Connector items waiting to be fetched and ingested, one row per item (re-queued when the item changes)';
@@ -0,0 +1,87 @@
+-- Knowledge freshness
+-- Documents ingested from a live source (PDF/page URL, GitHub file) get a document_sources row with
+-- a refresh policy. check-knowledge-freshness re-checks due sources (ETag / Last-Modified for URLs,
+-- latest commit SHA for GitHub paths, content hash as fallback) and re-ingests changed documents as
+-- a new document version. Stale or removed sources raise an agent_alerts entry for every agent that
+-- has knowledge from the document.
+
+CREATE TABLE IF NOT EXISTS public.document_sources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Re-ingestion is versioned (document_versions) only in pipeline A-Hybrid
+  pipeline TEXT NOT NULL DEFAULT 'pipeline_a_hybrid' CHECK (pipeline IN ('pipeline_a_hybrid')),
+  document_id UUID NOT NULL,
+  source_kind TEXT NOT NULL CHECK (source_kind IN ('url', 'github')),
+  source_url TEXT,
+  -- github: "owner/repo" + path, branch resolved to the repository default when NULL
+  repo_url TEXT,
+  repo_path TEXT,
+  branch TEXT,
+  -- auto = re-ingest on change, notify = alert only, manual = never checked
+  refresh_policy TEXT NOT NULL DEFAULT 'auto' CHECK (refresh_policy IN ('auto', 'notify', 'manual')),
+  check_interval_hours INTEGER NOT NULL DEFAULT 24 CHECK (check_interval_hours >= 1),
+  -- Change markers seen at the last successful check
+  etag TEXT,
+  last_modified TEXT,
+  commit_sha TEXT,
+  content_hash TEXT,
+  freshness_status TEXT NOT NULL DEFAULT 'fresh'
+    CHECK (freshness_status IN ('fresh', 'refreshing', 'stale', 'removed', 'error')),
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  last_checked_at TIMESTAMPTZ,
+  next_check_at TIMESTAMPTZ,
+  last_changed_at TIMESTAMPTZ,
+  last_refreshed_at TIMESTAMPTZ,
+  last_error TEXT,
+  UNIQUE (pipeline, document_id),
+  CHECK (
+    (source_kind = 'url' AND source_url IS NOT NULL)
+    OR (source_kind = 'github' AND repo_url IS NOT NULL AND repo_path IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_sources_next_check
+  ON public.document_sources(next_check_at) WHERE refresh_policy <> 'manual';
+
+ALTER TABLE public.document_sources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view document sources"
+  ON public.document_sources FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can manage document sources"
+  ON public.document_sources FOR ALL
+  USING (auth.uid() IS NOT NULL)
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Service role can manage document sources"
+  ON public.document_sources FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- GitHub documents ingested before this migration (text files carry their content hash already)
+INSERT INTO public.document_sources (pipeline, document_id, source_kind, repo_url, repo_path, content_hash, next_check_at)
+SELECT 'pipeline_a_hybrid', d.id, 'github', d.repo_url, d.repo_path, d.content_hash, NOW()
+FROM public.pipeline_a_hybrid_documents d
+WHERE d.repo_url IS NOT NULL AND d.repo_path IS NOT NULL
+ON CONFLICT (pipeline, document_id) DO NOTHING;
+
+-- Agents with active knowledge from a document (recipients of freshness alerts)
+CREATE OR REPLACE FUNCTION public.get_document_dependent_agents(p_document_id UUID)
+RETURNS TABLE (agent_id UUID, agent_name TEXT, user_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT a.id, a.name, a.user_id
+  FROM public.pipeline_a_hybrid_agent_knowledge k
+  JOIN public.pipeline_a_hybrid_chunks_raw c ON c.id = k.chunk_id
+  JOIN public.agents a ON a.id = k.agent_id
+  WHERE c.document_id = p_document_id
+    AND k.is_active = true;
+$$;
+
+COMMENT ON TABLE public.document_sources IS 'Live source behind an ingested document, with its refresh policy and the change markers of the last check';
+COMMENT ON COLUMN public.document_sources.content_hash IS 'Hash of the content as ingested (sanitized text for GitHub text files, raw bytes otherwise); NULL until the first check records a baseline';
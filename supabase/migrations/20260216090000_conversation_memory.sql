@@ -0,0 +1,83 @@
+-- Conversation memory
+-- agent-chat only sends the most recent messages of a conversation to the LLM. Older messages are
+-- folded into a rolling summary on agent_conversations, and durable facts about the user are
+-- extracted into agent_user_memories (per user + agent). Both are injected into the system prompt
+-- within a token budget; users can review, edit and delete what an agent remembers.
+
+ALTER TABLE public.agent_conversations
+  ADD COLUMN IF NOT EXISTS memory_summary TEXT,
+  -- created_at of the last message folded into the summary
+  ADD COLUMN IF NOT EXISTS memory_summary_through TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS memory_summary_messages INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS memory_updated_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS public.agent_user_memories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  user_id UUID NOT NULL,
+  agent_id UUID NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  content TEXT NOT NULL CHECK (length(content) > 0),
+  category TEXT NOT NULL DEFAULT 'fact' CHECK (category IN ('preference', 'fact', 'goal', 'context')),
+  importance SMALLINT NOT NULL DEFAULT 3 CHECK (importance BETWEEN 1 AND 5),
+  -- extracted = written by update-conversation-memory, user = added or edited by the user
+  source TEXT NOT NULL DEFAULT 'extracted' CHECK (source IN ('extracted', 'user')),
+  source_conversation_id UUID REFERENCES public.agent_conversations(id) ON DELETE SET NULL,
+  -- NULL after an edit: re-embedded by the next memory update
+  embedding vector(1536),
+  embedding_model TEXT,
+  -- Last time the memory was injected into a prompt
+  last_used_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_user_memories_user_agent
+  ON public.agent_user_memories(user_id, agent_id);
+
+ALTER TABLE public.agent_user_memories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own memories"
+  ON public.agent_user_memories FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own memories"
+  ON public.agent_user_memories FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage memories"
+  ON public.agent_user_memories FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- Memories of a user for an agent, most similar to the query first
+CREATE OR REPLACE FUNCTION public.match_agent_user_memories(
+  p_user_id UUID,
+  p_agent_id UUID,
+  query_embedding vector(1536),
+  match_count INTEGER DEFAULT 20,
+  p_embedding_model TEXT DEFAULT 'text-embedding-3-small'
+)
+RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  category TEXT,
+  importance SMALLINT,
+  similarity FLOAT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.id, m.content, m.category, m.importance, 1 - (m.embedding <=> query_embedding) AS similarity
+  FROM public.agent_user_memories m
+  WHERE m.user_id = p_user_id
+    AND m.agent_id = p_agent_id
+    AND m.embedding IS NOT NULL
+    AND COALESCE(m.embedding_model, 'text-embedding-3-small') = COALESCE(p_embedding_model, 'text-embedding-3-small')
+  ORDER BY m.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+COMMENT ON COLUMN public.agent_conversations.memory_summary IS 'Rolling summary of the messages older than the recent window sent verbatim to the LLM';
+COMMENT ON TABLE public.agent_user_memories IS 'Long-term facts an agent remembers about a user, extracted from conversations or written by the user';
@@ -0,0 +1,100 @@
+-- Coordinate cache
+-- Coordinates of targets clicked successfully by the browser orchestrator, shared by all users so the
+-- same internal web apps don't pay the Lux/Gemini vision calls of verifyCoordinatesTriple again after
+-- a reload or for another colleague. Entries are keyed by normalised URL (origin + path), target
+-- description and viewport; dom_fingerprint describes the target element (tag, text, rounded box)
+-- when the entry was stored and invalidates the entry when the page changes.
+
+CREATE TABLE IF NOT EXISTS public.coordinate_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  url_key TEXT NOT NULL,
+  target_key TEXT NOT NULL,
+  -- WIDTHxHEIGHT of the browser viewport, e.g. 1260x700
+  viewport TEXT NOT NULL,
+  x DOUBLE PRECISION NOT NULL,
+  y DOUBLE PRECISION NOT NULL,
+  coordinate_system TEXT NOT NULL DEFAULT 'viewport' CHECK (coordinate_system IN ('lux_sdk', 'viewport')),
+  -- NULL when the target could not be found in the DOM (canvas, iframes, ...)
+  dom_fingerprint TEXT,
+  success_count INTEGER NOT NULL DEFAULT 1,
+  fail_count INTEGER NOT NULL DEFAULT 0,
+  -- Times the entry was used instead of vision
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  UNIQUE (url_key, target_key, viewport)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coordinate_cache_url_key ON public.coordinate_cache(url_key);
+CREATE INDEX IF NOT EXISTS idx_coordinate_cache_last_used_at ON public.coordinate_cache(last_used_at);
+
+ALTER TABLE public.coordinate_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view the coordinate cache"
+  ON public.coordinate_cache FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can delete stale coordinates"
+  ON public.coordinate_cache FOR DELETE TO authenticated
+  USING (true);
+
+-- Record the outcome of an action on cached or freshly verified coordinates.
+-- Success upserts the entry (new coordinates and fingerprint win), failure lowers its
+-- success_count and removes the entry once it is no longer reliable.
+CREATE OR REPLACE FUNCTION public.record_coordinate_cache_result(
+  p_url_key TEXT,
+  p_target_key TEXT,
+  p_viewport TEXT,
+  p_success BOOLEAN,
+  p_from_cache BOOLEAN DEFAULT false,
+  p_x DOUBLE PRECISION DEFAULT NULL,
+  p_y DOUBLE PRECISION DEFAULT NULL,
+  p_coordinate_system TEXT DEFAULT 'viewport',
+  p_dom_fingerprint TEXT DEFAULT NULL
+) RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_success THEN
+    INSERT INTO coordinate_cache (
+      url_key, target_key, viewport, x, y, coordinate_system, dom_fingerprint,
+      hit_count, created_by
+    )
+    VALUES (
+      p_url_key, p_target_key, p_viewport, p_x, p_y, p_coordinate_system, p_dom_fingerprint,
+      CASE WHEN p_from_cache THEN 1 ELSE 0 END, auth.uid()
+    )
+    ON CONFLICT (url_key, target_key, viewport) DO UPDATE
+    SET
+      x = EXCLUDED.x,
+      y = EXCLUDED.y,
+      coordinate_system = EXCLUDED.coordinate_system,
+      dom_fingerprint = EXCLUDED.dom_fingerprint,
+      success_count = coordinate_cache.success_count + 1,
+      hit_count = coordinate_cache.hit_count + EXCLUDED.hit_count,
+      last_used_at = NOW(),
+      updated_at = NOW();
+  ELSE
+    UPDATE coordinate_cache
+    SET
+      success_count = success_count - 1,
+      fail_count = fail_count + 1,
+      updated_at = NOW()
+    WHERE url_key = p_url_key AND target_key = p_target_key AND viewport = p_viewport;
+
+    DELETE FROM coordinate_cache
+    WHERE url_key = p_url_key AND target_key = p_target_key AND viewport = p_viewport
+      AND success_count <= 0;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_coordinate_cache_result(TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,7 @@
+-- Success assertions for saved procedures
+-- success_criteria is free text for the user; success_assertions holds the typed checks
+-- (element_visible, text_visible, url, title) the orchestrator runs through the Tool Server verify
+-- endpoints after the last step. A replay whose assertions fail counts as a failed run.
+
+ALTER TABLE public.saved_procedures
+  ADD COLUMN IF NOT EXISTS success_assertions JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,40 @@
+-- Versioned re-ingestion for Pipelines A and B (same scheme as pipeline_a_hybrid, see 20260212090000)
+-- Re-ingesting keeps the document id: unchanged chunks keep their embedding and agent links,
+-- removed chunks are retired instead of deleted (deleting them would cascade to the agent links).
+
+ALTER TABLE public.pipeline_a_documents
+  ADD COLUMN IF NOT EXISTS content_hash TEXT,
+  ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.pipeline_b_documents
+  ADD COLUMN IF NOT EXISTS content_hash TEXT,
+  ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.pipeline_a_chunks_raw
+  ADD COLUMN IF NOT EXISTS content_hash TEXT,
+  ADD COLUMN IF NOT EXISTS retired_at TIMESTAMPTZ;
+
+ALTER TABLE public.pipeline_b_chunks_raw
+  ADD COLUMN IF NOT EXISTS content_hash TEXT,
+  ADD COLUMN IF NOT EXISTS retired_at TIMESTAMPTZ;
+
+-- 'retired' = no longer part of the current version (kept for history, never retrieved)
+ALTER TABLE public.pipeline_a_chunks_raw
+DROP CONSTRAINT IF EXISTS pipeline_a_chunks_raw_embedding_status_check;
+
+ALTER TABLE public.pipeline_a_chunks_raw
+ADD CONSTRAINT pipeline_a_chunks_raw_embedding_status_check
+CHECK (embedding_status IN ('pending', 'processing', 'ready', 'failed', 'retired'));
+
+ALTER TABLE public.pipeline_b_chunks_raw
+DROP CONSTRAINT IF EXISTS pipeline_b_chunks_raw_embedding_status_check;
+
+ALTER TABLE public.pipeline_b_chunks_raw
+ADD CONSTRAINT pipeline_b_chunks_raw_embedding_status_check
+CHECK (embedding_status IN ('pending', 'processing', 'ready', 'failed', 'retired'));
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_a_chunks_content_hash
+  ON public.pipeline_a_chunks_raw(document_id, content_hash);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_b_chunks_content_hash
+  ON public.pipeline_b_chunks_raw(document_id, content_hash);